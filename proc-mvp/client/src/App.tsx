@@ -10,9 +10,16 @@ import VendorCreatePage from "@/pages/vendors/vendor-create";
 import RfqListPage from "@/pages/rfqs/rfq-list";
 import RfqCreatePage from "@/pages/rfqs/rfq-create";
 import RfqDetailPage from "@/pages/rfqs/rfq-detail";
+import PurchaseOrderListPage from "@/pages/purchase-orders/po-list";
+import PurchaseOrderDetailPage from "@/pages/purchase-orders/po-detail";
 import AnalyticsPage from "@/pages/analytics";
+import ExchangeRatesPage from "@/pages/exchange-rates";
+import CountryRiskPage from "@/pages/country-risk";
+import TemplatesPage from "@/pages/templates";
 import DiscoveryPage from "@/pages/discovery";
 import DiscoveryJobDetailPage from "@/pages/discovery/job-detail";
+import OrganizationPage from "@/pages/organization";
+import PortalPage from "@/pages/portal";
 
 export default function App() {
   return (
@@ -20,6 +27,7 @@ export default function App() {
       {/* Public routes */}
       <Route path="/login" element={<LoginPage />} />
       <Route path="/register" element={<RegisterPage />} />
+      <Route path="/portal/:token" element={<PortalPage />} />
 
       {/* Protected routes */}
       <Route element={<AppLayout />}>
@@ -30,9 +38,15 @@ export default function App() {
         <Route path="/rfqs" element={<RfqListPage />} />
         <Route path="/rfqs/new" element={<RfqCreatePage />} />
         <Route path="/rfqs/:id" element={<RfqDetailPage />} />
+        <Route path="/purchase-orders" element={<PurchaseOrderListPage />} />
+        <Route path="/purchase-orders/:id" element={<PurchaseOrderDetailPage />} />
         <Route path="/discovery" element={<DiscoveryPage />} />
         <Route path="/discovery/:id" element={<DiscoveryJobDetailPage />} />
         <Route path="/analytics" element={<AnalyticsPage />} />
+        <Route path="/exchange-rates" element={<ExchangeRatesPage />} />
+        <Route path="/country-risk" element={<CountryRiskPage />} />
+        <Route path="/templates" element={<TemplatesPage />} />
+        <Route path="/organization" element={<OrganizationPage />} />
       </Route>
     </Routes>
   );
@@ -3,8 +3,13 @@ import {
   LayoutDashboard,
   Building2,
   FileText,
+  ClipboardList,
   BarChart3,
   Search,
+  Coins,
+  ShieldAlert,
+  MailPlus,
+  Users,
   LogOut,
 } from "lucide-react";
 import { useAuth } from "@/contexts/auth-context";
@@ -15,11 +20,17 @@ const navItems = [
   { to: "/vendors", icon: Building2, label: "Vendors" },
   { to: "/discovery", icon: Search, label: "Discovery" },
   { to: "/rfqs", icon: FileText, label: "RFQs" },
+  { to: "/purchase-orders", icon: ClipboardList, label: "Purchase Orders" },
+  { to: "/templates", icon: MailPlus, label: "Templates" },
   { to: "/analytics", icon: BarChart3, label: "Analytics" },
+  { to: "/exchange-rates", icon: Coins, label: "Exchange Rates" },
+  { to: "/country-risk", icon: ShieldAlert, label: "Country Risk" },
+  { to: "/organization", icon: Users, label: "Organisation" },
 ];
 
 export function Sidebar() {
-  const { user, logout } = useAuth();
+  const { user, logout, switchOrganization } = useAuth();
+  const organizations = user?.organizations ?? [];
 
   return (
     <aside className="fixed inset-y-0 left-0 z-50 flex w-64 flex-col border-r border-gray-200 bg-white">
@@ -31,6 +42,30 @@ export function Sidebar() {
         <span className="text-lg font-semibold text-gray-900">ProcMVP</span>
       </div>
 
+      {/* Organisation the user is signed in to */}
+      <div className="border-b border-gray-200 px-6 py-3">
+        <p className="text-xs font-medium uppercase text-gray-400">
+          Organisation
+        </p>
+        {organizations.length > 1 ? (
+          <select
+            value={user?.organization?.id}
+            onChange={(e) => switchOrganization(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm text-gray-900 focus:border-primary-500 focus:outline-none"
+          >
+            {organizations.map((o) => (
+              <option key={o.id} value={o.id}>
+                {o.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <p className="mt-1 truncate text-sm font-medium text-gray-900">
+            {user?.organization?.name}
+          </p>
+        )}
+      </div>
+
       {/* Navigation */}
       <nav className="flex-1 space-y-1 px-3 py-4">
         {navItems.map((item) => (
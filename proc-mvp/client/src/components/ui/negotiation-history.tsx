@@ -0,0 +1,73 @@
+import { Mail, MessageCircle, Phone } from "lucide-react";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { NegotiationRound } from "@/types";
+
+const CHANNEL_ICONS = {
+  EMAIL: Mail,
+  WHATSAPP: MessageCircle,
+  CALL: Phone,
+};
+
+/** A quote's counter-offer rounds, oldest first */
+export function NegotiationHistory({
+  rounds,
+  currency,
+}: {
+  rounds: NegotiationRound[];
+  currency: string;
+}) {
+  if (rounds.length === 0) {
+    return <p className="text-xs text-gray-400">No counter-offers yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {rounds.map((r) => {
+        const Icon = CHANNEL_ICONS[r.channel];
+        const reply = r.vendorResponse ?? r.communication?.response;
+        return (
+          <li
+            key={r.id}
+            className="rounded-lg border border-gray-100 px-3 py-2 text-sm"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-gray-900">Round {r.round}</span>
+              <Icon className="h-3.5 w-3.5 text-gray-400" />
+              <span className="text-gray-600">
+                {formatCurrency(r.quotedPrice, currency)} →{" "}
+                <span className="font-medium text-gray-900">
+                  {formatCurrency(r.counterPrice, currency)}
+                </span>
+              </span>
+              {r.suggestedPrice != null &&
+                r.suggestedPrice !== r.counterPrice && (
+                  <span className="text-xs text-gray-400">
+                    (suggested {formatCurrency(r.suggestedPrice, currency)})
+                  </span>
+                )}
+              <StatusBadge status={r.status} />
+              {r.revisedPrice != null && r.status !== "SENT" && (
+                <span className="text-xs text-gray-600">
+                  now {formatCurrency(r.revisedPrice, currency)}
+                </span>
+              )}
+              <span className="ml-auto text-xs text-gray-400">
+                {formatDate(r.createdAt)}
+                {r.createdBy && ` · ${r.createdBy.name}`}
+              </span>
+            </div>
+            {r.message && (
+              <p className="mt-1 text-xs text-gray-500">{r.message}</p>
+            )}
+            {reply && (
+              <p className="mt-1 rounded bg-gray-50 px-2 py-1 text-xs text-gray-700">
+                <span className="font-medium">Vendor:</span> {reply}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
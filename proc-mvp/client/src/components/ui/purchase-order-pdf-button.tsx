@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { FileDown, Loader2 } from "lucide-react";
+import { purchaseOrderApi } from "@/lib/api";
+import type { PurchaseOrder } from "@/types";
+
+/** Downloads a purchase order's PDF */
+export function PurchaseOrderPdfButton({
+  po,
+}: {
+  po: Pick<PurchaseOrder, "id" | "poNumber">;
+}) {
+  const [loading, setLoading] = useState(false);
+
+  const download = async () => {
+    setLoading(true);
+    try {
+      const res = await purchaseOrderApi.pdf(po.id);
+      const url = URL.createObjectURL(res.data as Blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${po.poNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={download}
+      disabled={loading}
+      className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+    >
+      {loading ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <FileDown className="h-4 w-4" />
+      )}
+      PDF
+    </button>
+  );
+}
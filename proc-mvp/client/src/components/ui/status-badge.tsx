@@ -8,6 +8,8 @@ const statusStyles: Record<string, string> = {
   INACTIVE: "bg-gray-50 text-gray-700 ring-gray-600/20",
   // RFQ statuses
   DRAFT: "bg-gray-50 text-gray-700 ring-gray-600/20",
+  PENDING_APPROVAL: "bg-amber-50 text-amber-700 ring-amber-600/20",
+  APPROVED: "bg-emerald-50 text-emerald-700 ring-emerald-600/20",
   SENT: "bg-blue-50 text-blue-700 ring-blue-600/20",
   QUOTING: "bg-indigo-50 text-indigo-700 ring-indigo-600/20",
   NEGOTIATING: "bg-amber-50 text-amber-700 ring-amber-600/20",
@@ -19,6 +21,14 @@ const statusStyles: Record<string, string> = {
   UNDER_REVIEW: "bg-yellow-50 text-yellow-700 ring-yellow-600/20",
   ACCEPTED: "bg-green-50 text-green-700 ring-green-600/20",
   REJECTED: "bg-red-50 text-red-700 ring-red-600/20",
+  // Negotiation rounds (SENT, ACCEPTED shared above)
+  REVISED: "bg-indigo-50 text-indigo-700 ring-indigo-600/20",
+  DECLINED: "bg-gray-50 text-gray-700 ring-gray-600/20",
+  // Purchase orders (RECEIVED shared above)
+  ISSUED: "bg-blue-50 text-blue-700 ring-blue-600/20",
+  ACKNOWLEDGED: "bg-indigo-50 text-indigo-700 ring-indigo-600/20",
+  SHIPPED: "bg-amber-50 text-amber-700 ring-amber-600/20",
+  CLOSED: "bg-gray-50 text-gray-700 ring-gray-600/20",
   // Priority
   LOW: "bg-gray-50 text-gray-700 ring-gray-600/20",
   MEDIUM: "bg-blue-50 text-blue-700 ring-blue-600/20",
@@ -28,6 +38,8 @@ const statusStyles: Record<string, string> = {
   PENDING: "bg-amber-50 text-amber-700 ring-amber-600/20",
   RUNNING: "bg-blue-50 text-blue-700 ring-blue-600/20",
   FAILED: "bg-red-50 text-red-700 ring-red-600/20",
+  // Discovery query runs
+  SUCCEEDED: "bg-green-50 text-green-700 ring-green-600/20",
 };
 
 export function StatusBadge({ status }: { status: string }) {
@@ -5,6 +5,7 @@ import {
   useEffect,
   type ReactNode,
 } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { authApi } from "@/lib/api";
 import type { User } from "@/types";
 
@@ -12,7 +13,15 @@ interface AuthContextType {
   user: User | null;
   token: string | null;
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, name: string) => Promise<void>;
+  register: (
+    email: string,
+    password: string,
+    name: string,
+    organizationName?: string,
+  ) => Promise<void>;
+  switchOrganization: (organizationId: string) => Promise<void>;
+  /** Reload the signed-in user, e.g. after renaming the organisation */
+  refreshUser: () => Promise<void>;
   logout: () => void;
   isLoading: boolean;
 }
@@ -20,6 +29,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(
     localStorage.getItem("token"),
@@ -48,22 +58,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(res.data.user);
   };
 
-  const register = async (email: string, password: string, name: string) => {
-    const res = await authApi.register({ email, password, name });
+  const register = async (
+    email: string,
+    password: string,
+    name: string,
+    organizationName?: string,
+  ) => {
+    const res = await authApi.register({
+      email,
+      password,
+      name,
+      organizationName: organizationName || undefined,
+    });
     localStorage.setItem("token", res.data.token);
     setToken(res.data.token);
     setUser(res.data.user);
   };
 
+  // Cached queries belong to the previous organisation, so drop them all
+  const switchOrganization = async (organizationId: string) => {
+    const res = await authApi.switchOrganization(organizationId);
+    localStorage.setItem("token", res.data.token);
+    queryClient.clear();
+    setToken(res.data.token);
+    setUser(res.data.user);
+  };
+
+  const refreshUser = async () => {
+    const res = await authApi.me();
+    setUser(res.data);
+  };
+
   const logout = () => {
     localStorage.removeItem("token");
+    queryClient.clear();
     setToken(null);
     setUser(null);
   };
 
   return (
     <AuthContext.Provider
-      value={{ user, token, login, register, logout, isLoading }}
+      value={{
+        user,
+        token,
+        login,
+        register,
+        switchOrganization,
+        refreshUser,
+        logout,
+        isLoading,
+      }}
     >
       {children}
     </AuthContext.Provider>
@@ -1,4 +1,21 @@
 import axios from "axios";
+import type {
+  ApprovalPolicy,
+  BulkResultAction,
+  ComparisonProfile,
+  DeliveryEventInput,
+  DiscoveryRejectReason,
+  DiscoveryReviewStatus,
+  DocumentType,
+  OutreachChannel,
+  OutreachSequenceStep,
+  PortalQuoteInput,
+  PurchaseOrderStatus,
+  RfqStatus,
+  TemplatePreviewContext,
+  ResultFilter,
+  UserRole,
+} from "@/types";
 
 const api = axios.create({
   baseURL: "/api",
@@ -32,9 +49,39 @@ export default api;
 export const authApi = {
   login: (data: { email: string; password: string }) =>
     api.post("/auth/login", data),
-  register: (data: { email: string; password: string; name: string }) =>
-    api.post("/auth/register", data),
+  register: (data: {
+    email: string;
+    password: string;
+    name: string;
+    organizationName?: string;
+  }) => api.post("/auth/register", data),
   me: () => api.get("/auth/me"),
+  users: () => api.get("/auth/users"),
+  switchOrganization: (organizationId: string) =>
+    api.post("/auth/switch-organization", { organizationId }),
+  invitations: () => api.get("/auth/invitations"),
+  acceptInvitation: (id: string) => api.post(`/auth/invitations/${id}/accept`),
+  declineInvitation: (id: string) => api.delete(`/auth/invitations/${id}`),
+};
+
+// ─── Organization ────────────────────────────────────────────
+export const organizationApi = {
+  get: () => api.get("/organization"),
+  update: (data: {
+    name?: string;
+    senderName?: string | null;
+    senderEmail?: string | null;
+  }) => api.patch("/organization", data),
+  members: () => api.get("/organization/members"),
+  updateMember: (userId: string, role: UserRole) =>
+    api.patch(`/organization/members/${userId}`, { role }),
+  removeMember: (userId: string) =>
+    api.delete(`/organization/members/${userId}`),
+  invitations: () => api.get("/organization/invitations"),
+  invite: (data: { email: string; role: UserRole }) =>
+    api.post("/organization/invitations", data),
+  revokeInvitation: (id: string) =>
+    api.delete(`/organization/invitations/${id}`),
 };
 
 // ─── Vendors ─────────────────────────────────────────────────
@@ -45,6 +92,15 @@ export const vendorApi = {
   update: (id: string, data: Record<string, unknown>) =>
     api.patch(`/vendors/${id}`, data),
   delete: (id: string) => api.delete(`/vendors/${id}`),
+  duplicates: (id: string) => api.get(`/vendors/${id}/duplicates`),
+  merge: (id: string, duplicateId: string) =>
+    api.post(`/vendors/${id}/merge`, { duplicateId }),
+  performance: (id: string) => api.get(`/vendors/${id}/performance`),
+  recordDelivery: (id: string, data: DeliveryEventInput) =>
+    api.post(`/vendors/${id}/delivery-events`, data),
+  getScoring: () => api.get("/vendors/scoring"),
+  updateScoring: (weights: Record<string, number>) =>
+    api.put("/vendors/scoring", weights),
 };
 
 // ─── RFQs ────────────────────────────────────────────────────
@@ -55,6 +111,28 @@ export const rfqApi = {
   update: (id: string, data: Record<string, unknown>) =>
     api.patch(`/rfqs/${id}`, data),
   delete: (id: string) => api.delete(`/rfqs/${id}`),
+  statusEvents: (id: string) => api.get(`/rfqs/${id}/status-events`),
+  changeStatus: (id: string, status: RfqStatus, reason?: string) =>
+    api.post(`/rfqs/${id}/status`, { status, reason }),
+  dispatch: (
+    id: string,
+    data: { vendorIds: string[]; deadline: string; templateId?: string; customMessage?: string },
+  ) => api.post(`/rfqs/${id}/dispatch`, data),
+  invitations: (id: string) => api.get(`/rfqs/${id}/invitations`),
+  getComparisonProfile: (id: string) => api.get(`/rfqs/${id}/comparison-profile`),
+  setComparisonProfile: (id: string, profile: ComparisonProfile) =>
+    api.put(`/rfqs/${id}/comparison-profile`, profile),
+  resetComparisonProfile: (id: string) => api.delete(`/rfqs/${id}/comparison-profile`),
+  approval: (id: string) => api.get(`/rfqs/${id}/approval`),
+  submitForApproval: (id: string, comment?: string) =>
+    api.post(`/rfqs/${id}/submit`, { comment }),
+  approve: (id: string, comment?: string) =>
+    api.post(`/rfqs/${id}/approve`, { comment }),
+  reject: (id: string, comment: string) =>
+    api.post(`/rfqs/${id}/reject`, { comment }),
+  getApprovalPolicy: () => api.get("/rfqs/approval-policy"),
+  updateApprovalPolicy: (policy: ApprovalPolicy) =>
+    api.put("/rfqs/approval-policy", policy),
 };
 
 // ─── Quotes ──────────────────────────────────────────────────
@@ -62,9 +140,64 @@ export const quoteApi = {
   listByRfq: (rfqId: string) => api.get(`/quotes/rfq/${rfqId}`),
   get: (id: string) => api.get(`/quotes/${id}`),
   create: (data: Record<string, unknown>) => api.post("/quotes", data),
-  updateStatus: (id: string, status: string) =>
-    api.patch(`/quotes/${id}/status`, { status }),
+  updateStatus: (
+    id: string,
+    status: string,
+    purchaseOrder?: { incoterms?: string; notes?: string },
+  ) => api.patch(`/quotes/${id}/status`, { status, purchaseOrder }),
   compare: (rfqId: string) => api.get(`/quotes/rfq/${rfqId}/compare`),
+  downloadAttachment: (quoteId: string, attachmentId: string) =>
+    api.get(`/quotes/${quoteId}/attachments/${attachmentId}`, { responseType: "blob" }),
+  negotiation: (id: string) => api.get(`/quotes/${id}/negotiation`),
+  counterOffer: (
+    id: string,
+    data: { counterPrice: number; channel: "email" | "whatsapp" | "call"; message?: string },
+  ) => api.post(`/quotes/${id}/negotiation/rounds`, data),
+  recordResponse: (
+    id: string,
+    roundId: string,
+    data: { outcome: "ACCEPTED" | "REVISED" | "DECLINED"; response?: string; revisedPrice?: number },
+  ) => api.post(`/quotes/${id}/negotiation/rounds/${roundId}/response`, data),
+  getDefaultProfile: () => api.get("/quotes/comparison-profile"),
+  updateDefaultProfile: (profile: ComparisonProfile) =>
+    api.put("/quotes/comparison-profile", profile),
+};
+
+// ─── Purchase Orders ─────────────────────────────────────────
+export const purchaseOrderApi = {
+  list: (params?: {
+    page?: number;
+    limit?: number;
+    status?: PurchaseOrderStatus;
+    rfqId?: string;
+    vendorId?: string;
+  }) => api.get("/purchase-orders", { params }),
+  get: (id: string) => api.get(`/purchase-orders/${id}`),
+  pdf: (id: string) => api.get(`/purchase-orders/${id}/pdf`, { responseType: "blob" }),
+  send: (id: string) => api.post(`/purchase-orders/${id}/send`),
+  updateStatus: (id: string, status: PurchaseOrderStatus) =>
+    api.patch(`/purchase-orders/${id}/status`, { status }),
+};
+
+// ─── Document Numbers ────────────────────────────────────────
+export const numberingApi = {
+  list: () => api.get("/numbering"),
+  update: (type: DocumentType, format: string) =>
+    api.put(`/numbering/${type}`, { format }),
+};
+
+// ─── Vendor Portal (public, token in the URL) ────────────────
+export const portalApi = {
+  get: (token: string) => api.get(`/portal/${token}`),
+  submitQuote: (token: string, data: PortalQuoteInput, files: File[]) => {
+    const form = new FormData();
+    form.append("data", JSON.stringify(data));
+    for (const file of files) form.append("files", file);
+    // Overrides the JSON default; the browser adds the boundary
+    return api.post(`/portal/${token}/quote`, form, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+  },
 };
 
 // ─── Dashboard ───────────────────────────────────────────────
@@ -74,6 +207,72 @@ export const dashboardApi = {
   recentVendors: () => api.get("/dashboard/recent-vendors"),
 };
 
+// ─── Currencies ──────────────────────────────────────────────
+export const currencyApi = {
+  rates: (date?: string) => api.get("/currencies/rates", { params: { date } }),
+  history: (currency: string) => api.get(`/currencies/rates/${currency}/history`),
+  setRate: (data: { currency: string; rate: number; rateDate?: string }) =>
+    api.put("/currencies/rates", data),
+  deleteRate: (id: string) => api.delete(`/currencies/rates/${id}`),
+  importRates: (content: string) =>
+    api.post("/currencies/rates/import", content, {
+      headers: { "Content-Type": "text/plain" },
+    }),
+  convert: (params: { amount: number; from: string; to: string; date?: string }) =>
+    api.get("/currencies/convert", { params }),
+};
+
+// ─── Supplier Risk ───────────────────────────────────────────
+export const riskApi = {
+  countries: () => api.get("/risk/countries"),
+  setCountry: (data: { country: string; score: number; notes?: string }) =>
+    api.put("/risk/countries", data),
+  deleteCountry: (id: string) => api.delete(`/risk/countries/${id}`),
+};
+
+// ─── Message Templates ───────────────────────────────────────
+export const templateApi = {
+  list: (params?: { key?: string; channel?: OutreachChannel; language?: string }) =>
+    api.get("/templates", { params }),
+  variables: () => api.get("/templates/variables"),
+  get: (id: string) => api.get(`/templates/${id}`),
+  create: (data: {
+    key: string;
+    name: string;
+    channel: OutreachChannel;
+    language: string;
+    description?: string;
+    subject?: string;
+    body: string;
+  }) => api.post("/templates", data),
+  update: (
+    id: string,
+    data: { name?: string; description?: string | null; active?: boolean; subject?: string; body?: string },
+  ) => api.patch(`/templates/${id}`, data),
+  restoreVersion: (id: string, version: number) =>
+    api.post(`/templates/${id}/versions/${version}/restore`),
+  delete: (id: string) => api.delete(`/templates/${id}`),
+  preview: (id: string, data: TemplatePreviewContext & { version?: number }) =>
+    api.post(`/templates/${id}/preview`, data),
+  previewDraft: (
+    data: TemplatePreviewContext & { language: string; subject?: string; body: string },
+  ) => api.post("/templates/preview", data),
+};
+
+// ─── Price Benchmarks ────────────────────────────────────────
+export const priceApi = {
+  benchmark: (params: {
+    category: string;
+    country?: string;
+    currency?: string;
+    days?: number;
+    interval?: "month" | "week";
+  }) => api.get("/prices/benchmarks", { params }),
+  categories: () => api.get("/prices/categories"),
+  observations: (category: string, source?: "serp" | "quote") =>
+    api.get("/prices/observations", { params: { category, source } }),
+};
+
 // ─── Discovery ───────────────────────────────────────────────
 export const discoveryApi = {
   status: () => api.get("/discovery/status"),
@@ -84,11 +283,42 @@ export const discoveryApi = {
     maxVendorsPerQuery?: number;
     autoImport?: boolean;
     autoImportThreshold?: number;
+    searchProviders?: string[];
   }) => api.post("/discovery/jobs", data),
   listJobs: (params?: { page?: number; limit?: number; status?: string }) =>
     api.get("/discovery/jobs", { params }),
   getJob: (id: string) => api.get(`/discovery/jobs/${id}`),
+  getJobRuns: (id: string) => api.get(`/discovery/jobs/${id}/runs`),
+  getScoring: () => api.get("/discovery/scoring"),
+  updateScoring: (weights: Record<string, number>) =>
+    api.put("/discovery/scoring", weights),
   cancelJob: (id: string) => api.post(`/discovery/jobs/${id}/cancel`),
+  crawlResult: (resultId: string) =>
+    api.post(`/discovery/results/${resultId}/crawl`),
+  importResult: (resultId: string) =>
+    api.post(`/discovery/results/${resultId}/import`),
+  reviewResult: (
+    resultId: string,
+    data: {
+      status: Exclude<DiscoveryReviewStatus, "IMPORTED">;
+      rejectReason?: DiscoveryRejectReason;
+      note?: string;
+    },
+  ) => api.patch(`/discovery/results/${resultId}/review`, data),
+  assignResult: (resultId: string, assignedToId: string | null) =>
+    api.patch(`/discovery/results/${resultId}/assign`, { assignedToId }),
+  bulkResults: (data: {
+    action: BulkResultAction;
+    resultIds?: string[];
+    filter?: ResultFilter & { jobId: string };
+    rejectReason?: DiscoveryRejectReason;
+    note?: string;
+    assignedToId?: string | null;
+  }) => api.post("/discovery/results/bulk", data),
+  listViews: () => api.get("/discovery/views"),
+  createView: (data: { name: string; filters: ResultFilter; shared?: boolean }) =>
+    api.post("/discovery/views", data),
+  deleteView: (id: string) => api.delete(`/discovery/views/${id}`),
 };
 
 // ─── Outreach (contact extraction, email, WhatsApp) ────────────
@@ -102,5 +332,33 @@ export const outreachApi = {
     channel: "email" | "whatsapp";
     recipient?: string;
     customMessage?: string;
+    templateId?: string;
+    rfqId?: string;
+    deadline?: string;
   }) => api.post("/outreach/send", data),
+  whatsappWindow: (vendorId: string) =>
+    api.get(`/outreach/whatsapp/window/${vendorId}`),
+  whatsappReply: (vendorId: string, body: string) =>
+    api.post(`/outreach/whatsapp/reply/${vendorId}`, { body }),
+  recordReply: (communicationId: string, response: string) =>
+    api.post(`/outreach/communications/${communicationId}/reply`, { response }),
+  listSequences: () => api.get("/outreach/sequences"),
+  createSequence: (data: {
+    name: string;
+    description?: string;
+    steps: OutreachSequenceStep[];
+  }) => api.post("/outreach/sequences", data),
+  updateSequence: (
+    id: string,
+    data: { name?: string; description?: string; active?: boolean; steps?: OutreachSequenceStep[] },
+  ) => api.patch(`/outreach/sequences/${id}`, data),
+  deleteSequence: (id: string) => api.delete(`/outreach/sequences/${id}`),
+  enroll: (sequenceId: string, data: { vendorIds?: string[]; resultIds?: string[] }) =>
+    api.post(`/outreach/sequences/${sequenceId}/enroll`, data),
+  listEnrollments: (params: { vendorId?: string; resultId?: string; sequenceId?: string }) =>
+    api.get("/outreach/enrollments", { params }),
+  pauseEnrollment: (id: string) => api.post(`/outreach/enrollments/${id}/pause`),
+  resumeEnrollment: (id: string) => api.post(`/outreach/enrollments/${id}/resume`),
+  stopEnrollment: (id: string, reason?: string) =>
+    api.post(`/outreach/enrollments/${id}/stop`, { reason }),
 };
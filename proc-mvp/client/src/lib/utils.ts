@@ -5,6 +5,22 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+/** Offered in currency pickers; any ISO code with an exchange rate works */
+export const COMMON_CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "INR",
+  "CNY",
+  "JPY",
+  "AED",
+  "SAR",
+  "TRY",
+  "VND",
+  "MXN",
+  "BRL",
+];
+
 export function formatCurrency(amount: number, currency = "USD") {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
@@ -1,6 +1,9 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { dashboardApi } from "@/lib/api";
-import type { DashboardStats } from "@/types";
+import { Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import { dashboardApi, priceApi } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { BenchmarkCategory, DashboardStats, PriceBenchmark } from "@/types";
 
 export default function AnalyticsPage() {
   const { data: stats } = useQuery<DashboardStats>({
@@ -67,6 +70,30 @@ export default function AnalyticsPage() {
         />
       </div>
 
+      {/* Spend (quotes converted to the reporting currency) */}
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        <MetricCard
+          label="Quoted Value"
+          value={
+            stats ? formatCurrency(stats.spend.quotedValue, stats.spend.currency) : "—"
+          }
+          description={
+            stats?.spend.unconvertedCurrencies.length
+              ? `All quotes in ${stats.spend.currency}; excludes ${stats.spend.unconvertedCurrencies.join(", ")} (no exchange rate)`
+              : `All quotes, in ${stats?.spend.currency ?? "the reporting currency"}`
+          }
+        />
+        <MetricCard
+          label="Accepted Value"
+          value={
+            stats ? formatCurrency(stats.spend.acceptedValue, stats.spend.currency) : "—"
+          }
+          description="Accepted quotes"
+        />
+      </div>
+
+      <PriceBenchmarkCard />
+
       <div className="rounded-xl border border-dashed border-gray-300 p-12 text-center">
         <p className="text-sm text-gray-400">
           More detailed charts and analytics will be available as data
@@ -101,6 +128,173 @@ function FunnelBar({
   );
 }
 
+function PriceBenchmarkCard() {
+  const [selected, setSelected] = useState("");
+
+  const { data: categories } = useQuery<BenchmarkCategory[]>({
+    queryKey: ["prices", "categories"],
+    queryFn: () => priceApi.categories().then((r) => r.data),
+  });
+  const category = selected || categories?.[0]?.label || "";
+
+  const { data: benchmark, isLoading } = useQuery<PriceBenchmark>({
+    queryKey: ["prices", "benchmark", category],
+    queryFn: () => priceApi.benchmark({ category }).then((r) => r.data),
+    enabled: !!category,
+  });
+
+  const buckets = benchmark?.trend.buckets ?? [];
+  const maxMedian = Math.max(...buckets.map((b) => b.median), 0);
+  const money = (n: number) => formatCurrency(n, benchmark?.currency);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Market Prices</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Unit prices from price discovery and received quotes, last 12 months
+          </p>
+        </div>
+        {categories && categories.length > 0 && (
+          <select
+            value={category}
+            onChange={(e) => setSelected(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none"
+          >
+            {categories.map((c) => (
+              <option key={c.key} value={c.label}>
+                {c.label} ({c.observations})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {!categories || categories.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-400">
+          No price observations yet. They are collected from discovery runs
+          with price search and from received quotes.
+        </p>
+      ) : isLoading || !benchmark ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+        </div>
+      ) : !benchmark.stats ? (
+        <p className="py-8 text-center text-sm text-gray-400">
+          No prices for {category} in this period
+          {benchmark.excluded > 0 &&
+            ` (${benchmark.excluded} without an exchange rate to ${benchmark.currency})`}
+          .
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+            {(
+              [
+                ["P10", benchmark.stats.percentiles.p10],
+                ["P25", benchmark.stats.percentiles.p25],
+                ["Median", benchmark.stats.percentiles.p50],
+                ["P75", benchmark.stats.percentiles.p75],
+                ["P90", benchmark.stats.percentiles.p90],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label}>
+                <p className="text-xs font-medium uppercase text-gray-500">{label}</p>
+                <p className="mt-1 text-lg font-semibold text-gray-900">{money(value)}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            {benchmark.sampleSize} observations
+            {Object.entries(benchmark.bySource)
+              .map(([source, count]) => ` · ${count} from ${source === "serp" ? "shopping results" : "quotes"}`)
+              .join("")}
+            {benchmark.excluded > 0 &&
+              ` · ${benchmark.excluded} left out (no exchange rate)`}
+          </p>
+
+          {buckets.length > 0 && (
+            <div>
+              <div className="mb-3 flex items-center gap-2">
+                <h3 className="text-sm font-medium text-gray-700">Median by month</h3>
+                {benchmark.trend.changePct !== null && (
+                  <span
+                    className={`inline-flex items-center gap-1 text-xs font-medium ${
+                      benchmark.trend.direction === "rising"
+                        ? "text-red-600"
+                        : benchmark.trend.direction === "falling"
+                          ? "text-green-600"
+                          : "text-gray-500"
+                    }`}
+                  >
+                    {benchmark.trend.changePct >= 0 ? (
+                      <TrendingUp className="h-3.5 w-3.5" />
+                    ) : (
+                      <TrendingDown className="h-3.5 w-3.5" />
+                    )}
+                    {benchmark.trend.changePct > 0 ? "+" : ""}
+                    {benchmark.trend.changePct}%
+                  </span>
+                )}
+              </div>
+              <div className="flex items-end gap-2">
+                {buckets.map((b) => (
+                  <div
+                    key={b.period}
+                    className="flex flex-1 flex-col items-center gap-1"
+                    title={`${b.count} observations · ${money(b.min)}–${money(b.max)}`}
+                  >
+                    <span className="text-xs text-gray-500">{money(b.median)}</span>
+                    <div
+                      className="w-full rounded-t bg-primary-500"
+                      style={{
+                        height: maxMedian > 0 ? Math.max((b.median / maxMedian) * 120, 4) : 4,
+                      }}
+                    />
+                    <span className="text-xs text-gray-400">{b.period}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {benchmark.outliers.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-gray-700">
+                Outliers (outside {money(benchmark.fences!.lower)}–
+                {money(benchmark.fences!.upper)})
+              </h3>
+              <ul className="divide-y divide-gray-100 text-sm">
+                {benchmark.outliers.map((o) => (
+                  <li key={o.id} className="flex items-center justify-between py-2">
+                    <span className="truncate text-gray-700">
+                      {o.vendorName ?? "Unknown"}
+                      {o.title && <span className="text-gray-400"> · {o.title}</span>}
+                    </span>
+                    <span className="ml-4 shrink-0 text-gray-500">
+                      {formatCurrency(o.price, o.currency)} ·{" "}
+                      <span
+                        className={
+                          o.direction === "above" ? "text-red-600" : "text-amber-600"
+                        }
+                      >
+                        {o.deviationPct > 0 ? "+" : ""}
+                        {o.deviationPct}%
+                      </span>{" "}
+                      · {formatDate(o.observedAt)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function MetricCard({
   label,
   value,
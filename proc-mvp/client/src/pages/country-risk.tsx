@@ -0,0 +1,247 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, ShieldAlert, Trash2 } from "lucide-react";
+import { riskApi } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
+import { cn, formatDate } from "@/lib/utils";
+import type { CountryRisk } from "@/types";
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+/** Same thresholds as the server's country risk factor */
+function scoreClass(score: number) {
+  if (score >= 7) return "bg-red-50 text-red-700";
+  if (score >= 4) return "bg-amber-50 text-amber-700";
+  return "bg-green-50 text-green-700";
+}
+
+export default function CountryRiskPage() {
+  const { user } = useAuth();
+  const isAdmin = !!user?.platformAdmin;
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<CountryRisk | null>(null);
+
+  const { data: countries = [], isLoading } = useQuery<CountryRisk[]>({
+    queryKey: ["risk", "countries"],
+    queryFn: () => riskApi.countries().then((r) => r.data),
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => riskApi.deleteCountry(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["risk"] }),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Country Risk</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Scores from 0 (stable) to 10 (high risk) behind the country risk flag
+          in quote comparisons: 4 and up is medium, 7 and up is high
+        </p>
+      </div>
+
+      {isAdmin && (
+        <CountryRiskForm
+          key={editing?.id ?? "new"}
+          initial={editing}
+          onDone={() => setEditing(null)}
+        />
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="border-b border-gray-200 px-6 py-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <ShieldAlert className="h-5 w-5 text-primary-600" />
+            Countries
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Vendors are matched on their country name; unlisted countries
+            aren&apos;t rated.
+          </p>
+        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+          </div>
+        ) : countries.length === 0 ? (
+          <p className="px-6 py-12 text-center text-sm text-gray-400">
+            No countries rated yet.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                  Country
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                  Score
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                  Notes
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                  Updated
+                </th>
+                {isAdmin && <th className="px-6 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {countries.map((c) => (
+                <tr key={c.id}>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                    {c.country}
+                  </td>
+                  <td className="px-6 py-3 text-sm">
+                    <span
+                      className={cn(
+                        "rounded-full px-2 py-0.5 text-xs font-medium",
+                        scoreClass(c.score),
+                      )}
+                    >
+                      {c.score}/10
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {c.notes ?? "—"}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {formatDate(c.updatedAt)}
+                  </td>
+                  {isAdmin && (
+                    <td className="px-6 py-3 text-right text-sm">
+                      <button
+                        onClick={() => setEditing(c)}
+                        className="mr-3 text-primary-600 hover:text-primary-700"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Remove ${c.country}?`)) remove.mutate(c.id);
+                        }}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove"
+                      >
+                        <Trash2 className="inline h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CountryRiskForm({
+  initial,
+  onDone,
+}: {
+  initial: CountryRisk | null;
+  onDone: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    country: initial?.country ?? "",
+    score: initial ? String(initial.score) : "",
+    notes: initial?.notes ?? "",
+  });
+  const [error, setError] = useState("");
+
+  const save = useMutation({
+    mutationFn: () =>
+      riskApi.setCountry({
+        country: form.country,
+        score: Number(form.score),
+        notes: form.notes || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["risk"] });
+      setForm({ country: "", score: "", notes: "" });
+      onDone();
+    },
+    onError: (err: unknown) => setError(apiError(err, "Failed to save country")),
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    save.mutate();
+  };
+
+  const inputClass =
+    "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+    >
+      <h2 className="text-lg font-semibold text-gray-900">
+        {initial ? `Edit ${initial.country}` : "Rate a country"}
+      </h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        Replaces the score of a country already listed.
+      </p>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-4">
+        <input
+          required
+          value={form.country}
+          onChange={(e) => setForm({ ...form, country: e.target.value })}
+          placeholder="Country"
+          className={inputClass}
+        />
+        <input
+          required
+          type="number"
+          min="0"
+          max="10"
+          step="0.5"
+          value={form.score}
+          onChange={(e) => setForm({ ...form, score: e.target.value })}
+          placeholder="Score (0–10)"
+          className={inputClass}
+        />
+        <input
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          placeholder="Notes (optional)"
+          className={cn(inputClass, "sm:col-span-2")}
+        />
+      </div>
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <div className="mt-4 flex justify-end gap-2">
+        {initial && (
+          <button
+            type="button"
+            onClick={onDone}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={save.isPending}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {save.isPending ? "Saving…" : "Save"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -9,14 +9,19 @@ import {
   Globe,
   Package,
   Zap,
+  SlidersHorizontal,
 } from "lucide-react";
 import { discoveryApi } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { formatDate } from "@/lib/utils";
 import type {
   DiscoveryJob,
   DiscoveryStatus,
   PaginatedResponse,
+  ScoringConfig,
+  ScoringSignalKey,
+  ScoringWeights,
 } from "@/types";
 
 const POLL_INTERVAL_MS = 2000;
@@ -29,6 +34,7 @@ function parseList(value: string): string[] {
 }
 
 export default function DiscoveryPage() {
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const [need, setNeed] = useState("");
   const [productCategories, setProductCategories] = useState("");
@@ -36,6 +42,8 @@ export default function DiscoveryPage() {
   const [maxVendorsPerQuery, setMaxVendorsPerQuery] = useState(10);
   const [autoImport, setAutoImport] = useState(false);
   const [autoImportThreshold, setAutoImportThreshold] = useState(0.8);
+  // Empty = let the server use its default providers
+  const [searchProviders, setSearchProviders] = useState<string[]>([]);
   const [page, setPage] = useState(1);
 
   const { data: status } = useQuery<DiscoveryStatus>({
@@ -64,6 +72,7 @@ export default function DiscoveryPage() {
       maxVendorsPerQuery: number;
       autoImport: boolean;
       autoImportThreshold: number;
+      searchProviders?: string[];
     }) => discoveryApi.createJob(input),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["discovery"] });
@@ -85,9 +94,15 @@ export default function DiscoveryPage() {
       maxVendorsPerQuery,
       autoImport,
       autoImportThreshold,
+      searchProviders: searchProviders.length ? searchProviders : undefined,
     });
   };
 
+  const toggleProvider = (name: string) =>
+    setSearchProviders((prev) =>
+      prev.includes(name) ? prev.filter((p) => p !== name) : [...prev, name],
+    );
+
   const jobs = jobsData?.data ?? [];
   const pagination = jobsData?.pagination;
   const hasActiveJobs = (jobsData?.activeJobCount ?? 0) > 0;
@@ -117,7 +132,8 @@ export default function DiscoveryPage() {
           </div>
           <div className="text-xs text-gray-400">
             OpenAI: {status.capabilities.openai ? "✓" : "—"} · SerpAPI:{" "}
-            {status.capabilities.serpapi ? "✓" : "—"}
+            {status.capabilities.serpapi ? "✓" : "—"} · Bing:{" "}
+            {status.capabilities.bing ? "✓" : "—"}
           </div>
         </div>
       )}
@@ -193,6 +209,47 @@ export default function DiscoveryPage() {
                   className="w-full rounded-lg border border-gray-300 px-3 py-2.5 text-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none"
                 />
               </div>
+              {status?.providers && (
+                <div>
+                  <label className="mb-1.5 block text-sm font-medium text-gray-700">
+                    Search providers
+                  </label>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {status.providers
+                      .filter((p) => p.available)
+                      .map((p) => (
+                        <label
+                          key={p.name}
+                          className="flex items-center gap-2 text-sm text-gray-700"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={
+                              searchProviders.length
+                                ? searchProviders.includes(p.name)
+                                : p.defaultEnabled
+                            }
+                            onChange={() =>
+                              searchProviders.length
+                                ? toggleProvider(p.name)
+                                : setSearchProviders(
+                                    status.providers
+                                      .filter((d) => d.defaultEnabled !== (d.name === p.name))
+                                      .map((d) => d.name),
+                                  )
+                            }
+                            className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          {p.label}
+                        </label>
+                      ))}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Used in web-search mode. Results found by several providers
+                    are merged.
+                  </p>
+                </div>
+              )}
               <div className="flex items-center gap-3">
                 <input
                   type="checkbox"
@@ -249,7 +306,7 @@ export default function DiscoveryPage() {
         </div>
 
         {/* Job list */}
-        <div className="lg:col-span-2">
+        <div className="space-y-8 lg:col-span-2">
           <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
             <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
               <h2 className="text-lg font-semibold text-gray-900">
@@ -359,8 +416,84 @@ export default function DiscoveryPage() {
               </div>
             )}
           </div>
+
+          {user?.role === "ADMIN" && <ScoringWeightsCard />}
         </div>
       </div>
     </div>
   );
 }
+
+// ─── Confidence scoring weights (admin) ──────────────────────
+
+function ScoringWeightsCard() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ScoringWeights | null>(null);
+
+  const { data: config } = useQuery<ScoringConfig>({
+    queryKey: ["discovery", "scoring"],
+    queryFn: () => discoveryApi.getScoring().then((r) => r.data),
+  });
+
+  const save = useMutation({
+    mutationFn: (weights: ScoringWeights) => discoveryApi.updateScoring(weights),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["discovery", "scoring"] });
+      setDraft(null);
+    },
+  });
+
+  if (!config) return null;
+
+  const weights = draft ?? config.weights;
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <SlidersHorizontal className="h-5 w-5 text-primary-600" />
+        Confidence Scoring
+      </h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        How much each signal counts towards a result&apos;s confidence. Applies
+        to results found after saving.
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {(Object.keys(config.labels) as ScoringSignalKey[]).map((key) => (
+          <label key={key} className="flex items-center gap-3 text-sm">
+            <span className="w-44 text-gray-700">{config.labels[key]}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={weights[key]}
+              onChange={(e) =>
+                setDraft({ ...weights, [key]: Number(e.target.value) })
+              }
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-xs text-gray-500">
+              {total > 0 ? `${Math.round((weights[key] / total) * 100)}%` : "—"}
+            </span>
+          </label>
+        ))}
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={() => setDraft(config.defaults)}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={() => save.mutate(weights)}
+          disabled={!draft || total === 0 || save.isPending}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {save.isPending ? "Saving…" : "Save weights"}
+        </button>
+      </div>
+    </div>
+  );
+}
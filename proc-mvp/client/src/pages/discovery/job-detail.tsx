@@ -16,18 +16,76 @@ import {
   MessageCircle,
   Search,
   ShoppingBag,
+  ChevronDown,
+  ChevronRight,
+  ListTree,
+  ScanSearch,
+  Star,
+  Bookmark,
+  Trash2,
+  UserRound,
 } from "lucide-react";
-import { discoveryApi, outreachApi } from "@/lib/api";
+import { authApi, discoveryApi, outreachApi } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
 import { StatusBadge } from "@/components/ui/status-badge";
-import { formatDate } from "@/lib/utils";
-import type { DiscoveryJobDetail } from "@/types";
+import { cn, formatDate } from "@/lib/utils";
+import type {
+  BulkResultAction,
+  ConfidenceBreakdown,
+  DiscoveryJobDetail,
+  DiscoveryQueryRun,
+  DiscoveryRejectReason,
+  DiscoveryResult,
+  DiscoveryResultView,
+  DiscoveryReviewStatus,
+  ResultFilter,
+  User,
+  WebsiteCrawl,
+} from "@/types";
 
 const POLL_INTERVAL_MS = 2000;
 
+const REVIEW_STATUSES: Array<{
+  value: DiscoveryReviewStatus;
+  label: string;
+  className: string;
+}> = [
+  { value: "NEW", label: "New", className: "bg-blue-50 text-blue-700" },
+  { value: "NEEDS_RESEARCH", label: "Needs research", className: "bg-purple-50 text-purple-700" },
+  { value: "SHORTLISTED", label: "Shortlisted", className: "bg-amber-50 text-amber-700" },
+  { value: "SKIPPED", label: "Skipped", className: "bg-gray-100 text-gray-600" },
+  { value: "REJECTED", label: "Rejected", className: "bg-red-50 text-red-700" },
+  { value: "IMPORTED", label: "Imported", className: "bg-green-50 text-green-700" },
+];
+
+const REJECT_REASONS: Array<{ value: DiscoveryRejectReason; label: string }> = [
+  { value: "NOT_A_MANUFACTURER", label: "Not a manufacturer" },
+  { value: "WRONG_PRODUCT", label: "Wrong product" },
+  { value: "WRONG_COUNTRY", label: "Wrong country" },
+  { value: "DUPLICATE", label: "Duplicate" },
+  { value: "NO_CONTACT", label: "No contact details" },
+  { value: "INSUFFICIENT_CERTIFICATIONS", label: "Missing required certifications" },
+  { value: "TOO_SMALL", label: "Too small" },
+  { value: "OTHER", label: "Other" },
+];
+
 export default function DiscoveryJobDetailPage() {
   const { id } = useParams<{ id: string }>();
   const queryClient = useQueryClient();
   const [outreachResultId, setOutreachResultId] = useState<string | null>(null);
+  const [breakdownResultId, setBreakdownResultId] = useState<string | null>(
+    null,
+  );
+  const { user } = useAuth();
+  const canReview = user?.role !== "VIEWER";
+  const [filter, setFilter] = useState<ResultFilter>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reviewError, setReviewError] = useState("");
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["users"],
+    queryFn: () => authApi.users().then((r) => r.data),
+  });
 
   const { data: outreachStatus } = useQuery({
     queryKey: ["outreach", "status"],
@@ -44,7 +102,10 @@ export default function DiscoveryJobDetailPage() {
     enabled: !!id,
     refetchInterval: (query) => {
       const data = query.state.data;
-      return data?.isRunning ?? data?.status === "RUNNING"
+      // Keep polling while queued too: a worker may claim the job at any time
+      return data?.isRunning ||
+        data?.status === "RUNNING" ||
+        data?.status === "PENDING"
         ? POLL_INTERVAL_MS
         : false;
     },
@@ -66,6 +127,14 @@ export default function DiscoveryJobDetailPage() {
     },
   });
 
+  const crawlResult = useMutation({
+    mutationFn: (resultId: string) =>
+      discoveryApi.crawlResult(resultId).then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["discovery", "job", id] });
+    },
+  });
+
   const sendOutreach = useMutation({
     mutationFn: (params: {
       resultId?: string;
@@ -79,6 +148,67 @@ export default function DiscoveryJobDetailPage() {
     },
   });
 
+  const onReviewError = (err: unknown) =>
+    setReviewError(
+      (err as { response?: { data?: { error?: string } } })?.response?.data
+        ?.error ?? "Update failed",
+    );
+  const refreshJob = () => {
+    setReviewError("");
+    queryClient.invalidateQueries({ queryKey: ["discovery", "job", id] });
+  };
+
+  const reviewResult = useMutation({
+    mutationFn: (params: {
+      resultId: string;
+      status: Exclude<DiscoveryReviewStatus, "IMPORTED">;
+      rejectReason?: DiscoveryRejectReason;
+    }) => {
+      const { resultId, ...data } = params;
+      return discoveryApi.reviewResult(resultId, data);
+    },
+    onSuccess: refreshJob,
+    onError: onReviewError,
+  });
+
+  const assignResult = useMutation({
+    mutationFn: (params: { resultId: string; assignedToId: string | null }) =>
+      discoveryApi.assignResult(params.resultId, params.assignedToId),
+    onSuccess: refreshJob,
+    onError: onReviewError,
+  });
+
+  const importResult = useMutation({
+    mutationFn: (resultId: string) => discoveryApi.importResult(resultId),
+    onSuccess: () => {
+      refreshJob();
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+    onError: onReviewError,
+  });
+
+  const bulkUpdate = useMutation({
+    mutationFn: (params: {
+      action: BulkResultAction;
+      rejectReason?: DiscoveryRejectReason;
+      assignedToId?: string | null;
+    }) =>
+      discoveryApi
+        .bulkResults({
+          ...params,
+          // Selected rows, or else everything the current filter shows
+          ...(selected.size > 0
+            ? { resultIds: [...selected] }
+            : { filter: { ...filter, jobId: id! } }),
+        })
+        .then((r) => r.data),
+    onSuccess: () => {
+      setSelected(new Set());
+      refreshJob();
+    },
+    onError: onReviewError,
+  });
+
   if (!id) {
     return (
       <div className="text-center text-gray-500">Invalid job ID</div>
@@ -112,6 +242,14 @@ export default function DiscoveryJobDetailPage() {
   ) ?? [];
   const importedResults = job.results?.filter((r) => r.imported) ?? [];
   const skippedResults = job.results?.filter((r) => r.skipped) ?? [];
+  const visibleResults =
+    job.results?.filter((r) => matchesResultFilter(r, filter)) ?? [];
+  const toggleSelected = (resultId: string) => {
+    const next = new Set(selected);
+    if (next.has(resultId)) next.delete(resultId);
+    else next.add(resultId);
+    setSelected(next);
+  };
 
   return (
     <div className="space-y-8">
@@ -172,6 +310,11 @@ export default function DiscoveryJobDetailPage() {
                 </span>
                 <span>Mode: {job.discoveryMode}</span>
                 <span>Created {formatDate(job.createdAt)}</span>
+                {job.attempts > 1 && (
+                  <span>
+                    Attempt {job.attempts}/{job.maxAttempts}
+                  </span>
+                )}
                 {outreachStatus && (
                   <span className="text-xs text-gray-400">
                     Email: {outreachStatus.email ? "✓" : "—"} · WhatsApp:{" "}
@@ -244,7 +387,43 @@ export default function DiscoveryJobDetailPage() {
             {job.summary?.skipped ?? skippedResults.length} skipped
           </p>
         </div>
+        {job.results?.length > 0 && (
+          <ResultFilterBar
+            results={job.results}
+            counts={job.summary?.review ?? {}}
+            filter={filter}
+            onChange={(f) => {
+              setFilter(f);
+              setSelected(new Set());
+            }}
+            users={users ?? []}
+            currentUserId={user?.id}
+          />
+        )}
+        {canReview && job.results?.length > 0 && (
+          <BulkActionBar
+            targetCount={selected.size > 0 ? selected.size : visibleResults.length}
+            targetLabel={selected.size > 0 ? "selected" : "matching"}
+            users={users ?? []}
+            isPending={bulkUpdate.isPending}
+            lastResult={bulkUpdate.data}
+            onAction={(params) => bulkUpdate.mutate(params)}
+            onClearSelection={
+              selected.size > 0 ? () => setSelected(new Set()) : undefined
+            }
+          />
+        )}
+        {reviewError && (
+          <div className="mx-6 mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+            {reviewError}
+          </div>
+        )}
         <div className="divide-y divide-gray-100">
+          {job.results?.length > 0 && visibleResults.length === 0 && (
+            <p className="py-10 text-center text-sm text-gray-500">
+              No results match these filters.
+            </p>
+          )}
           {!job.results?.length ? (
             <div className="py-16 text-center">
               {isRunning ? (
@@ -261,12 +440,25 @@ export default function DiscoveryJobDetailPage() {
               )}
             </div>
           ) : (
-            job.results.map((result) => (
+            visibleResults.map((result) => (
               <div
                 key={result.id}
-                className="flex items-start justify-between gap-4 px-6 py-4"
+                className={cn(
+                  "flex items-start justify-between gap-4 px-6 py-4",
+                  selected.has(result.id) && "bg-primary-50/40",
+                )}
               >
                 <div className="flex min-w-0 flex-1 gap-4">
+                  {canReview && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(result.id)}
+                      onChange={() => toggleSelected(result.id)}
+                      disabled={result.reviewStatus === "IMPORTED"}
+                      className="mt-3 h-4 w-4 rounded border-gray-300 text-primary-600"
+                      aria-label={`Select ${result.companyName}`}
+                    />
+                  )}
                   <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-gray-100">
                     <Building2 className="h-5 w-5 text-gray-500" />
                   </div>
@@ -275,16 +467,11 @@ export default function DiscoveryJobDetailPage() {
                       <p className="font-medium text-gray-900">
                         {result.companyName}
                       </p>
-                      {result.imported && (
-                        <span className="inline-flex items-center gap-1 rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
-                          <Check className="h-3 w-3" />
-                          Imported
-                        </span>
-                      )}
-                      {result.skipped && (
-                        <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
-                          <X className="h-3 w-3" />
-                          Skipped
+                      <ReviewStatusBadge status={result.reviewStatus} />
+                      {result.assignedTo && (
+                        <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+                          <UserRound className="h-3 w-3" />
+                          {result.assignedTo.name}
                         </span>
                       )}
                     </div>
@@ -334,21 +521,79 @@ export default function DiscoveryJobDetailPage() {
                               ? `from ${result.priceCurrency ?? "USD"} ${result.priceMin.toLocaleString()}`
                               : `up to ${result.priceCurrency ?? "USD"} ${result.priceMax!.toLocaleString()}`}
                         </span>
+                        {result.normalizedCurrency &&
+                          result.normalizedCurrency !== result.priceCurrency &&
+                          result.priceMinNormalized != null &&
+                          result.priceMaxNormalized != null && (
+                            <span className="text-emerald-700">
+                              ≈ {result.normalizedCurrency}{" "}
+                              {Math.round(result.priceMinNormalized).toLocaleString()}–
+                              {Math.round(result.priceMaxNormalized).toLocaleString()}
+                            </span>
+                          )}
                         <span className="text-emerald-600">(SERP)</span>
                       </div>
                     )}
+                    {result.rawData?.crawl && (
+                      <CrawlSummary crawl={result.rawData.crawl} />
+                    )}
                     {result.skipped && result.skipReason && (
                       <p className="mt-1 text-xs text-gray-500">
                         {result.skipReason}
+                        {result.matchedVendorId && (
+                          <Link
+                            to={`/vendors/${result.matchedVendorId}`}
+                            className="ml-1 text-primary-600 hover:text-primary-700"
+                          >
+                            View vendor
+                          </Link>
+                        )}
                       </p>
                     )}
                   </div>
                 </div>
                 <div className="flex shrink-0 flex-col items-end gap-2">
                   {!result.imported && !result.skipped && (
-                    <span className="text-xs text-gray-400">
+                    <button
+                      onClick={() =>
+                        setBreakdownResultId(
+                          breakdownResultId === result.id ? null : result.id,
+                        )
+                      }
+                      disabled={!result.confidenceBreakdown}
+                      className="text-xs text-gray-400 hover:text-gray-600 disabled:hover:text-gray-400"
+                      title="Why this score?"
+                    >
                       {(result.confidence * 100).toFixed(0)}% confidence
-                    </span>
+                    </button>
+                  )}
+                  {breakdownResultId === result.id &&
+                    result.confidenceBreakdown && (
+                      <ConfidenceBreakdownList
+                        breakdown={result.confidenceBreakdown}
+                      />
+                    )}
+                  {canReview && result.reviewStatus !== "IMPORTED" && (
+                    <ResultReviewActions
+                      result={result}
+                      users={users ?? []}
+                      disabled={
+                        reviewResult.isPending ||
+                        assignResult.isPending ||
+                        importResult.isPending
+                      }
+                      onReview={(status, rejectReason) =>
+                        reviewResult.mutate({
+                          resultId: result.id,
+                          status,
+                          rejectReason,
+                        })
+                      }
+                      onAssign={(assignedToId) =>
+                        assignResult.mutate({ resultId: result.id, assignedToId })
+                      }
+                      onImport={() => importResult.mutate(result.id)}
+                    />
                   )}
                   {!result.skipped && (
                     <div className="flex flex-wrap gap-1.5">
@@ -368,6 +613,22 @@ export default function DiscoveryJobDetailPage() {
                           Extract
                         </button>
                       )}
+                      {result.website && !result.imported && (
+                        <button
+                          onClick={() => crawlResult.mutate(result.id)}
+                          disabled={crawlResult.isPending}
+                          className="inline-flex items-center gap-1 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          title="Crawl website for contacts, address, certifications and products"
+                        >
+                          {crawlResult.isPending &&
+                          crawlResult.variables === result.id ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <ScanSearch className="h-3 w-3" />
+                          )}
+                          {result.rawData?.crawl ? "Recrawl" : "Crawl"}
+                        </button>
+                      )}
                       {(result.email || result.vendorId) &&
                         outreachStatus?.email && (
                           <button
@@ -536,6 +797,841 @@ export default function DiscoveryJobDetailPage() {
           </div>
         </div>
       )}
+
+      {/* Query trace */}
+      <QueryTimeline
+        jobId={job.id}
+        isRunning={isRunning}
+        results={job.results ?? []}
+      />
+    </div>
+  );
+}
+
+// ─── Confidence breakdown ────────────────────────────────────
+
+function ConfidenceBreakdownList({
+  breakdown,
+}: {
+  breakdown: ConfidenceBreakdown;
+}) {
+  return (
+    <ul className="w-72 space-y-1.5 rounded-lg border border-gray-200 bg-gray-50 p-3 text-xs">
+      {breakdown.signals.map((s) => (
+        <li key={s.key}>
+          <div className="flex justify-between gap-2">
+            <span className="text-gray-700">{s.label}</span>
+            <span className="font-medium text-gray-900">
+              {s.value === null
+                ? "n/a"
+                : `+${(s.contribution * 100).toFixed(0)}`}
+            </span>
+          </div>
+          <p className="truncate text-gray-500" title={s.detail}>
+            {s.value !== null && `${(s.value * 100).toFixed(0)}% × w${s.weight} · `}
+            {s.detail}
+          </p>
+        </li>
+      ))}
+      <li className="flex justify-between border-t border-gray-200 pt-1.5 font-semibold text-gray-900">
+        <span>Confidence</span>
+        <span>{(breakdown.score * 100).toFixed(0)}%</span>
+      </li>
+    </ul>
+  );
+}
+
+// ─── Query trace timeline ────────────────────────────────────
+
+function CrawlSummary({ crawl }: { crawl: WebsiteCrawl }) {
+  const socials = Object.keys(crawl.socialLinks);
+  return (
+    <div className="mt-1.5 space-y-1 rounded-md bg-gray-50 px-2 py-1.5 text-xs text-gray-600">
+      <p className="text-gray-500">
+        Crawled {crawl.pages.length} page{crawl.pages.length === 1 ? "" : "s"}
+        {crawl.blockedByRobots.length > 0 &&
+          ` · ${crawl.blockedByRobots.length} blocked by robots.txt`}
+        {" · "}
+        {formatDate(crawl.crawledAt)}
+      </p>
+      {crawl.addresses[0] && <p>{crawl.addresses[0]}</p>}
+      {(crawl.emails.length > 1 || crawl.phones.length > 1) && (
+        <p>
+          {[...crawl.emails, ...crawl.phones].join(" · ")}
+        </p>
+      )}
+      {crawl.certifications.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {crawl.certifications.map((c) => (
+            <span
+              key={c}
+              className="rounded bg-blue-50 px-1.5 py-0.5 text-blue-700"
+            >
+              {c}
+            </span>
+          ))}
+        </div>
+      )}
+      {crawl.products.length > 0 && (
+        <p>
+          Products: {crawl.products.slice(0, 6).join(", ")}
+          {crawl.products.length > 6 && ` +${crawl.products.length - 6} more`}
+        </p>
+      )}
+      {(crawl.yearFounded || socials.length > 0) && (
+        <p className="flex flex-wrap gap-x-3">
+          {crawl.yearFounded && <span>Founded {crawl.yearFounded}</span>}
+          {socials.map((network) => (
+            <a
+              key={network}
+              href={crawl.socialLinks[network]}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="capitalize text-primary-600 hover:underline"
+            >
+              {network}
+            </a>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function QueryTimeline({
+  jobId,
+  isRunning,
+  results,
+}: {
+  jobId: string;
+  isRunning: boolean;
+  results: DiscoveryResult[];
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: runs } = useQuery<DiscoveryQueryRun[]>({
+    queryKey: ["discovery", "job", jobId, "runs"],
+    queryFn: () => discoveryApi.getJobRuns(jobId).then((r) => r.data.data),
+    refetchInterval: isRunning ? POLL_INTERVAL_MS : false,
+  });
+
+  if (!runs?.length) return null;
+
+  const totalTokens = runs.reduce((sum, r) => sum + (r.totalTokens ?? 0), 0);
+  const failed = runs.filter((r) => r.status === "FAILED").length;
+  const resultNames = new Map(results.map((r) => [r.id, r.companyName]));
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <ListTree className="h-5 w-5 text-primary-600" />
+          Query Trace ({runs.length})
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          What each search query sent and received
+          {totalTokens > 0 && <> · {totalTokens.toLocaleString()} tokens</>}
+          {failed > 0 && <> · {failed} failed</>}
+        </p>
+      </div>
+      <ol className="divide-y divide-gray-100">
+        {runs.map((run) => {
+          const open = expanded === run.id;
+          return (
+            <li key={run.id} className="px-6 py-3">
+              <button
+                onClick={() => setExpanded(open ? null : run.id)}
+                className="flex w-full items-center gap-3 text-left"
+              >
+                {open ? (
+                  <ChevronDown className="h-4 w-4 shrink-0 text-gray-400" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 shrink-0 text-gray-400" />
+                )}
+                <span className="w-20 shrink-0 text-xs text-gray-400">
+                  {new Date(run.startedAt).toLocaleTimeString()}
+                </span>
+                <span className="min-w-0 flex-1 truncate text-sm text-gray-900">
+                  {run.query}
+                </span>
+                {run.attempt > 1 && (
+                  <span className="text-xs text-gray-400">
+                    attempt {run.attempt}
+                  </span>
+                )}
+                <span className="text-xs text-gray-500">
+                  {run.vendorsExtracted} vendors
+                </span>
+                {run.durationMs != null && (
+                  <span className="w-14 text-right text-xs text-gray-400">
+                    {(run.durationMs / 1000).toFixed(1)}s
+                  </span>
+                )}
+                <StatusBadge status={run.status} />
+              </button>
+
+              {open && <QueryRunDetail run={run} resultNames={resultNames} />}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+function QueryRunDetail({
+  run,
+  resultNames,
+}: {
+  run: DiscoveryQueryRun;
+  resultNames: Map<string, string>;
+}) {
+  return (
+    <div className="mt-3 space-y-4 pl-7 text-sm">
+      {run.error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-red-700">
+          {run.error}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Mode: {run.mode} · {run.productCategory} in {run.country}
+        {run.priceSampleSize != null && (
+          <> · {run.priceSampleSize} price samples</>
+        )}
+      </p>
+
+      {run.providers && run.providers.length > 0 && (
+        <TraceSection title="Search providers">
+          <ul className="space-y-1 text-xs">
+            {run.providers.map((p) => (
+              <li key={p.provider} className="flex gap-2">
+                <span className="font-medium text-gray-700">{p.provider}</span>
+                <span className="text-gray-500">
+                  {p.resultCount} results · {p.durationMs}ms
+                </span>
+                {p.error && <span className="text-red-600">{p.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </TraceSection>
+      )}
+
+      {run.providerResults && run.providerResults.length > 0 && (
+        <TraceSection title={`Search results (${run.providerResults.length})`}>
+          <ul className="space-y-2 text-xs">
+            {run.providerResults.map((r) => (
+              <li key={r.url}>
+                <a
+                  href={r.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-primary-600 hover:underline"
+                >
+                  {r.title || r.url}
+                </a>
+                <span className="ml-2 text-gray-400">
+                  {r.sources.join(", ")}
+                </span>
+                <p className="text-gray-500">{r.snippet}</p>
+              </li>
+            ))}
+          </ul>
+        </TraceSection>
+      )}
+
+      {run.llmMessages && (
+        <TraceSection
+          title={`LLM prompt${run.llmModel ? ` (${run.llmModel})` : ""}`}
+        >
+          {run.llmMessages.map((m, i) => (
+            <div key={i} className="mb-2">
+              <p className="text-xs font-medium uppercase text-gray-400">
+                {m.role}
+              </p>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs text-gray-700">
+                {m.content}
+              </pre>
+            </div>
+          ))}
+        </TraceSection>
+      )}
+
+      {run.llmResponse && (
+        <TraceSection
+          title={`LLM response${
+            run.totalTokens != null
+              ? ` · ${run.promptTokens ?? 0} + ${run.completionTokens ?? 0} tokens`
+              : ""
+          }${run.llmMs != null ? ` · ${(run.llmMs / 1000).toFixed(1)}s` : ""}`}
+        >
+          <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs text-gray-700">
+            {run.llmResponse}
+          </pre>
+        </TraceSection>
+      )}
+
+      {run.resultIds.length > 0 && (
+        <TraceSection title={`Produced results (${run.resultIds.length})`}>
+          <p className="text-xs text-gray-600">
+            {run.resultIds
+              .map((id) => resultNames.get(id) ?? id.slice(0, 8))
+              .join(" · ")}
+          </p>
+        </TraceSection>
+      )}
+    </div>
+  );
+}
+
+function TraceSection({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <h4 className="mb-1 text-xs font-semibold text-gray-700">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+/** Client-side twin of buildResultWhere in discovery-review.service.ts */
+function matchesResultFilter(result: DiscoveryResult, filter: ResultFilter) {
+  if (filter.status?.length && !filter.status.includes(result.reviewStatus)) {
+    return false;
+  }
+  if (
+    filter.country &&
+    result.country?.toLowerCase() !== filter.country.toLowerCase()
+  ) {
+    return false;
+  }
+  if (filter.minConfidence !== undefined && result.confidence < filter.minConfidence) {
+    return false;
+  }
+  if (filter.maxConfidence !== undefined && result.confidence > filter.maxConfidence) {
+    return false;
+  }
+  if (filter.certification && !result.certifications.includes(filter.certification)) {
+    return false;
+  }
+  if (filter.assignedToId) {
+    const assignee = result.assignedToId ?? null;
+    return filter.assignedToId === "unassigned"
+      ? assignee === null
+      : assignee === filter.assignedToId;
+  }
+  return true;
+}
+
+function ReviewStatusBadge({ status }: { status: DiscoveryReviewStatus }) {
+  const config = REVIEW_STATUSES.find((s) => s.value === status);
+  if (!config || status === "NEW") return null;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium",
+        config.className,
+      )}
+    >
+      {status === "IMPORTED" && <Check className="h-3 w-3" />}
+      {config.label}
+    </span>
+  );
+}
+
+const selectClass =
+  "rounded-lg border border-gray-300 px-2 py-1.5 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none";
+
+function ResultFilterBar({
+  results,
+  counts,
+  filter,
+  onChange,
+  users,
+  currentUserId,
+}: {
+  results: DiscoveryResult[];
+  counts: Partial<Record<DiscoveryReviewStatus, number>>;
+  filter: ResultFilter;
+  onChange: (filter: ResultFilter) => void;
+  users: User[];
+  currentUserId?: string;
+}) {
+  const queryClient = useQueryClient();
+  const [activeViewId, setActiveViewId] = useState("");
+  const [savingView, setSavingView] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [viewShared, setViewShared] = useState(false);
+
+  const { data: views } = useQuery<DiscoveryResultView[]>({
+    queryKey: ["discovery", "views"],
+    queryFn: () => discoveryApi.listViews().then((r) => r.data),
+  });
+
+  const createView = useMutation({
+    mutationFn: () =>
+      discoveryApi
+        .createView({ name: viewName, filters: filter, shared: viewShared })
+        .then((r) => r.data),
+    onSuccess: (view: DiscoveryResultView) => {
+      queryClient.invalidateQueries({ queryKey: ["discovery", "views"] });
+      setActiveViewId(view.id);
+      setSavingView(false);
+      setViewName("");
+      setViewShared(false);
+    },
+  });
+
+  const deleteView = useMutation({
+    mutationFn: (viewId: string) => discoveryApi.deleteView(viewId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["discovery", "views"] });
+      setActiveViewId("");
+    },
+  });
+
+  const update = (patch: Partial<ResultFilter>) => {
+    setActiveViewId("");
+    onChange({ ...filter, ...patch });
+  };
+  const toggleStatus = (status: DiscoveryReviewStatus) => {
+    const current = filter.status ?? [];
+    const next = current.includes(status)
+      ? current.filter((s) => s !== status)
+      : [...current, status];
+    update({ status: next.length ? next : undefined });
+  };
+
+  const countries = [
+    ...new Set(results.map((r) => r.country).filter((c): c is string => !!c)),
+  ].sort();
+  const certifications = [...new Set(results.flatMap((r) => r.certifications))].sort();
+  const activeView = views?.find((v) => v.id === activeViewId);
+  const hasFilter = Object.values(filter).some((v) => v !== undefined);
+
+  return (
+    <div className="space-y-3 border-b border-gray-200 px-6 py-4">
+      <div className="flex flex-wrap gap-1.5">
+        <button
+          onClick={() => update({ status: undefined })}
+          className={cn(
+            "rounded-full px-3 py-1 text-xs font-medium",
+            !filter.status?.length
+              ? "bg-gray-900 text-white"
+              : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+          )}
+        >
+          All ({results.length})
+        </button>
+        {REVIEW_STATUSES.map((s) => (
+          <button
+            key={s.value}
+            onClick={() => toggleStatus(s.value)}
+            className={cn(
+              "rounded-full px-3 py-1 text-xs font-medium",
+              filter.status?.includes(s.value)
+                ? "bg-gray-900 text-white"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+            )}
+          >
+            {s.label} ({counts[s.value] ?? 0})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.country ?? ""}
+          onChange={(e) => update({ country: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">All countries</option>
+          {countries.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.certification ?? ""}
+          onChange={(e) => update({ certification: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">Any certification</option>
+          {certifications.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filter.assignedToId ?? ""}
+          onChange={(e) => update({ assignedToId: e.target.value || undefined })}
+          className={selectClass}
+        >
+          <option value="">Anyone</option>
+          {currentUserId && <option value={currentUserId}>Assigned to me</option>}
+          <option value="unassigned">Unassigned</option>
+          {users
+            .filter((u) => u.id !== currentUserId)
+            .map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.name}
+              </option>
+            ))}
+        </select>
+        <span className="flex items-center gap-1 text-sm text-gray-500">
+          Confidence
+          <ConfidenceInput
+            value={filter.minConfidence}
+            onChange={(minConfidence) => update({ minConfidence })}
+            placeholder="0"
+          />
+          –
+          <ConfidenceInput
+            value={filter.maxConfidence}
+            onChange={(maxConfidence) => update({ maxConfidence })}
+            placeholder="100"
+          />
+          %
+        </span>
+        {hasFilter && (
+          <button
+            onClick={() => {
+              setActiveViewId("");
+              onChange({});
+            }}
+            className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            <X className="h-3 w-3" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Bookmark className="h-4 w-4 text-gray-400" />
+        <select
+          value={activeViewId}
+          onChange={(e) => {
+            const view = views?.find((v) => v.id === e.target.value);
+            setActiveViewId(e.target.value);
+            onChange(view ? view.filters : {});
+          }}
+          className={selectClass}
+        >
+          <option value="">Saved views…</option>
+          {views?.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.name}
+              {v.createdById !== currentUserId && ` (${v.createdBy.name})`}
+            </option>
+          ))}
+        </select>
+        {activeView && activeView.createdById === currentUserId && (
+          <button
+            onClick={() => deleteView.mutate(activeView.id)}
+            disabled={deleteView.isPending}
+            className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+            title="Delete view"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+        {savingView ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createView.mutate();
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              autoFocus
+              required
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="View name"
+              className={selectClass}
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={viewShared}
+                onChange={(e) => setViewShared(e.target.checked)}
+              />
+              Share with team
+            </label>
+            <button
+              type="submit"
+              disabled={createView.isPending}
+              className="rounded-md bg-primary-600 px-2 py-1 text-xs font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setSavingView(false)}
+              className="text-xs text-gray-500 hover:text-gray-700"
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          hasFilter &&
+          !activeView && (
+            <button
+              onClick={() => setSavingView(true)}
+              className="text-xs font-medium text-primary-600 hover:text-primary-700"
+            >
+              Save as view
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Confidence bound edited in percent, stored as 0–1 */
+function ConfidenceInput({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value?: number;
+  onChange: (value: number | undefined) => void;
+  placeholder: string;
+}) {
+  return (
+    <input
+      type="number"
+      min="0"
+      max="100"
+      value={value === undefined ? "" : Math.round(value * 100)}
+      onChange={(e) =>
+        onChange(
+          e.target.value === ""
+            ? undefined
+            : Math.min(100, Math.max(0, Number(e.target.value))) / 100,
+        )
+      }
+      placeholder={placeholder}
+      className={cn(selectClass, "w-16")}
+    />
+  );
+}
+
+function BulkActionBar({
+  targetCount,
+  targetLabel,
+  users,
+  isPending,
+  lastResult,
+  onAction,
+  onClearSelection,
+}: {
+  targetCount: number;
+  targetLabel: string;
+  users: User[];
+  isPending: boolean;
+  lastResult?: { action: BulkResultAction; matched: number; updated: number };
+  onAction: (params: {
+    action: BulkResultAction;
+    rejectReason?: DiscoveryRejectReason;
+    assignedToId?: string | null;
+  }) => void;
+  onClearSelection?: () => void;
+}) {
+  const disabled = isPending || targetCount === 0;
+  const buttonClass =
+    "rounded-md border border-gray-300 bg-white px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-gray-200 bg-gray-50 px-6 py-2 text-sm">
+      <span className="text-gray-600">
+        {isPending && <Loader2 className="mr-1 inline h-3.5 w-3.5 animate-spin" />}
+        {targetCount} {targetLabel} result{targetCount === 1 ? "" : "s"}:
+      </span>
+      <button
+        onClick={() => onAction({ action: "shortlist" })}
+        disabled={disabled}
+        className={buttonClass}
+      >
+        Shortlist
+      </button>
+      <button
+        onClick={() => onAction({ action: "needs_research" })}
+        disabled={disabled}
+        className={buttonClass}
+      >
+        Needs research
+      </button>
+      <button
+        onClick={() => onAction({ action: "skip" })}
+        disabled={disabled}
+        className={buttonClass}
+      >
+        Skip
+      </button>
+      <select
+        value=""
+        onChange={(e) =>
+          e.target.value &&
+          onAction({
+            action: "reject",
+            rejectReason: e.target.value as DiscoveryRejectReason,
+          })
+        }
+        disabled={disabled}
+        className={cn(selectClass, "py-1 text-xs")}
+      >
+        <option value="">Reject…</option>
+        {REJECT_REASONS.map((r) => (
+          <option key={r.value} value={r.value}>
+            {r.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value=""
+        onChange={(e) =>
+          e.target.value &&
+          onAction({
+            action: "assign",
+            assignedToId: e.target.value === "unassigned" ? null : e.target.value,
+          })
+        }
+        disabled={disabled}
+        className={cn(selectClass, "py-1 text-xs")}
+      >
+        <option value="">Assign to…</option>
+        <option value="unassigned">Nobody</option>
+        {users
+          .filter((u) => u.role !== "VIEWER")
+          .map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.name}
+            </option>
+          ))}
+      </select>
+      <button
+        onClick={() => onAction({ action: "reopen" })}
+        disabled={disabled}
+        className={buttonClass}
+      >
+        Reopen
+      </button>
+      {onClearSelection && (
+        <button
+          onClick={onClearSelection}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Clear selection
+        </button>
+      )}
+      {lastResult && !isPending && (
+        <span className="ml-auto text-xs text-gray-500">
+          Updated {lastResult.updated} of {lastResult.matched}
+          {lastResult.matched > lastResult.updated && " (imported results are left as is)"}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function ResultReviewActions({
+  result,
+  users,
+  disabled,
+  onReview,
+  onAssign,
+  onImport,
+}: {
+  result: DiscoveryResult;
+  users: User[];
+  disabled: boolean;
+  onReview: (
+    status: Exclude<DiscoveryReviewStatus, "IMPORTED">,
+    rejectReason?: DiscoveryRejectReason,
+  ) => void;
+  onAssign: (assignedToId: string | null) => void;
+  onImport: () => void;
+}) {
+  const closed = result.reviewStatus === "SKIPPED" || result.reviewStatus === "REJECTED";
+  const buttonClass =
+    "rounded-md px-1.5 py-0.5 text-xs font-medium text-gray-600 hover:bg-gray-100 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-1">
+      {!closed && (
+        <button onClick={onImport} disabled={disabled} className={cn(buttonClass, "text-green-700")}>
+          Import
+        </button>
+      )}
+      {result.reviewStatus !== "SHORTLISTED" && !closed && (
+        <button
+          onClick={() => onReview("SHORTLISTED")}
+          disabled={disabled}
+          className={buttonClass}
+          title="Shortlist"
+        >
+          <Star className="h-3.5 w-3.5" />
+        </button>
+      )}
+      {result.reviewStatus !== "NEEDS_RESEARCH" && !closed && (
+        <button onClick={() => onReview("NEEDS_RESEARCH")} disabled={disabled} className={buttonClass}>
+          Research
+        </button>
+      )}
+      {closed ? (
+        <button onClick={() => onReview("NEW")} disabled={disabled} className={buttonClass}>
+          Reopen
+        </button>
+      ) : (
+        <>
+          <button onClick={() => onReview("SKIPPED")} disabled={disabled} className={buttonClass}>
+            Skip
+          </button>
+          <select
+            value=""
+            onChange={(e) =>
+              e.target.value &&
+              onReview("REJECTED", e.target.value as DiscoveryRejectReason)
+            }
+            disabled={disabled}
+            className="rounded-md border-none bg-transparent py-0.5 text-xs font-medium text-gray-600 hover:bg-gray-100"
+          >
+            <option value="">Reject…</option>
+            {REJECT_REASONS.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+      <select
+        value={result.assignedToId ?? ""}
+        onChange={(e) => onAssign(e.target.value || null)}
+        disabled={disabled}
+        className="max-w-28 rounded-md border-none bg-transparent py-0.5 text-xs text-gray-500 hover:bg-gray-100"
+        title="Assignee"
+      >
+        <option value="">Unassigned</option>
+        {users
+          .filter((u) => u.role !== "VIEWER")
+          .map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.name}
+            </option>
+          ))}
+      </select>
     </div>
   );
 }
@@ -0,0 +1,261 @@
+import { useState, type ChangeEvent, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Coins, Loader2, Upload } from "lucide-react";
+import { currencyApi } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
+import { formatDate } from "@/lib/utils";
+import type { ExchangeRateImportSummary, ExchangeRateTable } from "@/types";
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+export default function ExchangeRatesPage() {
+  const { user } = useAuth();
+  const isAdmin = !!user?.platformAdmin;
+
+  const { data: table, isLoading } = useQuery<ExchangeRateTable>({
+    queryKey: ["currencies", "rates"],
+    queryFn: () => currencyApi.rates().then((r) => r.data),
+  });
+
+  // Rate of the reporting currency, to show every rate against it as well
+  const reportingRate =
+    table?.reportingCurrency === table?.base
+      ? 1
+      : table?.rates.find((r) => r.currency === table?.reportingCurrency)?.rate;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Exchange Rates</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Used to compare quotes in the RFQ&apos;s budget currency and to report
+          prices and spend in {table?.reportingCurrency ?? "one currency"}
+        </p>
+      </div>
+
+      {isAdmin && (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <ManualRateCard base={table?.base ?? "EUR"} />
+          <ImportRatesCard />
+        </div>
+      )}
+
+      <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+        <div className="border-b border-gray-200 px-6 py-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Coins className="h-5 w-5 text-primary-600" />
+            Latest rates
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Units per 1 {table?.base ?? "EUR"}; conversions between other
+            currencies go through {table?.base ?? "EUR"}.
+          </p>
+        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+          </div>
+        ) : !table || table.rates.length === 0 ? (
+          <p className="px-6 py-12 text-center text-sm text-gray-400">
+            No exchange rates yet. Prices in different currencies can&apos;t be
+            compared until rates are added or imported.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                  Currency
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium uppercase text-gray-500">
+                  Per 1 {table.base}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium uppercase text-gray-500">
+                  Per 1 {table.reportingCurrency}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                  As of
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {table.rates.map((r) => (
+                <tr key={r.currency}>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900">
+                    {r.currency}
+                  </td>
+                  <td className="px-6 py-3 text-right text-sm text-gray-700">
+                    {r.rate.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                  </td>
+                  <td className="px-6 py-3 text-right text-sm text-gray-700">
+                    {reportingRate
+                      ? (r.rate / reportingRate).toLocaleString(undefined, {
+                          maximumFractionDigits: 4,
+                        })
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {formatDate(r.rateDate)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ManualRateCard({ base }: { base: string }) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ currency: "", rate: "", rateDate: "" });
+  const [error, setError] = useState("");
+
+  const save = useMutation({
+    mutationFn: () =>
+      currencyApi.setRate({
+        currency: form.currency,
+        rate: Number(form.rate),
+        rateDate: form.rateDate || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["currencies"] });
+      setForm({ currency: "", rate: "", rateDate: "" });
+    },
+    onError: (err: unknown) => setError(apiError(err, "Failed to save rate")),
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    save.mutate();
+  };
+
+  const inputClass =
+    "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+    >
+      <h2 className="text-lg font-semibold text-gray-900">Set a rate</h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        Units of the currency per 1 {base}. Replaces any rate for the same day.
+      </p>
+      <div className="grid grid-cols-3 gap-3">
+        <input
+          required
+          maxLength={3}
+          value={form.currency}
+          onChange={(e) =>
+            setForm({ ...form, currency: e.target.value.toUpperCase() })
+          }
+          placeholder="INR"
+          className={inputClass}
+        />
+        <input
+          required
+          type="number"
+          min="0"
+          step="any"
+          value={form.rate}
+          onChange={(e) => setForm({ ...form, rate: e.target.value })}
+          placeholder="90.85"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={form.rateDate}
+          onChange={(e) => setForm({ ...form, rateDate: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <div className="mt-4 flex justify-end">
+        <button
+          type="submit"
+          disabled={save.isPending}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {save.isPending ? "Saving…" : "Save rate"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function ImportRatesCard() {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState("");
+  const [summary, setSummary] = useState<ExchangeRateImportSummary | null>(null);
+
+  const upload = useMutation({
+    mutationFn: (content: string) =>
+      currencyApi.importRates(content).then((r) => r.data),
+    onSuccess: (data: ExchangeRateImportSummary) => {
+      queryClient.invalidateQueries({ queryKey: ["currencies"] });
+      setSummary(data);
+    },
+    onError: (err: unknown) => setError(apiError(err, "Import failed")),
+  });
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError("");
+    setSummary(null);
+    upload.mutate(await file.text());
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900">Import rates</h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        ECB reference rates (eurofxref XML or CSV) or a CSV with{" "}
+        <code className="rounded bg-gray-100 px-1">currency,rate,date</code>{" "}
+        columns.
+      </p>
+      <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50">
+        {upload.isPending ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="h-4 w-4" />
+        )}
+        Choose file
+        <input
+          type="file"
+          accept=".csv,.xml,.txt"
+          onChange={handleFile}
+          disabled={upload.isPending}
+          className="hidden"
+        />
+      </label>
+      {summary && (
+        <p className="mt-3 text-sm text-gray-600">
+          Imported {summary.imported} rate{summary.imported === 1 ? "" : "s"} for{" "}
+          {summary.currencies.length} currencies ({formatDate(summary.from)}
+          {summary.from !== summary.to && ` – ${formatDate(summary.to)}`})
+          {summary.unchanged > 0 && `, ${summary.unchanged} unchanged`}
+          {summary.skipped > 0 && `, ${summary.skipped} skipped`}.
+        </p>
+      )}
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,504 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Mail, Trash2, Users } from "lucide-react";
+import { authApi, organizationApi } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
+import { formatDate } from "@/lib/utils";
+import type {
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  UserRole,
+} from "@/types";
+
+const ROLES: UserRole[] = ["ADMIN", "BUYER", "VIEWER"];
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none";
+
+export default function OrganizationPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "ADMIN";
+
+  const { data: organization, isLoading } = useQuery<Organization>({
+    queryKey: ["organization"],
+    queryFn: () => organizationApi.get().then((r) => r.data),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Organisation</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Vendors, RFQs, quotes and discovery are shared by the members of{" "}
+          {organization?.name ?? "your organisation"} and visible to no one
+          else
+        </p>
+      </div>
+
+      <InvitationsForYou />
+
+      {isLoading || !organization ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <OrganizationCard
+            key={organization.updatedAt}
+            organization={organization}
+            canEdit={isAdmin}
+          />
+          <div className="lg:col-span-2">
+            <MembersCard isAdmin={isAdmin} currentUserId={user?.id} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OrganizationCard({
+  organization,
+  canEdit,
+}: {
+  organization: Organization;
+  canEdit: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const { refreshUser } = useAuth();
+  const [form, setForm] = useState({
+    name: organization.name,
+    senderName: organization.senderName ?? "",
+    senderEmail: organization.senderEmail ?? "",
+  });
+  const [error, setError] = useState("");
+
+  const save = useMutation({
+    mutationFn: () =>
+      organizationApi.update({
+        name: form.name,
+        senderName: form.senderName || null,
+        senderEmail: form.senderEmail || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organization"] });
+      refreshUser();
+    },
+    onError: (err: unknown) =>
+      setError(apiError(err, "Failed to save organisation")),
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    save.mutate();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+    >
+      <h2 className="text-lg font-semibold text-gray-900">Sender identity</h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        The name fills {"{{companyName}}"} in templates and heads purchase
+        orders; outreach email is sent from the sender below.
+      </p>
+      <div className="space-y-3">
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Name
+          </label>
+          <input
+            required
+            maxLength={120}
+            disabled={!canEdit}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Sender name
+          </label>
+          <input
+            maxLength={120}
+            disabled={!canEdit}
+            value={form.senderName}
+            onChange={(e) => setForm({ ...form, senderName: e.target.value })}
+            placeholder={form.name}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Sender email
+          </label>
+          <input
+            type="email"
+            disabled={!canEdit}
+            value={form.senderEmail}
+            onChange={(e) => setForm({ ...form, senderEmail: e.target.value })}
+            placeholder="Server default"
+            className={inputClass}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Must be a verified sender with the email provider.
+          </p>
+        </div>
+      </div>
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {canEdit && (
+        <div className="mt-4 flex justify-end">
+          <button
+            type="submit"
+            disabled={save.isPending}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {save.isPending ? "Saving…" : "Save"}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
+
+function MembersCard({
+  isAdmin,
+  currentUserId,
+}: {
+  isAdmin: boolean;
+  currentUserId?: string;
+}) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<{ email: string; role: UserRole }>({
+    email: "",
+    role: "BUYER",
+  });
+  const [error, setError] = useState("");
+
+  const { data: members, isLoading } = useQuery<OrganizationMember[]>({
+    queryKey: ["organization", "members"],
+    queryFn: () => organizationApi.members().then((r) => r.data.data),
+  });
+
+  const { data: invitations } = useQuery<OrganizationInvitation[]>({
+    queryKey: ["organization", "invitations"],
+    queryFn: () => organizationApi.invitations().then((r) => r.data.data),
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["organization", "members"] });
+    queryClient.invalidateQueries({ queryKey: ["users"] });
+  };
+  const onError = (err: unknown) =>
+    setError(apiError(err, "Failed to update members"));
+
+  const invite = useMutation({
+    mutationFn: () => organizationApi.invite(form),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "invitations"],
+      });
+      setForm({ email: "", role: "BUYER" });
+    },
+    onError,
+  });
+
+  const revoke = useMutation({
+    mutationFn: (id: string) => organizationApi.revokeInvitation(id),
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: ["organization", "invitations"],
+      }),
+    onError,
+  });
+
+  const changeRole = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: UserRole }) =>
+      organizationApi.updateMember(userId, role),
+    onSuccess,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (userId: string) => organizationApi.removeMember(userId),
+    onSuccess,
+    onError,
+  });
+
+  const handleInvite = (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    invite.mutate();
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+      <div className="border-b border-gray-200 px-6 py-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Users className="h-5 w-5 text-primary-600" />
+          Members
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Admins manage settings and members, buyers run sourcing, viewers can
+          only look. Invited people join once they accept.
+        </p>
+      </div>
+
+      {isAdmin && (
+        <form
+          onSubmit={handleInvite}
+          className="flex gap-3 border-b border-gray-200 px-6 py-4"
+        >
+          <input
+            required
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder="Email to invite"
+            className={inputClass}
+          />
+          <select
+            value={form.role}
+            onChange={(e) =>
+              setForm({ ...form, role: e.target.value as UserRole })
+            }
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={invite.isPending}
+            className="shrink-0 rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {invite.isPending ? "Inviting…" : "Invite"}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="mx-6 mt-4 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+        </div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                Member
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                Role
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase text-gray-500">
+                Joined
+              </th>
+              {isAdmin && <th className="px-6 py-3" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {members?.map((m) => (
+              <tr key={m.id}>
+                <td className="px-6 py-3">
+                  <p className="text-sm font-medium text-gray-900">
+                    {m.name}
+                    {m.id === currentUserId && (
+                      <span className="ml-1 text-gray-400">(you)</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">{m.email}</p>
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-700">
+                  {isAdmin ? (
+                    <select
+                      value={m.role}
+                      disabled={changeRole.isPending}
+                      onChange={(e) => {
+                        setError("");
+                        changeRole.mutate({
+                          userId: m.id,
+                          role: e.target.value as UserRole,
+                        });
+                      }}
+                      className="rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {r}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    m.role
+                  )}
+                </td>
+                <td className="px-6 py-3 text-sm text-gray-500">
+                  {formatDate(m.joinedAt)}
+                </td>
+                {isAdmin && (
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => {
+                        setError("");
+                        if (confirm(`Remove ${m.name} from the organisation?`))
+                          remove.mutate(m.id);
+                      }}
+                      disabled={remove.isPending}
+                      className="rounded-lg p-1.5 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                      title="Remove member"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {invitations && invitations.length > 0 && (
+        <div className="border-t border-gray-200 px-6 py-4">
+          <h3 className="mb-2 text-sm font-medium text-gray-700">
+            Pending invitations
+          </h3>
+          <ul className="divide-y divide-gray-100">
+            {invitations.map((i) => (
+              <li
+                key={i.id}
+                className="flex items-center justify-between py-2 text-sm"
+              >
+                <span className="text-gray-900">
+                  {i.email}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {i.role} · invited {formatDate(i.createdAt)}
+                  </span>
+                </span>
+                {isAdmin && (
+                  <button
+                    onClick={() => {
+                      setError("");
+                      revoke.mutate(i.id);
+                    }}
+                    disabled={revoke.isPending}
+                    className="rounded-lg p-1.5 text-gray-400 hover:bg-red-50 hover:text-red-600"
+                    title="Withdraw invitation"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Invitations to other organisations waiting for the signed-in user */
+function InvitationsForYou() {
+  const queryClient = useQueryClient();
+  const { refreshUser } = useAuth();
+  const [error, setError] = useState("");
+
+  const { data: invitations } = useQuery<OrganizationInvitation[]>({
+    queryKey: ["invitations", "mine"],
+    queryFn: () => authApi.invitations().then((r) => r.data.data),
+  });
+
+  const onSuccess = () =>
+    queryClient.invalidateQueries({ queryKey: ["invitations", "mine"] });
+  const onError = (err: unknown) =>
+    setError(apiError(err, "Failed to answer the invitation"));
+
+  const accept = useMutation({
+    mutationFn: (id: string) => authApi.acceptInvitation(id),
+    onSuccess: () => {
+      onSuccess();
+      refreshUser();
+    },
+    onError,
+  });
+
+  const decline = useMutation({
+    mutationFn: (id: string) => authApi.declineInvitation(id),
+    onSuccess,
+    onError,
+  });
+
+  if (!invitations?.length) return null;
+
+  return (
+    <div className="rounded-xl border border-primary-200 bg-primary-50 p-4">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+        <Mail className="h-4 w-4 text-primary-600" />
+        Invitations for you
+      </h2>
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <ul className="mt-2 divide-y divide-primary-100">
+        {invitations.map((i) => (
+          <li
+            key={i.id}
+            className="flex items-center justify-between py-2 text-sm"
+          >
+            <span className="text-gray-900">
+              Join <strong>{i.organization?.name}</strong> as {i.role}
+            </span>
+            <span className="flex gap-2">
+              <button
+                onClick={() => {
+                  setError("");
+                  accept.mutate(i.id);
+                }}
+                disabled={accept.isPending || decline.isPending}
+                className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => {
+                  setError("");
+                  decline.mutate(i.id);
+                }}
+                disabled={accept.isPending || decline.isPending}
+                className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
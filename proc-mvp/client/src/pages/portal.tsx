@@ -0,0 +1,401 @@
+import { useState, type FormEvent } from "react";
+import { useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Loader2, Paperclip } from "lucide-react";
+import { portalApi } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { PortalView, QuoteLineInput } from "@/types";
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none";
+
+interface LineDraft {
+  price: string;
+  alternate: boolean;
+  altPrice: string;
+  altDescription: string;
+}
+
+/** Public page where an invited vendor submits their quote */
+export default function PortalPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: view, isLoading, error } = useQuery<PortalView>({
+    queryKey: ["portal", token],
+    queryFn: () => portalApi.get(token!).then((r) => r.data),
+    enabled: !!token,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-10">
+      <div className="mx-auto max-w-3xl space-y-6">
+        {isLoading && (
+          <div className="flex h-64 items-center justify-center">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-600 border-t-transparent" />
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-xl border border-gray-200 bg-white p-8 text-center shadow-sm">
+            <p className="text-sm text-gray-500">
+              {apiError(error, "This link could not be loaded.")}
+            </p>
+          </div>
+        )}
+
+        {view && (
+          <>
+            <div>
+              <p className="text-sm text-gray-500">{view.companyName} requests a quotation</p>
+              <h1 className="text-2xl font-bold text-gray-900">{view.rfqNumber}</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                For {view.vendorName} · Deliver to {view.deliveryLocation}
+                {view.requiredDeliveryDate && ` by ${formatDate(view.requiredDeliveryDate)}`}
+                {" · "}Quotes due {new Date(view.deadline).toLocaleString()}
+              </p>
+            </div>
+
+            {(view.qualityRequirements.length > 0 || view.paymentTermsPreference) && (
+              <div className="rounded-xl border border-gray-200 bg-white p-6 text-sm shadow-sm">
+                {view.qualityRequirements.length > 0 && (
+                  <p className="text-gray-700">
+                    <span className="font-medium">Quality requirements:</span>{" "}
+                    {view.qualityRequirements.join(", ")}
+                  </p>
+                )}
+                {view.paymentTermsPreference && (
+                  <p className="mt-1 text-gray-700">
+                    <span className="font-medium">Preferred payment terms:</span>{" "}
+                    {view.paymentTermsPreference}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {view.submittedAt && (
+              <div className="flex items-center gap-2 rounded-lg bg-green-50 px-4 py-3 text-sm text-green-800">
+                <CheckCircle2 className="h-4 w-4" />
+                Quote received {formatDate(view.submittedAt)}
+                {view.quote && ` — ${formatCurrency(view.quote.totalPrice, view.quote.currency)}`}
+                {view.open && ". You can revise it until the deadline."}
+              </div>
+            )}
+
+            {view.open ? (
+              <PortalQuoteForm token={token!} view={view} />
+            ) : (
+              <div className="rounded-xl border border-gray-200 bg-white p-8 text-center text-sm text-gray-500 shadow-sm">
+                {view.closedReason}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PortalQuoteForm({ token, view }: { token: string; view: PortalView }) {
+  const queryClient = useQueryClient();
+  const previous = view.quote;
+  const [currency, setCurrency] = useState(previous?.currency ?? view.currency);
+  const [drafts, setDrafts] = useState<Record<string, LineDraft>>(() =>
+    Object.fromEntries(
+      view.lineItems.map((item) => {
+        const lines = previous?.lines.filter((l) => l.rfqLineItemId === item.id) ?? [];
+        const exact = lines.find((l) => !l.isAlternate);
+        const alternate = lines.find((l) => l.isAlternate);
+        return [
+          item.id,
+          {
+            price: exact ? String(exact.unitPrice) : "",
+            alternate: !!alternate,
+            altPrice: alternate ? String(alternate.unitPrice) : "",
+            altDescription: alternate?.description ?? "",
+          },
+        ];
+      }),
+    ),
+  );
+  const [leadTimeDays, setLeadTimeDays] = useState(
+    previous ? String(previous.leadTimeDays) : "",
+  );
+  const [paymentTerms, setPaymentTerms] = useState(previous?.paymentTerms ?? "");
+  const [validUntil, setValidUntil] = useState(previous?.validUntil?.slice(0, 10) ?? "");
+  const [notes, setNotes] = useState(previous?.notes ?? "");
+  const [files, setFiles] = useState<File[]>([]);
+
+  const submit = useMutation({
+    mutationFn: () =>
+      portalApi
+        .submitQuote(
+          token,
+          {
+            currency,
+            lines: view.lineItems.flatMap((item) => {
+              const draft = drafts[item.id];
+              const lines: QuoteLineInput[] = [];
+              if (draft.price) {
+                lines.push({ rfqLineItemId: item.id, unitPrice: Number(draft.price) });
+              }
+              if (draft.alternate && draft.altPrice) {
+                lines.push({
+                  rfqLineItemId: item.id,
+                  unitPrice: Number(draft.altPrice),
+                  isAlternate: true,
+                  description: draft.altDescription.trim(),
+                });
+              }
+              return lines;
+            }),
+            leadTimeDays: Number(leadTimeDays),
+            paymentTerms,
+            validUntil,
+            notes: notes.trim() || undefined,
+          },
+          files,
+        )
+        .then((r) => r.data as PortalView),
+    onSuccess: (updated) => {
+      setFiles([]);
+      queryClient.setQueryData(["portal", token], updated);
+    },
+  });
+
+  const updateDraft = (lineItemId: string, patch: Partial<LineDraft>) =>
+    setDrafts((prev) => ({ ...prev, [lineItemId]: { ...prev[lineItemId], ...patch } }));
+
+  // Each line counts once: its exact price, else its alternate
+  const unitPriceOf = (draft: LineDraft) =>
+    Number(draft.price) || (draft.alternate ? Number(draft.altPrice) || 0 : 0);
+  const total = view.lineItems.reduce(
+    (sum, item) => sum + unitPriceOf(drafts[item.id]) * item.quantity,
+    0,
+  );
+  const quoted = view.lineItems.filter((item) => unitPriceOf(drafts[item.id]) > 0).length;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    submit.mutate();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-6 rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+    >
+      <div>
+        <div className="mb-3 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Prices</h2>
+            <p className="text-xs text-gray-500">
+              Leave an item empty if you don't supply it. You can offer an alternate
+              product next to, or instead of, the one requested.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Currency
+            <input
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              maxLength={3}
+              required
+              className={`${inputClass} w-20`}
+            />
+          </label>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                Product
+              </th>
+              <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                Quantity
+              </th>
+              <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                Unit price
+              </th>
+              <th className="pb-3 text-right text-xs font-medium uppercase text-gray-500">
+                Line total
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {view.lineItems.map((item) => (
+              <tr key={item.id}>
+                <td className="py-3 align-top text-sm">
+                  <p className="font-medium text-gray-900">{item.productName}</p>
+                  {item.specifications && (
+                    <p className="text-xs text-gray-500">
+                      {Object.entries(item.specifications)
+                        .map(([k, v]) => `${k}: ${v}`)
+                        .join(", ")}
+                    </p>
+                  )}
+                </td>
+                <td className="py-3 align-top text-sm text-gray-500">
+                  {item.quantity.toLocaleString()} {item.unit}
+                </td>
+                <td className="py-3 pr-4 align-top">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={drafts[item.id].price}
+                    onChange={(e) => updateDraft(item.id, { price: e.target.value })}
+                    className={`${inputClass} w-32`}
+                  />
+                  <label className="mt-2 flex items-center gap-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={drafts[item.id].alternate}
+                      onChange={(e) => updateDraft(item.id, { alternate: e.target.checked })}
+                    />
+                    Offer an alternate
+                  </label>
+                  {drafts[item.id].alternate && (
+                    <div className="mt-2 space-y-2">
+                      <input
+                        value={drafts[item.id].altDescription}
+                        onChange={(e) => updateDraft(item.id, { altDescription: e.target.value })}
+                        placeholder="Alternate product"
+                        required
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={drafts[item.id].altPrice}
+                        onChange={(e) => updateDraft(item.id, { altPrice: e.target.value })}
+                        placeholder="Unit price"
+                        required
+                        className={`${inputClass} w-32`}
+                      />
+                    </div>
+                  )}
+                </td>
+                <td className="py-3 text-right align-top text-sm text-gray-700">
+                  {unitPriceOf(drafts[item.id]) > 0
+                    ? formatCurrency(unitPriceOf(drafts[item.id]) * item.quantity, currency)
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-3 text-right text-sm font-semibold text-gray-900">
+          Total {formatCurrency(total, currency)}
+          {quoted < view.lineItems.length && (
+            <span className="font-normal text-gray-500">
+              {" "}
+              ({quoted} of {view.lineItems.length} items)
+            </span>
+          )}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Lead time (days)
+          </label>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={leadTimeDays}
+            onChange={(e) => setLeadTimeDays(e.target.value)}
+            required
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Payment terms
+          </label>
+          <input
+            value={paymentTerms}
+            onChange={(e) => setPaymentTerms(e.target.value)}
+            placeholder="e.g. 30% advance, 70% on delivery"
+            required
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Valid until
+          </label>
+          <input
+            type="date"
+            value={validUntil}
+            onChange={(e) => setValidUntil(e.target.value)}
+            required
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="mb-1 block text-sm font-medium text-gray-700">
+          Notes (optional)
+        </label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className="mb-1 block text-sm font-medium text-gray-700">
+          Attachments (specifications, certificates…)
+        </label>
+        {previous && previous.attachments.length > 0 && (
+          <ul className="mb-2 space-y-1">
+            {previous.attachments.map((attachment) => (
+              <li key={attachment.id} className="flex items-center gap-1 text-xs text-gray-500">
+                <Paperclip className="h-3 w-3" />
+                {attachment.filename} ({Math.ceil(attachment.size / 1024)} KB)
+              </li>
+            ))}
+          </ul>
+        )}
+        <input
+          key={view.submittedAt ?? "new"}
+          type="file"
+          multiple
+          accept=".pdf,.doc,.docx,.xls,.xlsx,.csv,.txt,.png,.jpg,.jpeg,.zip"
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          className="text-sm text-gray-700"
+        />
+        <p className="mt-1 text-xs text-gray-400">
+          Up to {view.maxAttachments} files per submission, 10 MB each.
+        </p>
+      </div>
+
+      {submit.isError && (
+        <p className="text-sm text-red-600">{apiError(submit.error, "Failed to submit quote")}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={submit.isPending || quoted === 0}
+        className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+      >
+        {submit.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+        {previous ? "Update quote" : "Submit quote"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Check, Loader2, Send } from "lucide-react";
+import { purchaseOrderApi } from "@/lib/api";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { PurchaseOrderPdfButton } from "@/components/ui/purchase-order-pdf-button";
+import { formatCurrency, formatDate, cn } from "@/lib/utils";
+import type { PurchaseOrder, PurchaseOrderStatus } from "@/types";
+
+/** Status flow; each step stamps its date on the PO */
+const STEPS: { status: PurchaseOrderStatus; label: string; date: keyof PurchaseOrder }[] = [
+  { status: "ISSUED", label: "Issued", date: "issuedAt" },
+  { status: "ACKNOWLEDGED", label: "Acknowledged", date: "acknowledgedAt" },
+  { status: "SHIPPED", label: "Shipped", date: "shippedAt" },
+  { status: "RECEIVED", label: "Received", date: "receivedAt" },
+  { status: "CLOSED", label: "Closed", date: "closedAt" },
+];
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+function formatPrice(amount: number) {
+  return amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+export default function PurchaseOrderDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const [error, setError] = useState("");
+
+  const { data: po, isLoading } = useQuery<PurchaseOrder>({
+    queryKey: ["purchase-order", id],
+    queryFn: () => purchaseOrderApi.get(id!).then((r) => r.data),
+    enabled: !!id,
+  });
+
+  const onSuccess = () => {
+    setError("");
+    queryClient.invalidateQueries({ queryKey: ["purchase-order", id] });
+    queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+  };
+
+  const advance = useMutation({
+    mutationFn: (status: PurchaseOrderStatus) =>
+      purchaseOrderApi.updateStatus(id!, status),
+    onSuccess,
+    onError: (err: unknown) => setError(apiError(err, "Failed to update status")),
+  });
+
+  const resend = useMutation({
+    mutationFn: () => purchaseOrderApi.send(id!),
+    onSuccess,
+    onError: (err: unknown) => {
+      setError(apiError(err, "Failed to send purchase order"));
+      queryClient.invalidateQueries({ queryKey: ["purchase-order", id] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-600 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (!po) return <p className="text-gray-500">Purchase order not found.</p>;
+
+  const current = STEPS.findIndex((s) => s.status === po.status);
+
+  return (
+    <div className="space-y-6">
+      <Link
+        to="/purchase-orders"
+        className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to purchase orders
+      </Link>
+
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{po.poNumber}</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            {po.vendor && (
+              <Link
+                to={`/vendors/${po.vendor.id}`}
+                className="hover:text-primary-600"
+              >
+                {po.vendor.companyName}
+              </Link>
+            )}
+            {po.rfq && (
+              <>
+                {" · "}
+                <Link to={`/rfqs/${po.rfq.id}`} className="hover:text-primary-600">
+                  {po.rfq.rfqNumber}
+                </Link>
+              </>
+            )}
+            {po.createdBy && ` · issued by ${po.createdBy.name}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <PurchaseOrderPdfButton po={po} />
+          <StatusBadge status={po.status} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Email */}
+      <div
+        className={cn(
+          "flex items-center justify-between rounded-xl border p-4 text-sm",
+          po.emailError
+            ? "border-red-200 bg-red-50 text-red-700"
+            : "border-gray-200 bg-white text-gray-600",
+        )}
+      >
+        <span>
+          {po.emailError
+            ? `Not sent to the vendor: ${po.emailError}`
+            : po.communication
+              ? `Emailed to ${po.recipient ?? po.communication.recipient ?? "the vendor"} on ${formatDate(po.communication.sentAt)}`
+              : "Not emailed yet"}
+        </span>
+        <button
+          onClick={() => resend.mutate()}
+          disabled={resend.isPending}
+          className="inline-flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {resend.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="h-4 w-4" />
+          )}
+          {po.communication ? "Send again" : "Send"}
+        </button>
+      </div>
+
+      {/* Status */}
+      <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">Status</h2>
+        <ol className="grid grid-cols-5 gap-2">
+          {STEPS.map((step, i) => {
+            const done = i <= current;
+            const date = po[step.date] as string | null;
+            return (
+              <li key={step.status} className="text-center">
+                <div
+                  className={cn(
+                    "mx-auto flex h-8 w-8 items-center justify-center rounded-full text-sm font-medium",
+                    done
+                      ? "bg-primary-600 text-white"
+                      : "bg-gray-100 text-gray-400",
+                  )}
+                >
+                  {done ? <Check className="h-4 w-4" /> : i + 1}
+                </div>
+                <p
+                  className={cn(
+                    "mt-1 text-sm",
+                    done ? "font-medium text-gray-900" : "text-gray-400",
+                  )}
+                >
+                  {step.label}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {date ? formatDate(date) : "—"}
+                </p>
+                {i > current && (
+                  <button
+                    onClick={() => advance.mutate(step.status)}
+                    disabled={advance.isPending}
+                    className="mt-1 text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                  >
+                    Mark {step.label.toLowerCase()}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+
+      {/* Terms */}
+      <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">Terms</h2>
+        <dl className="grid grid-cols-1 gap-4 text-sm sm:grid-cols-2">
+          <Term label="Deliver to" value={po.deliveryAddress} />
+          <Term
+            label="Required by"
+            value={
+              po.requiredDeliveryDate
+                ? formatDate(po.requiredDeliveryDate)
+                : "To be agreed"
+            }
+          />
+          <Term label="Incoterms" value={po.incoterms ?? "To be agreed"} />
+          <Term label="Payment terms" value={po.paymentTerms ?? "As quoted"} />
+          {po.notes && <Term label="Notes" value={po.notes} />}
+        </dl>
+      </div>
+
+      {/* Lines */}
+      <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-semibold text-gray-900">
+          Ordered Products
+        </h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                Product
+              </th>
+              <th className="pb-3 text-right text-xs font-medium uppercase text-gray-500">
+                Quantity
+              </th>
+              <th className="pb-3 text-right text-xs font-medium uppercase text-gray-500">
+                Unit price ({po.currency})
+              </th>
+              <th className="pb-3 text-right text-xs font-medium uppercase text-gray-500">
+                Total ({po.currency})
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {po.lineItems.map((line) => (
+              <tr key={line.id}>
+                <td className="py-3 text-sm font-medium text-gray-900">
+                  {line.description}
+                </td>
+                <td className="py-3 text-right text-sm text-gray-700">
+                  {line.quantity.toLocaleString()} {line.unit}
+                </td>
+                <td className="py-3 text-right text-sm text-gray-700">
+                  {formatPrice(line.unitPrice)}
+                </td>
+                <td className="py-3 text-right text-sm text-gray-700">
+                  {formatPrice(line.totalPrice)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td
+                colSpan={3}
+                className="pt-3 text-right text-sm font-semibold text-gray-900"
+              >
+                Total
+              </td>
+              <td className="pt-3 text-right text-sm font-semibold text-gray-900">
+                {formatCurrency(po.totalAmount, po.currency)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function Term({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <dt className="text-gray-500">{label}</dt>
+      <dd className="mt-0.5 whitespace-pre-line text-gray-900">{value}</dd>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { ClipboardList } from "lucide-react";
+import { purchaseOrderApi } from "@/lib/api";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { formatDate, formatCurrency } from "@/lib/utils";
+import type {
+  PaginatedResponse,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+} from "@/types";
+
+export default function PurchaseOrderListPage() {
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "">("");
+
+  const { data, isLoading } = useQuery<PaginatedResponse<PurchaseOrder>>({
+    queryKey: ["purchase-orders", { page, status: statusFilter }],
+    queryFn: () =>
+      purchaseOrderApi
+        .list({
+          page,
+          limit: 20,
+          status: statusFilter || undefined,
+        })
+        .then((r) => r.data),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+        <p className="mt-1 text-sm text-gray-500">
+          Issued when a quote is accepted; track them through delivery
+        </p>
+      </div>
+
+      {/* Filter */}
+      <div>
+        <select
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value as PurchaseOrderStatus | "");
+            setPage(1);
+          }}
+          className="rounded-lg border border-gray-300 px-3 py-2.5 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none"
+        >
+          <option value="">All statuses</option>
+          <option value="ISSUED">Issued</option>
+          <option value="ACKNOWLEDGED">Acknowledged</option>
+          <option value="SHIPPED">Shipped</option>
+          <option value="RECEIVED">Received</option>
+          <option value="CLOSED">Closed</option>
+        </select>
+      </div>
+
+      {/* Table */}
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                PO #
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                Vendor
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                RFQ
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                Total
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                Issued
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {isLoading && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-6 py-12 text-center text-sm text-gray-400"
+                >
+                  Loading...
+                </td>
+              </tr>
+            )}
+            {data?.data.length === 0 && !isLoading && (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-6 py-12 text-center text-sm text-gray-400"
+                >
+                  <ClipboardList className="mx-auto mb-2 h-8 w-8 text-gray-300" />
+                  No purchase orders found
+                </td>
+              </tr>
+            )}
+            {data?.data.map((po) => (
+              <tr key={po.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4">
+                  <Link
+                    to={`/purchase-orders/${po.id}`}
+                    className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                  >
+                    {po.poNumber}
+                  </Link>
+                  {po.emailError && (
+                    <p className="text-xs text-red-600">Not sent</p>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-700">
+                  {po.vendor?.companyName ?? "—"}
+                </td>
+                <td className="px-6 py-4 text-sm">
+                  {po.rfq ? (
+                    <Link
+                      to={`/rfqs/${po.rfq.id}`}
+                      className="text-gray-500 hover:text-primary-600"
+                    >
+                      {po.rfq.rfqNumber}
+                    </Link>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+                <td className="px-6 py-4">
+                  <StatusBadge status={po.status} />
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-700">
+                  {formatCurrency(po.totalAmount, po.currency)}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-400">
+                  {formatDate(po.issuedAt)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {data && data.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Showing {(page - 1) * 20 + 1}–
+            {Math.min(page * 20, data.pagination.total)} of{" "}
+            {data.pagination.total}
+          </p>
+          <div className="flex gap-2">
+            <button
+              disabled={page <= 1}
+              onClick={() => setPage((p) => p - 1)}
+              className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              disabled={page >= data.pagination.totalPages}
+              onClick={() => setPage((p) => p + 1)}
+              className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ export default function RegisterPage() {
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [organizationName, setOrganizationName] = useState("");
   const [error, setError] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
@@ -17,7 +18,7 @@ export default function RegisterPage() {
     setError("");
     setSubmitting(true);
     try {
-      await register(email, password, name);
+      await register(email, password, name, organizationName);
     } catch (err: unknown) {
       const msg =
         (err as { response?: { data?: { error?: string } } })?.response?.data
@@ -98,6 +99,24 @@ export default function RegisterPage() {
                 placeholder="Minimum 8 characters"
               />
             </div>
+
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-gray-700">
+                Organisation
+              </label>
+              <input
+                type="text"
+                value={organizationName}
+                onChange={(e) => setOrganizationName(e.target.value)}
+                maxLength={120}
+                className="w-full rounded-lg border border-gray-300 px-3.5 py-2.5 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none"
+                placeholder="Acme Manufacturing"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Signs your outreach and purchase orders. To join an existing
+                organisation, ask one of its admins to add you after signing up.
+              </p>
+            </div>
           </div>
 
           <button
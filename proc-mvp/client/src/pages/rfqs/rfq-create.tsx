@@ -3,6 +3,7 @@ import { useNavigate, Link } from "react-router-dom";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { ArrowLeft, Plus, Trash2 } from "lucide-react";
 import { rfqApi } from "@/lib/api";
+import { COMMON_CURRENCIES } from "@/lib/utils";
 
 interface LineItem {
   productName: string;
@@ -269,6 +270,25 @@ export default function RfqCreatePage() {
                 className="w-full rounded-lg border border-gray-300 px-3.5 py-2.5 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none"
               />
             </div>
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-gray-700">
+                Budget Currency
+              </label>
+              <select
+                value={form.budgetCurrency}
+                onChange={(e) => updateForm("budgetCurrency", e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3.5 py-2.5 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none"
+              >
+                {COMMON_CURRENCIES.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-400">
+                Quotes in other currencies are converted to this for comparison
+              </p>
+            </div>
             <div>
               <label className="mb-1.5 block text-sm font-medium text-gray-700">
                 Priority
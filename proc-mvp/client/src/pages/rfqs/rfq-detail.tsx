@@ -1,16 +1,60 @@
+import { Fragment, useState, type FormEvent } from "react";
 import { useParams, Link } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   ArrowLeft,
   MapPin,
   Calendar,
   DollarSign,
   Trophy,
+  Send,
+  Loader2,
+  Paperclip,
+  Handshake,
+  Clock,
+  ChevronDown,
+  ChevronRight,
+  SlidersHorizontal,
+  ShieldAlert,
+  ClipboardList,
+  ShieldCheck,
+  History,
 } from "lucide-react";
-import { rfqApi, quoteApi } from "@/lib/api";
+import { rfqApi, quoteApi, vendorApi } from "@/lib/api";
 import { StatusBadge } from "@/components/ui/status-badge";
+import { NegotiationHistory } from "@/components/ui/negotiation-history";
+import { PurchaseOrderPdfButton } from "@/components/ui/purchase-order-pdf-button";
+import { useAuth } from "@/contexts/auth-context";
 import { formatCurrency, formatDate, cn } from "@/lib/utils";
-import type { Rfq, VendorComparison } from "@/types";
+import type {
+  ComparisonCriterionKey,
+  ComparisonProfile,
+  ComparisonProfileConfig,
+  CriterionScore,
+  DispatchRfqResult,
+  LineMatrixRow,
+  MarketBenchmarkSummary,
+  NegotiationRound,
+  QuoteNegotiation,
+  PaginatedResponse,
+  PurchaseOrder,
+  Rfq,
+  RfqApproval,
+  RfqApprovalAction,
+  RfqComparisonProfile,
+  RfqInvitation,
+  RfqInvitationStatus,
+  RfqStatus,
+  RfqStatusEvent,
+  RiskFactor,
+  RiskLevel,
+  SplitAward,
+  Vendor,
+  VendorComparison,
+} from "@/types";
+
+/** RFQs in these states can be sent to (more) vendors; DRAFT only without approval */
+const DISPATCHABLE = ["DRAFT", "APPROVED", "SENT", "QUOTING"];
 
 export default function RfqDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -24,11 +68,22 @@ export default function RfqDetailPage() {
   const { data: comparison } = useQuery<{
     rfq: Rfq;
     comparison: VendorComparison[] | null;
+    currency?: string;
+    missingRates?: string[];
+    lineMatrix?: LineMatrixRow[];
+    splitAward?: SplitAward | null;
+    benchmark?: MarketBenchmarkSummary | null;
   }>({
     queryKey: ["rfq", id, "compare"],
     queryFn: () => quoteApi.compare(id!).then((r) => r.data),
     enabled: !!id,
   });
+  const { data: approval } = useQuery<RfqApproval>({
+    queryKey: ["rfq", id, "approval"],
+    queryFn: () => rfqApi.approval(id!).then((r) => r.data),
+    enabled: !!id,
+  });
+  const [expanded, setExpanded] = useState<string | null>(null);
 
   if (isLoading) {
     return (
@@ -67,6 +122,12 @@ export default function RfqDetailPage() {
                 {formatDate(rfq.requiredDeliveryDate)}
               </span>
             )}
+            {rfq.quoteDeadline && (
+              <span className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                Quotes due {formatDate(rfq.quoteDeadline)}
+              </span>
+            )}
             {rfq.budgetMax && (
               <span className="flex items-center gap-1">
                 <DollarSign className="h-4 w-4" />
@@ -122,6 +183,19 @@ export default function RfqDetailPage() {
         </table>
       </div>
 
+      {approval && (approval.required || approval.events.length > 0) && (
+        <ApprovalCard rfq={rfq} approval={approval} />
+      )}
+
+      <StatusCard rfq={rfq} />
+
+      {/* Vendors the RFQ was sent to */}
+      <InvitationsCard rfqId={rfq.id} />
+      {DISPATCHABLE.includes(rfq.status) &&
+        !(rfq.status === "DRAFT" && approval?.required !== false) && (
+          <SendRfqCard rfq={rfq} />
+        )}
+
       {/* Quality & Notes */}
       {(rfq.qualityRequirements.length > 0 || rfq.notes) && (
         <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
@@ -160,6 +234,23 @@ export default function RfqDetailPage() {
             <Trophy className="h-5 w-5 text-amber-500" />
             Vendor Comparison
           </h2>
+          {comparison.missingRates && comparison.missingRates.length > 0 && (
+            <p className="mb-4 rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              No exchange rate for {comparison.missingRates.join(", ")} →{" "}
+              {comparison.currency}; those quotes are ranked without a price
+              score.
+            </p>
+          )}
+          {comparison.benchmark && (
+            <p className="mb-4 text-sm text-gray-500">
+              Market unit price for {comparison.benchmark.category}: median{" "}
+              {formatCurrency(comparison.benchmark.median, comparison.currency)}{" "}
+              (middle 50%{" "}
+              {formatCurrency(comparison.benchmark.p25, comparison.currency)}–
+              {formatCurrency(comparison.benchmark.p75, comparison.currency)}, from{" "}
+              {comparison.benchmark.sampleSize} observations)
+            </p>
+          )}
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead>
@@ -171,7 +262,7 @@ export default function RfqDetailPage() {
                     Vendor
                   </th>
                   <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
-                    Price
+                    Price{comparison.currency && ` (${comparison.currency})`}
                   </th>
                   <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
                     Quality
@@ -182,58 +273,178 @@ export default function RfqDetailPage() {
                   <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
                     Reliability
                   </th>
+                  <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                    Payment Terms
+                  </th>
                   <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
                     Score
                   </th>
+                  <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                    Risk
+                  </th>
+                  <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                    Recommendation
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
-                {comparison.comparison.map((vc, idx) => (
-                  <tr
-                    key={vc.quoteId}
-                    className={cn(idx === 0 && "bg-amber-50/50")}
-                  >
-                    <td className="py-3 text-sm font-medium text-gray-500">
-                      {idx === 0 ? "🏆" : `#${idx + 1}`}
-                    </td>
-                    <td className="py-3">
-                      <p className="text-sm font-medium text-gray-900">
-                        {vc.vendorName}
-                      </p>
-                      <p className="text-xs text-gray-400">{vc.country}</p>
-                    </td>
-                    <td className="py-3 text-sm text-gray-700">
-                      {formatCurrency(vc.totalPrice)}
-                    </td>
-                    <td className="py-3 text-sm text-gray-700">
-                      {vc.qualityScore.toFixed(1)}/10
-                    </td>
-                    <td className="py-3 text-sm text-gray-700">
-                      {vc.leadTimeDays} days
-                    </td>
-                    <td className="py-3 text-sm text-gray-700">
-                      {vc.reliabilityScore.toFixed(1)}/10
-                    </td>
-                    <td className="py-3">
-                      <span
+                {comparison.comparison.map((vc) => {
+                  const best = vc.rank === 1 && vc.eligible;
+                  const open = expanded === vc.quoteId;
+                  return (
+                    <Fragment key={vc.quoteId}>
+                      <tr
+                        onClick={() => setExpanded(open ? null : vc.quoteId)}
                         className={cn(
-                          "text-sm font-bold",
-                          idx === 0
-                            ? "text-amber-600"
-                            : "text-gray-700",
+                          "cursor-pointer hover:bg-gray-50",
+                          best && "bg-amber-50/50",
+                          !vc.eligible && "text-gray-400 opacity-60",
                         )}
                       >
-                        {vc.finalScore.toFixed(1)}
-                      </span>
-                    </td>
-                  </tr>
-                ))}
+                        <td className="py-3 text-sm font-medium text-gray-500">
+                          <span className="flex items-center gap-1">
+                            {open ? (
+                              <ChevronDown className="h-3.5 w-3.5" />
+                            ) : (
+                              <ChevronRight className="h-3.5 w-3.5" />
+                            )}
+                            {best ? "🏆" : `#${vc.rank}`}
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          <p className="text-sm font-medium text-gray-900">
+                            {vc.vendorName}
+                          </p>
+                          <p className="text-xs text-gray-400">
+                            {vc.country}
+                            {vc.partial &&
+                              ` · ${vc.linesQuoted}/${rfq.lineItems.length} lines`}
+                            {vc.alternates > 0 &&
+                              ` · ${vc.alternates} alternate${vc.alternates === 1 ? "" : "s"}`}
+                          </p>
+                        </td>
+                        <td className="py-3 text-sm text-gray-700">
+                          {vc.normalizedTotalPrice != null
+                            ? formatCurrency(vc.normalizedTotalPrice, vc.normalizedCurrency)
+                            : "—"}
+                          {vc.currency !== vc.normalizedCurrency && (
+                            <p className="text-xs text-gray-400">
+                              {formatCurrency(vc.totalPrice, vc.currency)}
+                            </p>
+                          )}
+                          {vc.market && (
+                            <p
+                              className={cn(
+                                "text-xs",
+                                vc.market.outlier === "above"
+                                  ? "text-red-600"
+                                  : vc.market.outlier === "below"
+                                    ? "text-amber-600"
+                                    : "text-gray-400",
+                              )}
+                            >
+                              {vc.market.vsMedianPct > 0 ? "+" : ""}
+                              {vc.market.vsMedianPct}% vs market
+                              {vc.market.outlier && " (outlier)"}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-3 text-sm text-gray-700">
+                          {vc.qualityScore.toFixed(1)}/10
+                        </td>
+                        <td className="py-3 text-sm text-gray-700">
+                          {vc.leadTimeDays} days
+                        </td>
+                        <td className="py-3 text-sm text-gray-700">
+                          {vc.reliabilityScore.toFixed(1)}/10
+                        </td>
+                        <td className="py-3 text-sm text-gray-700">
+                          {vc.parsedPaymentTerms
+                            ? vc.parsedPaymentTerms.summary
+                            : (vc.paymentTerms ?? "—")}
+                        </td>
+                        <td className="py-3">
+                          <span
+                            className={cn(
+                              "text-sm font-bold",
+                              best ? "text-amber-600" : "text-gray-700",
+                            )}
+                          >
+                            {vc.finalScore.toFixed(1)}
+                          </span>
+                        </td>
+                        <td className="py-3">
+                          <RiskBadge level={vc.risk.level} />
+                          {vc.risk.flags.length > 0 && (
+                            <p className="mt-0.5 text-xs text-gray-400">
+                              {vc.risk.factors
+                                .filter((f) => f.flagged)
+                                .map((f) => f.label)
+                                .join(", ")}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-3 text-sm">
+                          {vc.eligible ? (
+                            vc.recommendation && (
+                              <span
+                                className={cn(
+                                  best ? "font-semibold text-amber-700" : "text-gray-600",
+                                )}
+                              >
+                                {best && "⭐ "}
+                                {vc.recommendation}
+                              </span>
+                            )
+                          ) : (
+                            <span className="text-xs text-red-600">
+                              {vc.violations.join("; ")}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                      {open && (
+                        <tr>
+                          <td colSpan={10} className="bg-gray-50 px-4 py-3">
+                            <ScoreBreakdown breakdown={vc.breakdown} />
+                            <RiskFactors factors={vc.risk.factors} />
+                            <NegotiationPanel quoteId={vc.quoteId} rfqId={rfq.id} />
+                            <AwardPanel quoteId={vc.quoteId} rfq={rfq} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
               </tbody>
             </table>
           </div>
         </div>
       )}
 
+      <ComparisonProfileCard rfqId={rfq.id} currency={rfq.budgetCurrency} />
+
+      {/* Line-by-line prices and split award */}
+      {comparison?.lineMatrix &&
+        comparison.comparison &&
+        comparison.lineMatrix.some((row) => row.offers.length > 0) &&
+        (rfq.lineItems.length > 1 ||
+          comparison.lineMatrix.some((row) => row.offers.some((o) => o.isAlternate))) && (
+          <LineMatrixCard
+            rows={comparison.lineMatrix}
+            vendors={comparison.comparison.map((vc) => ({
+              quoteId: vc.quoteId,
+              vendorName: vc.vendorName,
+            }))}
+            currency={comparison.currency ?? rfq.budgetCurrency}
+            splitAward={comparison.splitAward ?? null}
+          />
+        )}
+
+      {rfq.purchaseOrders && rfq.purchaseOrders.length > 0 && (
+        <PurchaseOrdersCard orders={rfq.purchaseOrders} />
+      )}
+
       {/* No quotes yet */}
       {(!comparison?.comparison || comparison.comparison.length === 0) && (
         <div className="rounded-xl border border-dashed border-gray-300 p-8 text-center">
@@ -245,3 +456,1389 @@ export default function RfqDetailPage() {
     </div>
   );
 }
+
+// ─── Scoring ─────────────────────────────────────────────────
+
+function ScoreBreakdown({ breakdown }: { breakdown: CriterionScore[] }) {
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="pb-1 font-medium">Criterion</th>
+          <th className="pb-1 font-medium">Weight</th>
+          <th className="pb-1 font-medium">Score (0–1)</th>
+          <th className="pb-1 font-medium">Points</th>
+          <th className="pb-1 font-medium">Detail</th>
+        </tr>
+      </thead>
+      <tbody>
+        {breakdown.map((c) => (
+          <tr key={c.key} className={cn(c.value === null && "text-gray-400")}>
+            <td className="py-0.5 text-gray-700">
+              {c.label}
+              <span className="ml-1 text-gray-400">
+                (
+                {c.direction === "minimize"
+                  ? "lower is better"
+                  : "higher is better"}
+                )
+              </span>
+            </td>
+            <td className="py-0.5">{c.weight}</td>
+            <td className="py-0.5">
+              {c.value === null ? "n/a" : c.value.toFixed(2)}
+            </td>
+            <td className="py-0.5 font-medium text-gray-700">
+              {c.contribution.toFixed(1)}
+            </td>
+            <td className="py-0.5 text-gray-500">{c.detail}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ─── Risk ────────────────────────────────────────────────────
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  low: "bg-green-50 text-green-700",
+  medium: "bg-amber-50 text-amber-700",
+  high: "bg-red-50 text-red-700",
+};
+
+function RiskBadge({ level }: { level: RiskLevel }) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium capitalize",
+        RISK_STYLES[level],
+      )}
+    >
+      {level !== "low" && <ShieldAlert className="h-3 w-3" />}
+      {level}
+    </span>
+  );
+}
+
+function RiskFactors({ factors }: { factors: RiskFactor[] }) {
+  return (
+    <div className="mt-3">
+      <p className="mb-1 text-xs font-medium text-gray-700">Supplier risk</p>
+      <ul className="space-y-0.5 text-xs">
+        {factors.map((f) => (
+          <li key={f.key} className="flex items-center gap-2">
+            <span className="w-44 text-gray-700">{f.label}</span>
+            {f.level ? (
+              <RiskBadge level={f.level} />
+            ) : (
+              <span className="text-gray-400">n/a</span>
+            )}
+            <span className="text-gray-500">{f.detail}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ComparisonProfileCard({
+  rfqId,
+  currency,
+}: {
+  rfqId: string;
+  currency: string;
+}) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<ComparisonProfile | null>(null);
+  const [certification, setCertification] = useState("");
+
+  const { data: current } = useQuery<RfqComparisonProfile>({
+    queryKey: ["rfq", rfqId, "comparison-profile"],
+    queryFn: () => rfqApi.getComparisonProfile(rfqId).then((r) => r.data),
+  });
+  const { data: config } = useQuery<ComparisonProfileConfig>({
+    queryKey: ["comparison-profile"],
+    queryFn: () => quoteApi.getDefaultProfile().then((r) => r.data),
+  });
+
+  const onSaved = () => {
+    setDraft(null);
+    queryClient.invalidateQueries({
+      queryKey: ["rfq", rfqId, "comparison-profile"],
+    });
+    queryClient.invalidateQueries({ queryKey: ["rfq", rfqId, "compare"] });
+  };
+  const save = useMutation({
+    mutationFn: (profile: ComparisonProfile) =>
+      rfqApi.setComparisonProfile(rfqId, profile),
+    onSuccess: onSaved,
+  });
+  const reset = useMutation({
+    mutationFn: () => rfqApi.resetComparisonProfile(rfqId),
+    onSuccess: onSaved,
+  });
+  const saveDefault = useMutation({
+    mutationFn: (profile: ComparisonProfile) =>
+      quoteApi.updateDefaultProfile(profile),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["comparison-profile"] });
+      onSaved();
+    },
+  });
+
+  if (!current || !config) return null;
+
+  const profile = draft ?? current.profile;
+  const { criteria, constraints } = profile;
+  const total = Object.values(criteria).reduce((sum, c) => sum + c.weight, 0);
+  const error = save.error ?? reset.error ?? saveDefault.error;
+
+  const setCriterion = (
+    key: ComparisonCriterionKey,
+    change: Partial<ComparisonProfile["criteria"][ComparisonCriterionKey]>,
+  ) =>
+    setDraft({
+      ...profile,
+      criteria: { ...criteria, [key]: { ...criteria[key], ...change } },
+    });
+  const setConstraints = (change: Partial<ComparisonProfile["constraints"]>) =>
+    setDraft({ ...profile, constraints: { ...constraints, ...change } });
+
+  const addCertification = () => {
+    const name = certification.trim();
+    if (name && !constraints.requiredCertifications.includes(name)) {
+      setConstraints({
+        requiredCertifications: [...constraints.requiredCertifications, name],
+      });
+    }
+    setCertification("");
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <SlidersHorizontal className="h-5 w-5 text-primary-600" />
+        Scoring Profile
+      </h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        {current.source === "rfq"
+          ? "This RFQ has its own weights and constraints."
+          : "Using the organisation default. Saving creates weights for this RFQ only."}{" "}
+        Quotes breaking a constraint are ranked last.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {(Object.keys(config.labels) as ComparisonCriterionKey[]).map((key) => (
+          <div key={key} className="flex items-center gap-3 text-sm">
+            <span className="w-28 text-gray-700">{config.labels[key]}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={criteria[key].weight}
+              onChange={(e) =>
+                setCriterion(key, { weight: Number(e.target.value) })
+              }
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-xs text-gray-500">
+              {total > 0
+                ? `${Math.round((criteria[key].weight / total) * 100)}%`
+                : "—"}
+            </span>
+            <select
+              value={criteria[key].direction}
+              onChange={(e) =>
+                setCriterion(key, {
+                  direction: e.target
+                    .value as ComparisonProfile["criteria"][ComparisonCriterionKey]["direction"],
+                })
+              }
+              className="rounded border border-gray-300 px-1 py-0.5 text-xs"
+            >
+              <option value="minimize">Minimize</option>
+              <option value="maximize">Maximize</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-3">
+        <div>
+          <label className="mb-1 block text-xs font-medium text-gray-500">
+            Required certifications
+          </label>
+          <div className="flex gap-2">
+            <input
+              value={certification}
+              onChange={(e) => setCertification(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addCertification();
+                }
+              }}
+              placeholder="e.g. ISO 9001"
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={addCertification}
+              className="rounded-lg border border-gray-300 px-3 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Add
+            </button>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-1">
+            {constraints.requiredCertifications.map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() =>
+                  setConstraints({
+                    requiredCertifications:
+                      constraints.requiredCertifications.filter(
+                        (c) => c !== name,
+                      ),
+                  })
+                }
+                className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700 hover:bg-red-50 hover:text-red-700"
+                title="Remove"
+              >
+                {name} ×
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-gray-500">
+            Max lead time (days)
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={constraints.maxLeadTimeDays ?? ""}
+            onChange={(e) =>
+              setConstraints({
+                maxLeadTimeDays: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+            placeholder="No limit"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-gray-500">
+            Budget ceiling ({currency})
+          </label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={constraints.budgetCeiling ?? ""}
+            onChange={(e) =>
+              setConstraints({
+                budgetCeiling: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+            placeholder="No limit"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600">
+          {apiError(error, "Could not save the profile")}
+        </p>
+      )}
+      <div className="mt-4 flex flex-wrap justify-end gap-2">
+        {current.source === "rfq" && (
+          <button
+            onClick={() => reset.mutate()}
+            disabled={reset.isPending}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Use organisation default
+          </button>
+        )}
+        {user?.role === "ADMIN" && (
+          <button
+            onClick={() => saveDefault.mutate(profile)}
+            disabled={total === 0 || saveDefault.isPending}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Save as organisation default
+          </button>
+        )}
+        <button
+          onClick={() => save.mutate(profile)}
+          disabled={!draft || total === 0 || save.isPending}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {save.isPending ? "Saving…" : "Save for this RFQ"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Negotiation ─────────────────────────────────────────────
+
+/** Quotes in these states can be negotiated */
+const NEGOTIABLE = ["RECEIVED", "UNDER_REVIEW", "NEGOTIATING"];
+
+function NegotiationPanel({
+  quoteId,
+  rfqId,
+}: {
+  quoteId: string;
+  rfqId: string;
+}) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [counterPrice, setCounterPrice] = useState("");
+  const [channel, setChannel] = useState<"email" | "whatsapp" | "call">(
+    "email",
+  );
+  const [message, setMessage] = useState("");
+
+  const { data: negotiation } = useQuery<QuoteNegotiation>({
+    queryKey: ["quote", quoteId, "negotiation"],
+    queryFn: () => quoteApi.negotiation(quoteId).then((r) => r.data),
+  });
+
+  const onChange = () => {
+    queryClient.invalidateQueries({
+      queryKey: ["quote", quoteId, "negotiation"],
+    });
+    queryClient.invalidateQueries({ queryKey: ["rfq", rfqId] });
+  };
+  const send = useMutation({
+    mutationFn: () =>
+      quoteApi.counterOffer(quoteId, {
+        counterPrice: Number(counterPrice),
+        channel,
+        message: message.trim() || undefined,
+      }),
+    onSuccess: () => {
+      setCounterPrice("");
+      setMessage("");
+      onChange();
+    },
+  });
+
+  if (!negotiation) return null;
+
+  const { suggestion, rounds, currency } = negotiation;
+  const open = rounds.find((r) => r.status === "SENT");
+  const accepted = rounds.some((r) => r.status === "ACCEPTED");
+  const blocked = !!negotiation.escalatedAt && user?.role !== "ADMIN";
+  const canCounter =
+    NEGOTIABLE.includes(negotiation.status) && !open && !accepted && !blocked;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    send.mutate();
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-3">
+      <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold text-gray-900">
+        <Handshake className="h-4 w-4 text-primary-600" />
+        Negotiation
+        <span className="text-xs font-normal text-gray-400">
+          {rounds.length}/{negotiation.maxRounds} rounds
+        </span>
+      </h3>
+
+      {negotiation.escalatedAt && (
+        <p className="mb-2 rounded-lg bg-red-50 px-3 py-2 text-xs text-red-700">
+          Escalated {formatDate(negotiation.escalatedAt)}: no agreement after{" "}
+          {negotiation.maxRounds} rounds. An admin has to take it from here.
+        </p>
+      )}
+
+      <NegotiationHistory rounds={rounds} currency={currency} />
+
+      {open && (
+        <VendorResponseForm
+          quoteId={quoteId}
+          round={open}
+          currency={currency}
+          onSaved={onChange}
+        />
+      )}
+
+      {canCounter && (
+        <form onSubmit={handleSubmit} className="mt-3 space-y-2">
+          {suggestion && (
+            <div className="rounded-lg bg-primary-50 px-3 py-2 text-xs text-primary-800">
+              <p>
+                Lowest comparable quote{" "}
+                {formatCurrency(suggestion.lowestPrice, currency)} (this one is{" "}
+                {suggestion.abovePct}% above); vendor score{" "}
+                {suggestion.vendorScore.toFixed(1)}/10 → suggested counter{" "}
+                <span className="font-semibold">
+                  {formatCurrency(suggestion.suggestedPrice, currency)}
+                </span>
+                . Tactic: {suggestion.tactic}
+                {!suggestion.negotiable &&
+                  " (not a priority negotiation target)"}
+              </p>
+              <button
+                type="button"
+                onClick={() => {
+                  setCounterPrice(String(suggestion.suggestedPrice));
+                  setMessage(suggestion.message);
+                }}
+                className="mt-1 font-medium text-primary-700 hover:underline"
+              >
+                Use suggestion
+              </button>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="number"
+              min={0}
+              step="any"
+              required
+              value={counterPrice}
+              onChange={(e) => setCounterPrice(e.target.value)}
+              placeholder={`Counter price (${currency})`}
+              className={cn(inputClass, "w-48")}
+            />
+            <select
+              value={channel}
+              onChange={(e) => setChannel(e.target.value as typeof channel)}
+              className={cn(inputClass, "w-40")}
+            >
+              <option value="email">Send by email</option>
+              <option value="whatsapp">Send by WhatsApp</option>
+              <option value="call">Made by phone</option>
+            </select>
+          </div>
+          <textarea
+            rows={2}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Message to the vendor (optional)"
+            className={inputClass}
+          />
+          {send.error && (
+            <p className="text-xs text-red-600">
+              {apiError(send.error, "Could not send the counter-offer")}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={!counterPrice || send.isPending}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {send.isPending
+              ? "Sending…"
+              : channel === "call"
+                ? `Record round ${rounds.length + 1}`
+                : `Send round ${rounds.length + 1}`}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// ─── Award ───────────────────────────────────────────────────
+
+/** Accepting a quote issues and emails a PO for its lines not yet ordered */
+function AwardPanel({ quoteId, rfq }: { quoteId: string; rfq: Rfq }) {
+  const queryClient = useQueryClient();
+  const [incoterms, setIncoterms] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const accept = useMutation({
+    mutationFn: () =>
+      quoteApi.updateStatus(quoteId, "ACCEPTED", {
+        incoterms: incoterms.trim() || undefined,
+        notes: notes.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["rfq", rfq.id] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+    },
+  });
+
+  const po = rfq.purchaseOrders?.find((o) => o.quoteId === quoteId);
+  if (!po && (rfq.status === "COMPLETED" || rfq.status === "CANCELLED")) {
+    return null;
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (confirm("Accept this quote and send the vendor a purchase order?")) {
+      accept.mutate();
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-3">
+      <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold text-gray-900">
+        <ClipboardList className="h-4 w-4 text-primary-600" />
+        Purchase order
+      </h3>
+      {po ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Link
+            to={`/purchase-orders/${po.id}`}
+            className="font-medium text-primary-600 hover:text-primary-700"
+          >
+            {po.poNumber}
+          </Link>
+          <StatusBadge status={po.status} />
+          <span className="text-gray-500">
+            {po.lineItems.length} line{po.lineItems.length === 1 ? "" : "s"},{" "}
+            {formatCurrency(po.totalAmount, po.currency)}
+          </span>
+          {po.emailError && (
+            <span className="text-xs text-red-600">
+              Not sent: {po.emailError}
+            </span>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <p className="text-xs text-gray-500">
+            Orders the lines this quote prices that no other PO covers, and
+            emails the PO to the vendor.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={incoterms}
+              onChange={(e) => setIncoterms(e.target.value)}
+              placeholder="Incoterms, e.g. FOB Shanghai"
+              className={cn(inputClass, "w-56")}
+            />
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Notes for the PO (optional)"
+              className={cn(inputClass, "flex-1")}
+            />
+          </div>
+          {accept.error && (
+            <p className="text-xs text-red-600">
+              {apiError(accept.error, "Could not issue the purchase order")}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={accept.isPending}
+            className="rounded-lg bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-700 disabled:opacity-50"
+          >
+            {accept.isPending ? "Issuing…" : "Accept & issue PO"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function PurchaseOrdersCard({ orders }: { orders: PurchaseOrder[] }) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <ClipboardList className="h-5 w-5 text-primary-600" />
+        Purchase Orders
+      </h2>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              PO #
+            </th>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Vendor
+            </th>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Products
+            </th>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Total
+            </th>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Status
+            </th>
+            <th className="pb-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {orders.map((po) => (
+            <tr key={po.id}>
+              <td className="py-3 text-sm">
+                <Link
+                  to={`/purchase-orders/${po.id}`}
+                  className="font-medium text-primary-600 hover:text-primary-700"
+                >
+                  {po.poNumber}
+                </Link>
+              </td>
+              <td className="py-3 text-sm text-gray-700">
+                {po.vendor?.companyName}
+              </td>
+              <td className="py-3 text-sm text-gray-500">
+                {po.lineItems.map((l) => l.description).join(", ")}
+              </td>
+              <td className="py-3 text-sm text-gray-700">
+                {formatCurrency(po.totalAmount, po.currency)}
+              </td>
+              <td className="py-3">
+                <StatusBadge status={po.status} />
+              </td>
+              <td className="py-3 text-right">
+                <PurchaseOrderPdfButton po={po} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function VendorResponseForm({
+  quoteId,
+  round,
+  currency,
+  onSaved,
+}: {
+  quoteId: string;
+  round: NegotiationRound;
+  currency: string;
+  onSaved: () => void;
+}) {
+  const [outcome, setOutcome] = useState<"ACCEPTED" | "REVISED" | "DECLINED">(
+    "ACCEPTED",
+  );
+  const [revisedPrice, setRevisedPrice] = useState("");
+  const [response, setResponse] = useState(round.communication?.response ?? "");
+
+  const record = useMutation({
+    mutationFn: () =>
+      quoteApi.recordResponse(quoteId, round.id, {
+        outcome,
+        response: response.trim() || undefined,
+        revisedPrice: outcome === "REVISED" ? Number(revisedPrice) : undefined,
+      }),
+    onSuccess: onSaved,
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    record.mutate();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-3 space-y-2 rounded-lg border border-amber-200 bg-amber-50/50 p-3"
+    >
+      <p className="text-xs font-medium text-amber-800">
+        Waiting for the vendor&apos;s answer to round {round.round}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as typeof outcome)}
+          className={cn(inputClass, "w-56")}
+        >
+          <option value="ACCEPTED">
+            Accepted {formatCurrency(round.counterPrice, currency)}
+          </option>
+          <option value="REVISED">Came back with a new price</option>
+          <option value="DECLINED">Kept their price</option>
+        </select>
+        {outcome === "REVISED" && (
+          <input
+            type="number"
+            min={0}
+            step="any"
+            required
+            value={revisedPrice}
+            onChange={(e) => setRevisedPrice(e.target.value)}
+            placeholder={`New total (${currency})`}
+            className={cn(inputClass, "w-48")}
+          />
+        )}
+      </div>
+      <textarea
+        rows={2}
+        value={response}
+        onChange={(e) => setResponse(e.target.value)}
+        placeholder="What the vendor said (optional)"
+        className={inputClass}
+      />
+      {record.error && (
+        <p className="text-xs text-red-600">
+          {apiError(record.error, "Could not record the answer")}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={record.isPending}
+        className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        Record answer
+      </button>
+    </form>
+  );
+}
+
+// ─── Line-by-line comparison ─────────────────────────────────
+
+function LineMatrixCard({
+  rows,
+  vendors,
+  currency,
+  splitAward,
+}: {
+  rows: LineMatrixRow[];
+  vendors: { quoteId: string; vendorName: string }[];
+  currency: string;
+  splitAward: SplitAward | null;
+}) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-1 text-lg font-semibold text-gray-900">Prices by Line Item</h2>
+      <p className="mb-4 text-sm text-gray-500">
+        Line totals in {currency}; the cheapest exact offer per line is highlighted.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr>
+              <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+                Product
+              </th>
+              {vendors.map((v) => (
+                <th
+                  key={v.quoteId}
+                  className="pb-3 text-left text-xs font-medium uppercase text-gray-500"
+                >
+                  {v.vendorName}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row) => (
+              <tr key={row.lineItemId}>
+                <td className="py-3 pr-4 text-sm">
+                  <p className="font-medium text-gray-900">{row.productName}</p>
+                  <p className="text-xs text-gray-400">
+                    {row.quantity.toLocaleString()} {row.unit}
+                  </p>
+                </td>
+                {vendors.map((v) => {
+                  const offers = row.offers.filter((o) => o.quoteId === v.quoteId);
+                  const best = row.bestQuoteId === v.quoteId;
+                  return (
+                    <td
+                      key={v.quoteId}
+                      className={cn("py-3 pr-4 align-top text-sm", best && "bg-green-50")}
+                    >
+                      {offers.length === 0 && <span className="text-gray-300">—</span>}
+                      {offers.map((offer) => (
+                        <div
+                          key={String(offer.isAlternate)}
+                          className={cn(offer.isAlternate && "mt-1")}
+                        >
+                          <p
+                            className={cn(
+                              offer.isAlternate ? "text-gray-500" : "text-gray-900",
+                              best && !offer.isAlternate && "font-semibold text-green-700",
+                            )}
+                          >
+                            {offer.normalizedTotalPrice != null
+                              ? formatCurrency(offer.normalizedTotalPrice, currency)
+                              : formatCurrency(offer.totalPrice, offer.currency)}
+                            {offer.isAlternate && " (alt.)"}
+                          </p>
+                          <p className="text-xs text-gray-400">
+                            {formatCurrency(offer.unitPrice, offer.currency)} / unit
+                            {offer.quantity !== row.quantity && ` × ${offer.quantity.toLocaleString()}`}
+                          </p>
+                          {offer.description && (
+                            <p className="text-xs italic text-gray-500">{offer.description}</p>
+                          )}
+                        </div>
+                      ))}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {splitAward && splitAward.lines.length > 0 && (
+        <div className="mt-6 rounded-lg bg-gray-50 p-4">
+          <h3 className="mb-2 text-sm font-semibold text-gray-900">
+            Split award recommendation
+          </h3>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {splitAward.lines.map((line) => (
+              <li key={line.lineItemId} className="flex justify-between gap-4">
+                <span>
+                  {line.productName} → <span className="font-medium">{line.vendorName}</span>
+                  {line.isAlternate && (
+                    <span className="text-amber-600"> (alternate only)</span>
+                  )}
+                </span>
+                <span>{formatCurrency(line.normalizedTotalPrice, splitAward.currency)}</span>
+              </li>
+            ))}
+          </ul>
+          {splitAward.unawarded.length > 0 && (
+            <p className="mt-2 text-sm text-amber-700">
+              No priced offer for {splitAward.unawarded.map((u) => u.productName).join(", ")}.
+            </p>
+          )}
+          <p className="mt-3 text-sm text-gray-900">
+            Total {formatCurrency(splitAward.total, splitAward.currency)} across{" "}
+            {splitAward.vendorCount} vendor{splitAward.vendorCount === 1 ? "" : "s"}
+            {splitAward.bestSingle && (
+              <>
+                {" "}
+                · best single vendor: {splitAward.bestSingle.vendorName} at{" "}
+                {formatCurrency(splitAward.bestSingle.total, splitAward.currency)}
+              </>
+            )}
+            {splitAward.savings != null && splitAward.savings > 0 && (
+              <span className="font-medium text-green-700">
+                {" "}
+                (saves {formatCurrency(splitAward.savings, splitAward.currency)},{" "}
+                {splitAward.savingsPct}%)
+              </span>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Sending to vendors ──────────────────────────────────────
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none";
+
+const INVITATION_STATUS_STYLES: Record<RfqInvitationStatus, string> = {
+  PENDING: "bg-gray-100 text-gray-600",
+  SENT: "bg-blue-50 text-blue-700",
+  FAILED: "bg-red-50 text-red-700",
+  VIEWED: "bg-amber-50 text-amber-700",
+  SUBMITTED: "bg-green-50 text-green-700",
+};
+
+// ─── Approval ────────────────────────────────────────────────
+
+const APPROVAL_ACTION_LABELS: Record<RfqApprovalAction, string> = {
+  SUBMITTED: "Submitted for approval",
+  APPROVED: "Approved",
+  REJECTED: "Rejected",
+  REVOKED: "Approval revoked",
+};
+
+function ApprovalCard({ rfq, approval }: { rfq: Rfq; approval: RfqApproval }) {
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState("");
+
+  const act = useMutation({
+    mutationFn: (action: "submit" | "approve" | "reject"): Promise<unknown> =>
+      action === "submit"
+        ? rfqApi.submitForApproval(rfq.id, comment || undefined)
+        : action === "approve"
+          ? rfqApi.approve(rfq.id, comment || undefined)
+          : rfqApi.reject(rfq.id, comment),
+    onSuccess: () => {
+      setComment("");
+      setError("");
+      queryClient.invalidateQueries({ queryKey: ["rfq", rfq.id] });
+      queryClient.invalidateQueries({ queryKey: ["rfqs"] });
+    },
+    onError: (err: unknown) => setError(apiError(err, "Failed to update approval")),
+  });
+
+  const canSubmit = rfq.status === "DRAFT" && approval.required;
+  const canDecide = rfq.status === "PENDING_APPROVAL" && approval.canApprove;
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-2 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <ShieldCheck className="h-5 w-5 text-primary-600" />
+        Approval
+      </h2>
+      {approval.required && (
+        <p className="mb-3 text-sm text-gray-600">
+          {rfq.status === "APPROVED"
+            ? "Approved and ready to send."
+            : rfq.status === "PENDING_APPROVAL"
+              ? "Waiting for an approver."
+              : rfq.status === "DRAFT"
+                ? "Needs approval before it can be sent:"
+                : "Needed approval:"}{" "}
+          {approval.reasons.join("; ")}
+        </p>
+      )}
+
+      {approval.events.length > 0 && (
+        <ol className="mb-4 space-y-2 border-l-2 border-gray-100 pl-4 text-sm">
+          {approval.events.map((e) => (
+            <li key={e.id}>
+              <span className="font-medium text-gray-900">
+                {APPROVAL_ACTION_LABELS[e.action]}
+              </span>
+              <span className="text-gray-500">
+                {" "}
+                by {e.actor?.name ?? "unknown"} · {formatDate(e.createdAt)}
+              </span>
+              {e.comment && <p className="text-gray-600">{e.comment}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {(canSubmit || canDecide) && (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder={canDecide ? "Comment (required to reject)" : "Note for the approver (optional)"}
+            className={inputClass}
+          />
+          <div className="flex justify-end gap-2">
+            {canSubmit && (
+              <button
+                onClick={() => act.mutate("submit")}
+                disabled={act.isPending}
+                className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+              >
+                Submit for approval
+              </button>
+            )}
+            {canDecide && (
+              <>
+                <button
+                  onClick={() => act.mutate("reject")}
+                  disabled={!comment.trim() || act.isPending}
+                  className="rounded-lg border border-red-300 px-3 py-1.5 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  onClick={() => act.mutate("approve")}
+                  disabled={act.isPending}
+                  className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+                >
+                  Approve
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Status ──────────────────────────────────────────────────
+
+/** Moves a user makes by hand; sending and approval have their own cards */
+const MANUAL_TRANSITIONS: Partial<Record<RfqStatus, RfqStatus[]>> = {
+  DRAFT: ["CANCELLED"],
+  PENDING_APPROVAL: ["CANCELLED"],
+  APPROVED: ["DRAFT", "CANCELLED"],
+  SENT: ["QUOTING", "COMPARING", "CANCELLED"],
+  QUOTING: ["NEGOTIATING", "COMPARING", "COMPLETED", "CANCELLED"],
+  NEGOTIATING: ["QUOTING", "COMPARING", "COMPLETED", "CANCELLED"],
+  COMPARING: ["NEGOTIATING", "COMPLETED", "CANCELLED"],
+};
+
+function StatusCard({ rfq }: { rfq: Rfq }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [next, setNext] = useState<RfqStatus | "">("");
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+
+  const { data: events } = useQuery<{ data: RfqStatusEvent[] }>({
+    queryKey: ["rfq", rfq.id, "status-events"],
+    queryFn: () => rfqApi.statusEvents(rfq.id).then((r) => r.data),
+  });
+
+  const change = useMutation({
+    mutationFn: (status: RfqStatus) =>
+      rfqApi.changeStatus(rfq.id, status, reason || undefined),
+    onSuccess: () => {
+      setNext("");
+      setReason("");
+      setError("");
+      queryClient.invalidateQueries({ queryKey: ["rfq", rfq.id] });
+      queryClient.invalidateQueries({ queryKey: ["rfqs"] });
+    },
+    onError: (err: unknown) => setError(apiError(err, "Failed to change status")),
+  });
+
+  const canEdit =
+    user?.role === "ADMIN" ||
+    (user?.role === "BUYER" && user.id === rfq.requestedById);
+  const options = canEdit ? (MANUAL_TRANSITIONS[rfq.status] ?? []) : [];
+  const history = events?.data ?? [];
+  if (history.length === 0 && options.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-3 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <History className="h-5 w-5 text-primary-600" />
+        Status History
+      </h2>
+
+      {history.length > 0 && (
+        <ol className="mb-4 space-y-2 border-l-2 border-gray-100 pl-4 text-sm">
+          {history.map((e) => (
+            <li key={e.id}>
+              <span className="font-medium text-gray-900">
+                {e.fromStatus
+                  ? `${e.fromStatus.replace(/_/g, " ")} → ${e.toStatus.replace(/_/g, " ")}`
+                  : "Created"}
+              </span>
+              <span className="text-gray-500">
+                {" "}
+                {e.actor ? `by ${e.actor.name}` : "automatically"} ·{" "}
+                {formatDate(e.createdAt)}
+              </span>
+              {e.reason && <p className="text-gray-600">{e.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {options.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={next}
+              onChange={(e) => setNext(e.target.value as RfqStatus | "")}
+              className={cn(inputClass, "w-56")}
+            >
+              <option value="">Move to…</option>
+              {options.map((status) => (
+                <option key={status} value={status}>
+                  {status.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={
+                next === "CANCELLED"
+                  ? "Why is it cancelled? (required)"
+                  : "Reason (optional)"
+              }
+              className={inputClass}
+            />
+            <button
+              onClick={() => next && change.mutate(next)}
+              disabled={
+                !next ||
+                (next === "CANCELLED" && !reason.trim()) ||
+                change.isPending
+              }
+              className={cn(
+                "shrink-0 rounded-lg px-3 py-1.5 text-sm font-semibold disabled:opacity-50",
+                next === "CANCELLED"
+                  ? "border border-red-300 text-red-700 hover:bg-red-50"
+                  : "bg-primary-600 text-white hover:bg-primary-700",
+              )}
+            >
+              {change.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Update"}
+            </button>
+          </div>
+          {next === "CANCELLED" && (
+            <p className="text-xs text-gray-500">
+              Vendors the RFQ was sent to are emailed that it is cancelled. This
+              can't be undone.
+            </p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Local datetime-local value one week from now */
+function defaultDeadline() {
+  const date = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
+function SendRfqCard({ rfq }: { rfq: Rfq }) {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [deadline, setDeadline] = useState(defaultDeadline);
+  const [customMessage, setCustomMessage] = useState("");
+
+  const { data: vendors } = useQuery<PaginatedResponse<Vendor>>({
+    queryKey: ["vendors", "dispatch", search],
+    queryFn: () =>
+      vendorApi
+        .list({ search: search || undefined, limit: 100, sortBy: "companyName", sortOrder: "asc" })
+        .then((r) => r.data),
+  });
+
+  const dispatch = useMutation({
+    mutationFn: () =>
+      rfqApi
+        .dispatch(rfq.id, {
+          vendorIds: selected,
+          deadline: new Date(deadline).toISOString(),
+          customMessage: customMessage.trim() || undefined,
+        })
+        .then((r) => r.data as DispatchRfqResult),
+    onSuccess: () => {
+      setSelected([]);
+      queryClient.invalidateQueries({ queryKey: ["rfq", rfq.id] });
+      queryClient.invalidateQueries({ queryKey: ["rfqs"] });
+    },
+  });
+
+  const toggle = (vendorId: string) =>
+    setSelected((prev) =>
+      prev.includes(vendorId) ? prev.filter((v) => v !== vendorId) : [...prev, vendorId],
+    );
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    dispatch.mutate();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+    >
+      <h2 className="mb-1 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <Send className="h-5 w-5 text-primary-600" />
+        Send to Vendors
+      </h2>
+      <p className="mb-4 text-sm text-gray-500">
+        Each vendor is emailed the RFQ invitation template with a personal link to
+        submit their quote.
+      </p>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search vendors…"
+            className={inputClass}
+          />
+          <div className="mt-2 max-h-56 space-y-1 overflow-y-auto rounded-lg border border-gray-100 p-2">
+            {vendors?.data.map((vendor) => (
+              <label
+                key={vendor.id}
+                className="flex cursor-pointer items-center gap-2 rounded px-2 py-1 text-sm hover:bg-gray-50"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(vendor.id)}
+                  onChange={() => toggle(vendor.id)}
+                />
+                <span className="flex-1 text-gray-900">{vendor.companyName}</span>
+                <span className="text-xs text-gray-400">{vendor.country}</span>
+              </label>
+            ))}
+            {vendors?.data.length === 0 && (
+              <p className="px-2 py-1 text-sm text-gray-400">No vendors found.</p>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">{selected.length} selected</p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">
+              Quote deadline
+            </label>
+            <input
+              type="datetime-local"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">
+              Message (optional)
+            </label>
+            <textarea
+              value={customMessage}
+              onChange={(e) => setCustomMessage(e.target.value)}
+              rows={4}
+              className={inputClass}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={selected.length === 0 || !deadline || dispatch.isPending}
+            className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {dispatch.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+            Send RFQ
+          </button>
+        </div>
+      </div>
+
+      {dispatch.isError && (
+        <p className="mt-3 text-sm text-red-600">
+          {apiError(dispatch.error, "Failed to send RFQ")}
+        </p>
+      )}
+      {dispatch.data && (
+        <div className="mt-3 text-sm">
+          <p className="text-gray-700">
+            Sent to {dispatch.data.sent} vendor{dispatch.data.sent === 1 ? "" : "s"}
+            {dispatch.data.failed > 0 && `, ${dispatch.data.failed} failed`}.
+          </p>
+          {dispatch.data.results
+            .filter((r) => r.error)
+            .map((r) => (
+              <p key={r.vendorId} className="text-red-600">
+                {r.vendorName}: {r.error}
+              </p>
+            ))}
+        </div>
+      )}
+    </form>
+  );
+}
+
+function InvitationsCard({ rfqId }: { rfqId: string }) {
+  const { data: invitations } = useQuery<RfqInvitation[]>({
+    queryKey: ["rfq", rfqId, "invitations"],
+    queryFn: () => rfqApi.invitations(rfqId).then((r) => r.data),
+  });
+
+  const download = async (quoteId: string, attachment: { id: string; filename: string }) => {
+    const res = await quoteApi.downloadAttachment(quoteId, attachment.id);
+    const url = URL.createObjectURL(res.data as Blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = attachment.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!invitations || invitations.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-4 text-lg font-semibold text-gray-900">Invited Vendors</h2>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Vendor
+            </th>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Status
+            </th>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Sent
+            </th>
+            <th className="pb-3 text-left text-xs font-medium uppercase text-gray-500">
+              Quote
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {invitations.map((inv) => (
+            <tr key={inv.id}>
+              <td className="py-3">
+                <Link
+                  to={`/vendors/${inv.vendor.id}`}
+                  className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                >
+                  {inv.vendor.companyName}
+                </Link>
+                {inv.recipient && <p className="text-xs text-gray-400">{inv.recipient}</p>}
+              </td>
+              <td className="py-3">
+                <span
+                  className={cn(
+                    "rounded-full px-2 py-0.5 text-xs font-medium",
+                    INVITATION_STATUS_STYLES[inv.status],
+                  )}
+                >
+                  {inv.status}
+                </span>
+                {inv.error && <p className="mt-1 text-xs text-red-600">{inv.error}</p>}
+              </td>
+              <td className="py-3 text-sm text-gray-500">
+                {inv.sentAt ? formatDate(inv.sentAt) : "—"}
+              </td>
+              <td className="py-3 text-sm text-gray-700">
+                {inv.quote ? formatCurrency(inv.quote.totalPrice, inv.quote.currency) : "—"}
+                {inv.quote?.attachments.map((attachment) => (
+                  <button
+                    key={attachment.id}
+                    type="button"
+                    onClick={() => download(inv.quote!.id, attachment)}
+                    className="mt-1 flex items-center gap-1 text-xs text-primary-600 hover:underline"
+                  >
+                    <Paperclip className="h-3 w-3" />
+                    {attachment.filename}
+                  </button>
+                ))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,13 +1,22 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
-import { Plus, FileText } from "lucide-react";
-import { rfqApi } from "@/lib/api";
+import { Plus, FileText, ShieldCheck, Hash } from "lucide-react";
+import { authApi, numberingApi, rfqApi } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { formatDate, formatCurrency } from "@/lib/utils";
-import type { Rfq, PaginatedResponse } from "@/types";
+import type {
+  ApprovalPolicy,
+  DocumentNumberFormat,
+  DocumentType,
+  Rfq,
+  PaginatedResponse,
+  User,
+} from "@/types";
 
 export default function RfqListPage() {
+  const { user } = useAuth();
   const [page, setPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<string>("");
 
@@ -55,6 +64,8 @@ export default function RfqListPage() {
         >
           <option value="">All statuses</option>
           <option value="DRAFT">Draft</option>
+          <option value="PENDING_APPROVAL">Pending approval</option>
+          <option value="APPROVED">Approved</option>
           <option value="SENT">Sent</option>
           <option value="QUOTING">Quoting</option>
           <option value="NEGOTIATING">Negotiating</option>
@@ -179,6 +190,213 @@ export default function RfqListPage() {
           </div>
         </div>
       )}
+
+      {user?.role === "ADMIN" && <ApprovalPolicyCard />}
+      {user?.platformAdmin && <DocumentNumbersCard />}
+    </div>
+  );
+}
+
+// ─── Approval policy (admin) ─────────────────────────────────
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+function ApprovalPolicyCard() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ApprovalPolicy | null>(null);
+  const [error, setError] = useState("");
+
+  const { data: config } = useQuery<{ policy: ApprovalPolicy; defaults: ApprovalPolicy }>({
+    queryKey: ["rfqs", "approval-policy"],
+    queryFn: () => rfqApi.getApprovalPolicy().then((r) => r.data),
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["users"],
+    queryFn: () => authApi.users().then((r) => r.data),
+  });
+
+  const save = useMutation({
+    mutationFn: (policy: ApprovalPolicy) => rfqApi.updateApprovalPolicy(policy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["rfqs", "approval-policy"] });
+      setDraft(null);
+      setError("");
+    },
+    onError: (err: unknown) => setError(apiError(err, "Failed to save policy")),
+  });
+
+  if (!config) return null;
+
+  const policy = draft ?? config.policy;
+  const approvers = users?.filter((u) => u.role !== "ADMIN" && u.role !== "VIEWER") ?? [];
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <ShieldCheck className="h-5 w-5 text-primary-600" />
+        RFQ Approval
+      </h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        Urgent RFQs, and RFQs whose maximum budget is over the threshold, need
+        approval before they are sent. Admins can always approve.
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="space-y-1 text-sm">
+          <span className="text-gray-700">Budget threshold</span>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              value={policy.budgetThreshold ?? ""}
+              placeholder="No budget rule"
+              onChange={(e) =>
+                setDraft({
+                  ...policy,
+                  budgetThreshold: e.target.value ? Number(e.target.value) : null,
+                })
+              }
+              className="w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-primary-500 focus:outline-none"
+            />
+            <input
+              value={policy.currency}
+              maxLength={3}
+              onChange={(e) =>
+                setDraft({ ...policy, currency: e.target.value.toUpperCase() })
+              }
+              className="w-20 rounded-lg border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-primary-500 focus:outline-none"
+            />
+          </div>
+        </label>
+        <div className="space-y-1 text-sm">
+          <span className="text-gray-700">Other approvers</span>
+          {approvers.length === 0 && (
+            <p className="text-gray-400">No buyers to designate</p>
+          )}
+          {approvers.map((u) => (
+            <label key={u.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={policy.approverIds.includes(u.id)}
+                onChange={(e) =>
+                  setDraft({
+                    ...policy,
+                    approverIds: e.target.checked
+                      ? [...policy.approverIds, u.id]
+                      : policy.approverIds.filter((id) => id !== u.id),
+                  })
+                }
+              />
+              <span className="text-gray-700">{u.name}</span>
+              <span className="text-xs text-gray-400">{u.email}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      {error && (
+        <div className="mt-4 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={() => setDraft(config.defaults)}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={() => save.mutate(policy)}
+          disabled={!draft || save.isPending}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {save.isPending ? "Saving…" : "Save policy"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Document numbers (admin) ────────────────────────────────
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  RFQ: "RFQs",
+  PURCHASE_ORDER: "Purchase orders",
+  INVOICE: "Invoices",
+};
+
+function DocumentNumbersCard() {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Partial<Record<DocumentType, string>>>({});
+  const [error, setError] = useState("");
+
+  const { data } = useQuery<{ data: DocumentNumberFormat[] }>({
+    queryKey: ["numbering"],
+    queryFn: () => numberingApi.list().then((r) => r.data),
+  });
+
+  const save = useMutation({
+    mutationFn: ({ type, format }: { type: DocumentType; format: string }) =>
+      numberingApi.update(type, format),
+    onSuccess: (_res, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ["numbering"] });
+      setDrafts((d) => ({ ...d, [type]: undefined }));
+      setError("");
+    },
+    onError: (err: unknown) =>
+      setError(apiError(err, "Invalid format: use {YYYY} or {YY}, and {SEQ} or {SEQ:n}")),
+  });
+
+  if (!data) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <Hash className="h-5 w-5 text-primary-600" />
+        Document Numbers
+      </h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        {"{YYYY}"} or {"{YY}"} is the year and {"{SEQ:4}"} a counter padded to
+        4 digits. Counters restart each year and never reuse a number.
+      </p>
+      <div className="space-y-3">
+        {data.data.map((row) => {
+          const draft = drafts[row.type];
+          return (
+            <div key={row.type} className="flex items-center gap-3 text-sm">
+              <span className="w-36 text-gray-700">
+                {DOCUMENT_TYPE_LABELS[row.type]}
+              </span>
+              <input
+                value={draft ?? row.format}
+                placeholder={row.defaultFormat}
+                onChange={(e) =>
+                  setDrafts((d) => ({ ...d, [row.type]: e.target.value }))
+                }
+                className="w-56 rounded-lg border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-primary-500 focus:outline-none"
+              />
+              <span className="flex-1 text-gray-500">Next: {row.next}</span>
+              <button
+                onClick={() => save.mutate({ type: row.type, format: draft! })}
+                disabled={draft === undefined || draft === row.format || save.isPending}
+                className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      {error && (
+        <div className="mt-4 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
     </div>
   );
 }
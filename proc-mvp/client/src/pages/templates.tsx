@@ -0,0 +1,583 @@
+import { useRef, useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Eye, FileText, History, Loader2, Plus } from "lucide-react";
+import { rfqApi, templateApi, vendorApi } from "@/lib/api";
+import { cn, formatDate } from "@/lib/utils";
+import type {
+  MessageTemplate,
+  OutreachChannel,
+  PaginatedResponse,
+  RenderedTemplate,
+  Rfq,
+  TemplateVariableInfo,
+  Vendor,
+} from "@/types";
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:ring-2 focus:ring-primary-500/20 focus:outline-none";
+
+export default function TemplatesPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const { data: templates, isLoading } = useQuery<MessageTemplate[]>({
+    queryKey: ["templates"],
+    queryFn: () => templateApi.list().then((r) => r.data),
+  });
+
+  const { data: variableInfo } = useQuery<TemplateVariableInfo>({
+    queryKey: ["templates", "variables"],
+    queryFn: () => templateApi.variables().then((r) => r.data),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Message Templates</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Outreach and RFQ messages per channel and language. Sequence steps
+            use a template by its key.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setCreating(true);
+            setSelectedId(null);
+          }}
+          className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-primary-700"
+        >
+          <Plus className="h-4 w-4" />
+          New template
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="rounded-xl border border-gray-200 bg-white shadow-sm">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+            </div>
+          ) : !templates || templates.length === 0 ? (
+            <p className="px-6 py-12 text-center text-sm text-gray-400">
+              No templates yet; sends use the built-in texts.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {templates.map((t) => (
+                <li key={t.id}>
+                  <button
+                    onClick={() => {
+                      setSelectedId(t.id);
+                      setCreating(false);
+                    }}
+                    className={cn(
+                      "w-full px-4 py-3 text-left hover:bg-gray-50",
+                      selectedId === t.id && "bg-primary-50",
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span
+                        className={cn(
+                          "font-medium",
+                          t.active ? "text-gray-900" : "text-gray-400",
+                        )}
+                      >
+                        {t.name}
+                      </span>
+                      <span className="text-xs text-gray-400">v{t.currentVersion}</span>
+                    </div>
+                    <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                      <code className="rounded bg-gray-100 px-1">{t.key}</code>
+                      <span>{t.channel === "EMAIL" ? "Email" : "WhatsApp"}</span>
+                      <span className="uppercase">{t.language}</span>
+                      {!t.active && <span>· inactive</span>}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="lg:col-span-2">
+          {creating ? (
+            <NewTemplateForm
+              variables={variableInfo?.variables ?? {}}
+              onCreated={(id) => {
+                setCreating(false);
+                setSelectedId(id);
+              }}
+            />
+          ) : selectedId ? (
+            <TemplateEditor
+              key={selectedId}
+              id={selectedId}
+              variables={variableInfo?.variables ?? {}}
+              onDeleted={() => setSelectedId(null)}
+            />
+          ) : (
+            <div className="rounded-xl border border-dashed border-gray-300 p-12 text-center text-sm text-gray-400">
+              <FileText className="mx-auto mb-2 h-8 w-8" />
+              Select a template to edit and preview it
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function NewTemplateForm({
+  variables,
+  onCreated,
+}: {
+  variables: Record<string, string>;
+  onCreated: (id: string) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    key: "",
+    name: "",
+    channel: "EMAIL" as OutreachChannel,
+    language: "en",
+    subject: "",
+    body: "",
+  });
+  const [error, setError] = useState("");
+
+  const create = useMutation({
+    mutationFn: () =>
+      templateApi
+        .create({
+          ...form,
+          subject: form.channel === "EMAIL" ? form.subject : undefined,
+        })
+        .then((r) => r.data as MessageTemplate),
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["templates"] });
+      onCreated(template.id);
+    },
+    onError: (err: unknown) => setError(apiError(err, "Failed to create template")),
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setError("");
+    create.mutate();
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-4 rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+    >
+      <h2 className="text-lg font-semibold text-gray-900">New template</h2>
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          required
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Name, e.g. RFQ invitation"
+          className={inputClass}
+        />
+        <input
+          required
+          value={form.key}
+          onChange={(e) =>
+            setForm({ ...form, key: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") })
+          }
+          placeholder="Key, e.g. rfq_invitation"
+          className={inputClass}
+        />
+        <select
+          value={form.channel}
+          onChange={(e) => setForm({ ...form, channel: e.target.value as OutreachChannel })}
+          className={inputClass}
+        >
+          <option value="EMAIL">Email</option>
+          <option value="WHATSAPP">WhatsApp</option>
+        </select>
+        <input
+          required
+          value={form.language}
+          onChange={(e) => setForm({ ...form, language: e.target.value })}
+          placeholder="Language, e.g. en or pt-BR"
+          className={inputClass}
+        />
+      </div>
+      <TemplateContentFields
+        channel={form.channel}
+        subject={form.subject}
+        body={form.body}
+        variables={variables}
+        onChange={(content) => setForm({ ...form, ...content })}
+      />
+      {error && (
+        <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={create.isPending}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {create.isPending ? "Creating…" : "Create template"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function TemplateEditor({
+  id,
+  variables,
+  onDeleted,
+}: {
+  id: string;
+  variables: Record<string, string>;
+  onDeleted: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<{ subject: string; body: string } | null>(null);
+  const [error, setError] = useState("");
+
+  const { data: template, isLoading } = useQuery<MessageTemplate>({
+    queryKey: ["templates", id],
+    queryFn: () => templateApi.get(id).then((r) => r.data),
+  });
+
+  const current = template?.versions?.[0];
+  const content = draft ?? { subject: current?.subject ?? "", body: current?.body ?? "" };
+  const dirty =
+    !!draft && (draft.subject !== (current?.subject ?? "") || draft.body !== current?.body);
+
+  const onSuccess = () => {
+    setDraft(null);
+    setError("");
+    queryClient.invalidateQueries({ queryKey: ["templates"] });
+  };
+  const onError = (err: unknown) => setError(apiError(err, "Failed to save template"));
+
+  const save = useMutation({
+    mutationFn: (data: { active?: boolean; subject?: string; body?: string }) =>
+      templateApi.update(id, data),
+    onSuccess,
+    onError,
+  });
+
+  const restore = useMutation({
+    mutationFn: (version: number) => templateApi.restoreVersion(id, version),
+    onSuccess,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: () => templateApi.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["templates"] });
+      onDeleted();
+    },
+    onError,
+  });
+
+  if (isLoading || !template) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{template.name}</h2>
+            <p className="mt-1 text-xs text-gray-500">
+              <code className="rounded bg-gray-100 px-1">{template.key}</code> ·{" "}
+              {template.channel === "EMAIL" ? "Email" : "WhatsApp"} ·{" "}
+              <span className="uppercase">{template.language}</span> · version{" "}
+              {template.currentVersion}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={template.active}
+                onChange={(e) => save.mutate({ active: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Active
+            </label>
+            <button
+              onClick={() => {
+                if (confirm(`Delete "${template.name}" and all its versions?`)) remove.mutate();
+              }}
+              className="rounded-lg border border-red-200 px-2 py-1 text-xs font-medium text-red-700 hover:bg-red-50"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        <TemplateContentFields
+          channel={template.channel}
+          subject={content.subject}
+          body={content.body}
+          variables={variables}
+          onChange={(change) => setDraft({ ...content, ...change })}
+        />
+
+        {error && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>
+        )}
+        <div className="flex justify-end gap-2">
+          {dirty && (
+            <button
+              onClick={() => setDraft(null)}
+              className="rounded-lg px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Discard
+            </button>
+          )}
+          <button
+            onClick={() =>
+              save.mutate({
+                subject: template.channel === "EMAIL" ? content.subject : undefined,
+                body: content.body,
+              })
+            }
+            disabled={!dirty || save.isPending}
+            className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {save.isPending ? "Saving…" : "Save as new version"}
+          </button>
+        </div>
+      </div>
+
+      <TemplatePreviewCard
+        language={template.language}
+        subject={template.channel === "EMAIL" ? content.subject : undefined}
+        body={content.body}
+      />
+
+      {template.versions && template.versions.length > 1 && (
+        <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+          <h3 className="mb-3 flex items-center gap-2 font-semibold text-gray-900">
+            <History className="h-4 w-4" />
+            Versions
+          </h3>
+          <ul className="space-y-2 text-sm">
+            {template.versions.map((v) => (
+              <li key={v.id} className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => setDraft({ subject: v.subject ?? "", body: v.body })}
+                  className="text-left text-gray-700 hover:text-primary-700"
+                  title="Load into the editor"
+                >
+                  <span className="font-medium">v{v.version}</span>{" "}
+                  <span className="text-gray-500">{formatDate(v.createdAt)}</span>
+                  {v.subject && <span className="text-gray-500"> · {v.subject}</span>}
+                </button>
+                {v.version === template.currentVersion ? (
+                  <span className="text-xs text-gray-400">current</span>
+                ) : (
+                  <button
+                    onClick={() => restore.mutate(v.version)}
+                    disabled={restore.isPending}
+                    className="rounded border border-gray-200 px-2 py-0.5 text-xs font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TemplateContentFields({
+  channel,
+  subject,
+  body,
+  variables,
+  onChange,
+}: {
+  channel: OutreachChannel;
+  subject: string;
+  body: string;
+  variables: Record<string, string>;
+  onChange: (content: { subject?: string; body?: string }) => void;
+}) {
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  // Insert at the cursor, else at the end
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const el = bodyRef.current;
+    const start = el?.selectionStart ?? body.length;
+    const end = el?.selectionEnd ?? body.length;
+    onChange({ body: body.slice(0, start) + placeholder + body.slice(end) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {channel === "EMAIL" && (
+        <input
+          value={subject}
+          onChange={(e) => onChange({ subject: e.target.value })}
+          placeholder="Subject"
+          className={inputClass}
+        />
+      )}
+      <textarea
+        ref={bodyRef}
+        required
+        value={body}
+        onChange={(e) => onChange({ body: e.target.value })}
+        rows={12}
+        placeholder="Message text with {{variables}}"
+        className={cn(inputClass, "font-mono")}
+      />
+      <div className="flex flex-wrap gap-1.5">
+        {Object.entries(variables).map(([name, description]) => (
+          <button
+            key={name}
+            type="button"
+            title={description}
+            onClick={() => insertVariable(name)}
+            className="rounded-full bg-gray-100 px-2 py-0.5 font-mono text-xs text-gray-700 hover:bg-primary-50 hover:text-primary-700"
+          >
+            {`{{${name}}}`}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** Renders the editor's current text against a real vendor and RFQ */
+function TemplatePreviewCard({
+  language,
+  subject,
+  body,
+}: {
+  language: string;
+  subject?: string;
+  body: string;
+}) {
+  const [context, setContext] = useState({ vendorId: "", rfqId: "", deadline: "" });
+  const [error, setError] = useState("");
+
+  const { data: vendors } = useQuery<PaginatedResponse<Vendor>>({
+    queryKey: ["vendors", { limit: 100 }],
+    queryFn: () => vendorApi.list({ limit: 100 }).then((r) => r.data),
+  });
+  const { data: rfqs } = useQuery<PaginatedResponse<Rfq>>({
+    queryKey: ["rfqs", { limit: 100 }],
+    queryFn: () => rfqApi.list({ limit: 100 }).then((r) => r.data),
+  });
+
+  const preview = useMutation({
+    mutationFn: () =>
+      templateApi
+        .previewDraft({
+          language,
+          subject: subject || undefined,
+          body,
+          vendorId: context.vendorId || undefined,
+          rfqId: context.rfqId || undefined,
+          deadline: context.deadline || undefined,
+        })
+        .then((r) => r.data as RenderedTemplate),
+    onSuccess: () => setError(""),
+    onError: (err: unknown) => setError(apiError(err, "Preview failed")),
+  });
+
+  const rendered = preview.data;
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h3 className="mb-3 flex items-center gap-2 font-semibold text-gray-900">
+        <Eye className="h-4 w-4" />
+        Preview
+      </h3>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-4">
+        <select
+          value={context.vendorId}
+          onChange={(e) => setContext({ ...context, vendorId: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">No vendor</option>
+          {vendors?.data.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.companyName}
+            </option>
+          ))}
+        </select>
+        <select
+          value={context.rfqId}
+          onChange={(e) => setContext({ ...context, rfqId: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">No RFQ</option>
+          {rfqs?.data.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.rfqNumber}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={context.deadline}
+          onChange={(e) => setContext({ ...context, deadline: e.target.value })}
+          title="Quote deadline"
+          className={inputClass}
+        />
+        <button
+          onClick={() => preview.mutate()}
+          disabled={!body.trim() || preview.isPending}
+          className="rounded-lg border border-primary-200 bg-primary-50 px-3 py-2 text-sm font-medium text-primary-700 hover:bg-primary-100 disabled:opacity-50"
+        >
+          {preview.isPending ? "Rendering…" : "Render"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {rendered && (
+        <div className="mt-4 space-y-2">
+          {rendered.missing.length > 0 && (
+            <div className="rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+              No value for {rendered.missing.map((m) => `{{${m}}}`).join(", ")}; a
+              send with this context would fail.
+            </div>
+          )}
+          {rendered.subject && (
+            <p className="text-sm">
+              <span className="text-gray-500">Subject:</span>{" "}
+              <span className="font-medium text-gray-900">{rendered.subject}</span>
+            </p>
+          )}
+          <pre className="whitespace-pre-wrap rounded-lg bg-gray-50 p-4 font-sans text-sm text-gray-800">
+            {rendered.text}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
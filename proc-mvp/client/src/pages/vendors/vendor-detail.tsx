@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
@@ -10,10 +11,32 @@ import {
   Package,
   Loader2,
   MessageCircle,
+  Copy,
+  Repeat,
+  Pause,
+  Play,
+  Square,
+  MessagesSquare,
+  FileText,
+  Truck,
 } from "lucide-react";
 import { vendorApi, outreachApi } from "@/lib/api";
 import { StatusBadge } from "@/components/ui/status-badge";
-import type { Vendor } from "@/types";
+import { NegotiationHistory } from "@/components/ui/negotiation-history";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import type {
+  Communication,
+  DeliveryEvent,
+  OutreachEnrollment,
+  OutreachEnrollmentStatus,
+  OutreachSequence,
+  Quote,
+  Vendor,
+  VendorMatch,
+  VendorPerformance,
+  VendorScoreSnapshot,
+  WhatsAppWindow,
+} from "@/types";
 
 export default function VendorDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -30,6 +53,27 @@ export default function VendorDetailPage() {
     enabled: !!id,
   });
 
+  const { data: performance } = useQuery<VendorPerformance>({
+    queryKey: ["vendor", id, "performance"],
+    queryFn: () => vendorApi.performance(id!).then((r) => r.data),
+    enabled: !!id,
+  });
+
+  const { data: duplicates } = useQuery<VendorMatch[]>({
+    queryKey: ["vendor", id, "duplicates"],
+    queryFn: () => vendorApi.duplicates(id!).then((r) => r.data.data),
+    enabled: !!id,
+  });
+
+  const mergeVendor = useMutation({
+    mutationFn: (duplicateId: string) =>
+      vendorApi.merge(id!, duplicateId).then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["vendor", id] });
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="flex h-64 items-center justify-center">
@@ -109,8 +153,17 @@ export default function VendorDetailPage() {
               />
               <ScoreDisplay label="Overall" value={vendor.performanceScore} />
             </div>
+            {performance && performance.snapshots.length > 0 && (
+              <ScoreHistory snapshots={performance.snapshots} />
+            )}
           </div>
 
+          <DeliveriesCard
+            vendorId={vendor.id}
+            quotes={vendor.quotes ?? []}
+            events={performance?.events ?? []}
+          />
+
           {/* Products */}
           {vendor.products.length > 0 && (
             <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
@@ -162,6 +215,19 @@ export default function VendorDetailPage() {
               </div>
             </div>
           )}
+
+          {vendor.quotes && vendor.quotes.length > 0 && (
+            <QuotesCard quotes={vendor.quotes} />
+          )}
+
+          <OutreachSequenceCard vendorId={vendor.id} />
+
+          {vendor.communications && vendor.communications.length > 0 && (
+            <CommunicationsCard
+              vendorId={vendor.id}
+              communications={vendor.communications}
+            />
+          )}
         </div>
 
         {/* Sidebar */}
@@ -234,6 +300,55 @@ export default function VendorDetailPage() {
             </div>
           </div>
 
+          {outreachStatus?.whatsapp && <WhatsAppReplyCard vendorId={vendor.id} />}
+
+          {/* Possible duplicates */}
+          {duplicates && duplicates.length > 0 && (
+            <div className="rounded-xl border border-amber-200 bg-amber-50/50 p-6 shadow-sm">
+              <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-gray-900">
+                <Copy className="h-5 w-5 text-amber-600" />
+                Possible Duplicates
+              </h2>
+              <div className="space-y-3">
+                {duplicates.map((d) => (
+                  <div key={d.vendor.id} className="text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <Link
+                        to={`/vendors/${d.vendor.id}`}
+                        className="font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        {d.vendor.companyName}
+                      </Link>
+                      <button
+                        onClick={() => {
+                          if (
+                            confirm(
+                              `Merge "${d.vendor.companyName}" into "${vendor.companyName}"? Its contacts, products, quotes and communications move here and it is deleted.`,
+                            )
+                          ) {
+                            mergeVendor.mutate(d.vendor.id);
+                          }
+                        }}
+                        disabled={mergeVendor.isPending}
+                        className="rounded border border-amber-300 bg-white px-2 py-1 text-xs font-medium text-amber-800 hover:bg-amber-100 disabled:opacity-50"
+                      >
+                        {mergeVendor.isPending &&
+                        mergeVendor.variables === d.vendor.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          "Merge here"
+                        )}
+                      </button>
+                    </div>
+                    <p className="mt-0.5 text-xs text-gray-500">
+                      {Math.round(d.score * 100)}% · {d.reasons.join(", ")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Details */}
           <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
             <h2 className="mb-4 text-lg font-semibold text-gray-900">
@@ -273,6 +388,51 @@ export default function VendorDetailPage() {
   );
 }
 
+function QuotesCard({ quotes }: { quotes: Quote[] }) {
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <FileText className="h-5 w-5" />
+        Quotes &amp; Negotiations
+      </h2>
+      <div className="space-y-4">
+        {quotes.map((q) => (
+          <div key={q.id} className="rounded-lg border border-gray-100 p-4">
+            <div className="mb-2 flex flex-wrap items-center gap-2">
+              {q.rfq && (
+                <Link
+                  to={`/rfqs/${q.rfqId}`}
+                  className="font-medium text-primary-600 hover:underline"
+                >
+                  {q.rfq.rfqNumber}
+                </Link>
+              )}
+              <span className="text-sm text-gray-700">
+                {formatCurrency(q.totalPrice, q.currency)}
+              </span>
+              <StatusBadge status={q.status} />
+              {q.negotiationEscalatedAt && (
+                <span className="text-xs font-medium text-red-600">
+                  Escalated
+                </span>
+              )}
+              <span className="ml-auto text-xs text-gray-400">
+                {formatDate(q.receivedAt)}
+              </span>
+            </div>
+            {q.negotiationRounds && q.negotiationRounds.length > 0 && (
+              <NegotiationHistory
+                rounds={q.negotiationRounds}
+                currency={q.currency}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function ScoreDisplay({ label, value }: { label: string; value: number }) {
   const pct = (value / 10) * 100;
   return (
@@ -291,6 +451,349 @@ function ScoreDisplay({ label, value }: { label: string; value: number }) {
   );
 }
 
+// ─── Score history ───────────────────────────────────────────
+
+const HISTORY_SERIES: {
+  key: "performanceScore" | "qualityScore" | "reliabilityScore";
+  label: string;
+  stroke: string;
+  swatch: string;
+}[] = [
+  { key: "performanceScore", label: "Overall", stroke: "stroke-primary-600", swatch: "bg-primary-600" },
+  { key: "qualityScore", label: "Quality", stroke: "stroke-green-500", swatch: "bg-green-500" },
+  { key: "reliabilityScore", label: "Reliability", stroke: "stroke-amber-500", swatch: "bg-amber-500" },
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PAD = 24;
+
+function ScoreHistory({ snapshots }: { snapshots: VendorScoreSnapshot[] }) {
+  const latest = snapshots[snapshots.length - 1];
+  const x = (i: number) =>
+    snapshots.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PAD + (i / (snapshots.length - 1)) * (CHART_WIDTH - 2 * CHART_PAD);
+  const y = (score: number) =>
+    CHART_HEIGHT - CHART_PAD - (score / 10) * (CHART_HEIGHT - 2 * CHART_PAD);
+
+  return (
+    <div className="mt-6 border-t border-gray-100 pt-4">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">Score history</h3>
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          {HISTORY_SERIES.map((series) => (
+            <span key={series.key} className="flex items-center gap-1">
+              <span className={cn("h-2 w-2 rounded-full", series.swatch)} />
+              {series.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+        {[0, 5, 10].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={CHART_PAD}
+              x2={CHART_WIDTH - CHART_PAD}
+              y1={y(tick)}
+              y2={y(tick)}
+              className="stroke-gray-100"
+            />
+            <text
+              x={CHART_PAD - 6}
+              y={y(tick) + 4}
+              textAnchor="end"
+              className="fill-gray-400 text-[10px]"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+        {HISTORY_SERIES.map((series) => (
+          <g key={series.key}>
+            <polyline
+              points={snapshots.map((s, i) => `${x(i)},${y(s[series.key])}`).join(" ")}
+              fill="none"
+              strokeWidth={2}
+              className={series.stroke}
+            />
+            {snapshots.map((s, i) => (
+              <circle
+                key={s.id}
+                cx={x(i)}
+                cy={y(s[series.key])}
+                r={3}
+                className={cn("fill-white", series.stroke)}
+                strokeWidth={2}
+              >
+                <title>
+                  {`${series.label} ${s[series.key].toFixed(1)} · ${formatDate(s.createdAt)}`}
+                </title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{formatDate(snapshots[0].createdAt)}</span>
+        {snapshots.length > 1 && <span>{formatDate(latest.createdAt)}</span>}
+      </div>
+
+      {/* What the latest score is made of */}
+      <dl className="mt-4 space-y-1.5 text-sm">
+        {latest.breakdown.components.map((c) => (
+          <div key={c.key} className="flex items-baseline justify-between gap-4">
+            <dt className="text-gray-500">
+              {c.label}
+              <span className="ml-1 text-xs text-gray-400">
+                ({Math.round(c.weight * 100)}% weight)
+              </span>
+            </dt>
+            <dd className="text-right">
+              <span className="font-medium text-gray-900">
+                {c.value === null ? "—" : (c.value * 10).toFixed(1)}
+              </span>
+              <span className="ml-2 text-xs text-gray-500">{c.detail}</span>
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+// ─── Deliveries ──────────────────────────────────────────────
+
+const deliveryInputClass =
+  "w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-primary-500 focus:outline-none";
+
+function DeliveriesCard({
+  vendorId,
+  quotes,
+  events,
+}: {
+  vendorId: string;
+  quotes: Quote[];
+  events: DeliveryEvent[];
+}) {
+  const queryClient = useQueryClient();
+  const accepted = quotes.filter((q) => q.status === "ACCEPTED");
+  const [showForm, setShowForm] = useState(false);
+  const [quoteId, setQuoteId] = useState("");
+  const [deliveredOn, setDeliveredOn] = useState(
+    new Date().toISOString().slice(0, 10),
+  );
+  const [daysLate, setDaysLate] = useState("0");
+  const [defectPct, setDefectPct] = useState("0");
+  const [shortfallPct, setShortfallPct] = useState("0");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState("");
+
+  const record = useMutation({
+    mutationFn: () => {
+      const quote = accepted.find((q) => q.id === quoteId);
+      return vendorApi.recordDelivery(vendorId, {
+        ...(quote?.purchaseOrder
+          ? { purchaseOrderId: quote.purchaseOrder.id }
+          : { quoteId }),
+        deliveredAt: new Date(deliveredOn).toISOString(),
+        daysLate: Number(daysLate) || 0,
+        defectRate: (Number(defectPct) || 0) / 100,
+        shortfallRate: (Number(shortfallPct) || 0) / 100,
+        notes: notes.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      setShowForm(false);
+      setDaysLate("0");
+      setDefectPct("0");
+      setShortfallPct("0");
+      setNotes("");
+      setError("");
+      queryClient.invalidateQueries({ queryKey: ["vendor", vendorId] });
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+    },
+    onError: (err: unknown) =>
+      setError(apiError(err, "Failed to record delivery")),
+  });
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Truck className="h-5 w-5" />
+          Deliveries
+        </h2>
+        {accepted.length > 0 && !showForm && (
+          <button
+            onClick={() => {
+              setQuoteId(accepted[0].id);
+              setShowForm(true);
+            }}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Record delivery
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="mb-4 space-y-3 rounded-lg border border-gray-100 bg-gray-50 p-4">
+          <div className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-2">
+            <label className="space-y-1">
+              <span className="text-gray-600">Order</span>
+              <select
+                value={quoteId}
+                onChange={(e) => setQuoteId(e.target.value)}
+                className={deliveryInputClass}
+              >
+                {accepted.map((q) => (
+                  <option key={q.id} value={q.id}>
+                    {q.purchaseOrder?.poNumber ?? "Accepted quote"}
+                    {q.rfq && ` · ${q.rfq.rfqNumber}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Delivered on</span>
+              <input
+                type="date"
+                value={deliveredOn}
+                onChange={(e) => setDeliveredOn(e.target.value)}
+                className={deliveryInputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Days late (0 = on time)</span>
+              <input
+                type="number"
+                min={0}
+                value={daysLate}
+                onChange={(e) => setDaysLate(e.target.value)}
+                className={deliveryInputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Defect rate (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={defectPct}
+                onChange={(e) => setDefectPct(e.target.value)}
+                className={deliveryInputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Quantity shortfall (%)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={shortfallPct}
+                onChange={(e) => setShortfallPct(e.target.value)}
+                className={deliveryInputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Notes</span>
+              <input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className={deliveryInputClass}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="rounded-lg px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => record.mutate()}
+              disabled={!quoteId || !deliveredOn || record.isPending}
+              className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {record.isPending ? "Saving…" : "Save delivery"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {events.length > 0 ? (
+        <div className="space-y-2">
+          {events.map((e) => (
+            <div
+              key={e.id}
+              className="flex flex-wrap items-center gap-x-3 gap-y-1 rounded-lg border border-gray-100 px-4 py-2 text-sm"
+            >
+              <span className="font-medium text-gray-900">
+                {formatDate(e.deliveredAt)}
+              </span>
+              {e.purchaseOrder ? (
+                <Link
+                  to={`/purchase-orders/${e.purchaseOrder.id}`}
+                  className="text-primary-600 hover:underline"
+                >
+                  {e.purchaseOrder.poNumber}
+                </Link>
+              ) : (
+                e.quote && (
+                  <Link
+                    to={`/rfqs/${e.quote.rfq.id}`}
+                    className="text-primary-600 hover:underline"
+                  >
+                    {e.quote.rfq.rfqNumber}
+                  </Link>
+                )
+              )}
+              <span
+                className={cn(
+                  "text-xs font-medium",
+                  e.daysLate > 0 ? "text-red-600" : "text-green-700",
+                )}
+              >
+                {e.daysLate > 0 ? `${e.daysLate} days late` : "On time"}
+              </span>
+              {e.defectRate > 0 && (
+                <span className="text-xs text-gray-600">
+                  {(e.defectRate * 100).toFixed(1)}% defects
+                </span>
+              )}
+              {e.shortfallRate > 0 && (
+                <span className="text-xs text-gray-600">
+                  {(e.shortfallRate * 100).toFixed(1)}% short
+                </span>
+              )}
+              {e.notes && (
+                <span className="w-full text-xs text-gray-500">{e.notes}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">
+          {accepted.length > 0
+            ? "No deliveries recorded yet. Scores are computed from them."
+            : "Deliveries can be recorded once a quote from this vendor is accepted."}
+        </p>
+      )}
+    </div>
+  );
+}
+
 function DetailRow({ label, value }: { label: string; value: string }) {
   return (
     <div className="flex justify-between">
@@ -299,3 +802,372 @@ function DetailRow({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
+
+function apiError(err: unknown, fallback: string) {
+  return (
+    (err as { response?: { data?: { error?: string } } })?.response?.data
+      ?.error ?? fallback
+  );
+}
+
+const ENROLLMENT_STATUS_STYLES: Record<OutreachEnrollmentStatus, string> = {
+  ACTIVE: "bg-blue-50 text-blue-700",
+  PAUSED: "bg-amber-50 text-amber-700",
+  REPLIED: "bg-green-50 text-green-700",
+  COMPLETED: "bg-gray-100 text-gray-700",
+  STOPPED: "bg-gray-100 text-gray-500",
+  FAILED: "bg-red-50 text-red-700",
+};
+
+function OutreachSequenceCard({ vendorId }: { vendorId: string }) {
+  const queryClient = useQueryClient();
+  const [sequenceId, setSequenceId] = useState("");
+  const [error, setError] = useState("");
+
+  const { data: sequences } = useQuery<{ data: OutreachSequence[] }>({
+    queryKey: ["outreach", "sequences"],
+    queryFn: () => outreachApi.listSequences().then((r) => r.data),
+  });
+
+  const { data: enrollments } = useQuery<OutreachEnrollment[]>({
+    queryKey: ["outreach", "enrollments", vendorId],
+    queryFn: () =>
+      outreachApi.listEnrollments({ vendorId }).then((r) => r.data),
+  });
+
+  const onSuccess = () => {
+    setError("");
+    queryClient.invalidateQueries({ queryKey: ["outreach"] });
+    queryClient.invalidateQueries({ queryKey: ["vendor", vendorId] });
+  };
+  const onError = (err: unknown) =>
+    setError(apiError(err, "Failed to update sequence"));
+
+  const enroll = useMutation({
+    mutationFn: () => outreachApi.enroll(sequenceId, { vendorIds: [vendorId] }),
+    onSuccess: () => {
+      setSequenceId("");
+      onSuccess();
+    },
+    onError,
+  });
+
+  const control = useMutation({
+    mutationFn: ({
+      id,
+      action,
+    }: {
+      id: string;
+      action: "pause" | "resume" | "stop";
+    }) =>
+      action === "pause"
+        ? outreachApi.pauseEnrollment(id)
+        : action === "resume"
+          ? outreachApi.resumeEnrollment(id)
+          : outreachApi.stopEnrollment(id),
+    onSuccess,
+    onError,
+  });
+
+  const active = sequences?.data.filter((s) => s.active) ?? [];
+  const hasOpen = enrollments?.some(
+    (e) => e.status === "ACTIVE" || e.status === "PAUSED",
+  );
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <Repeat className="h-5 w-5" />
+        Follow-up Sequences
+      </h2>
+
+      <div className="space-y-4">
+        {enrollments?.map((e) => {
+          const steps = e.sequence.steps;
+          const sent = new Set(e.sends.filter((s) => s.success).map((s) => s.position));
+          return (
+            <div key={e.id} className="rounded-lg border border-gray-100 px-4 py-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">
+                    {e.sequence.name}
+                  </span>
+                  <span
+                    className={cn(
+                      "rounded-full px-2 py-0.5 text-xs font-medium",
+                      ENROLLMENT_STATUS_STYLES[e.status],
+                    )}
+                  >
+                    {e.status.toLowerCase()}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  {e.status === "ACTIVE" && (
+                    <EnrollmentButton
+                      title="Pause"
+                      onClick={() => control.mutate({ id: e.id, action: "pause" })}
+                      disabled={control.isPending}
+                    >
+                      <Pause className="h-3.5 w-3.5" />
+                    </EnrollmentButton>
+                  )}
+                  {e.status === "PAUSED" && (
+                    <EnrollmentButton
+                      title="Resume"
+                      onClick={() => control.mutate({ id: e.id, action: "resume" })}
+                      disabled={control.isPending}
+                    >
+                      <Play className="h-3.5 w-3.5" />
+                    </EnrollmentButton>
+                  )}
+                  {(e.status === "ACTIVE" || e.status === "PAUSED") && (
+                    <EnrollmentButton
+                      title="Stop"
+                      onClick={() => control.mutate({ id: e.id, action: "stop" })}
+                      disabled={control.isPending}
+                    >
+                      <Square className="h-3.5 w-3.5" />
+                    </EnrollmentButton>
+                  )}
+                </div>
+              </div>
+
+              {/* Step progress */}
+              <div className="mt-3 flex items-center gap-1.5">
+                {steps.map((step, i) => (
+                  <span
+                    key={step.id ?? i}
+                    title={`Day ${step.dayOffset} · ${step.channel.toLowerCase()} · ${step.template.replace("_", " ")}`}
+                    className={cn(
+                      "h-2 flex-1 rounded-full",
+                      sent.has(i)
+                        ? "bg-primary-600"
+                        : i === e.nextStep && e.status === "ACTIVE"
+                          ? "bg-primary-200"
+                          : "bg-gray-200",
+                    )}
+                  />
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                {sent.size} of {steps.length} sent
+                {e.status === "ACTIVE" &&
+                  e.nextSendAt &&
+                  ` · next ${formatDate(e.nextSendAt)}`}
+                {e.stopReason && ` · ${e.stopReason}`}
+                {e.status === "FAILED" && e.lastError && ` · ${e.lastError}`}
+              </p>
+            </div>
+          );
+        })}
+
+        {enrollments?.length === 0 && (
+          <p className="text-sm text-gray-400">Not enrolled in any sequence</p>
+        )}
+
+        {!hasOpen && active.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={sequenceId}
+              onChange={(e) => setSequenceId(e.target.value)}
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm shadow-sm focus:border-primary-500 focus:outline-none"
+            >
+              <option value="">Choose a sequence…</option>
+              {active.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name} ({s.steps.length} steps)
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => enroll.mutate()}
+              disabled={!sequenceId || enroll.isPending}
+              className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {enroll.isPending ? "Enrolling…" : "Enroll"}
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function EnrollmentButton({
+  title,
+  onClick,
+  disabled,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      title={title}
+      onClick={onClick}
+      disabled={disabled}
+      className="rounded border border-gray-200 p-1 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+    >
+      {children}
+    </button>
+  );
+}
+
+function CommunicationsCard({
+  vendorId,
+  communications,
+}: {
+  vendorId: string;
+  communications: Communication[];
+}) {
+  const queryClient = useQueryClient();
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [response, setResponse] = useState("");
+
+  const recordReply = useMutation({
+    mutationFn: (id: string) => outreachApi.recordReply(id, response),
+    onSuccess: () => {
+      setReplyTo(null);
+      setResponse("");
+      queryClient.invalidateQueries({ queryKey: ["vendor", vendorId] });
+      queryClient.invalidateQueries({ queryKey: ["outreach"] });
+    },
+  });
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <MessagesSquare className="h-5 w-5" />
+        Communications
+      </h2>
+      <div className="space-y-3">
+        {communications.map((c) => (
+          <div key={c.id} className="rounded-lg border border-gray-100 px-4 py-3 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-gray-900">
+                {c.subject || c.type.toLowerCase()}
+              </span>
+              <span className="text-xs text-gray-500">{formatDate(c.sentAt)}</span>
+            </div>
+            {c.response ? (
+              <p className="mt-1 text-gray-600">
+                <span className="font-medium text-green-700">Replied</span>
+                {c.responseTime != null && ` after ${c.responseTime}h`}: {c.response}
+              </p>
+            ) : replyTo === c.id ? (
+              <div className="mt-2 space-y-2">
+                <textarea
+                  value={response}
+                  onChange={(e) => setResponse(e.target.value)}
+                  rows={2}
+                  placeholder="Paste or summarise the vendor's reply"
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:outline-none"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setReplyTo(null)}
+                    className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => recordReply.mutate(c.id)}
+                    disabled={!response.trim() || recordReply.isPending}
+                    className="rounded bg-primary-600 px-2 py-1 text-xs font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+                  >
+                    Save reply
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => {
+                  setReplyTo(c.id);
+                  setResponse("");
+                }}
+                className="mt-1 text-xs font-medium text-primary-600 hover:text-primary-700"
+              >
+                Record reply
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function WhatsAppReplyCard({ vendorId }: { vendorId: string }) {
+  const queryClient = useQueryClient();
+  const [body, setBody] = useState("");
+  const [error, setError] = useState("");
+
+  const { data: chatWindow } = useQuery<WhatsAppWindow>({
+    queryKey: ["outreach", "whatsapp-window", vendorId],
+    queryFn: () => outreachApi.whatsappWindow(vendorId).then((r) => r.data),
+    refetchInterval: 60_000,
+  });
+
+  const reply = useMutation({
+    mutationFn: () => outreachApi.whatsappReply(vendorId, body),
+    onSuccess: () => {
+      setBody("");
+      setError("");
+      queryClient.invalidateQueries({ queryKey: ["vendor", vendorId] });
+    },
+    onError: (err: unknown) => setError(apiError(err, "Failed to send reply")),
+  });
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="mb-2 flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <MessageCircle className="h-5 w-5 text-green-600" />
+        WhatsApp
+      </h2>
+      {chatWindow?.open ? (
+        <>
+          <p className="mb-3 text-xs text-gray-500">
+            Vendor wrote from {chatWindow.phone}. Free-form replies are allowed until{" "}
+            {new Date(chatWindow.expiresAt!).toLocaleString()}.
+          </p>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            placeholder="Type a reply…"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:outline-none"
+          />
+          <div className="mt-2 flex justify-end">
+            <button
+              onClick={() => reply.mutate()}
+              disabled={!body.trim() || reply.isPending}
+              className="rounded-lg bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-700 disabled:opacity-50"
+            >
+              {reply.isPending ? "Sending…" : "Send reply"}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">
+          {chatWindow?.lastInboundAt
+            ? `Window closed (last message ${formatDate(chatWindow.lastInboundAt)}). Only template messages can be sent.`
+            : "No messages from this vendor yet. Only template messages can be sent until they write."}
+        </p>
+      )}
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
-import { Plus, Search, Building2 } from "lucide-react";
+import { Plus, Search, Building2, SlidersHorizontal } from "lucide-react";
 import { vendorApi } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { formatDate } from "@/lib/utils";
-import type { Vendor, PaginatedResponse } from "@/types";
+import type {
+  Vendor,
+  PaginatedResponse,
+  VendorScoreKey,
+  VendorScoringConfig,
+  VendorScoringWeights,
+} from "@/types";
 
 export default function VendorListPage() {
+  const { user } = useAuth();
   const [search, setSearch] = useState("");
   const [page, setPage] = useState(1);
   const [statusFilter, setStatusFilter] = useState<string>("");
@@ -172,6 +180,84 @@ export default function VendorListPage() {
           </div>
         </div>
       )}
+
+      {user?.role === "ADMIN" && <VendorScoringWeightsCard />}
+    </div>
+  );
+}
+
+// ─── Vendor Score weights (admin) ────────────────────────────
+
+function VendorScoringWeightsCard() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<VendorScoringWeights | null>(null);
+
+  const { data: config } = useQuery<VendorScoringConfig>({
+    queryKey: ["vendors", "scoring"],
+    queryFn: () => vendorApi.getScoring().then((r) => r.data),
+  });
+
+  const save = useMutation({
+    mutationFn: (weights: VendorScoringWeights) =>
+      vendorApi.updateScoring(weights),
+    onSuccess: () => {
+      // Saving rescores vendors, so the list refreshes too
+      queryClient.invalidateQueries({ queryKey: ["vendors"] });
+      setDraft(null);
+    },
+  });
+
+  if (!config) return null;
+
+  const weights = draft ?? config.weights;
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <SlidersHorizontal className="h-5 w-5 text-primary-600" />
+        Vendor Scoring
+      </h2>
+      <p className="mt-1 mb-4 text-sm text-gray-500">
+        How much each component counts towards a vendor&apos;s overall score.
+        Saving recalculates every vendor with recorded deliveries.
+      </p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {(Object.keys(config.labels) as VendorScoreKey[]).map((key) => (
+          <label key={key} className="flex items-center gap-3 text-sm">
+            <span className="w-44 text-gray-700">{config.labels[key]}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={weights[key]}
+              onChange={(e) =>
+                setDraft({ ...weights, [key]: Number(e.target.value) })
+              }
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-xs text-gray-500">
+              {total > 0 ? `${Math.round((weights[key] / total) * 100)}%` : "—"}
+            </span>
+          </label>
+        ))}
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={() => setDraft(config.defaults)}
+          className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Reset to defaults
+        </button>
+        <button
+          onClick={() => save.mutate(weights)}
+          disabled={!draft || total === 0 || save.isPending}
+          className="rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-primary-700 disabled:opacity-50"
+        >
+          {save.isPending ? "Saving…" : "Save weights"}
+        </button>
+      </div>
     </div>
   );
 }
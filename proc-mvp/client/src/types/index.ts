@@ -1,9 +1,48 @@
 // ─── User ────────────────────────────────────────────────────
+export type UserRole = "ADMIN" | "BUYER" | "VIEWER";
+
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: "ADMIN" | "BUYER" | "VIEWER";
+  /** Role in the organisation the user is signed in to */
+  role: UserRole;
+  /** May change settings every organisation shares: rates, country risk, numbering */
+  platformAdmin?: boolean;
+  organization?: { id: string; name: string };
+  /** Every organisation the user belongs to, with their role in it */
+  organizations?: Array<{ id: string; name: string; role: UserRole }>;
+}
+
+// ─── Organization ────────────────────────────────────────────
+export interface Organization {
+  id: string;
+  name: string;
+  /** Display name on outgoing email; the organisation's name when empty */
+  senderName?: string | null;
+  /** From address on outgoing email; the server default when empty */
+  senderEmail?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  joinedAt: string;
+}
+
+/** Becomes a membership once the invited user accepts it */
+export interface OrganizationInvitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: UserRole;
+  createdAt: string;
+  /** On the invited user's own list */
+  organization?: { id: string; name: string };
 }
 
 // ─── Vendor ──────────────────────────────────────────────────
@@ -30,6 +69,8 @@ export interface Vendor {
   contacts: VendorContact[];
   certifications: VendorCertification[];
   products: VendorProduct[];
+  communications?: Communication[];
+  quotes?: Quote[];
   _count?: { quotes: number; communications: number };
 }
 
@@ -50,6 +91,19 @@ export interface VendorCertification {
   validUntil?: string;
 }
 
+export interface Communication {
+  id: string;
+  vendorId: string;
+  type: "EMAIL" | "WHATSAPP" | "CALL" | "RFQ" | "ORDER";
+  subject?: string;
+  content: string;
+  recipient?: string;
+  response?: string;
+  responseTime?: number;
+  sentAt: string;
+  respondedAt?: string;
+}
+
 export interface VendorProduct {
   id: string;
   vendorId: string;
@@ -59,6 +113,82 @@ export interface VendorProduct {
   moq?: number;
 }
 
+// ─── Vendor Performance ──────────────────────────────────────
+export type VendorScoreKey =
+  | "quality"
+  | "reliability"
+  | "price"
+  | "capacity"
+  | "terms";
+
+export type VendorScoringWeights = Record<VendorScoreKey, number>;
+
+export interface VendorScoringConfig {
+  weights: VendorScoringWeights;
+  defaults: VendorScoringWeights;
+  labels: Record<VendorScoreKey, string>;
+}
+
+export interface VendorScoreComponent {
+  key: VendorScoreKey;
+  label: string;
+  /** 0–1, or null when there is no data for it yet */
+  value: number | null;
+  weight: number;
+  contribution: number;
+  detail: string;
+}
+
+export interface VendorScoreSnapshot {
+  id: string;
+  vendorId: string;
+  deliveryEventId?: string | null;
+  qualityScore: number;
+  reliabilityScore: number;
+  performanceScore: number;
+  breakdown: {
+    score: number;
+    components: VendorScoreComponent[];
+    eventCount: number;
+  };
+  createdAt: string;
+}
+
+export interface DeliveryEvent {
+  id: string;
+  vendorId: string;
+  quoteId?: string | null;
+  purchaseOrderId?: string | null;
+  deliveredAt: string;
+  /** 0 or less is on time */
+  daysLate: number;
+  /** 0–1 */
+  defectRate: number;
+  /** 0–1 */
+  shortfallRate: number;
+  notes?: string | null;
+  createdAt: string;
+  quote?: { id: string; rfq: { id: string; rfqNumber: string } } | null;
+  purchaseOrder?: { id: string; poNumber: string } | null;
+  recordedBy?: { id: string; name: string };
+}
+
+export interface VendorPerformance {
+  events: DeliveryEvent[];
+  /** Oldest first */
+  snapshots: VendorScoreSnapshot[];
+}
+
+export interface DeliveryEventInput {
+  quoteId?: string;
+  purchaseOrderId?: string;
+  deliveredAt?: string;
+  daysLate: number;
+  defectRate: number;
+  shortfallRate: number;
+  notes?: string;
+}
+
 // ─── RFQ ─────────────────────────────────────────────────────
 export interface Rfq {
   id: string;
@@ -75,15 +205,19 @@ export interface Rfq {
   qualityRequirements: string[];
   paymentTermsPreference?: string;
   notes?: string;
+  quoteDeadline?: string;
   createdAt: string;
   updatedAt: string;
   lineItems: RfqLineItem[];
   quotes?: Quote[];
+  purchaseOrders?: PurchaseOrder[];
   _count?: { quotes: number };
 }
 
 export type RfqStatus =
   | "DRAFT"
+  | "PENDING_APPROVAL"
+  | "APPROVED"
   | "SENT"
   | "QUOTING"
   | "NEGOTIATING"
@@ -93,6 +227,48 @@ export type RfqStatus =
 
 export type Priority = "LOW" | "MEDIUM" | "HIGH" | "URGENT";
 
+/** One status change; fromStatus is null for creation, actor null for system changes */
+export interface RfqStatusEvent {
+  id: string;
+  rfqId: string;
+  fromStatus: RfqStatus | null;
+  toStatus: RfqStatus;
+  actorId: string | null;
+  actor?: { id: string; name: string } | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export type RfqApprovalAction = "SUBMITTED" | "APPROVED" | "REJECTED" | "REVOKED";
+
+export interface RfqApprovalEvent {
+  id: string;
+  rfqId: string;
+  action: RfqApprovalAction;
+  fromStatus: RfqStatus;
+  toStatus: RfqStatus;
+  actorId: string;
+  actor?: { id: string; name: string };
+  comment?: string | null;
+  createdAt: string;
+}
+
+export interface RfqApproval {
+  required: boolean;
+  /** Why the RFQ needs approval */
+  reasons: string[];
+  /** Whether the current user may approve or reject */
+  canApprove: boolean;
+  events: RfqApprovalEvent[];
+}
+
+export interface ApprovalPolicy {
+  /** budgetMax above this needs approval; null turns the budget rule off */
+  budgetThreshold: number | null;
+  currency: string;
+  approverIds: string[];
+}
+
 export interface RfqLineItem {
   id: string;
   rfqId: string;
@@ -118,6 +294,149 @@ export interface Quote {
   status: QuoteStatus;
   receivedAt: string;
   validUntil?: string;
+  /** Counter-offer rounds ran out without agreement */
+  negotiationEscalatedAt?: string | null;
+  lineItems?: QuoteLineItem[];
+  attachments?: QuoteAttachment[];
+  negotiationRounds?: NegotiationRound[];
+  purchaseOrder?: Pick<PurchaseOrder, "id" | "poNumber"> | null;
+}
+
+// ─── Purchase Orders ─────────────────────────────────────────
+export type PurchaseOrderStatus =
+  | "ISSUED"
+  | "ACKNOWLEDGED"
+  | "SHIPPED"
+  | "RECEIVED"
+  | "CLOSED";
+
+export interface PurchaseOrderLine {
+  id: string;
+  position: number;
+  /** null for the single lot line of a quote without line prices */
+  rfqLineItemId: string | null;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  poNumber: string;
+  rfqId: string;
+  quoteId: string;
+  vendorId: string;
+  status: PurchaseOrderStatus;
+  currency: string;
+  totalAmount: number;
+  incoterms: string | null;
+  paymentTerms: string | null;
+  deliveryAddress: string;
+  requiredDeliveryDate: string | null;
+  notes: string | null;
+  /** Email address the PO went to */
+  recipient: string | null;
+  communicationId: string | null;
+  /** Why the last email failed; the PO can be sent again */
+  emailError: string | null;
+  issuedAt: string;
+  acknowledgedAt: string | null;
+  shippedAt: string | null;
+  receivedAt: string | null;
+  closedAt: string | null;
+  rfq?: Pick<Rfq, "id" | "rfqNumber" | "status">;
+  vendor?: Pick<Vendor, "id" | "companyName" | "country">;
+  createdBy?: { id: string; name: string };
+  communication?: { id: string; sentAt: string; recipient: string | null } | null;
+  lineItems: PurchaseOrderLine[];
+}
+
+// ─── Document Numbers ────────────────────────────────────────
+export type DocumentType = "RFQ" | "PURCHASE_ORDER" | "INVOICE";
+
+export interface DocumentNumberFormat {
+  type: DocumentType;
+  /** {YYYY} or {YY} for the year, {SEQ} or {SEQ:n} for the zero-padded counter */
+  format: string;
+  defaultFormat: string;
+  /** Number the type issues next with this format */
+  next: string;
+}
+
+// ─── Negotiation ─────────────────────────────────────────────
+export type NegotiationRoundStatus = "SENT" | "ACCEPTED" | "REVISED" | "DECLINED";
+
+/** One counter-offer and the vendor's answer; prices in the quote's currency */
+export interface NegotiationRound {
+  id: string;
+  quoteId: string;
+  round: number;
+  quotedPrice: number;
+  counterPrice: number;
+  suggestedPrice?: number | null;
+  message?: string | null;
+  channel: "EMAIL" | "WHATSAPP" | "CALL";
+  status: NegotiationRoundStatus;
+  vendorResponse?: string | null;
+  /** Quote total after the vendor's answer */
+  revisedPrice?: number | null;
+  respondedAt?: string | null;
+  createdAt: string;
+  createdBy?: { id: string; name: string };
+  /** The outreach message, with the vendor's reply when one came in */
+  communication?: {
+    id: string;
+    recipient?: string | null;
+    response?: string | null;
+    respondedAt?: string | null;
+  } | null;
+}
+
+export interface CounterSuggestion {
+  currency: string;
+  lowestPrice: number;
+  /** Comparison score on a 0–10 scale */
+  vendorScore: number;
+  suggestedPrice: number;
+  abovePct: number;
+  negotiable: boolean;
+  tactic: string;
+  message: string;
+}
+
+export interface QuoteNegotiation {
+  quoteId: string;
+  status: QuoteStatus;
+  currency: string;
+  totalPrice: number;
+  maxRounds: number;
+  escalatedAt: string | null;
+  rounds: NegotiationRound[];
+  suggestion: CounterSuggestion | null;
+}
+
+/** A quote's price for one RFQ line; alternates offer a substitute product */
+export interface QuoteLineItem {
+  id: string;
+  quoteId: string;
+  rfqLineItemId: string;
+  unitPrice: number;
+  quantity: number;
+  totalPrice: number;
+  isAlternate: boolean;
+  description?: string | null;
+  notes?: string | null;
+}
+
+export interface QuoteLineInput {
+  rfqLineItemId: string;
+  unitPrice: number;
+  quantity?: number;
+  isAlternate?: boolean;
+  description?: string;
+  notes?: string;
 }
 
 export type QuoteStatus =
@@ -127,6 +446,88 @@ export type QuoteStatus =
   | "ACCEPTED"
   | "REJECTED";
 
+export interface QuoteAttachment {
+  id: string;
+  quoteId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+// ─── RFQ Dispatch & Vendor Portal ────────────────────────────
+export type RfqInvitationStatus = "PENDING" | "SENT" | "FAILED" | "VIEWED" | "SUBMITTED";
+
+export interface RfqInvitation {
+  id: string;
+  rfqId: string;
+  vendorId: string;
+  vendor: Pick<Vendor, "id" | "companyName" | "country">;
+  status: RfqInvitationStatus;
+  recipient?: string | null;
+  error?: string | null;
+  sentAt?: string | null;
+  viewedAt?: string | null;
+  submittedAt?: string | null;
+  expiresAt: string;
+  quote?:
+    | (Pick<Quote, "id" | "totalPrice" | "currency" | "status"> & {
+        attachments: Pick<QuoteAttachment, "id" | "filename" | "size">[];
+      })
+    | null;
+  createdAt: string;
+}
+
+export interface DispatchRfqResult {
+  sent: number;
+  failed: number;
+  results: {
+    invitationId: string;
+    vendorId: string;
+    vendorName: string;
+    status: RfqInvitationStatus;
+    error: string | null;
+  }[];
+}
+
+/** The RFQ as a vendor sees it through their portal link */
+export interface PortalView {
+  rfqNumber: string;
+  companyName: string;
+  vendorName: string;
+  deliveryLocation: string;
+  requiredDeliveryDate?: string | null;
+  qualityRequirements: string[];
+  paymentTermsPreference?: string | null;
+  currency: string;
+  deadline: string;
+  open: boolean;
+  closedReason: string | null;
+  status: RfqInvitationStatus;
+  submittedAt?: string | null;
+  maxAttachments: number;
+  lineItems: Pick<RfqLineItem, "id" | "productName" | "specifications" | "quantity" | "unit">[];
+  quote: {
+    currency: string;
+    totalPrice: number;
+    lines: Omit<QuoteLineItem, "id" | "quoteId">[];
+    leadTimeDays: number;
+    paymentTerms?: string | null;
+    validUntil?: string | null;
+    notes?: string | null;
+    attachments: Pick<QuoteAttachment, "id" | "filename" | "size">[];
+  } | null;
+}
+
+export interface PortalQuoteInput {
+  currency: string;
+  lines: QuoteLineInput[];
+  leadTimeDays: number;
+  paymentTerms: string;
+  validUntil: string;
+  notes?: string;
+}
+
 // ─── Dashboard ───────────────────────────────────────────────
 export interface DashboardStats {
   vendors: {
@@ -144,6 +545,14 @@ export interface DashboardStats {
     total: number;
     avgPerRfq: number;
   };
+  /** Quote value in the reporting currency */
+  spend: {
+    currency: string;
+    quotedValue: number;
+    acceptedValue: number;
+    /** Quote currencies with no exchange rate (left out of the totals) */
+    unconvertedCurrencies: string[];
+  };
 }
 
 // ─── Comparison ──────────────────────────────────────────────
@@ -154,12 +563,378 @@ export interface VendorComparison {
   country: string;
   totalPrice: number;
   unitPrice: number;
+  /** Currency the vendor quoted in */
+  currency: string;
+  /** Prices in the RFQ's budget currency; null when no exchange rate is known */
+  normalizedTotalPrice: number | null;
+  normalizedUnitPrice: number | null;
+  normalizedCurrency: string;
+  exchangeRate: number | null;
+  /** RFQ line items this quote prices */
+  linesQuoted: number;
+  /** Quotes only some line items */
+  partial: boolean;
+  /** Alternate products offered */
+  alternates: number;
+  /** Unit price against the market benchmark (single-product RFQs only) */
+  market: PriceEvaluation | null;
   leadTimeDays: number;
   qualityScore: number;
   reliabilityScore: number;
   certifications: string[];
   paymentTerms?: string;
+  /** null when the terms couldn't be read */
+  parsedPaymentTerms: ParsedPaymentTerms | null;
+  /** 0–100 under the RFQ's comparison profile */
   finalScore: number;
+  /** False when the quote breaks a hard constraint; ranked last */
+  eligible: boolean;
+  violations: string[];
+  breakdown: CriterionScore[];
+  risk: SupplierRisk;
+  rank: number;
+  /** "Best Choice", "Lowest Price", "Best Quality", "Fastest Delivery", "Good Alternative" */
+  recommendation: string | null;
+}
+
+export interface ParsedPaymentTerms {
+  creditDays: number;
+  advancePct: number;
+  effectiveDays: number;
+  summary: string;
+}
+
+export type ComparisonCriterionKey =
+  | "price"
+  | "quality"
+  | "leadTime"
+  | "reliability"
+  | "paymentTerms";
+
+export type CriterionDirection = "minimize" | "maximize";
+
+export interface CriterionScore {
+  key: ComparisonCriterionKey;
+  label: string;
+  direction: CriterionDirection;
+  weight: number;
+  raw: number | null;
+  /** 0–1, or null when the criterion does not apply to this quote */
+  value: number | null;
+  /** Points this criterion adds to the final score */
+  contribution: number;
+  detail: string;
+}
+
+export interface ComparisonProfile {
+  criteria: Record<ComparisonCriterionKey, { weight: number; direction: CriterionDirection }>;
+  constraints: {
+    requiredCertifications: string[];
+    maxLeadTimeDays: number | null;
+    /** In the RFQ's budget currency */
+    budgetCeiling: number | null;
+  };
+}
+
+export interface RfqComparisonProfile {
+  profile: ComparisonProfile;
+  /** "default" when the RFQ uses the organisation's profile */
+  source: "rfq" | "default";
+}
+
+export interface ComparisonProfileConfig {
+  profile: ComparisonProfile;
+  defaults: ComparisonProfile;
+  labels: Record<ComparisonCriterionKey, string>;
+}
+
+export interface LineOffer {
+  quoteId: string;
+  vendorId: string;
+  vendorName: string;
+  currency: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  normalizedUnitPrice: number | null;
+  normalizedTotalPrice: number | null;
+  isAlternate: boolean;
+  description: string | null;
+}
+
+export interface LineMatrixRow {
+  lineItemId: string;
+  productName: string;
+  quantity: number;
+  unit: string;
+  offers: LineOffer[];
+  bestQuoteId: string | null;
+}
+
+export interface SplitAward {
+  currency: string;
+  lines: {
+    lineItemId: string;
+    productName: string;
+    quoteId: string;
+    vendorId: string;
+    vendorName: string;
+    isAlternate: boolean;
+    normalizedTotalPrice: number;
+  }[];
+  unawarded: { lineItemId: string; productName: string }[];
+  total: number;
+  vendorCount: number;
+  bestSingle: { quoteId: string; vendorId: string; vendorName: string; total: number } | null;
+  savings: number | null;
+  savingsPct: number | null;
+}
+
+export interface MarketBenchmarkSummary {
+  category: string;
+  sampleSize: number;
+  median: number;
+  p25: number;
+  p75: number;
+}
+
+// ─── Price Benchmarks ────────────────────────────────────────
+export interface PriceEvaluation {
+  /** Share of market observations at or below this price (0–100) */
+  percentileRank: number;
+  vsMedianPct: number;
+  outlier: "above" | "below" | null;
+}
+
+export interface PriceOutlier {
+  id: string;
+  source: "serp" | "quote";
+  vendorName: string | null;
+  title: string | null;
+  price: number;
+  currency: string;
+  normalizedPrice: number;
+  observedAt: string;
+  direction: "above" | "below";
+  deviationPct: number;
+}
+
+export interface PriceBenchmark {
+  category: string;
+  country: string | null;
+  currency: string;
+  from: string;
+  to: string;
+  sampleSize: number;
+  /** Observations without an exchange rate to `currency` */
+  excluded: number;
+  bySource: Partial<Record<"serp" | "quote", number>>;
+  stats: {
+    min: number;
+    max: number;
+    mean: number;
+    stdDev: number;
+    percentiles: { p10: number; p25: number; p50: number; p75: number; p90: number };
+  } | null;
+  trend: {
+    interval: "month" | "week";
+    buckets: Array<{
+      period: string;
+      count: number;
+      median: number;
+      mean: number;
+      min: number;
+      max: number;
+    }>;
+    changePct: number | null;
+    direction: "rising" | "falling" | "flat" | null;
+  };
+  fences: { lower: number; upper: number } | null;
+  outliers: PriceOutlier[];
+}
+
+export type RiskLevel = "low" | "medium" | "high";
+export type RiskFactorKey =
+  | "singleSource"
+  | "priceVolatility"
+  | "countryRisk"
+  | "capacity"
+  | "newVendor";
+
+export interface RiskFactor {
+  key: RiskFactorKey;
+  label: string;
+  /** null when there isn't enough data to judge */
+  level: RiskLevel | null;
+  flagged: boolean;
+  detail: string;
+}
+
+export interface SupplierRisk {
+  level: RiskLevel;
+  /** Keys of the flagged factors */
+  flags: RiskFactorKey[];
+  factors: RiskFactor[];
+}
+
+/** Editable country risk score, 0 (stable) – 10 (high risk) */
+export interface CountryRisk {
+  id: string;
+  country: string;
+  score: number;
+  notes: string | null;
+  updatedAt: string;
+}
+
+export interface BenchmarkCategory {
+  key: string;
+  label: string;
+  observations: number;
+  lastObservedAt: string | null;
+}
+
+// ─── Currency ────────────────────────────────────────────────
+/** Units of `currency` per 1 unit of the base currency (EUR) */
+export interface ExchangeRate {
+  id?: string;
+  currency: string;
+  rate: number;
+  rateDate: string;
+  source?: string;
+}
+
+export interface ExchangeRateTable {
+  base: string;
+  asOf: string;
+  reportingCurrency: string;
+  rates: ExchangeRate[];
+}
+
+export interface ExchangeRateImportSummary {
+  format: "ecb" | "csv";
+  imported: number;
+  unchanged: number;
+  skipped: number;
+  currencies: string[];
+  from: string;
+  to: string;
+}
+
+// ─── Outreach Sequences ──────────────────────────────────────
+export type OutreachChannel = "EMAIL" | "WHATSAPP";
+
+export interface OutreachSequenceStep {
+  id?: string;
+  position?: number;
+  dayOffset: number;
+  channel: OutreachChannel;
+  /** Template key: a library template or a built-in one */
+  template: string;
+  subject?: string | null;
+  customMessage?: string | null;
+}
+
+export type OutreachEnrollmentStatus =
+  | "ACTIVE"
+  | "PAUSED"
+  | "REPLIED"
+  | "COMPLETED"
+  | "STOPPED"
+  | "FAILED";
+
+export interface OutreachSequence {
+  id: string;
+  name: string;
+  description?: string | null;
+  active: boolean;
+  steps: OutreachSequenceStep[];
+  enrollments?: Partial<Record<OutreachEnrollmentStatus, number>>;
+  createdAt: string;
+}
+
+export interface OutreachEnrollment {
+  id: string;
+  sequenceId: string;
+  vendorId?: string | null;
+  resultId?: string | null;
+  status: OutreachEnrollmentStatus;
+  /** Position of the next step to send */
+  nextStep: number;
+  nextSendAt?: string | null;
+  startedAt: string;
+  pausedAt?: string | null;
+  finishedAt?: string | null;
+  stopReason?: string | null;
+  failures: number;
+  lastError?: string | null;
+  sequence: OutreachSequence;
+  sends: Array<{
+    id: string;
+    position: number;
+    channel: OutreachChannel;
+    success: boolean;
+    error?: string | null;
+    sentAt: string;
+  }>;
+}
+
+export interface WhatsAppWindow {
+  open: boolean;
+  phone: string | null;
+  lastInboundAt: string | null;
+  expiresAt: string | null;
+}
+
+// ─── Message Templates ───────────────────────────────────────
+export interface MessageTemplateVersion {
+  id: string;
+  version: number;
+  subject?: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface MessageTemplate {
+  id: string;
+  key: string;
+  name: string;
+  channel: OutreachChannel;
+  language: string;
+  description?: string | null;
+  active: boolean;
+  currentVersion: number;
+  /** Current version's content (list endpoint) */
+  subject?: string | null;
+  body?: string;
+  /** All versions, newest first (detail endpoint) */
+  versions?: MessageTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TemplateVariableInfo {
+  variables: Record<string, string>;
+  builtInKeys: string[];
+}
+
+export interface RenderedTemplate {
+  templateId: string | null;
+  templateVersionId: string | null;
+  version: number | null;
+  language: string;
+  subject?: string;
+  text: string;
+  html: string;
+  missing: string[];
+}
+
+export interface TemplatePreviewContext {
+  vendorId?: string;
+  resultId?: string;
+  rfqId?: string;
+  deadline?: string;
+  customMessage?: string;
+  variables?: Record<string, string>;
 }
 
 // ─── Pagination ──────────────────────────────────────────────
@@ -187,6 +962,7 @@ export interface DiscoveryJob {
   need?: string;
   productCategories: string[];
   targetCountries: string[];
+  searchProviders: string[];
   searchQueries: string[];
   maxVendorsPerQuery: number;
   autoImport: boolean;
@@ -198,6 +974,10 @@ export interface DiscoveryJob {
   totalImported: number;
   progress: number;
   error?: string;
+  queryCursor: number;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
   startedAt?: string;
   completedAt?: string;
   createdAt: string;
@@ -227,6 +1007,40 @@ export interface DiscoveryProduct {
   };
 }
 
+export type ScoringSignalKey =
+  | "websiteReachable"
+  | "contactFound"
+  | "certifications"
+  | "countryMatch"
+  | "sourceAgreement"
+  | "llmConfidence";
+
+export type ScoringWeights = Record<ScoringSignalKey, number>;
+
+export interface ConfidenceBreakdown {
+  score: number;
+  signals: Array<{
+    key: ScoringSignalKey;
+    label: string;
+    value: number | null;
+    weight: number;
+    contribution: number;
+    detail: string;
+  }>;
+}
+
+export interface ScoringConfig {
+  weights: ScoringWeights;
+  defaults: ScoringWeights;
+  labels: Record<ScoringSignalKey, string>;
+}
+
+export interface VendorMatch {
+  vendor: Vendor;
+  score: number;
+  reasons: string[];
+}
+
 export interface DiscoveryResult {
   id: string;
   jobId: string;
@@ -243,23 +1057,146 @@ export interface DiscoveryResult {
   yearsInBusiness?: number;
   source: string;
   confidence: number;
+  confidenceBreakdown?: ConfidenceBreakdown;
   imported: boolean;
   skipped: boolean;
   skipReason?: string;
+  reviewStatus: DiscoveryReviewStatus;
+  rejectReason?: DiscoveryRejectReason | null;
+  reviewNote?: string | null;
+  assignedToId?: string | null;
+  assignedTo?: { id: string; name: string } | null;
+  reviewedAt?: string | null;
+  /** Existing vendor this result was resolved to (entity resolution) */
+  matchedVendorId?: string;
+  matchScore?: number;
+  matchReasons: string[];
   /** Price discovery from SerpAPI Google Shopping */
   priceMin?: number;
   priceMax?: number;
   priceCurrency?: string;
   priceDiscovery?: unknown;
+  /** Price range in the reporting currency (null when no rate was known) */
+  priceMinNormalized?: number | null;
+  priceMaxNormalized?: number | null;
+  normalizedCurrency?: string;
+  rawData?: { crawl?: WebsiteCrawl } & Record<string, unknown>;
+  createdAt: string;
+}
+
+export type DiscoveryReviewStatus =
+  | "NEW"
+  | "NEEDS_RESEARCH"
+  | "SHORTLISTED"
+  | "SKIPPED"
+  | "REJECTED"
+  | "IMPORTED";
+
+export type DiscoveryRejectReason =
+  | "NOT_A_MANUFACTURER"
+  | "WRONG_PRODUCT"
+  | "WRONG_COUNTRY"
+  | "DUPLICATE"
+  | "NO_CONTACT"
+  | "INSUFFICIENT_CERTIFICATIONS"
+  | "TOO_SMALL"
+  | "OTHER";
+
+export type BulkResultAction =
+  | "shortlist"
+  | "needs_research"
+  | "skip"
+  | "reject"
+  | "reopen"
+  | "assign";
+
+/** Filter over discovery results (bulk actions and saved views) */
+export interface ResultFilter {
+  status?: DiscoveryReviewStatus[];
+  country?: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+  certification?: string;
+  /** User ID, or "unassigned" */
+  assignedToId?: string;
+}
+
+export interface DiscoveryResultView {
+  id: string;
+  name: string;
+  filters: ResultFilter;
+  shared: boolean;
+  createdById: string;
+  createdBy: { id: string; name: string };
   createdAt: string;
 }
 
+/** What the website crawler found for a discovery result (rawData.crawl) */
+export interface WebsiteCrawl {
+  startUrl: string;
+  pages: Array<{ url: string; depth: number; status: number | null; error?: string }>;
+  blockedByRobots: string[];
+  emails: string[];
+  phones: string[];
+  addresses: string[];
+  certifications: string[];
+  products: string[];
+  yearFounded: number | null;
+  socialLinks: Record<string, string>;
+  crawledAt: string;
+}
+
+export type DiscoveryQueryRunStatus = "RUNNING" | "SUCCEEDED" | "FAILED";
+
+/** Trace of one search query within a discovery job attempt */
+export interface DiscoveryQueryRun {
+  id: string;
+  jobId: string;
+  attempt: number;
+  queryIndex: number;
+  query: string;
+  productCategory: string;
+  country: string;
+  mode: string;
+  status: DiscoveryQueryRunStatus;
+  providers?: Array<{
+    provider: string;
+    resultCount: number;
+    durationMs: number;
+    error?: string;
+  }>;
+  providerResults?: Array<{
+    title: string;
+    url: string;
+    snippet: string;
+    sources: string[];
+  }>;
+  llmModel?: string;
+  llmMessages?: Array<{ role: string; content: string }>;
+  llmResponse?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  llmMs?: number;
+  priceSampleSize?: number;
+  vendorsExtracted: number;
+  vendorsNew: number;
+  vendorsSkipped: number;
+  resultIds: string[];
+  error?: string;
+  durationMs?: number;
+  startedAt: string;
+  completedAt?: string;
+}
+
 export interface DiscoveryJobDetail extends DiscoveryJob {
   results: DiscoveryResult[];
   summary: {
     imported: number;
     available: number;
     skipped: number;
+    review?: Partial<Record<DiscoveryReviewStatus, number>>;
+    assignees?: Array<{ assignedToId: string | null; count: number }>;
   };
   products?: DiscoveryProduct[];
   productsByAlternatives?: Record<string, DiscoveryProduct[]>;
@@ -268,7 +1205,16 @@ export interface DiscoveryJobDetail extends DiscoveryJob {
 export interface DiscoveryStatus {
   mode: string;
   activeInMemory: number;
-  jobs: { total: number; running: number; completed: number };
+  worker: string;
+  jobs: { total: number; queued: number; running: number; completed: number };
   results: { total: number; imported: number };
-  capabilities: { openai: boolean; serpapi: boolean };
+  capabilities: { openai: boolean; serpapi: boolean; bing: boolean };
+  providers: SearchProviderInfo[];
+}
+
+export interface SearchProviderInfo {
+  name: string;
+  label: string;
+  available: boolean;
+  defaultEnabled: boolean;
 }
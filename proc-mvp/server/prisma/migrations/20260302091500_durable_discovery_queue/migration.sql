@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "discovery_jobs" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "leaseOwner" TEXT,
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "nextRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "queryCursor" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "discovery_jobs_status_nextRunAt_idx" ON "discovery_jobs"("status", "nextRunAt");
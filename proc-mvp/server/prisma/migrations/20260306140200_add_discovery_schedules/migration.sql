@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "discovery_jobs" ADD COLUMN     "scheduleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "discovery_schedules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "need" TEXT,
+    "productCategories" TEXT[],
+    "targetCountries" TEXT[],
+    "cronExpression" TEXT,
+    "intervalMinutes" INTEGER,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "maxVendorsPerQuery" INTEGER NOT NULL DEFAULT 10,
+    "autoImport" BOOLEAN NOT NULL DEFAULT false,
+    "autoImportThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.8,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "discovery_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_schedules_enabled_nextRunAt_idx" ON "discovery_schedules"("enabled", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "discovery_jobs_scheduleId_idx" ON "discovery_jobs"("scheduleId");
+
+-- AddForeignKey
+ALTER TABLE "discovery_jobs" ADD CONSTRAINT "discovery_jobs_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "discovery_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "discovery_jobs" ADD COLUMN     "searchProviders" TEXT[];
+
+-- AlterTable
+ALTER TABLE "discovery_schedules" ADD COLUMN     "searchProviders" TEXT[];
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "discovery_results" ADD COLUMN     "matchScore" DOUBLE PRECISION,
+ADD COLUMN     "matchReasons" TEXT[],
+ADD COLUMN     "matchedVendorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "discovery_results_matchedVendorId_idx" ON "discovery_results"("matchedVendorId");
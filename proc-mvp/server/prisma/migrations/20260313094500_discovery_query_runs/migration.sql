@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "DiscoveryQueryRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "discovery_query_runs" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "queryIndex" INTEGER NOT NULL,
+    "query" TEXT NOT NULL,
+    "productCategory" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "status" "DiscoveryQueryRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "providers" JSONB,
+    "providerResults" JSONB,
+    "llmModel" TEXT,
+    "llmMessages" JSONB,
+    "llmResponse" TEXT,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "totalTokens" INTEGER,
+    "llmMs" INTEGER,
+    "priceSampleSize" INTEGER,
+    "vendorsExtracted" INTEGER NOT NULL DEFAULT 0,
+    "resultIds" TEXT[],
+    "error" TEXT,
+    "durationMs" INTEGER,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "discovery_query_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_query_runs_jobId_startedAt_idx" ON "discovery_query_runs"("jobId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "discovery_query_runs" ADD CONSTRAINT "discovery_query_runs_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "discovery_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "discovery_results" ADD COLUMN     "confidenceBreakdown" JSONB;
+
+-- CreateTable
+CREATE TABLE "confidence_scoring_configs" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "weights" JSONB NOT NULL,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "confidence_scoring_configs_pkey" PRIMARY KEY ("id")
+);
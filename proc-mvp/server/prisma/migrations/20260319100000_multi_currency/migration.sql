@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "discovery_results" ADD COLUMN     "normalizedCurrency" TEXT,
+ADD COLUMN     "priceMaxNormalized" DOUBLE PRECISION,
+ADD COLUMN     "priceMinNormalized" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "rateDate" DATE NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_rateDate_idx" ON "exchange_rates"("rateDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_currency_rateDate_key" ON "exchange_rates"("currency", "rateDate");
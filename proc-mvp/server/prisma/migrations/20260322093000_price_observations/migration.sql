@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "price_observations" (
+    "id" TEXT NOT NULL,
+    "productCategory" TEXT NOT NULL,
+    "categoryKey" TEXT NOT NULL,
+    "country" TEXT,
+    "source" TEXT NOT NULL,
+    "sourceRef" TEXT,
+    "vendorName" TEXT,
+    "title" TEXT,
+    "price" DOUBLE PRECISION NOT NULL,
+    "currency" TEXT NOT NULL,
+    "observedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_observations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_observations_categoryKey_observedAt_idx" ON "price_observations"("categoryKey", "observedAt");
+
+-- CreateIndex
+CREATE INDEX "price_observations_sourceRef_idx" ON "price_observations"("sourceRef");
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "DiscoveryReviewStatus" AS ENUM ('NEW', 'NEEDS_RESEARCH', 'SHORTLISTED', 'SKIPPED', 'REJECTED', 'IMPORTED');
+
+-- CreateEnum
+CREATE TYPE "DiscoveryRejectReason" AS ENUM ('NOT_A_MANUFACTURER', 'WRONG_PRODUCT', 'WRONG_COUNTRY', 'DUPLICATE', 'NO_CONTACT', 'INSUFFICIENT_CERTIFICATIONS', 'TOO_SMALL', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "discovery_results" ADD COLUMN     "assignedToId" TEXT,
+ADD COLUMN     "rejectReason" "DiscoveryRejectReason",
+ADD COLUMN     "reviewNote" TEXT,
+ADD COLUMN     "reviewStatus" "DiscoveryReviewStatus" NOT NULL DEFAULT 'NEW',
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT;
+
+-- Backfill from the imported/skipped flags
+UPDATE "discovery_results" SET "reviewStatus" = 'IMPORTED' WHERE "imported" = true;
+UPDATE "discovery_results" SET "reviewStatus" = 'SKIPPED' WHERE "skipped" = true AND "imported" = false;
+
+-- CreateTable
+CREATE TABLE "discovery_result_views" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_result_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discovery_results_jobId_reviewStatus_idx" ON "discovery_results"("jobId", "reviewStatus");
+
+-- CreateIndex
+CREATE INDEX "discovery_results_assignedToId_idx" ON "discovery_results"("assignedToId");
+
+-- CreateIndex
+CREATE INDEX "discovery_result_views_createdById_idx" ON "discovery_result_views"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "discovery_results" ADD CONSTRAINT "discovery_results_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_result_views" ADD CONSTRAINT "discovery_result_views_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
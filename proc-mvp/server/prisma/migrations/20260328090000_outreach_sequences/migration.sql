@@ -0,0 +1,97 @@
+-- CreateEnum
+CREATE TYPE "OutreachChannel" AS ENUM ('EMAIL', 'WHATSAPP');
+
+-- CreateEnum
+CREATE TYPE "OutreachEnrollmentStatus" AS ENUM ('ACTIVE', 'PAUSED', 'REPLIED', 'COMPLETED', 'STOPPED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "outreach_sequences" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outreach_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_sequence_steps" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "dayOffset" INTEGER NOT NULL,
+    "channel" "OutreachChannel" NOT NULL,
+    "template" TEXT NOT NULL,
+    "subject" TEXT,
+    "customMessage" TEXT,
+
+    CONSTRAINT "outreach_sequence_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_enrollments" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "vendorId" TEXT,
+    "resultId" TEXT,
+    "status" "OutreachEnrollmentStatus" NOT NULL DEFAULT 'ACTIVE',
+    "nextStep" INTEGER NOT NULL DEFAULT 0,
+    "nextSendAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pausedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "stopReason" TEXT,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "enrolledById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outreach_step_sends" (
+    "id" TEXT NOT NULL,
+    "enrollmentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "channel" "OutreachChannel" NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "communicationId" TEXT,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "outreach_step_sends_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outreach_sequence_steps_sequenceId_position_key" ON "outreach_sequence_steps"("sequenceId", "position");
+
+-- CreateIndex
+CREATE INDEX "outreach_enrollments_status_nextSendAt_idx" ON "outreach_enrollments"("status", "nextSendAt");
+
+-- CreateIndex
+CREATE INDEX "outreach_enrollments_vendorId_idx" ON "outreach_enrollments"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "outreach_enrollments_resultId_idx" ON "outreach_enrollments"("resultId");
+
+-- CreateIndex
+CREATE INDEX "outreach_step_sends_enrollmentId_idx" ON "outreach_step_sends"("enrollmentId");
+
+-- AddForeignKey
+ALTER TABLE "outreach_sequence_steps" ADD CONSTRAINT "outreach_sequence_steps_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "outreach_sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_enrollments" ADD CONSTRAINT "outreach_enrollments_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "outreach_sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_enrollments" ADD CONSTRAINT "outreach_enrollments_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_enrollments" ADD CONSTRAINT "outreach_enrollments_resultId_fkey" FOREIGN KEY ("resultId") REFERENCES "discovery_results"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_step_sends" ADD CONSTRAINT "outreach_step_sends_enrollmentId_fkey" FOREIGN KEY ("enrollmentId") REFERENCES "outreach_enrollments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "communications" ADD COLUMN "messageId" TEXT,
+ADD COLUMN "replyToken" TEXT;
+
+-- CreateTable
+CREATE TABLE "inbound_messages" (
+    "id" TEXT NOT NULL,
+    "channel" "OutreachChannel" NOT NULL,
+    "communicationId" TEXT,
+    "vendorId" TEXT,
+    "fromAddress" TEXT NOT NULL,
+    "toAddress" TEXT,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "externalId" TEXT,
+    "inReplyTo" TEXT,
+    "matchedBy" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inbound_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "communications_messageId_key" ON "communications"("messageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "communications_replyToken_key" ON "communications"("replyToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_messages_externalId_key" ON "inbound_messages"("externalId");
+
+-- CreateIndex
+CREATE INDEX "inbound_messages_communicationId_idx" ON "inbound_messages"("communicationId");
+
+-- CreateIndex
+CREATE INDEX "inbound_messages_vendorId_idx" ON "inbound_messages"("vendorId");
+
+-- AddForeignKey
+ALTER TABLE "inbound_messages" ADD CONSTRAINT "inbound_messages_communicationId_fkey" FOREIGN KEY ("communicationId") REFERENCES "communications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inbound_messages" ADD CONSTRAINT "inbound_messages_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "communications" ADD COLUMN "templateVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "message_templates" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "channel" "OutreachChannel" NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "description" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "message_template_versions" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_templates_key_channel_language_key" ON "message_templates"("key", "channel", "language");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_template_versions_templateId_version_key" ON "message_template_versions"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "communications" ADD CONSTRAINT "communications_templateVersionId_fkey" FOREIGN KEY ("templateVersionId") REFERENCES "message_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_template_versions" ADD CONSTRAINT "message_template_versions_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "message_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
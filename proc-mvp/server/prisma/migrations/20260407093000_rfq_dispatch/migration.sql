@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "RfqInvitationStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'VIEWED', 'SUBMITTED');
+
+-- AlterTable
+ALTER TABLE "rfqs" ADD COLUMN "quoteDeadline" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "rfq_invitations" (
+    "id" TEXT NOT NULL,
+    "rfqId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "status" "RfqInvitationStatus" NOT NULL DEFAULT 'PENDING',
+    "recipient" TEXT,
+    "communicationId" TEXT,
+    "error" TEXT,
+    "sentById" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "viewedAt" TIMESTAMP(3),
+    "submittedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "quoteId" TEXT,
+    "submission" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rfq_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quote_attachments" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quote_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rfq_invitations_token_key" ON "rfq_invitations"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rfq_invitations_quoteId_key" ON "rfq_invitations"("quoteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rfq_invitations_rfqId_vendorId_key" ON "rfq_invitations"("rfqId", "vendorId");
+
+-- CreateIndex
+CREATE INDEX "quote_attachments_quoteId_idx" ON "quote_attachments"("quoteId");
+
+-- AddForeignKey
+ALTER TABLE "rfq_invitations" ADD CONSTRAINT "rfq_invitations_rfqId_fkey" FOREIGN KEY ("rfqId") REFERENCES "rfqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rfq_invitations" ADD CONSTRAINT "rfq_invitations_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rfq_invitations" ADD CONSTRAINT "rfq_invitations_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_attachments" ADD CONSTRAINT "quote_attachments_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "quote_line_items" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "rfqLineItemId" TEXT NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+    "isAlternate" BOOLEAN NOT NULL DEFAULT false,
+    "description" TEXT,
+    "notes" TEXT,
+
+    CONSTRAINT "quote_line_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quote_line_items_quoteId_rfqLineItemId_isAlternate_key" ON "quote_line_items"("quoteId", "rfqLineItemId", "isAlternate");
+
+-- CreateIndex
+CREATE INDEX "quote_line_items_rfqLineItemId_idx" ON "quote_line_items"("rfqLineItemId");
+
+-- AddForeignKey
+ALTER TABLE "quote_line_items" ADD CONSTRAINT "quote_line_items_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_line_items" ADD CONSTRAINT "quote_line_items_rfqLineItemId_fkey" FOREIGN KEY ("rfqLineItemId") REFERENCES "rfq_line_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: portal submissions kept their per-line prices on the invitation
+INSERT INTO "quote_line_items" ("id", "quoteId", "rfqLineItemId", "unitPrice", "quantity", "totalPrice")
+SELECT gen_random_uuid()::text, i."quoteId", li."id", (line->>'unitPrice')::double precision, li."quantity", (line->>'total')::double precision
+FROM "rfq_invitations" i
+CROSS JOIN LATERAL jsonb_array_elements(i."submission") AS line
+JOIN "rfq_line_items" li ON li."id" = line->>'lineItemId'
+WHERE i."quoteId" IS NOT NULL AND jsonb_typeof(i."submission") = 'array';
+
+-- Backfill: on single-product RFQs the quote's own price is the line's
+INSERT INTO "quote_line_items" ("id", "quoteId", "rfqLineItemId", "unitPrice", "quantity", "totalPrice")
+SELECT gen_random_uuid()::text, q."id", li."id", q."unitPrice", li."quantity", q."totalPrice"
+FROM "quotes" q
+JOIN "rfq_line_items" li ON li."rfqId" = q."rfqId"
+WHERE (SELECT COUNT(*) FROM "rfq_line_items" x WHERE x."rfqId" = q."rfqId") = 1
+  AND NOT EXISTS (SELECT 1 FROM "quote_line_items" ql WHERE ql."quoteId" = q."id");
+
+-- AlterTable
+ALTER TABLE "rfq_invitations" DROP COLUMN "submission";
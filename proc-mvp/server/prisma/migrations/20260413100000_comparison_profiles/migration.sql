@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "comparison_profiles" (
+    "id" TEXT NOT NULL,
+    "rfqId" TEXT,
+    "criteria" JSONB NOT NULL,
+    "constraints" JSONB NOT NULL,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "comparison_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comparison_profiles_rfqId_key" ON "comparison_profiles"("rfqId");
+
+-- AddForeignKey
+ALTER TABLE "comparison_profiles" ADD CONSTRAINT "comparison_profiles_rfqId_fkey" FOREIGN KEY ("rfqId") REFERENCES "rfqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "NegotiationRoundStatus" AS ENUM ('SENT', 'ACCEPTED', 'REVISED', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN "negotiationEscalatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "negotiation_rounds" (
+    "id" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "quotedPrice" DOUBLE PRECISION NOT NULL,
+    "counterPrice" DOUBLE PRECISION NOT NULL,
+    "suggestedPrice" DOUBLE PRECISION,
+    "message" TEXT,
+    "channel" "CommunicationType" NOT NULL,
+    "communicationId" TEXT,
+    "status" "NegotiationRoundStatus" NOT NULL DEFAULT 'SENT',
+    "vendorResponse" TEXT,
+    "revisedPrice" DOUBLE PRECISION,
+    "respondedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "negotiation_rounds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "negotiation_rounds_quoteId_round_key" ON "negotiation_rounds"("quoteId", "round");
+
+-- AddForeignKey
+ALTER TABLE "negotiation_rounds" ADD CONSTRAINT "negotiation_rounds_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "negotiation_rounds" ADD CONSTRAINT "negotiation_rounds_communicationId_fkey" FOREIGN KEY ("communicationId") REFERENCES "communications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "negotiation_rounds" ADD CONSTRAINT "negotiation_rounds_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "country_risks" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "country_risks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "country_risks_country_key" ON "country_risks"("country");
@@ -0,0 +1,85 @@
+-- CreateEnum
+CREATE TYPE "PurchaseOrderStatus" AS ENUM ('ISSUED', 'ACKNOWLEDGED', 'SHIPPED', 'RECEIVED', 'CLOSED');
+
+-- CreateTable
+CREATE TABLE "purchase_orders" (
+    "id" TEXT NOT NULL,
+    "poNumber" TEXT NOT NULL,
+    "rfqId" TEXT NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "status" "PurchaseOrderStatus" NOT NULL DEFAULT 'ISSUED',
+    "currency" TEXT NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "incoterms" TEXT,
+    "paymentTerms" TEXT,
+    "deliveryAddress" TEXT NOT NULL,
+    "requiredDeliveryDate" TIMESTAMP(3),
+    "notes" TEXT,
+    "recipient" TEXT,
+    "communicationId" TEXT,
+    "emailError" TEXT,
+    "createdById" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledgedAt" TIMESTAMP(3),
+    "shippedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "purchase_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "purchase_order_lines" (
+    "id" TEXT NOT NULL,
+    "purchaseOrderId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "rfqLineItemId" TEXT,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unit" TEXT NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "totalPrice" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "purchase_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_orders_poNumber_key" ON "purchase_orders"("poNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_orders_quoteId_key" ON "purchase_orders"("quoteId");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_rfqId_idx" ON "purchase_orders"("rfqId");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_vendorId_idx" ON "purchase_orders"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "purchase_order_lines_purchaseOrderId_idx" ON "purchase_order_lines"("purchaseOrderId");
+
+-- CreateIndex
+CREATE INDEX "purchase_order_lines_rfqLineItemId_idx" ON "purchase_order_lines"("rfqLineItemId");
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_rfqId_fkey" FOREIGN KEY ("rfqId") REFERENCES "rfqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_communicationId_fkey" FOREIGN KEY ("communicationId") REFERENCES "communications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "purchase_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_rfqLineItemId_fkey" FOREIGN KEY ("rfqLineItemId") REFERENCES "rfq_line_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
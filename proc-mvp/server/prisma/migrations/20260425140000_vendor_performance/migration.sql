@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "delivery_events" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "quoteId" TEXT,
+    "purchaseOrderId" TEXT,
+    "deliveredAt" TIMESTAMP(3) NOT NULL,
+    "daysLate" INTEGER NOT NULL DEFAULT 0,
+    "defectRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "shortfallRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "recordedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vendor_score_snapshots" (
+    "id" TEXT NOT NULL,
+    "vendorId" TEXT NOT NULL,
+    "deliveryEventId" TEXT,
+    "qualityScore" DOUBLE PRECISION NOT NULL,
+    "reliabilityScore" DOUBLE PRECISION NOT NULL,
+    "performanceScore" DOUBLE PRECISION NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vendor_score_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vendor_scoring_configs" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "weights" JSONB NOT NULL,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vendor_scoring_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "delivery_events_vendorId_deliveredAt_idx" ON "delivery_events"("vendorId", "deliveredAt");
+
+-- CreateIndex
+CREATE INDEX "vendor_score_snapshots_vendorId_createdAt_idx" ON "vendor_score_snapshots"("vendorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "delivery_events" ADD CONSTRAINT "delivery_events_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_events" ADD CONSTRAINT "delivery_events_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_events" ADD CONSTRAINT "delivery_events_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "purchase_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delivery_events" ADD CONSTRAINT "delivery_events_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_score_snapshots" ADD CONSTRAINT "vendor_score_snapshots_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendor_score_snapshots" ADD CONSTRAINT "vendor_score_snapshots_deliveryEventId_fkey" FOREIGN KEY ("deliveryEventId") REFERENCES "delivery_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "RfqApprovalAction" AS ENUM ('SUBMITTED', 'APPROVED', 'REJECTED', 'REVOKED');
+
+-- AlterEnum
+ALTER TYPE "RfqStatus" ADD VALUE 'PENDING_APPROVAL' AFTER 'DRAFT';
+ALTER TYPE "RfqStatus" ADD VALUE 'APPROVED' AFTER 'PENDING_APPROVAL';
+
+-- CreateTable
+CREATE TABLE "rfq_approval_events" (
+    "id" TEXT NOT NULL,
+    "rfqId" TEXT NOT NULL,
+    "action" "RfqApprovalAction" NOT NULL,
+    "fromStatus" "RfqStatus" NOT NULL,
+    "toStatus" "RfqStatus" NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rfq_approval_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rfq_approval_configs" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "budgetThreshold" DOUBLE PRECISION,
+    "currency" TEXT NOT NULL,
+    "approverIds" TEXT[],
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rfq_approval_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rfq_approval_events_rfqId_createdAt_idx" ON "rfq_approval_events"("rfqId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "rfq_approval_events" ADD CONSTRAINT "rfq_approval_events_rfqId_fkey" FOREIGN KEY ("rfqId") REFERENCES "rfqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rfq_approval_events" ADD CONSTRAINT "rfq_approval_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "rfq_status_events" (
+    "id" TEXT NOT NULL,
+    "rfqId" TEXT NOT NULL,
+    "fromStatus" "RfqStatus",
+    "toStatus" "RfqStatus" NOT NULL,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rfq_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rfq_status_events_rfqId_createdAt_idx" ON "rfq_status_events"("rfqId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "rfq_status_events" ADD CONSTRAINT "rfq_status_events_rfqId_fkey" FOREIGN KEY ("rfqId") REFERENCES "rfqs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rfq_status_events" ADD CONSTRAINT "rfq_status_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "DocumentType" AS ENUM ('RFQ', 'PURCHASE_ORDER', 'INVOICE');
+
+-- CreateTable
+CREATE TABLE "document_sequences" (
+    "type" "DocumentType" NOT NULL,
+    "year" INTEGER NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_sequences_pkey" PRIMARY KEY ("type","year")
+);
+
+-- CreateTable
+CREATE TABLE "document_number_formats" (
+    "type" "DocumentType" NOT NULL,
+    "format" TEXT NOT NULL,
+    "updatedById" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_number_formats_pkey" PRIMARY KEY ("type")
+);
+
+-- Continue from the highest numbers issued so far (RFQ-2026-0042, PO-2026-0007)
+INSERT INTO "document_sequences" ("type", "year", "lastValue", "updatedAt")
+SELECT 'RFQ', CAST(substring("rfqNumber" from '^RFQ-(\d{4})-') AS INTEGER),
+       MAX(CAST(substring("rfqNumber" from '^RFQ-\d{4}-(\d+)$') AS INTEGER)), CURRENT_TIMESTAMP
+FROM "rfqs"
+WHERE "rfqNumber" ~ '^RFQ-\d{4}-\d+$'
+GROUP BY 2;
+
+INSERT INTO "document_sequences" ("type", "year", "lastValue", "updatedAt")
+SELECT 'PURCHASE_ORDER', CAST(substring("poNumber" from '^PO-(\d{4})-') AS INTEGER),
+       MAX(CAST(substring("poNumber" from '^PO-\d{4}-(\d+)$') AS INTEGER)), CURRENT_TIMESTAMP
+FROM "purchase_orders"
+WHERE "poNumber" ~ '^PO-\d{4}-\d+$'
+GROUP BY 2;
@@ -0,0 +1,123 @@
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "senderName" TEXT,
+    "senderEmail" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "memberships" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "UserRole" NOT NULL DEFAULT 'BUYER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing data becomes the first organisation's, and every user a member with their current role.
+-- The organisation is created whenever any row below will point at it; an empty database gets none.
+INSERT INTO "organizations" ("id", "name", "updatedAt")
+SELECT '573f4f23-b027-41c7-9bd3-ab6decac0623', 'ProcMVP', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "users")
+   OR EXISTS (SELECT 1 FROM "vendors")
+   OR EXISTS (SELECT 1 FROM "rfqs")
+   OR EXISTS (SELECT 1 FROM "discovery_jobs")
+   OR EXISTS (SELECT 1 FROM "discovery_schedules")
+   OR EXISTS (SELECT 1 FROM "discovery_result_views")
+   OR EXISTS (SELECT 1 FROM "comparison_profiles" WHERE "id" = 'default');
+
+INSERT INTO "memberships" ("id", "organizationId", "userId", "role")
+SELECT gen_random_uuid()::text, '573f4f23-b027-41c7-9bd3-ab6decac0623', "id", "role" FROM "users";
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "role";
+
+-- AlterTable
+ALTER TABLE "vendors" ADD COLUMN "organizationId" TEXT;
+UPDATE "vendors" SET "organizationId" = '573f4f23-b027-41c7-9bd3-ab6decac0623';
+ALTER TABLE "vendors" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "rfqs" ADD COLUMN "organizationId" TEXT;
+UPDATE "rfqs" SET "organizationId" = '573f4f23-b027-41c7-9bd3-ab6decac0623';
+ALTER TABLE "rfqs" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "discovery_jobs" ADD COLUMN "organizationId" TEXT;
+UPDATE "discovery_jobs" SET "organizationId" = '573f4f23-b027-41c7-9bd3-ab6decac0623';
+ALTER TABLE "discovery_jobs" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "discovery_schedules" ADD COLUMN "organizationId" TEXT;
+UPDATE "discovery_schedules" SET "organizationId" = '573f4f23-b027-41c7-9bd3-ab6decac0623';
+ALTER TABLE "discovery_schedules" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "discovery_result_views" ADD COLUMN "organizationId" TEXT;
+UPDATE "discovery_result_views" SET "organizationId" = '573f4f23-b027-41c7-9bd3-ab6decac0623';
+ALTER TABLE "discovery_result_views" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- AlterTable: the "default" config rows become the organisation's
+ALTER TABLE "comparison_profiles" ADD COLUMN "organizationId" TEXT;
+UPDATE "comparison_profiles" SET "organizationId" = '573f4f23-b027-41c7-9bd3-ab6decac0623' WHERE "id" = 'default';
+
+ALTER TABLE "vendor_scoring_configs" ALTER COLUMN "id" DROP DEFAULT;
+UPDATE "vendor_scoring_configs" SET "id" = '573f4f23-b027-41c7-9bd3-ab6decac0623' WHERE "id" = 'default';
+
+ALTER TABLE "confidence_scoring_configs" ALTER COLUMN "id" DROP DEFAULT;
+UPDATE "confidence_scoring_configs" SET "id" = '573f4f23-b027-41c7-9bd3-ab6decac0623' WHERE "id" = 'default';
+
+ALTER TABLE "rfq_approval_configs" ALTER COLUMN "id" DROP DEFAULT;
+UPDATE "rfq_approval_configs" SET "id" = '573f4f23-b027-41c7-9bd3-ab6decac0623' WHERE "id" = 'default';
+
+-- CreateIndex
+CREATE INDEX "memberships_organizationId_idx" ON "memberships"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memberships_userId_organizationId_key" ON "memberships"("userId", "organizationId");
+
+-- CreateIndex
+CREATE INDEX "vendors_organizationId_idx" ON "vendors"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "rfqs_organizationId_idx" ON "rfqs"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comparison_profiles_organizationId_key" ON "comparison_profiles"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "discovery_jobs_organizationId_idx" ON "discovery_jobs"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "discovery_result_views_organizationId_idx" ON "discovery_result_views"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vendors" ADD CONSTRAINT "vendors_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rfqs" ADD CONSTRAINT "rfqs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comparison_profiles" ADD CONSTRAINT "comparison_profiles_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_jobs" ADD CONSTRAINT "discovery_jobs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_schedules" ADD CONSTRAINT "discovery_schedules_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "discovery_result_views" ADD CONSTRAINT "discovery_result_views_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
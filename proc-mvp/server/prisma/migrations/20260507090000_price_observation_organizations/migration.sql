@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "price_observations" ADD COLUMN "organizationId" TEXT;
+
+-- Quote prices belong to the organisation of the quote's RFQ
+UPDATE "price_observations" AS o
+SET "organizationId" = r."organizationId"
+FROM "quotes" AS q
+JOIN "rfqs" AS r ON r."id" = q."rfqId"
+WHERE o."source" = 'quote' AND o."sourceRef" = q."id";
+
+-- Search prices belong to the organisation that ran the discovery job
+UPDATE "price_observations" AS o
+SET "organizationId" = j."organizationId"
+FROM "discovery_jobs" AS j
+WHERE o."source" = 'serp' AND o."sourceRef" = j."id";
+
+-- Observations whose quote or job is gone cannot be attributed to anyone
+DELETE FROM "price_observations" WHERE "organizationId" IS NULL;
+
+ALTER TABLE "price_observations" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "price_observations_categoryKey_observedAt_idx";
+
+-- CreateIndex
+CREATE INDEX "price_observations_organizationId_categoryKey_observedAt_idx" ON "price_observations"("organizationId", "categoryKey", "observedAt");
+
+-- AddForeignKey
+ALTER TABLE "price_observations" ADD CONSTRAINT "price_observations_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
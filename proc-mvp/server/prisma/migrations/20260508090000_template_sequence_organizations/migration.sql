@@ -0,0 +1,99 @@
+-- AlterTable
+ALTER TABLE "message_templates" ADD COLUMN "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "outreach_sequences" ADD COLUMN "organizationId" TEXT;
+
+-- The shared library and sequences become the oldest organisation's; every
+-- other organisation gets its own copy below. Without organisations there is
+-- no one to give them to and they are deleted.
+UPDATE "message_templates"
+SET "organizationId" = (SELECT "id" FROM "organizations" ORDER BY "createdAt", "id" LIMIT 1);
+
+UPDATE "outreach_sequences"
+SET "organizationId" = (SELECT "id" FROM "organizations" ORDER BY "createdAt", "id" LIMIT 1);
+
+DELETE FROM "message_templates" WHERE "organizationId" IS NULL;
+DELETE FROM "outreach_sequences" WHERE "organizationId" IS NULL;
+
+-- Copy templates, with their versions, to the other organisations
+CREATE TEMP TABLE "template_copies" AS
+SELECT t."id" AS "sourceId", o."id" AS "organizationId", gen_random_uuid()::text AS "id"
+FROM "message_templates" AS t
+CROSS JOIN "organizations" AS o
+WHERE o."id" <> t."organizationId";
+
+INSERT INTO "message_templates" ("id", "organizationId", "key", "name", "channel", "language", "description", "active", "currentVersion", "createdById", "createdAt", "updatedAt")
+SELECT c."id", c."organizationId", t."key", t."name", t."channel", t."language", t."description", t."active", t."currentVersion", t."createdById", t."createdAt", t."updatedAt"
+FROM "template_copies" AS c
+JOIN "message_templates" AS t ON t."id" = c."sourceId";
+
+CREATE TEMP TABLE "template_version_copies" AS
+SELECT v."id" AS "sourceId", c."organizationId", c."id" AS "templateId", gen_random_uuid()::text AS "id"
+FROM "template_copies" AS c
+JOIN "message_template_versions" AS v ON v."templateId" = c."sourceId";
+
+INSERT INTO "message_template_versions" ("id", "templateId", "version", "subject", "body", "createdById", "createdAt")
+SELECT c."id", c."templateId", v."version", v."subject", v."body", v."createdById", v."createdAt"
+FROM "template_version_copies" AS c
+JOIN "message_template_versions" AS v ON v."id" = c."sourceId";
+
+-- Messages sent to another organisation's vendors point at that organisation's copy
+UPDATE "communications" AS m
+SET "templateVersionId" = c."id"
+FROM "template_version_copies" AS c, "vendors" AS v
+WHERE m."templateVersionId" = c."sourceId"
+  AND v."id" = m."vendorId"
+  AND v."organizationId" = c."organizationId";
+
+-- Copy sequences, with their steps, to the other organisations
+CREATE TEMP TABLE "sequence_copies" AS
+SELECT s."id" AS "sourceId", o."id" AS "organizationId", gen_random_uuid()::text AS "id"
+FROM "outreach_sequences" AS s
+CROSS JOIN "organizations" AS o
+WHERE o."id" <> s."organizationId";
+
+INSERT INTO "outreach_sequences" ("id", "organizationId", "name", "description", "active", "createdById", "createdAt", "updatedAt")
+SELECT c."id", c."organizationId", s."name", s."description", s."active", s."createdById", s."createdAt", s."updatedAt"
+FROM "sequence_copies" AS c
+JOIN "outreach_sequences" AS s ON s."id" = c."sourceId";
+
+INSERT INTO "outreach_sequence_steps" ("id", "sequenceId", "position", "dayOffset", "channel", "template", "subject", "customMessage")
+SELECT gen_random_uuid()::text, c."id", st."position", st."dayOffset", st."channel", st."template", st."subject", st."customMessage"
+FROM "sequence_copies" AS c
+JOIN "outreach_sequence_steps" AS st ON st."sequenceId" = c."sourceId";
+
+-- Enrollments move to the copy belonging to their vendor's (or discovery result's) organisation
+UPDATE "outreach_enrollments" AS e
+SET "sequenceId" = c."id"
+FROM "sequence_copies" AS c
+WHERE c."sourceId" = e."sequenceId"
+  AND c."organizationId" = COALESCE(
+    (SELECT v."organizationId" FROM "vendors" AS v WHERE v."id" = e."vendorId"),
+    (SELECT j."organizationId"
+     FROM "discovery_results" AS r
+     JOIN "discovery_jobs" AS j ON j."id" = r."jobId"
+     WHERE r."id" = e."resultId")
+  );
+
+DROP TABLE "template_copies";
+DROP TABLE "template_version_copies";
+DROP TABLE "sequence_copies";
+
+ALTER TABLE "message_templates" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "outreach_sequences" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "message_templates_key_channel_language_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_templates_organizationId_key_channel_language_key" ON "message_templates"("organizationId", "key", "channel", "language");
+
+-- CreateIndex
+CREATE INDEX "outreach_sequences_organizationId_idx" ON "outreach_sequences"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outreach_sequences" ADD CONSTRAINT "outreach_sequences_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
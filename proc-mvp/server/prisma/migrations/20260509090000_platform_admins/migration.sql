@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "platformAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- Admins from before organisations existed (the first organisation's) keep
+-- managing the shared settings; admins of organisations created at sign-up do not
+UPDATE "users" SET "platformAdmin" = true
+WHERE "id" IN (
+  SELECT "userId" FROM "memberships"
+  WHERE "organizationId" = '573f4f23-b027-41c7-9bd3-ab6decac0623' AND "role" = 'ADMIN'
+);
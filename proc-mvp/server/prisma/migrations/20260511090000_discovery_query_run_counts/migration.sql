@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "discovery_query_runs" ADD COLUMN "vendorsNew" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "vendorsSkipped" INTEGER NOT NULL DEFAULT 0;
+
+-- Runs recorded before the counts existed: count their stored results
+UPDATE "discovery_query_runs" AS run
+SET "vendorsNew" = (
+      SELECT COUNT(*) FROM "discovery_results" AS r
+      WHERE r."id" = ANY(run."resultIds") AND r."skipped" = false
+    ),
+    "vendorsSkipped" = (
+      SELECT COUNT(*) FROM "discovery_results" AS r
+      WHERE r."id" = ANY(run."resultIds") AND r."skipped" = true
+    )
+WHERE run."status" = 'SUCCEEDED';
@@ -6,6 +6,7 @@ config({ path: path.resolve(__dirname, "../.env") });
 
 import { PrismaClient } from "@prisma/client";
 import bcrypt from "bcryptjs";
+import { STANDARD_SEQUENCE, STARTER_TEMPLATES } from "../src/services/starter-content.js";
 
 const prisma = new PrismaClient();
 
@@ -21,16 +22,31 @@ async function main() {
       email: "admin@procmvp.com",
       password,
       name: "Admin User",
-      role: "ADMIN",
+      platformAdmin: true,
     },
   });
 
   console.log(`✅ Admin user created: ${admin.email}`);
 
+  // Create the admin's organisation
+  const organization =
+    (await prisma.organization.findFirst({
+      where: { memberships: { some: { userId: admin.id } } },
+    })) ??
+    (await prisma.organization.create({
+      data: {
+        name: "ProcMVP",
+        memberships: { create: { userId: admin.id, role: "ADMIN" } },
+      },
+    }));
+
+  console.log(`✅ Organisation ready: ${organization.name}`);
+
   // Create sample vendors
   const vendors = await Promise.all([
     prisma.vendor.create({
       data: {
+        organizationId: organization.id,
         companyName: "ABC Steel Co.",
         country: "China",
         website: "https://abcsteel.example.com",
@@ -72,6 +88,7 @@ async function main() {
     }),
     prisma.vendor.create({
       data: {
+        organizationId: organization.id,
         companyName: "XYZ Metals Ltd",
         country: "India",
         website: "https://xyzmetals.example.com",
@@ -109,6 +126,7 @@ async function main() {
     }),
     prisma.vendor.create({
       data: {
+        organizationId: organization.id,
         companyName: "Global Pipes Ltd",
         country: "UAE",
         website: "https://globalpipes.example.com",
@@ -148,6 +166,94 @@ async function main() {
   ]);
 
   console.log(`✅ ${vendors.length} sample vendors created`);
+
+  // Sample exchange rates (units per 1 EUR) so mixed-currency quotes compare
+  const rateDate = new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+  const sampleRates: Record<string, number> = {
+    USD: 1.08,
+    GBP: 0.85,
+    INR: 90.5,
+    CNY: 7.8,
+    AED: 3.97,
+    JPY: 162,
+  };
+  for (const [currency, rate] of Object.entries(sampleRates)) {
+    await prisma.exchangeRate.upsert({
+      where: { currency_rateDate: { currency, rateDate } },
+      update: {},
+      create: { currency, rate, rateDate, source: "manual" },
+    });
+  }
+
+  console.log(`✅ ${Object.keys(sampleRates).length} sample exchange rates created`);
+
+  // Sample country risk scores (0 stable – 10 high risk) for supplier risk
+  const countryRisks: Record<string, number> = {
+    China: 5,
+    India: 4,
+    UAE: 3,
+    Germany: 1,
+    USA: 2,
+    Turkey: 6,
+    Pakistan: 7,
+  };
+  for (const [country, score] of Object.entries(countryRisks)) {
+    await prisma.countryRisk.upsert({
+      where: { country },
+      update: {},
+      create: { country, score },
+    });
+  }
+
+  console.log(`✅ ${Object.keys(countryRisks).length} country risk scores created`);
+
+  // The organisation's starter sequence and template library
+  const existingSequence = await prisma.outreachSequence.findFirst({
+    where: { organizationId: organization.id, name: STANDARD_SEQUENCE.name },
+  });
+  if (!existingSequence) {
+    await prisma.outreachSequence.create({
+      data: {
+        organizationId: organization.id,
+        name: STANDARD_SEQUENCE.name,
+        description: STANDARD_SEQUENCE.description,
+        createdById: admin.id,
+        steps: { create: STANDARD_SEQUENCE.steps.map((step, position) => ({ ...step, position })) },
+      },
+    });
+  }
+
+  console.log("✅ Standard follow-up sequence created");
+
+  for (const t of STARTER_TEMPLATES) {
+    const language = t.language ?? "en";
+    const existing = await prisma.messageTemplate.findUnique({
+      where: {
+        organizationId_key_channel_language: {
+          organizationId: organization.id,
+          key: t.key,
+          channel: t.channel,
+          language,
+        },
+      },
+    });
+    if (existing) continue;
+    await prisma.messageTemplate.create({
+      data: {
+        organizationId: organization.id,
+        key: t.key,
+        name: t.name,
+        channel: t.channel,
+        language,
+        createdById: admin.id,
+        versions: {
+          create: { version: 1, subject: t.subject, body: t.body, createdById: admin.id },
+        },
+      },
+    });
+  }
+
+  console.log(`✅ ${STARTER_TEMPLATES.length} message templates created`);
   console.log("🌱 Seeding complete!");
 }
 
@@ -0,0 +1,54 @@
+/**
+ * Run the website crawler offline against a static fixture site.
+ *
+ *   npm run crawl:fixture                 # fixtures/vendor-site
+ *   npm run crawl:fixture -- path/to/site # any directory of static HTML
+ *
+ * Serves the directory on a random localhost port, crawls it and prints
+ * the CrawlResult as JSON.
+ */
+
+import { createServer } from "node:http";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AddressInfo } from "node:net";
+import { crawlVendorWebsite } from "../src/services/website-crawler.service.js";
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const root = path.resolve(process.argv[2] ?? path.join(here, "../fixtures/vendor-site"));
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".json": "application/json",
+};
+
+const server = createServer(async (req, res) => {
+  const urlPath = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+  let file = path.join(root, urlPath);
+  if (!file.startsWith(root)) {
+    res.writeHead(403).end();
+    return;
+  }
+  if (urlPath.endsWith("/")) file = path.join(file, "index.html");
+
+  try {
+    const body = await readFile(file);
+    const type = CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream";
+    res.writeHead(200, { "Content-Type": type }).end(body);
+  } catch {
+    res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found");
+  }
+  console.log(`[Fixture] ${res.statusCode} ${urlPath}`);
+});
+
+server.listen(0, "127.0.0.1", async () => {
+  const { port } = server.address() as AddressInfo;
+  try {
+    const result = await crawlVendorWebsite(`http://127.0.0.1:${port}/`, { timeoutMs: 2_000 });
+    console.log(JSON.stringify(result, null, 2));
+  } finally {
+    server.close();
+  }
+});
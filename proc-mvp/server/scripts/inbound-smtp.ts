@@ -0,0 +1,119 @@
+/**
+ * Local fake SMTP server that feeds received mail into inbound reply
+ * ingestion — the offline stand-in for the SendGrid Inbound Parse webhook.
+ *
+ *   npm run inbound:smtp              # listens on localhost:2525
+ *   INBOUND_SMTP_PORT=2526 npm run inbound:smtp
+ *
+ * Point any mail client or `swaks --server localhost:2525` at it and reply
+ * to an outreach email (keep its In-Reply-To header, or send to the
+ * reply+<token>@ address). Each message is matched, stored and printed as
+ * JSON. Uses the database from DATABASE_URL.
+ */
+
+import "dotenv/config";
+import { createServer, type Socket } from "node:net";
+import { parseRawEmail, parseAddresses } from "../src/services/mail-parser.service.js";
+import { ingestInboundEmail } from "../src/services/inbound-email.service.js";
+
+const PORT = Number(process.env.INBOUND_SMTP_PORT) || 2525;
+const MAX_MESSAGE_BYTES = 30 * 1024 * 1024;
+
+function handle(socket: Socket) {
+  let buffer = "";
+  let inData = false;
+  let recipients: string[] = [];
+  let data: string[] = [];
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  const reset = () => {
+    recipients = [];
+    data = [];
+  };
+
+  const deliver = async (raw: string, envelopeTo: string[]) => {
+    const email = parseRawEmail(raw);
+    // Envelope recipients count too: the reply token may only be in RCPT TO
+    email.to = [...new Set([...email.to, ...envelopeTo])];
+    try {
+      const result = await ingestInboundEmail(email);
+      console.log(JSON.stringify({ from: email.from, subject: email.subject, ...result }, null, 2));
+      reply("250 OK: queued");
+    } catch (err: unknown) {
+      console.error("[Inbound SMTP] Ingestion failed:", err);
+      reply("451 Local error in processing");
+    }
+  };
+
+  const command = (line: string) => {
+    const verb = line.slice(0, 4).toUpperCase();
+    switch (verb) {
+      case "EHLO":
+      case "HELO":
+        reply(`250-localhost\r\n250 SIZE ${MAX_MESSAGE_BYTES}`);
+        break;
+      case "MAIL":
+        reset();
+        reply("250 OK");
+        break;
+      case "RCPT":
+        recipients.push(...parseAddresses(line.slice(line.indexOf(":") + 1)));
+        reply("250 OK");
+        break;
+      case "DATA":
+        if (recipients.length === 0) {
+          reply("503 RCPT first");
+          break;
+        }
+        inData = true;
+        reply("354 End data with <CR><LF>.<CR><LF>");
+        break;
+      case "RSET":
+        reset();
+        reply("250 OK");
+        break;
+      case "NOOP":
+        reply("250 OK");
+        break;
+      case "QUIT":
+        reply("221 Bye");
+        socket.end();
+        break;
+      default:
+        reply("502 Command not implemented");
+    }
+  };
+
+  reply("220 localhost ProcMVP inbound SMTP");
+
+  // latin1 keeps 8bit bodies byte-for-byte for the parser
+  socket.setEncoding("latin1");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (!inData) {
+        command(line);
+        continue;
+      }
+      if (line === ".") {
+        inData = false;
+        const raw = data.join("\r\n");
+        const envelopeTo = recipients;
+        reset();
+        void deliver(raw, envelopeTo);
+        continue;
+      }
+      // Dot-stuffing: a leading ".." stands for "."
+      data.push(line.startsWith("..") ? line.slice(1) : line);
+    }
+  });
+  socket.on("error", (err) => console.error("[Inbound SMTP] Connection error:", err.message));
+}
+
+createServer(handle).listen(PORT, "127.0.0.1", () => {
+  console.log(`[Inbound SMTP] Listening on localhost:${PORT}`);
+});
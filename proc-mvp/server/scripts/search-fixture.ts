@@ -0,0 +1,67 @@
+/**
+ * Replay recorded search-provider responses through the adapters, offline.
+ *
+ *   npm run search:fixture                                   # every provider, sample query
+ *   npm run search:fixture -- "steel pipes manufacturer supplier India" bing alibaba
+ *
+ * Reads fixtures/search/<provider>/<slug>.<ext> (see search-providers/http.ts
+ * for the naming) and prints the parsed SearchResults as JSON. Exits non-zero
+ * when a provider has no fixture for the query or parses nothing from it —
+ * usually a sign its selectors no longer match. To refresh a fixture, run
+ * discovery with SEARCH_FIXTURES_MODE=record and SEARCH_FIXTURES_DIR=fixtures/search.
+ */
+
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import type { SearchProvider, SearchResult } from "../src/services/search-provider.js";
+import { replayFetcher } from "../src/services/search-providers/http.js";
+import { BingSearchProvider } from "../src/services/search-providers/bing.provider.js";
+import { SerpApiProvider } from "../src/services/search-providers/serpapi.provider.js";
+import { DuckDuckGoHtmlProvider } from "../src/services/search-providers/duckduckgo.provider.js";
+import {
+  MARKETPLACE_DIRECTORIES,
+  MarketplaceDirectoryProvider,
+} from "../src/services/search-providers/marketplace.provider.js";
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const dir = path.join(here, "../fixtures/search");
+const fetcher = replayFetcher(dir);
+
+// API keys are never sent: the replay fetcher does not touch the network
+const providers: SearchProvider[] = [
+  new SerpApiProvider("replay", fetcher),
+  new BingSearchProvider("replay", fetcher),
+  new DuckDuckGoHtmlProvider(fetcher),
+  ...MARKETPLACE_DIRECTORIES.map((config) => new MarketplaceDirectoryProvider(config, fetcher)),
+];
+
+const [query = "steel pipes manufacturer supplier India", ...names] = process.argv.slice(2);
+const selected = names.length ? providers.filter((p) => names.includes(p.name)) : providers;
+
+async function main() {
+  let failed = false;
+  const output: Record<string, SearchResult[] | { error: string }> = {};
+
+  for (const provider of selected) {
+    try {
+      const results = await provider.search(query, 20);
+      output[provider.name] = results;
+      if (results.length === 0) {
+        failed = true;
+        console.error(`[Fixture] ${provider.name}: no results parsed`);
+      } else {
+        console.error(`[Fixture] ${provider.name}: ${results.length} results`);
+      }
+    } catch (err: unknown) {
+      failed = true;
+      const message = err instanceof Error ? err.message : String(err);
+      output[provider.name] = { error: message };
+      console.error(`[Fixture] ${provider.name}: ${message}`);
+    }
+  }
+
+  console.log(JSON.stringify(output, null, 2));
+  process.exitCode = failed ? 1 : 0;
+}
+
+void main();
@@ -12,6 +12,24 @@ import { quoteRouter } from "./routes/quote.routes.js";
 import { dashboardRouter } from "./routes/dashboard.routes.js";
 import { discoveryRouter } from "./routes/discovery.routes.js";
 import { outreachRouter } from "./routes/outreach.routes.js";
+import { currencyRouter } from "./routes/currency.routes.js";
+import { priceRouter } from "./routes/price.routes.js";
+import { templateRouter } from "./routes/template.routes.js";
+import { portalRouter } from "./routes/portal.routes.js";
+import { riskRouter } from "./routes/risk.routes.js";
+import { purchaseOrderRouter } from "./routes/purchase-order.routes.js";
+import { numberingRouter } from "./routes/numbering.routes.js";
+import { organizationRouter } from "./routes/organization.routes.js";
+import { startDiscoveryWorker } from "./services/discovery.service.js";
+import {
+  startDiscoveryScheduler,
+  stopDiscoveryScheduler,
+} from "./services/discovery-schedule.service.js";
+import { stopJobWorker } from "./services/job-runner.js";
+import {
+  startOutreachScheduler,
+  stopOutreachScheduler,
+} from "./services/outreach-sequence.service.js";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -33,6 +51,14 @@ app.use("/api/quotes", quoteRouter);
 app.use("/api/dashboard", dashboardRouter);
 app.use("/api/discovery", discoveryRouter);
 app.use("/api/outreach", outreachRouter);
+app.use("/api/currencies", currencyRouter);
+app.use("/api/prices", priceRouter);
+app.use("/api/templates", templateRouter);
+app.use("/api/portal", portalRouter);
+app.use("/api/risk", riskRouter);
+app.use("/api/purchase-orders", purchaseOrderRouter);
+app.use("/api/numbering", numberingRouter);
+app.use("/api/organization", organizationRouter);
 
 // ─── Error handling ──────────────────────────────────────────
 app.use(errorHandler);
@@ -40,6 +66,23 @@ app.use(errorHandler);
 // ─── Start ───────────────────────────────────────────────────
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
+
+  startDiscoveryWorker().catch((err) =>
+    console.error("❌ Failed to start discovery worker:", err),
+  );
+  startDiscoveryScheduler();
+  startOutreachScheduler();
 });
 
+// Hand running jobs back to the queue so a deploy doesn't lose them
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.once(signal, () => {
+    stopDiscoveryScheduler();
+    stopOutreachScheduler();
+    stopJobWorker()
+      .catch((err) => console.error("❌ Failed to stop job worker:", err))
+      .finally(() => process.exit(0));
+  });
+}
+
 export default app;
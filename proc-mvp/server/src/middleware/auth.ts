@@ -1,11 +1,20 @@
 import type { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { prisma } from "../lib/prisma.js";
 import { AppError } from "./error-handler.js";
 
-export interface AuthPayload {
+/** What the token carries: the user and the organisation they signed in to */
+export interface TokenPayload {
   userId: string;
   email: string;
+  organizationId: string;
+}
+
+export interface AuthPayload extends TokenPayload {
+  /** The user's role in that organisation */
   role: string;
+  /** May change the settings shared by all organisations */
+  platformAdmin: boolean;
 }
 
 declare global {
@@ -16,7 +25,11 @@ declare global {
   }
 }
 
-export function authenticate(req: Request, _res: Response, next: NextFunction) {
+/**
+ * Verifies the token and loads the caller's membership of the token's
+ * organisation, so role changes and removals apply without signing in again.
+ */
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header?.startsWith("Bearer ")) {
     throw new AppError(401, "Authentication required");
@@ -24,16 +37,30 @@ export function authenticate(req: Request, _res: Response, next: NextFunction) {
 
   const token = header.split(" ")[1];
 
+  let payload: TokenPayload;
   try {
-    const payload = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "dev-secret",
-    ) as AuthPayload;
-    req.user = payload;
-    next();
+    payload = jwt.verify(token, process.env.JWT_SECRET || "dev-secret") as TokenPayload;
   } catch {
     throw new AppError(401, "Invalid or expired token");
   }
+  if (!payload.organizationId) throw new AppError(401, "Invalid or expired token");
+
+  const membership = await prisma.membership.findUnique({
+    where: {
+      userId_organizationId: { userId: payload.userId, organizationId: payload.organizationId },
+    },
+    include: { user: { select: { platformAdmin: true } } },
+  });
+  if (!membership) throw new AppError(403, "You are no longer a member of this organisation");
+
+  req.user = {
+    userId: payload.userId,
+    email: payload.email,
+    organizationId: payload.organizationId,
+    role: membership.role,
+    platformAdmin: membership.user.platformAdmin,
+  };
+  next();
 }
 
 export function authorize(...roles: string[]) {
@@ -45,3 +72,23 @@ export function authorize(...roles: string[]) {
     next();
   };
 }
+
+/**
+ * Only platform admins may change the settings every organisation shares;
+ * an organisation's ADMIN role (which registration grants) is not enough.
+ */
+export function authorizePlatformAdmin(req: Request, _res: Response, next: NextFunction) {
+  if (!req.user) throw new AppError(401, "Authentication required");
+  if (!req.user.platformAdmin) throw new AppError(403, "Insufficient permissions");
+  next();
+}
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/** VIEWERs may look but not change anything; use after authenticate */
+export function readOnlyForViewers(req: Request, _res: Response, next: NextFunction) {
+  if (req.user?.role === "VIEWER" && !READ_METHODS.includes(req.method)) {
+    throw new AppError(403, "Viewers have read-only access");
+  }
+  next();
+}
@@ -1,15 +1,25 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { prisma } from "../lib/prisma.js";
 import { AppError } from "../middleware/error-handler.js";
-import { registerSchema, loginSchema } from "../schemas/auth.schema.js";
+import { registerSchema, loginSchema, switchOrganizationSchema } from "../schemas/auth.schema.js";
 import { authenticate } from "../middleware/auth.js";
-import type { AuthPayload } from "../middleware/auth.js";
+import type { TokenPayload } from "../middleware/auth.js";
+import {
+  acceptInvitation,
+  createOrganization,
+  declineInvitation,
+  listMembers,
+  listUserInvitations,
+  listUserMemberships,
+} from "../services/organization.service.js";
 
 export const authRouter = Router();
 
-// ─── Register ────────────────────────────────────────────────
+const USER_SELECT = { id: true, email: true, name: true, platformAdmin: true } as const;
+
+// ─── Register (creates the user's own organisation) ─────────
 authRouter.post("/register", async (req, res) => {
   const data = registerSchema.parse(req.body);
 
@@ -18,18 +28,26 @@ authRouter.post("/register", async (req, res) => {
 
   const hashedPassword = await bcrypt.hash(data.password, 12);
 
-  const user = await prisma.user.create({
-    data: {
-      email: data.email,
-      password: hashedPassword,
-      name: data.name,
-    },
-    select: { id: true, email: true, name: true, role: true },
+  const { user, organization } = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.create({
+      data: {
+        email: data.email,
+        password: hashedPassword,
+        name: data.name,
+      },
+      select: USER_SELECT,
+    });
+    const organization = await createOrganization(
+      data.organizationName ?? `${data.name}'s organisation`,
+      user.id,
+      tx,
+    );
+    return { user, organization };
   });
 
-  const token = signToken({ userId: user.id, email: user.email, role: user.role });
+  const token = signToken({ userId: user.id, email: user.email, organizationId: organization.id });
 
-  res.status(201).json({ user, token });
+  res.status(201).json({ user: await sessionUser(user, organization.id), token });
 });
 
 // ─── Login ───────────────────────────────────────────────────
@@ -42,26 +60,108 @@ authRouter.post("/login", async (req, res) => {
   const valid = await bcrypt.compare(data.password, user.password);
   if (!valid) throw new AppError(401, "Invalid credentials");
 
-  const token = signToken({ userId: user.id, email: user.email, role: user.role });
+  const memberships = await listUserMemberships(user.id);
+  const membership = data.organizationId
+    ? memberships.find((m) => m.organizationId === data.organizationId)
+    : memberships[0];
+  if (!membership) throw new AppError(403, "You are not a member of that organisation");
+
+  const token = signToken({
+    userId: user.id,
+    email: user.email,
+    organizationId: membership.organizationId,
+  });
 
   res.json({
-    user: { id: user.id, email: user.email, name: user.name, role: user.role },
+    user: await sessionUser(user, membership.organizationId),
     token,
   });
 });
 
+// ─── Switch organisation (a new token for another membership) ─
+authRouter.post("/switch-organization", authenticate, async (req, res) => {
+  const { organizationId } = switchOrganizationSchema.parse(req.body);
+
+  const membership = await prisma.membership.findUnique({
+    where: { userId_organizationId: { userId: req.user!.userId, organizationId } },
+  });
+  if (!membership) throw new AppError(403, "You are not a member of that organisation");
+
+  const token = signToken({ userId: req.user!.userId, email: req.user!.email, organizationId });
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: req.user!.userId },
+    select: USER_SELECT,
+  });
+  res.json({ user: await sessionUser(user, organizationId), token });
+});
+
 // ─── Me ──────────────────────────────────────────────────────
 authRouter.get("/me", authenticate, async (req, res) => {
   const user = await prisma.user.findUnique({
     where: { id: req.user!.userId },
-    select: { id: true, email: true, name: true, role: true },
+    select: USER_SELECT,
   });
   if (!user) throw new AppError(404, "User not found");
-  res.json(user);
+  res.json(await sessionUser(user, req.user!.organizationId));
+});
+
+// ─── Users (members of the caller's organisation) ───────────
+authRouter.get("/users", authenticate, async (req, res) => {
+  res.json(await listMembers(req.user!.organizationId));
+});
+
+// ─── Invitations (to the signed-in user's email) ─────────────
+authRouter.get("/invitations", authenticate, async (req, res) => {
+  res.json({ data: await listUserInvitations(req.user!.email) });
+});
+
+/** Join the inviting organisation; switch to it to work there */
+authRouter.post(
+  "/invitations/:id/accept",
+  authenticate,
+  async (req: Request<{ id: string }>, res) => {
+    try {
+      res.json(await acceptInvitation(req.params.id, req.user!));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+  },
+);
+
+authRouter.delete("/invitations/:id", authenticate, async (req: Request<{ id: string }>, res) => {
+  try {
+    await declineInvitation(req.params.id, req.user!.email);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+  res.status(204).send();
 });
 
 // ─── Helpers ─────────────────────────────────────────────────
-function signToken(payload: AuthPayload) {
+
+/** The user with their role in, and the list of, their organisations */
+async function sessionUser(
+  user: { id: string; email: string; name: string; platformAdmin: boolean },
+  organizationId: string,
+) {
+  const memberships = await listUserMemberships(user.id);
+  const current = memberships.find((m) => m.organizationId === organizationId);
+  if (!current) throw new AppError(403, "You are not a member of that organisation");
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    platformAdmin: user.platformAdmin,
+    role: current.role,
+    organization: current.organization,
+    organizations: memberships.map((m) => ({ ...m.organization, role: m.role })),
+  };
+}
+
+function signToken(payload: TokenPayload) {
   return jwt.sign(payload, process.env.JWT_SECRET || "dev-secret", {
     expiresIn: process.env.JWT_EXPIRES_IN || "7d",
   } as jwt.SignOptions);
@@ -0,0 +1,100 @@
+import express, { Router, type Request } from "express";
+import { prisma } from "../lib/prisma.js";
+import { authenticate, authorizePlatformAdmin, readOnlyForViewers } from "../middleware/auth.js";
+import { AppError } from "../middleware/error-handler.js";
+import {
+  setExchangeRateSchema,
+  importExchangeRatesSchema,
+  ratesQuerySchema,
+  convertQuerySchema,
+  currencyCodeField,
+} from "../schemas/currency.schema.js";
+import {
+  listLatestRates,
+  getRateHistory,
+  setExchangeRate,
+  deleteExchangeRate,
+  importExchangeRates,
+  loadRateTable,
+  normalizeAmount,
+} from "../services/currency.service.js";
+
+export const currencyRouter = Router();
+currencyRouter.use(authenticate, readOnlyForViewers);
+
+// ─── Rates ──────────────────────────────────────────────────
+
+/** GET /api/currencies/rates — latest rate per currency (optionally as of ?date=YYYY-MM-DD) */
+currencyRouter.get("/rates", async (req, res) => {
+  const { date } = ratesQuerySchema.parse(req.query);
+  const asOf = date ? new Date(`${date}T00:00:00Z`) : undefined;
+  res.json(await listLatestRates(asOf));
+});
+
+/** GET /api/currencies/rates/:currency/history — recent rates for one currency */
+currencyRouter.get("/rates/:currency/history", async (req, res) => {
+  const currency = currencyCodeField.parse(req.params.currency);
+  res.json(await getRateHistory(currency));
+});
+
+/** PUT /api/currencies/rates — set a rate by hand (platform admins only) */
+currencyRouter.put("/rates", authorizePlatformAdmin, async (req, res) => {
+  const input = setExchangeRateSchema.parse(req.body);
+  try {
+    const rate = await setExchangeRate(input);
+    res.json(rate);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/**
+ * POST /api/currencies/rates/import — import an ECB XML/CSV or simple CSV file (platform admins only).
+ * Accepts JSON { content, source? } or the raw file as text/csv, text/xml or text/plain.
+ */
+currencyRouter.post(
+  "/rates/import",
+  authorizePlatformAdmin,
+  express.text({ type: ["text/*", "application/xml"], limit: "10mb" }),
+  async (req, res) => {
+    const { content, source } = importExchangeRatesSchema.parse(
+      typeof req.body === "string"
+        ? { content: req.body, source: req.query.source }
+        : req.body,
+    );
+    try {
+      const summary = await importExchangeRates(content, source);
+      res.status(201).json(summary);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+  },
+);
+
+/** DELETE /api/currencies/rates/:id — remove a rate (platform admins only) */
+currencyRouter.delete(
+  "/rates/:id",
+  authorizePlatformAdmin,
+  async (req: Request<{ id: string }>, res) => {
+    const existing = await prisma.exchangeRate.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new AppError(404, "Exchange rate not found");
+
+    await deleteExchangeRate(req.params.id);
+    res.status(204).send();
+  },
+);
+
+// ─── Conversion ─────────────────────────────────────────────
+
+/** GET /api/currencies/convert — ?amount=&from=&to=[&date=] */
+currencyRouter.get("/convert", async (req, res) => {
+  const { amount, from, to, date } = convertQuerySchema.parse(req.query);
+  const table = await loadRateTable(date ? new Date(`${date}T00:00:00Z`) : undefined);
+  const result = normalizeAmount(table, amount, from, to);
+  if (result.normalizedAmount === null) {
+    throw new AppError(400, `No exchange rate for ${from} → ${to}`);
+  }
+  res.json(result);
+});
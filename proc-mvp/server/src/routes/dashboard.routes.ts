@@ -1,12 +1,20 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
-import { authenticate } from "../middleware/auth.js";
+import { authenticate, readOnlyForViewers } from "../middleware/auth.js";
+import {
+  loadRateTable,
+  convertAmount,
+  getReportingCurrency,
+} from "../services/currency.service.js";
 
 export const dashboardRouter = Router();
-dashboardRouter.use(authenticate);
+dashboardRouter.use(authenticate, readOnlyForViewers);
 
 // ─── Dashboard summary stats ────────────────────────────────
-dashboardRouter.get("/stats", async (_req, res) => {
+dashboardRouter.get("/stats", async (req, res) => {
+  const organizationId = req.user!.organizationId;
+  const inOrg = { rfq: { organizationId } };
+  const inOrgJobs = { job: { organizationId } };
   const oneWeekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
 
   const [
@@ -24,28 +32,53 @@ dashboardRouter.get("/stats", async (_req, res) => {
     discoveryResultsImported,
     discoveredThisWeek,
   ] = await Promise.all([
-    prisma.vendor.count(),
-    prisma.vendor.count({ where: { status: "ACTIVE" } }),
-    prisma.vendor.count({ where: { status: "DISCOVERED" } }),
-    prisma.vendor.count({ where: { status: "CONTACTED" } }),
-    prisma.rfq.count(),
+    prisma.vendor.count({ where: { organizationId } }),
+    prisma.vendor.count({ where: { organizationId, status: "ACTIVE" } }),
+    prisma.vendor.count({ where: { organizationId, status: "DISCOVERED" } }),
+    prisma.vendor.count({ where: { organizationId, status: "CONTACTED" } }),
+    prisma.rfq.count({ where: { organizationId } }),
     prisma.rfq.count({
-      where: { status: { in: ["SENT", "QUOTING", "NEGOTIATING", "COMPARING"] } },
+      where: {
+        organizationId,
+        status: { in: ["SENT", "QUOTING", "NEGOTIATING", "COMPARING"] },
+      },
     }),
-    prisma.rfq.count({ where: { status: "COMPLETED" } }),
-    prisma.quote.count(),
-    prisma.discoveryJob.count(),
-    prisma.discoveryJob.count({ where: { status: "RUNNING" } }),
-    prisma.discoveryResult.count(),
-    prisma.discoveryResult.count({ where: { imported: true } }),
+    prisma.rfq.count({ where: { organizationId, status: "COMPLETED" } }),
+    prisma.quote.count({ where: inOrg }),
+    prisma.discoveryJob.count({ where: { organizationId } }),
+    prisma.discoveryJob.count({ where: { organizationId, status: "RUNNING" } }),
+    prisma.discoveryResult.count({ where: inOrgJobs }),
+    prisma.discoveryResult.count({ where: { ...inOrgJobs, imported: true } }),
     prisma.discoveryResult.count({
-      where: { imported: true, createdAt: { gte: oneWeekAgo } },
+      where: { ...inOrgJobs, imported: true, createdAt: { gte: oneWeekAgo } },
     }),
   ]);
 
   // Average quotes per RFQ
   const avgQuotesPerRfq = totalRfqs > 0 ? Math.round((totalQuotes / totalRfqs) * 10) / 10 : 0;
 
+  // Quote value in the reporting currency (quotes in currencies without a rate are counted separately)
+  const [quoteValues, rates] = await Promise.all([
+    prisma.quote.findMany({
+      where: inOrg,
+      select: { totalPrice: true, currency: true, status: true },
+    }),
+    loadRateTable(),
+  ]);
+  const reportingCurrency = getReportingCurrency();
+  let quotedValue = 0;
+  let acceptedValue = 0;
+  const unconverted = new Set<string>();
+  for (const q of quoteValues) {
+    const value = convertAmount(rates, q.totalPrice, q.currency, reportingCurrency);
+    if (value === null) {
+      unconverted.add(q.currency);
+      continue;
+    }
+    quotedValue += value;
+    if (q.status === "ACCEPTED") acceptedValue += value;
+  }
+
   res.json({
     vendors: {
       total: totalVendors,
@@ -62,6 +95,12 @@ dashboardRouter.get("/stats", async (_req, res) => {
       total: totalQuotes,
       avgPerRfq: avgQuotesPerRfq,
     },
+    spend: {
+      currency: reportingCurrency,
+      quotedValue: Math.round(quotedValue * 100) / 100,
+      acceptedValue: Math.round(acceptedValue * 100) / 100,
+      unconvertedCurrencies: [...unconverted],
+    },
     discovery: {
       totalJobs: discoveryJobs,
       runningJobs: runningDiscoveryJobs,
@@ -73,8 +112,9 @@ dashboardRouter.get("/stats", async (_req, res) => {
 });
 
 // ─── Recent RFQs ────────────────────────────────────────────
-dashboardRouter.get("/recent-rfqs", async (_req, res) => {
+dashboardRouter.get("/recent-rfqs", async (req, res) => {
   const rfqs = await prisma.rfq.findMany({
+    where: { organizationId: req.user!.organizationId },
     include: {
       lineItems: true,
       _count: { select: { quotes: true } },
@@ -86,8 +126,9 @@ dashboardRouter.get("/recent-rfqs", async (_req, res) => {
 });
 
 // ─── Recent vendors ─────────────────────────────────────────
-dashboardRouter.get("/recent-vendors", async (_req, res) => {
+dashboardRouter.get("/recent-vendors", async (req, res) => {
   const vendors = await prisma.vendor.findMany({
+    where: { organizationId: req.user!.organizationId },
     include: {
       contacts: true,
       _count: { select: { quotes: true } },
@@ -1,71 +1,143 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
 import { prisma } from "../lib/prisma.js";
-import { authenticate } from "../middleware/auth.js";
+import { authenticate, authorize, readOnlyForViewers } from "../middleware/auth.js";
 import { AppError } from "../middleware/error-handler.js";
 import {
   createDiscoveryJobSchema,
   discoveryJobQuerySchema,
   batchImportSchema,
   skipResultSchema,
+  resultQuerySchema,
+  reviewResultSchema,
+  assignResultSchema,
+  bulkResultActionSchema,
+  createResultViewSchema,
+  createDiscoveryScheduleSchema,
+  updateDiscoveryScheduleSchema,
+  scoringWeightsSchema,
 } from "../schemas/discovery.schema.js";
 import {
   createDiscoveryJob,
   cancelDiscoveryJob,
   importDiscoveryResult,
+  crawlDiscoveryResult,
   skipDiscoveryResult,
   batchImportResults,
   getDiscoveryMode,
 } from "../services/discovery.service.js";
+import {
+  buildResultWhere,
+  reviewDiscoveryResult,
+  assignDiscoveryResult,
+  bulkUpdateResults,
+  getReviewSummary,
+  listResultViews,
+  createResultView,
+  deleteResultView,
+} from "../services/discovery-review.service.js";
 import { getProductsForJob } from "../services/product-discovery.service.js";
-import { isJobRunning, getActiveJobCount } from "../services/job-runner.js";
+import { getQueryRunsForJob } from "../services/discovery-trace.service.js";
+import {
+  getScoringWeights,
+  updateScoringWeights,
+  DEFAULT_SCORING_WEIGHTS,
+  SIGNAL_LABELS,
+} from "../services/confidence-scoring.service.js";
+import {
+  createDiscoverySchedule,
+  updateDiscoverySchedule,
+  deleteDiscoverySchedule,
+  runDiscoveryScheduleNow,
+} from "../services/discovery-schedule.service.js";
+import {
+  isJobRunning,
+  getActiveJobCount,
+  getWorkerId,
+} from "../services/job-runner.js";
+import { listSearchProviders } from "../services/search-provider.js";
 
 export const discoveryRouter = Router();
-discoveryRouter.use(authenticate);
+discoveryRouter.use(authenticate, readOnlyForViewers);
 
 // ─── System Status ──────────────────────────────────────────
 
 /** GET /api/discovery/status — overall discovery system info */
-discoveryRouter.get("/status", async (_req, res) => {
-  const [totalJobs, runningJobs, completedJobs, totalResults, importedResults] =
-    await Promise.all([
-      prisma.discoveryJob.count(),
-      prisma.discoveryJob.count({ where: { status: "RUNNING" } }),
-      prisma.discoveryJob.count({ where: { status: "COMPLETED" } }),
-      prisma.discoveryResult.count(),
-      prisma.discoveryResult.count({ where: { imported: true } }),
-    ]);
+discoveryRouter.get("/status", async (req, res) => {
+  const jobWhere = { organizationId: req.user!.organizationId };
+  const resultWhere = { job: jobWhere };
+  const [
+    totalJobs,
+    queuedJobs,
+    runningJobs,
+    completedJobs,
+    totalResults,
+    importedResults,
+  ] = await Promise.all([
+    prisma.discoveryJob.count({ where: jobWhere }),
+    prisma.discoveryJob.count({ where: { ...jobWhere, status: "PENDING" } }),
+    prisma.discoveryJob.count({ where: { ...jobWhere, status: "RUNNING" } }),
+    prisma.discoveryJob.count({ where: { ...jobWhere, status: "COMPLETED" } }),
+    prisma.discoveryResult.count({ where: resultWhere }),
+    prisma.discoveryResult.count({ where: { ...resultWhere, imported: true } }),
+  ]);
 
   const mode = getDiscoveryMode();
 
   res.json({
     mode,
     activeInMemory: getActiveJobCount(),
-    jobs: { total: totalJobs, running: runningJobs, completed: completedJobs },
+    worker: getWorkerId(),
+    jobs: {
+      total: totalJobs,
+      queued: queuedJobs,
+      running: runningJobs,
+      completed: completedJobs,
+    },
     results: { total: totalResults, imported: importedResults },
     capabilities: {
       openai: !!process.env.OPENAI_API_KEY,
       serpapi: !!process.env.SERP_API_KEY,
+      bing: !!process.env.BING_SEARCH_API_KEY,
     },
+    providers: listSearchProviders(),
   });
 });
 
+// ─── Confidence scoring ─────────────────────────────────────
+
+/** GET /api/discovery/scoring — current confidence signal weights */
+discoveryRouter.get("/scoring", async (req, res) => {
+  const weights = await getScoringWeights(req.user!.organizationId);
+  res.json({ weights, defaults: DEFAULT_SCORING_WEIGHTS, labels: SIGNAL_LABELS });
+});
+
+/** PUT /api/discovery/scoring — replace the signal weights (admin only; applies to new results) */
+discoveryRouter.put("/scoring", authorize("ADMIN"), async (req, res) => {
+  const weights = scoringWeightsSchema.parse(req.body);
+  const saved = await updateScoringWeights(req.user!.organizationId, weights, req.user?.userId);
+  res.json({ weights: saved });
+});
+
 // ─── Jobs ───────────────────────────────────────────────────
 
 /** POST /api/discovery/jobs — create and start a new discovery job */
 discoveryRouter.post("/jobs", async (req, res) => {
   const input = createDiscoveryJobSchema.parse(req.body);
-  const job = await createDiscoveryJob(input);
+  const job = await createDiscoveryJob(input, req.user!.organizationId);
   res.status(201).json(job);
 });
 
-/** GET /api/discovery/jobs — list all discovery jobs */
+/** GET /api/discovery/jobs — list the organisation's discovery jobs */
 discoveryRouter.get("/jobs", async (req, res) => {
   const query = discoveryJobQuerySchema.parse(req.query);
   const { page, limit, status } = query;
 
-  const where = status ? { status: status as any } : {};
+  const where = {
+    organizationId: req.user!.organizationId,
+    ...(status && { status: status as any }),
+  };
 
-  const [jobs, total] = await Promise.all([
+  const [jobs, total, activeJobCount] = await Promise.all([
     prisma.discoveryJob.findMany({
       where,
       include: {
@@ -76,11 +148,18 @@ discoveryRouter.get("/jobs", async (req, res) => {
       take: limit,
     }),
     prisma.discoveryJob.count({ where }),
+    prisma.discoveryJob.count({
+      where: {
+        organizationId: req.user!.organizationId,
+        status: "RUNNING",
+        leaseExpiresAt: { gt: new Date() },
+      },
+    }),
   ]);
 
   const enrichedJobs = jobs.map((job) => ({
     ...job,
-    isRunning: isJobRunning(job.id),
+    isRunning: isJobRunning(job),
   }));
 
   res.json({
@@ -91,16 +170,17 @@ discoveryRouter.get("/jobs", async (req, res) => {
       total,
       totalPages: Math.ceil(total / limit),
     },
-    activeJobCount: getActiveJobCount(),
+    activeJobCount,
   });
 });
 
 /** GET /api/discovery/jobs/:id — get job details with all results and products */
 discoveryRouter.get("/jobs/:id", async (req, res) => {
-  const job = await prisma.discoveryJob.findUnique({
-    where: { id: req.params.id },
+  const job = await prisma.discoveryJob.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
     include: {
       results: {
+        include: { assignedTo: { select: { id: true, name: true } } },
         orderBy: [
           { imported: "desc" },
           { skipped: "asc" },
@@ -118,25 +198,48 @@ discoveryRouter.get("/jobs/:id", async (req, res) => {
   const skipped = job.results.filter((r) => r.skipped);
 
   // Get products and alternatives for this job
-  const productsData = await getProductsForJob(job.id);
+  const [productsData, review] = await Promise.all([
+    getProductsForJob(job.id),
+    getReviewSummary(job.id),
+  ]);
 
   res.json({
     ...job,
-    isRunning: isJobRunning(job.id),
+    isRunning: isJobRunning(job),
     summary: {
       imported: imported.length,
       available: available.length,
       skipped: skipped.length,
+      review: review.status,
+      assignees: review.assignees,
     },
     products: productsData.products,
     productsByAlternatives: productsData.byCategory,
   });
 });
 
+/** GET /api/discovery/jobs/:id/runs — per-query trace (provider results, LLM prompt/response, timings) */
+discoveryRouter.get("/jobs/:id/runs", async (req, res) => {
+  const job = await prisma.discoveryJob.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+    select: { id: true },
+  });
+  if (!job) throw new AppError(404, "Discovery job not found");
+
+  const runs = await getQueryRunsForJob(job.id);
+  res.json({ data: runs });
+});
+
 /** POST /api/discovery/jobs/:id/cancel — cancel a running job */
 discoveryRouter.post("/jobs/:id/cancel", async (req, res) => {
+  const existing = await prisma.discoveryJob.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+    select: { id: true },
+  });
+  if (!existing) throw new AppError(404, "Discovery job not found");
+
   try {
-    const job = await cancelDiscoveryJob(req.params.id);
+    const job = await cancelDiscoveryJob(existing.id);
     res.json(job);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Unknown error";
@@ -146,24 +249,18 @@ discoveryRouter.post("/jobs/:id/cancel", async (req, res) => {
 
 // ─── Results ────────────────────────────────────────────────
 
-/** GET /api/discovery/results — list results across all jobs with filters */
+/** GET /api/discovery/results — list results across the organisation's jobs with filters */
 discoveryRouter.get("/results", async (req, res) => {
-  const page = Math.max(1, Number(req.query.page) || 1);
-  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
-  const jobId = req.query.jobId as string | undefined;
-  const imported = req.query.imported === "true" ? true : req.query.imported === "false" ? false : undefined;
-  const skipped = req.query.skipped === "true" ? true : req.query.skipped === "false" ? false : undefined;
-  const minConfidence = req.query.minConfidence ? Number(req.query.minConfidence) : undefined;
-
-  const where: any = {};
-  if (jobId) where.jobId = jobId;
+  const { page, limit, imported, skipped, ...filter } = resultQuerySchema.parse(req.query);
+
+  const where = buildResultWhere(filter, req.user!.organizationId);
   if (imported !== undefined) where.imported = imported;
   if (skipped !== undefined) where.skipped = skipped;
-  if (minConfidence !== undefined) where.confidence = { gte: minConfidence };
 
   const [results, total] = await Promise.all([
     prisma.discoveryResult.findMany({
       where,
+      include: { assignedTo: { select: { id: true, name: true } } },
       orderBy: { confidence: "desc" },
       skip: (page - 1) * limit,
       take: limit,
@@ -184,8 +281,11 @@ discoveryRouter.get("/results", async (req, res) => {
 
 /** POST /api/discovery/results/:id/import — import a result as a vendor */
 discoveryRouter.post("/results/:id/import", async (req, res) => {
+  const existing = await findResult(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery result not found");
+
   try {
-    const { vendor, result } = await importDiscoveryResult(req.params.id);
+    const { vendor, result } = await importDiscoveryResult(existing.id);
     res.status(201).json({ vendor, result });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Unknown error";
@@ -193,11 +293,28 @@ discoveryRouter.post("/results/:id/import", async (req, res) => {
   }
 });
 
+/** POST /api/discovery/results/:id/crawl — crawl the result's website for contacts, certifications and products */
+discoveryRouter.post("/results/:id/crawl", async (req, res) => {
+  const existing = await findResult(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery result not found");
+
+  try {
+    const result = await crawlDiscoveryResult(existing.id);
+    res.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
 /** POST /api/discovery/results/:id/skip — skip a result */
 discoveryRouter.post("/results/:id/skip", async (req, res) => {
   const { reason } = skipResultSchema.parse(req.body);
+  const existing = await findResult(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery result not found");
+
   try {
-    const result = await skipDiscoveryResult(req.params.id, reason);
+    const result = await skipDiscoveryResult(existing.id, reason);
     res.json(result);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Unknown error";
@@ -208,7 +325,16 @@ discoveryRouter.post("/results/:id/skip", async (req, res) => {
 /** POST /api/discovery/results/batch-import — import multiple results at once */
 discoveryRouter.post("/results/batch-import", async (req, res) => {
   const { resultIds } = batchImportSchema.parse(req.body);
-  const { imported, errors } = await batchImportResults(resultIds);
+  // Results of other organisations are treated as not found
+  const owned = await prisma.discoveryResult.findMany({
+    where: { id: { in: resultIds }, job: { organizationId: req.user!.organizationId } },
+    select: { id: true },
+  });
+  const ownedIds = new Set(owned.map((r) => r.id));
+  const { imported, errors } = await batchImportResults(resultIds.filter((id) => ownedIds.has(id)));
+  for (const resultId of resultIds.filter((id) => !ownedIds.has(id))) {
+    errors.push({ resultId, error: "Discovery result not found" });
+  }
 
   res.status(201).json({
     imported: imported.length,
@@ -217,3 +343,180 @@ discoveryRouter.post("/results/batch-import", async (req, res) => {
     errors,
   });
 });
+
+// ─── Review ─────────────────────────────────────────────────
+
+/** PATCH /api/discovery/results/:id/review — move a result to another review state */
+discoveryRouter.patch("/results/:id/review", async (req, res) => {
+  const input = reviewResultSchema.parse(req.body);
+  const existing = await findResult(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery result not found");
+
+  try {
+    const result = await reviewDiscoveryResult(existing.id, input, req.user!.userId);
+    res.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** PATCH /api/discovery/results/:id/assign — assign a result to a user (null to unassign) */
+discoveryRouter.patch("/results/:id/assign", async (req, res) => {
+  const { assignedToId } = assignResultSchema.parse(req.body);
+  const existing = await findResult(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery result not found");
+
+  try {
+    const result = await assignDiscoveryResult(
+      existing.id,
+      assignedToId,
+      req.user!.organizationId,
+    );
+    res.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/**
+ * POST /api/discovery/results/bulk — shortlist, skip, reject, reopen or assign many results,
+ * given by ID or by a filter within one job. Imported results are left unchanged.
+ */
+discoveryRouter.post("/results/bulk", async (req, res) => {
+  const input = bulkResultActionSchema.parse(req.body);
+  try {
+    res.json(await bulkUpdateResults(input, req.user!.organizationId, req.user!.userId));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** GET /api/discovery/views — the user's saved result filters plus shared ones */
+discoveryRouter.get("/views", async (req, res) => {
+  res.json(await listResultViews(req.user!.organizationId, req.user!.userId));
+});
+
+/** POST /api/discovery/views — save a result filter */
+discoveryRouter.post("/views", async (req, res) => {
+  const input = createResultViewSchema.parse(req.body);
+  const view = await createResultView(input, req.user!.organizationId, req.user!.userId);
+  res.status(201).json(view);
+});
+
+/** DELETE /api/discovery/views/:id — delete a saved view (creator or admin) */
+discoveryRouter.delete("/views/:id", async (req: Request<{ id: string }>, res) => {
+  const view = await prisma.discoveryResultView.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!view) throw new AppError(404, "View not found");
+  if (view.createdById !== req.user!.userId && req.user!.role !== "ADMIN") {
+    throw new AppError(403, "Only the creator can delete this view");
+  }
+
+  await deleteResultView(view.id);
+  res.status(204).send();
+});
+
+// ─── Schedules ──────────────────────────────────────────────
+
+/** GET /api/discovery/schedules — list recurring discovery schedules */
+discoveryRouter.get("/schedules", async (req, res) => {
+  const schedules = await prisma.discoverySchedule.findMany({
+    where: { organizationId: req.user!.organizationId },
+    include: { _count: { select: { jobs: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+  res.json(schedules);
+});
+
+/** GET /api/discovery/schedules/:id — schedule with its most recent runs */
+discoveryRouter.get("/schedules/:id", async (req, res) => {
+  const schedule = await prisma.discoverySchedule.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+    include: {
+      jobs: { orderBy: { createdAt: "desc" }, take: 20 },
+      _count: { select: { jobs: true } },
+    },
+  });
+  if (!schedule) throw new AppError(404, "Discovery schedule not found");
+  res.json(schedule);
+});
+
+/** POST /api/discovery/schedules — create a recurring schedule */
+discoveryRouter.post("/schedules", async (req, res) => {
+  const input = createDiscoveryScheduleSchema.parse(req.body);
+  try {
+    const schedule = await createDiscoverySchedule(
+      input,
+      req.user!.organizationId,
+      req.user!.userId,
+    );
+    res.status(201).json(schedule);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** PATCH /api/discovery/schedules/:id — update timing, targets or enable/disable */
+discoveryRouter.patch("/schedules/:id", async (req, res) => {
+  const input = updateDiscoveryScheduleSchema.parse(req.body);
+  const existing = await findSchedule(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery schedule not found");
+
+  try {
+    const schedule = await updateDiscoverySchedule(existing.id, input);
+    res.json(schedule);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** DELETE /api/discovery/schedules/:id — delete a schedule (its jobs are kept) */
+discoveryRouter.delete("/schedules/:id", async (req, res) => {
+  const existing = await findSchedule(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery schedule not found");
+
+  try {
+    await deleteDiscoverySchedule(existing.id);
+    res.status(204).send();
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(404, message);
+  }
+});
+
+/** POST /api/discovery/schedules/:id/run — spawn a run now, outside the cadence */
+discoveryRouter.post("/schedules/:id/run", async (req, res) => {
+  const existing = await findSchedule(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Discovery schedule not found");
+
+  try {
+    const job = await runDiscoveryScheduleNow(existing.id);
+    res.status(201).json(job);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+/** A result of one of the organisation's jobs */
+function findResult(id: string, organizationId: string) {
+  return prisma.discoveryResult.findFirst({
+    where: { id, job: { organizationId } },
+    select: { id: true },
+  });
+}
+
+function findSchedule(id: string, organizationId: string) {
+  return prisma.discoverySchedule.findFirst({
+    where: { id, organizationId },
+    select: { id: true },
+  });
+}
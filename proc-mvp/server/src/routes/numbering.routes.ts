@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { authenticate, authorizePlatformAdmin, readOnlyForViewers } from "../middleware/auth.js";
+import { AppError } from "../middleware/error-handler.js";
+import { documentNumberFormatSchema, documentTypeField } from "../schemas/numbering.schema.js";
+import { listNumberFormats, updateNumberFormat } from "../services/numbering.service.js";
+
+export const numberingRouter = Router();
+numberingRouter.use(authenticate, readOnlyForViewers);
+
+// ─── Document number formats ────────────────────────────────
+
+/** GET /api/numbering — each document type's format and the number it issues next */
+numberingRouter.get("/", async (_req, res) => {
+  res.json({ data: await listNumberFormats() });
+});
+
+/** PUT /api/numbering/:type — change a type's format (platform admins only); counters carry on */
+numberingRouter.put("/:type", authorizePlatformAdmin, async (req, res) => {
+  const type = documentTypeField.safeParse(req.params.type);
+  if (!type.success) throw new AppError(404, "Unknown document type");
+
+  const { format } = documentNumberFormatSchema.parse(req.body);
+  res.json(await updateNumberFormat(type.data, format, req.user?.userId));
+});
@@ -0,0 +1,108 @@
+import { Router, type Request } from "express";
+import { authenticate, authorize, readOnlyForViewers } from "../middleware/auth.js";
+import { AppError } from "../middleware/error-handler.js";
+import {
+  inviteMemberSchema,
+  updateMemberSchema,
+  updateOrganizationSchema,
+} from "../schemas/organization.schema.js";
+import {
+  getOrganization,
+  inviteMember,
+  listInvitations,
+  listMembers,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+  updateOrganization,
+} from "../services/organization.service.js";
+
+export const organizationRouter = Router();
+organizationRouter.use(authenticate, readOnlyForViewers);
+
+// ─── Caller's organisation ──────────────────────────────────
+
+/** GET /api/organization — name and sender identity of the caller's organisation */
+organizationRouter.get("/", async (req, res) => {
+  const organization = await getOrganization(req.user!.organizationId);
+  if (!organization) throw new AppError(404, "Organisation not found");
+  res.json(organization);
+});
+
+/** PATCH /api/organization — rename or change the sender identity (admin only) */
+organizationRouter.patch("/", authorize("ADMIN"), async (req, res) => {
+  const input = updateOrganizationSchema.parse(req.body);
+  res.json(await updateOrganization(req.user!.organizationId, input));
+});
+
+// ─── Members ────────────────────────────────────────────────
+
+/** GET /api/organization/members — members with their roles */
+organizationRouter.get("/members", async (req, res) => {
+  res.json({ data: await listMembers(req.user!.organizationId) });
+});
+
+/** PATCH /api/organization/members/:userId — change a member's role (admin only) */
+organizationRouter.patch(
+  "/members/:userId",
+  authorize("ADMIN"),
+  async (req: Request<{ userId: string }>, res) => {
+    const { role } = updateMemberSchema.parse(req.body);
+    try {
+      res.json(await updateMemberRole(req.user!.organizationId, req.params.userId, role));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+  },
+);
+
+/** DELETE /api/organization/members/:userId — remove a member (admin only) */
+organizationRouter.delete(
+  "/members/:userId",
+  authorize("ADMIN"),
+  async (req: Request<{ userId: string }>, res) => {
+    try {
+      await removeMember(req.user!.organizationId, req.params.userId);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+    res.status(204).send();
+  },
+);
+
+// ─── Invitations ────────────────────────────────────────────
+
+/** GET /api/organization/invitations — invitations not yet accepted */
+organizationRouter.get("/invitations", async (req, res) => {
+  res.json({ data: await listInvitations(req.user!.organizationId) });
+});
+
+/** POST /api/organization/invitations — invite someone by email (admin only); they join once they accept */
+organizationRouter.post("/invitations", authorize("ADMIN"), async (req, res) => {
+  const input = inviteMemberSchema.parse(req.body);
+  try {
+    res
+      .status(201)
+      .json(await inviteMember(req.user!.organizationId, input, req.user!.userId));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** DELETE /api/organization/invitations/:id — withdraw an invitation (admin only) */
+organizationRouter.delete(
+  "/invitations/:id",
+  authorize("ADMIN"),
+  async (req: Request<{ id: string }>, res) => {
+    try {
+      await revokeInvitation(req.user!.organizationId, req.params.id);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+    res.status(204).send();
+  },
+);
@@ -1,19 +1,119 @@
 /**
- * Outreach API — contact extraction, email, WhatsApp.
+ * Outreach API — contact extraction, email, WhatsApp, follow-up sequences.
  */
 
-import { Router } from "express";
-import { authenticate } from "../middleware/auth.js";
+import express, { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { authenticate, readOnlyForViewers } from "../middleware/auth.js";
 import { AppError } from "../middleware/error-handler.js";
+import {
+  createSequenceSchema,
+  updateSequenceSchema,
+  enrollSchema,
+  enrollmentQuerySchema,
+  stopEnrollmentSchema,
+  recordReplySchema,
+  inboundMessageQuerySchema,
+  whatsappReplySchema,
+  sendOutreachSchema,
+} from "../schemas/outreach.schema.js";
 import {
   extractContactsForResult,
   sendOutreach,
+  recordCommunicationReply,
 } from "../services/outreach.service.js";
-import { isEmailConfigured } from "../services/email.service.js";
+import {
+  listSequences,
+  getSequence,
+  createSequence,
+  updateSequence,
+  deleteSequence,
+  enrollInSequence,
+  listEnrollments,
+  pauseEnrollment,
+  resumeEnrollment,
+  stopEnrollment,
+  stopEnrollmentsOnReply,
+  DEFAULT_SEQUENCE_STEPS,
+} from "../services/outreach-sequence.service.js";
+import {
+  fromInboundParse,
+  ingestInboundEmail,
+  isValidInboundKey,
+} from "../services/inbound-email.service.js";
+import {
+  getWhatsAppWindow,
+  ingestInboundWhatsApp,
+  sendWhatsAppReply,
+  verifyTwilioSignature,
+} from "../services/inbound-whatsapp.service.js";
+import { parseMultipartForm } from "../services/mail-parser.service.js";
+import { isEmailConfigured, isInboundEmailConfigured } from "../services/email.service.js";
 import { isWhatsAppConfigured } from "../services/whatsapp.service.js";
 
 export const outreachRouter = Router();
-outreachRouter.use(authenticate);
+
+// ─── Inbound Email (webhook) ──────────────────────────────────
+
+/**
+ * POST /api/outreach/inbound — SendGrid Inbound Parse webhook.
+ * Registered before `authenticate`: the provider can't log in, so the URL
+ * carries INBOUND_EMAIL_SECRET as ?key=. Unmatched mail is stored and
+ * answered with 200 so the provider doesn't retry it.
+ */
+outreachRouter.post(
+  "/inbound",
+  express.raw({ type: "multipart/form-data", limit: "30mb" }),
+  express.urlencoded({ extended: false, limit: "30mb" }),
+  async (req, res) => {
+    if (!process.env.INBOUND_EMAIL_SECRET) {
+      throw new AppError(503, "Inbound email not configured");
+    }
+    if (!isValidInboundKey(req.query.key)) throw new AppError(401, "Invalid inbound key");
+
+    let fields: Record<string, string>;
+    try {
+      fields = Buffer.isBuffer(req.body)
+        ? parseMultipartForm(req.body, req.headers["content-type"] ?? "")
+        : ((req.body ?? {}) as Record<string, string>);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+
+    const email = fromInboundParse(fields);
+    if (!email.from) throw new AppError(400, "Sender address missing");
+
+    res.json(await ingestInboundEmail(email));
+  },
+);
+
+// ─── Inbound WhatsApp (webhook) ───────────────────────────────
+
+/**
+ * POST /api/outreach/whatsapp/inbound — Twilio incoming message webhook.
+ * Authenticated by X-Twilio-Signature; answers with empty TwiML.
+ */
+outreachRouter.post(
+  "/whatsapp/inbound",
+  express.urlencoded({ extended: false }),
+  async (req, res) => {
+    if (!process.env.TWILIO_AUTH_TOKEN) throw new AppError(503, "WhatsApp not configured");
+
+    const params = (req.body ?? {}) as Record<string, string>;
+    const url =
+      process.env.TWILIO_WEBHOOK_URL || `${req.protocol}://${req.get("host")}${req.originalUrl}`;
+    if (!verifyTwilioSignature(req.get("X-Twilio-Signature"), url, params)) {
+      throw new AppError(403, "Invalid Twilio signature");
+    }
+    if (!params.From) throw new AppError(400, "From is required");
+
+    await ingestInboundWhatsApp(params);
+    res.type("text/xml").send("<Response></Response>");
+  },
+);
+
+outreachRouter.use(authenticate, readOnlyForViewers);
 
 // ─── Status ────────────────────────────────────────────────────
 
@@ -21,6 +121,7 @@ outreachRouter.use(authenticate);
 outreachRouter.get("/status", (_req, res) => {
   res.json({
     email: isEmailConfigured(),
+    inboundEmail: isInboundEmailConfigured(),
     whatsapp: isWhatsAppConfigured(),
   });
 });
@@ -33,36 +134,30 @@ outreachRouter.post("/extract-contacts", async (req, res) => {
   if (!resultId || typeof resultId !== "string") {
     throw new AppError(400, "resultId required");
   }
-  const result = await extractContactsForResult({ resultId });
+  const existing = await prisma.discoveryResult.findFirst({
+    where: { id: resultId, job: { organizationId: req.user!.organizationId } },
+    select: { id: true },
+  });
+  if (!existing) throw new AppError(404, "Discovery result not found");
+
+  const result = await extractContactsForResult({ resultId: existing.id });
   res.json(result);
 });
 
 // ─── Send Outreach ──────────────────────────────────────────────
 
-/** POST /api/outreach/send — send email or WhatsApp */
+/** POST /api/outreach/send — send email or WhatsApp, optionally from a library template */
 outreachRouter.post("/send", async (req, res) => {
-  const schema = req.body as {
-    vendorId?: string;
-    resultId?: string;
-    channel?: string;
-    recipient?: string;
-    customMessage?: string;
-  };
-
-  if (!schema.vendorId && !schema.resultId) {
-    throw new AppError(400, "vendorId or resultId required");
-  }
-  if (!schema.channel || !["email", "whatsapp"].includes(schema.channel)) {
-    throw new AppError(400, "channel must be 'email' or 'whatsapp'");
-  }
+  const input = sendOutreachSchema.parse(req.body);
+  await assertInOrganization(input, req.user!.organizationId);
 
-  const result = await sendOutreach({
-    vendorId: schema.vendorId,
-    resultId: schema.resultId,
-    channel: schema.channel as "email" | "whatsapp",
-    recipient: schema.recipient,
-    customMessage: schema.customMessage,
-  });
+  let result;
+  try {
+    result = await sendOutreach({ ...input, userId: req.user!.userId });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
 
   if (!result.success) {
     throw new AppError(400, result.error ?? "Outreach failed");
@@ -70,3 +165,222 @@ outreachRouter.post("/send", async (req, res) => {
 
   res.json(result);
 });
+
+// ─── Replies ────────────────────────────────────────────────────
+
+/** POST /api/outreach/communications/:id/reply — record a vendor's reply (stops their sequences) */
+outreachRouter.post("/communications/:id/reply", async (req, res) => {
+  const { response, respondedAt } = recordReplySchema.parse(req.body);
+  const existing = await prisma.communication.findFirst({
+    where: { id: req.params.id, vendor: { organizationId: req.user!.organizationId } },
+    select: { id: true },
+  });
+  if (!existing) throw new AppError(404, "Communication not found");
+
+  const communication = await recordCommunicationReply(
+    existing.id,
+    response,
+    respondedAt ? new Date(respondedAt) : undefined,
+  );
+  const stoppedEnrollments = await stopEnrollmentsOnReply(
+    communication.vendorId,
+    communication.respondedAt!,
+  );
+  res.json({ communication, stoppedEnrollments });
+});
+
+/**
+ * GET /api/outreach/inbound-messages — received replies from the organisation's vendors,
+ * newest first. Unmatched messages can't be told apart by organisation and aren't listed.
+ */
+outreachRouter.get("/inbound-messages", async (req, res) => {
+  const query = inboundMessageQuerySchema.parse(req.query);
+  const messages = await prisma.inboundMessage.findMany({
+    where: {
+      vendor: { organizationId: req.user!.organizationId },
+      vendorId: query.vendorId,
+      communicationId: query.communicationId,
+      ...(query.unmatched === true ? { vendorId: null } : {}),
+    },
+    include: {
+      vendor: { select: { id: true, companyName: true } },
+      communication: { select: { id: true, type: true, subject: true, sentAt: true } },
+    },
+    orderBy: { receivedAt: "desc" },
+    take: query.limit,
+  });
+  res.json(messages);
+});
+
+/** GET /api/outreach/whatsapp/window/:vendorId — the vendor's 24-hour free-form window */
+outreachRouter.get("/whatsapp/window/:vendorId", async (req, res) => {
+  const vendor = await prisma.vendor.findFirst({
+    where: { id: req.params.vendorId, organizationId: req.user!.organizationId },
+    select: { id: true },
+  });
+  if (!vendor) throw new AppError(404, "Vendor not found");
+  res.json(await getWhatsAppWindow(vendor.id));
+});
+
+/** POST /api/outreach/whatsapp/reply/:vendorId — free-form reply while the window is open */
+outreachRouter.post("/whatsapp/reply/:vendorId", async (req, res) => {
+  const { body } = whatsappReplySchema.parse(req.body);
+  const vendor = await prisma.vendor.findFirst({
+    where: { id: req.params.vendorId, organizationId: req.user!.organizationId },
+    select: { id: true },
+  });
+  if (!vendor) throw new AppError(404, "Vendor not found");
+
+  try {
+    res.status(201).json(await sendWhatsAppReply(vendor.id, body));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Sequences ──────────────────────────────────────────────────
+
+/** GET /api/outreach/sequences — sequences with their steps and enrollment counts */
+outreachRouter.get("/sequences", async (req, res) => {
+  res.json({
+    data: await listSequences(req.user!.organizationId),
+    defaultSteps: DEFAULT_SEQUENCE_STEPS,
+  });
+});
+
+/** POST /api/outreach/sequences — create a sequence */
+outreachRouter.post("/sequences", async (req, res) => {
+  const input = createSequenceSchema.parse(req.body);
+  const sequence = await createSequence(input, req.user!.organizationId, req.user!.userId);
+  res.status(201).json(sequence);
+});
+
+/** PATCH /api/outreach/sequences/:id — rename, (de)activate or replace steps */
+outreachRouter.patch("/sequences/:id", async (req, res) => {
+  const input = updateSequenceSchema.parse(req.body);
+  const sequence = await getSequence(req.params.id, req.user!.organizationId);
+  if (!sequence) throw new AppError(404, "Outreach sequence not found");
+  try {
+    res.json(await updateSequence(sequence.id, input));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** DELETE /api/outreach/sequences/:id — delete a sequence without open enrollments */
+outreachRouter.delete("/sequences/:id", async (req, res) => {
+  const sequence = await getSequence(req.params.id, req.user!.organizationId);
+  if (!sequence) throw new AppError(404, "Outreach sequence not found");
+  try {
+    await deleteSequence(sequence.id);
+    res.status(204).send();
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** POST /api/outreach/sequences/:id/enroll — enroll vendors and/or discovery results */
+outreachRouter.post("/sequences/:id/enroll", async (req, res) => {
+  const input = enrollSchema.parse(req.body);
+  const sequence = await getSequence(req.params.id, req.user!.organizationId);
+  if (!sequence) throw new AppError(404, "Outreach sequence not found");
+  try {
+    const result = await enrollInSequence(
+      sequence.id,
+      input,
+      req.user!.organizationId,
+      req.user!.userId,
+    );
+    res.status(201).json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Enrollments ────────────────────────────────────────────────
+
+/** GET /api/outreach/enrollments — enrollments with progress, e.g. ?vendorId= */
+outreachRouter.get("/enrollments", async (req, res) => {
+  const query = enrollmentQuerySchema.parse(req.query);
+  res.json(await listEnrollments(query, req.user!.organizationId));
+});
+
+/** POST /api/outreach/enrollments/:id/pause — hold the remaining steps */
+outreachRouter.post("/enrollments/:id/pause", async (req, res) => {
+  const existing = await findEnrollment(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Enrollment not found");
+
+  try {
+    res.json(await pauseEnrollment(existing.id));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** POST /api/outreach/enrollments/:id/resume — continue, shifted by the pause */
+outreachRouter.post("/enrollments/:id/resume", async (req, res) => {
+  const existing = await findEnrollment(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Enrollment not found");
+
+  try {
+    res.json(await resumeEnrollment(existing.id));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** POST /api/outreach/enrollments/:id/stop — end the sequence for this vendor */
+outreachRouter.post("/enrollments/:id/stop", async (req, res) => {
+  const { reason } = stopEnrollmentSchema.parse(req.body ?? {});
+  const existing = await findEnrollment(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Enrollment not found");
+
+  try {
+    res.json(await stopEnrollment(existing.id, reason));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** 404 unless the vendor, discovery result and RFQ outreach refers to are the organisation's */
+async function assertInOrganization(
+  input: { vendorId?: string; resultId?: string; rfqId?: string },
+  organizationId: string,
+) {
+  const [vendor, result, rfq] = await Promise.all([
+    input.vendorId
+      ? prisma.vendor.findFirst({ where: { id: input.vendorId, organizationId }, select: { id: true } })
+      : true,
+    input.resultId
+      ? prisma.discoveryResult.findFirst({
+          where: { id: input.resultId, job: { organizationId } },
+          select: { id: true },
+        })
+      : true,
+    input.rfqId
+      ? prisma.rfq.findFirst({ where: { id: input.rfqId, organizationId }, select: { id: true } })
+      : true,
+  ]);
+  if (!vendor) throw new AppError(404, "Vendor not found");
+  if (!result) throw new AppError(404, "Discovery result not found");
+  if (!rfq) throw new AppError(404, "RFQ not found");
+}
+
+function findEnrollment(id: string, organizationId: string) {
+  return prisma.outreachEnrollment.findFirst({
+    where: {
+      id,
+      OR: [{ vendor: { organizationId } }, { result: { job: { organizationId } } }],
+    },
+    select: { id: true },
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Vendor Portal API — public, token-authenticated quote submission.
+ *
+ * Each vendor's token comes from their RFQ invitation email
+ * (rfq-dispatch.service.ts). Quotes are posted as multipart/form-data: a
+ * `data` field with the JSON quote and any number of `files` parts, or as
+ * plain JSON without attachments.
+ */
+
+import express, { Router } from "express";
+import { AppError } from "../middleware/error-handler.js";
+import { portalQuoteSchema } from "../schemas/portal.schema.js";
+import { parseMultipart } from "../services/mail-parser.service.js";
+import { openPortal, submitPortalQuote } from "../services/rfq-dispatch.service.js";
+import {
+  ATTACHMENT_MAX_BYTES,
+  ATTACHMENT_MAX_FILES,
+  type AttachmentUpload,
+} from "../services/quote.service.js";
+
+export const portalRouter = Router();
+
+/**
+ * The route is public, so the buffered body is capped at what a valid
+ * submission can need: the largest allowed attachments plus 1 MB for the
+ * quote JSON and multipart boundaries.
+ */
+const MAX_QUOTE_BODY_BYTES = ATTACHMENT_MAX_FILES * ATTACHMENT_MAX_BYTES + 1024 * 1024;
+
+/** GET /api/portal/:token — the RFQ as the vendor sees it */
+portalRouter.get("/:token", async (req, res) => {
+  const view = await openPortal(req.params.token);
+  if (!view) throw new AppError(404, "This link is not valid");
+  res.json(view);
+});
+
+/** POST /api/portal/:token/quote — submit or revise the vendor's quote */
+portalRouter.post(
+  "/:token/quote",
+  express.raw({ type: "multipart/form-data", limit: MAX_QUOTE_BODY_BYTES }),
+  async (req, res) => {
+    let body: unknown = req.body;
+    let files: AttachmentUpload[] = [];
+    if (Buffer.isBuffer(req.body)) {
+      try {
+        const form = parseMultipart(req.body, req.headers["content-type"] ?? "");
+        body = JSON.parse(form.fields.data ?? "{}");
+        files = form.files;
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        throw new AppError(400, `Invalid form data: ${message}`);
+      }
+    }
+    const input = portalQuoteSchema.parse(body);
+
+    let view;
+    try {
+      view = await submitPortalQuote(req.params.token, input, files);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+    if (!view) throw new AppError(404, "This link is not valid");
+    res.status(201).json(view);
+  },
+);
@@ -0,0 +1,45 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { authenticate, readOnlyForViewers } from "../middleware/auth.js";
+import {
+  benchmarkQuerySchema,
+  observationsQuerySchema,
+} from "../schemas/price.schema.js";
+import {
+  getPriceBenchmark,
+  listBenchmarkCategories,
+  categoryKey,
+} from "../services/price-benchmark.service.js";
+
+export const priceRouter = Router();
+priceRouter.use(authenticate, readOnlyForViewers);
+
+// ─── Benchmarks ─────────────────────────────────────────────
+
+/** GET /api/prices/benchmarks?category= — percentiles, trend and outliers for a category */
+priceRouter.get("/benchmarks", async (req, res) => {
+  const query = benchmarkQuerySchema.parse(req.query);
+  res.json(await getPriceBenchmark(query, req.user!.organizationId));
+});
+
+/** GET /api/prices/categories — categories with price observations */
+priceRouter.get("/categories", async (req, res) => {
+  res.json(await listBenchmarkCategories(req.user!.organizationId));
+});
+
+// ─── Observations ───────────────────────────────────────────
+
+/** GET /api/prices/observations?category= — raw observations, newest first */
+priceRouter.get("/observations", async (req, res) => {
+  const { category, source, limit } = observationsQuerySchema.parse(req.query);
+  const observations = await prisma.priceObservation.findMany({
+    where: {
+      organizationId: req.user!.organizationId,
+      categoryKey: categoryKey(category),
+      ...(source && { source }),
+    },
+    orderBy: { observedAt: "desc" },
+    take: limit,
+  });
+  res.json(observations);
+});
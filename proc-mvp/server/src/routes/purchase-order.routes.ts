@@ -0,0 +1,65 @@
+import { Router, type Request } from "express";
+import { authenticate, readOnlyForViewers } from "../middleware/auth.js";
+import { AppError } from "../middleware/error-handler.js";
+import {
+  purchaseOrderQuerySchema,
+  updatePurchaseOrderStatusSchema,
+} from "../schemas/purchase-order.schema.js";
+import {
+  listPurchaseOrders,
+  getPurchaseOrder,
+  purchaseOrderPdf,
+  sendPurchaseOrder,
+  updatePurchaseOrderStatus,
+} from "../services/purchase-order.service.js";
+
+export const purchaseOrderRouter = Router();
+purchaseOrderRouter.use(authenticate, readOnlyForViewers);
+
+/** GET /api/purchase-orders — paginated, filter by ?status=&rfqId=&vendorId= */
+purchaseOrderRouter.get("/", async (req, res) => {
+  const query = purchaseOrderQuerySchema.parse(req.query);
+  res.json(await listPurchaseOrders(query, req.user!.organizationId));
+});
+
+/** GET /api/purchase-orders/:id — a PO with its lines */
+purchaseOrderRouter.get("/:id", async (req: Request<{ id: string }>, res) => {
+  const po = await getPurchaseOrder(req.params.id, req.user!.organizationId);
+  if (!po) throw new AppError(404, "Purchase order not found");
+  res.json(po);
+});
+
+/** GET /api/purchase-orders/:id/pdf — the PO document */
+purchaseOrderRouter.get("/:id/pdf", async (req: Request<{ id: string }>, res) => {
+  const document = await purchaseOrderPdf(req.params.id, req.user!.organizationId);
+  if (!document) throw new AppError(404, "Purchase order not found");
+
+  res.type("application/pdf");
+  res.attachment(document.filename);
+  res.send(document.content);
+});
+
+/** POST /api/purchase-orders/:id/send — email the PO to the vendor again */
+purchaseOrderRouter.post("/:id/send", async (req: Request<{ id: string }>, res) => {
+  const existing = await getPurchaseOrder(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Purchase order not found");
+
+  const po = await sendPurchaseOrder(existing.id, req.user!.userId);
+  if (po?.emailError) throw new AppError(400, po.emailError);
+  res.json(po);
+});
+
+/** PATCH /api/purchase-orders/:id/status — acknowledged, shipped, received, closed */
+purchaseOrderRouter.patch("/:id/status", async (req: Request<{ id: string }>, res) => {
+  const { status } = updatePurchaseOrderStatusSchema.parse(req.body);
+  const existing = await getPurchaseOrder(req.params.id, req.user!.organizationId);
+  if (!existing) throw new AppError(404, "Purchase order not found");
+
+  try {
+    const po = await updatePurchaseOrderStatus(existing.id, status);
+    res.json(po);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
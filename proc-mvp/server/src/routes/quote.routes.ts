@@ -1,149 +1,208 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
-import { authenticate } from "../middleware/auth.js";
+import { authenticate, authorize, readOnlyForViewers } from "../middleware/auth.js";
 import { AppError } from "../middleware/error-handler.js";
 import {
   createQuoteSchema,
   updateQuoteStatusSchema,
+  comparisonProfileSchema,
+  counterOfferSchema,
+  vendorResponseSchema,
 } from "../schemas/quote.schema.js";
+import { createQuote, attachmentPath } from "../services/quote.service.js";
+import {
+  getDefaultProfile,
+  updateDefaultProfile,
+  compareRfqQuotes,
+  DEFAULT_COMPARISON_PROFILE,
+  CRITERION_LABELS,
+} from "../services/quote-scoring.service.js";
+import {
+  getNegotiation,
+  sendCounterOffer,
+  recordVendorResponse,
+} from "../services/negotiation.service.js";
+import { issuePurchaseOrder } from "../services/purchase-order.service.js";
 
 export const quoteRouter = Router();
-quoteRouter.use(authenticate);
+quoteRouter.use(authenticate, readOnlyForViewers);
 
 // ─── List quotes for an RFQ ─────────────────────────────────
 quoteRouter.get("/rfq/:rfqId", async (req, res) => {
   const quotes = await prisma.quote.findMany({
-    where: { rfqId: req.params.rfqId },
+    where: { rfqId: req.params.rfqId, rfq: { organizationId: req.user!.organizationId } },
     include: {
       vendor: {
         include: { contacts: true, certifications: true },
       },
+      lineItems: true,
+      attachments: { orderBy: { uploadedAt: "asc" } },
     },
     orderBy: { totalPrice: "asc" },
   });
   res.json(quotes);
 });
 
+// ─── Comparison profile (organisation default) ──────────────
+
+/** GET /api/quotes/comparison-profile — weights and constraints used for RFQs without their own */
+quoteRouter.get("/comparison-profile", async (req, res) => {
+  const profile = await getDefaultProfile(req.user!.organizationId);
+  res.json({ profile, defaults: DEFAULT_COMPARISON_PROFILE, labels: CRITERION_LABELS });
+});
+
+/** PUT /api/quotes/comparison-profile — replace the organisation default (admin only) */
+quoteRouter.put("/comparison-profile", authorize("ADMIN"), async (req, res) => {
+  const profile = comparisonProfileSchema.parse(req.body);
+  const saved = await updateDefaultProfile(req.user!.organizationId, profile, req.user?.userId);
+  res.json({ profile: saved });
+});
+
 // ─── Get single quote ───────────────────────────────────────
 quoteRouter.get("/:id", async (req, res) => {
-  const quote = await prisma.quote.findUnique({
-    where: { id: req.params.id },
+  const quote = await prisma.quote.findFirst({
+    where: { id: req.params.id, rfq: { organizationId: req.user!.organizationId } },
     include: {
       vendor: { include: { contacts: true, certifications: true } },
       rfq: { include: { lineItems: true } },
+      lineItems: true,
+      attachments: { orderBy: { uploadedAt: "asc" } },
     },
   });
   if (!quote) throw new AppError(404, "Quote not found");
   res.json(quote);
 });
 
+// ─── Download attachment ────────────────────────────────────
+quoteRouter.get("/:id/attachments/:attachmentId", async (req, res) => {
+  const attachment = await prisma.quoteAttachment.findFirst({
+    where: {
+      id: req.params.attachmentId,
+      quoteId: req.params.id,
+      quote: { rfq: { organizationId: req.user!.organizationId } },
+    },
+  });
+  if (!attachment) throw new AppError(404, "Attachment not found");
+
+  res.type(attachment.contentType);
+  res.download(attachmentPath(attachment.storagePath), attachment.filename);
+});
+
 // ─── Create quote ───────────────────────────────────────────
 quoteRouter.post("/", async (req, res) => {
   const data = createQuoteSchema.parse(req.body);
 
-  // Verify RFQ and vendor exist
+  // Verify RFQ and vendor exist in the caller's organisation
+  const organizationId = req.user!.organizationId;
   const [rfq, vendor] = await Promise.all([
-    prisma.rfq.findUnique({ where: { id: data.rfqId } }),
-    prisma.vendor.findUnique({ where: { id: data.vendorId } }),
+    prisma.rfq.findFirst({ where: { id: data.rfqId, organizationId } }),
+    prisma.vendor.findFirst({ where: { id: data.vendorId, organizationId } }),
   ]);
   if (!rfq) throw new AppError(404, "RFQ not found");
   if (!vendor) throw new AppError(404, "Vendor not found");
 
-  const quote = await prisma.quote.create({
-    data: {
-      ...data,
-      validUntil: data.validUntil ? new Date(data.validUntil) : undefined,
-    },
-    include: { vendor: true, rfq: true },
-  });
-
-  // Update RFQ status to QUOTING if still in SENT
-  if (rfq.status === "SENT") {
-    await prisma.rfq.update({
-      where: { id: rfq.id },
-      data: { status: "QUOTING" },
-    });
+  try {
+    const quote = await createQuote(data);
+    res.status(201).json(quote);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
   }
-
-  res.status(201).json(quote);
 });
 
 // ─── Update quote status ────────────────────────────────────
+// Accepting a quote issues and emails its purchase order
 quoteRouter.patch("/:id/status", async (req, res) => {
-  const { status } = updateQuoteStatusSchema.parse(req.body);
+  const { status, purchaseOrder } = updateQuoteStatusSchema.parse(req.body);
 
-  const existing = await prisma.quote.findUnique({ where: { id: req.params.id } });
+  const existing = await prisma.quote.findFirst({
+    where: { id: req.params.id, rfq: { organizationId: req.user!.organizationId } },
+    include: { purchaseOrder: { select: { poNumber: true } } },
+  });
   if (!existing) throw new AppError(404, "Quote not found");
 
-  const quote = await prisma.quote.update({
-    where: { id: req.params.id },
-    data: { status },
-    include: { vendor: true, rfq: true },
-  });
+  if (existing.purchaseOrder) {
+    if (status !== "ACCEPTED") {
+      throw new AppError(400, `Quote is on purchase order ${existing.purchaseOrder.poNumber}`);
+    }
+  } else if (status === "ACCEPTED") {
+    try {
+      await issuePurchaseOrder(existing.id, purchaseOrder ?? {}, req.user!.userId);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+  } else {
+    await prisma.quote.update({ where: { id: existing.id }, data: { status } });
+  }
 
+  const quote = await prisma.quote.findUnique({
+    where: { id: existing.id },
+    include: { vendor: true, rfq: true, purchaseOrder: true },
+  });
   res.json(quote);
 });
 
-// ─── Compare quotes for an RFQ ──────────────────────────────
-quoteRouter.get("/rfq/:rfqId/compare", async (req, res) => {
-  const rfq = await prisma.rfq.findUnique({
-    where: { id: req.params.rfqId },
-    include: { lineItems: true },
+// ─── Negotiation ────────────────────────────────────────────
+
+/** GET /api/quotes/:id/negotiation — rounds so far and a suggested counter price */
+quoteRouter.get("/:id/negotiation", async (req, res) => {
+  const existing = await prisma.quote.findFirst({
+    where: { id: req.params.id, rfq: { organizationId: req.user!.organizationId } },
   });
-  if (!rfq) throw new AppError(404, "RFQ not found");
+  if (!existing) throw new AppError(404, "Quote not found");
+  res.json(await getNegotiation(existing.id));
+});
 
-  const quotes = await prisma.quote.findMany({
-    where: { rfqId: req.params.rfqId },
-    include: {
-      vendor: { include: { certifications: true } },
-    },
-    orderBy: { totalPrice: "asc" },
+/** POST /api/quotes/:id/negotiation/rounds — send a counter-offer (or record one made by phone) */
+quoteRouter.post("/:id/negotiation/rounds", async (req, res) => {
+  const input = counterOfferSchema.parse(req.body);
+  const existing = await prisma.quote.findFirst({
+    where: { id: req.params.id, rfq: { organizationId: req.user!.organizationId } },
   });
+  if (!existing) throw new AppError(404, "Quote not found");
 
-  if (quotes.length === 0) {
-    return res.json({ rfq, quotes: [], comparison: null });
+  try {
+    const round = await sendCounterOffer(existing.id, input, {
+      userId: req.user!.userId,
+      role: req.user!.role,
+    });
+    res.status(201).json(round);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
   }
+});
 
-  // Build comparison matrix
-  const prices = quotes.map((q) => q.totalPrice);
-  const minPrice = Math.min(...prices);
-  const maxPrice = Math.max(...prices);
-  const leadTimes = quotes.map((q) => q.leadTimeDays);
-  const minLead = Math.min(...leadTimes);
-  const maxLead = Math.max(...leadTimes);
-
-  const comparison = quotes.map((q) => {
-    const priceScore =
-      maxPrice === minPrice ? 1 : (maxPrice - q.totalPrice) / (maxPrice - minPrice);
-    const leadScore =
-      maxLead === minLead ? 1 : (maxLead - q.leadTimeDays) / (maxLead - minLead);
-    const qualityScore = q.vendor.qualityScore / 10;
-    const reliabilityScore = q.vendor.reliabilityScore / 10;
-
-    const finalScore =
-      priceScore * 0.35 +
-      qualityScore * 0.25 +
-      leadScore * 0.15 +
-      reliabilityScore * 0.15 +
-      0.1; // placeholder payment terms score
-
-    return {
-      quoteId: q.id,
-      vendorId: q.vendorId,
-      vendorName: q.vendor.companyName,
-      country: q.vendor.country,
-      totalPrice: q.totalPrice,
-      unitPrice: q.unitPrice,
-      leadTimeDays: q.leadTimeDays,
-      qualityScore: q.vendor.qualityScore,
-      reliabilityScore: q.vendor.reliabilityScore,
-      certifications: q.vendor.certifications.map((c) => c.name),
-      paymentTerms: q.paymentTerms,
-      finalScore: Math.round(finalScore * 1000) / 10, // 0–100
-    };
+/** POST /api/quotes/:id/negotiation/rounds/:roundId/response — record how the vendor answered */
+quoteRouter.post("/:id/negotiation/rounds/:roundId/response", async (req, res) => {
+  const input = vendorResponseSchema.parse(req.body);
+  const round = await prisma.negotiationRound.findFirst({
+    where: {
+      id: req.params.roundId,
+      quoteId: req.params.id,
+      quote: { rfq: { organizationId: req.user!.organizationId } },
+    },
   });
+  if (!round) throw new AppError(404, "Negotiation round not found");
 
-  comparison.sort((a, b) => b.finalScore - a.finalScore);
+  try {
+    res.json(await recordVendorResponse(round.quoteId, round.id, input));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Compare quotes for an RFQ ──────────────────────────────
+quoteRouter.get("/rfq/:rfqId/compare", async (req, res) => {
+  const rfq = await prisma.rfq.findFirst({
+    where: { id: req.params.rfqId, organizationId: req.user!.organizationId },
+    select: { id: true },
+  });
+  if (!rfq) throw new AppError(404, "RFQ not found");
 
-  res.json({ rfq, quotes, comparison });
+  const result = await compareRfqQuotes(rfq.id);
+  if (!result) throw new AppError(404, "RFQ not found");
+  res.json(result);
 });
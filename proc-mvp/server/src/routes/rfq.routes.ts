@@ -1,12 +1,48 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
-import { authenticate } from "../middleware/auth.js";
+import { authenticate, authorize, readOnlyForViewers } from "../middleware/auth.js";
+import type { AuthPayload } from "../middleware/auth.js";
 import { AppError } from "../middleware/error-handler.js";
-import { createRfqSchema, rfqQuerySchema } from "../schemas/rfq.schema.js";
-import type { Prisma } from "@prisma/client";
+import {
+  createRfqSchema,
+  updateRfqSchema,
+  changeRfqStatusSchema,
+  rfqQuerySchema,
+  dispatchRfqSchema,
+  approvalPolicySchema,
+  approvalCommentSchema,
+  rejectRfqSchema,
+} from "../schemas/rfq.schema.js";
+import { comparisonProfileSchema } from "../schemas/quote.schema.js";
+import { dispatchRfq, listInvitations } from "../services/rfq-dispatch.service.js";
+import {
+  getComparisonProfile,
+  setRfqProfile,
+  deleteRfqProfile,
+} from "../services/quote-scoring.service.js";
+import {
+  approveRfq,
+  assertStatusChangeAllowed,
+  canApprove,
+  defaultApprovalPolicy,
+  getApprovalPolicy,
+  getRfqApproval,
+  rejectRfq,
+  revokeApprovalIfChanged,
+  submitForApproval,
+  updateApprovalPolicy,
+} from "../services/rfq-approval.service.js";
+import {
+  assertLineItemsEditable,
+  assertManualTransition,
+  listStatusEvents,
+  transitionRfq,
+} from "../services/rfq-lifecycle.service.js";
+import { nextDocumentNumber } from "../services/numbering.service.js";
+import type { Prisma, Rfq } from "@prisma/client";
 
 export const rfqRouter = Router();
-rfqRouter.use(authenticate);
+rfqRouter.use(authenticate, readOnlyForViewers);
 
 // ─── List RFQs ───────────────────────────────────────────────
 rfqRouter.get("/", async (req, res) => {
@@ -14,6 +50,7 @@ rfqRouter.get("/", async (req, res) => {
   const { page, limit, status, priority, sortBy, sortOrder } = query;
 
   const where: Prisma.RfqWhereInput = {
+    organizationId: req.user!.organizationId,
     ...(status && { status }),
     ...(priority && { priority }),
   };
@@ -44,17 +81,48 @@ rfqRouter.get("/", async (req, res) => {
   });
 });
 
+// ─── Approval policy ────────────────────────────────────────
+
+/** GET /api/rfqs/approval-policy — budget threshold and approvers */
+rfqRouter.get("/approval-policy", async (req, res) => {
+  res.json({
+    policy: await getApprovalPolicy(req.user!.organizationId),
+    defaults: defaultApprovalPolicy(),
+  });
+});
+
+/** PUT /api/rfqs/approval-policy — replace the policy (admin only; applies to RFQs not yet submitted) */
+rfqRouter.put("/approval-policy", authorize("ADMIN"), async (req, res) => {
+  const policy = approvalPolicySchema.parse(req.body);
+  try {
+    res.json({ policy: await updateApprovalPolicy(req.user!.organizationId, policy, req.user?.userId) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
 // ─── Get single RFQ ─────────────────────────────────────────
 rfqRouter.get("/:id", async (req, res) => {
-  const rfq = await prisma.rfq.findUnique({
-    where: { id: req.params.id },
+  const rfq = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
     include: {
       requestedBy: { select: { id: true, name: true, email: true } },
       lineItems: true,
       quotes: {
-        include: { vendor: { include: { contacts: true, certifications: true } } },
+        include: {
+          vendor: { include: { contacts: true, certifications: true } },
+          lineItems: true,
+        },
         orderBy: { totalPrice: "asc" },
       },
+      purchaseOrders: {
+        include: {
+          vendor: { select: { id: true, companyName: true } },
+          lineItems: { orderBy: { position: "asc" } },
+        },
+        orderBy: { issuedAt: "asc" },
+      },
     },
   });
   if (!rfq) throw new AppError(404, "RFQ not found");
@@ -66,46 +134,79 @@ rfqRouter.post("/", async (req, res) => {
   const data = createRfqSchema.parse(req.body);
   const { lineItems, ...rfqData } = data;
 
-  // Generate sequential RFQ number
-  const count = await prisma.rfq.count();
-  const rfqNumber = `RFQ-${new Date().getFullYear()}-${String(count + 1).padStart(4, "0")}`;
-
-  const rfq = await prisma.rfq.create({
-    data: {
-      ...rfqData,
-      rfqNumber,
-      requiredDeliveryDate: rfqData.requiredDeliveryDate
-        ? new Date(rfqData.requiredDeliveryDate)
-        : undefined,
-      requestedById: req.user!.userId,
-      lineItems: {
-        createMany: {
-          data: lineItems.map((li) => ({
-            ...li,
-            specifications: li.specifications
-              ? (li.specifications as Record<string, string>)
-              : undefined,
-          })),
+  // Numbered in the same transaction, so a failed create doesn't use a number up
+  const rfq = await prisma.$transaction(async (tx) =>
+    tx.rfq.create({
+      data: {
+        ...rfqData,
+        organizationId: req.user!.organizationId,
+        rfqNumber: await nextDocumentNumber(tx, "RFQ"),
+        requiredDeliveryDate: rfqData.requiredDeliveryDate
+          ? new Date(rfqData.requiredDeliveryDate)
+          : undefined,
+        requestedById: req.user!.userId,
+        statusEvents: { create: { toStatus: "DRAFT", actorId: req.user!.userId } },
+        lineItems: {
+          createMany: {
+            data: lineItems.map((li) => ({
+              ...li,
+              specifications: li.specifications
+                ? (li.specifications as Record<string, string>)
+                : undefined,
+            })),
+          },
         },
       },
-    },
-    include: {
-      requestedBy: { select: { id: true, name: true, email: true } },
-      lineItems: true,
-    },
-  });
+      include: {
+        requestedBy: { select: { id: true, name: true, email: true } },
+        lineItems: true,
+      },
+    }),
+  );
 
   res.status(201).json(rfq);
 });
 
-// ─── Update RFQ status ──────────────────────────────────────
+// ─── Update RFQ ─────────────────────────────────────────────
 rfqRouter.patch("/:id", async (req, res) => {
-  const existing = await prisma.rfq.findUnique({ where: { id: req.params.id } });
+  const { lineItems, requiredDeliveryDate, ...fields } = updateRfqSchema.parse(req.body);
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
   if (!existing) throw new AppError(404, "RFQ not found");
+  assertCanEdit(existing, req.user!);
+
+  if (lineItems) {
+    try {
+      await assertLineItemsEditable(existing);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      throw new AppError(400, message);
+    }
+  }
+  await revokeApprovalIfChanged(existing, { ...fields, lineItems }, req.user!.userId);
 
   const rfq = await prisma.rfq.update({
-    where: { id: req.params.id },
-    data: req.body,
+    where: { id: existing.id },
+    data: {
+      ...fields,
+      ...(requiredDeliveryDate !== undefined && {
+        requiredDeliveryDate: requiredDeliveryDate ? new Date(requiredDeliveryDate) : null,
+      }),
+      ...(lineItems && {
+        lineItems: {
+          deleteMany: {},
+          createMany: {
+            data: lineItems.map((li) => ({
+              ...li,
+              specifications: li.specifications
+                ? (li.specifications as Record<string, string>)
+                : undefined,
+            })),
+          },
+        },
+      }),
+    },
     include: {
       requestedBy: { select: { id: true, name: true, email: true } },
       lineItems: true,
@@ -116,11 +217,195 @@ rfqRouter.patch("/:id", async (req, res) => {
   res.json(rfq);
 });
 
+// ─── Status ─────────────────────────────────────────────────
+
+/** GET /api/rfqs/:id/status-events — every status change, who made it and why */
+rfqRouter.get("/:id/status-events", async (req, res) => {
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  res.json({ data: await listStatusEvents(existing.id) });
+});
+
+/** POST /api/rfqs/:id/status — move the RFQ along its lifecycle; cancelling notifies invited vendors */
+rfqRouter.post("/:id/status", async (req, res) => {
+  const { status, reason } = changeRfqStatusSchema.parse(req.body);
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  assertCanEdit(existing, req.user!);
+
+  try {
+    assertManualTransition(existing, status);
+    await assertStatusChangeAllowed(existing, { ...existing, status });
+    res.json(await transitionRfq(existing, status, { actorId: req.user!.userId, reason }));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Approval ───────────────────────────────────────────────
+
+/** GET /api/rfqs/:id/approval — whether approval is needed, why, and its history */
+rfqRouter.get("/:id/approval", async (req, res) => {
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  res.json(await getRfqApproval(existing.id, req.user!));
+});
+
+/** POST /api/rfqs/:id/submit — ask for approval (DRAFT → PENDING_APPROVAL) */
+rfqRouter.post("/:id/submit", async (req, res) => {
+  const { comment } = approvalCommentSchema.parse(req.body);
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  assertCanEdit(existing, req.user!);
+
+  try {
+    res.json(await submitForApproval(existing.id, req.user!.userId, comment));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** POST /api/rfqs/:id/approve — PENDING_APPROVAL → APPROVED (admins and designated approvers, not the requester) */
+rfqRouter.post("/:id/approve", async (req, res) => {
+  const { comment } = approvalCommentSchema.parse(req.body);
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  if (existing.requestedById === req.user!.userId) {
+    throw new AppError(403, "Another approver must approve an RFQ you requested");
+  }
+  if (!canApprove(req.user!, await getApprovalPolicy(existing.organizationId), existing)) {
+    throw new AppError(403, "Only approvers can approve RFQs");
+  }
+
+  try {
+    res.json(await approveRfq(existing.id, req.user!.userId, comment));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** POST /api/rfqs/:id/reject — back to DRAFT with the reason (admins and designated approvers, not the requester) */
+rfqRouter.post("/:id/reject", async (req, res) => {
+  const { comment } = rejectRfqSchema.parse(req.body);
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  if (existing.requestedById === req.user!.userId) {
+    throw new AppError(403, "Another approver must reject an RFQ you requested");
+  }
+  if (!canApprove(req.user!, await getApprovalPolicy(existing.organizationId), existing)) {
+    throw new AppError(403, "Only approvers can reject RFQs");
+  }
+
+  try {
+    res.json(await rejectRfq(existing.id, req.user!.userId, comment));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Send to vendors ────────────────────────────────────────
+
+/** POST /api/rfqs/:id/dispatch — email vendors their quote portal links and mark the RFQ SENT */
+rfqRouter.post("/:id/dispatch", async (req, res) => {
+  const input = dispatchRfqSchema.parse(req.body);
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+
+  try {
+    res.json(await dispatchRfq(existing.id, input, req.user!.userId));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** GET /api/rfqs/:id/invitations — vendors the RFQ was sent to, with portal progress */
+rfqRouter.get("/:id/invitations", async (req, res) => {
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  res.json(await listInvitations(existing.id));
+});
+
+// ─── Comparison profile ─────────────────────────────────────
+
+/** GET /api/rfqs/:id/comparison-profile — weights and constraints used to rank this RFQ's quotes */
+rfqRouter.get("/:id/comparison-profile", async (req, res) => {
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+  res.json(await getComparisonProfile(existing));
+});
+
+/** PUT /api/rfqs/:id/comparison-profile — give this RFQ its own profile */
+rfqRouter.put("/:id/comparison-profile", async (req, res) => {
+  const profile = comparisonProfileSchema.parse(req.body);
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+
+  const saved = await setRfqProfile(existing.id, profile, req.user?.userId);
+  res.json({ profile: saved, source: "rfq" });
+});
+
+/** DELETE /api/rfqs/:id/comparison-profile — go back to the organisation default */
+rfqRouter.delete("/:id/comparison-profile", async (req, res) => {
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "RFQ not found");
+
+  await deleteRfqProfile(existing.id);
+  res.status(204).send();
+});
+
 // ─── Delete RFQ ─────────────────────────────────────────────
+
+/**
+ * DELETE /api/rfqs/:id — drafts only. An RFQ that has gone further may have
+ * vendors, quotes or purchase orders behind it, so it is cancelled instead
+ * (POST /:id/status), which records the move and notifies invited vendors.
+ */
 rfqRouter.delete("/:id", async (req, res) => {
-  const existing = await prisma.rfq.findUnique({ where: { id: req.params.id } });
+  const existing = await prisma.rfq.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
   if (!existing) throw new AppError(404, "RFQ not found");
+  assertCanEdit(existing, req.user!);
+  if (existing.status !== "DRAFT") {
+    throw new AppError(400, `A ${existing.status} RFQ cannot be deleted; cancel it instead`);
+  }
 
-  await prisma.rfq.delete({ where: { id: req.params.id } });
+  await prisma.rfq.delete({ where: { id: existing.id } });
   res.status(204).send();
 });
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+/** Only the requester or an ADMIN may change an RFQ itself */
+function assertCanEdit(rfq: Rfq, user: AuthPayload) {
+  if (user.role !== "ADMIN" && rfq.requestedById !== user.userId) {
+    throw new AppError(403, "Only the requester or an admin can change this RFQ");
+  }
+}
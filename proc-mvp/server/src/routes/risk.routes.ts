@@ -0,0 +1,45 @@
+import { Router, type Request } from "express";
+import { prisma } from "../lib/prisma.js";
+import { authenticate, authorizePlatformAdmin, readOnlyForViewers } from "../middleware/auth.js";
+import { AppError } from "../middleware/error-handler.js";
+import { setCountryRiskSchema } from "../schemas/risk.schema.js";
+import {
+  listCountryRisks,
+  setCountryRisk,
+  deleteCountryRisk,
+} from "../services/supplier-risk.service.js";
+
+export const riskRouter = Router();
+riskRouter.use(authenticate, readOnlyForViewers);
+
+// ─── Country risk ───────────────────────────────────────────
+
+/** GET /api/risk/countries — the country risk table */
+riskRouter.get("/countries", async (_req, res) => {
+  res.json(await listCountryRisks());
+});
+
+/** PUT /api/risk/countries — add or update a country's score (platform admins only) */
+riskRouter.put("/countries", authorizePlatformAdmin, async (req, res) => {
+  const input = setCountryRiskSchema.parse(req.body);
+  try {
+    const row = await setCountryRisk(input, req.user!.userId);
+    res.json(row);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+/** DELETE /api/risk/countries/:id — remove a country (platform admins only) */
+riskRouter.delete(
+  "/countries/:id",
+  authorizePlatformAdmin,
+  async (req: Request<{ id: string }>, res) => {
+    const existing = await prisma.countryRisk.findUnique({ where: { id: req.params.id } });
+    if (!existing) throw new AppError(404, "Country not found");
+
+    await deleteCountryRisk(req.params.id);
+    res.status(204).send();
+  },
+);
@@ -0,0 +1,117 @@
+/**
+ * Message Templates API — the organisation's outreach template library.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { authenticate, readOnlyForViewers } from "../middleware/auth.js";
+import { AppError } from "../middleware/error-handler.js";
+import {
+  createTemplateSchema,
+  updateTemplateSchema,
+  templateQuerySchema,
+  previewTemplateSchema,
+  previewDraftSchema,
+} from "../schemas/template.schema.js";
+import {
+  TEMPLATE_VARIABLES,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  restoreTemplateVersion,
+  deleteTemplate,
+  previewTemplate,
+  previewDraft,
+} from "../services/message-template.service.js";
+import { OUTREACH_TEMPLATES } from "../services/outreach.service.js";
+
+export const templateRouter = Router();
+templateRouter.use(authenticate, readOnlyForViewers);
+
+/** Run a service call, turning its errors into 400s */
+async function badRequestOnError<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+}
+
+// ─── Library ────────────────────────────────────────────────
+
+/** GET /api/templates — templates with their current subject and body */
+templateRouter.get("/", async (req, res) => {
+  const query = templateQuerySchema.parse(req.query);
+  res.json(await listTemplates(query, req.user!.organizationId));
+});
+
+/** GET /api/templates/variables — variables templates may use, and the built-in keys */
+templateRouter.get("/variables", (_req, res) => {
+  res.json({ variables: TEMPLATE_VARIABLES, builtInKeys: OUTREACH_TEMPLATES });
+});
+
+/** POST /api/templates/preview — render unsaved template text */
+templateRouter.post("/preview", async (req, res) => {
+  const input = previewDraftSchema.parse(req.body);
+  res.json(
+    await badRequestOnError(() => previewDraft(input, req.user!.organizationId, req.user!.userId)),
+  );
+});
+
+/** GET /api/templates/:id — template with all versions */
+templateRouter.get("/:id", async (req, res) => {
+  const template = await getTemplate(req.params.id, req.user!.organizationId);
+  if (!template) throw new AppError(404, "Template not found");
+  res.json(template);
+});
+
+/** POST /api/templates — create a template (version 1) */
+templateRouter.post("/", async (req, res) => {
+  const input = createTemplateSchema.parse(req.body);
+  const template = await badRequestOnError(() =>
+    createTemplate(input, req.user!.organizationId, req.user!.userId),
+  );
+  res.status(201).json(template);
+});
+
+/** PATCH /api/templates/:id — edit; a new subject or body adds a version */
+templateRouter.patch("/:id", async (req, res) => {
+  const input = updateTemplateSchema.parse(req.body);
+  const template = await getTemplate(req.params.id, req.user!.organizationId);
+  if (!template) throw new AppError(404, "Template not found");
+  res.json(await badRequestOnError(() => updateTemplate(template.id, input, req.user!.userId)));
+});
+
+/** POST /api/templates/:id/versions/:version/restore — make an old version current */
+templateRouter.post("/:id/versions/:version/restore", async (req, res) => {
+  const version = z.coerce.number().int().positive().parse(req.params.version);
+  const template = await getTemplate(req.params.id, req.user!.organizationId);
+  if (!template) throw new AppError(404, "Template not found");
+  res.json(
+    await badRequestOnError(() => restoreTemplateVersion(template.id, version, req.user!.userId)),
+  );
+});
+
+/** DELETE /api/templates/:id */
+templateRouter.delete("/:id", async (req, res) => {
+  const template = await getTemplate(req.params.id, req.user!.organizationId);
+  if (!template) throw new AppError(404, "Template not found");
+  await badRequestOnError(() => deleteTemplate(template.id, OUTREACH_TEMPLATES));
+  res.status(204).send();
+});
+
+// ─── Preview ────────────────────────────────────────────────
+
+/** POST /api/templates/:id/preview — render against a vendor or discovery result (and RFQ) */
+templateRouter.post("/:id/preview", async (req, res) => {
+  const input = previewTemplateSchema.parse(req.body);
+  const template = await getTemplate(req.params.id, req.user!.organizationId);
+  if (!template) throw new AppError(404, "Template not found");
+  res.json(
+    await badRequestOnError(() =>
+      previewTemplate(template.id, input, req.user!.organizationId, req.user!.userId),
+    ),
+  );
+});
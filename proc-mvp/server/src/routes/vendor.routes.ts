@@ -1,15 +1,31 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
-import { authenticate } from "../middleware/auth.js";
+import { authenticate, authorize, readOnlyForViewers } from "../middleware/auth.js";
 import { AppError } from "../middleware/error-handler.js";
 import {
   createVendorSchema,
+  updateVendorSchema,
   vendorQuerySchema,
+  mergeVendorSchema,
+  deliveryEventSchema,
+  vendorScoringWeightsSchema,
 } from "../schemas/vendor.schema.js";
+import {
+  findDuplicateVendors,
+  mergeVendors,
+} from "../services/entity-resolution.service.js";
+import {
+  DEFAULT_VENDOR_SCORING_WEIGHTS,
+  VENDOR_SCORE_LABELS,
+  getVendorPerformance,
+  getVendorScoringWeights,
+  recordDeliveryEvent,
+  updateVendorScoringWeights,
+} from "../services/vendor-performance.service.js";
 import type { Prisma } from "@prisma/client";
 
 export const vendorRouter = Router();
-vendorRouter.use(authenticate);
+vendorRouter.use(authenticate, readOnlyForViewers);
 
 // ─── List vendors ────────────────────────────────────────────
 vendorRouter.get("/", async (req, res) => {
@@ -17,6 +33,7 @@ vendorRouter.get("/", async (req, res) => {
   const { page, limit, status, country, search, sortBy, sortOrder } = query;
 
   const where: Prisma.VendorWhereInput = {
+    organizationId: req.user!.organizationId,
     ...(status && { status }),
     ...(country && { country: { contains: country, mode: "insensitive" as const } }),
     ...(search && {
@@ -54,22 +71,113 @@ vendorRouter.get("/", async (req, res) => {
   });
 });
 
+// ─── Vendor Score weights ───────────────────────────────────
+vendorRouter.get("/scoring", async (req, res) => {
+  const weights = await getVendorScoringWeights(req.user!.organizationId);
+  res.json({
+    weights,
+    defaults: DEFAULT_VENDOR_SCORING_WEIGHTS,
+    labels: VENDOR_SCORE_LABELS,
+  });
+});
+
+// Admin only; rescores the organisation's vendors with deliveries on record
+vendorRouter.put("/scoring", authorize("ADMIN"), async (req, res) => {
+  const weights = vendorScoringWeightsSchema.parse(req.body);
+  const saved = await updateVendorScoringWeights(
+    req.user!.organizationId,
+    weights,
+    req.user?.userId,
+  );
+  res.json({ weights: saved });
+});
+
 // ─── Get single vendor ──────────────────────────────────────
 vendorRouter.get("/:id", async (req, res) => {
-  const vendor = await prisma.vendor.findUnique({
-    where: { id: req.params.id },
+  const vendor = await prisma.vendor.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
     include: {
       contacts: true,
       certifications: true,
       products: true,
       communications: { orderBy: { sentAt: "desc" }, take: 20 },
-      quotes: { include: { rfq: true }, orderBy: { receivedAt: "desc" } },
+      quotes: {
+        include: {
+          rfq: true,
+          purchaseOrder: { select: { id: true, poNumber: true } },
+          negotiationRounds: {
+            include: { createdBy: { select: { id: true, name: true } } },
+            orderBy: { round: "asc" },
+          },
+        },
+        orderBy: { receivedAt: "desc" },
+      },
     },
   });
   if (!vendor) throw new AppError(404, "Vendor not found");
   res.json(vendor);
 });
 
+// ─── Deliveries and score history ───────────────────────────
+vendorRouter.get("/:id/performance", async (req, res) => {
+  const existing = await prisma.vendor.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "Vendor not found");
+
+  res.json(await getVendorPerformance(req.params.id));
+});
+
+// ─── Record a delivery (rescores the vendor) ────────────────
+vendorRouter.post("/:id/delivery-events", async (req, res) => {
+  const input = deliveryEventSchema.parse(req.body);
+
+  const existing = await prisma.vendor.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "Vendor not found");
+
+  try {
+    const result = await recordDeliveryEvent(req.params.id, input, req.user!.userId);
+    res.status(201).json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
+// ─── Likely duplicates ──────────────────────────────────────
+vendorRouter.get("/:id/duplicates", async (req, res) => {
+  const existing = await prisma.vendor.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
+  if (!existing) throw new AppError(404, "Vendor not found");
+
+  const matches = await findDuplicateVendors(req.params.id);
+  res.json({ data: matches });
+});
+
+// ─── Merge duplicate into this vendor ───────────────────────
+vendorRouter.post("/:id/merge", async (req, res) => {
+  const { duplicateId } = mergeVendorSchema.parse(req.body);
+
+  const organizationId = req.user!.organizationId;
+  const [survivor, duplicate] = await Promise.all([
+    prisma.vendor.findFirst({ where: { id: req.params.id, organizationId } }),
+    prisma.vendor.findFirst({ where: { id: duplicateId, organizationId } }),
+  ]);
+  if (!survivor) throw new AppError(404, "Vendor not found");
+  if (!duplicate) throw new AppError(404, "Vendor to merge not found");
+
+  try {
+    const result = await mergeVendors(req.params.id, duplicateId);
+    res.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    throw new AppError(400, message);
+  }
+});
+
 // ─── Create vendor ──────────────────────────────────────────
 vendorRouter.post("/", async (req, res) => {
   const data = createVendorSchema.parse(req.body);
@@ -78,6 +186,7 @@ vendorRouter.post("/", async (req, res) => {
   const vendor = await prisma.vendor.create({
     data: {
       ...vendorData,
+      organizationId: req.user!.organizationId,
       contacts: contacts ? { createMany: { data: contacts } } : undefined,
       certifications: certifications
         ? {
@@ -113,12 +222,16 @@ vendorRouter.post("/", async (req, res) => {
 
 // ─── Update vendor ──────────────────────────────────────────
 vendorRouter.patch("/:id", async (req, res) => {
-  const existing = await prisma.vendor.findUnique({ where: { id: req.params.id } });
+  const existing = await prisma.vendor.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
   if (!existing) throw new AppError(404, "Vendor not found");
 
+  const data = updateVendorSchema.parse(req.body);
+
   const vendor = await prisma.vendor.update({
-    where: { id: req.params.id },
-    data: req.body,
+    where: { id: existing.id },
+    data,
     include: { contacts: true, certifications: true, products: true },
   });
 
@@ -127,9 +240,11 @@ vendorRouter.patch("/:id", async (req, res) => {
 
 // ─── Delete vendor ──────────────────────────────────────────
 vendorRouter.delete("/:id", async (req, res) => {
-  const existing = await prisma.vendor.findUnique({ where: { id: req.params.id } });
+  const existing = await prisma.vendor.findFirst({
+    where: { id: req.params.id, organizationId: req.user!.organizationId },
+  });
   if (!existing) throw new AppError(404, "Vendor not found");
 
-  await prisma.vendor.delete({ where: { id: req.params.id } });
+  await prisma.vendor.delete({ where: { id: existing.id } });
   res.status(204).send();
 });
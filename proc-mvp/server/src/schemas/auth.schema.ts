@@ -4,11 +4,19 @@ export const registerSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8, "Password must be at least 8 characters"),
   name: z.string().min(1, "Name is required"),
+  /** The organisation the user creates and administers; defaults to one named after them */
+  organizationName: z.string().trim().min(1).max(120).optional(),
 });
 
 export const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(1),
+  /** Organisation to sign in to; the user's first one when omitted */
+  organizationId: z.string().optional(),
+});
+
+export const switchOrganizationSchema = z.object({
+  organizationId: z.string().min(1),
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
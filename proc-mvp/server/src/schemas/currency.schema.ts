@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+/** ISO 4217 code, e.g. "usd" → "USD" */
+export const currencyCodeField = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency must be a 3-letter ISO code");
+
+const dateField = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+export const setExchangeRateSchema = z.object({
+  currency: currencyCodeField,
+  /** Units of `currency` per 1 EUR */
+  rate: z.number().positive(),
+  rateDate: dateField.optional(), // Defaults to today
+});
+
+export const importExchangeRatesSchema = z.object({
+  /** File contents: ECB XML, ECB-style CSV (Date,USD,JPY,…) or currency,rate[,date] CSV */
+  content: z.string().min(1).max(5_000_000),
+  source: z.enum(["csv", "ecb"]).optional(), // Detected from the content when omitted
+});
+
+export const ratesQuerySchema = z.object({
+  date: dateField.optional(),
+});
+
+export const convertQuerySchema = z.object({
+  amount: z.coerce.number(),
+  from: currencyCodeField,
+  to: currencyCodeField,
+  date: dateField.optional(),
+});
+
+export type SetExchangeRateInput = z.infer<typeof setExchangeRateSchema>;
+export type ImportExchangeRatesInput = z.infer<typeof importExchangeRatesSchema>;
+export type ConvertQuery = z.infer<typeof convertQuerySchema>;
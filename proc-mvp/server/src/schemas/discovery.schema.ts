@@ -1,5 +1,12 @@
 import { z } from "zod";
 
+// Must match the registry in services/search-provider.ts
+const searchProvidersField = z
+  .array(
+    z.enum(["serpapi", "bing", "duckduckgo", "alibaba", "indiamart", "thomasnet", "mock"]),
+  )
+  .optional(); // Omitted/empty → the server's default providers
+
 export const createDiscoveryJobSchema = z.object({
   need: z.string().optional(), // Procurement need driving product recommendations
   productCategories: z
@@ -11,6 +18,7 @@ export const createDiscoveryJobSchema = z.object({
   maxVendorsPerQuery: z.number().int().min(1).max(50).default(10),
   autoImport: z.boolean().default(false),
   autoImportThreshold: z.number().min(0).max(1).default(0.8),
+  searchProviders: searchProvidersField,
 });
 
 export const discoveryJobQuerySchema = z.object({
@@ -29,5 +37,162 @@ export const skipResultSchema = z.object({
   reason: z.string().optional(),
 });
 
+// ─── Result review ──────────────────────────────────────────
+
+export const reviewStatusEnum = z.enum([
+  "NEW",
+  "NEEDS_RESEARCH",
+  "SHORTLISTED",
+  "SKIPPED",
+  "REJECTED",
+  "IMPORTED",
+]);
+
+export const rejectReasonEnum = z.enum([
+  "NOT_A_MANUFACTURER",
+  "WRONG_PRODUCT",
+  "WRONG_COUNTRY",
+  "DUPLICATE",
+  "NO_CONTACT",
+  "INSUFFICIENT_CERTIFICATIONS",
+  "TOO_SMALL",
+  "OTHER",
+]);
+
+// Filter over discovery results: used by bulk actions and saved views
+export const resultFilterSchema = z.object({
+  jobId: z.string().uuid().optional(),
+  status: z.array(reviewStatusEnum).optional(),
+  country: z.string().trim().min(1).optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+  maxConfidence: z.number().min(0).max(1).optional(),
+  certification: z.string().trim().min(1).optional(),
+  assignedToId: z.string().min(1).optional(), // User ID, or "unassigned"
+});
+
+// Same filter from a query string (status as a comma-separated list)
+export const resultQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  jobId: z.string().uuid().optional(),
+  imported: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  skipped: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  status: z
+    .string()
+    .transform((v) => v.split(",").filter(Boolean))
+    .pipe(z.array(reviewStatusEnum))
+    .optional(),
+  country: z.string().trim().min(1).optional(),
+  minConfidence: z.coerce.number().min(0).max(1).optional(),
+  maxConfidence: z.coerce.number().min(0).max(1).optional(),
+  certification: z.string().trim().min(1).optional(),
+  assignedToId: z.string().min(1).optional(),
+});
+
+export const reviewResultSchema = z
+  .object({
+    // IMPORTED is only reached through the import endpoints
+    status: reviewStatusEnum.exclude(["IMPORTED"]),
+    rejectReason: rejectReasonEnum.optional(),
+    note: z.string().max(2000).optional(),
+  })
+  .refine((r) => r.status !== "REJECTED" || !!r.rejectReason, {
+    message: "A reason code is required when rejecting",
+    path: ["rejectReason"],
+  });
+
+export const assignResultSchema = z.object({
+  assignedToId: z.string().uuid().nullable(), // null → unassign
+});
+
+export const bulkResultActionSchema = z
+  .object({
+    action: z.enum(["shortlist", "needs_research", "skip", "reject", "reopen", "assign"]),
+    // Either explicit results or every result of one job matching a filter
+    resultIds: z.array(z.string().uuid()).min(1).max(1000).optional(),
+    filter: resultFilterSchema.extend({ jobId: z.string().uuid() }).optional(),
+    rejectReason: rejectReasonEnum.optional(),
+    note: z.string().max(2000).optional(),
+    assignedToId: z.string().uuid().nullable().optional(),
+  })
+  .refine((b) => !!b.resultIds !== !!b.filter, {
+    message: "Provide exactly one of resultIds or filter",
+    path: ["resultIds"],
+  })
+  .refine((b) => b.action !== "reject" || !!b.rejectReason, {
+    message: "A reason code is required when rejecting",
+    path: ["rejectReason"],
+  })
+  .refine((b) => b.action !== "assign" || b.assignedToId !== undefined, {
+    message: "assignedToId is required for assign (null to unassign)",
+    path: ["assignedToId"],
+  });
+
+export const createResultViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  filters: resultFilterSchema.omit({ jobId: true }), // Views apply to any job
+  shared: z.boolean().default(false),
+});
+
+const discoveryScheduleFields = {
+  name: z.string().min(1, "Name is required"),
+  need: z.string().optional(),
+  productCategories: z
+    .array(z.string().min(1))
+    .min(1, "At least one product category required"),
+  targetCountries: z
+    .array(z.string().min(1))
+    .min(1, "At least one target country required"),
+  cronExpression: z.string().min(1).optional(), // e.g. "0 6 * * 1" (Mondays 06:00)
+  intervalMinutes: z.number().int().min(15).max(60 * 24 * 90).optional(),
+  timezone: z.string().default("UTC"),
+  maxVendorsPerQuery: z.number().int().min(1).max(50).default(10),
+  autoImport: z.boolean().default(false),
+  autoImportThreshold: z.number().min(0).max(1).default(0.8),
+  searchProviders: searchProvidersField,
+  enabled: z.boolean().default(true),
+};
+
+export const createDiscoveryScheduleSchema = z
+  .object(discoveryScheduleFields)
+  .refine((s) => !!s.cronExpression !== !!s.intervalMinutes, {
+    message: "Provide exactly one of cronExpression or intervalMinutes",
+    path: ["cronExpression"],
+  });
+
+export const updateDiscoveryScheduleSchema = z
+  .object(discoveryScheduleFields)
+  .partial()
+  .refine((s) => !(s.cronExpression && s.intervalMinutes), {
+    message: "Provide at most one of cronExpression or intervalMinutes",
+    path: ["cronExpression"],
+  });
+
+// Relative weights of the confidence signals (normalised when scoring)
+const signalWeight = z.number().min(0).max(1);
+export const scoringWeightsSchema = z
+  .object({
+    websiteReachable: signalWeight,
+    contactFound: signalWeight,
+    certifications: signalWeight,
+    countryMatch: signalWeight,
+    sourceAgreement: signalWeight,
+    llmConfidence: signalWeight,
+  })
+  .refine((w) => Object.values(w).some((v) => v > 0), {
+    message: "At least one weight must be greater than 0",
+  });
+
 export type CreateDiscoveryJobInput = z.infer<typeof createDiscoveryJobSchema>;
 export type DiscoveryJobQuery = z.infer<typeof discoveryJobQuerySchema>;
+export type CreateDiscoveryScheduleInput = z.infer<
+  typeof createDiscoveryScheduleSchema
+>;
+export type UpdateDiscoveryScheduleInput = z.infer<
+  typeof updateDiscoveryScheduleSchema
+>;
+export type ScoringWeightsInput = z.infer<typeof scoringWeightsSchema>;
+export type ResultFilter = z.infer<typeof resultFilterSchema>;
+export type ReviewResultInput = z.infer<typeof reviewResultSchema>;
+export type BulkResultActionInput = z.infer<typeof bulkResultActionSchema>;
+export type CreateResultViewInput = z.infer<typeof createResultViewSchema>;
@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+export const documentTypeField = z.enum(["RFQ", "PURCHASE_ORDER", "INVOICE"]);
+
+const TOKEN = /\{[^}]*\}/g;
+const KNOWN_TOKEN = /^\{(YYYY|YY|SEQ(:[1-9])?)\}$/;
+
+/** {YYYY} or {YY} for the year and {SEQ} or {SEQ:n} (zero-padded to n digits) for the counter */
+export const documentNumberFormatSchema = z.object({
+  format: z
+    .string()
+    .trim()
+    .min(1)
+    .max(40)
+    .refine((f) => (f.match(TOKEN) ?? []).every((t) => KNOWN_TOKEN.test(t)), {
+      message: "Only {YYYY}, {YY}, {SEQ} and {SEQ:n} can be used",
+    })
+    .refine((f) => /\{SEQ(:[1-9])?\}/.test(f), { message: "The format needs {SEQ}" })
+    // Counters restart each year, so the year keeps numbers from repeating
+    .refine((f) => /\{YY(YY)?\}/.test(f), { message: "The format needs {YYYY} or {YY}" }),
+});
+
+export type DocumentNumberFormatInput = z.infer<typeof documentNumberFormatSchema>;
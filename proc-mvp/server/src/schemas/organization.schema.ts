@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+export const memberRoleField = z.enum(["ADMIN", "BUYER", "VIEWER"]);
+
+export const updateOrganizationSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    /** Display name on outgoing email; the organisation's name when empty */
+    senderName: z.string().trim().max(120).nullable(),
+    /** From address on outgoing email; must be a verified SendGrid sender */
+    senderEmail: z.string().trim().email().nullable(),
+  })
+  .partial()
+  .strict();
+
+export const inviteMemberSchema = z.object({
+  email: z.string().email(),
+  role: memberRoleField.default("BUYER"),
+});
+
+export const updateMemberSchema = z.object({
+  role: memberRoleField,
+});
+
+export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
+export type InviteMemberInput = z.infer<typeof inviteMemberSchema>;
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { languageField, templateKeyField, templateVariablesField } from "./template.schema.js";
+
+const sequenceStepSchema = z.object({
+  dayOffset: z.number().int().min(0).max(365), // Days after enrollment
+  channel: z.enum(["EMAIL", "WHATSAPP"]),
+  template: templateKeyField, // Library key or a built-in one (introduction, follow_up, final_reminder)
+  subject: z.string().trim().min(1).max(200).optional(),
+  customMessage: z.string().trim().min(1).max(5000).optional(),
+});
+
+const stepsField = z
+  .array(sequenceStepSchema)
+  .min(1, "At least one step required")
+  .max(20)
+  .refine(
+    (steps) => steps.every((s, i) => i === 0 || s.dayOffset >= steps[i - 1].dayOffset),
+    { message: "Steps must be in day order" },
+  );
+
+export const createSequenceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  description: z.string().optional(),
+  active: z.boolean().default(true),
+  steps: stepsField,
+});
+
+export const updateSequenceSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+  steps: stepsField.optional(), // Only while nobody is enrolled
+});
+
+export const sendOutreachSchema = z
+  .object({
+    vendorId: z.string().uuid().optional(),
+    resultId: z.string().uuid().optional(),
+    channel: z.enum(["email", "whatsapp"]),
+    recipient: z.string().trim().min(1).optional(),
+    customMessage: z.string().max(5000).optional(),
+    templateId: z.string().uuid().optional(),
+    template: templateKeyField.optional(),
+    language: languageField.optional(),
+    subject: z.string().trim().min(1).max(300).optional(),
+    rfqId: z.string().uuid().optional(),
+    deadline: z.string().optional(),
+    variables: templateVariablesField,
+  })
+  .refine((s) => s.vendorId || s.resultId, { message: "vendorId or resultId required" });
+
+export const enrollSchema = z
+  .object({
+    vendorIds: z.array(z.string().uuid()).max(500).default([]),
+    resultIds: z.array(z.string().uuid()).max(500).default([]),
+  })
+  .refine((e) => e.vendorIds.length + e.resultIds.length > 0, {
+    message: "At least one vendor or discovery result required",
+  });
+
+export const enrollmentQuerySchema = z.object({
+  vendorId: z.string().uuid().optional(),
+  resultId: z.string().uuid().optional(),
+  sequenceId: z.string().uuid().optional(),
+  status: z
+    .enum(["ACTIVE", "PAUSED", "REPLIED", "COMPLETED", "STOPPED", "FAILED"])
+    .optional(),
+});
+
+export const stopEnrollmentSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const recordReplySchema = z.object({
+  response: z.string().trim().min(1, "Response is required"),
+  respondedAt: z.string().datetime().optional(), // Defaults to now
+});
+
+export const inboundMessageQuerySchema = z.object({
+  vendorId: z.string().uuid().optional(),
+  communicationId: z.string().uuid().optional(),
+  unmatched: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const whatsappReplySchema = z.object({
+  body: z.string().trim().min(1, "Message is required").max(4096),
+});
+
+export type SequenceStepInput = z.infer<typeof sequenceStepSchema>;
+export type CreateSequenceInput = z.infer<typeof createSequenceSchema>;
+export type UpdateSequenceInput = z.infer<typeof updateSequenceSchema>;
+export type SendOutreachRequest = z.infer<typeof sendOutreachSchema>;
+export type EnrollInput = z.infer<typeof enrollSchema>;
+export type EnrollmentQuery = z.infer<typeof enrollmentQuerySchema>;
+export type InboundMessageQuery = z.infer<typeof inboundMessageQuerySchema>;
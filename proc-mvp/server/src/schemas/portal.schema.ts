@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { currencyCodeField } from "./currency.schema.js";
+import { quoteLineSchema } from "./quote.schema.js";
+
+/** A vendor's quote as submitted through the RFQ portal */
+export const portalQuoteSchema = z.object({
+  currency: currencyCodeField.default("USD"),
+  lines: z.array(quoteLineSchema).min(1, "Price at least one line item").max(500),
+  leadTimeDays: z.number().int().positive().max(3650),
+  paymentTerms: z.string().trim().min(1, "Payment terms are required").max(500),
+  validUntil: z.string().date(),
+  notes: z.string().trim().max(5000).optional(),
+});
+
+export type PortalQuoteInput = z.infer<typeof portalQuoteSchema>;
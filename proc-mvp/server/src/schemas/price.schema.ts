@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { currencyCodeField } from "./currency.schema.js";
+
+export const benchmarkQuerySchema = z.object({
+  category: z.string().trim().min(1, "Category is required"),
+  country: z.string().trim().min(1).optional(),
+  currency: currencyCodeField.optional(), // Defaults to the reporting currency
+  days: z.coerce.number().int().min(1).max(3650).default(365),
+  interval: z.enum(["month", "week"]).default("month"),
+});
+
+export const observationsQuerySchema = z.object({
+  category: z.string().trim().min(1, "Category is required"),
+  source: z.enum(["serp", "quote"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type BenchmarkQueryInput = z.infer<typeof benchmarkQuerySchema>;
+export type ObservationsQuery = z.infer<typeof observationsQuerySchema>;
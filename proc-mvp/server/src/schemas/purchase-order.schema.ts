@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+const PURCHASE_ORDER_STATUSES = ["ISSUED", "ACKNOWLEDGED", "SHIPPED", "RECEIVED", "CLOSED"] as const;
+
+/** Given when accepting a quote; the rest of the PO comes from the quote and RFQ */
+export const purchaseOrderTermsSchema = z.object({
+  incoterms: z.string().trim().max(50).optional(), // e.g. "FOB Shanghai"
+  notes: z.string().max(5000).optional(),
+});
+
+export const purchaseOrderQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+  rfqId: z.string().uuid().optional(),
+  vendorId: z.string().uuid().optional(),
+});
+
+export const updatePurchaseOrderStatusSchema = z.object({
+  status: z.enum(PURCHASE_ORDER_STATUSES),
+});
+
+export type PurchaseOrderTermsInput = z.infer<typeof purchaseOrderTermsSchema>;
+export type PurchaseOrderQuery = z.infer<typeof purchaseOrderQuerySchema>;
+export type UpdatePurchaseOrderStatusInput = z.infer<typeof updatePurchaseOrderStatusSchema>;
@@ -1,20 +1,99 @@
 import { z } from "zod";
+import { currencyCodeField } from "./currency.schema.js";
+import { purchaseOrderTermsSchema } from "./purchase-order.schema.js";
 
-export const createQuoteSchema = z.object({
-  rfqId: z.string().uuid(),
-  vendorId: z.string().uuid(),
-  unitPrice: z.number().positive(),
-  totalPrice: z.number().positive(),
-  currency: z.string().default("USD"),
-  leadTimeDays: z.number().int().positive(),
-  paymentTerms: z.string().optional(),
-  notes: z.string().optional(),
-  validUntil: z.string().datetime().optional(),
-});
+/** A quote's price for one RFQ line item; leave lines out for a partial bid */
+export const quoteLineSchema = z
+  .object({
+    rfqLineItemId: z.string().uuid(),
+    unitPrice: z.number().positive(),
+    quantity: z.number().int().positive().optional(), // Defaults to the RFQ line's
+    isAlternate: z.boolean().default(false),
+    description: z.string().trim().max(1000).optional(),
+    notes: z.string().trim().max(2000).optional(),
+  })
+  .refine((line) => !line.isAlternate || !!line.description, {
+    message: "Describe the alternate product",
+    path: ["description"],
+  });
+
+export const createQuoteSchema = z
+  .object({
+    rfqId: z.string().uuid(),
+    vendorId: z.string().uuid(),
+    // Derived from lineItems when those are given
+    unitPrice: z.number().positive().optional(),
+    totalPrice: z.number().positive().optional(),
+    lineItems: z.array(quoteLineSchema).max(500).optional(),
+    currency: currencyCodeField.default("USD"),
+    leadTimeDays: z.number().int().positive(),
+    paymentTerms: z.string().optional(),
+    notes: z.string().optional(),
+    validUntil: z.string().datetime().optional(),
+  })
+  .refine(
+    (q) => (q.lineItems?.length ?? 0) > 0 || (q.unitPrice !== undefined && q.totalPrice !== undefined),
+    { message: "Give line item prices, or a unit and total price", path: ["lineItems"] },
+  );
 
 export const updateQuoteStatusSchema = z.object({
   status: z.enum(["RECEIVED", "UNDER_REVIEW", "NEGOTIATING", "ACCEPTED", "REJECTED"]),
+  /** Terms for the purchase order issued on acceptance */
+  purchaseOrder: purchaseOrderTermsSchema.optional(),
+});
+
+// ─── Comparison profiles ────────────────────────────────────
+
+const criterionSchema = z.object({
+  weight: z.number().min(0).max(1), // Relative; normalised when scoring
+  direction: z.enum(["minimize", "maximize"]),
 });
 
+export const comparisonProfileSchema = z.object({
+  criteria: z
+    .object({
+      price: criterionSchema,
+      quality: criterionSchema,
+      leadTime: criterionSchema,
+      reliability: criterionSchema,
+      paymentTerms: criterionSchema,
+    })
+    .refine((c) => Object.values(c).some((v) => v.weight > 0), {
+      message: "At least one weight must be greater than 0",
+    }),
+  // Quotes breaking a constraint are shown but ranked last
+  constraints: z
+    .object({
+      requiredCertifications: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+      maxLeadTimeDays: z.number().int().positive().nullable().default(null),
+      budgetCeiling: z.number().positive().nullable().default(null), // In the RFQ's budget currency
+    })
+    .default({}),
+});
+
+// ─── Negotiation ────────────────────────────────────────────
+
+export const counterOfferSchema = z.object({
+  counterPrice: z.number().positive(), // Quote total, in the quote's currency
+  channel: z.enum(["email", "whatsapp", "call"]), // "call": record a counter made by phone
+  message: z.string().trim().max(2000).optional(), // {{customMessage}} of the template
+  templateId: z.string().uuid().optional(), // Defaults to the counter_offer template
+});
+
+export const vendorResponseSchema = z
+  .object({
+    outcome: z.enum(["ACCEPTED", "REVISED", "DECLINED"]),
+    response: z.string().trim().max(5000).optional(),
+    revisedPrice: z.number().positive().optional(), // New quote total, for REVISED
+  })
+  .refine((r) => r.outcome !== "REVISED" || r.revisedPrice !== undefined, {
+    message: "Give the vendor's revised price",
+    path: ["revisedPrice"],
+  });
+
+export type QuoteLineInput = z.infer<typeof quoteLineSchema>;
 export type CreateQuoteInput = z.infer<typeof createQuoteSchema>;
 export type UpdateQuoteStatusInput = z.infer<typeof updateQuoteStatusSchema>;
+export type ComparisonProfileInput = z.infer<typeof comparisonProfileSchema>;
+export type CounterOfferInput = z.infer<typeof counterOfferSchema>;
+export type VendorResponseInput = z.infer<typeof vendorResponseSchema>;
@@ -1,37 +1,108 @@
 import { z } from "zod";
+import { currencyCodeField } from "./currency.schema.js";
+
+const rfqStatusField = z.enum([
+  "DRAFT",
+  "PENDING_APPROVAL",
+  "APPROVED",
+  "SENT",
+  "QUOTING",
+  "NEGOTIATING",
+  "COMPARING",
+  "COMPLETED",
+  "CANCELLED",
+]);
+const priorityField = z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]);
+
+const lineItemsField = z
+  .array(
+    z.object({
+      productName: z.string().min(1),
+      specifications: z.record(z.string(), z.string()).optional(),
+      quantity: z.number().int().positive(),
+      unit: z.string().default("pieces"),
+    }),
+  )
+  .min(1, "At least one line item is required");
 
 export const createRfqSchema = z.object({
   deliveryLocation: z.string().min(1),
   requiredDeliveryDate: z.string().datetime().optional(),
   budgetMin: z.number().positive().optional(),
   budgetMax: z.number().positive().optional(),
-  budgetCurrency: z.string().default("USD"),
-  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).default("MEDIUM"),
+  budgetCurrency: currencyCodeField.default("USD"),
+  priority: priorityField.default("MEDIUM"),
   qualityRequirements: z.array(z.string()).default([]),
   paymentTermsPreference: z.string().optional(),
   notes: z.string().optional(),
-  lineItems: z
-    .array(
-      z.object({
-        productName: z.string().min(1),
-        specifications: z.record(z.string(), z.string()).optional(),
-        quantity: z.number().int().positive(),
-        unit: z.string().default("pieces"),
-      }),
-    )
-    .min(1, "At least one line item is required"),
+  lineItems: lineItemsField,
 });
 
+/** What the requester may change; status moves go through POST /api/rfqs/:id/status */
+export const updateRfqSchema = z
+  .object({
+    deliveryLocation: z.string().min(1).optional(),
+    requiredDeliveryDate: z.string().datetime().nullable().optional(),
+    budgetMin: z.number().positive().nullable().optional(),
+    budgetMax: z.number().positive().nullable().optional(),
+    budgetCurrency: currencyCodeField.optional(),
+    priority: priorityField.optional(),
+    qualityRequirements: z.array(z.string()).optional(),
+    paymentTermsPreference: z.string().nullable().optional(),
+    notes: z.string().nullable().optional(),
+    /** Replaces every line; only until the RFQ is sent or quoted */
+    lineItems: lineItemsField.optional(),
+  })
+  .strict();
+
 export const rfqQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(20),
-  status: z
-    .enum(["DRAFT", "SENT", "QUOTING", "NEGOTIATING", "COMPARING", "COMPLETED", "CANCELLED"])
-    .optional(),
-  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional(),
+  status: rfqStatusField.optional(),
+  priority: priorityField.optional(),
   sortBy: z.enum(["rfqNumber", "createdAt", "status"]).default("createdAt"),
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
+/** Send the RFQ to vendors, each with their own quote portal link */
+export const dispatchRfqSchema = z.object({
+  vendorIds: z.array(z.string().uuid()).min(1, "Pick at least one vendor").max(100),
+  deadline: z.string().datetime(),
+  /** Email template with {{portalLink}}; defaults to the rfq_invitation template */
+  templateId: z.string().uuid().optional(),
+  customMessage: z.string().max(5000).optional(),
+});
+
+/** When RFQs need approval before they can be sent, and who may approve */
+export const approvalPolicySchema = z.object({
+  /** budgetMax above this needs approval; null turns the budget rule off */
+  budgetThreshold: z.number().positive().nullable(),
+  currency: currencyCodeField,
+  /** Users besides ADMINs who may approve */
+  approverIds: z.array(z.string().uuid()).max(50).default([]),
+});
+
+export const approvalCommentSchema = z.object({
+  comment: z.string().max(2000).optional(),
+});
+
+export const rejectRfqSchema = z.object({
+  comment: z.string().min(1, "Say why the RFQ is rejected").max(2000),
+});
+
+/** Move the RFQ along its lifecycle (see services/rfq-lifecycle.service.ts) */
+export const changeRfqStatusSchema = z
+  .object({
+    status: rfqStatusField,
+    reason: z.string().max(2000).optional(),
+  })
+  .refine((change) => change.status !== "CANCELLED" || change.reason?.trim(), {
+    message: "Say why the RFQ is cancelled",
+    path: ["reason"],
+  });
+
 export type CreateRfqInput = z.infer<typeof createRfqSchema>;
+export type UpdateRfqInput = z.infer<typeof updateRfqSchema>;
 export type RfqQuery = z.infer<typeof rfqQuerySchema>;
+export type DispatchRfqInput = z.infer<typeof dispatchRfqSchema>;
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicySchema>;
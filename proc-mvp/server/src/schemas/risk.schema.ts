@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const setCountryRiskSchema = z.object({
+  country: z.string().trim().min(1).max(100),
+  /** 0 (stable) – 10 (high risk) */
+  score: z.number().min(0).max(10),
+  notes: z.string().trim().max(500).optional(),
+});
+
+export type SetCountryRiskInput = z.infer<typeof setCountryRiskSchema>;
@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+export const templateKeyField = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9_]+$/, "Key may only contain lowercase letters, digits and _")
+  .max(50);
+
+export const languageField = z
+  .string()
+  .trim()
+  .regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Language must be a code like en or pt-BR");
+
+const channelField = z.enum(["EMAIL", "WHATSAPP"]);
+const bodyField = z.string().trim().min(1, "Body is required").max(10000);
+const subjectField = z.string().trim().min(1).max(300);
+
+/** Values that override or fill in template variables */
+export const templateVariablesField = z.record(z.string().max(5000)).default({});
+
+export const createTemplateSchema = z
+  .object({
+    key: templateKeyField,
+    name: z.string().trim().min(1, "Name is required").max(200),
+    channel: channelField,
+    language: languageField.default("en"),
+    description: z.string().max(1000).optional(),
+    active: z.boolean().default(true),
+    subject: subjectField.optional(),
+    body: bodyField,
+  })
+  .refine((t) => t.channel !== "EMAIL" || !!t.subject, {
+    message: "Email templates need a subject",
+    path: ["subject"],
+  });
+
+/** Changing subject or body adds a version; the rest is edited in place */
+export const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  active: z.boolean().optional(),
+  subject: subjectField.optional(),
+  body: bodyField.optional(),
+});
+
+export const templateQuerySchema = z.object({
+  key: templateKeyField.optional(),
+  channel: channelField.optional(),
+  language: languageField.optional(),
+  active: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+});
+
+const previewContextFields = {
+  vendorId: z.string().uuid().optional(),
+  resultId: z.string().uuid().optional(),
+  rfqId: z.string().uuid().optional(),
+  deadline: z.string().optional(), // Date or free text
+  customMessage: z.string().max(5000).optional(),
+  variables: templateVariablesField,
+};
+
+/** Render a saved template; `version` defaults to the current one */
+export const previewTemplateSchema = z.object({
+  ...previewContextFields,
+  version: z.number().int().positive().optional(),
+});
+
+/** Render unsaved text, e.g. while editing */
+export const previewDraftSchema = z.object({
+  ...previewContextFields,
+  language: languageField.default("en"),
+  subject: z.string().max(300).optional(),
+  body: bodyField,
+});
+
+export type CreateTemplateInput = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>;
+export type TemplateQuery = z.infer<typeof templateQuerySchema>;
+export type PreviewTemplateInput = z.infer<typeof previewTemplateSchema>;
+export type PreviewDraftInput = z.infer<typeof previewDraftSchema>;
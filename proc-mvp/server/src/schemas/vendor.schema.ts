@@ -41,6 +41,14 @@ export const createVendorSchema = z.object({
     .optional(),
 });
 
+// The vendor's own fields only: scores are computed from deliveries (see
+// vendor-performance.service) and relations have their own endpoints
+export const updateVendorSchema = createVendorSchema
+  .omit({ contacts: true, certifications: true, products: true })
+  .extend({ status: z.enum(["DISCOVERED", "CONTACTED", "ACTIVE", "INACTIVE"]) })
+  .partial()
+  .strict();
+
 export const vendorQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(20),
@@ -51,5 +59,44 @@ export const vendorQuerySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
+export const mergeVendorSchema = z.object({
+  // Vendor to fold into the one in the URL; it is deleted afterwards
+  duplicateId: z.string().uuid(),
+});
+
+// A delivery against an accepted quote or a purchase order
+export const deliveryEventSchema = z
+  .object({
+    quoteId: z.string().uuid().optional(),
+    purchaseOrderId: z.string().uuid().optional(),
+    deliveredAt: z.string().datetime().optional(), // Defaults to now
+    daysLate: z.number().int().min(-365).max(365).default(0),
+    defectRate: z.number().min(0).max(1).default(0),
+    shortfallRate: z.number().min(0).max(1).default(0),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((e) => e.quoteId || e.purchaseOrderId, {
+    message: "Provide the accepted quote or the purchase order delivered",
+    path: ["quoteId"],
+  });
+
+// Relative weights of the Vendor Score components (normalised when scoring)
+const componentWeight = z.number().min(0).max(1);
+export const vendorScoringWeightsSchema = z
+  .object({
+    quality: componentWeight,
+    reliability: componentWeight,
+    price: componentWeight,
+    capacity: componentWeight,
+    terms: componentWeight,
+  })
+  .refine((w) => Object.values(w).some((v) => v > 0), {
+    message: "At least one weight must be greater than 0",
+  });
+
 export type CreateVendorInput = z.infer<typeof createVendorSchema>;
+export type UpdateVendorInput = z.infer<typeof updateVendorSchema>;
 export type VendorQuery = z.infer<typeof vendorQuerySchema>;
+export type MergeVendorInput = z.infer<typeof mergeVendorSchema>;
+export type DeliveryEventInput = z.infer<typeof deliveryEventSchema>;
+export type VendorScoringWeightsInput = z.infer<typeof vendorScoringWeightsSchema>;
@@ -0,0 +1,255 @@
+/**
+ * Confidence Scoring Service — deterministic vendor confidence.
+ *
+ * Replaces the raw LLM confidence with a weighted combination of signals:
+ *   websiteReachable  the vendor's website answers over HTTP
+ *   contactFound      an email and/or phone number was found
+ *   certifications    certifications were mentioned
+ *   countryMatch      the vendor is in the country that was searched
+ *   sourceAgreement   share of the job's search providers that found it
+ *   llmConfidence     the model's own confidence
+ *
+ * confidence = Σ(weight × value) / Σ(weight), over the signals that apply
+ * (e.g. sourceAgreement only exists in web-search mode). Weights are stored
+ * per organisation in ConfidenceScoringConfig; every DiscoveryResult keeps
+ * the per-signal breakdown so the score can be explained.
+ */
+
+import { prisma } from "../lib/prisma.js";
+import type { ExtractedVendor } from "./vendor-extractor.js";
+import type { ScoringWeightsInput } from "../schemas/discovery.schema.js";
+
+export type ScoringWeights = ScoringWeightsInput;
+export type SignalKey = keyof ScoringWeights;
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  websiteReachable: 0.15,
+  contactFound: 0.15,
+  certifications: 0.1,
+  countryMatch: 0.15,
+  sourceAgreement: 0.15,
+  llmConfidence: 0.3,
+};
+
+export const SIGNAL_LABELS: Record<SignalKey, string> = {
+  websiteReachable: "Website reachable",
+  contactFound: "Contact found",
+  certifications: "Certifications mentioned",
+  countryMatch: "Country match",
+  sourceAgreement: "Source agreement",
+  llmConfidence: "LLM confidence",
+};
+
+const WEBSITE_TIMEOUT_MS = 5_000;
+
+export interface SignalScore {
+  key: SignalKey;
+  label: string;
+  /** 0–1, or null when the signal does not apply to this result */
+  value: number | null;
+  weight: number;
+  /** Share of the final confidence this signal accounts for */
+  contribution: number;
+  detail: string;
+}
+
+export interface ConfidenceBreakdown {
+  score: number;
+  signals: SignalScore[];
+}
+
+export interface ScoringContext {
+  /** Country that was searched */
+  country: string;
+  /** Providers that returned this vendor (web-search mode) */
+  sources?: string[];
+  /** How many providers the query went to (web-search mode) */
+  providerCount?: number;
+  /** Skip the HTTP check, e.g. for mock data with made-up domains */
+  checkWebsite: boolean;
+}
+
+// ─── Weights ──────────────────────────────────────────────────
+
+/** The organisation's weights; its config row is keyed by the organisation's id */
+export async function getScoringWeights(organizationId: string): Promise<ScoringWeights> {
+  const config = await prisma.confidenceScoringConfig.findUnique({
+    where: { id: organizationId },
+  });
+  if (!config) return DEFAULT_SCORING_WEIGHTS;
+
+  return { ...DEFAULT_SCORING_WEIGHTS, ...(config.weights as Partial<ScoringWeights>) };
+}
+
+export async function updateScoringWeights(
+  organizationId: string,
+  weights: ScoringWeights,
+  updatedById?: string,
+): Promise<ScoringWeights> {
+  await prisma.confidenceScoringConfig.upsert({
+    where: { id: organizationId },
+    create: { id: organizationId, weights, updatedById },
+    update: { weights, updatedById },
+  });
+  return weights;
+}
+
+// ─── Scoring ──────────────────────────────────────────────────
+
+export async function scoreVendorConfidence(
+  vendor: ExtractedVendor,
+  context: ScoringContext,
+  weights: ScoringWeights,
+): Promise<ConfidenceBreakdown> {
+  const raw: Array<Omit<SignalScore, "label" | "weight" | "contribution">> = [];
+
+  // Website
+  if (!vendor.website) {
+    raw.push({ key: "websiteReachable", value: 0, detail: "No website" });
+  } else if (!context.checkWebsite) {
+    raw.push({ key: "websiteReachable", value: null, detail: "Not checked" });
+  } else {
+    const status = await checkWebsite(vendor.website);
+    raw.push({
+      key: "websiteReachable",
+      value: status.ok ? 1 : 0,
+      detail: status.detail,
+    });
+  }
+
+  // Contacts
+  const contacts = [vendor.email && "email", vendor.phone && "phone"].filter(Boolean);
+  raw.push({
+    key: "contactFound",
+    value: (vendor.email ? 0.6 : 0) + (vendor.phone ? 0.4 : 0),
+    detail: contacts.length ? `Found ${contacts.join(" and ")}` : "No email or phone",
+  });
+
+  // Certifications
+  const certCount = vendor.certifications.length;
+  raw.push({
+    key: "certifications",
+    value: certCount >= 2 ? 1 : certCount === 1 ? 0.7 : 0,
+    detail: certCount ? vendor.certifications.join(", ") : "None mentioned",
+  });
+
+  // Country
+  const sameCountry =
+    !!vendor.country &&
+    vendor.country.trim().toLowerCase() === context.country.trim().toLowerCase();
+  raw.push({
+    key: "countryMatch",
+    value: sameCountry ? 1 : 0,
+    detail: vendor.country
+      ? sameCountry
+        ? `In ${context.country}`
+        : `In ${vendor.country}, searched ${context.country}`
+      : "Country unknown",
+  });
+
+  // Provider agreement (web-search only)
+  if (context.providerCount && context.providerCount > 0) {
+    const found = context.sources?.length ?? 0;
+    raw.push({
+      key: "sourceAgreement",
+      value: Math.min(1, found / context.providerCount),
+      detail: found
+        ? `Found by ${context.sources!.join(", ")} (${found}/${context.providerCount})`
+        : `Not traced to a provider (0/${context.providerCount})`,
+    });
+  } else {
+    raw.push({ key: "sourceAgreement", value: null, detail: "Single source" });
+  }
+
+  // Model self-confidence
+  raw.push({
+    key: "llmConfidence",
+    value: clamp01(vendor.confidence),
+    detail: `Model reported ${clamp01(vendor.confidence).toFixed(2)}`,
+  });
+
+  return combineSignals(raw, weights);
+}
+
+/** Weighted mean over the signals that apply and carry weight */
+export function combineSignals(
+  raw: Array<Omit<SignalScore, "label" | "weight" | "contribution">>,
+  weights: ScoringWeights,
+): ConfidenceBreakdown {
+  const applicable = raw.filter((s) => s.value !== null && weights[s.key] > 0);
+  const totalWeight = applicable.reduce((sum, s) => sum + weights[s.key], 0);
+
+  const signals = raw.map<SignalScore>((s) => {
+    const weight = weights[s.key];
+    const contribution =
+      s.value === null || totalWeight === 0 ? 0 : (weight * s.value) / totalWeight;
+    return { ...s, label: SIGNAL_LABELS[s.key], weight, contribution };
+  });
+
+  const score = signals.reduce((sum, s) => sum + s.contribution, 0);
+  return { score: round2(score), signals };
+}
+
+// ─── Website check ────────────────────────────────────────────
+
+// Per-process cache: many queries surface the same domains
+const websiteCache = new Map<string, Promise<{ ok: boolean; detail: string }>>();
+
+function checkWebsite(website: string): Promise<{ ok: boolean; detail: string }> {
+  const url = /^https?:\/\//i.test(website) ? website : `https://${website}`;
+  let key: string;
+  try {
+    key = new URL(url).hostname.toLowerCase();
+  } catch {
+    return Promise.resolve({ ok: false, detail: "Invalid URL" });
+  }
+
+  let pending = websiteCache.get(key);
+  if (!pending) {
+    if (websiteCache.size >= 1000) websiteCache.clear();
+    pending = probe(url);
+    websiteCache.set(key, pending);
+  }
+  return pending;
+}
+
+async function probe(url: string): Promise<{ ok: boolean; detail: string }> {
+  for (const method of ["HEAD", "GET"] as const) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WEBSITE_TIMEOUT_MS);
+    try {
+      const res = await fetch(url, {
+        method,
+        redirect: "follow",
+        signal: controller.signal,
+        headers: { "User-Agent": "Mozilla/5.0 (compatible; ProcMVP/1.0)" },
+      });
+      // Some servers reject HEAD; retry those with GET
+      if (method === "HEAD" && (res.status === 405 || res.status === 403)) continue;
+      return res.status < 400
+        ? { ok: true, detail: `HTTP ${res.status}` }
+        : { ok: false, detail: `HTTP ${res.status}` };
+    } catch (err: unknown) {
+      const message =
+        err instanceof Error && err.name === "AbortError"
+          ? "Timed out"
+          : err instanceof Error
+            ? err.message
+            : "Unreachable";
+      return { ok: false, detail: message };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  return { ok: false, detail: "Unreachable" };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function clamp01(n: number): number {
+  return Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -1,9 +1,9 @@
 /**
  * Contact Extractor — extract email and phone from vendor websites.
  *
- * When discovery results have missing email/phone, fetches the vendor website
- * and extracts contact info using regex patterns (mailto:, tel:, common patterns).
- * Optionally uses AI for complex pages.
+ * Extracts contact info from page HTML using regex patterns (mailto:, tel:,
+ * common patterns). Pages are fetched by the website crawler
+ * (website-crawler.service.ts).
  */
 
 export interface ExtractedContacts {
@@ -31,8 +31,9 @@ const GENERIC_BLACKLIST = new Set([
 ]);
 
 function isValidEmail(email: string): boolean {
-  const domain = email.split("@")[1]?.toLowerCase();
-  if (!domain) return false;
+  const [local, domain] = email.toLowerCase().split("@");
+  // "//www.youtube.com/@handle" style profile URLs are not emails
+  if (!local || !domain || local.includes("/") || !domain.includes(".")) return false;
   if (GENERIC_BLACKLIST.has(domain)) return false;
   if (domain.endsWith(".png") || domain.endsWith(".jpg") || domain.endsWith(".gif"))
     return false;
@@ -73,58 +74,3 @@ export function extractContactsFromHtml(html: string): ExtractedContacts {
     phones: [...phones],
   };
 }
-
-/**
- * Fetch a URL and extract contacts from the response HTML.
- * Tries homepage and common contact paths.
- */
-export async function extractContactsFromWebsite(
-  website: string,
-  options?: { timeoutMs?: number },
-): Promise<ExtractedContacts> {
-  const timeout = options?.timeoutMs ?? 8000;
-  const baseUrl = website.startsWith("http") ? website : `https://${website}`;
-
-  const urlsToTry = [
-    baseUrl,
-    `${baseUrl.replace(/\/$/, "")}/contact`,
-    `${baseUrl.replace(/\/$/, "")}/contact-us`,
-    `${baseUrl.replace(/\/$/, "")}/about`,
-  ];
-
-  const allEmails = new Set<string>();
-  const allPhones = new Set<string>();
-
-  for (const url of urlsToTry) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      const res = await fetch(url, {
-        signal: controller.signal,
-        headers: {
-          "User-Agent":
-            "Mozilla/5.0 (compatible; ProcMVP/1.0; +https://procmvp.com)",
-        },
-      });
-      clearTimeout(timeoutId);
-
-      if (!res.ok) continue;
-
-      const html = await res.text();
-      const extracted = extractContactsFromHtml(html);
-      extracted.emails.forEach((e) => allEmails.add(e));
-      extracted.phones.forEach((p) => allPhones.add(p));
-
-      // If we found contacts on the first page, we can stop
-      if (allEmails.size >= 2 || allPhones.size >= 1) break;
-    } catch {
-      // Skip failed URLs
-    }
-  }
-
-  return {
-    emails: [...allEmails],
-    phones: [...allPhones],
-  };
-}
@@ -0,0 +1,393 @@
+/**
+ * Currency Service — exchange rates and price normalization.
+ *
+ * Rates are stored in ExchangeRate using the ECB convention: units of a
+ * currency per 1 EUR, one row per currency per day. They are maintained by
+ * hand or imported from a file:
+ * - ECB XML (eurofxref-daily.xml / eurofxref-hist.xml)
+ * - ECB-style wide CSV: Date,USD,JPY,… (eurofxref-hist.csv)
+ * - Simple CSV: currency,rate[,date]
+ *
+ * Conversions go through EUR (cross rates) using each currency's latest
+ * rate on or before the requested date. Callers keep the original amount
+ * and currency alongside the converted one.
+ */
+
+import { prisma } from "../lib/prisma.js";
+import type { SetExchangeRateInput } from "../schemas/currency.schema.js";
+
+/** Currency all stored rates are quoted against */
+export const RATE_BASE_CURRENCY = "EUR";
+
+/** Currency for analytics and discovery price ranges (RFQs use their budget currency) */
+export function getReportingCurrency(): string {
+  return normalizeCurrencyCode(process.env.REPORTING_CURRENCY) ?? "USD";
+}
+
+export interface RateTable {
+  base: string;
+  asOf: Date;
+  rates: Map<string, { rate: number; rateDate: Date }>;
+}
+
+export interface NormalizedAmount {
+  amount: number;
+  currency: string;
+  /** null when no rate is known for one of the currencies */
+  normalizedAmount: number | null;
+  normalizedCurrency: string;
+  /** Multiplier from `currency` to `normalizedCurrency` */
+  rate: number | null;
+}
+
+export interface ParsedRate {
+  currency: string;
+  rate: number;
+  rateDate: Date;
+}
+
+// ─── Conversion ───────────────────────────────────────────────
+
+/** Latest rate per currency on or before `asOf` */
+export async function loadRateTable(asOf: Date = new Date()): Promise<RateTable> {
+  const rows = await prisma.exchangeRate.findMany({
+    where: { rateDate: { lte: asOf } },
+    orderBy: [{ currency: "asc" }, { rateDate: "desc" }],
+    distinct: ["currency"],
+  });
+
+  const rates = new Map<string, { rate: number; rateDate: Date }>();
+  for (const row of rows) {
+    rates.set(row.currency, { rate: row.rate, rateDate: row.rateDate });
+  }
+  return { base: RATE_BASE_CURRENCY, asOf, rates };
+}
+
+/** Multiplier that turns an amount in `from` into `to`, or null if a rate is missing */
+export function exchangeRate(table: RateTable, from: string, to: string): number | null {
+  const source = normalizeCurrencyCode(from);
+  const target = normalizeCurrencyCode(to);
+  if (!source || !target) return null;
+  if (source === target) return 1;
+
+  const perBase = (code: string) =>
+    code === table.base ? 1 : (table.rates.get(code)?.rate ?? null);
+  const fromRate = perBase(source);
+  const toRate = perBase(target);
+  if (!fromRate || !toRate) return null;
+
+  return toRate / fromRate;
+}
+
+export function convertAmount(
+  table: RateTable,
+  amount: number,
+  from: string,
+  to: string,
+): number | null {
+  const rate = exchangeRate(table, from, to);
+  return rate === null ? null : round(amount * rate, 4);
+}
+
+export function normalizeAmount(
+  table: RateTable,
+  amount: number,
+  from: string,
+  to: string,
+): NormalizedAmount {
+  const rate = exchangeRate(table, from, to);
+  return {
+    amount,
+    currency: normalizeCurrencyCode(from) ?? from,
+    normalizedAmount: rate === null ? null : round(amount * rate, 4),
+    normalizedCurrency: normalizeCurrencyCode(to) ?? to,
+    rate: rate === null ? null : round(rate, 8),
+  };
+}
+
+// ─── Currency codes ───────────────────────────────────────────
+
+/** Symbols and local abbreviations, longest first when matching */
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ["US$", "USD"],
+  ["CA$", "CAD"],
+  ["AU$", "AUD"],
+  ["NT$", "TWD"],
+  ["MX$", "MXN"],
+  ["HK$", "HKD"],
+  ["R$", "BRL"],
+  ["CN¥", "CNY"],
+  ["RMB", "CNY"],
+  ["E£", "EGP"],
+  ["Rs.", "INR"],
+  ["Rs", "INR"],
+  ["RM", "MYR"],
+  ["Rp", "IDR"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["₹", "INR"],
+  ["¥", "JPY"],
+  ["₩", "KRW"],
+  ["₫", "VND"],
+  ["฿", "THB"],
+  ["₺", "TRY"],
+  ["৳", "BDT"],
+  ["₨", "PKR"],
+  ["$", "USD"],
+];
+
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf("currency"));
+
+/** Currencies written with a bare "$" locally */
+const DOLLAR_CURRENCIES = new Set(["USD", "CAD", "AUD", "TWD", "MXN", "HKD", "SGD", "NZD"]);
+
+/** "usd", " USD ", "€", "rmb" → ISO code; null when unrecognised */
+export function normalizeCurrencyCode(input?: string | null): string | null {
+  const value = input?.trim().toUpperCase();
+  if (!value) return null;
+  // Aliases first: "RMB" looks like a code but is not an ISO one
+  const alias = CURRENCY_SYMBOLS.find(([symbol]) => symbol.toUpperCase() === value);
+  if (alias) return alias[1];
+  return /^[A-Z]{3}$/.test(value) ? value : null;
+}
+
+/**
+ * Currency of a display price such as "₹1,299" or "USD 12.50".
+ * A bare "$" resolves to `fallback` when that is a dollar currency
+ * (e.g. MXN on a Mexican storefront), otherwise to USD.
+ */
+export function detectCurrency(priceText: string, fallback?: string): string | null {
+  const code = priceText
+    .match(/\b[A-Z]{3}\b/g)
+    ?.find((c) => ISO_CURRENCIES.has(c));
+  if (code) return code;
+
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    if (!priceText.includes(symbol)) continue;
+    if (symbol === "$" && fallback && DOLLAR_CURRENCIES.has(fallback)) return fallback;
+    return currency;
+  }
+  return fallback ?? null;
+}
+
+// ─── Rate maintenance ─────────────────────────────────────────
+
+/** Latest rate per currency as of `asOf` (the base currency is implicit) */
+export async function listLatestRates(asOf?: Date) {
+  const table = await loadRateTable(asOf);
+  return {
+    base: table.base,
+    asOf: table.asOf,
+    reportingCurrency: getReportingCurrency(),
+    rates: [...table.rates.entries()].map(([currency, r]) => ({
+      currency,
+      rate: r.rate,
+      rateDate: r.rateDate,
+    })),
+  };
+}
+
+export async function getRateHistory(currency: string, limit = 90) {
+  return prisma.exchangeRate.findMany({
+    where: { currency: currency.toUpperCase() },
+    orderBy: { rateDate: "desc" },
+    take: limit,
+  });
+}
+
+export async function setExchangeRate(input: SetExchangeRateInput) {
+  if (input.currency === RATE_BASE_CURRENCY) {
+    throw new Error(`${RATE_BASE_CURRENCY} is the base currency; its rate is always 1`);
+  }
+  const rateDate = input.rateDate ? parseDate(input.rateDate) : today();
+  if (!rateDate) throw new Error("Invalid rate date");
+
+  return prisma.exchangeRate.upsert({
+    where: { currency_rateDate: { currency: input.currency, rateDate } },
+    create: { currency: input.currency, rate: input.rate, rateDate, source: "manual" },
+    update: { rate: input.rate, source: "manual" },
+  });
+}
+
+export async function deleteExchangeRate(id: string) {
+  return prisma.exchangeRate.delete({ where: { id } });
+}
+
+/**
+ * Import rates from an ECB XML/CSV or simple CSV file. Existing rows for
+ * the same currency and day are overwritten.
+ */
+export async function importExchangeRates(content: string, source?: "csv" | "ecb") {
+  const parsed = parseExchangeRateFile(content);
+  if (parsed.rates.length === 0) {
+    throw new Error("No exchange rates found in file");
+  }
+  const rowSource = source ?? parsed.format;
+
+  // Full ECB history is ~200k rows: too many to spread into Math.min/max
+  let fromTime = Infinity;
+  let toTime = -Infinity;
+  for (const r of parsed.rates) {
+    fromTime = Math.min(fromTime, r.rateDate.getTime());
+    toTime = Math.max(toTime, r.rateDate.getTime());
+  }
+  const from = new Date(fromTime);
+  const to = new Date(toTime);
+  const currencies = [...new Set(parsed.rates.map((r) => r.currency))];
+
+  const existing = await prisma.exchangeRate.findMany({
+    where: { currency: { in: currencies }, rateDate: { gte: from, lte: to } },
+    select: { id: true, currency: true, rateDate: true, rate: true },
+  });
+  const existingByKey = new Map(
+    existing.map((e) => [`${e.currency}|${e.rateDate.getTime()}`, e]),
+  );
+
+  const toCreate: ParsedRate[] = [];
+  const toUpdate: Array<{ id: string; rate: number }> = [];
+  for (const r of parsed.rates) {
+    const match = existingByKey.get(`${r.currency}|${r.rateDate.getTime()}`);
+    if (!match) toCreate.push(r);
+    else if (match.rate !== r.rate) toUpdate.push({ id: match.id, rate: r.rate });
+  }
+
+  for (let i = 0; i < toCreate.length; i += 5_000) {
+    await prisma.exchangeRate.createMany({
+      data: toCreate.slice(i, i + 5_000).map((r) => ({ ...r, source: rowSource })),
+      skipDuplicates: true,
+    });
+  }
+  for (const u of toUpdate) {
+    await prisma.exchangeRate.update({
+      where: { id: u.id },
+      data: { rate: u.rate, source: rowSource },
+    });
+  }
+
+  console.log(
+    `[Currency] Imported ${parsed.rates.length} rates (${parsed.format}) | created=${toCreate.length} updated=${toUpdate.length} skipped=${parsed.skipped}`,
+  );
+
+  return {
+    format: parsed.format,
+    imported: toCreate.length + toUpdate.length,
+    unchanged: parsed.rates.length - toCreate.length - toUpdate.length,
+    skipped: parsed.skipped,
+    currencies,
+    from,
+    to,
+  };
+}
+
+// ─── File parsing ─────────────────────────────────────────────
+
+/** Detect the file format and extract rates (per 1 EUR) */
+export function parseExchangeRateFile(content: string): {
+  format: "ecb" | "csv";
+  rates: ParsedRate[];
+  skipped: number;
+} {
+  const text = content.replace(/^﻿/, "").trim();
+  if (text.startsWith("<")) return { format: "ecb", ...parseEcbXml(text) };
+
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  const header = splitCsvLine(lines[0] ?? "").map((h) => h.toLowerCase());
+  if (header[0] === "date") return { format: "ecb", ...parseWideCsv(lines) };
+  return { format: "csv", ...parseLongCsv(lines, header) };
+}
+
+/** <Cube time="2024-01-05"><Cube currency="USD" rate="1.0921"/>…</Cube> */
+function parseEcbXml(xml: string): { rates: ParsedRate[]; skipped: number } {
+  const rates: ParsedRate[] = [];
+  let skipped = 0;
+  const dayRe = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g;
+  const rateRe = /<Cube\s+currency=["']([A-Za-z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g;
+
+  let day: RegExpExecArray | null;
+  while ((day = dayRe.exec(xml)) !== null) {
+    const rateDate = parseDate(day[1]);
+    let m: RegExpExecArray | null;
+    while ((m = rateRe.exec(day[2])) !== null) {
+      const rate = Number(m[2]);
+      if (!rateDate || !(rate > 0)) {
+        skipped++;
+        continue;
+      }
+      rates.push({ currency: m[1].toUpperCase(), rate, rateDate });
+    }
+  }
+  return { rates, skipped };
+}
+
+/** Date,USD,JPY,…  then one row per day; "N/A" or blank cells are skipped */
+function parseWideCsv(lines: string[]): { rates: ParsedRate[]; skipped: number } {
+  const header = splitCsvLine(lines[0]);
+  const rates: ParsedRate[] = [];
+  let skipped = 0;
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const rateDate = parseDate(cells[0]);
+    for (let i = 1; i < header.length; i++) {
+      const currency = header[i].toUpperCase();
+      const cell = cells[i] ?? "";
+      if (!currency || !cell || cell.toUpperCase() === "N/A") continue;
+
+      const rate = Number(cell);
+      if (!rateDate || !/^[A-Z]{3}$/.test(currency) || !(rate > 0)) {
+        skipped++;
+        continue;
+      }
+      rates.push({ currency, rate, rateDate });
+    }
+  }
+  return { rates, skipped };
+}
+
+/** currency,rate[,date] with or without a header row; date defaults to today */
+function parseLongCsv(lines: string[], header: string[]): { rates: ParsedRate[]; skipped: number } {
+  const hasHeader = header.includes("currency") || header.includes("rate");
+  const col = (name: string, fallback: number) =>
+    hasHeader ? header.indexOf(name) : fallback;
+  const currencyCol = col("currency", 0);
+  const rateCol = col("rate", 1);
+  const dateCol = hasHeader ? header.findIndex((h) => h === "date" || h === "ratedate") : 2;
+
+  const rates: ParsedRate[] = [];
+  let skipped = 0;
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = splitCsvLine(line);
+    const currency = normalizeCurrencyCode(cells[currencyCol]);
+    const rate = Number(cells[rateCol]);
+    const rateDate = dateCol >= 0 && cells[dateCol] ? parseDate(cells[dateCol]) : today();
+
+    if (!currency || currency === RATE_BASE_CURRENCY || !(rate > 0) || !rateDate) {
+      skipped++;
+      continue;
+    }
+    rates.push({ currency, rate, rateDate });
+  }
+  return { rates, skipped };
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(/[,;\t]/).map((c) => c.trim().replace(/^"|"$/g, ""));
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** YYYY-MM-DD → UTC midnight (matches the @db.Date column) */
+function parseDate(value: string | undefined): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return null;
+  const date = new Date(`${value.trim()}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function today(): Date {
+  return new Date(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`);
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
@@ -0,0 +1,230 @@
+/**
+ * Discovery Review Service — triage of discovery results.
+ *
+ * Results move through review states before they become vendors:
+ *   NEW → NEEDS_RESEARCH / SHORTLISTED → IMPORTED
+ *       ↘ SKIPPED (not now) / REJECTED (with a reason code)
+ * Any state except IMPORTED can be reopened. The older `imported` and
+ * `skipped` flags are kept in sync so existing queries keep working.
+ *
+ * Results can be assigned to a member, changed in bulk (by ID or by a
+ * filter within one job) and filtered through saved views. Results belong
+ * to the organisation that ran their job.
+ */
+
+import type { DiscoveryRejectReason, DiscoveryReviewStatus, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type {
+  BulkResultActionInput,
+  CreateResultViewInput,
+  ResultFilter,
+  ReviewResultInput,
+} from "../schemas/discovery.schema.js";
+
+export const REJECT_REASON_LABELS: Record<DiscoveryRejectReason, string> = {
+  NOT_A_MANUFACTURER: "Not a manufacturer",
+  WRONG_PRODUCT: "Wrong product",
+  WRONG_COUNTRY: "Wrong country",
+  DUPLICATE: "Duplicate",
+  NO_CONTACT: "No contact details",
+  INSUFFICIENT_CERTIFICATIONS: "Missing required certifications",
+  TOO_SMALL: "Too small",
+  OTHER: "Other",
+};
+
+const BULK_ACTION_STATUS: Record<
+  Exclude<BulkResultActionInput["action"], "assign">,
+  Exclude<DiscoveryReviewStatus, "IMPORTED">
+> = {
+  shortlist: "SHORTLISTED",
+  needs_research: "NEEDS_RESEARCH",
+  skip: "SKIPPED",
+  reject: "REJECTED",
+  reopen: "NEW",
+};
+
+// ─── Filters ──────────────────────────────────────────────────
+
+export function buildResultWhere(
+  filter: ResultFilter,
+  organizationId: string,
+): Prisma.DiscoveryResultWhereInput {
+  const where: Prisma.DiscoveryResultWhereInput = { job: { organizationId } };
+  if (filter.jobId) where.jobId = filter.jobId;
+  if (filter.status?.length) where.reviewStatus = { in: filter.status };
+  if (filter.country) where.country = { equals: filter.country, mode: "insensitive" };
+  if (filter.minConfidence !== undefined || filter.maxConfidence !== undefined) {
+    where.confidence = { gte: filter.minConfidence, lte: filter.maxConfidence };
+  }
+  if (filter.certification) where.certifications = { has: filter.certification };
+  if (filter.assignedToId) {
+    where.assignedToId = filter.assignedToId === "unassigned" ? null : filter.assignedToId;
+  }
+  return where;
+}
+
+// ─── Review ───────────────────────────────────────────────────
+
+/** Field updates for moving a result into `status` */
+function reviewUpdate(
+  status: Exclude<DiscoveryReviewStatus, "IMPORTED">,
+  userId: string,
+  rejectReason?: DiscoveryRejectReason,
+  note?: string,
+) {
+  const skipReason =
+    status === "REJECTED"
+      ? note || REJECT_REASON_LABELS[rejectReason ?? "OTHER"]
+      : status === "SKIPPED"
+        ? note || "Manually skipped"
+        : null;
+
+  return {
+    reviewStatus: status,
+    skipped: status === "SKIPPED" || status === "REJECTED",
+    skipReason,
+    rejectReason: status === "REJECTED" ? rejectReason : null,
+    reviewNote: note ?? null,
+    reviewedById: userId,
+    reviewedAt: new Date(),
+  };
+}
+
+export async function reviewDiscoveryResult(
+  resultId: string,
+  input: ReviewResultInput,
+  userId: string,
+) {
+  const result = await prisma.discoveryResult.findUnique({
+    where: { id: resultId },
+    select: { reviewStatus: true },
+  });
+  if (!result) throw new Error("Discovery result not found");
+  if (result.reviewStatus === "IMPORTED") throw new Error("Result already imported");
+
+  return prisma.discoveryResult.update({
+    where: { id: resultId },
+    data: reviewUpdate(input.status, userId, input.rejectReason, input.note),
+    include: { assignedTo: { select: { id: true, name: true } } },
+  });
+}
+
+export async function assignDiscoveryResult(
+  resultId: string,
+  assignedToId: string | null,
+  organizationId: string,
+) {
+  if (assignedToId) await assertAssignee(organizationId, assignedToId);
+
+  return prisma.discoveryResult.update({
+    where: { id: resultId },
+    data: { assignedToId },
+    include: { assignedTo: { select: { id: true, name: true } } },
+  });
+}
+
+/**
+ * Apply one action to many results. Imported results are never changed;
+ * `matched` counts them, `updated` does not.
+ */
+export async function bulkUpdateResults(
+  input: BulkResultActionInput,
+  organizationId: string,
+  userId: string,
+) {
+  const where: Prisma.DiscoveryResultWhereInput = input.resultIds
+    ? { id: { in: input.resultIds }, job: { organizationId } }
+    : buildResultWhere(input.filter!, organizationId);
+
+  let data: Prisma.DiscoveryResultUncheckedUpdateManyInput;
+  if (input.action === "assign") {
+    if (input.assignedToId) await assertAssignee(organizationId, input.assignedToId);
+    data = { assignedToId: input.assignedToId ?? null };
+  } else {
+    data = reviewUpdate(
+      BULK_ACTION_STATUS[input.action],
+      userId,
+      input.rejectReason,
+      input.note,
+    );
+  }
+
+  const [matched, updated] = await prisma.$transaction([
+    prisma.discoveryResult.count({ where }),
+    prisma.discoveryResult.updateMany({
+      where: { AND: [where, { reviewStatus: { not: "IMPORTED" } }] },
+      data,
+    }),
+  ]);
+
+  console.log(
+    `[Review] Bulk ${input.action} by ${userId}: matched=${matched} updated=${updated.count}`,
+  );
+  return { action: input.action, matched, updated: updated.count };
+}
+
+/** Result count per review state and per assignee for one job */
+export async function getReviewSummary(jobId: string) {
+  const [byStatus, byAssignee] = await Promise.all([
+    prisma.discoveryResult.groupBy({
+      by: ["reviewStatus"],
+      where: { jobId },
+      _count: { _all: true },
+    }),
+    prisma.discoveryResult.groupBy({
+      by: ["assignedToId"],
+      where: { jobId, reviewStatus: { not: "IMPORTED" } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const status = Object.fromEntries(
+    byStatus.map((g) => [g.reviewStatus, g._count._all]),
+  ) as Partial<Record<DiscoveryReviewStatus, number>>;
+  const assignees = byAssignee.map((g) => ({
+    assignedToId: g.assignedToId,
+    count: g._count._all,
+  }));
+  return { status, assignees };
+}
+
+async function assertAssignee(organizationId: string, userId: string) {
+  const membership = await prisma.membership.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+    select: { role: true },
+  });
+  if (!membership) throw new Error("Assignee not found");
+  if (membership.role === "VIEWER") throw new Error("Viewers can't be assigned results");
+}
+
+// ─── Saved views ──────────────────────────────────────────────
+
+/** The user's own views plus views shared by others in the organisation */
+export async function listResultViews(organizationId: string, userId: string) {
+  return prisma.discoveryResultView.findMany({
+    where: { organizationId, OR: [{ createdById: userId }, { shared: true }] },
+    include: { createdBy: { select: { id: true, name: true } } },
+    orderBy: { name: "asc" },
+  });
+}
+
+export async function createResultView(
+  input: CreateResultViewInput,
+  organizationId: string,
+  userId: string,
+) {
+  return prisma.discoveryResultView.create({
+    data: {
+      organizationId,
+      name: input.name,
+      filters: input.filters as unknown as Prisma.InputJsonValue,
+      shared: input.shared,
+      createdById: userId,
+    },
+    include: { createdBy: { select: { id: true, name: true } } },
+  });
+}
+
+export async function deleteResultView(id: string) {
+  await prisma.discoveryResultView.delete({ where: { id } });
+}
@@ -0,0 +1,244 @@
+/**
+ * Discovery Schedule Service — recurring vendor discovery.
+ *
+ * A DiscoverySchedule describes a watch list (categories × countries) and
+ * when to re-run it: a cron expression or a fixed interval. The scheduler
+ * tick spawns a regular DiscoveryJob for every due schedule; the job
+ * pipeline then only reports vendors that earlier runs of the same schedule
+ * have not already reported (see checkDuplicate in discovery.service.ts).
+ *
+ * Safe with several server instances: each due run is claimed with a
+ * conditional update on nextRunAt, so exactly one instance spawns it.
+ */
+
+import { CronExpressionParser } from "cron-parser";
+import type { DiscoverySchedule } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { createDiscoveryJob } from "./discovery.service.js";
+import type {
+  CreateDiscoveryJobInput,
+  CreateDiscoveryScheduleInput,
+  UpdateDiscoveryScheduleInput,
+} from "../schemas/discovery.schema.js";
+
+const TICK_MS = Number(process.env.DISCOVERY_SCHEDULER_TICK_MS) || 60_000;
+
+let tickTimer: NodeJS.Timeout | null = null;
+
+// ─── Next-run calculation ─────────────────────────────────────
+
+type ScheduleTiming = Pick<
+  DiscoverySchedule,
+  "cronExpression" | "intervalMinutes" | "timezone"
+>;
+
+/**
+ * Compute the next run strictly after `from`.
+ * Throws on an invalid cron expression or timezone.
+ */
+export function computeNextRunAt(
+  schedule: ScheduleTiming,
+  from: Date = new Date(),
+): Date {
+  if (schedule.cronExpression) {
+    try {
+      return CronExpressionParser.parse(schedule.cronExpression, {
+        currentDate: from,
+        tz: schedule.timezone || "UTC",
+      })
+        .next()
+        .toDate();
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Invalid cron expression "${schedule.cronExpression}": ${message}`);
+    }
+  }
+
+  if (schedule.intervalMinutes) {
+    return new Date(from.getTime() + schedule.intervalMinutes * 60_000);
+  }
+
+  throw new Error("Schedule needs a cronExpression or intervalMinutes");
+}
+
+// ─── CRUD ─────────────────────────────────────────────────────
+
+export async function createDiscoverySchedule(
+  input: CreateDiscoveryScheduleInput,
+  organizationId: string,
+  createdById?: string,
+) {
+  const nextRunAt = input.enabled ? computeNextRunAt(toTiming(input)) : null;
+
+  return prisma.discoverySchedule.create({
+    data: {
+      ...input,
+      organizationId,
+      cronExpression: input.cronExpression ?? null,
+      intervalMinutes: input.intervalMinutes ?? null,
+      nextRunAt,
+      createdById,
+    },
+  });
+}
+
+export async function updateDiscoverySchedule(
+  id: string,
+  input: UpdateDiscoveryScheduleInput,
+) {
+  const existing = await prisma.discoverySchedule.findUnique({ where: { id } });
+  if (!existing) throw new Error("Discovery schedule not found");
+
+  // Switching from cron to interval (or back) clears the other field
+  const timing: ScheduleTiming = {
+    cronExpression: input.intervalMinutes
+      ? null
+      : (input.cronExpression ?? existing.cronExpression),
+    intervalMinutes: input.cronExpression
+      ? null
+      : (input.intervalMinutes ?? existing.intervalMinutes),
+    timezone: input.timezone ?? existing.timezone,
+  };
+  const enabled = input.enabled ?? existing.enabled;
+
+  const timingChanged =
+    timing.cronExpression !== existing.cronExpression ||
+    timing.intervalMinutes !== existing.intervalMinutes ||
+    timing.timezone !== existing.timezone;
+
+  let nextRunAt = existing.nextRunAt;
+  if (!enabled) {
+    nextRunAt = null;
+  } else if (timingChanged || !existing.nextRunAt) {
+    nextRunAt = computeNextRunAt(timing);
+  }
+
+  return prisma.discoverySchedule.update({
+    where: { id },
+    data: { ...input, ...timing, enabled, nextRunAt },
+  });
+}
+
+export async function deleteDiscoverySchedule(id: string) {
+  const existing = await prisma.discoverySchedule.findUnique({ where: { id } });
+  if (!existing) throw new Error("Discovery schedule not found");
+
+  // Jobs keep their results; their scheduleId is set to NULL by the FK
+  await prisma.discoverySchedule.delete({ where: { id } });
+}
+
+/**
+ * Spawn a run immediately, outside the regular cadence.
+ * Does not move nextRunAt.
+ */
+export async function runDiscoveryScheduleNow(id: string) {
+  const schedule = await prisma.discoverySchedule.findUnique({ where: { id } });
+  if (!schedule) throw new Error("Discovery schedule not found");
+
+  return spawnScheduledJob(schedule);
+}
+
+// ─── Scheduler ────────────────────────────────────────────────
+
+/** Start the scheduler tick in this process. Called once on server startup. */
+export function startDiscoveryScheduler(): void {
+  if (tickTimer) return;
+  tickTimer = setInterval(() => void tick(), TICK_MS);
+  void tick();
+  console.log(`[Scheduler] Discovery scheduler started | tick=${TICK_MS}ms`);
+}
+
+export function stopDiscoveryScheduler(): void {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = null;
+}
+
+async function tick(): Promise<void> {
+  try {
+    const now = new Date();
+    const due = await prisma.discoverySchedule.findMany({
+      where: { enabled: true, nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: "asc" },
+    });
+
+    for (const schedule of due) {
+      await runDueSchedule(schedule, now).catch((err) =>
+        console.error(`[Scheduler] Schedule ${schedule.id} failed:`, err),
+      );
+    }
+  } catch (err) {
+    console.error("[Scheduler] Tick failed:", err);
+  }
+}
+
+async function runDueSchedule(
+  schedule: DiscoverySchedule,
+  now: Date,
+): Promise<void> {
+  let nextRunAt: Date | null;
+  try {
+    nextRunAt = computeNextRunAt(schedule, now);
+  } catch (err: unknown) {
+    // A schedule that can never fire again is disabled rather than retried every tick
+    console.error(`[Scheduler] Disabling schedule ${schedule.id}:`, err);
+    nextRunAt = null;
+  }
+
+  // Claim this occurrence; another instance may have done so already
+  const { count } = await prisma.discoverySchedule.updateMany({
+    where: { id: schedule.id, enabled: true, nextRunAt: schedule.nextRunAt },
+    data: {
+      nextRunAt,
+      lastRunAt: now,
+      ...(nextRunAt === null && { enabled: false }),
+    },
+  });
+  if (count === 0 || nextRunAt === null) return;
+
+  // Don't stack runs when the previous one is still queued or running
+  const inFlight = await prisma.discoveryJob.findFirst({
+    where: { scheduleId: schedule.id, status: { in: ["PENDING", "RUNNING"] } },
+    select: { id: true },
+  });
+  if (inFlight) {
+    console.log(
+      `[Scheduler] Skipping "${schedule.name}": job ${inFlight.id} still in progress`,
+    );
+    return;
+  }
+
+  await spawnScheduledJob(schedule);
+}
+
+async function spawnScheduledJob(schedule: DiscoverySchedule) {
+  const job = await createDiscoveryJob(
+    {
+      need: schedule.need ?? undefined,
+      productCategories: schedule.productCategories,
+      targetCountries: schedule.targetCountries,
+      maxVendorsPerQuery: schedule.maxVendorsPerQuery,
+      autoImport: schedule.autoImport,
+      autoImportThreshold: schedule.autoImportThreshold,
+      searchProviders: schedule.searchProviders as CreateDiscoveryJobInput["searchProviders"],
+    },
+    schedule.organizationId,
+    { scheduleId: schedule.id },
+  );
+
+  console.log(`[Scheduler] "${schedule.name}" spawned job ${job.id}`);
+  return job;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function toTiming(input: {
+  cronExpression?: string;
+  intervalMinutes?: number;
+  timezone?: string;
+}): ScheduleTiming {
+  return {
+    cronExpression: input.cronExpression ?? null,
+    intervalMinutes: input.intervalMinutes ?? null,
+    timezone: input.timezone ?? "UTC",
+  };
+}
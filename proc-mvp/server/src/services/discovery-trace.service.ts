@@ -0,0 +1,126 @@
+/**
+ * Discovery Trace Service — explainability log for discovery jobs.
+ *
+ * Every search query a job processes gets a DiscoveryQueryRun row holding
+ * what was searched, what each provider and the LLM returned, timings,
+ * token usage, errors and the DiscoveryResult IDs the query produced.
+ *
+ * Tracing is best-effort: a failed trace write is logged and never fails
+ * the query itself.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type { ProviderTrace, MergedSearchResult } from "./search-provider.js";
+import type { LlmTrace } from "./vendor-extractor.js";
+
+/** Collected while a query runs, persisted when it finishes */
+export interface QueryTrace {
+  providers: ProviderTrace[];
+  providerResults?: MergedSearchResult[];
+  llm: LlmTrace;
+  priceSampleSize?: number;
+  vendorsExtracted: number;
+  vendorsNew: number;
+  vendorsSkipped: number;
+  resultIds: string[];
+}
+
+interface QueryRunInput {
+  jobId: string;
+  attempt: number;
+  queryIndex: number;
+  query: string;
+  productCategory: string;
+  country: string;
+  mode: string;
+}
+
+/**
+ * Run `fn` for one search query and record it as a DiscoveryQueryRun.
+ * Errors from `fn` are recorded on the run and rethrown.
+ */
+export async function traceQueryRun<T>(
+  input: QueryRunInput,
+  fn: (trace: QueryTrace) => Promise<T>,
+): Promise<T> {
+  const trace: QueryTrace = {
+    providers: [],
+    llm: {},
+    vendorsExtracted: 0,
+    vendorsNew: 0,
+    vendorsSkipped: 0,
+    resultIds: [],
+  };
+  const startedAt = Date.now();
+
+  const runId = await prisma.discoveryQueryRun
+    .create({ data: input, select: { id: true } })
+    .then((r) => r.id)
+    .catch((err) => {
+      console.error("[Trace] Failed to create query run:", err);
+      return null;
+    });
+
+  try {
+    const value = await fn(trace);
+    await finishRun(runId, trace, startedAt, null);
+    return value;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    await finishRun(runId, trace, startedAt, message);
+    throw err;
+  }
+}
+
+async function finishRun(
+  runId: string | null,
+  trace: QueryTrace,
+  startedAt: number,
+  error: string | null,
+): Promise<void> {
+  if (!runId) return;
+
+  const { llm } = trace;
+  try {
+    await prisma.discoveryQueryRun.update({
+      where: { id: runId },
+      data: {
+        status: error ? "FAILED" : "SUCCEEDED",
+        providers: trace.providers.length
+          ? (trace.providers as unknown as Prisma.InputJsonValue)
+          : undefined,
+        providerResults: trace.providerResults
+          ? (trace.providerResults as unknown as Prisma.InputJsonValue)
+          : undefined,
+        llmModel: llm.model,
+        llmMessages: llm.messages
+          ? (llm.messages as Prisma.InputJsonValue)
+          : undefined,
+        llmResponse: llm.response,
+        promptTokens: llm.promptTokens,
+        completionTokens: llm.completionTokens,
+        totalTokens: llm.totalTokens,
+        llmMs: llm.durationMs,
+        priceSampleSize: trace.priceSampleSize,
+        vendorsExtracted: trace.vendorsExtracted,
+        vendorsNew: trace.vendorsNew,
+        vendorsSkipped: trace.vendorsSkipped,
+        resultIds: trace.resultIds,
+        error: error ?? (llm.parseError ? `LLM response not parseable: ${llm.parseError}` : null),
+        durationMs: Date.now() - startedAt,
+        completedAt: new Date(),
+      },
+    });
+  } catch (err) {
+    console.error(`[Trace] Failed to update query run ${runId}:`, err);
+  }
+}
+
+/** Query runs of a job, oldest first (retries show up as later attempts) */
+export async function getQueryRunsForJob(jobId: string) {
+  return prisma.discoveryQueryRun.findMany({
+    where: { jobId },
+    orderBy: [{ startedAt: "asc" }, { queryIndex: "asc" }],
+  });
+}
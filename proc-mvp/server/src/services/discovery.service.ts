@@ -7,26 +7,60 @@
  * 3. Price discovery via SerpAPI Google Shopping (high-confidence SERP data, no AI)
  * 4. Extract structured vendor profiles; enrich with price ranges
  * 5. Deduplicate against existing vendors & same-job results
- * 6. Store discovery results (including priceMin, priceMax, priceDiscovery)
- * 7. Optionally auto-import high-confidence results
+ * 6. Score confidence from weighted signals (confidence-scoring.service.ts)
+ * 7. Store discovery results (including priceMin, priceMax, priceDiscovery,
+ *    plus the range in the reporting currency — currency.service.ts)
+ * 8. Optionally auto-import high-confidence results
+ *
+ * Results can be enriched on demand by crawling the vendor's website
+ * (website-crawler.service.ts); import then uses the crawled addresses,
+ * contacts, certifications and products.
  *
  * Price discovery uses SERP scraping (Google Shopping API) for structured
  * price data — no AI extraction needed, high confidence.
  *
- * Runs in the background with batch processing and progress tracking.
+ * Runs on the durable job queue (job-runner.ts) with batch processing,
+ * progress tracking and resumption from the last completed query.
  */
 
+import type { DiscoveryJob, Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
-import { startBackgroundJob, cancelJob as cancelBgJob } from "./job-runner.js";
-import { createSearchProvider } from "./search-provider.js";
+import {
+  startJobWorker,
+  notifyJobQueued,
+  cancelJob as cancelBgJob,
+} from "./job-runner.js";
+import {
+  resolveSearchProviders,
+  searchAllProviders,
+} from "./search-provider.js";
+import { hostOf } from "./search-providers/http.js";
+import { traceQueryRun, type QueryTrace } from "./discovery-trace.service.js";
+import {
+  getScoringWeights,
+  scoreVendorConfidence,
+} from "./confidence-scoring.service.js";
+import {
+  findVendorMatch,
+  normalizeCompanyName,
+  companyDomain,
+  type VendorMatch,
+} from "./entity-resolution.service.js";
 import {
   researchVendors,
   extractVendorsFromResults,
   generateMockVendors,
   type ExtractedVendor,
 } from "./vendor-extractor.js";
+import { crawlVendorWebsite, getStoredCrawl } from "./website-crawler.service.js";
+import {
+  loadRateTable,
+  convertAmount,
+  getReportingCurrency,
+} from "./currency.service.js";
 import { discoverPrices, type PriceDiscoveryResult } from "./price-discovery.service.js";
 import { storeProductsFromPriceDiscovery, storeProductFromResult } from "./product-discovery.service.js";
+import { recordPriceDiscovery } from "./price-benchmark.service.js";
 import type { CreateDiscoveryJobInput } from "../schemas/discovery.schema.js";
 
 // ─── Types ────────────────────────────────────────────────────
@@ -41,8 +75,15 @@ type DiscoveryMode = "ai-research" | "web-search" | "mock";
 
 // ─── Discovery Mode Detection ─────────────────────────────────
 
-function detectDiscoveryMode(): DiscoveryMode {
-  if (process.env.OPENAI_API_KEY && process.env.SERP_API_KEY) {
+/**
+ * Web search needs OpenAI (to extract vendors from results) plus at least one
+ * usable search provider — the job's picks, or the configured defaults.
+ */
+function detectDiscoveryMode(searchProviders?: string[]): DiscoveryMode {
+  if (
+    process.env.OPENAI_API_KEY &&
+    resolveSearchProviders(searchProviders).length > 0
+  ) {
     return "web-search";
   }
   if (process.env.OPENAI_API_KEY) {
@@ -93,13 +134,23 @@ async function processInBatches<T, R>(
     const batch = items.slice(i, Math.min(i + batchSize, total));
     const batchResults = await Promise.allSettled(batch.map(processor));
 
+    // A failed item fails the attempt before the cursor moves past its batch,
+    // so the job runner retries the batch with backoff instead of losing it
+    const failures: unknown[] = [];
     for (const result of batchResults) {
       if (result.status === "fulfilled") {
         results.push(result.value);
       } else {
         console.error("[Discovery] Batch item failed:", result.reason);
+        failures.push(result.reason);
       }
     }
+    if (failures.length > 0) {
+      const first = failures[0] instanceof Error ? failures[0].message : String(failures[0]);
+      throw new Error(
+        `${failures.length}/${batch.length} queries failed in batch at ${i}: ${first}`,
+      );
+    }
 
     const completed = Math.min(i + batchSize, total);
     await options?.onBatchDone?.(completed, total);
@@ -131,7 +182,7 @@ function enrichVendorsWithPrices(
     ...v,
     priceMin: priceData.minPrice,
     priceMax: priceData.maxPrice,
-    priceCurrency: "USD",
+    priceCurrency: priceData.currency,
     priceDiscovery: {
       productCategory: priceData.productCategory,
       country: priceData.country,
@@ -144,11 +195,15 @@ function enrichVendorsWithPrices(
 // ─── Public API ───────────────────────────────────────────────
 
 /**
- * Create and start a vendor discovery job.
- * Returns immediately with the job record; actual discovery runs in background.
+ * Create and queue a vendor discovery job for the organisation.
+ * Returns immediately with the job record; a queue worker picks it up.
  */
-export async function createDiscoveryJob(input: CreateDiscoveryJobInput) {
-  const mode = detectDiscoveryMode();
+export async function createDiscoveryJob(
+  input: CreateDiscoveryJobInput,
+  organizationId: string,
+  options?: { scheduleId?: string },
+) {
+  const mode = detectDiscoveryMode(input.searchProviders);
   const queries = generateSearchQueries(
     input.productCategories,
     input.targetCountries,
@@ -156,30 +211,39 @@ export async function createDiscoveryJob(input: CreateDiscoveryJobInput) {
 
   const job = await prisma.discoveryJob.create({
     data: {
+      organizationId,
       ...(input.need && { need: input.need }),
+      ...(options?.scheduleId && { scheduleId: options.scheduleId }),
       productCategories: input.productCategories,
       targetCountries: input.targetCountries,
+      searchProviders: input.searchProviders ?? [],
       searchQueries: queries.map((q) => q.query),
       maxVendorsPerQuery: input.maxVendorsPerQuery,
       autoImport: input.autoImport,
       autoImportThreshold: input.autoImportThreshold,
       discoveryMode: mode,
       status: "PENDING",
+      nextRunAt: new Date(),
     },
   });
 
   console.log(
-    `[Discovery] Job ${job.id} created | mode=${mode} | queries=${queries.length} | autoImport=${input.autoImport}`,
+    `[Discovery] Job ${job.id} queued | mode=${mode} | queries=${queries.length} | autoImport=${input.autoImport}`,
   );
 
-  // Start the discovery pipeline in the background
-  startBackgroundJob(job.id, (signal) =>
-    executeDiscoveryJob(job.id, queries, mode, signal),
-  );
+  notifyJobQueued();
 
   return job;
 }
 
+/**
+ * Start the discovery queue worker in this process.
+ * Called once on server startup.
+ */
+export function startDiscoveryWorker(): Promise<void> {
+  return startJobWorker(executeDiscoveryJob);
+}
+
 /**
  * Cancel a running or pending discovery job.
  */
@@ -190,15 +254,18 @@ export async function cancelDiscoveryJob(jobId: string) {
     throw new Error(`Cannot cancel job in ${job.status} status`);
   }
 
-  cancelBgJob(jobId);
-
-  return prisma.discoveryJob.update({
+  // The status change is what stops the job: the owning worker (possibly in
+  // another process) sees it on its next heartbeat. Abort locally right away.
+  const cancelled = await prisma.discoveryJob.update({
     where: { id: jobId },
     data: {
       status: "CANCELLED",
       completedAt: new Date(),
     },
   });
+  cancelBgJob(jobId);
+
+  return cancelled;
 }
 
 /**
@@ -208,64 +275,109 @@ export async function cancelDiscoveryJob(jobId: string) {
 export async function importDiscoveryResult(resultId: string) {
   const result = await prisma.discoveryResult.findUnique({
     where: { id: resultId },
+    include: { job: { select: { organizationId: true } } },
   });
 
   if (!result) throw new Error("Discovery result not found");
   if (result.imported) throw new Error("Result already imported");
   if (result.skipped) throw new Error("Result was skipped");
 
-  // Build contacts from available data
+  const crawl = getStoredCrawl(result.rawData);
+
+  // Build contacts from available data (plus whatever the crawl found)
   const contacts: Array<{ type: string; value: string }> = [];
   if (result.email) contacts.push({ type: "email", value: result.email });
   if (result.phone) contacts.push({ type: "phone", value: result.phone });
+  if (crawl) {
+    for (const email of crawl.emails.slice(0, 5)) contacts.push({ type: "email", value: email });
+    for (const phone of crawl.phones.slice(0, 5)) contacts.push({ type: "phone", value: phone });
+    for (const [network, url] of Object.entries(crawl.socialLinks)) {
+      contacts.push({ type: network, value: url });
+    }
+  }
+  const uniqueContacts = contacts.filter(
+    (c, i) =>
+      contacts.findIndex(
+        (o) => o.type === c.type && o.value.toLowerCase() === c.value.toLowerCase(),
+      ) === i,
+  );
+
+  const certificationNames = dedupeCaseInsensitive([
+    ...result.certifications,
+    ...(crawl?.certifications ?? []),
+  ]);
+  const crawledProducts = dedupeCaseInsensitive(crawl?.products ?? []).filter(
+    (name) => !result.productCategories.some((c) => c.toLowerCase() === name.toLowerCase()),
+  );
 
   // Create the vendor
   const vendor = await prisma.vendor.create({
     data: {
+      organizationId: result.job.organizationId,
       companyName: result.companyName,
       country: result.country || "Unknown",
       website: result.website,
+      address: crawl?.addresses[0],
       companySize: result.companySize,
-      yearsInBusiness: result.yearsInBusiness,
+      yearsInBusiness:
+        result.yearsInBusiness ??
+        (crawl?.yearFounded ? new Date().getFullYear() - crawl.yearFounded : null),
       status: "DISCOVERED",
       qualityScore: 0,
       reliabilityScore: 0,
       performanceScore: 0,
       responseRate: 0,
       contacts:
-        contacts.length > 0
-          ? { createMany: { data: contacts } }
+        uniqueContacts.length > 0
+          ? { createMany: { data: uniqueContacts } }
           : undefined,
       products:
-        result.productCategories.length > 0
+        result.productCategories.length > 0 || crawledProducts.length > 0
           ? {
               createMany: {
-                data: result.productCategories.map((cat) => {
-                  const r = result as {
-                    priceMin?: number | null;
-                    priceMax?: number | null;
-                    priceCurrency?: string | null;
-                  };
-                  return {
-                    productCategory: cat,
-                    priceRange:
-                      r.priceMin != null || r.priceMax != null
-                        ? {
-                            min: r.priceMin,
-                            max: r.priceMax,
-                            currency: r.priceCurrency ?? "USD",
-                          }
-                        : undefined,
-                  };
-                }),
+                data: [
+                  ...result.productCategories.map((cat) => {
+                    const r = result as {
+                      priceMin?: number | null;
+                      priceMax?: number | null;
+                      priceCurrency?: string | null;
+                      priceMinNormalized?: number | null;
+                      priceMaxNormalized?: number | null;
+                      normalizedCurrency?: string | null;
+                    };
+                    return {
+                      productCategory: cat,
+                      priceRange:
+                        r.priceMin != null || r.priceMax != null
+                          ? {
+                              min: r.priceMin,
+                              max: r.priceMax,
+                              currency: r.priceCurrency ?? "USD",
+                              ...(r.normalizedCurrency && {
+                                normalized: {
+                                  min: r.priceMinNormalized,
+                                  max: r.priceMaxNormalized,
+                                  currency: r.normalizedCurrency,
+                                },
+                              }),
+                            }
+                          : undefined,
+                    };
+                  }),
+                  // Products listed on the vendor's own website
+                  ...crawledProducts.map((name) => ({
+                    productCategory: name,
+                    specifications: { source: "website", url: crawl?.startUrl },
+                  })),
+                ],
               },
             }
           : undefined,
       certifications:
-        result.certifications.length > 0
+        certificationNames.length > 0
           ? {
               createMany: {
-                data: result.certifications.map((name) => ({ name })),
+                data: certificationNames.map((name) => ({ name })),
               },
             }
           : undefined,
@@ -280,7 +392,7 @@ export async function importDiscoveryResult(resultId: string) {
   // Mark the result as imported
   const updatedResult = await prisma.discoveryResult.update({
     where: { id: resultId },
-    data: { imported: true, vendorId: vendor.id },
+    data: { imported: true, reviewStatus: "IMPORTED", vendorId: vendor.id },
   });
 
   // Bump the job's import counter
@@ -292,6 +404,46 @@ export async function importDiscoveryResult(resultId: string) {
   return { vendor, result: updatedResult };
 }
 
+/**
+ * Crawl a discovery result's website and store what was found in
+ * rawData.crawl. Fills in missing email/phone and adds crawled
+ * certifications to the result; the rest is applied on import.
+ */
+export async function crawlDiscoveryResult(resultId: string) {
+  const result = await prisma.discoveryResult.findUnique({
+    where: { id: resultId },
+  });
+  if (!result) throw new Error("Discovery result not found");
+  if (!result.website) throw new Error("Result has no website to crawl");
+
+  const crawl = await crawlVendorWebsite(result.website);
+  if (crawl.pages.every((p) => p.status === null || p.status >= 400)) {
+    const reason =
+      crawl.pages[0]?.error ??
+      (crawl.blockedByRobots.length ? "Blocked by robots.txt" : "No pages fetched");
+    throw new Error(`Website could not be crawled: ${reason}`);
+  }
+
+  return prisma.discoveryResult.update({
+    where: { id: resultId },
+    data: {
+      email: result.email ?? crawl.emails[0],
+      phone: result.phone ?? crawl.phones[0],
+      certifications: dedupeCaseInsensitive([
+        ...result.certifications,
+        ...crawl.certifications,
+      ]),
+      yearsInBusiness:
+        result.yearsInBusiness ??
+        (crawl.yearFounded ? new Date().getFullYear() - crawl.yearFounded : null),
+      rawData: {
+        ...((result.rawData as object) || {}),
+        crawl: crawl as unknown as Prisma.InputJsonValue,
+      },
+    },
+  });
+}
+
 /**
  * Skip a discovery result (mark it as not worth importing).
  */
@@ -309,6 +461,7 @@ export async function skipDiscoveryResult(
     where: { id: resultId },
     data: {
       skipped: true,
+      reviewStatus: "SKIPPED",
       skipReason: reason || "Manually skipped",
     },
   });
@@ -341,310 +494,459 @@ export async function batchImportResults(resultIds: string[]) {
 
 // ─── Background Job Execution ─────────────────────────────────
 
+/**
+ * Queue handler: run (or resume) a claimed discovery job.
+ * Throws on failure so the queue can retry with backoff; the queue also
+ * handles cancellation and lease bookkeeping.
+ */
 async function executeDiscoveryJob(
   jobId: string,
-  queries: SearchQuery[],
-  mode: DiscoveryMode,
   signal: AbortSignal,
 ): Promise<void> {
+  const job = await prisma.discoveryJob.findUniqueOrThrow({
+    where: { id: jobId },
+  });
+  const mode = job.discoveryMode as DiscoveryMode;
+
+  // Queries are derived deterministically from the job's inputs, so the
+  // persisted cursor is enough to resume after a restart or failed attempt.
+  const allQueries = generateSearchQueries(
+    job.productCategories,
+    job.targetCountries,
+  );
+  const cursor = Math.min(job.queryCursor, allQueries.length);
+  const queries = allQueries.slice(cursor);
+
   console.log(
-    `[Discovery] Starting job ${jobId} | mode=${mode} | ${queries.length} queries`,
+    `[Discovery] ${cursor > 0 ? "Resuming" : "Starting"} job ${jobId} | mode=${mode} | attempt ${job.attempts}/${job.maxAttempts} | ${queries.length}/${allQueries.length} queries left`,
   );
 
-  try {
-    // Mark as running
-    const job = await prisma.discoveryJob.update({
-      where: { id: jobId },
-      data: { status: "RUNNING", startedAt: new Date() },
-    });
+  // Queries that already succeeded in the batch a failed attempt stopped in;
+  // re-running them would store their vendors twice. The job's totals stop
+  // at the cursor, so their counts are added back from their runs.
+  const succeeded = await prisma.discoveryQueryRun.findMany({
+    where: { jobId, status: "SUCCEEDED", queryIndex: { gte: cursor } },
+    select: { queryIndex: true, vendorsExtracted: true, vendorsNew: true, vendorsSkipped: true },
+  });
+  const succeededIndexes = new Set(succeeded.map((r) => r.queryIndex));
+
+  const scoringWeights = await getScoringWeights(job.organizationId);
+  const rates = await loadRateTable();
+  const reportingCurrency = getReportingCurrency();
+
+  let totalFound = job.totalFound;
+  let totalNew = job.totalNew;
+  let totalSkipped = job.totalSkipped;
+  for (const run of succeeded) {
+    totalFound += run.vendorsExtracted;
+    totalNew += run.vendorsNew;
+    totalSkipped += run.vendorsSkipped;
+  }
 
-    let totalFound = 0;
-    let totalNew = 0;
-    let totalSkipped = 0;
+  // Process queries in batches
+  const BATCH_SIZE = mode === "mock" ? 4 : 2;
+  const DELAY_MS = mode === "web-search" ? 2000 : mode === "ai-research" ? 1500 : 200;
 
-    // Process queries in batches
-    const BATCH_SIZE = mode === "mock" ? 4 : 2;
-    const DELAY_MS = mode === "web-search" ? 2000 : mode === "ai-research" ? 1500 : 200;
+  // One search query: find candidates, dedupe and store them. Everything it
+  // sees and produces is recorded on `trace` (see discovery-trace.service.ts).
+  const processQuery = async (query: SearchQuery, trace: QueryTrace) => {
+    console.log(
+      `[Discovery] Researching: "${query.productCategory}" in ${query.country}`,
+    );
 
-    await processInBatches(
-      queries,
-      BATCH_SIZE,
-      async (query) => {
+    // ── Step 1: Get vendor candidates ──
+    let vendors: ExtractedVendor[] = [];
+    // Website host → search providers that surfaced it (web-search mode only)
+    const sourcesByHost = new Map<string, string[]>();
+    let providerCount: number | undefined;
+
+    if (mode === "ai-research") {
+      vendors = await researchVendors(
+        query.productCategory,
+        query.country,
+        job.maxVendorsPerQuery,
+        trace.llm,
+      );
+      // Enrich with price discovery when SerpAPI available (SERP scraping for high-confidence data)
+      if (process.env.SERP_API_KEY) {
+        await sleep(800); // Throttle SerpAPI calls
+        const priceData = await discoverPrices(
+          query.productCategory,
+          query.country,
+          12,
+        );
+        trace.priceSampleSize = priceData.sampleSize;
+        if (priceData.sampleSize > 0) {
+          vendors = enrichVendorsWithPrices(vendors, priceData);
+          await storeProductsFromPriceDiscovery(jobId, priceData);
+          await recordPriceDiscovery(priceData, job);
+          console.log(
+            `[Discovery] Price enrichment: ${priceData.currency} ${priceData.minPrice.toFixed(2)}–${priceData.maxPrice.toFixed(2)} for "${query.productCategory}"`,
+          );
+        }
+      }
+    } else if (mode === "web-search") {
+      // Step 1a: Web search across the job's providers, merged by host
+      const providers = resolveSearchProviders(job.searchProviders);
+      if (providers.length === 0) {
+        throw new Error("No search providers available for this job");
+      }
+      providerCount = providers.length;
+      const searchResults = await searchAllProviders(
+        providers,
+        query.query,
+        job.maxVendorsPerQuery,
+        trace.providers,
+      );
+      trace.providerResults = searchResults;
+      for (const r of searchResults) {
+        const host = hostOf(r.url);
+        if (!host) continue;
+        const known = sourcesByHost.get(host) ?? [];
+        sourcesByHost.set(host, [...new Set([...known, ...r.sources])]);
+      }
+      vendors = await extractVendorsFromResults(
+        searchResults,
+        query.productCategory,
+        query.country,
+        trace.llm,
+      );
+
+      // Step 1b: Price discovery via SerpAPI Google Shopping (high-confidence SERP data)
+      let priceData: PriceDiscoveryResult | null = null;
+      if (process.env.SERP_API_KEY) {
+        await sleep(1000); // Throttle between Search + Shopping API calls
+        priceData = await discoverPrices(
+          query.productCategory,
+          query.country,
+          12,
+        );
+        trace.priceSampleSize = priceData.sampleSize;
+      }
+      if (priceData && priceData.sampleSize > 0) {
+        vendors = enrichVendorsWithPrices(vendors, priceData);
+        await storeProductsFromPriceDiscovery(jobId, priceData);
+        await recordPriceDiscovery(priceData, job);
         console.log(
-          `[Discovery] Researching: "${query.productCategory}" in ${query.country}`,
+          `[Discovery] Price range for "${query.productCategory}": ${priceData.currency} ${priceData.minPrice.toFixed(2)}–${priceData.maxPrice.toFixed(2)} (${priceData.sampleSize} SERP results)`,
         );
+      }
+    } else {
+      vendors = generateMockVendors(
+        query.productCategory,
+        query.country,
+        Math.min(5, job.maxVendorsPerQuery),
+      );
+      // Mock mode: create sample products for the job
+      await storeProductsFromPriceDiscovery(jobId, {
+        productCategory: query.productCategory,
+        country: query.country,
+        prices: [
+          { title: `${query.productCategory} - Option A`, extractedPrice: 89, price: "$89", currency: "USD", source: "Mock", link: "" },
+          { title: `${query.productCategory} - Option B`, extractedPrice: 145, price: "$145", currency: "USD", source: "Mock", link: "" },
+          { title: `${query.productCategory} - Option C`, extractedPrice: 199, price: "$199", currency: "USD", source: "Mock", link: "" },
+        ],
+        currency: "USD",
+        minPrice: 89,
+        maxPrice: 199,
+        avgPrice: 144.33,
+        sampleSize: 3,
+      });
+    }
 
-        // ── Step 1: Get vendor candidates ──
-        let vendors: ExtractedVendor[] = [];
+    console.log(
+      `[Discovery] Found ${vendors.length} candidates for "${query.productCategory}" in ${query.country}`,
+    );
 
-        if (mode === "ai-research") {
-          vendors = await researchVendors(
-            query.productCategory,
-            query.country,
-            job.maxVendorsPerQuery,
-          );
-          // Enrich with price discovery when SerpAPI available (SERP scraping for high-confidence data)
-          if (process.env.SERP_API_KEY) {
-            await sleep(800); // Throttle SerpAPI calls
-            const priceData = await discoverPrices(
-              query.productCategory,
-              query.country,
-              12,
-            );
-            if (priceData.sampleSize > 0) {
-              vendors = enrichVendorsWithPrices(vendors, priceData);
-              await storeProductsFromPriceDiscovery(jobId, priceData);
-              console.log(
-                `[Discovery] Price enrichment: $${priceData.minPrice.toFixed(2)}–$${priceData.maxPrice.toFixed(2)} for "${query.productCategory}"`,
-              );
-            }
-          }
-        } else if (mode === "web-search") {
-          // Step 1a: Web search for vendor discovery
-          const provider = createSearchProvider();
-          const searchResults = await provider.search(
-            query.query,
-            job.maxVendorsPerQuery,
+    trace.vendorsExtracted = vendors.length;
+
+    // ── Step 2: Deduplicate and store each vendor ──
+    for (const vendor of vendors) {
+      totalFound++;
+
+      const duplicate = await checkDuplicate(vendor, job);
+
+      const vendorHost = vendor.website ? hostOf(vendor.website) : null;
+      const sources = (vendorHost && sourcesByHost.get(vendorHost)) || [];
+
+      const scored = await scoreVendorConfidence(
+        vendor,
+        {
+          country: query.country,
+          sources,
+          providerCount,
+          checkWebsite: mode !== "mock",
+        },
+        scoringWeights,
+      );
+
+      const createData: Record<string, unknown> = {
+        jobId,
+        companyName: vendor.companyName,
+        country: vendor.country,
+        website: vendor.website,
+        email: vendor.email,
+        phone: vendor.phone,
+        description: vendor.description,
+        productCategories: vendor.productCategories,
+        certifications: vendor.certifications,
+        companySize: vendor.companySize,
+        yearsInBusiness: vendor.yearsInBusiness,
+        source: sources.length > 0 ? `${mode}:${sources.join("+")}` : mode,
+        confidence: scored.score,
+        confidenceBreakdown: scored as object,
+        rawData: { ...vendor, ...(sources.length > 0 && { sources }) } as object,
+      };
+      if (vendor.priceMin != null) createData.priceMin = vendor.priceMin;
+      if (vendor.priceMax != null) createData.priceMax = vendor.priceMax;
+      if (vendor.priceCurrency) createData.priceCurrency = vendor.priceCurrency;
+      if (vendor.priceMin != null || vendor.priceMax != null) {
+        // Keep the listed currency; add the range in the reporting currency
+        const from = vendor.priceCurrency ?? "USD";
+        createData.normalizedCurrency = reportingCurrency;
+        if (vendor.priceMin != null) {
+          createData.priceMinNormalized = convertAmount(
+            rates,
+            vendor.priceMin,
+            from,
+            reportingCurrency,
           );
-          vendors = await extractVendorsFromResults(
-            searchResults,
-            query.productCategory,
-            query.country,
+        }
+        if (vendor.priceMax != null) {
+          createData.priceMaxNormalized = convertAmount(
+            rates,
+            vendor.priceMax,
+            from,
+            reportingCurrency,
           );
+        }
+      }
+      if (vendor.priceDiscovery)
+        createData.priceDiscovery = vendor.priceDiscovery as object;
 
-          // Step 1b: Price discovery via SerpAPI Google Shopping (high-confidence SERP data)
-          await sleep(1000); // Throttle between Search + Shopping API calls
-          const priceData = await discoverPrices(
+      if (duplicate) {
+        totalSkipped++;
+        trace.vendorsSkipped++;
+        const skippedResult = await prisma.discoveryResult.create({
+          data: {
+            ...createData,
+            skipped: true,
+            reviewStatus: "SKIPPED",
+            skipReason: duplicate.reason,
+            ...(duplicate.match && {
+              matchedVendorId: duplicate.match.vendor.id,
+              matchScore: duplicate.match.score,
+              matchReasons: duplicate.match.reasons,
+            }),
+          } as Parameters<typeof prisma.discoveryResult.create>[0]["data"],
+        });
+        trace.resultIds.push(skippedResult.id);
+      } else {
+        totalNew++;
+        trace.vendorsNew++;
+        const result = await prisma.discoveryResult.create({
+          data: createData as Parameters<
+            typeof prisma.discoveryResult.create
+          >[0]["data"],
+        });
+        trace.resultIds.push(result.id);
+
+        // Store product from result when we have price data (vendor offering)
+        if (
+          vendor.priceMin != null &&
+          vendor.priceMax != null &&
+          query.productCategory &&
+          query.country
+        ) {
+          storeProductFromResult(
+            jobId,
+            result.id,
             query.productCategory,
             query.country,
-            12,
+            vendor.priceMin,
+            vendor.priceMax,
+            vendor.priceCurrency ?? "USD",
+            vendor.companyName,
+          ).catch((err) =>
+            console.error("[Discovery] Failed to store product from result:", err),
           );
-          if (priceData.sampleSize > 0) {
-            vendors = enrichVendorsWithPrices(vendors, priceData);
-            await storeProductsFromPriceDiscovery(jobId, priceData);
+        }
+
+        // Auto-import if configured and confidence passes threshold
+        if (
+          job.autoImport &&
+          scored.score >= job.autoImportThreshold
+        ) {
+          try {
+            await importDiscoveryResult(result.id);
             console.log(
-              `[Discovery] Price range for "${query.productCategory}": $${priceData.minPrice.toFixed(2)}–$${priceData.maxPrice.toFixed(2)} (${priceData.sampleSize} SERP results)`,
+              `[Discovery] Auto-imported: ${vendor.companyName} (confidence: ${scored.score.toFixed(2)})`,
+            );
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : "unknown";
+            console.error(
+              `[Discovery] Auto-import failed for ${vendor.companyName}: ${msg}`,
             );
           }
-        } else {
-          vendors = generateMockVendors(
-            query.productCategory,
-            query.country,
-            Math.min(5, job.maxVendorsPerQuery),
-          );
-          // Mock mode: create sample products for the job
-          await storeProductsFromPriceDiscovery(jobId, {
-            productCategory: query.productCategory,
-            country: query.country,
-            prices: [
-              { title: `${query.productCategory} - Option A`, extractedPrice: 89, price: "$89", source: "Mock", link: "" },
-              { title: `${query.productCategory} - Option B`, extractedPrice: 145, price: "$145", source: "Mock", link: "" },
-              { title: `${query.productCategory} - Option C`, extractedPrice: 199, price: "$199", source: "Mock", link: "" },
-            ],
-            minPrice: 89,
-            maxPrice: 199,
-            avgPrice: 144.33,
-            sampleSize: 3,
-          });
         }
-
+      }
+    }
+  };
+
+  await processInBatches(
+    queries,
+    BATCH_SIZE,
+    async (query) => {
+      const queryIndex = cursor + queries.indexOf(query);
+      if (succeededIndexes.has(queryIndex)) return;
+      await traceQueryRun(
+        {
+          jobId,
+          attempt: job.attempts,
+          queryIndex,
+          query: query.query,
+          productCategory: query.productCategory,
+          country: query.country,
+          mode,
+        },
+        (trace) => processQuery(query, trace),
+      );
+    },
+    {
+      signal,
+      delayMs: DELAY_MS,
+      onBatchDone: async (completed) => {
+        const done = cursor + completed;
+        const progress = Math.round((done / allQueries.length) * 100);
+        await prisma.discoveryJob.update({
+          where: { id: jobId },
+          data: {
+            progress,
+            queryCursor: done,
+            totalFound,
+            totalNew,
+            totalSkipped,
+          },
+        });
         console.log(
-          `[Discovery] Found ${vendors.length} candidates for "${query.productCategory}" in ${query.country}`,
+          `[Discovery] Progress: ${progress}% (${done}/${allQueries.length} queries) | found=${totalFound} new=${totalNew} skipped=${totalSkipped}`,
         );
-
-        // ── Step 2: Deduplicate and store each vendor ──
-        for (const vendor of vendors) {
-          totalFound++;
-
-          const duplicate = await checkDuplicate(vendor, jobId);
-
-          const createData: Record<string, unknown> = {
-            jobId,
-            companyName: vendor.companyName,
-            country: vendor.country,
-            website: vendor.website,
-            email: vendor.email,
-            phone: vendor.phone,
-            description: vendor.description,
-            productCategories: vendor.productCategories,
-            certifications: vendor.certifications,
-            companySize: vendor.companySize,
-            yearsInBusiness: vendor.yearsInBusiness,
-            source: mode,
-            confidence: vendor.confidence,
-            rawData: vendor as object,
-          };
-          if (vendor.priceMin != null) createData.priceMin = vendor.priceMin;
-          if (vendor.priceMax != null) createData.priceMax = vendor.priceMax;
-          if (vendor.priceCurrency) createData.priceCurrency = vendor.priceCurrency;
-          if (vendor.priceDiscovery)
-            createData.priceDiscovery = vendor.priceDiscovery as object;
-
-          if (duplicate) {
-            totalSkipped++;
-            await prisma.discoveryResult.create({
-              data: {
-                ...createData,
-                skipped: true,
-                skipReason: duplicate,
-              } as Parameters<typeof prisma.discoveryResult.create>[0]["data"],
-            });
-          } else {
-            totalNew++;
-            const result = await prisma.discoveryResult.create({
-              data: createData as Parameters<
-                typeof prisma.discoveryResult.create
-              >[0]["data"],
-            });
-
-            // Store product from result when we have price data (vendor offering)
-            if (
-              vendor.priceMin != null &&
-              vendor.priceMax != null &&
-              query.productCategory &&
-              query.country
-            ) {
-              storeProductFromResult(
-                jobId,
-                result.id,
-                query.productCategory,
-                query.country,
-                vendor.priceMin,
-                vendor.priceMax,
-                vendor.priceCurrency ?? "USD",
-                vendor.companyName,
-              ).catch((err) =>
-                console.error("[Discovery] Failed to store product from result:", err),
-              );
-            }
-
-            // Auto-import if configured and confidence passes threshold
-            if (
-              job.autoImport &&
-              vendor.confidence >= job.autoImportThreshold
-            ) {
-              try {
-                await importDiscoveryResult(result.id);
-                console.log(
-                  `[Discovery] Auto-imported: ${vendor.companyName} (confidence: ${vendor.confidence.toFixed(2)})`,
-                );
-              } catch (err: unknown) {
-                const msg = err instanceof Error ? err.message : "unknown";
-                console.error(
-                  `[Discovery] Auto-import failed for ${vendor.companyName}: ${msg}`,
-                );
-              }
-            }
-          }
-        }
       },
-      {
-        signal,
-        delayMs: DELAY_MS,
-        onBatchDone: async (completed, total) => {
-          const progress = Math.round((completed / total) * 100);
-          await prisma.discoveryJob.update({
-            where: { id: jobId },
-            data: { progress, totalFound, totalNew, totalSkipped },
-          });
-          console.log(
-            `[Discovery] Progress: ${progress}% (${completed}/${total} queries) | found=${totalFound} new=${totalNew} skipped=${totalSkipped}`,
-          );
-        },
-      },
-    );
-
-    // ── Final stats ──
-    const finalImported = await prisma.discoveryResult.count({
-      where: { jobId, imported: true },
-    });
+    },
+  );
 
-    await prisma.discoveryJob.update({
-      where: { id: jobId },
-      data: {
-        status: "COMPLETED",
-        progress: 100,
-        totalFound,
-        totalNew,
-        totalSkipped,
-        totalImported: finalImported,
-        completedAt: new Date(),
-      },
-    });
+  // ── Final stats ──
+  const finalImported = await prisma.discoveryResult.count({
+    where: { jobId, imported: true },
+  });
 
-    console.log(
-      `[Discovery] Job ${jobId} COMPLETED | found=${totalFound} new=${totalNew} skipped=${totalSkipped} imported=${finalImported}`,
-    );
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Unknown error";
+  // Guard on status so a cancellation that lands after the last batch wins
+  await prisma.discoveryJob.updateMany({
+    where: { id: jobId, status: "RUNNING" },
+    data: {
+      status: "COMPLETED",
+      progress: 100,
+      queryCursor: allQueries.length,
+      error: null,
+      totalFound,
+      totalNew,
+      totalSkipped,
+      totalImported: finalImported,
+      completedAt: new Date(),
+    },
+  });
 
-    if (signal.aborted) {
-      console.log(`[Discovery] Job ${jobId} was cancelled`);
-      await prisma.discoveryJob
-        .update({
-          where: { id: jobId },
-          data: { status: "CANCELLED", completedAt: new Date() },
-        })
-        .catch(() => {}); // best-effort
-    } else {
-      console.error(`[Discovery] Job ${jobId} FAILED:`, message);
-      await prisma.discoveryJob
-        .update({
-          where: { id: jobId },
-          data: {
-            status: "FAILED",
-            error: message,
-            completedAt: new Date(),
-          },
-        })
-        .catch(() => {}); // best-effort
-    }
-  }
+  console.log(
+    `[Discovery] Job ${jobId} COMPLETED | found=${totalFound} new=${totalNew} skipped=${totalSkipped} imported=${finalImported}`,
+  );
 }
 
 // ─── Deduplication ────────────────────────────────────────────
 
 /**
- * Check if a vendor already exists in the database or in the same job.
+ * Check if a vendor already exists in the organisation or in the same job.
+ * For scheduled jobs, also treats vendors reported by earlier runs of the
+ * same schedule as duplicates, so each run only surfaces new vendors.
  * Returns a reason string if duplicate, or null if unique.
  */
+interface DuplicateCheck {
+  reason: string;
+  /** Set when the result was resolved to an existing vendor */
+  match?: VendorMatch;
+}
+
 async function checkDuplicate(
   vendor: ExtractedVendor,
-  jobId: string,
-): Promise<string | null> {
-  // Check existing vendors by company name (case-insensitive)
-  const byName = await prisma.vendor.findFirst({
-    where: {
-      companyName: { equals: vendor.companyName, mode: "insensitive" },
-    },
-  });
-  if (byName) return `Vendor "${byName.companyName}" already exists in database`;
+  job: Pick<DiscoveryJob, "id" | "organizationId" | "scheduleId">,
+): Promise<DuplicateCheck | null> {
+  const { id: jobId, scheduleId } = job;
+
+  // Resolve against existing vendors (fuzzy name, domain, email, phone)
+  const match = await findVendorMatch(vendor, job.organizationId);
+  if (match) {
+    return {
+      reason: `Matches existing vendor "${match.vendor.companyName}" (${match.reasons.join(", ")})`,
+      match,
+    };
+  }
 
-  // Check existing vendors by website
-  if (vendor.website) {
-    const normalized = normalizeUrl(vendor.website);
-    const byWebsite = await prisma.vendor.findFirst({
+  // Check results from previous runs of the same schedule
+  if (scheduleId) {
+    const seenBefore = await prisma.discoveryResult.findFirst({
       where: {
-        website: { contains: normalized, mode: "insensitive" },
+        jobId: { not: jobId },
+        job: { scheduleId },
+        OR: [
+          { companyName: { equals: vendor.companyName, mode: "insensitive" } },
+          ...(vendor.website
+            ? [
+                {
+                  website: {
+                    contains: normalizeUrl(vendor.website),
+                    mode: "insensitive" as const,
+                  },
+                },
+              ]
+            : []),
+        ],
       },
+      select: { jobId: true },
     });
-    if (byWebsite)
-      return `Vendor with website "${byWebsite.website}" already exists`;
+    if (seenBefore)
+      return {
+        reason: `Already reported by a previous scheduled run (job ${seenBefore.jobId})`,
+      };
   }
 
-  // Check other results in the same job (avoid intra-job duplicates)
-  const byJobResult = await prisma.discoveryResult.findFirst({
-    where: {
-      jobId,
-      companyName: { equals: vendor.companyName, mode: "insensitive" },
-    },
+  // Check other results in the same job (avoid intra-job duplicates),
+  // comparing normalized names and company domains
+  const jobResults = await prisma.discoveryResult.findMany({
+    where: { jobId },
+    select: { companyName: true, website: true },
   });
+  const name = normalizeCompanyName(vendor.companyName);
+  const domain = vendor.website ? companyDomain(vendor.website) : null;
+  const byJobResult = jobResults.some(
+    (r) =>
+      normalizeCompanyName(r.companyName) === name ||
+      (domain !== null && r.website !== null && companyDomain(r.website) === domain),
+  );
   if (byJobResult)
-    return `Duplicate within same discovery job`;
+    return { reason: `Duplicate within same discovery job` };
 
   return null;
 }
 
+function dedupeCaseInsensitive(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((v) => {
+    const key = v.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 function normalizeUrl(url: string): string {
   return url
     .replace(/^https?:\/\/(www\.)?/, "")
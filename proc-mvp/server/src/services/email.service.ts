@@ -2,18 +2,36 @@
  * Email Service — SendGrid integration for vendor outreach.
  *
  * Sends introduction emails to discovered vendors.
- * Requires SENDGRID_API_KEY and EMAIL_FROM in environment.
+ * Requires SENDGRID_API_KEY and EMAIL_FROM in environment; an organisation
+ * may send from its own (SendGrid-verified) address instead.
  */
 
 import sgMail from "@sendgrid/mail";
 
-const FROM = process.env.EMAIL_FROM || "procurement@yourdomain.com";
+export const DEFAULT_FROM = process.env.EMAIL_FROM || "procurement@yourdomain.com";
+
+export interface EmailSender {
+  email: string;
+  name?: string;
+}
 
 export interface SendEmailInput {
   to: string;
+  /** Defaults to EMAIL_FROM */
+  from?: EmailSender;
   subject: string;
   html: string;
   text?: string;
+  replyTo?: string;
+  /** Extra headers, e.g. Message-ID for reply threading */
+  headers?: Record<string, string>;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
 }
 
 export interface SendEmailResult {
@@ -26,6 +44,29 @@ export function isEmailConfigured(): boolean {
   return !!(process.env.SENDGRID_API_KEY && process.env.EMAIL_FROM);
 }
 
+/** Replies come back through /api/outreach/inbound (SendGrid Inbound Parse) */
+export function isInboundEmailConfigured(): boolean {
+  return !!(process.env.INBOUND_EMAIL_DOMAIN && process.env.INBOUND_EMAIL_SECRET);
+}
+
+/**
+ * Message-ID for an outbound email. Replies quote it in In-Reply-To /
+ * References, which is how they are matched back to the Communication.
+ */
+export function buildMessageId(token: string, from = DEFAULT_FROM): string {
+  const domain = from.split("@")[1] || "localhost";
+  return `<${token}@${domain}>`;
+}
+
+/**
+ * Reply-To address carrying the reply token, for mail clients that drop
+ * threading headers. Undefined until INBOUND_EMAIL_DOMAIN is set.
+ */
+export function buildReplyAddress(token: string): string | undefined {
+  const domain = process.env.INBOUND_EMAIL_DOMAIN;
+  return domain ? `reply+${token}@${domain}` : undefined;
+}
+
 /**
  * Send an email via SendGrid.
  */
@@ -40,10 +81,18 @@ export async function sendEmail(input: SendEmailInput): Promise<SendEmailResult>
   try {
     const [res] = await sgMail.send({
       to: input.to,
-      from: FROM,
+      from: input.from ?? DEFAULT_FROM,
       subject: input.subject,
       html: input.html,
       text: input.text,
+      replyTo: input.replyTo,
+      headers: input.headers,
+      attachments: input.attachments?.map((a) => ({
+        filename: a.filename,
+        type: a.contentType,
+        content: a.content.toString("base64"),
+        disposition: "attachment",
+      })),
     });
 
     return {
@@ -110,3 +159,47 @@ ${company}`;
 
   return { subject, html, text };
 }
+
+/**
+ * Generate a follow-up email for an outreach sequence step.
+ * `final` softens into a last reminder that closes the thread.
+ */
+export function buildFollowUpEmail(params: {
+  vendorName: string;
+  productCategories: string[];
+  companyName?: string;
+  customMessage?: string;
+  final?: boolean;
+}): { subject: string; html: string; text: string } {
+  const company = params.companyName || "Our Company";
+  const products = params.productCategories.join(", ") || "your products";
+
+  const subject = params.final
+    ? `Last follow-up - ${company}`
+    : `Following up - ${company}`;
+  const body = params.customMessage
+    ? params.customMessage
+    : params.final
+      ? `This is our last note on this: we are still sourcing ${products} and would be glad to include you in our upcoming RFQs. If now isn't the right time, no reply is needed.`
+      : `We wanted to follow up on our earlier message about sourcing ${products}. Would you be interested in receiving our RFQs?`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px;">
+  <p>Dear ${params.vendorName},</p>
+  <p>${body}</p>
+  <p>Best regards,<br>${company}</p>
+</body>
+</html>`;
+
+  const text = `Dear ${params.vendorName},
+
+${body}
+
+Best regards,
+${company}`;
+
+  return { subject, html, text };
+}
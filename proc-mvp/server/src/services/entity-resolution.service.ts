@@ -0,0 +1,524 @@
+/**
+ * Entity Resolution Service — decides whether a discovered company is a
+ * vendor we already have, and merges vendors that turn out to be the same.
+ *
+ * Matching compares several independent signals and combines them:
+ * - company name with legal suffixes stripped ("Co., Ltd" ≈ "Company Limited")
+ * - registrable website domain (shop.acme.com.cn ≈ acme.com.cn), except on
+ *   marketplaces where many suppliers share one domain
+ * - email domain against the vendor's website / known emails (free mailers ignored)
+ * - phone number, ignoring formatting and country prefix
+ *
+ * Each signal yields a probability-like score; they are combined as a
+ * noisy-OR, so two weak signals agreeing beat one of them alone. Only
+ * vendors of the same organisation are compared or merged.
+ */
+
+import type { Prisma, Vendor, VendorContact } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { recalculateVendorScores } from "./vendor-performance.service.js";
+
+const MATCH_THRESHOLD = Number(process.env.ENTITY_MATCH_THRESHOLD) || 0.85;
+
+// ─── Types ────────────────────────────────────────────────────
+
+export interface MatchCandidate {
+  companyName: string;
+  country?: string | null;
+  website?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface VendorMatch {
+  vendor: Vendor;
+  /** 0–1, combined across signals */
+  score: number;
+  /** Human-readable signals, e.g. "same website domain (acme.com)" */
+  reasons: string[];
+}
+
+type VendorWithContacts = Vendor & { contacts: VendorContact[] };
+
+// ─── Normalization ────────────────────────────────────────────
+
+const LEGAL_SUFFIXES = new Set([
+  "co", "company", "corp", "corporation", "inc", "incorporated", "ltd",
+  "limited", "llc", "llp", "plc", "pvt", "private", "pte", "pty", "gmbh",
+  "ag", "sa", "sas", "srl", "spa", "bv", "nv", "oy", "ab", "as", "kg",
+  "fze", "fzco", "fzc", "sdn", "bhd", "jsc", "ooo", "sarl", "lp",
+]);
+
+/** Generic words that say nothing about identity once the suffix is gone */
+const NOISE_WORDS = new Set(["the", "and", "of", "group", "international", "intl"]);
+
+/** "Pacific Industrial Co., Ltd" → "pacific industrial" */
+export function normalizeCompanyName(name: string): string {
+  const tokens = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  // Strip legal suffixes from the end ("co ltd", "pvt ltd", "sdn bhd" …)
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+
+  const meaningful = tokens.filter((t) => !NOISE_WORDS.has(t));
+  return (meaningful.length > 0 ? meaningful : tokens).join(" ");
+}
+
+/** Second-level labels used under country TLDs: acme.co.uk, acme.com.cn … */
+const COUNTRY_SLDS = new Set(["co", "com", "net", "org", "ac", "gov", "edu", "ltd", "plc", "or", "ne"]);
+
+/** "https://shop.acme.com.cn/x" → "acme.com.cn"; null for unparseable input */
+export function registrableDomain(urlOrHost: string): string | null {
+  let host: string;
+  try {
+    const withScheme = /^https?:\/\//i.test(urlOrHost) ? urlOrHost : `https://${urlOrHost}`;
+    host = new URL(withScheme).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+
+  const labels = host.split(".").filter(Boolean);
+  if (labels.length < 2) return null;
+
+  const tld = labels[labels.length - 1];
+  const sld = labels[labels.length - 2];
+  const take = tld.length === 2 && COUNTRY_SLDS.has(sld) && labels.length >= 3 ? 3 : 2;
+  return labels.slice(-take).join(".");
+}
+
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com", "googlemail.com", "yahoo.com", "hotmail.com", "outlook.com",
+  "live.com", "msn.com", "aol.com", "icloud.com", "proton.me", "protonmail.com",
+  "163.com", "126.com", "qq.com", "sina.com", "aliyun.com", "rediffmail.com",
+  "yandex.com", "mail.ru", "gmx.com",
+]);
+
+/**
+ * Marketplaces and social sites host many companies under one domain, so a
+ * shared domain there says nothing about identity.
+ */
+const SHARED_HOST_DOMAINS = new Set([
+  "alibaba.com", "indiamart.com", "thomasnet.com", "made-in-china.com",
+  "globalsources.com", "tradeindia.com", "amazon.com", "linkedin.com",
+  "facebook.com",
+]);
+
+/** Registrable domain of a company's own website; null for marketplace/social pages */
+export function companyDomain(url: string): string | null {
+  const domain = registrableDomain(url);
+  return domain && !SHARED_HOST_DOMAINS.has(domain) ? domain : null;
+}
+
+/** Company email domain, or null for free mailers and malformed input */
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf("@");
+  if (at < 0) return null;
+  const domain = registrableDomain(email.slice(at + 1).trim());
+  if (!domain || FREE_MAIL_DOMAINS.has(domain)) return null;
+  return domain;
+}
+
+/**
+ * Last 9 digits of a phone number — enough to identify a subscriber while
+ * ignoring "+91", "0091", a trunk "0" and formatting. Null when too short.
+ */
+export function normalizePhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length < 7) return null;
+  return digits.slice(-9);
+}
+
+// ─── Similarity ───────────────────────────────────────────────
+
+function bigrams(s: string): Map<string, number> {
+  const compact = s.replace(/\s+/g, " ");
+  const grams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const g = compact.slice(i, i + 2);
+    grams.set(g, (grams.get(g) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Sørensen–Dice over character bigrams, on normalized names (0–1) */
+export function nameSimilarity(a: string, b: string): number {
+  const na = normalizeCompanyName(a);
+  const nb = normalizeCompanyName(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  if (na.length < 2 || nb.length < 2) return 0;
+
+  const ga = bigrams(na);
+  const gb = bigrams(nb);
+  let overlap = 0;
+  let total = 0;
+  for (const [g, n] of ga) {
+    overlap += Math.min(n, gb.get(g) ?? 0);
+    total += n;
+  }
+  for (const n of gb.values()) total += n;
+
+  return (2 * overlap) / total;
+}
+
+/** Score a candidate against one vendor. Exported for explaining matches in the UI. */
+export function scoreVendorMatch(
+  candidate: MatchCandidate,
+  vendor: VendorWithContacts,
+): { score: number; reasons: string[] } {
+  const signals: Array<{ p: number; reason: string }> = [];
+
+  // Name
+  const similarity = nameSimilarity(candidate.companyName, vendor.companyName);
+  if (similarity === 1) {
+    signals.push({ p: 0.9, reason: "same company name" });
+  } else if (similarity >= 0.8) {
+    signals.push({
+      p: similarity * 0.85,
+      reason: `similar company name (${Math.round(similarity * 100)}%)`,
+    });
+  }
+
+  // Website
+  const vendorDomain = vendor.website ? companyDomain(vendor.website) : null;
+  const candidateDomain = candidate.website ? companyDomain(candidate.website) : null;
+  if (candidateDomain && candidateDomain === vendorDomain) {
+    signals.push({ p: 0.95, reason: `same website domain (${candidateDomain})` });
+  }
+
+  // Email domain vs website or known emails
+  const candidateEmailDomain = candidate.email ? emailDomain(candidate.email) : null;
+  if (candidateEmailDomain) {
+    const vendorEmailDomains = vendor.contacts
+      .filter((c) => c.type === "email")
+      .map((c) => emailDomain(c.value));
+    if (
+      candidateEmailDomain === vendorDomain ||
+      vendorEmailDomains.includes(candidateEmailDomain)
+    ) {
+      signals.push({ p: 0.85, reason: `same email domain (${candidateEmailDomain})` });
+    }
+  }
+
+  // Phone
+  const candidatePhone = candidate.phone ? normalizePhone(candidate.phone) : null;
+  if (candidatePhone) {
+    const samePhone = vendor.contacts.some(
+      (c) => c.type === "phone" && normalizePhone(c.value) === candidatePhone,
+    );
+    if (samePhone) signals.push({ p: 0.85, reason: "same phone number" });
+  }
+
+  let score = 1 - signals.reduce((acc, s) => acc * (1 - s.p), 1);
+
+  // A name-only match in a different country is more likely a namesake
+  const countriesDiffer =
+    !!candidate.country &&
+    !!vendor.country &&
+    candidate.country.toLowerCase() !== vendor.country.toLowerCase();
+  if (countriesDiffer && signals.length === 1 && similarity > 0 && !candidateDomain) {
+    score *= 0.7;
+  }
+
+  return { score, reasons: signals.map((s) => s.reason) };
+}
+
+// ─── Matching against the vendor table ────────────────────────
+
+/**
+ * Narrow the vendor table to plausible candidates with cheap indexed
+ * filters, then score them in memory.
+ */
+async function loadCandidates(
+  candidate: MatchCandidate,
+  organizationId: string,
+  excludeId?: string,
+): Promise<VendorWithContacts[]> {
+  const or: Prisma.VendorWhereInput[] = [];
+
+  // Longest name token is the most distinctive one
+  const token = normalizeCompanyName(candidate.companyName)
+    .split(" ")
+    .sort((a, b) => b.length - a.length)[0];
+  if (token && token.length >= 3) {
+    or.push({ companyName: { contains: token, mode: "insensitive" } });
+  }
+
+  const domain = candidate.website ? companyDomain(candidate.website) : null;
+  if (domain) or.push({ website: { contains: domain, mode: "insensitive" } });
+
+  const mailDomain = candidate.email ? emailDomain(candidate.email) : null;
+  if (mailDomain) {
+    or.push({ website: { contains: mailDomain, mode: "insensitive" } });
+    or.push({
+      contacts: { some: { type: "email", value: { endsWith: `@${mailDomain}`, mode: "insensitive" } } },
+    });
+  }
+
+  const phone = candidate.phone ? normalizePhone(candidate.phone) : null;
+  if (phone) {
+    // Stored numbers may be formatted; the last 4 digits survive most formats
+    or.push({ contacts: { some: { type: "phone", value: { contains: phone.slice(-4) } } } });
+  }
+
+  if (or.length === 0) return [];
+
+  return prisma.vendor.findMany({
+    where: { organizationId, OR: or, ...(excludeId && { id: { not: excludeId } }) },
+    include: { contacts: true },
+    take: 50,
+  });
+}
+
+/** Best existing vendor of the organisation for a candidate, or null below the match threshold */
+export async function findVendorMatch(
+  candidate: MatchCandidate,
+  organizationId: string,
+): Promise<VendorMatch | null> {
+  const matches = await rankVendorMatches(candidate, organizationId, {
+    threshold: MATCH_THRESHOLD,
+  });
+  return matches[0] ?? null;
+}
+
+/** All vendors scoring at least `threshold`, best first */
+export async function rankVendorMatches(
+  candidate: MatchCandidate,
+  organizationId: string,
+  options: { threshold?: number; excludeId?: string } = {},
+): Promise<VendorMatch[]> {
+  const threshold = options.threshold ?? MATCH_THRESHOLD;
+  const vendors = await loadCandidates(candidate, organizationId, options.excludeId);
+
+  return vendors
+    .map((vendor) => {
+      const { contacts: _contacts, ...rest } = vendor;
+      return { vendor: rest, ...scoreVendorMatch(candidate, vendor) };
+    })
+    .filter((m) => m.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Likely duplicates of an existing vendor, for the merge workflow.
+ * Uses a lower bar than discovery dedup since a human reviews the list.
+ */
+export async function findDuplicateVendors(vendorId: string) {
+  const vendor = await prisma.vendor.findUnique({
+    where: { id: vendorId },
+    include: { contacts: true },
+  });
+  if (!vendor) throw new Error("Vendor not found");
+
+  const email = vendor.contacts.find((c) => c.type === "email")?.value;
+  const phone = vendor.contacts.find((c) => c.type === "phone")?.value;
+
+  return rankVendorMatches(
+    {
+      companyName: vendor.companyName,
+      country: vendor.country,
+      website: vendor.website,
+      email,
+      phone,
+    },
+    vendor.organizationId,
+    { threshold: MATCH_THRESHOLD * 0.75, excludeId: vendorId },
+  );
+}
+
+// ─── Merge ────────────────────────────────────────────────────
+
+/**
+ * Merge `duplicateId` into `survivorId` and delete the duplicate.
+ *
+ * Moves contacts, certifications, products, quotes, communications,
+ * outreach sequence enrollments and RFQ invitations;
+ * contacts and certifications already on the survivor are not copied twice.
+ * Empty profile fields on the survivor are filled from the duplicate.
+ * Discovery results that pointed at the duplicate are re-pointed.
+ */
+export async function mergeVendors(survivorId: string, duplicateId: string) {
+  if (survivorId === duplicateId) {
+    throw new Error("Cannot merge a vendor into itself");
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const [survivor, duplicate] = await Promise.all([
+      tx.vendor.findUnique({
+        where: { id: survivorId },
+        include: { contacts: true, certifications: true },
+      }),
+      tx.vendor.findUnique({
+        where: { id: duplicateId },
+        include: { contacts: true, certifications: true },
+      }),
+    ]);
+    if (!survivor) throw new Error("Vendor not found");
+    if (!duplicate) throw new Error("Vendor to merge not found");
+    if (duplicate.organizationId !== survivor.organizationId) {
+      throw new Error("Vendors of different organisations cannot be merged");
+    }
+
+    // Contacts: skip values the survivor already has
+    const contactKey = (c: { type: string; value: string }) =>
+      c.type === "phone"
+        ? `phone:${normalizePhone(c.value) ?? c.value}`
+        : `${c.type}:${c.value.trim().toLowerCase()}`;
+    const knownContacts = new Set(survivor.contacts.map(contactKey));
+    const [moveContacts, dropContacts] = partition(
+      duplicate.contacts,
+      (c) => !knownContacts.has(contactKey(c)),
+    );
+
+    // Certifications: skip names the survivor already has
+    const knownCerts = new Set(
+      survivor.certifications.map((c) => c.name.trim().toLowerCase()),
+    );
+    const [moveCerts, dropCerts] = partition(
+      duplicate.certifications,
+      (c) => !knownCerts.has(c.name.trim().toLowerCase()),
+    );
+
+    await tx.vendorContact.updateMany({
+      where: { id: { in: moveContacts.map((c) => c.id) } },
+      data: { vendorId: survivorId },
+    });
+    await tx.vendorCertification.updateMany({
+      where: { id: { in: moveCerts.map((c) => c.id) } },
+      data: { vendorId: survivorId },
+    });
+    const moved = {
+      contacts: moveContacts.length,
+      certifications: moveCerts.length,
+      products: (
+        await tx.vendorProduct.updateMany({
+          where: { vendorId: duplicateId },
+          data: { vendorId: survivorId },
+        })
+      ).count,
+      quotes: (
+        await tx.quote.updateMany({
+          where: { vendorId: duplicateId },
+          data: { vendorId: survivorId },
+        })
+      ).count,
+      communications: (
+        await tx.communication.updateMany({
+          where: { vendorId: duplicateId },
+          data: { vendorId: survivorId },
+        })
+      ).count,
+      purchaseOrders: (
+        await tx.purchaseOrder.updateMany({
+          where: { vendorId: duplicateId },
+          data: { vendorId: survivorId },
+        })
+      ).count,
+      deliveries: (
+        await tx.deliveryEvent.updateMany({
+          where: { vendorId: duplicateId },
+          data: { vendorId: survivorId },
+        })
+      ).count,
+    };
+
+    await tx.outreachEnrollment.updateMany({
+      where: { vendorId: duplicateId },
+      data: { vendorId: survivorId },
+    });
+    await tx.inboundMessage.updateMany({
+      where: { vendorId: duplicateId },
+      data: { vendorId: survivorId },
+    });
+    // One invitation per RFQ and vendor: the survivor's wins where both were invited
+    const survivorRfqs = await tx.rfqInvitation.findMany({
+      where: { vendorId: survivorId },
+      select: { rfqId: true },
+    });
+    await tx.rfqInvitation.updateMany({
+      where: { vendorId: duplicateId, rfqId: { notIn: survivorRfqs.map((i) => i.rfqId) } },
+      data: { vendorId: survivorId },
+    });
+    await tx.discoveryResult.updateMany({
+      where: { vendorId: duplicateId },
+      data: { vendorId: survivorId },
+    });
+    await tx.discoveryResult.updateMany({
+      where: { matchedVendorId: duplicateId },
+      data: { matchedVendorId: survivorId },
+    });
+
+    // Fill gaps in the survivor's profile
+    const fill: Prisma.VendorUpdateInput = {};
+    const fillable = [
+      "website",
+      "address",
+      "companySize",
+      "yearsInBusiness",
+      "manufacturingCapacity",
+      "minimumOrderQuantity",
+      "leadTime",
+    ] as const;
+    for (const field of fillable) {
+      if (survivor[field] == null && duplicate[field] != null) {
+        (fill as Record<string, unknown>)[field] = duplicate[field];
+      }
+    }
+    if (
+      duplicate.lastContact &&
+      (!survivor.lastContact || duplicate.lastContact > survivor.lastContact)
+    ) {
+      fill.lastContact = duplicate.lastContact;
+    }
+    if (duplicate.discoveryDate < survivor.discoveryDate) {
+      fill.discoveryDate = duplicate.discoveryDate;
+    }
+
+    // Remaining duplicate contacts/certifications and its score history cascade with the vendor
+    await tx.vendor.delete({ where: { id: duplicateId } });
+
+    const merged = await tx.vendor.update({
+      where: { id: survivorId },
+      data: fill,
+      include: {
+        contacts: true,
+        certifications: true,
+        products: true,
+        _count: { select: { quotes: true, communications: true } },
+      },
+    });
+
+    console.log(
+      `[EntityResolution] Merged "${duplicate.companyName}" into "${survivor.companyName}" | ` +
+        `contacts=${moved.contacts} (${dropContacts.length} duplicate) certs=${moved.certifications} (${dropCerts.length} duplicate) ` +
+        `products=${moved.products} quotes=${moved.quotes} communications=${moved.communications} ` +
+        `purchaseOrders=${moved.purchaseOrders} deliveries=${moved.deliveries}`,
+    );
+
+    return { vendor: merged, moved };
+  });
+
+  // The duplicate's deliveries now count towards the survivor's scores
+  if (result.moved.deliveries > 0) {
+    const { qualityScore, reliabilityScore, performanceScore } =
+      await recalculateVendorScores(survivorId);
+    Object.assign(result.vendor, { qualityScore, reliabilityScore, performanceScore });
+  }
+  return result;
+}
+
+function partition<T>(items: T[], keep: (item: T) => boolean): [T[], T[]] {
+  const yes: T[] = [];
+  const no: T[] = [];
+  for (const item of items) (keep(item) ? yes : no).push(item);
+  return [yes, no];
+}
@@ -0,0 +1,225 @@
+/**
+ * Inbound Email Service — vendor replies to outreach emails.
+ *
+ * Replies arrive through the SendGrid Inbound Parse webhook
+ * (/api/outreach/inbound) or the local fake SMTP server
+ * (scripts/inbound-smtp.ts) and are matched to the Communication they answer:
+ *   1. token  — sent to the reply+<token>@INBOUND_EMAIL_DOMAIN Reply-To address
+ *   2. header — In-Reply-To / References quote the outbound Message-ID
+ *   3. sender — from the address we last emailed, or a vendor contact
+ * Tokens and Message-IDs belong to one organisation's Communication. A
+ * sender is looked up in the organisation whose sender address the email
+ * went to, else in every organisation; when the sender is a vendor of more
+ * than one, the email stays unmatched rather than reach the wrong one.
+ * Every message is kept as an InboundMessage (the thread); the first reply
+ * also fills Communication.response, updates the vendor's response rate
+ * and ends its outreach sequences.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { Communication } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import {
+  extractReplyText,
+  htmlToText,
+  parseAddresses,
+  parseRawEmail,
+  type ParsedEmail,
+} from "./mail-parser.service.js";
+import { recordCommunicationReply } from "./outreach.service.js";
+import { stopEnrollmentsOnReply } from "./outreach-sequence.service.js";
+
+export type InboundMatch = "token" | "header" | "sender";
+
+export interface InboundEmailResult {
+  inboundMessageId: string;
+  /** Already received (provider retry); nothing was changed */
+  duplicate: boolean;
+  matchedBy: InboundMatch | null;
+  communicationId: string | null;
+  vendorId: string | null;
+  stoppedEnrollments: number;
+}
+
+/** Compare the webhook's ?key= with INBOUND_EMAIL_SECRET in constant time */
+export function isValidInboundKey(key: unknown): boolean {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!secret || typeof key !== "string") return false;
+  const a = Buffer.from(key);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * SendGrid Inbound Parse fields → ParsedEmail. Handles both the default
+ * parsed post and "POST the raw, full MIME message" (the `email` field).
+ */
+export function fromInboundParse(fields: Record<string, string>): ParsedEmail {
+  if (fields.email) return parseRawEmail(Buffer.from(fields.email, "utf8"));
+
+  const fromHeaders = parseRawEmail(`${fields.headers ?? ""}\r\n\r\n`);
+  let envelopeTo: string[] = [];
+  try {
+    envelopeTo = (JSON.parse(fields.envelope ?? "{}") as { to?: string[] }).to ?? [];
+  } catch {
+    // Malformed envelope; the To/Cc headers still carry the recipients
+  }
+
+  return {
+    ...fromHeaders,
+    from: parseAddresses(fields.from)[0] ?? fromHeaders.from,
+    to: [
+      ...new Set([
+        ...fromHeaders.to,
+        ...parseAddresses(fields.to),
+        ...parseAddresses(fields.cc),
+        ...parseAddresses(envelopeTo.join(",")),
+      ]),
+    ],
+    subject: fields.subject ?? fromHeaders.subject,
+    text: fields.text || (fields.html ? htmlToText(fields.html) : ""),
+  };
+}
+
+// ─── Matching ─────────────────────────────────────────────────
+
+interface MatchResult {
+  matchedBy: InboundMatch;
+  communication: Communication | null;
+  vendorId: string;
+}
+
+/** The organisation whose sender address the email was sent to, if exactly one */
+async function receivingOrganization(to: string[]): Promise<string | null> {
+  const organizations = await prisma.organization.findMany({
+    where: { OR: to.map((address) => ({ senderEmail: { equals: address, mode: "insensitive" } })) },
+    select: { id: true },
+  });
+  return organizations.length === 1 ? organizations[0].id : null;
+}
+
+async function matchCommunication(email: ParsedEmail): Promise<MatchResult | null> {
+  for (const address of email.to) {
+    const token = /^reply\+([a-z0-9]+)@/.exec(address)?.[1];
+    if (!token) continue;
+    const communication = await prisma.communication.findUnique({ where: { replyToken: token } });
+    if (communication) {
+      return { matchedBy: "token", communication, vendorId: communication.vendorId };
+    }
+  }
+
+  if (email.threadIds.length > 0) {
+    const candidates = await prisma.communication.findMany({
+      where: { messageId: { in: email.threadIds } },
+    });
+    // Nearest ancestor first, so a reply to a follow-up matches the follow-up
+    const communication = email.threadIds
+      .map((id) => candidates.find((c) => c.messageId === id))
+      .find((c): c is Communication => !!c);
+    if (communication) {
+      return { matchedBy: "header", communication, vendorId: communication.vendorId };
+    }
+  }
+
+  if (!email.from) return null;
+
+  const organizationId = await receivingOrganization(email.to);
+  const vendor = organizationId ? { organizationId } : {};
+  const [emailed, contacts] = await Promise.all([
+    prisma.communication.findMany({
+      where: { type: "EMAIL", recipient: { equals: email.from, mode: "insensitive" }, vendor },
+      orderBy: [{ respondedAt: { sort: "desc", nulls: "first" } }, { sentAt: "desc" }],
+      distinct: ["vendorId"],
+      include: { vendor: { select: { organizationId: true } } },
+    }),
+    prisma.vendorContact.findMany({
+      where: { type: "email", value: { equals: email.from, mode: "insensitive" }, vendor },
+      select: { vendorId: true, vendor: { select: { organizationId: true } } },
+    }),
+  ]);
+
+  const organizations = new Set([...emailed, ...contacts].map((c) => c.vendor.organizationId));
+  if (organizations.size > 1) {
+    console.warn(`[Inbound] ${email.from} is a vendor of ${organizations.size} organisations; not matched`);
+    return null;
+  }
+
+  if (emailed.length > 0) {
+    const { vendor: _vendor, ...communication } = emailed[0];
+    return { matchedBy: "sender", communication, vendorId: communication.vendorId };
+  }
+
+  const contact = contacts[0];
+  if (!contact) return null;
+
+  const communication = await prisma.communication.findFirst({
+    where: { vendorId: contact.vendorId, type: "EMAIL", respondedAt: null },
+    orderBy: { sentAt: "desc" },
+  });
+  return { matchedBy: "sender", communication, vendorId: contact.vendorId };
+}
+
+// ─── Ingestion ────────────────────────────────────────────────
+
+export async function ingestInboundEmail(email: ParsedEmail): Promise<InboundEmailResult> {
+  if (email.messageId) {
+    const existing = await prisma.inboundMessage.findUnique({
+      where: { externalId: email.messageId },
+    });
+    if (existing) {
+      return {
+        inboundMessageId: existing.id,
+        duplicate: true,
+        matchedBy: existing.matchedBy as InboundMatch | null,
+        communicationId: existing.communicationId,
+        vendorId: existing.vendorId,
+        stoppedEnrollments: 0,
+      };
+    }
+  }
+
+  const match = await matchCommunication(email);
+  const now = new Date();
+  const receivedAt = email.date && email.date <= now ? email.date : now;
+  const body = extractReplyText(email.text);
+
+  const message = await prisma.inboundMessage.create({
+    data: {
+      channel: "EMAIL",
+      communicationId: match?.communication?.id,
+      vendorId: match?.vendorId,
+      fromAddress: email.from,
+      toAddress: email.to[0],
+      subject: email.subject,
+      body,
+      externalId: email.messageId,
+      inReplyTo: email.inReplyTo,
+      matchedBy: match?.matchedBy,
+      receivedAt,
+    },
+  });
+
+  let stoppedEnrollments = 0;
+  if (match) {
+    // Later messages in the thread are kept, the first reply is the response
+    if (match.communication && !match.communication.respondedAt) {
+      await recordCommunicationReply(match.communication.id, body, receivedAt);
+    }
+    stoppedEnrollments = await stopEnrollmentsOnReply(match.vendorId, receivedAt);
+    console.log(
+      `[Inbound] Reply from ${email.from} matched by ${match.matchedBy} to vendor ${match.vendorId}` +
+        (match.communication ? ` (communication ${match.communication.id})` : ""),
+    );
+  } else {
+    console.log(`[Inbound] Unmatched email from ${email.from}: ${email.subject ?? "(no subject)"}`);
+  }
+
+  return {
+    inboundMessageId: message.id,
+    duplicate: false,
+    matchedBy: match?.matchedBy ?? null,
+    communicationId: match?.communication?.id ?? null,
+    vendorId: match?.vendorId ?? null,
+    stoppedEnrollments,
+  };
+}
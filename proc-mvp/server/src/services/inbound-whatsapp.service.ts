@@ -0,0 +1,212 @@
+/**
+ * Inbound WhatsApp Service — vendor messages through the Twilio webhook.
+ *
+ * Twilio posts each incoming message to /api/outreach/whatsapp/inbound,
+ * signed with X-Twilio-Signature. The sender is matched to a vendor by the
+ * number we last messaged, else by a VendorContact phone (both compared
+ * after normalizePhoneForWhatsApp). Every organisation sends from the same
+ * number, so a sender who is a vendor of more than one organisation is
+ * left unmatched instead of guessing whose reply it is. The message is
+ * kept as an InboundMessage and answers the vendor's latest unanswered
+ * WhatsApp Communication.
+ *
+ * A vendor's message opens WhatsApp's 24-hour customer service window:
+ * until it closes, buyers can reply free-form instead of with a template.
+ */
+
+import twilio from "twilio";
+import { prisma } from "../lib/prisma.js";
+import { normalizePhoneForWhatsApp, sendWhatsApp } from "./whatsapp.service.js";
+import { recordCommunicationReply } from "./outreach.service.js";
+import { stopEnrollmentsOnReply } from "./outreach-sequence.service.js";
+
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Fields of Twilio's incoming message webhook that we use */
+export interface TwilioInboundParams {
+  MessageSid?: string;
+  From?: string; // whatsapp:+14155551234
+  To?: string;
+  Body?: string;
+  NumMedia?: string;
+  ProfileName?: string;
+}
+
+export interface InboundWhatsAppResult {
+  inboundMessageId: string;
+  duplicate: boolean;
+  matchedBy: "recipient" | "contact" | null;
+  communicationId: string | null;
+  vendorId: string | null;
+  stoppedEnrollments: number;
+}
+
+export interface WhatsAppWindow {
+  open: boolean;
+  /** Number the vendor wrote from; free-form replies go here */
+  phone: string | null;
+  lastInboundAt: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * Check X-Twilio-Signature. `url` must be the exact public URL Twilio
+ * posted to (TWILIO_WEBHOOK_URL when behind a proxy).
+ */
+export function verifyTwilioSignature(
+  signature: string | undefined,
+  url: string,
+  params: Record<string, string>,
+): boolean {
+  const token = process.env.TWILIO_AUTH_TOKEN;
+  if (!token || !signature) return false;
+  return twilio.validateRequest(token, signature, url, params);
+}
+
+/** "whatsapp:+44 20…" → "+4420…", the form outbound messages are recorded in */
+function senderPhone(from: string): string {
+  return normalizePhoneForWhatsApp(from.replace(/^whatsapp:/, ""));
+}
+
+async function matchVendor(phone: string) {
+  const vendor = { select: { organizationId: true } };
+  const [messaged, candidates] = await Promise.all([
+    prisma.communication.findMany({
+      where: { type: "WHATSAPP", recipient: phone },
+      orderBy: { sentAt: "desc" },
+      distinct: ["vendorId"],
+      select: { vendorId: true, vendor },
+    }),
+    // Contacts are stored as typed; compare them normalized, narrowing by the last digits
+    prisma.vendorContact.findMany({
+      where: { type: "phone", value: { contains: phone.slice(-2) } },
+      select: { vendorId: true, value: true, vendor },
+    }),
+  ]);
+  const contacts = candidates.filter((c) => normalizePhoneForWhatsApp(c.value) === phone);
+
+  const organizations = new Set([...messaged, ...contacts].map((c) => c.vendor.organizationId));
+  if (organizations.size > 1) {
+    console.warn(`[Inbound] ${phone} is a vendor of ${organizations.size} organisations; not matched`);
+    return null;
+  }
+
+  if (messaged.length > 0) return { vendorId: messaged[0].vendorId, matchedBy: "recipient" as const };
+  return contacts.length > 0
+    ? { vendorId: contacts[0].vendorId, matchedBy: "contact" as const }
+    : null;
+}
+
+export async function ingestInboundWhatsApp(
+  params: TwilioInboundParams,
+): Promise<InboundWhatsAppResult> {
+  if (!params.From) throw new Error("From is required");
+
+  if (params.MessageSid) {
+    const existing = await prisma.inboundMessage.findUnique({
+      where: { externalId: params.MessageSid },
+    });
+    if (existing) {
+      return {
+        inboundMessageId: existing.id,
+        duplicate: true,
+        matchedBy: existing.matchedBy as InboundWhatsAppResult["matchedBy"],
+        communicationId: existing.communicationId,
+        vendorId: existing.vendorId,
+        stoppedEnrollments: 0,
+      };
+    }
+  }
+
+  const phone = senderPhone(params.From);
+  const match = await matchVendor(phone);
+  const communication = match
+    ? await prisma.communication.findFirst({
+        where: { vendorId: match.vendorId, type: "WHATSAPP", respondedAt: null },
+        orderBy: { sentAt: "desc" },
+      })
+    : null;
+
+  const media = Number(params.NumMedia) || 0;
+  const body =
+    [params.Body?.trim(), media > 0 ? `[${media} attachment${media === 1 ? "" : "s"}]` : ""]
+      .filter(Boolean)
+      .join("\n") || "(empty message)";
+  const receivedAt = new Date();
+
+  const message = await prisma.inboundMessage.create({
+    data: {
+      channel: "WHATSAPP",
+      communicationId: communication?.id,
+      vendorId: match?.vendorId,
+      fromAddress: phone,
+      toAddress: params.To,
+      subject: params.ProfileName,
+      body,
+      externalId: params.MessageSid,
+      matchedBy: match?.matchedBy,
+      receivedAt,
+    },
+  });
+
+  let stoppedEnrollments = 0;
+  if (match) {
+    if (communication) await recordCommunicationReply(communication.id, body, receivedAt);
+    stoppedEnrollments = await stopEnrollmentsOnReply(match.vendorId, receivedAt);
+    await prisma.vendor.update({
+      where: { id: match.vendorId },
+      data: { lastContact: receivedAt },
+    });
+    console.log(`[Inbound] WhatsApp from ${phone} matched by ${match.matchedBy} to vendor ${match.vendorId}`);
+  } else {
+    console.log(`[Inbound] Unmatched WhatsApp from ${phone}`);
+  }
+
+  return {
+    inboundMessageId: message.id,
+    duplicate: false,
+    matchedBy: match?.matchedBy ?? null,
+    communicationId: communication?.id ?? null,
+    vendorId: match?.vendorId ?? null,
+    stoppedEnrollments,
+  };
+}
+
+// ─── 24-hour window ───────────────────────────────────────────
+
+export async function getWhatsAppWindow(vendorId: string): Promise<WhatsAppWindow> {
+  const last = await prisma.inboundMessage.findFirst({
+    where: { vendorId, channel: "WHATSAPP" },
+    orderBy: { receivedAt: "desc" },
+    select: { fromAddress: true, receivedAt: true },
+  });
+  if (!last) return { open: false, phone: null, lastInboundAt: null, expiresAt: null };
+
+  const expiresAt = new Date(last.receivedAt.getTime() + WINDOW_MS);
+  return {
+    open: expiresAt > new Date(),
+    phone: last.fromAddress,
+    lastInboundAt: last.receivedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+}
+
+/** Free-form reply inside the vendor's open window, recorded as a Communication */
+export async function sendWhatsAppReply(vendorId: string, body: string) {
+  const window = await getWhatsAppWindow(vendorId);
+  if (!window.open || !window.phone) {
+    throw new Error("WhatsApp window is closed; send a template message instead");
+  }
+
+  const result = await sendWhatsApp({ to: window.phone, body });
+  if (!result.success) throw new Error(result.error ?? "WhatsApp send failed");
+
+  const now = new Date();
+  const [communication] = await prisma.$transaction([
+    prisma.communication.create({
+      data: { vendorId, type: "WHATSAPP", content: body, recipient: window.phone, sentAt: now },
+    }),
+    prisma.vendor.update({ where: { id: vendorId }, data: { lastContact: now } }),
+  ]);
+  return { communication, window };
+}
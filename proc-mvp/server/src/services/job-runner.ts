@@ -1,63 +1,417 @@
 /**
- * Simple in-memory background job runner.
+ * Durable background job queue for discovery jobs, backed by Postgres.
  *
- * Uses AbortController for cancellation support.
- * Runs async functions without blocking the HTTP response.
- * Scalability note: for production, swap with Bull/BullMQ + Redis.
+ * Each DiscoveryJob row doubles as a queue entry:
+ * - Workers claim PENDING rows whose nextRunAt has passed, using
+ *   FOR UPDATE SKIP LOCKED so several server instances can share the queue
+ * - A claimed row carries a lease (leaseOwner + leaseExpiresAt) that the
+ *   owning worker renews with a heartbeat while the job runs
+ * - Failed attempts are retried with exponential backoff up to maxAttempts
+ * - Jobs whose lease expired (crashed or killed process) are reclaimed by
+ *   the periodic sweep, and resume from their persisted queryCursor
+ *
+ * Cancellation is a status change in the database: the owning worker sees
+ * it on its next heartbeat and aborts the job's AbortSignal.
  */
 
+import os from "os";
+import { prisma } from "../lib/prisma.js";
+
+export type JobHandler = (jobId: string, signal: AbortSignal) => Promise<void>;
+
 interface ActiveJob {
   controller: AbortController;
   startedAt: Date;
+  /** Set when the job is aborted because another worker took over the lease */
+  leaseLost: boolean;
 }
 
+const LEASE_MS = Number(process.env.DISCOVERY_LEASE_MS) || 60_000;
+const HEARTBEAT_MS = Math.max(1000, Math.floor(LEASE_MS / 3));
+const POLL_INTERVAL_MS = Number(process.env.DISCOVERY_POLL_INTERVAL_MS) || 5000;
+const CONCURRENCY = Number(process.env.DISCOVERY_WORKER_CONCURRENCY) || 2;
+const RETRY_BASE_MS = Number(process.env.DISCOVERY_RETRY_BASE_MS) || 30_000;
+const RETRY_MAX_MS = 15 * 60_000;
+
+/**
+ * Unique per process. The hostname and pid let a restarted process spot
+ * leases left by a dead predecessor on the same host.
+ */
+const WORKER_ID = `${os.hostname()}:${process.pid}:${Date.now().toString(36)}`;
+
 const activeJobs = new Map<string, ActiveJob>();
 
+let handler: JobHandler | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+// ─── Worker lifecycle ─────────────────────────────────────────
+
 /**
- * Start a function in the background. Returns immediately.
- * The function receives an AbortSignal it should check periodically.
+ * Start the queue worker in this process.
+ * Runs the orphan sweep first, then polls for due jobs.
  */
-export function startBackgroundJob(
-  jobId: string,
-  fn: (signal: AbortSignal) => Promise<void>,
-): void {
-  const controller = new AbortController();
+export async function startJobWorker(jobHandler: JobHandler): Promise<void> {
+  if (handler) return;
+  handler = jobHandler;
+
+  await sweepOrphanedJobs({ startup: true }).catch((err) =>
+    console.error("[JobRunner] Startup sweep failed:", err),
+  );
+
+  pollTimer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+  heartbeatTimer = setInterval(() => void heartbeat(), HEARTBEAT_MS);
+  void poll();
+
+  console.log(
+    `[JobRunner] Worker ${WORKER_ID} started | concurrency=${CONCURRENCY} lease=${LEASE_MS}ms`,
+  );
+}
 
-  activeJobs.set(jobId, {
-    controller,
-    startedAt: new Date(),
+/**
+ * Stop polling and hand running jobs back to the queue so another
+ * process (or this one after a restart) can resume them immediately.
+ */
+export async function stopJobWorker(): Promise<void> {
+  if (pollTimer) clearInterval(pollTimer);
+  if (heartbeatTimer) clearInterval(heartbeatTimer);
+  pollTimer = null;
+  heartbeatTimer = null;
+  handler = null;
+
+  const ids = Array.from(activeJobs.keys());
+  for (const id of ids) {
+    activeJobs.get(id)!.leaseLost = true;
+    activeJobs.get(id)!.controller.abort();
+  }
+  if (ids.length === 0) return;
+
+  // A graceful hand-off is not a failed attempt
+  await prisma.discoveryJob.updateMany({
+    where: { id: { in: ids }, leaseOwner: WORKER_ID, status: "RUNNING" },
+    data: {
+      status: "PENDING",
+      nextRunAt: new Date(),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      attempts: { decrement: 1 },
+    },
   });
+  console.log(`[JobRunner] Released ${ids.length} job(s) on shutdown`);
+}
+
+/** Wake the worker after a job has been queued, instead of waiting for the next poll. */
+export function notifyJobQueued(): void {
+  if (handler) void poll();
+}
+
+// ─── Claiming & execution ─────────────────────────────────────
+
+async function poll(): Promise<void> {
+  if (!handler || polling) return;
+  polling = true;
+
+  try {
+    await sweepOrphanedJobs();
+
+    // Re-check the handler on every iteration: stopJobWorker() may run mid-poll
+    while (handler !== null && activeJobs.size < CONCURRENCY) {
+      const jobId = await claimNextJob();
+      if (!jobId) break;
+      runClaimedJob(jobId, handler);
+    }
+  } catch (err) {
+    console.error("[JobRunner] Poll failed:", err);
+  } finally {
+    polling = false;
+  }
+}
+
+async function claimNextJob(): Promise<string | null> {
+  const leaseExpiresAt = new Date(Date.now() + LEASE_MS);
+
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    UPDATE "discovery_jobs"
+    SET "status" = 'RUNNING'::"DiscoveryJobStatus",
+        "leaseOwner" = ${WORKER_ID},
+        "leaseExpiresAt" = ${leaseExpiresAt},
+        "heartbeatAt" = NOW(),
+        "attempts" = "attempts" + 1,
+        "startedAt" = COALESCE("startedAt", NOW()),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "discovery_jobs"
+      WHERE "status" = 'PENDING'::"DiscoveryJobStatus" AND "nextRunAt" <= NOW()
+      ORDER BY "nextRunAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"`;
+
+  return rows[0]?.id ?? null;
+}
+
+function runClaimedJob(jobId: string, fn: JobHandler): void {
+  const controller = new AbortController();
+  const active: ActiveJob = { controller, startedAt: new Date(), leaseLost: false };
+  activeJobs.set(jobId, active);
 
   // Fire-and-forget: the job runs in the background
-  fn(controller.signal)
+  fn(jobId, controller.signal)
+    .then(() => releaseLease(jobId))
+    .catch((err: unknown) => handleFailure(jobId, active, err))
     .catch((err) => {
-      console.error(`[JobRunner] Job ${jobId} failed:`, err.message);
+      console.error(`[JobRunner] Bookkeeping for job ${jobId} failed:`, err);
     })
     .finally(() => {
       activeJobs.delete(jobId);
+      void poll();
     });
 }
 
-/** Cancel a running background job by aborting its signal. */
+async function releaseLease(jobId: string): Promise<void> {
+  await prisma.discoveryJob.updateMany({
+    where: { id: jobId, leaseOwner: WORKER_ID },
+    data: { leaseOwner: null, leaseExpiresAt: null },
+  });
+}
+
+async function handleFailure(
+  jobId: string,
+  active: ActiveJob,
+  err: unknown,
+): Promise<void> {
+  // Another worker owns the job now; leave the row alone
+  if (active.leaseLost) return;
+
+  const job = await prisma.discoveryJob.findUnique({ where: { id: jobId } });
+  if (!job || job.leaseOwner !== WORKER_ID) return;
+
+  if (job.status === "CANCELLED") {
+    console.log(`[JobRunner] Job ${jobId} was cancelled`);
+    await releaseLease(jobId);
+    return;
+  }
+
+  const message = err instanceof Error ? err.message : "Unknown error";
+
+  if (job.attempts < job.maxAttempts) {
+    const delay = retryDelay(job.attempts);
+    console.warn(
+      `[JobRunner] Job ${jobId} attempt ${job.attempts}/${job.maxAttempts} failed: ${message} — retrying in ${Math.round(delay / 1000)}s`,
+    );
+    await prisma.discoveryJob.update({
+      where: { id: jobId },
+      data: {
+        status: "PENDING",
+        error: message,
+        nextRunAt: new Date(Date.now() + delay),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+    return;
+  }
+
+  console.error(`[JobRunner] Job ${jobId} FAILED after ${job.attempts} attempts:`, message);
+  await prisma.discoveryJob.update({
+    where: { id: jobId },
+    data: {
+      status: "FAILED",
+      error: message,
+      completedAt: new Date(),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// ─── Heartbeats ───────────────────────────────────────────────
+
+/**
+ * Renew leases for every job this worker runs. Aborts jobs that were
+ * cancelled through the API or whose lease was taken over by another worker.
+ */
+async function heartbeat(): Promise<void> {
+  const ids = Array.from(activeJobs.keys());
+  if (ids.length === 0) return;
+
+  try {
+    await prisma.discoveryJob.updateMany({
+      where: { id: { in: ids }, leaseOwner: WORKER_ID, status: "RUNNING" },
+      data: {
+        heartbeatAt: new Date(),
+        leaseExpiresAt: new Date(Date.now() + LEASE_MS),
+      },
+    });
+
+    const rows = await prisma.discoveryJob.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, status: true, leaseOwner: true },
+    });
+
+    for (const row of rows) {
+      const active = activeJobs.get(row.id);
+      if (!active || active.controller.signal.aborted) continue;
+      if (row.leaseOwner !== WORKER_ID) {
+        console.warn(`[JobRunner] Lost lease on job ${row.id}; aborting local run`);
+        active.leaseLost = true;
+        active.controller.abort();
+      } else if (row.status === "CANCELLED") {
+        active.controller.abort();
+      }
+    }
+  } catch (err) {
+    console.error("[JobRunner] Heartbeat failed:", err);
+  }
+}
+
+// ─── Orphan sweep ─────────────────────────────────────────────
+
+/**
+ * Reclaim RUNNING jobs nobody is heartbeating: expired leases, rows left
+ * over from the old in-memory runner (no lease at all) and — on startup —
+ * unexpired leases held by a process on this host that no longer exists.
+ * Live sibling workers on the same host keep their jobs.
+ * Jobs with attempts left go back to PENDING; the rest are marked FAILED.
+ */
+export async function sweepOrphanedJobs(options?: {
+  startup?: boolean;
+}): Promise<{ requeued: number; failed: number }> {
+  const now = new Date();
+  const hostPrefix = `${os.hostname()}:`;
+
+  const candidates = await prisma.discoveryJob.findMany({
+    where: {
+      status: "RUNNING",
+      id: { notIn: Array.from(activeJobs.keys()) },
+      OR: [
+        { leaseOwner: null },
+        { leaseExpiresAt: null },
+        { leaseExpiresAt: { lt: now } },
+        ...(options?.startup
+          ? [{ leaseOwner: { startsWith: hostPrefix, not: WORKER_ID } }]
+          : []),
+      ],
+    },
+    select: {
+      id: true,
+      attempts: true,
+      maxAttempts: true,
+      leaseOwner: true,
+      leaseExpiresAt: true,
+    },
+  });
+
+  // A live lease is only reclaimed when its owner process is gone
+  const orphans = candidates.filter(
+    (job) =>
+      !job.leaseOwner ||
+      !job.leaseExpiresAt ||
+      job.leaseExpiresAt < now ||
+      isLocalOwnerDead(job.leaseOwner),
+  );
+
+  let requeued = 0;
+  let failed = 0;
+
+  for (const job of orphans) {
+    const where = {
+      id: job.id,
+      status: "RUNNING" as const,
+      leaseOwner: job.leaseOwner,
+    };
+
+    if (job.attempts < job.maxAttempts) {
+      const { count } = await prisma.discoveryJob.updateMany({
+        where,
+        data: {
+          status: "PENDING",
+          nextRunAt: now,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          error: `Worker ${job.leaseOwner ?? "unknown"} stopped; job requeued`,
+        },
+      });
+      requeued += count;
+    } else {
+      const { count } = await prisma.discoveryJob.updateMany({
+        where,
+        data: {
+          status: "FAILED",
+          completedAt: now,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          error: `Worker stopped and job exhausted ${job.maxAttempts} attempts`,
+        },
+      });
+      failed += count;
+    }
+  }
+
+  if (requeued || failed) {
+    console.log(`[JobRunner] Orphan sweep: requeued=${requeued} failed=${failed}`);
+  }
+
+  return { requeued, failed };
+}
+
+/**
+ * Whether a lease owner from this host (`hostname:pid:boot`) has exited.
+ * An owner with our own pid is a predecessor whose pid was reused, as
+ * happens to PID 1 when a container restarts.
+ */
+function isLocalOwnerDead(owner: string): boolean {
+  const pid = Number(owner.slice(os.hostname().length + 1).split(":")[0]);
+  if (!Number.isInteger(pid) || pid <= 0) return false;
+  if (pid === process.pid) return true;
+
+  try {
+    process.kill(pid, 0);
+    return false;
+  } catch (err: unknown) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
+
+// ─── Introspection ────────────────────────────────────────────
+
+/** Abort a job running in this process. Returns false if it runs elsewhere (or not at all). */
 export function cancelJob(jobId: string): boolean {
   const job = activeJobs.get(jobId);
   if (!job) return false;
   job.controller.abort();
-  activeJobs.delete(jobId);
   return true;
 }
 
-/** Check if a job is actively running in memory. */
-export function isJobRunning(jobId: string): boolean {
-  return activeJobs.has(jobId);
+/** Whether a job row holds a live lease, i.e. some worker is actively running it. */
+export function isJobRunning(job: {
+  status: string;
+  leaseExpiresAt: Date | null;
+}): boolean {
+  return (
+    job.status === "RUNNING" &&
+    !!job.leaseExpiresAt &&
+    job.leaseExpiresAt.getTime() > Date.now()
+  );
 }
 
-/** Get total number of active background jobs. */
+/** Get the number of jobs running in this process. */
 export function getActiveJobCount(): number {
   return activeJobs.size;
 }
 
-/** Get all active job IDs. */
+/** Get the IDs of jobs running in this process. */
 export function getActiveJobIds(): string[] {
   return Array.from(activeJobs.keys());
 }
+
+export function getWorkerId(): string {
+  return WORKER_ID;
+}
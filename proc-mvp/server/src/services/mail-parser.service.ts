@@ -0,0 +1,262 @@
+/**
+ * Mail Parser — just enough MIME for inbound vendor replies.
+ *
+ * - parseRawEmail: RFC 5322 message → headers + plain-text body
+ *   (multipart, base64, quoted-printable and encoded-word subjects)
+ * - parseMultipartForm: multipart/form-data text fields, as posted by
+ *   SendGrid Inbound Parse (file parts are skipped)
+ * - parseMultipart: fields and files, for vendor portal uploads
+ * - extractReplyText: the new part of a reply, without the quoted thread
+ */
+
+export interface ParsedEmail {
+  from: string;
+  to: string[];
+  subject?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  /** Message-IDs from In-Reply-To and References, nearest ancestor first */
+  threadIds: string[];
+  text: string;
+  date?: Date;
+}
+
+// ─── Headers ──────────────────────────────────────────────────
+
+/** Split a message or MIME part into its header block and body */
+function splitMessage(raw: string): { head: string; body: string } {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { head: raw, body: "" };
+  return { head: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) };
+}
+
+/** Header block → lower-cased name → value (folded lines joined, first occurrence wins) */
+export function parseHeaders(head: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const unfolded = head.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+/** `text/plain; charset="utf-8"` → { value: "text/plain", params: { charset: "utf-8" } } */
+function parseHeaderParams(value: string | undefined) {
+  const [first, ...rest] = (value ?? "").split(";");
+  const params: Record<string, string> = {};
+  for (const part of rest) {
+    const eq = part.indexOf("=");
+    if (eq < 0) continue;
+    params[part.slice(0, eq).trim().toLowerCase()] = part
+      .slice(eq + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+/** Decode RFC 2047 encoded words, e.g. =?UTF-8?B?...?= */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(/=\?([^?]+)\?([bqBQ])\?([^?]*)\?=/g, (_m, charset: string, enc: string, text: string) => {
+      const bytes =
+        enc.toUpperCase() === "B"
+          ? Buffer.from(text, "base64")
+          : decodeQuotedPrintable(text.replace(/_/g, " "));
+      return decodeCharset(bytes, charset);
+    });
+}
+
+/** Bare, lower-cased addresses from an address header */
+export function parseAddresses(value: string | undefined): string[] {
+  return (value?.match(/[^\s<>,;"']+@[^\s<>,;"']+/g) ?? []).map((a) => a.toLowerCase());
+}
+
+/** Message-IDs (with angle brackets) from In-Reply-To / References */
+export function parseMessageIds(value: string | undefined): string[] {
+  return value?.match(/<[^<>\s]+>/g) ?? [];
+}
+
+// ─── Bodies ───────────────────────────────────────────────────
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const joined = text.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < joined.length; i++) {
+    const hex = joined.slice(i + 1, i + 3);
+    if (joined[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(joined.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeCharset(bytes: Buffer, charset = "utf-8"): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeBody(body: string, encoding: string | undefined, charset: string | undefined) {
+  switch (encoding?.toLowerCase()) {
+    case "base64":
+      return decodeCharset(Buffer.from(body.replace(/\s+/g, ""), "base64"), charset);
+    case "quoted-printable":
+      return decodeCharset(decodeQuotedPrintable(body), charset);
+    default:
+      // 7bit/8bit bodies were read as latin1 bytes; re-decode in their charset
+      return decodeCharset(Buffer.from(body, "latin1"), charset);
+  }
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Plain text of a MIME entity: text/plain preferred, else text/html stripped */
+function extractText(headers: Record<string, string>, body: string): { plain?: string; html?: string } {
+  const type = parseHeaderParams(headers["content-type"] || "text/plain");
+  const encoding = headers["content-transfer-encoding"];
+
+  if (type.value.startsWith("multipart/") && type.params.boundary) {
+    const found: { plain?: string; html?: string } = {};
+    for (const part of splitMultipart(body, type.params.boundary)) {
+      const { head, body: partBody } = splitMessage(part);
+      const partHeaders = parseHeaders(head);
+      if (/attachment/i.test(partHeaders["content-disposition"] ?? "")) continue;
+      const text = extractText(partHeaders, partBody);
+      found.plain ??= text.plain;
+      found.html ??= text.html;
+      if (found.plain) break;
+    }
+    return found;
+  }
+
+  if (type.value === "text/html") return { html: decodeBody(body, encoding, type.params.charset) };
+  if (type.value.startsWith("text/")) return { plain: decodeBody(body, encoding, type.params.charset) };
+  return {};
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  return body
+    .split(delimiter)
+    .slice(1)
+    .filter((part) => !part.startsWith("--"))
+    .map((part) => part.replace(/^\r?\n/, "").replace(/\r?\n$/, ""));
+}
+
+// ─── Public API ───────────────────────────────────────────────
+
+/**
+ * Parse a raw message. Pass it as a latin1 string (or Buffer) so 8bit
+ * bodies decode in their declared charset.
+ */
+export function parseRawEmail(raw: string | Buffer): ParsedEmail {
+  const source = typeof raw === "string" ? raw : raw.toString("latin1");
+  const { head, body } = splitMessage(source);
+  const headers = parseHeaders(head);
+  const { plain, html } = extractText(headers, body);
+
+  const inReplyTo = parseMessageIds(headers["in-reply-to"])[0];
+  const references = parseMessageIds(headers.references).reverse();
+  const date = headers.date ? new Date(headers.date) : undefined;
+
+  return {
+    from: parseAddresses(headers.from)[0] ?? "",
+    to: parseAddresses([headers.to, headers.cc, headers["delivered-to"]].filter(Boolean).join(",")),
+    subject: headers.subject ? decodeEncodedWords(headers.subject) : undefined,
+    messageId: parseMessageIds(headers["message-id"])[0],
+    inReplyTo,
+    threadIds: [...new Set([inReplyTo, ...references].filter((id): id is string => !!id))],
+    text: plain ?? (html ? htmlToText(html) : ""),
+    date: date && !Number.isNaN(date.getTime()) ? date : undefined,
+  };
+}
+
+export interface MultipartFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/** Fields and files of a multipart/form-data body */
+export function parseMultipart(
+  body: Buffer,
+  contentType: string,
+): { fields: Record<string, string>; files: MultipartFile[] } {
+  const { params } = parseHeaderParams(contentType);
+  if (!params.boundary) throw new Error("multipart boundary missing");
+
+  const fields: Record<string, string> = {};
+  const files: MultipartFile[] = [];
+  for (const part of splitMultipart(body.toString("latin1"), params.boundary)) {
+    const { head, body: value } = splitMessage(part);
+    const headers = parseHeaders(head);
+    const disposition = parseHeaderParams(headers["content-disposition"]);
+    const name = disposition.params.name;
+    if (!name) continue;
+    if (disposition.params.filename === undefined) {
+      fields[name] = Buffer.from(value, "latin1").toString("utf8");
+    } else if (disposition.params.filename) {
+      files.push({
+        field: name,
+        // Browsers send UTF-8 file names as raw bytes
+        filename: Buffer.from(disposition.params.filename, "latin1").toString("utf8"),
+        contentType: parseHeaderParams(headers["content-type"]).value || "application/octet-stream",
+        content: Buffer.from(value, "latin1"),
+      });
+    }
+  }
+  return { fields, files };
+}
+
+/** Text fields of a multipart/form-data body; file parts are skipped */
+export function parseMultipartForm(body: Buffer, contentType: string): Record<string, string> {
+  return parseMultipart(body, contentType).fields;
+}
+
+/** Markers that start the quoted thread below a reply */
+const QUOTE_MARKERS = [
+  /^On .+(\r?\n.+)?wrote:\s*$/m,
+  /^-{2,}\s*Original Message\s*-{2,}/im,
+  /^_{10,}\s*$/m,
+  /^From: .+$/m,
+];
+
+/** The new text of a reply, without the quoted history underneath */
+export function extractReplyText(text: string): string {
+  let cut = text.length;
+  for (const marker of QUOTE_MARKERS) {
+    const match = marker.exec(text);
+    if (match && match.index < cut) cut = match.index;
+  }
+  const reply = text
+    .slice(0, cut)
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith(">"))
+    .join("\n")
+    .trim();
+  return reply || text.trim();
+}
@@ -0,0 +1,516 @@
+/**
+ * Message Template Service — the outreach template library.
+ *
+ * Templates are plain text with {{variable}} placeholders, one per key,
+ * channel and language in each organisation; new organisations start with
+ * the library in starter-content.ts. Editing the subject or body adds a version; sent
+ * Communications keep the version they were rendered from.
+ *
+ * Sends refer to a template by ID, or by key (sequence steps): the key is
+ * resolved for the channel in the requested language, falling back to
+ * English. Keys without a library template use the built-in texts in
+ * email.service.ts / whatsapp.service.ts.
+ */
+
+import type { MessageTemplate, MessageTemplateVersion, OutreachChannel, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { getSenderIdentity } from "./organization.service.js";
+import type {
+  CreateTemplateInput,
+  PreviewDraftInput,
+  PreviewTemplateInput,
+  TemplateQuery,
+  UpdateTemplateInput,
+} from "../schemas/template.schema.js";
+
+export const DEFAULT_LANGUAGE = "en";
+
+/** Variables a template may use, with what they are filled with */
+export const TEMPLATE_VARIABLES = {
+  vendorName: "Vendor company name",
+  productCategories: "Vendor's product categories, comma separated",
+  companyName: "Our organisation's name",
+  buyerName: "Sending user, else the RFQ's requester",
+  rfqNumber: "RFQ number",
+  rfqProducts: "RFQ line items with quantities, one per line",
+  deliveryLocation: "RFQ delivery location",
+  deliveryDate: "RFQ required delivery date",
+  deadline: "Quote submission deadline",
+  portalLink: "Vendor's quote portal link (RFQ dispatch only)",
+  quotedPrice: "Vendor's current quote total (counter-offers only)",
+  counterPrice: "Price we counter with (counter-offers only)",
+  poNumber: "Purchase order number (purchase orders only)",
+  orderTotal: "Purchase order total (purchase orders only)",
+  customMessage: "Free text given when sending (may be empty)",
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+/** Rendered as empty when not given instead of failing the send */
+const OPTIONAL_VARIABLES: TemplateVariable[] = ["customMessage"];
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+export interface ResolvedTemplate {
+  template: MessageTemplate;
+  version: MessageTemplateVersion;
+}
+
+export interface RenderedTemplate {
+  templateId: string | null;
+  templateVersionId: string | null;
+  version: number | null;
+  language: string;
+  subject?: string;
+  text: string;
+  html: string;
+  /** Required variables without a value; a send fails while any are missing */
+  missing: string[];
+}
+
+// ─── Rendering ────────────────────────────────────────────────
+
+export function templateVariablesIn(...texts: (string | null | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of (text ?? "").matchAll(PLACEHOLDER)) names.add(match[1]);
+  }
+  return [...names];
+}
+
+export function assertKnownVariables(...texts: (string | null | undefined)[]) {
+  const unknown = templateVariablesIn(...texts).filter((name) => !(name in TEMPLATE_VARIABLES));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown template variable(s): ${unknown.join(", ")}`);
+  }
+}
+
+function fill(text: string, values: TemplateValues, missing: Set<string>): string {
+  return text
+    .replace(PLACEHOLDER, (_m, name: string) => {
+      const value = values[name as TemplateVariable];
+      if (value) return value;
+      if (!OPTIONAL_VARIABLES.includes(name as TemplateVariable)) missing.add(name);
+      return "";
+    })
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Plain-text body → the simple HTML layout of the built-in emails */
+export function textToHtml(text: string): string {
+  const paragraphs = text
+    .trim()
+    .split(/\n{2,}/)
+    .map((p) => `  <p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+  return `
+<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"></head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px;">
+${paragraphs}
+</body>
+</html>`;
+}
+
+export function renderTemplate(
+  content: { subject?: string | null; body: string },
+  values: TemplateValues,
+  meta: { template?: MessageTemplate; version?: MessageTemplateVersion; language?: string } = {},
+): RenderedTemplate {
+  const missing = new Set<string>();
+  const subject = content.subject ? fill(content.subject, values, missing).trim() : undefined;
+  const text = fill(content.body, values, missing).trim();
+  return {
+    templateId: meta.template?.id ?? null,
+    templateVersionId: meta.version?.id ?? null,
+    version: meta.version?.version ?? null,
+    language: meta.template?.language ?? meta.language ?? DEFAULT_LANGUAGE,
+    subject,
+    text,
+    html: textToHtml(text),
+    missing: [...missing],
+  };
+}
+
+// ─── Variable values ──────────────────────────────────────────
+
+export interface TemplateValueInput {
+  vendorName?: string;
+  productCategories?: string[];
+  /** The sending organisation's name */
+  companyName?: string;
+  rfqId?: string;
+  /** Sending user, for buyerName */
+  userId?: string | null;
+  deadline?: string;
+  customMessage?: string;
+  /** Explicit values win over looked-up ones */
+  variables?: TemplateValues;
+}
+
+function formatDate(value: Date, language: string): string {
+  try {
+    return value.toLocaleDateString(language, { day: "numeric", month: "long", year: "numeric" });
+  } catch {
+    return value.toISOString().slice(0, 10);
+  }
+}
+
+export async function buildTemplateValues(
+  input: TemplateValueInput,
+  language = DEFAULT_LANGUAGE,
+): Promise<TemplateValues> {
+  const [rfq, user] = await Promise.all([
+    input.rfqId
+      ? prisma.rfq.findUnique({
+          where: { id: input.rfqId },
+          include: { lineItems: true, requestedBy: { select: { name: true } } },
+        })
+      : null,
+    input.userId
+      ? prisma.user.findUnique({ where: { id: input.userId }, select: { name: true } })
+      : null,
+  ]);
+  if (input.rfqId && !rfq) throw new Error("RFQ not found");
+
+  const deadline = input.deadline ? new Date(input.deadline) : null;
+  const values: TemplateValues = {
+    vendorName: input.vendorName,
+    productCategories: input.productCategories?.join(", "),
+    companyName: input.companyName,
+    buyerName: user?.name ?? rfq?.requestedBy.name,
+    rfqNumber: rfq?.rfqNumber,
+    rfqProducts: rfq?.lineItems
+      .map((item) => `• ${item.productName} — ${item.quantity} ${item.unit}`)
+      .join("\n"),
+    deliveryLocation: rfq?.deliveryLocation,
+    deliveryDate: rfq?.requiredDeliveryDate
+      ? formatDate(rfq.requiredDeliveryDate, language)
+      : undefined,
+    deadline:
+      deadline && !Number.isNaN(deadline.getTime())
+        ? formatDate(deadline, language)
+        : input.deadline,
+    customMessage: input.customMessage,
+  };
+
+  return { ...values, ...input.variables };
+}
+
+// ─── Resolution ───────────────────────────────────────────────
+
+async function withVersion(
+  template: MessageTemplate | null,
+  version?: number,
+): Promise<ResolvedTemplate | null> {
+  if (!template) return null;
+  const row = await prisma.messageTemplateVersion.findUnique({
+    where: {
+      templateId_version: { templateId: template.id, version: version ?? template.currentVersion },
+    },
+  });
+  return row ? { template, version: row } : null;
+}
+
+/**
+ * The organisation's template by ID, or its active one for key + channel in
+ * `language` (else English)
+ */
+export async function resolveTemplate(
+  ref: {
+    templateId?: string;
+    key?: string;
+    channel: OutreachChannel;
+    language?: string;
+  },
+  organizationId: string,
+): Promise<ResolvedTemplate | null> {
+  if (ref.templateId) {
+    const template = await prisma.messageTemplate.findFirst({
+      where: { id: ref.templateId, organizationId },
+    });
+    if (template && template.channel !== ref.channel) {
+      throw new Error(`Template "${template.name}" is for ${template.channel}, not ${ref.channel}`);
+    }
+    return withVersion(template);
+  }
+  if (!ref.key) return null;
+
+  const languages = [...new Set([ref.language ?? DEFAULT_LANGUAGE, DEFAULT_LANGUAGE])];
+  const candidates = await prisma.messageTemplate.findMany({
+    where: {
+      organizationId,
+      key: ref.key,
+      channel: ref.channel,
+      active: true,
+      language: { in: languages },
+    },
+  });
+  const template = languages
+    .map((language) => candidates.find((c) => c.language === language))
+    .find((c): c is MessageTemplate => !!c);
+  return withVersion(template ?? null);
+}
+
+/**
+ * Check that every step's template key can be sent: a library template
+ * for its channel in the organisation, or one of the built-in keys.
+ */
+export async function assertTemplatesAvailable(
+  steps: { template: string; channel: OutreachChannel }[],
+  builtInKeys: readonly string[],
+  organizationId: string,
+) {
+  const needed = steps.filter((s) => !builtInKeys.includes(s.template));
+  if (needed.length === 0) return;
+
+  const available = await prisma.messageTemplate.findMany({
+    where: { organizationId, active: true, key: { in: needed.map((s) => s.template) } },
+    select: { key: true, channel: true },
+  });
+  const missing = needed.filter(
+    (s) => !available.some((t) => t.key === s.template && t.channel === s.channel),
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `No active template for ${missing.map((s) => `"${s.template}" (${s.channel})`).join(", ")}`,
+    );
+  }
+}
+
+// ─── Library ──────────────────────────────────────────────────
+
+const currentVersionInclude = {
+  versions: { orderBy: { version: "desc" }, take: 1 },
+} satisfies Prisma.MessageTemplateInclude;
+
+export async function listTemplates(query: TemplateQuery, organizationId: string) {
+  const templates = await prisma.messageTemplate.findMany({
+    where: {
+      organizationId,
+      key: query.key,
+      channel: query.channel,
+      language: query.language,
+      active: query.active,
+    },
+    include: currentVersionInclude,
+    orderBy: [{ key: "asc" }, { channel: "asc" }, { language: "asc" }],
+  });
+  return templates.map(({ versions, ...t }) => ({
+    ...t,
+    subject: versions[0]?.subject ?? null,
+    body: versions[0]?.body ?? "",
+  }));
+}
+
+export async function getTemplate(id: string, organizationId: string) {
+  return prisma.messageTemplate.findFirst({
+    where: { id, organizationId },
+    include: { versions: { orderBy: { version: "desc" } } },
+  });
+}
+
+export async function createTemplate(
+  input: CreateTemplateInput,
+  organizationId: string,
+  userId?: string,
+) {
+  assertKnownVariables(input.subject, input.body);
+  const existing = await prisma.messageTemplate.findUnique({
+    where: {
+      organizationId_key_channel_language: {
+        organizationId,
+        key: input.key,
+        channel: input.channel,
+        language: input.language,
+      },
+    },
+  });
+  if (existing) {
+    throw new Error(
+      `A ${input.channel} "${input.key}" template already exists in ${input.language}`,
+    );
+  }
+
+  return prisma.messageTemplate.create({
+    data: {
+      organizationId,
+      key: input.key,
+      name: input.name,
+      channel: input.channel,
+      language: input.language,
+      description: input.description,
+      active: input.active,
+      createdById: userId,
+      versions: {
+        create: {
+          version: 1,
+          subject: input.channel === "EMAIL" ? input.subject : null,
+          body: input.body,
+          createdById: userId,
+        },
+      },
+    },
+    include: { versions: { orderBy: { version: "desc" } } },
+  });
+}
+
+export async function updateTemplate(id: string, input: UpdateTemplateInput, userId?: string) {
+  const resolved = await withVersion(await prisma.messageTemplate.findUnique({ where: { id } }));
+  if (!resolved) throw new Error("Template not found");
+  const { template, version: current } = resolved;
+
+  const subject = template.channel === "EMAIL" ? (input.subject ?? current.subject) : null;
+  const body = input.body ?? current.body;
+  assertKnownVariables(subject, body);
+  const changed = subject !== current.subject || body !== current.body;
+
+  return prisma.messageTemplate.update({
+    where: { id },
+    data: {
+      name: input.name,
+      description: input.description,
+      active: input.active,
+      ...(changed && {
+        currentVersion: template.currentVersion + 1,
+        versions: {
+          create: { version: template.currentVersion + 1, subject, body, createdById: userId },
+        },
+      }),
+    },
+    include: { versions: { orderBy: { version: "desc" } } },
+  });
+}
+
+/** Make an earlier version current again (as a new version) */
+export async function restoreTemplateVersion(id: string, version: number, userId?: string) {
+  const resolved = await withVersion(await prisma.messageTemplate.findUnique({ where: { id } }), version);
+  if (!resolved) throw new Error("Template version not found");
+  return updateTemplate(
+    id,
+    { subject: resolved.version.subject ?? undefined, body: resolved.version.body },
+    userId,
+  );
+}
+
+export async function deleteTemplate(id: string, builtInKeys: readonly string[]) {
+  const template = await prisma.messageTemplate.findUnique({ where: { id } });
+  if (!template) throw new Error("Template not found");
+
+  // The organisation's sequence steps refer to the key; keep at least one template they can use
+  if (!builtInKeys.includes(template.key)) {
+    const { organizationId } = template;
+    const [steps, siblings] = await Promise.all([
+      prisma.outreachSequenceStep.count({
+        where: { template: template.key, channel: template.channel, sequence: { organizationId } },
+      }),
+      prisma.messageTemplate.count({
+        where: {
+          organizationId,
+          key: template.key,
+          channel: template.channel,
+          active: true,
+          id: { not: id },
+        },
+      }),
+    ]);
+    if (steps > 0 && siblings === 0) {
+      throw new Error("Template is used by outreach sequence steps; deactivate it instead");
+    }
+  }
+
+  await prisma.messageTemplate.delete({ where: { id } });
+}
+
+// ─── Preview ──────────────────────────────────────────────────
+
+type PreviewContext = Omit<PreviewTemplateInput, "version">;
+
+/** Values from the organisation's own vendor, discovery result and RFQ */
+async function previewValues(
+  input: PreviewContext,
+  language: string,
+  organizationId: string,
+  userId?: string,
+) {
+  let vendorName: string | undefined;
+  let productCategories: string[] | undefined;
+
+  if (input.rfqId) {
+    const rfq = await prisma.rfq.findFirst({
+      where: { id: input.rfqId, organizationId },
+      select: { id: true },
+    });
+    if (!rfq) throw new Error("RFQ not found");
+  }
+
+  if (input.vendorId) {
+    const vendor = await prisma.vendor.findFirst({
+      where: { id: input.vendorId, organizationId },
+      include: { products: { select: { productCategory: true } } },
+    });
+    if (!vendor) throw new Error("Vendor not found");
+    vendorName = vendor.companyName;
+    productCategories = vendor.products.map((p) => p.productCategory);
+  } else if (input.resultId) {
+    const result = await prisma.discoveryResult.findFirst({
+      where: { id: input.resultId, job: { organizationId } },
+    });
+    if (!result) throw new Error("Discovery result not found");
+    vendorName = result.companyName;
+    productCategories = result.productCategories;
+  }
+
+  const { companyName } = await getSenderIdentity(organizationId);
+  return buildTemplateValues(
+    {
+      vendorName,
+      productCategories,
+      companyName,
+      rfqId: input.rfqId,
+      userId,
+      deadline: input.deadline,
+      customMessage: input.customMessage,
+      variables: input.variables,
+    },
+    language,
+  );
+}
+
+/** Render a saved template against a real vendor (or discovery result) and RFQ */
+export async function previewTemplate(
+  id: string,
+  input: PreviewTemplateInput,
+  organizationId: string,
+  userId?: string,
+) {
+  const resolved = await withVersion(
+    await prisma.messageTemplate.findUnique({ where: { id } }),
+    input.version,
+  );
+  if (!resolved) throw new Error("Template version not found");
+
+  const values = await previewValues(input, resolved.template.language, organizationId, userId);
+  return renderTemplate(resolved.version, values, resolved);
+}
+
+/** Render unsaved template text */
+export async function previewDraft(
+  input: PreviewDraftInput,
+  organizationId: string,
+  userId?: string,
+) {
+  assertKnownVariables(input.subject, input.body);
+  const values = await previewValues(input, input.language, organizationId, userId);
+  return renderTemplate(input, values, { language: input.language });
+}
@@ -0,0 +1,384 @@
+/**
+ * Negotiation Service — counter-offers on a quote, round by round.
+ *
+ * A round is a counter price sent to the vendor through outreach (the
+ * counter_offer template, by email or WhatsApp) or recorded after a call,
+ * and the vendor's answer: accepted, a revised price, or declined. Vendors
+ * may also answer by resubmitting through their quote portal. Agreed and
+ * revised prices are applied to the quote (repriceQuote).
+ *
+ * Suggested counters use the PRD's counter-offer formula:
+ *   counter = lowest + (vendorScore − 5) × 0.02 × lowest
+ * where vendorScore is the quote's comparison score on a 0–10 scale and
+ * lowest is the cheapest eligible quote comparable to it (for a partial
+ * bid, the cheapest exact offers on the lines it prices). A counter is
+ * never above what the vendor quoted. The tactic and draft message follow
+ * the PRD's negotiation table.
+ *
+ * After NEGOTIATION_MAX_ROUNDS rounds (default 3) without agreement the
+ * quote is escalated: only an admin can send further rounds.
+ */
+
+import type {
+  CommunicationType,
+  NegotiationRound,
+  NegotiationRoundStatus,
+} from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type {
+  CounterOfferInput,
+  VendorResponseInput,
+} from "../schemas/quote.schema.js";
+import { sendOutreach } from "./outreach.service.js";
+import { repriceQuote } from "./quote.service.js";
+import { compareRfqQuotes } from "./quote-scoring.service.js";
+
+const COUNTER_OFFER_TEMPLATE_KEY = "counter_offer";
+
+/** Quotes in these states can be negotiated */
+const NEGOTIABLE = ["RECEIVED", "UNDER_REVIEW", "NEGOTIATING"];
+
+const CHANNELS: Record<CounterOfferInput["channel"], CommunicationType> = {
+  email: "EMAIL",
+  whatsapp: "WHATSAPP",
+  call: "CALL",
+};
+
+export interface CounterSuggestion {
+  currency: string;
+  /** Cheapest comparable quote, in the quote's currency */
+  lowestPrice: number;
+  /** Comparison score on the PRD's 0–10 scale */
+  vendorScore: number;
+  suggestedPrice: number;
+  /** How far the quote is above lowestPrice */
+  abovePct: number;
+  /** PRD target: more than 10% above the lowest from a vendor scoring over 7 */
+  negotiable: boolean;
+  tactic: string;
+  message: string;
+}
+
+export interface Negotiator {
+  userId: string;
+  role: string;
+}
+
+export function maxNegotiationRounds(): number {
+  const value = Number(process.env.NEGOTIATION_MAX_ROUNDS);
+  return Number.isInteger(value) && value > 0 ? value : 3;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+}
+
+/** Counter Price = Lowest Quote + (Vendor Score − 5) × 0.02 × Lowest Quote */
+export function counterOfferPrice(lowest: number, vendorScore: number): number {
+  return lowest + (vendorScore - 5) * 0.02 * lowest;
+}
+
+function negotiationTactic(
+  abovePct: number,
+  allAboveBudget: boolean,
+  lowest: string,
+): Pick<CounterSuggestion, "tactic" | "message"> {
+  if (allAboveBudget) {
+    return {
+      tactic: "Bundle Negotiation",
+      message:
+        "All quotes we received are above our budget. Can we optimize specifications or adjust the delivery schedule to meet it?",
+    };
+  }
+  if (abovePct > 20) {
+    return {
+      tactic: "Direct Competitive Pressure",
+      message: `We have received quotes as low as ${lowest}. Can you match or improve this price while maintaining quality?`,
+    };
+  }
+  if (abovePct >= 10) {
+    return {
+      tactic: "Volume Leverage",
+      message:
+        "We're placing regular orders. If you can reduce your price, we can commit to quarterly orders.",
+    };
+  }
+  return {
+    tactic: "Long-term Partnership",
+    message:
+      "Your quality is excellent. At the right price point, we can establish a preferred vendor agreement.",
+  };
+}
+
+/** Suggested counter for a quote from its RFQ's comparison; null without a rate or rival prices */
+export async function suggestCounterOffer(
+  quoteId: string,
+): Promise<CounterSuggestion | null> {
+  const quote = await prisma.quote.findUnique({ where: { id: quoteId } });
+  if (!quote) throw new Error("Quote not found");
+
+  const result = await compareRfqQuotes(quote.rfqId);
+  const entry = result?.comparison?.find((c) => c.quoteId === quoteId);
+  if (!result?.comparison || !entry || entry.exchangeRate === null) return null;
+
+  // Leverage only comes from quotes we could actually award
+  const rivals = result.comparison.filter(
+    (c) =>
+      (c.eligible || c.quoteId === quoteId) && c.normalizedTotalPrice !== null,
+  );
+  let lowest: number | null;
+  if (entry.partial) {
+    // Cheapest exact offers on the lines this quote prices
+    const rows = result.lineMatrix.filter((row) =>
+      row.offers.some((o) => o.quoteId === quoteId && !o.isAlternate),
+    );
+    const lineMins = rows.map(
+      (row) =>
+        row.offers.find(
+          (o) =>
+            !o.isAlternate &&
+            o.normalizedTotalPrice !== null &&
+            rivals.some((r) => r.quoteId === o.quoteId),
+        )?.normalizedTotalPrice ?? null,
+    );
+    lowest =
+      rows.length > 0 && lineMins.every((m) => m !== null)
+        ? lineMins.reduce((sum: number, m) => sum + m!, 0)
+        : null;
+  } else {
+    const complete = rivals
+      .filter((c) => !c.partial)
+      .map((c) => c.normalizedTotalPrice!);
+    lowest = complete.length > 0 ? Math.min(...complete) : null;
+  }
+  if (lowest === null || lowest <= 0) return null;
+
+  // Back to the vendor's currency
+  const lowestPrice = round2(lowest / entry.exchangeRate);
+  const vendorScore = Math.round(entry.finalScore) / 10;
+  const suggestedPrice = round2(
+    Math.min(counterOfferPrice(lowestPrice, vendorScore), quote.totalPrice),
+  );
+  const abovePct =
+    Math.round(((quote.totalPrice - lowestPrice) / lowestPrice) * 1000) / 10;
+
+  const budgetMax = result.rfq.budgetMax;
+  const allAboveBudget =
+    budgetMax !== null &&
+    rivals.length > 0 &&
+    rivals.every((c) => !c.partial && c.normalizedTotalPrice! > budgetMax);
+
+  return {
+    currency: quote.currency,
+    lowestPrice,
+    vendorScore,
+    suggestedPrice,
+    abovePct,
+    negotiable: abovePct > 10 && vendorScore > 7,
+    ...negotiationTactic(
+      abovePct,
+      allAboveBudget,
+      formatAmount(lowestPrice, quote.currency),
+    ),
+  };
+}
+
+// ─── Rounds ───────────────────────────────────────────────────
+
+const roundInclude = {
+  createdBy: { select: { id: true, name: true } },
+  communication: {
+    select: { id: true, recipient: true, response: true, respondedAt: true },
+  },
+} as const;
+
+/** A quote's rounds, suggestion and escalation state */
+export async function getNegotiation(quoteId: string) {
+  const quote = await prisma.quote.findUnique({
+    where: { id: quoteId },
+    include: {
+      negotiationRounds: { include: roundInclude, orderBy: { round: "asc" } },
+    },
+  });
+  if (!quote) throw new Error("Quote not found");
+
+  return {
+    quoteId,
+    status: quote.status,
+    currency: quote.currency,
+    totalPrice: quote.totalPrice,
+    maxRounds: maxNegotiationRounds(),
+    escalatedAt: quote.negotiationEscalatedAt,
+    rounds: quote.negotiationRounds,
+    suggestion: NEGOTIABLE.includes(quote.status)
+      ? await suggestCounterOffer(quoteId)
+      : null,
+  };
+}
+
+/** Send (or record) a counter-offer as the quote's next round */
+export async function sendCounterOffer(
+  quoteId: string,
+  input: CounterOfferInput,
+  by: Negotiator,
+) {
+  const quote = await prisma.quote.findUnique({
+    where: { id: quoteId },
+    include: { negotiationRounds: { orderBy: { round: "desc" }, take: 1 } },
+  });
+  if (!quote) throw new Error("Quote not found");
+  if (!NEGOTIABLE.includes(quote.status)) {
+    throw new Error(`A ${quote.status} quote cannot be negotiated`);
+  }
+
+  const last = quote.negotiationRounds[0];
+  if (last?.status === "SENT") {
+    throw new Error(`Record the vendor's answer to round ${last.round} first`);
+  }
+  if (last?.status === "ACCEPTED") {
+    throw new Error("The vendor already accepted a counter-offer");
+  }
+  if (quote.negotiationEscalatedAt && by.role !== "ADMIN") {
+    throw new Error("Negotiation was escalated; an admin has to continue it");
+  }
+  if (input.counterPrice >= quote.totalPrice) {
+    throw new Error("The counter price must be below the current quote");
+  }
+
+  const suggestion = await suggestCounterOffer(quoteId).catch(() => null);
+  const channel = CHANNELS[input.channel];
+
+  let communicationId: string | undefined;
+  if (channel !== "CALL") {
+    const outcome = await sendOutreach({
+      vendorId: quote.vendorId,
+      channel: input.channel as "email" | "whatsapp",
+      templateId: input.templateId,
+      template: input.templateId ? undefined : COUNTER_OFFER_TEMPLATE_KEY,
+      rfqId: quote.rfqId,
+      customMessage: input.message,
+      userId: by.userId,
+      variables: {
+        quotedPrice: formatAmount(quote.totalPrice, quote.currency),
+        counterPrice: formatAmount(input.counterPrice, quote.currency),
+      },
+    });
+    if (!outcome.success) throw new Error(outcome.error ?? "Send failed");
+    communicationId = outcome.communicationId;
+  }
+
+  const [created] = await prisma.$transaction([
+    prisma.negotiationRound.create({
+      data: {
+        quoteId,
+        round: (last?.round ?? 0) + 1,
+        quotedPrice: quote.totalPrice,
+        counterPrice: round2(input.counterPrice),
+        suggestedPrice: suggestion?.suggestedPrice,
+        message: input.message,
+        channel,
+        communicationId,
+        createdById: by.userId,
+      },
+      include: roundInclude,
+    }),
+    prisma.quote.update({
+      where: { id: quoteId },
+      data: { status: "NEGOTIATING" },
+    }),
+  ]);
+
+  console.log(
+    `[Negotiation] Round ${created.round} on quote ${quoteId}: ` +
+      `${quote.totalPrice} → ${created.counterPrice} ${quote.currency} (${channel})`,
+  );
+  return created;
+}
+
+/**
+ * Close a round with the vendor's answer and the quote total it leaves. A
+ * last round that ends above the counter price escalates the negotiation.
+ */
+async function answerRound(
+  round: NegotiationRound,
+  status: NegotiationRoundStatus,
+  revisedPrice: number,
+  response?: string,
+) {
+  const updated = await prisma.negotiationRound.update({
+    where: { id: round.id },
+    data: {
+      status,
+      vendorResponse: response,
+      revisedPrice,
+      respondedAt: new Date(),
+    },
+    include: roundInclude,
+  });
+
+  if (
+    revisedPrice > round.counterPrice &&
+    round.round >= maxNegotiationRounds()
+  ) {
+    await prisma.quote.update({
+      where: { id: round.quoteId },
+      data: { negotiationEscalatedAt: new Date() },
+    });
+    console.log(
+      `[Negotiation] Quote ${round.quoteId} escalated after ${round.round} rounds`,
+    );
+  }
+  return updated;
+}
+
+/** Record the vendor's answer; accepted and revised prices are applied to the quote */
+export async function recordVendorResponse(
+  quoteId: string,
+  roundId: string,
+  input: VendorResponseInput,
+) {
+  const round = await prisma.negotiationRound.findFirst({
+    where: { id: roundId, quoteId },
+  });
+  if (!round) throw new Error("Negotiation round not found");
+  if (round.status !== "SENT")
+    throw new Error(`Round ${round.round} was already answered`);
+
+  const price =
+    input.outcome === "ACCEPTED"
+      ? round.counterPrice
+      : input.outcome === "REVISED"
+        ? input.revisedPrice!
+        : null;
+  if (price !== null) await repriceQuote(quoteId, price);
+
+  return answerRound(
+    round,
+    input.outcome,
+    price ?? round.quotedPrice,
+    input.response,
+  );
+}
+
+/**
+ * A vendor resubmitted a negotiating quote through the portal (reviseQuote
+ * already has the new prices): that answers the open round.
+ */
+export async function recordPortalRevision(quoteId: string) {
+  const [quote, open] = await Promise.all([
+    prisma.quote.findUnique({ where: { id: quoteId } }),
+    prisma.negotiationRound.findFirst({ where: { quoteId, status: "SENT" } }),
+  ]);
+  if (!quote || !open) return;
+
+  await answerRound(
+    open,
+    quote.totalPrice <= open.counterPrice ? "ACCEPTED" : "REVISED",
+    quote.totalPrice,
+    "Revised quote submitted through the portal",
+  );
+}
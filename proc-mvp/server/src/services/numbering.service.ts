@@ -0,0 +1,84 @@
+/**
+ * Numbering Service — document numbers such as RFQ-2026-0042.
+ *
+ * Each document type has a counter per calendar year (DocumentSequence) and
+ * a format where {YYYY} or {YY} is the year and {SEQ} or {SEQ:n} the counter,
+ * zero-padded to n digits. nextDocumentNumber bumps the counter with one
+ * INSERT … ON CONFLICT DO UPDATE inside the caller's transaction: concurrent
+ * creates queue on the counter row until the first commits, and a create
+ * that rolls back hands its number back unused. Counters never go down, so
+ * a deleted document's number is not issued again.
+ *
+ * Formats are stored in DocumentNumberFormat; types without a row use
+ * DEFAULT_NUMBER_FORMATS. A new format applies to the next number issued.
+ */
+
+import type { DocumentType, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+
+export const DEFAULT_NUMBER_FORMATS: Record<DocumentType, string> = {
+  RFQ: "RFQ-{YYYY}-{SEQ:4}",
+  PURCHASE_ORDER: "PO-{YYYY}-{SEQ:4}",
+  INVOICE: "INV-{YYYY}-{SEQ:4}",
+};
+
+const DOCUMENT_TYPES = Object.keys(DEFAULT_NUMBER_FORMATS) as DocumentType[];
+
+export function formatDocumentNumber(format: string, year: number, value: number): string {
+  return format
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year % 100).padStart(2, "0"))
+    .replace(/\{SEQ(?::(\d))?\}/g, (_token, width?: string) =>
+      String(value).padStart(Number(width ?? 0), "0"),
+    );
+}
+
+/** Issue the next number for the type, within the transaction creating the document */
+export async function nextDocumentNumber(
+  tx: Prisma.TransactionClient,
+  type: DocumentType,
+  date = new Date(),
+): Promise<string> {
+  const year = date.getUTCFullYear();
+  const rows = await tx.$queryRaw<Array<{ lastValue: number }>>`
+    INSERT INTO "document_sequences" ("type", "year", "lastValue", "updatedAt")
+    VALUES (${type}::"DocumentType", ${year}, 1, NOW())
+    ON CONFLICT ("type", "year")
+    DO UPDATE SET "lastValue" = "document_sequences"."lastValue" + 1, "updatedAt" = NOW()
+    RETURNING "lastValue"`;
+  const config = await tx.documentNumberFormat.findUnique({ where: { type } });
+
+  return formatDocumentNumber(config?.format ?? DEFAULT_NUMBER_FORMATS[type], year, rows[0].lastValue);
+}
+
+// ─── Formats ──────────────────────────────────────────────────
+
+/** Every type's format, with the number it would issue next */
+export async function listNumberFormats() {
+  const year = new Date().getUTCFullYear();
+  const [configs, sequences] = await Promise.all([
+    prisma.documentNumberFormat.findMany(),
+    prisma.documentSequence.findMany({ where: { year } }),
+  ]);
+
+  return DOCUMENT_TYPES.map((type) => {
+    const format = configs.find((c) => c.type === type)?.format ?? DEFAULT_NUMBER_FORMATS[type];
+    const lastValue = sequences.find((s) => s.type === type)?.lastValue ?? 0;
+    return {
+      type,
+      format,
+      defaultFormat: DEFAULT_NUMBER_FORMATS[type],
+      next: formatDocumentNumber(format, year, lastValue + 1),
+    };
+  });
+}
+
+export async function updateNumberFormat(type: DocumentType, format: string, updatedById?: string) {
+  await prisma.documentNumberFormat.upsert({
+    where: { type },
+    create: { type, format, updatedById },
+    update: { format, updatedById },
+  });
+  console.log(`[Numbering] ${type} format set to ${format}`);
+  return (await listNumberFormats()).find((f) => f.type === type)!;
+}
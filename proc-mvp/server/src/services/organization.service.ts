@@ -0,0 +1,229 @@
+/**
+ * Organization Service — the companies using proc-mvp and who belongs to them.
+ *
+ * Vendors, RFQs (and through them quotes and purchase orders) and discovery
+ * belong to an organisation; routes scope every query by the caller's
+ * organisation (req.user.organizationId). A user may belong to several
+ * organisations with a role in each, and signs in to one at a time. Admins
+ * invite people by email; the invitation becomes a membership only when the
+ * invited user accepts it, so nobody is added to an organisation unasked.
+ *
+ * The organisation's name and sender identity replace the single
+ * COMPANY_NAME of earlier versions: they sign outreach, fill the
+ * {{companyName}} template variable and head purchase orders. Every
+ * organisation keeps at least one ADMIN, and has its own template library
+ * and outreach sequences, starting from starter-content.ts.
+ */
+
+import type { Prisma, UserRole } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { DEFAULT_FROM, type EmailSender } from "./email.service.js";
+import { STANDARD_SEQUENCE, STARTER_TEMPLATES } from "./starter-content.js";
+import type { InviteMemberInput, UpdateOrganizationInput } from "../schemas/organization.schema.js";
+
+export interface SenderIdentity {
+  companyName: string;
+  from: EmailSender;
+}
+
+const MEMBER_USER_SELECT = { id: true, email: true, name: true } as const;
+const INVITATION_INCLUDE = { organization: { select: { id: true, name: true } } } as const;
+
+// ─── Organisations ────────────────────────────────────────────
+
+/** A new organisation with `ownerId` as its first ADMIN, and the starter templates and sequence */
+export async function createOrganization(
+  name: string,
+  ownerId: string,
+  tx: Prisma.TransactionClient = prisma,
+) {
+  const organization = await tx.organization.create({
+    data: {
+      name,
+      memberships: { create: { userId: ownerId, role: "ADMIN" } },
+      messageTemplates: {
+        create: STARTER_TEMPLATES.map((t) => ({
+          key: t.key,
+          name: t.name,
+          channel: t.channel,
+          language: t.language,
+          createdById: ownerId,
+          versions: {
+            create: { version: 1, subject: t.subject, body: t.body, createdById: ownerId },
+          },
+        })),
+      },
+      outreachSequences: {
+        create: {
+          name: STANDARD_SEQUENCE.name,
+          description: STANDARD_SEQUENCE.description,
+          createdById: ownerId,
+          steps: {
+            create: STANDARD_SEQUENCE.steps.map((step, position) => ({ ...step, position })),
+          },
+        },
+      },
+    },
+  });
+  console.log(`[Organization] Created "${name}" for ${ownerId}`);
+  return organization;
+}
+
+export async function getOrganization(id: string) {
+  return prisma.organization.findUnique({ where: { id } });
+}
+
+export async function updateOrganization(id: string, input: UpdateOrganizationInput) {
+  return prisma.organization.update({
+    where: { id },
+    data: {
+      ...input,
+      senderName: input.senderName === undefined ? undefined : input.senderName || null,
+      senderEmail: input.senderEmail === undefined ? undefined : input.senderEmail || null,
+    },
+  });
+}
+
+/** Name and From address outgoing messages carry for the organisation */
+export async function getSenderIdentity(organizationId: string): Promise<SenderIdentity> {
+  const organization = await prisma.organization.findUnique({ where: { id: organizationId } });
+  if (!organization) throw new Error("Organisation not found");
+
+  return {
+    companyName: organization.name,
+    from: {
+      email: organization.senderEmail ?? DEFAULT_FROM,
+      name: organization.senderName ?? organization.name,
+    },
+  };
+}
+
+// ─── Memberships ──────────────────────────────────────────────
+
+/** The organisations a user can sign in to, oldest membership first */
+export async function listUserMemberships(userId: string) {
+  return prisma.membership.findMany({
+    where: { userId },
+    include: { organization: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+export async function listMembers(organizationId: string) {
+  const memberships = await prisma.membership.findMany({
+    where: { organizationId },
+    include: { user: { select: MEMBER_USER_SELECT } },
+    orderBy: { user: { name: "asc" } },
+  });
+  return memberships.map((m) => ({ ...m.user, role: m.role, joinedAt: m.createdAt }));
+}
+
+export async function updateMemberRole(organizationId: string, userId: string, role: UserRole) {
+  const membership = await findMembership(organizationId, userId);
+  if (membership.role === "ADMIN" && role !== "ADMIN") await assertAnotherAdmin(organizationId);
+
+  const updated = await prisma.membership.update({
+    where: { id: membership.id },
+    data: { role },
+    include: { user: { select: MEMBER_USER_SELECT } },
+  });
+  return { ...updated.user, role: updated.role, joinedAt: updated.createdAt };
+}
+
+export async function removeMember(organizationId: string, userId: string) {
+  const membership = await findMembership(organizationId, userId);
+  if (membership.role === "ADMIN") await assertAnotherAdmin(organizationId);
+
+  await prisma.membership.delete({ where: { id: membership.id } });
+  console.log(`[Organization] ${userId} left ${organizationId}`);
+}
+
+// ─── Invitations ──────────────────────────────────────────────
+
+/** Invite someone by email, registered or not; inviting again changes the role */
+export async function inviteMember(
+  organizationId: string,
+  input: InviteMemberInput,
+  invitedById: string,
+) {
+  const email = input.email.toLowerCase();
+  const member = await prisma.membership.findFirst({
+    where: { organizationId, user: { email: { equals: email, mode: "insensitive" } } },
+  });
+  if (member) throw new Error("That user is already a member");
+
+  const invitation = await prisma.organizationInvitation.upsert({
+    where: { organizationId_email: { organizationId, email } },
+    create: { organizationId, email, role: input.role, invitedById },
+    update: { role: input.role, invitedById },
+  });
+  console.log(`[Organization] ${email} invited to ${organizationId} as ${input.role}`);
+  return invitation;
+}
+
+export async function listInvitations(organizationId: string) {
+  return prisma.organizationInvitation.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function revokeInvitation(organizationId: string, id: string) {
+  const { count } = await prisma.organizationInvitation.deleteMany({
+    where: { id, organizationId },
+  });
+  if (count === 0) throw new Error("Invitation not found");
+}
+
+/** Invitations waiting for the user with this email */
+export async function listUserInvitations(email: string) {
+  return prisma.organizationInvitation.findMany({
+    where: { email: email.toLowerCase() },
+    include: INVITATION_INCLUDE,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/** Join the organisation with the invited role; the invitation is used up */
+export async function acceptInvitation(id: string, user: { userId: string; email: string }) {
+  const invitation = await prisma.organizationInvitation.findFirst({
+    where: { id, email: user.email.toLowerCase() },
+    include: INVITATION_INCLUDE,
+  });
+  if (!invitation) throw new Error("Invitation not found");
+
+  await prisma.$transaction(async (tx) => {
+    await tx.membership.upsert({
+      where: {
+        userId_organizationId: { userId: user.userId, organizationId: invitation.organizationId },
+      },
+      create: { organizationId: invitation.organizationId, userId: user.userId, role: invitation.role },
+      update: {},
+    });
+    await tx.organizationInvitation.delete({ where: { id: invitation.id } });
+  });
+  console.log(`[Organization] ${user.email} joined ${invitation.organizationId} as ${invitation.role}`);
+  return invitation.organization;
+}
+
+export async function declineInvitation(id: string, email: string) {
+  const { count } = await prisma.organizationInvitation.deleteMany({
+    where: { id, email: email.toLowerCase() },
+  });
+  if (count === 0) throw new Error("Invitation not found");
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+async function findMembership(organizationId: string, userId: string) {
+  const membership = await prisma.membership.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+  });
+  if (!membership) throw new Error("Member not found");
+  return membership;
+}
+
+async function assertAnotherAdmin(organizationId: string) {
+  const admins = await prisma.membership.count({ where: { organizationId, role: "ADMIN" } });
+  if (admins <= 1) throw new Error("The organisation needs at least one admin");
+}
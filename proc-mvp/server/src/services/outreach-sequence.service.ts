@@ -0,0 +1,511 @@
+/**
+ * Outreach Sequence Service — multi-step vendor follow-ups.
+ *
+ * A sequence is a list of steps (day offset, channel, template), e.g. the
+ * PRD's introduction on day 0 and follow-ups on days 3, 7 and 14. Vendors
+ * and not yet imported discovery results are enrolled; the scheduler tick
+ * sends each enrollment's next step once it is due, through sendOutreach.
+ *
+ * An enrollment ends when:
+ * - the vendor replies (any Communication with respondedAt after enrollment)
+ * - every step was sent
+ * - a user stops it, or a step fails MAX_SEND_ATTEMPTS times in a row
+ * Pausing shifts the remaining steps by the length of the pause.
+ *
+ * Safe with several server instances: a due send is claimed with a
+ * conditional update on nextSendAt, so exactly one instance sends it.
+ */
+
+import type { OutreachEnrollment, OutreachEnrollmentStatus, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { OUTREACH_TEMPLATES, sendOutreach } from "./outreach.service.js";
+import { assertTemplatesAvailable } from "./message-template.service.js";
+import { STANDARD_SEQUENCE } from "./starter-content.js";
+import type {
+  CreateSequenceInput,
+  EnrollInput,
+  EnrollmentQuery,
+  SequenceStepInput,
+  UpdateSequenceInput,
+} from "../schemas/outreach.schema.js";
+
+const TICK_MS = Number(process.env.OUTREACH_SCHEDULER_TICK_MS) || 60_000;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+/** A claimed send that never finished (crash) is retried after this long */
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+const OPEN_STATUSES: OutreachEnrollmentStatus[] = ["ACTIVE", "PAUSED"];
+
+/** The PRD's cadence: introduction, then follow-ups on days 3, 7 and 14 */
+export const DEFAULT_SEQUENCE_STEPS: SequenceStepInput[] = STANDARD_SEQUENCE.steps;
+
+let tickTimer: NodeJS.Timeout | null = null;
+
+const enrollmentInclude = {
+  sequence: { include: { steps: { orderBy: { position: "asc" } } } },
+  sends: { orderBy: { sentAt: "asc" } },
+  vendor: { select: { id: true, companyName: true } },
+  result: { select: { id: true, companyName: true, vendorId: true } },
+} satisfies Prisma.OutreachEnrollmentInclude;
+
+// ─── Sequences ────────────────────────────────────────────────
+
+export async function listSequences(organizationId: string) {
+  const [sequences, counts] = await Promise.all([
+    prisma.outreachSequence.findMany({
+      where: { organizationId },
+      include: { steps: { orderBy: { position: "asc" } } },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.outreachEnrollment.groupBy({
+      by: ["sequenceId", "status"],
+      where: { sequence: { organizationId } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return sequences.map((s) => ({
+    ...s,
+    enrollments: Object.fromEntries(
+      counts
+        .filter((c) => c.sequenceId === s.id)
+        .map((c) => [c.status, c._count._all]),
+    ) as Partial<Record<OutreachEnrollmentStatus, number>>,
+  }));
+}
+
+export async function getSequence(id: string, organizationId: string) {
+  return prisma.outreachSequence.findFirst({ where: { id, organizationId } });
+}
+
+export async function createSequence(
+  input: CreateSequenceInput,
+  organizationId: string,
+  createdById?: string,
+) {
+  await assertTemplatesAvailable(input.steps, OUTREACH_TEMPLATES, organizationId);
+  return prisma.outreachSequence.create({
+    data: {
+      organizationId,
+      name: input.name,
+      description: input.description,
+      active: input.active,
+      createdById,
+      steps: { create: toStepRows(input.steps) },
+    },
+    include: { steps: { orderBy: { position: "asc" } } },
+  });
+}
+
+export async function updateSequence(id: string, input: UpdateSequenceInput) {
+  const existing = await prisma.outreachSequence.findUnique({ where: { id } });
+  if (!existing) throw new Error("Outreach sequence not found");
+
+  // Open enrollments point at step positions; don't move them underneath
+  if (input.steps && (await countOpenEnrollments(id)) > 0) {
+    throw new Error(
+      "Sequence has active enrollments; stop them or create a new sequence to change its steps",
+    );
+  }
+  if (input.steps) {
+    await assertTemplatesAvailable(input.steps, OUTREACH_TEMPLATES, existing.organizationId);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (input.steps) {
+      await tx.outreachSequenceStep.deleteMany({ where: { sequenceId: id } });
+      await tx.outreachSequenceStep.createMany({
+        data: toStepRows(input.steps).map((s) => ({ ...s, sequenceId: id })),
+      });
+    }
+    return tx.outreachSequence.update({
+      where: { id },
+      data: {
+        name: input.name,
+        description: input.description,
+        active: input.active,
+      },
+      include: { steps: { orderBy: { position: "asc" } } },
+    });
+  });
+}
+
+export async function deleteSequence(id: string) {
+  const existing = await prisma.outreachSequence.findUnique({ where: { id } });
+  if (!existing) throw new Error("Outreach sequence not found");
+  if ((await countOpenEnrollments(id)) > 0) {
+    throw new Error("Sequence has active enrollments; deactivate it instead");
+  }
+
+  await prisma.outreachSequence.delete({ where: { id } });
+}
+
+function toStepRows(steps: SequenceStepInput[]) {
+  return steps.map((s, position) => ({ ...s, position }));
+}
+
+function countOpenEnrollments(sequenceId: string) {
+  return prisma.outreachEnrollment.count({
+    where: { sequenceId, status: { in: OPEN_STATUSES } },
+  });
+}
+
+// ─── Enrollments ──────────────────────────────────────────────
+
+/**
+ * Enroll the organisation's vendors and discovery results. Results that were
+ * already imported are enrolled as their vendor. Anyone with an open enrollment (in any
+ * sequence) is skipped so nobody gets two cadences at once.
+ */
+export async function enrollInSequence(
+  sequenceId: string,
+  input: EnrollInput,
+  organizationId: string,
+  enrolledById?: string,
+) {
+  const sequence = await prisma.outreachSequence.findFirst({
+    where: { id: sequenceId, organizationId },
+    include: { steps: { orderBy: { position: "asc" } } },
+  });
+  if (!sequence) throw new Error("Outreach sequence not found");
+  if (!sequence.active) throw new Error("Sequence is inactive");
+  if (sequence.steps.length === 0) throw new Error("Sequence has no steps");
+
+  const [vendors, results] = await Promise.all([
+    prisma.vendor.findMany({
+      where: { id: { in: input.vendorIds }, organizationId },
+      select: { id: true },
+    }),
+    prisma.discoveryResult.findMany({
+      where: { id: { in: input.resultIds }, job: { organizationId } },
+      select: { id: true, vendorId: true },
+    }),
+  ]);
+
+  const skipped: Array<{ id: string; reason: string }> = [];
+  const targets: Array<{ id: string; vendorId?: string; resultId?: string }> = [];
+  const foundVendors = new Set(vendors.map((v) => v.id));
+  for (const id of input.vendorIds) {
+    if (foundVendors.has(id)) targets.push({ id, vendorId: id });
+    else skipped.push({ id, reason: "Vendor not found" });
+  }
+  const foundResults = new Map(results.map((r) => [r.id, r]));
+  for (const id of input.resultIds) {
+    const result = foundResults.get(id);
+    if (!result) skipped.push({ id, reason: "Discovery result not found" });
+    else if (result.vendorId) targets.push({ id, vendorId: result.vendorId });
+    else targets.push({ id, resultId: id });
+  }
+
+  const open = await prisma.outreachEnrollment.findMany({
+    where: {
+      status: { in: OPEN_STATUSES },
+      OR: [
+        { vendorId: { in: targets.flatMap((t) => t.vendorId ?? []) } },
+        { resultId: { in: targets.flatMap((t) => t.resultId ?? []) } },
+      ],
+    },
+    select: { vendorId: true, resultId: true, sequence: { select: { name: true } } },
+  });
+
+  const startedAt = new Date();
+  const enrolled: OutreachEnrollment[] = [];
+  const seen = new Set<string>();
+  for (const target of targets) {
+    const key = target.vendorId ?? target.resultId!;
+    const existing = open.find(
+      (e) =>
+        (target.vendorId && e.vendorId === target.vendorId) ||
+        (target.resultId && e.resultId === target.resultId),
+    );
+    if (existing) {
+      skipped.push({ id: target.id, reason: `Already in sequence "${existing.sequence.name}"` });
+      continue;
+    }
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    enrolled.push(
+      await prisma.outreachEnrollment.create({
+        data: {
+          sequenceId,
+          vendorId: target.vendorId,
+          resultId: target.resultId,
+          startedAt,
+          nextSendAt: stepDueAt(startedAt, sequence.steps[0].dayOffset),
+          enrolledById,
+        },
+      }),
+    );
+  }
+
+  console.log(
+    `[Outreach] Enrolled ${enrolled.length} in sequence "${sequence.name}" (${skipped.length} skipped)`,
+  );
+
+  // Day-0 steps go out now rather than on the next tick
+  if (enrolled.length > 0) void tick();
+
+  return { enrolled, skipped };
+}
+
+export async function listEnrollments(query: EnrollmentQuery, organizationId: string) {
+  return prisma.outreachEnrollment.findMany({
+    where: {
+      OR: [{ vendor: { organizationId } }, { result: { job: { organizationId } } }],
+      vendorId: query.vendorId,
+      resultId: query.resultId,
+      sequenceId: query.sequenceId,
+      status: query.status,
+    },
+    include: enrollmentInclude,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+export async function pauseEnrollment(id: string) {
+  const enrollment = await prisma.outreachEnrollment.findUnique({ where: { id } });
+  if (!enrollment) throw new Error("Enrollment not found");
+  if (enrollment.status !== "ACTIVE") throw new Error(`Cannot pause a ${enrollment.status} enrollment`);
+
+  return prisma.outreachEnrollment.update({
+    where: { id },
+    data: { status: "PAUSED", pausedAt: new Date(), nextSendAt: null },
+    include: enrollmentInclude,
+  });
+}
+
+/** Resume, pushing the remaining steps back by the length of the pause */
+export async function resumeEnrollment(id: string) {
+  const enrollment = await prisma.outreachEnrollment.findUnique({
+    where: { id },
+    include: { sequence: { include: { steps: true } } },
+  });
+  if (!enrollment) throw new Error("Enrollment not found");
+  if (enrollment.status !== "PAUSED") throw new Error(`Cannot resume a ${enrollment.status} enrollment`);
+
+  const now = new Date();
+  const pausedFor = enrollment.pausedAt ? now.getTime() - enrollment.pausedAt.getTime() : 0;
+  const startedAt = new Date(enrollment.startedAt.getTime() + pausedFor);
+  const step = enrollment.sequence.steps.find((s) => s.position === enrollment.nextStep);
+
+  return prisma.outreachEnrollment.update({
+    where: { id },
+    data: {
+      status: "ACTIVE",
+      pausedAt: null,
+      startedAt,
+      nextSendAt: step ? maxDate(now, stepDueAt(startedAt, step.dayOffset)) : now,
+    },
+    include: enrollmentInclude,
+  });
+}
+
+export async function stopEnrollment(id: string, reason?: string) {
+  const enrollment = await prisma.outreachEnrollment.findUnique({ where: { id } });
+  if (!enrollment) throw new Error("Enrollment not found");
+  if (!OPEN_STATUSES.includes(enrollment.status)) {
+    throw new Error(`Enrollment already ${enrollment.status.toLowerCase()}`);
+  }
+
+  return prisma.outreachEnrollment.update({
+    where: { id },
+    data: {
+      status: "STOPPED",
+      nextSendAt: null,
+      finishedAt: new Date(),
+      stopReason: reason || "Stopped manually",
+    },
+    include: enrollmentInclude,
+  });
+}
+
+/**
+ * End the vendor's open enrollments that started before `respondedAt`.
+ * Covers results enrolled before they were imported as this vendor.
+ */
+export async function stopEnrollmentsOnReply(vendorId: string, respondedAt: Date) {
+  const { count } = await prisma.outreachEnrollment.updateMany({
+    where: {
+      status: { in: OPEN_STATUSES },
+      startedAt: { lte: respondedAt },
+      OR: [{ vendorId }, { result: { vendorId } }],
+    },
+    data: {
+      status: "REPLIED",
+      nextSendAt: null,
+      finishedAt: new Date(),
+      stopReason: "Vendor replied",
+    },
+  });
+  if (count > 0) console.log(`[Outreach] Vendor ${vendorId} replied; stopped ${count} sequence(s)`);
+  return count;
+}
+
+// ─── Scheduler ────────────────────────────────────────────────
+
+/** Start the scheduler tick in this process. Called once on server startup. */
+export function startOutreachScheduler(): void {
+  if (tickTimer) return;
+  tickTimer = setInterval(() => void tick(), TICK_MS);
+  void tick();
+  console.log(`[Outreach] Sequence scheduler started | tick=${TICK_MS}ms`);
+}
+
+export function stopOutreachScheduler(): void {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = null;
+}
+
+async function tick(): Promise<void> {
+  try {
+    const now = new Date();
+    const due = await prisma.outreachEnrollment.findMany({
+      where: { status: "ACTIVE", nextSendAt: { lte: now } },
+      orderBy: { nextSendAt: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    for (const enrollment of due) {
+      await runDueStep(enrollment, now).catch((err) =>
+        console.error(`[Outreach] Enrollment ${enrollment.id} failed:`, err),
+      );
+    }
+  } catch (err) {
+    console.error("[Outreach] Tick failed:", err);
+  }
+}
+
+async function runDueStep(due: OutreachEnrollment, now: Date): Promise<void> {
+  // Claim this send; another instance may have done so already
+  const { count } = await prisma.outreachEnrollment.updateMany({
+    where: { id: due.id, status: "ACTIVE", nextSendAt: due.nextSendAt },
+    data: { nextSendAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS) },
+  });
+  if (count === 0) return;
+
+  const enrollment = await prisma.outreachEnrollment.findUniqueOrThrow({
+    where: { id: due.id },
+    include: {
+      sequence: { include: { steps: { orderBy: { position: "asc" } } } },
+      result: { select: { vendorId: true } },
+    },
+  });
+  const vendorId = enrollment.vendorId ?? enrollment.result?.vendorId ?? null;
+
+  // A reply recorded by any path ends the sequence
+  if (vendorId) {
+    const reply = await prisma.communication.findFirst({
+      where: { vendorId, respondedAt: { gte: enrollment.startedAt } },
+      select: { id: true },
+    });
+    if (reply) {
+      await finish(enrollment.id, "REPLIED", "Vendor replied");
+      return;
+    }
+  }
+
+  const steps = enrollment.sequence.steps;
+  const step = steps.find((s) => s.position === enrollment.nextStep);
+  if (!step) {
+    await finish(enrollment.id, "COMPLETED");
+    return;
+  }
+
+  let outcome: { success: boolean; communicationId?: string; error?: string };
+  try {
+    outcome = await sendOutreach({
+      vendorId: vendorId ?? undefined,
+      resultId: vendorId ? undefined : (enrollment.resultId ?? undefined),
+      channel: step.channel === "EMAIL" ? "email" : "whatsapp",
+      template: step.template,
+      subject: step.subject ?? undefined,
+      customMessage: step.customMessage ?? undefined,
+      userId: enrollment.enrolledById,
+    });
+  } catch (err: unknown) {
+    outcome = { success: false, error: err instanceof Error ? err.message : "Unknown error" };
+  }
+
+  await prisma.outreachStepSend.create({
+    data: {
+      enrollmentId: enrollment.id,
+      position: step.position,
+      channel: step.channel,
+      success: outcome.success,
+      communicationId: outcome.communicationId,
+      error: outcome.error,
+    },
+  });
+
+  if (!outcome.success) {
+    const failures = enrollment.failures + 1;
+    console.warn(
+      `[Outreach] Step ${step.position + 1} failed for enrollment ${enrollment.id} (${failures}/${MAX_SEND_ATTEMPTS}): ${outcome.error}`,
+    );
+    if (failures >= MAX_SEND_ATTEMPTS) {
+      await prisma.outreachEnrollment.update({
+        where: { id: enrollment.id },
+        data: {
+          status: "FAILED",
+          failures,
+          lastError: outcome.error,
+          nextSendAt: null,
+          finishedAt: new Date(),
+          stopReason: `Step ${step.position + 1} failed ${failures} times`,
+        },
+      });
+    } else {
+      await prisma.outreachEnrollment.update({
+        where: { id: enrollment.id },
+        data: {
+          failures,
+          lastError: outcome.error,
+          nextSendAt: new Date(Date.now() + RETRY_DELAY_MS),
+        },
+      });
+    }
+    return;
+  }
+
+  const next = steps.find((s) => s.position === step.position + 1);
+  if (!next) {
+    await finish(enrollment.id, "COMPLETED", undefined, step.position + 1);
+    return;
+  }
+
+  await prisma.outreachEnrollment.update({
+    where: { id: enrollment.id },
+    data: {
+      nextStep: next.position,
+      nextSendAt: maxDate(new Date(), stepDueAt(enrollment.startedAt, next.dayOffset)),
+      failures: 0,
+      lastError: null,
+    },
+  });
+}
+
+async function finish(
+  id: string,
+  status: OutreachEnrollmentStatus,
+  stopReason?: string,
+  nextStep?: number,
+) {
+  await prisma.outreachEnrollment.update({
+    where: { id },
+    data: { status, stopReason, nextStep, nextSendAt: null, finishedAt: new Date() },
+  });
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function stepDueAt(startedAt: Date, dayOffset: number): Date {
+  return new Date(startedAt.getTime() + dayOffset * DAY_MS);
+}
+
+function maxDate(a: Date, b: Date): Date {
+  return a > b ? a : b;
+}
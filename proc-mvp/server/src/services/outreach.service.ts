@@ -5,25 +5,63 @@
  * 2. Send introduction email via SendGrid
  * 3. Send introduction WhatsApp via Twilio
  * 4. Record communications in the database
+ *
+ * Message text comes from the template library (message-template.service.ts)
+ * when a template ID is given or the library has the requested key, else
+ * from the built-in texts. Messages are signed, and email sent, with the
+ * sender identity of the organisation the vendor or result belongs to.
  */
 
+import { randomUUID } from "node:crypto";
+import type { CommunicationType, Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
-import {
-  extractContactsFromWebsite,
-  type ExtractedContacts,
-} from "./contact-extractor.service.js";
+import type { ExtractedContacts } from "./contact-extractor.service.js";
+import { crawlVendorWebsite } from "./website-crawler.service.js";
 import {
   sendEmail,
+  buildMessageId,
+  buildReplyAddress,
   buildIntroductionEmail,
+  buildFollowUpEmail,
   isEmailConfigured,
+  type EmailAttachment,
 } from "./email.service.js";
+import {
+  buildTemplateValues,
+  renderTemplate,
+  resolveTemplate,
+  type RenderedTemplate,
+  type TemplateValues,
+} from "./message-template.service.js";
+import { getSenderIdentity } from "./organization.service.js";
+import { statusAfterContact } from "./vendor-status.js";
 import {
   sendWhatsApp,
   buildIntroductionMessage,
+  buildFollowUpMessage,
   normalizePhoneForWhatsApp,
   isWhatsAppConfigured,
 } from "./whatsapp.service.js";
 
+/** Template keys with built-in text, used when the library has no template for them */
+export const OUTREACH_TEMPLATES = ["introduction", "follow_up", "final_reminder"] as const;
+export type OutreachTemplate = (typeof OUTREACH_TEMPLATES)[number];
+
+function isBuiltInTemplate(key: string): key is OutreachTemplate {
+  return (OUTREACH_TEMPLATES as readonly string[]).includes(key);
+}
+
+async function recordVendorContact(vendorId: string, type: CommunicationType) {
+  const vendor = await prisma.vendor.findUniqueOrThrow({
+    where: { id: vendorId },
+    select: { status: true },
+  });
+  await prisma.vendor.update({
+    where: { id: vendorId },
+    data: { status: statusAfterContact(vendor.status, type), lastContact: new Date() },
+  });
+}
+
 export interface ExtractContactsForResultInput {
   resultId: string;
 }
@@ -37,8 +75,8 @@ export interface ExtractContactsForResultOutput {
 
 /**
  * Extract contacts from a discovery result's website when email/phone are missing.
- * Updates the discovery result with found contacts (stored in rawData for now;
- * on import they become VendorContacts).
+ * Updates the discovery result with found contacts; the full crawl is kept in
+ * rawData.crawl and becomes VendorContacts etc. on import.
  */
 export async function extractContactsForResult(
   input: ExtractContactsForResultInput,
@@ -68,7 +106,8 @@ export async function extractContactsForResult(
     };
   }
 
-  const extracted = await extractContactsFromWebsite(result.website);
+  const crawl = await crawlVendorWebsite(result.website);
+  const extracted: ExtractedContacts = { emails: crawl.emails, phones: crawl.phones };
 
   const emails = hasEmail ? [result.email!] : extracted.emails;
   const phones = hasPhone ? [result.phone!] : extracted.phones;
@@ -84,6 +123,7 @@ export async function extractContactsForResult(
           ...((result.rawData as object) || {}),
           extractedEmails: extracted.emails,
           extractedPhones: extracted.phones,
+          crawl: crawl as unknown as Prisma.InputJsonValue,
         },
       },
     });
@@ -104,8 +144,28 @@ export interface SendOutreachInput {
   channel: "email" | "whatsapp";
   /** Override recipient (email or phone) */
   recipient?: string;
-  /** Custom message (optional) */
+  /** Custom message (optional); the {{customMessage}} variable of library templates */
   customMessage?: string;
+  /** Library template to render; must be for this channel */
+  templateId?: string;
+  /** Template key, resolved in the library or built in; defaults to the introduction */
+  template?: string;
+  /** Language for a key-based template; falls back to English */
+  language?: string;
+  /** Email subject override */
+  subject?: string;
+  /** RFQ for the rfq* template variables */
+  rfqId?: string;
+  /** Quote submission deadline for {{deadline}} */
+  deadline?: string;
+  /** Explicit template variable values */
+  variables?: TemplateValues;
+  /** Sending user, for {{buyerName}} */
+  userId?: string | null;
+  /** Files to attach (email only) */
+  attachments?: EmailAttachment[];
+  /** Recorded Communication type; an ORDER also makes the vendor ACTIVE */
+  communicationType?: "EMAIL" | "ORDER";
 }
 
 export interface SendOutreachOutput {
@@ -125,6 +185,7 @@ export async function sendOutreach(
   let email: string | null = null;
   let phone: string | null = null;
   let vendorId: string | null = null;
+  let organizationId: string;
 
   if (input.vendorId) {
     const vendor = await prisma.vendor.findUnique({
@@ -135,6 +196,7 @@ export async function sendOutreach(
     companyName = vendor.companyName;
     productCategories = vendor.products.map((p) => p.productCategory);
     vendorId = vendor.id;
+    organizationId = vendor.organizationId;
     const emailContact = vendor.contacts.find((c) => c.type === "email");
     const phoneContact = vendor.contacts.find((c) => c.type === "phone");
     email = emailContact?.value ?? null;
@@ -142,8 +204,10 @@ export async function sendOutreach(
   } else if (input.resultId) {
     const result = await prisma.discoveryResult.findUnique({
       where: { id: input.resultId },
+      include: { job: { select: { organizationId: true } } },
     });
     if (!result) throw new Error("Discovery result not found");
+    organizationId = result.job.organizationId;
     companyName = result.companyName;
     productCategories = result.productCategories;
     email = result.email;
@@ -153,7 +217,46 @@ export async function sendOutreach(
     throw new Error("Either vendorId or resultId required");
   }
 
-  const companyNameEnv = process.env.COMPANY_NAME || "ProcMVP";
+  const sender = await getSenderIdentity(organizationId);
+
+  const templateKey = input.template ?? "introduction";
+  const library = await resolveTemplate(
+    {
+      templateId: input.templateId,
+      key: input.templateId ? undefined : templateKey,
+      channel: input.channel === "email" ? "EMAIL" : "WHATSAPP",
+      language: input.language,
+    },
+    organizationId,
+  );
+  if (input.templateId && !library) throw new Error("Template not found");
+  if (!library && !isBuiltInTemplate(templateKey)) {
+    return { success: false, error: `No active "${templateKey}" template for ${input.channel}` };
+  }
+
+  let rendered: RenderedTemplate | null = null;
+  if (library) {
+    const values = await buildTemplateValues(
+      {
+        vendorName: companyName,
+        productCategories,
+        companyName: sender.companyName,
+        rfqId: input.rfqId,
+        userId: input.userId,
+        deadline: input.deadline,
+        customMessage: input.customMessage,
+        variables: input.variables,
+      },
+      library.template.language,
+    );
+    rendered = renderTemplate(library.version, values, library);
+    if (rendered.missing.length > 0) {
+      return {
+        success: false,
+        error: `Missing template variables: ${rendered.missing.join(", ")}`,
+      };
+    }
+  }
 
   if (input.channel === "email") {
     if (!isEmailConfigured()) {
@@ -164,34 +267,55 @@ export async function sendOutreach(
       return { success: false, error: "No email address for this vendor" };
     }
 
-    const { subject, html, text } = buildIntroductionEmail({
+    const emailParams = {
       vendorName: companyName,
       productCategories,
-      companyName: companyNameEnv,
+      companyName: sender.companyName,
       customMessage: input.customMessage,
-    });
+    };
+    const built = rendered
+      ? { subject: rendered.subject ?? "", html: rendered.html, text: rendered.text }
+      : templateKey === "introduction"
+        ? buildIntroductionEmail(emailParams)
+        : buildFollowUpEmail({ ...emailParams, final: templateKey === "final_reminder" });
+    const { html, text } = built;
+    const subject = input.subject ?? built.subject;
+
+    // Threading: replies carry the Message-ID back, or arrive at the token address
+    const replyToken = randomUUID().replace(/-/g, "");
+    const messageId = buildMessageId(replyToken, sender.from.email);
 
-    const sendResult = await sendEmail({ to, subject, html, text });
+    const sendResult = await sendEmail({
+      to,
+      from: sender.from,
+      subject,
+      html,
+      text,
+      replyTo: buildReplyAddress(replyToken),
+      headers: { "Message-ID": messageId },
+      attachments: input.attachments,
+    });
     if (!sendResult.success) {
       return { success: false, error: sendResult.error };
     }
 
+    // Discovery result not yet imported — sent successfully but no Communication record
+    if (!vendorId) return { success: true };
+
     const comm = await prisma.communication.create({
       data: {
-        vendorId: vendorId!,
-        type: "EMAIL",
+        vendorId,
+        type: input.communicationType ?? "EMAIL",
         subject,
         content: html,
         recipient: to,
+        messageId,
+        replyToken,
+        templateVersionId: rendered?.templateVersionId,
       },
     });
 
-    if (vendorId) {
-      await prisma.vendor.update({
-        where: { id: vendorId },
-        data: { status: "CONTACTED", lastContact: new Date() },
-      });
-    }
+    await recordVendorContact(vendorId, comm.type);
 
     return {
       success: true,
@@ -209,16 +333,20 @@ export async function sendOutreach(
     }
 
     const to = normalizePhoneForWhatsApp(rawPhone);
-    const body = buildIntroductionMessage({
+    const messageParams = {
       vendorName: companyName,
       productCategories,
-      companyName: companyNameEnv,
-    });
+      companyName: sender.companyName,
+    };
+    // Built-in texts are replaced by a custom message; library templates embed it
+    const body = rendered
+      ? rendered.text
+      : (input.customMessage ??
+        (templateKey === "introduction"
+          ? buildIntroductionMessage(messageParams)
+          : buildFollowUpMessage({ ...messageParams, final: templateKey === "final_reminder" })));
 
-    const sendResult = await sendWhatsApp({
-      to,
-      body: input.customMessage ?? body,
-    });
+    const sendResult = await sendWhatsApp({ to, body });
 
     if (!sendResult.success) {
       return { success: false, error: sendResult.error };
@@ -229,15 +357,13 @@ export async function sendOutreach(
         data: {
           vendorId,
           type: "WHATSAPP",
-          content: input.customMessage ?? body,
+          content: body,
           recipient: to,
+          templateVersionId: rendered?.templateVersionId,
         },
       });
 
-      await prisma.vendor.update({
-        where: { id: vendorId },
-        data: { status: "CONTACTED", lastContact: new Date() },
-      });
+      await recordVendorContact(vendorId, comm.type);
 
       return {
         success: true,
@@ -251,3 +377,55 @@ export async function sendOutreach(
 
   return { success: false, error: "Invalid channel" };
 }
+
+/**
+ * Record a vendor's reply to a communication and update the vendor's
+ * response rate; a CONTACTED vendor that replies becomes ACTIVE.
+ * Outreach sequences notice the reply before their next send; call
+ * stopEnrollmentsOnReply (outreach-sequence.service.ts) to stop them right away.
+ */
+export async function recordCommunicationReply(
+  communicationId: string,
+  response: string,
+  respondedAt: Date = new Date(),
+) {
+  const comm = await prisma.communication.findUnique({ where: { id: communicationId } });
+  if (!comm) throw new Error("Communication not found");
+
+  const updated = await prisma.communication.update({
+    where: { id: communicationId },
+    data: {
+      response,
+      respondedAt,
+      responseTime: Math.max(
+        0,
+        Math.round((respondedAt.getTime() - comm.sentAt.getTime()) / 3_600_000),
+      ),
+    },
+  });
+
+  await refreshVendorResponseRate(comm.vendorId);
+  return updated;
+}
+
+/** Share of the vendor's outreach messages (email, WhatsApp) that got a reply */
+export async function refreshVendorResponseRate(vendorId: string) {
+  const outreach: Prisma.CommunicationWhereInput = {
+    vendorId,
+    type: { in: ["EMAIL", "WHATSAPP"] },
+  };
+  const [sent, answered, vendor] = await Promise.all([
+    prisma.communication.count({ where: outreach }),
+    prisma.communication.count({ where: { ...outreach, respondedAt: { not: null } } }),
+    prisma.vendor.findUnique({ where: { id: vendorId }, select: { status: true } }),
+  ]);
+  if (!vendor) return;
+
+  await prisma.vendor.update({
+    where: { id: vendorId },
+    data: {
+      responseRate: sent > 0 ? answered / sent : 0,
+      ...(vendor.status === "CONTACTED" && answered > 0 ? { status: "ACTIVE" as const } : {}),
+    },
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Payment Terms Parser — free-text terms → days of credit.
+ *
+ * Understands the usual shapes of quote terms:
+ *   "Net 45", "45 days credit", "60 days after invoice"   → credit days
+ *   "30 days", "Payment within 30 days"                    → credit days
+ *   "30% advance, 70% on delivery", "50% deposit"          → advance share
+ *   "100% prepayment", "T/T in advance", "CIA"             → fully prepaid
+ *   "LC at sight", "L/C 90 days", "COD", "against B/L"     → credit days
+ *
+ * effectiveDays folds both into one number for scoring: credit days on the
+ * share paid later, minus ADVANCE_PENALTY_DAYS on the share paid up front.
+ * Terms nothing matches are returned as null rather than guessed.
+ */
+
+/** An advance ties up cash for roughly a production cycle */
+export const ADVANCE_PENALTY_DAYS = 30;
+
+export interface ParsedPaymentTerms {
+  /** Days after delivery/invoice the balance is due */
+  creditDays: number;
+  /** Share paid before delivery, 0–100 */
+  advancePct: number;
+  effectiveDays: number;
+  summary: string;
+}
+
+const PREPAID =
+  /\b(prepayment|prepaid|pre-payment|cash in advance|cia|(?:payment|t\/?t|tt|wire) in advance|full advance)\b/i;
+const ADVANCE_PCT = [
+  /(\d{1,3}(?:\.\d+)?)\s*%\s*(?:t\/?t\s*)?(?:advance|upfront|up-front|in advance|deposit|down[- ]?payment|prepay\w*|with (?:the )?order|on order|before (?:production|shipment))/i,
+  /(?:advance|deposit|down[- ]?payment|upfront)\s*(?:of\s*)?(\d{1,3}(?:\.\d+)?)\s*%/i,
+];
+const CREDIT_DAYS = [
+  /\bnet\s*-?\s*(\d{1,3})\b/i,
+  /\b(\d{1,3})\s*days?\s*(?:net|credit|after|from|of|following|post)\b/i,
+  /\b(?:l\/?c|letter of credit|d\/?a|documents against acceptance)\s*(?:at\s*)?(\d{1,3})\s*days?\b/i,
+  /\bcredit\s*(?:of\s*)?(\d{1,3})\s*days?\b/i,
+  /\bwithin\s*(\d{1,3})\s*days?\b/i,
+  // Bare "30 days" last, so the more specific shapes above win
+  /\b(\d{1,3})\s*days?\b/i,
+];
+const ON_DELIVERY =
+  /\b(cod|cash on delivery|on delivery|upon delivery|against (?:delivery|b\/?l|bill of lading|documents)|at sight|d\/?p|documents against payment|on receipt|due on receipt|immediate)\b/i;
+
+export function parsePaymentTerms(
+  text: string | null | undefined,
+): ParsedPaymentTerms | null {
+  const terms = text?.trim();
+  if (!terms) return null;
+
+  let advancePct: number | null = null;
+  if (PREPAID.test(terms) && !/%/.test(terms)) {
+    advancePct = 100;
+  } else {
+    for (const pattern of ADVANCE_PCT) {
+      const match = pattern.exec(terms);
+      if (match) {
+        advancePct = Math.min(100, Number(match[1]));
+        break;
+      }
+    }
+  }
+
+  let creditDays: number | null = null;
+  for (const pattern of CREDIT_DAYS) {
+    const match = pattern.exec(terms);
+    if (match) {
+      creditDays = Number(match[1]);
+      break;
+    }
+  }
+  if (creditDays === null && (ON_DELIVERY.test(terms) || advancePct !== null))
+    creditDays = 0;
+
+  if (creditDays === null) return null;
+  const advance = advancePct ?? 0;
+  const later = 1 - advance / 100;
+  const effectiveDays =
+    Math.round(
+      (later * creditDays - (advance / 100) * ADVANCE_PENALTY_DAYS) * 10,
+    ) / 10;
+
+  const parts = [];
+  if (advance > 0) parts.push(`${advance}% advance`);
+  if (advance < 100)
+    parts.push(
+      creditDays > 0 ? `${creditDays} days credit` : "balance on delivery",
+    );
+  return {
+    creditDays,
+    advancePct: advance,
+    effectiveDays,
+    summary: parts.join(", "),
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * PDF Writer — a minimal text-only PDF 1.4 document.
+ *
+ * Enough for generated paperwork such as purchase orders: A4 pages of
+ * monospaced lines (Courier and Courier-Bold, so columns line up), broken
+ * onto new pages as they fill. Text is WinAnsi; characters outside Latin-1
+ * print as "?".
+ */
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  /** Font size in points; defaults to 9 */
+  size?: number;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_SIZE = 9;
+/** Courier glyphs are 0.6 em wide */
+const CHAR_WIDTH = 0.6;
+
+/** Characters per line at a font size */
+export function pdfLineWidth(size = DEFAULT_SIZE): number {
+  return Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * CHAR_WIDTH));
+}
+
+/** Split text into lines of at most `width` characters, on spaces where possible */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      for (let rest = word; rest; ) {
+        const candidate = line ? `${line} ${rest}` : rest;
+        if (candidate.length <= width) {
+          line = candidate;
+          rest = "";
+        } else if (line) {
+          lines.push(line);
+          line = "";
+        } else {
+          lines.push(rest.slice(0, width));
+          rest = rest.slice(width);
+        }
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+function pageContent(lines: PdfLine[]): string {
+  let y = PAGE_HEIGHT - MARGIN;
+  const ops: string[] = [];
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE;
+    y -= size * 1.4;
+    ops.push(
+      `BT /${line.bold ? "F2" : "F1"} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${escape(line.text)}) Tj ET`,
+    );
+  }
+  return ops.join("\n");
+}
+
+function paginate(lines: PdfLine[]): PdfLine[][] {
+  const pages: PdfLine[][] = [[]];
+  let used = 0;
+  for (const line of lines) {
+    const height = (line.size ?? DEFAULT_SIZE) * 1.4;
+    if (used + height > PAGE_HEIGHT - 2 * MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      used = 0;
+    }
+    pages[pages.length - 1].push(line);
+    used += height;
+  }
+  return pages;
+}
+
+export function renderPdf(lines: PdfLine[], title?: string): Buffer {
+  const pages = paginate(lines);
+
+  // Objects 1–4 are fixed; each page then takes a page and a content object
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>";
+  pages.forEach((page, i) => {
+    const content = pageContent(page);
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] =
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+  const infoId = objects.length;
+  objects[infoId] = `<< /Producer (ProcMVP)${title ? ` /Title (${escape(title)})` : ""} >>`;
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
@@ -0,0 +1,433 @@
+/**
+ * Price Benchmark Service — market price history per product category.
+ *
+ * Every price discovery run (Google Shopping prices) and every received
+ * quote is stored as a PriceObservation. Benchmarks are computed on read:
+ * - percentiles / mean / spread of unit prices in one currency
+ * - trend: median per month (or week) and the overall direction
+ * - outliers: prices outside the 1.5×IQR fences
+ *
+ * Observations belong to the organisation whose quote or discovery job
+ * produced them, and benchmarks only draw on that organisation's own.
+ * Observations keep their original currency; they are converted with the
+ * current exchange rates when a benchmark is requested (currency.service.ts).
+ * Recording is best-effort and never fails the discovery run or quote.
+ */
+
+import { prisma } from "../lib/prisma.js";
+import type { PriceDiscoveryResult } from "./price-discovery.service.js";
+import {
+  loadRateTable,
+  convertAmount,
+  getReportingCurrency,
+} from "./currency.service.js";
+
+/** Benchmarks need a few points before percentiles and fences mean anything */
+const MIN_SAMPLE_FOR_OUTLIERS = 4;
+const IQR_FENCE = 1.5;
+
+export interface BenchmarkQuery {
+  category: string;
+  country?: string;
+  /** Target currency; defaults to the reporting currency */
+  currency?: string;
+  /** Look-back window in days */
+  days?: number;
+  interval?: "month" | "week";
+}
+
+export interface PricePercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface TrendBucket {
+  period: string;
+  count: number;
+  median: number;
+  mean: number;
+  min: number;
+  max: number;
+}
+
+export interface PriceOutlier {
+  id: string;
+  source: string;
+  vendorName: string | null;
+  title: string | null;
+  price: number;
+  currency: string;
+  normalizedPrice: number;
+  observedAt: Date;
+  direction: "above" | "below";
+  /** Distance from the median, in percent */
+  deviationPct: number;
+}
+
+export interface PriceBenchmark {
+  category: string;
+  country: string | null;
+  currency: string;
+  from: Date;
+  to: Date;
+  sampleSize: number;
+  /** Observations left out because their currency has no exchange rate */
+  excluded: number;
+  bySource: Record<string, number>;
+  stats: {
+    min: number;
+    max: number;
+    mean: number;
+    stdDev: number;
+    percentiles: PricePercentiles;
+  } | null;
+  trend: {
+    interval: "month" | "week";
+    buckets: TrendBucket[];
+    /** Change between the first and last bucket median, in percent */
+    changePct: number | null;
+    direction: "rising" | "falling" | "flat" | null;
+  };
+  fences: { lower: number; upper: number } | null;
+  outliers: PriceOutlier[];
+}
+
+/** Where a single price sits relative to a benchmark */
+export interface PriceEvaluation {
+  /** Share of observations at or below this price (0–100) */
+  percentileRank: number;
+  /** Difference from the median, in percent */
+  vsMedianPct: number;
+  outlier: "above" | "below" | null;
+}
+
+// ─── Recording ────────────────────────────────────────────────
+
+/** "Steel  Pipes " and "steel pipes" benchmark together */
+export function categoryKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Store the individual prices of a discovery job's price search */
+export async function recordPriceDiscovery(
+  priceData: PriceDiscoveryResult,
+  job: { id: string; organizationId: string },
+): Promise<number> {
+  if (priceData.prices.length === 0) return 0;
+
+  try {
+    const created = await prisma.priceObservation.createMany({
+      data: priceData.prices.map((p) => ({
+        organizationId: job.organizationId,
+        productCategory: priceData.productCategory,
+        categoryKey: categoryKey(priceData.productCategory),
+        country: priceData.country,
+        source: "serp",
+        sourceRef: job.id,
+        vendorName: p.source,
+        title: p.title,
+        price: p.extractedPrice,
+        currency: p.currency ?? priceData.currency,
+      })),
+    });
+    return created.count;
+  } catch (err) {
+    console.error("[Benchmark] Failed to record price discovery:", err);
+    return 0;
+  }
+}
+
+/**
+ * Store a received quote's unit prices, one observation per quoted line
+ * under the RFQ line's product. Alternates are skipped: they are a
+ * different product from the one the line names.
+ */
+export async function recordQuoteObservation(quote: {
+  id: string;
+  currency: string;
+  receivedAt: Date;
+  vendor: { companyName: string; country: string };
+  lineItems: Array<{ rfqLineItemId: string; unitPrice: number; isAlternate: boolean }>;
+  rfq: { organizationId: string; lineItems: Array<{ id: string; productName: string }> };
+}): Promise<void> {
+  const products = new Map(quote.rfq.lineItems.map((item) => [item.id, item.productName]));
+  const data = quote.lineItems
+    .filter((line) => !line.isAlternate && products.has(line.rfqLineItemId))
+    .map((line) => {
+      const productName = products.get(line.rfqLineItemId)!;
+      return {
+        organizationId: quote.rfq.organizationId,
+        productCategory: productName,
+        categoryKey: categoryKey(productName),
+        country: quote.vendor.country,
+        source: "quote",
+        sourceRef: quote.id,
+        vendorName: quote.vendor.companyName,
+        price: line.unitPrice,
+        currency: quote.currency,
+        observedAt: quote.receivedAt,
+      };
+    });
+  if (data.length === 0) return;
+
+  try {
+    await prisma.priceObservation.createMany({ data });
+  } catch (err) {
+    console.error(`[Benchmark] Failed to record quote ${quote.id}:`, err);
+  }
+}
+
+// ─── Benchmarks ───────────────────────────────────────────────
+
+export async function getPriceBenchmark(
+  query: BenchmarkQuery,
+  organizationId: string,
+): Promise<PriceBenchmark> {
+  const currency = query.currency ?? getReportingCurrency();
+  const days = query.days ?? 365;
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const [observations, rates] = await Promise.all([
+    prisma.priceObservation.findMany({
+      where: {
+        organizationId,
+        categoryKey: categoryKey(query.category),
+        observedAt: { gte: from, lte: to },
+        ...(query.country && {
+          country: { equals: query.country, mode: "insensitive" as const },
+        }),
+      },
+      orderBy: { observedAt: "asc" },
+    }),
+    loadRateTable(),
+  ]);
+
+  const points: Array<(typeof observations)[number] & { normalizedPrice: number }> = [];
+  let excluded = 0;
+  for (const o of observations) {
+    const normalizedPrice = convertAmount(rates, o.price, o.currency, currency);
+    if (normalizedPrice === null || normalizedPrice <= 0) {
+      excluded++;
+      continue;
+    }
+    points.push({ ...o, normalizedPrice });
+  }
+
+  const bySource: Record<string, number> = {};
+  for (const p of points) bySource[p.source] = (bySource[p.source] ?? 0) + 1;
+
+  const values = points.map((p) => p.normalizedPrice).sort((a, b) => a - b);
+  const stats = values.length > 0 ? describe(values) : null;
+
+  const fences =
+    stats && values.length >= MIN_SAMPLE_FOR_OUTLIERS
+      ? iqrFences(stats.percentiles)
+      : null;
+
+  const outliers: PriceOutlier[] = [];
+  if (fences && stats) {
+    const median = stats.percentiles.p50;
+    for (const p of points) {
+      if (p.normalizedPrice >= fences.lower && p.normalizedPrice <= fences.upper) continue;
+      outliers.push({
+        id: p.id,
+        source: p.source,
+        vendorName: p.vendorName,
+        title: p.title,
+        price: p.price,
+        currency: p.currency,
+        normalizedPrice: round2(p.normalizedPrice),
+        observedAt: p.observedAt,
+        direction: p.normalizedPrice > fences.upper ? "above" : "below",
+        deviationPct: round1(((p.normalizedPrice - median) / median) * 100),
+      });
+    }
+  }
+
+  const interval = query.interval ?? "month";
+  const buckets = trendBuckets(points, interval);
+  const first = buckets[0]?.median;
+  const last = buckets[buckets.length - 1]?.median;
+  const changePct =
+    buckets.length >= 2 && first ? round1(((last - first) / first) * 100) : null;
+
+  return {
+    category: query.category,
+    country: query.country ?? null,
+    currency,
+    from,
+    to,
+    sampleSize: values.length,
+    excluded,
+    bySource,
+    stats: stats && {
+      min: round2(stats.min),
+      max: round2(stats.max),
+      mean: round2(stats.mean),
+      stdDev: round2(stats.stdDev),
+      percentiles: mapValues(stats.percentiles, round2),
+    },
+    trend: {
+      interval,
+      buckets,
+      changePct,
+      direction:
+        changePct === null ? null : changePct > 5 ? "rising" : changePct < -5 ? "falling" : "flat",
+    },
+    fences: fences && { lower: round2(fences.lower), upper: round2(fences.upper) },
+    outliers: outliers.slice(0, 50),
+  };
+}
+
+/** Position of `price` (in the benchmark's currency) within the benchmark */
+export function evaluatePrice(benchmark: PriceBenchmark, price: number): PriceEvaluation | null {
+  if (!benchmark.stats) return null;
+
+  // Re-derive the rank from the percentiles rather than keeping every value around
+  const { percentiles, min, max } = benchmark.stats;
+  const knots: Array<[number, number]> = [
+    [min, 0],
+    [percentiles.p10, 10],
+    [percentiles.p25, 25],
+    [percentiles.p50, 50],
+    [percentiles.p75, 75],
+    [percentiles.p90, 90],
+    [max, 100],
+  ];
+  let percentileRank = price <= min ? 0 : 100;
+  for (let i = 1; i < knots.length; i++) {
+    const [x0, y0] = knots[i - 1];
+    const [x1, y1] = knots[i];
+    if (price <= x1) {
+      percentileRank = x1 === x0 ? y1 : y0 + ((price - x0) / (x1 - x0)) * (y1 - y0);
+      break;
+    }
+  }
+
+  const median = percentiles.p50;
+  const { fences } = benchmark;
+  return {
+    percentileRank: Math.round(percentileRank),
+    vsMedianPct: round1(((price - median) / median) * 100),
+    outlier: !fences
+      ? null
+      : price > fences.upper
+        ? "above"
+        : price < fences.lower
+          ? "below"
+          : null,
+  };
+}
+
+/** Known categories with observation counts, most observed first */
+export async function listBenchmarkCategories(organizationId: string) {
+  const groups = await prisma.priceObservation.groupBy({
+    by: ["categoryKey"],
+    where: { organizationId },
+    _count: { _all: true },
+    _max: { observedAt: true, productCategory: true },
+    orderBy: { _count: { categoryKey: "desc" } },
+    take: 200,
+  });
+  return groups.map((g) => ({
+    key: g.categoryKey,
+    label: g._max.productCategory ?? g.categoryKey,
+    observations: g._count._all,
+    lastObservedAt: g._max.observedAt,
+  }));
+}
+
+// ─── Statistics ───────────────────────────────────────────────
+
+/** `sorted` must be ascending and non-empty */
+function describe(sorted: number[]) {
+  const n = sorted.length;
+  const mean = sorted.reduce((a, b) => a + b, 0) / n;
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n;
+  return {
+    min: sorted[0],
+    max: sorted[n - 1],
+    mean,
+    stdDev: Math.sqrt(variance),
+    percentiles: {
+      p10: percentile(sorted, 0.1),
+      p25: percentile(sorted, 0.25),
+      p50: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      p90: percentile(sorted, 0.9),
+    },
+  };
+}
+
+/** Linear interpolation between closest ranks */
+function percentile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function iqrFences(p: PricePercentiles) {
+  const iqr = p.p75 - p.p25;
+  return { lower: Math.max(0, p.p25 - IQR_FENCE * iqr), upper: p.p75 + IQR_FENCE * iqr };
+}
+
+function trendBuckets(
+  points: Array<{ normalizedPrice: number; observedAt: Date }>,
+  interval: "month" | "week",
+): TrendBucket[] {
+  const groups = new Map<string, number[]>();
+  for (const p of points) {
+    const key = interval === "month" ? monthKey(p.observedAt) : weekKey(p.observedAt);
+    const list = groups.get(key) ?? [];
+    list.push(p.normalizedPrice);
+    groups.set(key, list);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, list]) => {
+      const sorted = list.sort((a, b) => a - b);
+      return {
+        period,
+        count: sorted.length,
+        median: round2(percentile(sorted, 0.5)),
+        mean: round2(sorted.reduce((a, b) => a + b, 0) / sorted.length),
+        min: round2(sorted[0]),
+        max: round2(sorted[sorted.length - 1]),
+      };
+    });
+}
+
+/** 2026-03 */
+function monthKey(d: Date): string {
+  return d.toISOString().slice(0, 7);
+}
+
+/** Monday of the (UTC) week, e.g. 2026-03-16 */
+function weekKey(d: Date): string {
+  const monday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function mapValues<T extends Record<string, number>>(obj: T, fn: (v: number) => number): T {
+  return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, fn(v)])) as T;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
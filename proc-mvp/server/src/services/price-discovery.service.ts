@@ -8,8 +8,18 @@
  * 1. Search Google Shopping for product + country
  * 2. Extract prices, sources, and product titles from SERP
  * 3. Return high-confidence price data (no AI needed — structured SERP data)
+ *
+ * Each price keeps the currency it was listed in (from its symbol/code, else
+ * the storefront country's currency). min/max/avg are in the most common
+ * currency of the sample; other prices are converted via currency.service.ts.
  */
 
+import {
+  loadRateTable,
+  convertAmount,
+  detectCurrency,
+} from "./currency.service.js";
+
 export interface ShoppingPriceResult {
   title: string;
   price: string;
@@ -26,6 +36,8 @@ export interface PriceDiscoveryResult {
   productCategory: string;
   country: string;
   prices: ShoppingPriceResult[];
+  /** Currency of minPrice / maxPrice / avgPrice */
+  currency: string;
   minPrice: number;
   maxPrice: number;
   avgPrice: number;
@@ -62,6 +74,33 @@ const COUNTRY_TO_GL: Record<string, string> = {
   "Saudi Arabia": "sa",
 };
 
+// Google gl → storefront currency, for prices without a symbol
+const GL_TO_CURRENCY: Record<string, string> = {
+  cn: "CNY",
+  in: "INR",
+  us: "USD",
+  ae: "AED",
+  tr: "TRY",
+  de: "EUR",
+  uk: "GBP",
+  vn: "VND",
+  id: "IDR",
+  th: "THB",
+  my: "MYR",
+  mx: "MXN",
+  br: "BRL",
+  it: "EUR",
+  fr: "EUR",
+  es: "EUR",
+  jp: "JPY",
+  kr: "KRW",
+  tw: "TWD",
+  pk: "PKR",
+  bd: "BDT",
+  eg: "EGP",
+  sa: "SAR",
+};
+
 function getGlForCountry(country: string): string {
   const normalized = country.trim();
   return COUNTRY_TO_GL[normalized] ?? "us";
@@ -83,6 +122,7 @@ export async function searchShoppingPrices(
   }
 
   const gl = getGlForCountry(country);
+  const localCurrency = GL_TO_CURRENCY[gl] ?? "USD";
   const query = `${productCategory} manufacturer supplier ${country}`;
 
   const params = new URLSearchParams({
@@ -166,6 +206,9 @@ export async function searchShoppingPrices(
         title: item.title || "Unknown",
         price: item.price || String(price),
         extractedPrice: price,
+        currency: item.price
+          ? (detectCurrency(item.price, localCurrency) ?? localCurrency)
+          : localCurrency,
         source: item.source || "Unknown",
         link: item.link || item.product_link || "",
         rating: item.rating,
@@ -215,11 +258,21 @@ export async function discoverPrices(
 ): Promise<PriceDiscoveryResult> {
   const prices = await searchShoppingPrices(productCategory, country, maxResults);
 
-  if (prices.length === 0) {
+  const currency = dominantCurrency(prices);
+  let values: number[] = [];
+  if (prices.length > 0) {
+    const table = await loadRateTable();
+    values = prices
+      .map((p) => convertAmount(table, p.extractedPrice, p.currency ?? currency, currency))
+      .filter((v): v is number => v != null && v > 0);
+  }
+
+  if (values.length === 0) {
     return {
       productCategory,
       country,
       prices: [],
+      currency,
       minPrice: 0,
       maxPrice: 0,
       avgPrice: 0,
@@ -227,7 +280,6 @@ export async function discoverPrices(
     };
   }
 
-  const values = prices.map((p) => p.extractedPrice).filter((v) => v > 0);
   const minPrice = Math.min(...values);
   const maxPrice = Math.max(...values);
   const avgPrice = values.reduce((a, b) => a + b, 0) / values.length;
@@ -236,9 +288,28 @@ export async function discoverPrices(
     productCategory,
     country,
     prices,
+    currency,
     minPrice,
     maxPrice,
     avgPrice,
-    sampleSize: prices.length,
+    sampleSize: values.length,
   };
 }
+
+/** Most common currency in the sample (USD when empty) */
+function dominantCurrency(prices: ShoppingPriceResult[]): string {
+  const counts = new Map<string, number>();
+  for (const p of prices) {
+    const c = p.currency ?? "USD";
+    counts.set(c, (counts.get(c) ?? 0) + 1);
+  }
+  let best = "USD";
+  let bestCount = 0;
+  for (const [c, n] of counts) {
+    if (n > bestCount) {
+      best = c;
+      bestCount = n;
+    }
+  }
+  return best;
+}
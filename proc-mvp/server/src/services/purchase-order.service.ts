@@ -0,0 +1,414 @@
+/**
+ * Purchase Order Service — POs issued from accepted quotes.
+ *
+ * Accepting a quote (PATCH /api/quotes/:id/status) issues its PO: the RFQ
+ * lines the quote prices that no earlier PO on the RFQ covers, each at the
+ * quote's exact offer (else its alternate), with the quote's payment terms
+ * and the RFQ's delivery location as the delivery address. Accepting quotes
+ * from several vendors therefore splits the award. A quote that predates
+ * line items is ordered as one lot at its total.
+ *
+ * The PO is rendered as a PDF (pdf-writer.ts) and emailed to the vendor with
+ * the purchase_order template, recorded as an ORDER Communication. A failed
+ * send leaves the PO issued with the error, to be sent again. Only RFQs that
+ * were sent and are still open are ordered from, so nothing is ordered
+ * without approval; once POs cover every line of the RFQ, it is COMPLETED.
+ *
+ * Status only moves forward (ISSUED → ACKNOWLEDGED → SHIPPED → RECEIVED →
+ * CLOSED, steps may be skipped); each status stamps its date.
+ */
+
+import type {
+  Prisma,
+  PurchaseOrderStatus,
+  QuoteLineItem,
+  RfqLineItem,
+} from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type {
+  PurchaseOrderQuery,
+  PurchaseOrderTermsInput,
+} from "../schemas/purchase-order.schema.js";
+import { sendOutreach } from "./outreach.service.js";
+import { nextDocumentNumber } from "./numbering.service.js";
+import { OPEN_FOR_QUOTES, canTransition, transitionRfq } from "./rfq-lifecycle.service.js";
+import { pdfLineWidth, renderPdf, wrapText, type PdfLine } from "./pdf-writer.js";
+
+const PURCHASE_ORDER_TEMPLATE_KEY = "purchase_order";
+
+export const PURCHASE_ORDER_FLOW: PurchaseOrderStatus[] = [
+  "ISSUED",
+  "ACKNOWLEDGED",
+  "SHIPPED",
+  "RECEIVED",
+  "CLOSED",
+];
+
+const STATUS_DATES: Record<PurchaseOrderStatus, keyof Prisma.PurchaseOrderUpdateInput> = {
+  ISSUED: "issuedAt",
+  ACKNOWLEDGED: "acknowledgedAt",
+  SHIPPED: "shippedAt",
+  RECEIVED: "receivedAt",
+  CLOSED: "closedAt",
+};
+
+const purchaseOrderInclude = {
+  rfq: { select: { id: true, rfqNumber: true, status: true } },
+  vendor: { select: { id: true, companyName: true, country: true } },
+  quote: { select: { id: true, status: true, leadTimeDays: true } },
+  createdBy: { select: { id: true, name: true } },
+  communication: { select: { id: true, sentAt: true, recipient: true } },
+  lineItems: { orderBy: { position: "asc" } },
+} as const;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatAmount(amount: number, currency?: string): string {
+  const text = amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return currency ? `${text} ${currency}` : text;
+}
+
+// ─── Lines ────────────────────────────────────────────────────
+
+/** RFQ lines already on a PO; a lot line covers them all */
+function awardedLineIds(
+  rfqLines: RfqLineItem[],
+  orders: { lineItems: { rfqLineItemId: string | null }[] }[],
+): Set<string> {
+  const awarded = new Set<string>();
+  for (const line of orders.flatMap((o) => o.lineItems)) {
+    if (line.rfqLineItemId === null) return new Set(rfqLines.map((l) => l.id));
+    awarded.add(line.rfqLineItemId);
+  }
+  return awarded;
+}
+
+interface OrderLine {
+  rfqLineItemId: string | null;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+function orderLines(
+  quote: { unitPrice: number; totalPrice: number; lineItems: QuoteLineItem[] },
+  rfq: { rfqNumber: string; lineItems: RfqLineItem[] },
+  awarded: Set<string>,
+): OrderLine[] {
+  if (quote.lineItems.length === 0) {
+    if (awarded.size > 0) return [];
+    const [only] = rfq.lineItems;
+    return rfq.lineItems.length === 1
+      ? [
+          {
+            rfqLineItemId: only.id,
+            description: only.productName,
+            quantity: only.quantity,
+            unit: only.unit,
+            unitPrice: quote.unitPrice,
+            totalPrice: quote.totalPrice,
+          },
+        ]
+      : [
+          {
+            rfqLineItemId: null,
+            description: `All items of ${rfq.rfqNumber} as quoted`,
+            quantity: 1,
+            unit: "lot",
+            unitPrice: quote.totalPrice,
+            totalPrice: quote.totalPrice,
+          },
+        ];
+  }
+
+  const lines: OrderLine[] = [];
+  for (const item of rfq.lineItems) {
+    if (awarded.has(item.id)) continue;
+    const offers = quote.lineItems.filter((l) => l.rfqLineItemId === item.id);
+    const offer = offers.find((l) => !l.isAlternate) ?? offers[0];
+    if (!offer) continue;
+    lines.push({
+      rfqLineItemId: item.id,
+      description: offer.isAlternate
+        ? `${item.productName} (alternate: ${offer.description})`
+        : item.productName,
+      quantity: offer.quantity,
+      unit: item.unit,
+      unitPrice: offer.unitPrice,
+      totalPrice: offer.totalPrice,
+    });
+  }
+  return lines;
+}
+
+// ─── Issue ────────────────────────────────────────────────────
+
+/** Create the PO for a quote, mark the quote ACCEPTED and email the PO */
+export async function issuePurchaseOrder(
+  quoteId: string,
+  terms: PurchaseOrderTermsInput,
+  userId: string,
+) {
+  const quote = await prisma.quote.findUnique({
+    where: { id: quoteId },
+    include: {
+      lineItems: true,
+      purchaseOrder: { select: { poNumber: true } },
+      rfq: {
+        include: {
+          lineItems: true,
+          purchaseOrders: { select: { lineItems: { select: { rfqLineItemId: true } } } },
+        },
+      },
+    },
+  });
+  if (!quote) throw new Error("Quote not found");
+  if (quote.purchaseOrder) {
+    throw new Error(`Quote already has purchase order ${quote.purchaseOrder.poNumber}`);
+  }
+  if (!OPEN_FOR_QUOTES.includes(quote.rfq.status)) {
+    throw new Error(`Nothing can be ordered on a ${quote.rfq.status} RFQ`);
+  }
+
+  const awarded = awardedLineIds(quote.rfq.lineItems, quote.rfq.purchaseOrders);
+  const lines = orderLines(quote, quote.rfq, awarded);
+  if (lines.length === 0) {
+    throw new Error("Every line this quote prices is already on a purchase order");
+  }
+
+  // Every line awarded once this PO is issued: the RFQ must be able to complete
+  const nowAwarded = awardedLineIds(quote.rfq.lineItems, [
+    ...quote.rfq.purchaseOrders,
+    { lineItems: lines },
+  ]);
+  const completes = quote.rfq.lineItems.every((line) => nowAwarded.has(line.id));
+  if (completes && !canTransition(quote.rfq.status, "COMPLETED")) {
+    throw new Error(
+      `A ${quote.rfq.status} RFQ cannot be completed; move it to COMPARING before ordering its last lines`,
+    );
+  }
+
+  // Quote ACCEPTED and the PO number used up only if the PO is created
+  const po = await prisma.$transaction(async (tx) => {
+    const created = await tx.purchaseOrder.create({
+      data: {
+        poNumber: await nextDocumentNumber(tx, "PURCHASE_ORDER"),
+        rfqId: quote.rfqId,
+        quoteId: quote.id,
+        vendorId: quote.vendorId,
+        currency: quote.currency,
+        totalAmount: round2(lines.reduce((sum, l) => sum + l.totalPrice, 0)),
+        incoterms: terms.incoterms || null,
+        paymentTerms: quote.paymentTerms,
+        deliveryAddress: quote.rfq.deliveryLocation,
+        requiredDeliveryDate: quote.rfq.requiredDeliveryDate,
+        notes: terms.notes || null,
+        createdById: userId,
+        lineItems: {
+          createMany: { data: lines.map((line, position) => ({ ...line, position })) },
+        },
+      },
+    });
+    await tx.quote.update({ where: { id: quote.id }, data: { status: "ACCEPTED" } });
+    return created;
+  });
+
+  await sendPurchaseOrder(po.id, userId);
+
+  // Every line awarded: the RFQ is done
+  if (completes) {
+    await transitionRfq(quote.rfq, "COMPLETED", {
+      actorId: userId,
+      reason: `Every line ordered (last: ${po.poNumber})`,
+    });
+  }
+
+  console.log(`[PurchaseOrder] ${po.poNumber} issued for ${quote.rfq.rfqNumber} (${lines.length} lines)`);
+  return getPurchaseOrder(po.id);
+}
+
+// ─── Send ─────────────────────────────────────────────────────
+
+/** Email the PO PDF to the vendor; the outcome is kept on the PO */
+export async function sendPurchaseOrder(id: string, userId: string) {
+  const document = await purchaseOrderPdf(id);
+  if (!document) throw new Error("Purchase order not found");
+  const { po } = document;
+
+  const outcome = await sendOutreach({
+    vendorId: po.vendorId,
+    channel: "email",
+    template: PURCHASE_ORDER_TEMPLATE_KEY,
+    rfqId: po.rfqId,
+    userId,
+    variables: {
+      poNumber: po.poNumber,
+      orderTotal: formatAmount(po.totalAmount, po.currency),
+    },
+    attachments: [
+      { filename: document.filename, contentType: "application/pdf", content: document.content },
+    ],
+    communicationType: "ORDER",
+  }).catch((err: unknown) => ({
+    success: false,
+    communicationId: undefined,
+    error: err instanceof Error ? err.message : "Unknown error",
+  }));
+
+  const recipient = outcome.success
+    ? await prisma.vendorContact.findFirst({
+        where: { vendorId: po.vendorId, type: "email" },
+        select: { value: true },
+      })
+    : null;
+  await prisma.purchaseOrder.update({
+    where: { id },
+    data: outcome.success
+      ? { communicationId: outcome.communicationId, recipient: recipient?.value, emailError: null }
+      : { emailError: outcome.error ?? "Send failed" },
+  });
+  if (!outcome.success) {
+    console.warn(`[PurchaseOrder] ${po.poNumber} not sent: ${outcome.error}`);
+  }
+  return getPurchaseOrder(id);
+}
+
+// ─── Status ───────────────────────────────────────────────────
+
+export async function updatePurchaseOrderStatus(id: string, status: PurchaseOrderStatus) {
+  const po = await prisma.purchaseOrder.findUnique({ where: { id } });
+  if (!po) throw new Error("Purchase order not found");
+  if (po.status === status) return getPurchaseOrder(id);
+
+  if (PURCHASE_ORDER_FLOW.indexOf(status) < PURCHASE_ORDER_FLOW.indexOf(po.status)) {
+    throw new Error(`A ${po.status} purchase order cannot go back to ${status}`);
+  }
+  await prisma.purchaseOrder.update({
+    where: { id },
+    data: { status, [STATUS_DATES[status]]: new Date() },
+  });
+  return getPurchaseOrder(id);
+}
+
+// ─── Queries ──────────────────────────────────────────────────
+
+/** A PO, limited to the organisation's when one is given */
+export async function getPurchaseOrder(id: string, organizationId?: string) {
+  return prisma.purchaseOrder.findFirst({
+    where: { id, ...(organizationId && { rfq: { organizationId } }) },
+    include: purchaseOrderInclude,
+  });
+}
+
+export async function listPurchaseOrders(query: PurchaseOrderQuery, organizationId: string) {
+  const { page, limit, status, rfqId, vendorId } = query;
+  const where: Prisma.PurchaseOrderWhereInput = {
+    rfq: { organizationId },
+    ...(status && { status }),
+    ...(rfqId && { rfqId }),
+    ...(vendorId && { vendorId }),
+  };
+
+  const [orders, total] = await Promise.all([
+    prisma.purchaseOrder.findMany({
+      where,
+      include: purchaseOrderInclude,
+      orderBy: { issuedAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.purchaseOrder.count({ where }),
+  ]);
+
+  return {
+    data: orders,
+    pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+  };
+}
+
+// ─── PDF ──────────────────────────────────────────────────────
+
+function field(label: string, value: string, width: number): PdfLine[] {
+  const indent = 16;
+  return wrapText(value, width - indent).map((text, i) => ({
+    text: `${(i === 0 ? label : "").padEnd(indent)}${text}`,
+  }));
+}
+
+/** The PO as a PDF; null if there is no such PO (in the organisation, when given) */
+export async function purchaseOrderPdf(id: string, organizationId?: string) {
+  const po = await prisma.purchaseOrder.findFirst({
+    where: { id, ...(organizationId && { rfq: { organizationId } }) },
+    include: {
+      rfq: { select: { rfqNumber: true, organization: { select: { name: true } } } },
+      vendor: { select: { companyName: true, country: true } },
+      createdBy: { select: { name: true } },
+      lineItems: { orderBy: { position: "asc" } },
+    },
+  });
+  if (!po) return null;
+
+  const width = pdfLineWidth();
+  const date = (d: Date) => d.toISOString().slice(0, 10);
+  const rule = { text: "-".repeat(width) };
+  const row = (no: string, desc: string, qty: string, unit: string, price: string, total: string) =>
+    `${no.padEnd(3)} ${desc.padEnd(36)} ${qty.padStart(9)} ${unit.padEnd(8)} ${price.padStart(13)} ${total.padStart(15)}`;
+
+  const lines: PdfLine[] = [
+    { text: "PURCHASE ORDER", bold: true, size: 16 },
+    { text: po.poNumber, bold: true, size: 12 },
+    { text: "" },
+    ...field("Issued:", date(po.issuedAt), width),
+    ...field("RFQ:", po.rfq.rfqNumber, width),
+    ...field("Buyer:", `${po.rfq.organization.name} (${po.createdBy.name})`, width),
+    ...field("Vendor:", `${po.vendor.companyName}, ${po.vendor.country}`, width),
+    ...field("Deliver to:", po.deliveryAddress, width),
+    ...field("Required by:", po.requiredDeliveryDate ? date(po.requiredDeliveryDate) : "To be agreed", width),
+    ...field("Incoterms:", po.incoterms ?? "To be agreed", width),
+    ...field("Payment terms:", po.paymentTerms ?? "As quoted", width),
+    ...field("Currency:", po.currency, width),
+    { text: "" },
+    { text: row("#", "Description", "Qty", "Unit", "Unit price", "Total"), bold: true },
+    rule,
+  ];
+  po.lineItems.forEach((line, i) => {
+    const [first, ...rest] = wrapText(line.description, 36);
+    lines.push({
+      text: row(
+        String(i + 1),
+        first,
+        line.quantity.toLocaleString("en-US"),
+        line.unit.slice(0, 8),
+        formatAmount(line.unitPrice),
+        formatAmount(line.totalPrice),
+      ),
+    });
+    for (const more of rest) lines.push({ text: row("", more, "", "", "", "") });
+  });
+  lines.push(rule, {
+    text: `${`Total ${po.currency}`.padStart(width - 16)} ${formatAmount(po.totalAmount).padStart(15)}`,
+    bold: true,
+  });
+
+  if (po.notes) {
+    lines.push({ text: "" }, { text: "Notes", bold: true });
+    lines.push(...wrapText(po.notes, width).map((text) => ({ text })));
+  }
+  lines.push(
+    { text: "" },
+    ...wrapText(
+      "Please confirm this order by replying to the email it came with, quoting the PO number on all shipping documents and invoices.",
+      width,
+    ).map((text) => ({ text })),
+  );
+
+  return {
+    po,
+    filename: `${po.poNumber}.pdf`,
+    content: renderPdf(lines, `Purchase order ${po.poNumber}`),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Quote Comparison Service — an RFQ's quotes line by line.
+ *
+ * The matrix lists every vendor's offer for each RFQ line item, converted
+ * to the RFQ's budget currency. Offers without a known exchange rate are
+ * shown but never picked as best.
+ *
+ * The split-award recommendation takes the cheapest exact offer per line,
+ * falling back to the cheapest alternate only where nobody quoted the exact
+ * product, and compares the result with the cheapest vendor who quoted
+ * every line exactly.
+ */
+
+import type { QuoteLineItem, RfqLineItem } from "@prisma/client";
+import { normalizeAmount, type RateTable } from "./currency.service.js";
+
+export interface ComparableQuote {
+  id: string;
+  vendorId: string;
+  currency: string;
+  vendor: { companyName: string };
+  lineItems: QuoteLineItem[];
+}
+
+export interface LineOffer {
+  quoteId: string;
+  vendorId: string;
+  vendorName: string;
+  currency: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  normalizedUnitPrice: number | null;
+  normalizedTotalPrice: number | null;
+  isAlternate: boolean;
+  description: string | null;
+}
+
+export interface LineMatrixRow {
+  lineItemId: string;
+  productName: string;
+  quantity: number;
+  unit: string;
+  /** Cheapest first; offers without a rate last */
+  offers: LineOffer[];
+  /** Cheapest exact offer's quote */
+  bestQuoteId: string | null;
+}
+
+export interface SplitAwardLine {
+  lineItemId: string;
+  productName: string;
+  quoteId: string;
+  vendorId: string;
+  vendorName: string;
+  isAlternate: boolean;
+  normalizedTotalPrice: number;
+}
+
+export interface SplitAward {
+  currency: string;
+  lines: SplitAwardLine[];
+  /** Lines no vendor quoted (with a known rate) */
+  unawarded: { lineItemId: string; productName: string }[];
+  total: number;
+  vendorCount: number;
+  /** Cheapest vendor quoting every line exactly, for comparison */
+  bestSingle: { quoteId: string; vendorId: string; vendorName: string; total: number } | null;
+  /** What splitting saves over bestSingle; null without one */
+  savings: number | null;
+  savingsPct: number | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function cheapestFirst(a: LineOffer, b: LineOffer): number {
+  if (a.normalizedTotalPrice === null) return b.normalizedTotalPrice === null ? 0 : 1;
+  if (b.normalizedTotalPrice === null) return -1;
+  return a.normalizedTotalPrice - b.normalizedTotalPrice;
+}
+
+export function buildLineMatrix(
+  lineItems: RfqLineItem[],
+  quotes: ComparableQuote[],
+  rates: RateTable,
+  currency: string,
+): LineMatrixRow[] {
+  return lineItems.map((item) => {
+    const offers: LineOffer[] = [];
+    for (const quote of quotes) {
+      for (const line of quote.lineItems) {
+        if (line.rfqLineItemId !== item.id) continue;
+        const total = normalizeAmount(rates, line.totalPrice, quote.currency, currency);
+        const unit = normalizeAmount(rates, line.unitPrice, quote.currency, currency);
+        offers.push({
+          quoteId: quote.id,
+          vendorId: quote.vendorId,
+          vendorName: quote.vendor.companyName,
+          currency: quote.currency,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          totalPrice: line.totalPrice,
+          normalizedUnitPrice: unit.normalizedAmount,
+          normalizedTotalPrice: total.normalizedAmount,
+          isAlternate: line.isAlternate,
+          description: line.description,
+        });
+      }
+    }
+    offers.sort(cheapestFirst);
+
+    const best = offers.find((o) => !o.isAlternate && o.normalizedTotalPrice !== null);
+    return {
+      lineItemId: item.id,
+      productName: item.productName,
+      quantity: item.quantity,
+      unit: item.unit,
+      offers,
+      bestQuoteId: best?.quoteId ?? null,
+    };
+  });
+}
+
+/**
+ * Price score (0–1) per quote from its exact offers: on each line it quotes,
+ * 1 for the cheapest and 0 for the dearest exact offer, averaged over those
+ * lines. Partial bids are scored on the lines they cover.
+ */
+export function linePriceScores(matrix: LineMatrixRow[]): Map<string, number> {
+  const sums = new Map<string, { total: number; lines: number }>();
+  for (const row of matrix) {
+    const exact = row.offers.filter(
+      (o): o is LineOffer & { normalizedTotalPrice: number } =>
+        !o.isAlternate && o.normalizedTotalPrice !== null,
+    );
+    if (exact.length === 0) continue;
+    const min = Math.min(...exact.map((o) => o.normalizedTotalPrice));
+    const max = Math.max(...exact.map((o) => o.normalizedTotalPrice));
+    for (const offer of exact) {
+      const score = max === min ? 1 : (max - offer.normalizedTotalPrice) / (max - min);
+      const sum = sums.get(offer.quoteId) ?? { total: 0, lines: 0 };
+      sums.set(offer.quoteId, { total: sum.total + score, lines: sum.lines + 1 });
+    }
+  }
+  return new Map([...sums].map(([quoteId, sum]) => [quoteId, sum.total / sum.lines]));
+}
+
+export function recommendSplitAward(matrix: LineMatrixRow[], currency: string): SplitAward {
+  const lines: SplitAwardLine[] = [];
+  const unawarded: SplitAward["unawarded"] = [];
+
+  for (const row of matrix) {
+    const priced = row.offers.filter((o) => o.normalizedTotalPrice !== null);
+    const pick = priced.find((o) => !o.isAlternate) ?? priced[0];
+    if (!pick) {
+      unawarded.push({ lineItemId: row.lineItemId, productName: row.productName });
+      continue;
+    }
+    lines.push({
+      lineItemId: row.lineItemId,
+      productName: row.productName,
+      quoteId: pick.quoteId,
+      vendorId: pick.vendorId,
+      vendorName: pick.vendorName,
+      isAlternate: pick.isAlternate,
+      normalizedTotalPrice: pick.normalizedTotalPrice!,
+    });
+  }
+
+  // Vendors quoting every line exactly, with a known rate
+  const singles = new Map<string, { vendorId: string; vendorName: string; total: number; lines: number }>();
+  for (const row of matrix) {
+    for (const offer of row.offers) {
+      if (offer.isAlternate || offer.normalizedTotalPrice === null) continue;
+      const single = singles.get(offer.quoteId) ?? {
+        vendorId: offer.vendorId,
+        vendorName: offer.vendorName,
+        total: 0,
+        lines: 0,
+      };
+      single.total += offer.normalizedTotalPrice;
+      single.lines += 1;
+      singles.set(offer.quoteId, single);
+    }
+  }
+  const complete = [...singles]
+    .filter(([, single]) => single.lines === matrix.length)
+    .sort(([, a], [, b]) => a.total - b.total);
+  const bestSingle = complete[0]
+    ? {
+        quoteId: complete[0][0],
+        vendorId: complete[0][1].vendorId,
+        vendorName: complete[0][1].vendorName,
+        total: round2(complete[0][1].total),
+      }
+    : null;
+
+  const total = round2(lines.reduce((sum, line) => sum + line.normalizedTotalPrice, 0));
+  // Savings only compare like with like: every line awarded, none to an alternate
+  const comparable = bestSingle && unawarded.length === 0 && !lines.some((l) => l.isAlternate);
+  const savings = comparable ? round2(bestSingle.total - total) : null;
+
+  return {
+    currency,
+    lines,
+    unawarded,
+    total,
+    vendorCount: new Set(lines.map((line) => line.vendorId)).size,
+    bestSingle,
+    savings,
+    savingsPct:
+      savings !== null && bestSingle && bestSingle.total > 0
+        ? Math.round((savings / bestSingle.total) * 1000) / 10
+        : null,
+  };
+}
@@ -0,0 +1,574 @@
+/**
+ * Quote Scoring Service — ranks an RFQ's quotes against a weight profile.
+ *
+ * Criteria (each scored 0–1, then flipped when its direction is reversed):
+ *   price         relative: cheapest 1, dearest 0 — line by line when
+ *                 every quote has line items (quote-comparison.service.ts)
+ *   quality       the vendor's quality score out of 10
+ *   leadTime      relative: fastest 1, slowest 0
+ *   reliability   the vendor's reliability score out of 10
+ *   paymentTerms  parsed terms (payment-terms.service.ts): 90 days of
+ *                 credit scores 1, full prepayment 0
+ *
+ * score = Σ(weight × value) / Σ(weight) over the criteria that apply, on a
+ * 0–100 scale; unreadable payment terms don't count either way. Hard
+ * constraints (required certifications, max lead time, budget ceiling) don't
+ * change the score: quotes breaking one are marked ineligible and ranked
+ * after the rest.
+ *
+ * Profiles are stored in ComparisonProfile: an organisation's default row
+ * applies to each of its RFQs without a profile of their own. compareRfqQuotes puts it all
+ * together, with supplier risk flags (supplier-risk.service.ts), for
+ * GET /api/quotes/rfq/:rfqId/compare and negotiation.
+ */
+
+import type { Rfq } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type { ComparisonProfileInput } from "../schemas/quote.schema.js";
+import { loadRateTable, normalizeAmount } from "./currency.service.js";
+import { getPriceBenchmark, evaluatePrice } from "./price-benchmark.service.js";
+import { assessSupplierRisk } from "./supplier-risk.service.js";
+import {
+  buildLineMatrix,
+  linePriceScores,
+  recommendSplitAward,
+} from "./quote-comparison.service.js";
+import {
+  ADVANCE_PENALTY_DAYS,
+  parsePaymentTerms,
+  type ParsedPaymentTerms,
+} from "./payment-terms.service.js";
+
+export type ComparisonProfile = ComparisonProfileInput;
+export type CriterionKey = keyof ComparisonProfile["criteria"];
+export type CriterionDirection =
+  ComparisonProfile["criteria"][CriterionKey]["direction"];
+
+export const DEFAULT_COMPARISON_PROFILE: ComparisonProfile = {
+  criteria: {
+    price: { weight: 0.35, direction: "minimize" },
+    quality: { weight: 0.25, direction: "maximize" },
+    leadTime: { weight: 0.15, direction: "minimize" },
+    reliability: { weight: 0.15, direction: "maximize" },
+    paymentTerms: { weight: 0.1, direction: "maximize" },
+  },
+  constraints: {
+    requiredCertifications: [],
+    maxLeadTimeDays: null,
+    budgetCeiling: null,
+  },
+};
+
+export const CRITERION_LABELS: Record<CriterionKey, string> = {
+  price: "Price",
+  quality: "Quality",
+  leadTime: "Delivery",
+  reliability: "Reliability",
+  paymentTerms: "Payment terms",
+};
+
+/** Credit days that earn a full payment-terms score */
+const FULL_CREDIT_DAYS = 90;
+
+export interface ScorableQuote {
+  id: string;
+  leadTimeDays: number;
+  paymentTerms: string | null;
+  /** Total in the comparison currency; null without an exchange rate */
+  normalizedTotal: number | null;
+  qualityScore: number;
+  reliabilityScore: number;
+  certifications: string[];
+}
+
+export interface CriterionScore {
+  key: CriterionKey;
+  label: string;
+  direction: CriterionDirection;
+  weight: number;
+  /** The quote's own figure (price, score /10, days), null if unknown */
+  raw: number | null;
+  /** 0–1 after applying the direction, or null when the criterion does not apply */
+  value: number | null;
+  /** Points (0–100 scale) this criterion adds to the final score */
+  contribution: number;
+  detail: string;
+}
+
+export interface QuoteScore {
+  quoteId: string;
+  finalScore: number;
+  eligible: boolean;
+  violations: string[];
+  breakdown: CriterionScore[];
+  paymentTerms: ParsedPaymentTerms | null;
+}
+
+export interface ScoringOptions {
+  currency: string;
+  /** Line-by-line price scores (minimize direction), when every quote has lines */
+  lineScores?: Map<string, number> | null;
+}
+
+// ─── Profiles ─────────────────────────────────────────────────
+
+function mergeProfile(stored: {
+  criteria: unknown;
+  constraints: unknown;
+}): ComparisonProfile {
+  return {
+    criteria: {
+      ...DEFAULT_COMPARISON_PROFILE.criteria,
+      ...(stored.criteria as Partial<ComparisonProfile["criteria"]>),
+    },
+    constraints: {
+      ...DEFAULT_COMPARISON_PROFILE.constraints,
+      ...(stored.constraints as Partial<ComparisonProfile["constraints"]>),
+    },
+  };
+}
+
+/** The organisation's default profile */
+export async function getDefaultProfile(organizationId: string): Promise<ComparisonProfile> {
+  const row = await prisma.comparisonProfile.findUnique({
+    where: { organizationId },
+  });
+  return row ? mergeProfile(row) : DEFAULT_COMPARISON_PROFILE;
+}
+
+/** The RFQ's own profile, else its organisation's default */
+export async function getComparisonProfile(
+  rfq: Pick<Rfq, "id" | "organizationId">,
+): Promise<{ profile: ComparisonProfile; source: "rfq" | "default" }> {
+  const row = await prisma.comparisonProfile.findUnique({ where: { rfqId: rfq.id } });
+  if (row) return { profile: mergeProfile(row), source: "rfq" };
+  return { profile: await getDefaultProfile(rfq.organizationId), source: "default" };
+}
+
+export async function updateDefaultProfile(
+  organizationId: string,
+  profile: ComparisonProfile,
+  updatedById?: string,
+): Promise<ComparisonProfile> {
+  await prisma.comparisonProfile.upsert({
+    where: { organizationId },
+    create: { organizationId, ...profile, updatedById },
+    update: { ...profile, updatedById },
+  });
+  return profile;
+}
+
+export async function setRfqProfile(
+  rfqId: string,
+  profile: ComparisonProfile,
+  updatedById?: string,
+): Promise<ComparisonProfile> {
+  await prisma.comparisonProfile.upsert({
+    where: { rfqId },
+    create: { rfqId, ...profile, updatedById },
+    update: { ...profile, updatedById },
+  });
+  return profile;
+}
+
+/** Go back to the organisation default */
+export async function deleteRfqProfile(rfqId: string) {
+  await prisma.comparisonProfile.deleteMany({ where: { rfqId } });
+}
+
+// ─── Scoring ──────────────────────────────────────────────────
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** 1 for the best of the set, 0 for the worst, in the minimize sense */
+function relativeScore(value: number, values: number[]): number {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return max === min ? 1 : (max - value) / (max - min);
+}
+
+/** Compare certifications ignoring case and punctuation: "ISO-9001:2015" has "ISO 9001" */
+function certKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })} ${currency}`;
+}
+
+export function checkConstraints(
+  quote: ScorableQuote,
+  constraints: ComparisonProfile["constraints"],
+  currency: string,
+): string[] {
+  const violations: string[] = [];
+
+  const held = quote.certifications.map(certKey);
+  for (const required of constraints.requiredCertifications) {
+    const key = certKey(required);
+    if (key && !held.some((cert) => cert.includes(key))) {
+      violations.push(`Missing certification: ${required}`);
+    }
+  }
+
+  if (
+    constraints.maxLeadTimeDays !== null &&
+    quote.leadTimeDays > constraints.maxLeadTimeDays
+  ) {
+    violations.push(
+      `Lead time ${quote.leadTimeDays} days exceeds ${constraints.maxLeadTimeDays} days`,
+    );
+  }
+
+  if (constraints.budgetCeiling !== null) {
+    if (quote.normalizedTotal === null) {
+      violations.push(
+        `No exchange rate to check the budget ceiling in ${currency}`,
+      );
+    } else if (quote.normalizedTotal > constraints.budgetCeiling) {
+      violations.push(
+        `Total ${formatAmount(quote.normalizedTotal, currency)} exceeds the budget ceiling of ${formatAmount(constraints.budgetCeiling, currency)}`,
+      );
+    }
+  }
+
+  return violations;
+}
+
+export function scoreQuotes(
+  quotes: ScorableQuote[],
+  profile: ComparisonProfile,
+  options: ScoringOptions,
+): Map<string, QuoteScore> {
+  const { currency, lineScores } = options;
+  const totals = quotes
+    .map((q) => q.normalizedTotal)
+    .filter((t): t is number => t !== null);
+  const leadTimes = quotes.map((q) => q.leadTimeDays);
+
+  const scores = new Map<string, QuoteScore>();
+  for (const quote of quotes) {
+    const terms = parsePaymentTerms(quote.paymentTerms);
+    // Minimize-sense values; flipped below for criteria set to maximize
+    const raw: Array<
+      Omit<CriterionScore, "label" | "direction" | "weight" | "contribution">
+    > = [];
+
+    // Price
+    if (lineScores) {
+      const score = lineScores.get(quote.id);
+      raw.push({
+        key: "price",
+        raw: quote.normalizedTotal,
+        value: score ?? 0,
+        detail:
+          score === undefined
+            ? "No exact line offers to compare"
+            : "Compared line by line with the other offers",
+      });
+    } else if (quote.normalizedTotal === null) {
+      raw.push({
+        key: "price",
+        raw: null,
+        value: 0,
+        detail: `No exchange rate to ${currency}`,
+      });
+    } else {
+      raw.push({
+        key: "price",
+        raw: quote.normalizedTotal,
+        value: relativeScore(quote.normalizedTotal, totals),
+        detail: `${formatAmount(quote.normalizedTotal, currency)} against ${formatAmount(Math.min(...totals), currency)}–${formatAmount(Math.max(...totals), currency)}`,
+      });
+    }
+
+    // Quality and reliability: vendor scores out of 10, higher is better
+    raw.push({
+      key: "quality",
+      raw: quote.qualityScore,
+      value: 1 - clamp01(quote.qualityScore / 10),
+      detail: `${quote.qualityScore}/10`,
+    });
+
+    // Lead time
+    raw.push({
+      key: "leadTime",
+      raw: quote.leadTimeDays,
+      value: relativeScore(quote.leadTimeDays, leadTimes),
+      detail: `${quote.leadTimeDays} days against ${Math.min(...leadTimes)}–${Math.max(...leadTimes)}`,
+    });
+
+    raw.push({
+      key: "reliability",
+      raw: quote.reliabilityScore,
+      value: 1 - clamp01(quote.reliabilityScore / 10),
+      detail: `${quote.reliabilityScore}/10`,
+    });
+
+    // Payment terms (more credit is better)
+    raw.push(
+      terms
+        ? {
+            key: "paymentTerms",
+            raw: terms.effectiveDays,
+            value:
+              1 -
+              clamp01(
+                (terms.effectiveDays + ADVANCE_PENALTY_DAYS) /
+                  (FULL_CREDIT_DAYS + ADVANCE_PENALTY_DAYS),
+              ),
+            detail: terms.summary,
+          }
+        : {
+            key: "paymentTerms",
+            raw: null,
+            value: null,
+            detail: quote.paymentTerms
+              ? `Couldn't read "${quote.paymentTerms}"`
+              : "Not stated",
+          },
+    );
+
+    const breakdown = raw.map((entry) => {
+      const criterion = profile.criteria[entry.key];
+      return {
+        ...entry,
+        label: CRITERION_LABELS[entry.key],
+        direction: criterion.direction,
+        weight: criterion.weight,
+        value:
+          entry.value === null
+            ? null
+            : criterion.direction === "minimize"
+              ? entry.value
+              : 1 - entry.value,
+      };
+    });
+
+    const applicable = breakdown.filter((c) => c.value !== null);
+    const totalWeight = applicable.reduce((sum, c) => sum + c.weight, 0);
+    const scored: CriterionScore[] = breakdown.map((c) => ({
+      ...c,
+      value: c.value === null ? null : Math.round(c.value * 1000) / 1000,
+      contribution:
+        c.value === null || totalWeight === 0
+          ? 0
+          : round1(((c.weight * c.value) / totalWeight) * 100),
+    }));
+
+    const violations = checkConstraints(quote, profile.constraints, currency);
+    scores.set(quote.id, {
+      quoteId: quote.id,
+      finalScore:
+        totalWeight === 0
+          ? 0
+          : round1(
+              (applicable.reduce((sum, c) => sum + c.weight * c.value!, 0) /
+                totalWeight) *
+                100,
+            ),
+      eligible: violations.length === 0,
+      violations,
+      breakdown: scored,
+      paymentTerms: terms,
+    });
+  }
+  return scores;
+}
+
+/** Eligible quotes first, then by score */
+export function compareScores(a: QuoteScore, b: QuoteScore): number {
+  if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+  return b.finalScore - a.finalScore;
+}
+
+export interface RankedQuote {
+  quoteId: string;
+  eligible: boolean;
+  normalizedTotalPrice: number | null;
+  qualityScore: number;
+  leadTimeDays: number;
+}
+
+function lowest<T>(items: T[], by: (item: T) => number): T | undefined {
+  return items.reduce<T | undefined>(
+    (best, item) => (best === undefined || by(item) < by(best) ? item : best),
+    undefined,
+  );
+}
+
+/**
+ * Recommendation labels for the comparison table (ranked best first): the
+ * top eligible quote is the best choice, other quotes are called out for the
+ * criterion they lead on, and the runner-up is a good alternative.
+ */
+export function recommendationLabels(
+  ranked: RankedQuote[],
+): Map<string, string> {
+  const labels = new Map<string, string>();
+  const eligible = ranked.filter((r) => r.eligible);
+  if (eligible.length === 0) return labels;
+
+  const callouts: Array<[string, RankedQuote | undefined]> = [
+    ["Best Choice", eligible[0]],
+    [
+      "Lowest Price",
+      lowest(
+        eligible.filter((r) => r.normalizedTotalPrice !== null),
+        (r) => r.normalizedTotalPrice!,
+      ),
+    ],
+    ["Best Quality", lowest(eligible, (r) => -r.qualityScore)],
+    ["Fastest Delivery", lowest(eligible, (r) => r.leadTimeDays)],
+    ["Good Alternative", eligible[1]],
+  ];
+  for (const [label, quote] of callouts) {
+    if (quote && !labels.has(quote.quoteId)) labels.set(quote.quoteId, label);
+  }
+  return labels;
+}
+
+// ─── RFQ comparison ───────────────────────────────────────────
+
+/** An RFQ's quotes ranked under its profile, with the line matrix and benchmark; null if no RFQ */
+export async function compareRfqQuotes(rfqId: string) {
+  const rfq = await prisma.rfq.findUnique({
+    where: { id: rfqId },
+    include: { lineItems: true },
+  });
+  if (!rfq) return null;
+
+  const quotes = await prisma.quote.findMany({
+    where: { rfqId },
+    include: {
+      vendor: { include: { certifications: true } },
+      lineItems: true,
+    },
+    orderBy: { totalPrice: "asc" },
+  });
+
+  if (quotes.length === 0) {
+    return { rfq, quotes: [], comparison: null, lineMatrix: [], splitAward: null };
+  }
+
+  // Normalize every quote to the RFQ's budget currency before ranking;
+  // the original price and currency are returned alongside
+  const targetCurrency = rfq.budgetCurrency;
+  const [rates, benchmark] = await Promise.all([
+    loadRateTable(),
+    // Unit prices only map to one market when the RFQ is for a single product
+    rfq.lineItems.length === 1
+      ? getPriceBenchmark(
+          { category: rfq.lineItems[0].productName, currency: targetCurrency },
+          rfq.organizationId,
+        )
+      : null,
+  ]);
+  const normalized = quotes.map((q) => ({
+    total: normalizeAmount(rates, q.totalPrice, q.currency, targetCurrency),
+    unit: normalizeAmount(rates, q.unitPrice, q.currency, targetCurrency),
+  }));
+
+  const lineMatrix = buildLineMatrix(rfq.lineItems, quotes, rates, targetCurrency);
+  // Totals of partial bids aren't comparable; score prices line by line
+  // unless some quote predates line items
+  const lineScores = quotes.every((q) => q.lineItems.length > 0)
+    ? linePriceScores(lineMatrix)
+    : null;
+
+  const { profile, source } = await getComparisonProfile(rfq);
+  const scores = scoreQuotes(
+    quotes.map((q, i) => ({
+      id: q.id,
+      leadTimeDays: q.leadTimeDays,
+      paymentTerms: q.paymentTerms,
+      normalizedTotal: normalized[i].total.normalizedAmount,
+      qualityScore: q.vendor.qualityScore,
+      reliabilityScore: q.vendor.reliabilityScore,
+      certifications: q.vendor.certifications.map((c) => c.name),
+    })),
+    profile,
+    { currency: targetCurrency, lineScores },
+  );
+  const risks = await assessSupplierRisk(rfq, quotes, rates, targetCurrency);
+
+  const comparison = quotes.map((q, i) => {
+    const { total, unit } = normalized[i];
+    const score = scores.get(q.id)!;
+    const linesQuoted = new Set(q.lineItems.map((l) => l.rfqLineItemId)).size;
+
+    return {
+      quoteId: q.id,
+      vendorId: q.vendorId,
+      vendorName: q.vendor.companyName,
+      country: q.vendor.country,
+      totalPrice: q.totalPrice,
+      unitPrice: q.unitPrice,
+      currency: q.currency,
+      normalizedTotalPrice: total.normalizedAmount,
+      normalizedUnitPrice: unit.normalizedAmount,
+      normalizedCurrency: targetCurrency,
+      exchangeRate: total.rate,
+      linesQuoted,
+      partial: q.lineItems.length > 0 && linesQuoted < rfq.lineItems.length,
+      alternates: q.lineItems.filter((l) => l.isAlternate).length,
+      market:
+        benchmark && unit.normalizedAmount !== null
+          ? evaluatePrice(benchmark, unit.normalizedAmount)
+          : null,
+      leadTimeDays: q.leadTimeDays,
+      qualityScore: q.vendor.qualityScore,
+      reliabilityScore: q.vendor.reliabilityScore,
+      certifications: q.vendor.certifications.map((c) => c.name),
+      paymentTerms: q.paymentTerms,
+      parsedPaymentTerms: score.paymentTerms,
+      finalScore: score.finalScore, // 0–100
+      eligible: score.eligible,
+      violations: score.violations,
+      breakdown: score.breakdown,
+      risk: risks.get(q.id)!,
+      rank: 0,
+      recommendation: null as string | null,
+    };
+  });
+
+  // Quotes breaking a hard constraint rank after the rest
+  comparison.sort((a, b) => compareScores(scores.get(a.quoteId)!, scores.get(b.quoteId)!));
+  const labels = recommendationLabels(comparison);
+  comparison.forEach((c, i) => {
+    c.rank = i + 1;
+    c.recommendation = labels.get(c.quoteId) ?? null;
+  });
+
+  const missingRates = [
+    ...new Set(
+      comparison.filter((c) => c.normalizedTotalPrice === null).map((c) => c.currency),
+    ),
+  ];
+
+  return {
+    rfq,
+    quotes,
+    comparison,
+    currency: targetCurrency,
+    missingRates,
+    profile: { ...profile, source },
+    lineMatrix,
+    splitAward: rfq.lineItems.length > 1 ? recommendSplitAward(lineMatrix, targetCurrency) : null,
+    benchmark: benchmark?.stats
+      ? {
+          category: benchmark.category,
+          sampleSize: benchmark.sampleSize,
+          median: benchmark.stats.percentiles.p50,
+          p25: benchmark.stats.percentiles.p25,
+          p75: benchmark.stats.percentiles.p75,
+        }
+      : null,
+  };
+}
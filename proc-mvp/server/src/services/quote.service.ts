@@ -0,0 +1,284 @@
+/**
+ * Quote Service — creating quotes and storing their attachments.
+ *
+ * Quotes come from buyers (POST /api/quotes) or from vendors through the
+ * RFQ portal (rfq-dispatch.service.ts); both go through createQuote so the
+ * price benchmark and the RFQ's status are updated the same way. Prices are
+ * given per RFQ line item (QuoteLineItem); the quote's unit and total price
+ * are derived from them.
+ *
+ * Attachments are written to UPLOAD_DIR (default ./uploads) under
+ * quotes/<quoteId>/ with a generated name; the original name is kept on the
+ * QuoteAttachment row.
+ */
+
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type { RfqLineItem } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type { CreateQuoteInput, QuoteLineInput } from "../schemas/quote.schema.js";
+import { recordQuoteObservation } from "./price-benchmark.service.js";
+import { OPEN_FOR_QUOTES, transitionRfq } from "./rfq-lifecycle.service.js";
+
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_FILES = 5;
+export const ATTACHMENT_EXTENSIONS = [
+  ".pdf",
+  ".doc",
+  ".docx",
+  ".xls",
+  ".xlsx",
+  ".csv",
+  ".txt",
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".zip",
+];
+
+const quoteInclude = {
+  vendor: true,
+  rfq: { include: { lineItems: true } },
+  lineItems: true,
+} as const;
+
+type QuoteTerms = Omit<CreateQuoteInput, "rfqId" | "vendorId">;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Line rows for a quote, checked against the RFQ's line items, and the
+ * quote's summary prices. Each RFQ line counts once in the summary: its
+ * exact offer, else its alternate.
+ */
+export function priceQuoteLines(rfqLines: RfqLineItem[], lines: QuoteLineInput[]) {
+  const byId = new Map(rfqLines.map((item) => [item.id, item]));
+  const seen = new Set<string>();
+
+  const rows = lines.map((line) => {
+    const item = byId.get(line.rfqLineItemId);
+    if (!item) throw new Error("Quote line items must belong to the quote's RFQ");
+    const key = `${item.id}:${line.isAlternate}`;
+    if (seen.has(key)) {
+      throw new Error(`"${item.productName}" is priced twice${line.isAlternate ? " as an alternate" : ""}`);
+    }
+    seen.add(key);
+
+    const quantity = line.quantity ?? item.quantity;
+    return {
+      rfqLineItemId: item.id,
+      unitPrice: line.unitPrice,
+      quantity,
+      totalPrice: round(line.unitPrice * quantity, 2),
+      isAlternate: line.isAlternate,
+      description: line.isAlternate ? line.description : undefined,
+      notes: line.notes,
+    };
+  });
+
+  const counted = rfqLines
+    .map(
+      (item) =>
+        rows.find((r) => r.rfqLineItemId === item.id && !r.isAlternate) ??
+        rows.find((r) => r.rfqLineItemId === item.id),
+    )
+    .filter((row) => row !== undefined);
+  const totalPrice = round(counted.reduce((sum, row) => sum + row.totalPrice, 0), 2);
+  const quantity = counted.reduce((sum, row) => sum + row.quantity, 0);
+
+  return { rows, totalPrice, unitPrice: round(totalPrice / quantity, 4) };
+}
+
+/**
+ * Prices and line rows for a quote's terms. Without line items the given
+ * unit and total price stand; on a single-product RFQ they become its line.
+ */
+async function quoteLineData(rfqId: string, terms: QuoteTerms) {
+  const rfqLines = await prisma.rfqLineItem.findMany({ where: { rfqId } });
+  if (terms.lineItems?.length) return priceQuoteLines(rfqLines, terms.lineItems);
+
+  const unitPrice = terms.unitPrice!;
+  const totalPrice = terms.totalPrice!;
+  const rows =
+    rfqLines.length === 1
+      ? [
+          {
+            rfqLineItemId: rfqLines[0].id,
+            unitPrice,
+            quantity: rfqLines[0].quantity,
+            totalPrice,
+            isAlternate: false,
+          },
+        ]
+      : [];
+  return { rows, unitPrice, totalPrice };
+}
+
+/**
+ * Create a quote on an RFQ that was sent and is still open, record it for
+ * price benchmarks and move a SENT RFQ to QUOTING
+ */
+export async function createQuote(data: CreateQuoteInput) {
+  const rfq = await prisma.rfq.findUnique({ where: { id: data.rfqId }, select: { status: true } });
+  if (!rfq) throw new Error("RFQ not found");
+  if (!OPEN_FOR_QUOTES.includes(rfq.status)) {
+    throw new Error(`A ${rfq.status} RFQ does not take quotes`);
+  }
+
+  const { lineItems: _lines, ...terms } = data;
+  const { rows, unitPrice, totalPrice } = await quoteLineData(data.rfqId, data);
+
+  const quote = await prisma.quote.create({
+    data: {
+      ...terms,
+      unitPrice,
+      totalPrice,
+      validUntil: data.validUntil ? new Date(data.validUntil) : undefined,
+      lineItems: { create: rows },
+    },
+    include: quoteInclude,
+  });
+  await recordQuoteObservation(quote);
+
+  if (quote.rfq.status === "SENT") {
+    // Another change to the RFQ's status takes precedence; the quote stands either way
+    await transitionRfq(quote.rfq, "QUOTING", { reason: "First quote received" }).catch(
+      (err: unknown) => console.warn(`[Quote] ${quote.rfq.rfqNumber} not moved to QUOTING:`, err),
+    );
+  }
+
+  return quote;
+}
+
+/** Replace a quote's terms and lines, e.g. when a vendor resubmits through the portal */
+export async function reviseQuote(id: string, data: QuoteTerms) {
+  const existing = await prisma.quote.findUnique({
+    where: { id },
+    select: { rfqId: true, status: true },
+  });
+  if (!existing) throw new Error("Quote not found");
+
+  const { lineItems: _lines, ...terms } = data;
+  const { rows, unitPrice, totalPrice } = await quoteLineData(existing.rfqId, data);
+
+  const quote = await prisma.quote.update({
+    where: { id },
+    data: {
+      ...terms,
+      unitPrice,
+      totalPrice,
+      validUntil: data.validUntil ? new Date(data.validUntil) : null,
+      // A revision during negotiation is the vendor's answer, not a new quote
+      status: existing.status === "NEGOTIATING" ? "NEGOTIATING" : "RECEIVED",
+      receivedAt: new Date(),
+      lineItems: { deleteMany: {}, create: rows },
+    },
+    include: quoteInclude,
+  });
+
+  // The benchmark keeps the latest prices of each quote only
+  await prisma.priceObservation.deleteMany({ where: { source: "quote", sourceRef: id } });
+  await recordQuoteObservation(quote);
+  return quote;
+}
+
+/**
+ * Set a quote's total, e.g. to a negotiated price: every line's price moves
+ * by the same factor, so line-by-line comparison stays consistent.
+ */
+export async function repriceQuote(id: string, totalPrice: number) {
+  const existing = await prisma.quote.findUnique({ where: { id }, include: { lineItems: true } });
+  if (!existing) throw new Error("Quote not found");
+
+  const factor = totalPrice / existing.totalPrice;
+  const quote = await prisma.quote.update({
+    where: { id },
+    data: {
+      totalPrice: round(totalPrice, 2),
+      unitPrice: round(existing.unitPrice * factor, 4),
+      lineItems: {
+        update: existing.lineItems.map((line) => ({
+          where: { id: line.id },
+          data: {
+            unitPrice: round(line.unitPrice * factor, 4),
+            totalPrice: round(line.totalPrice * factor, 2),
+          },
+        })),
+      },
+    },
+    include: quoteInclude,
+  });
+
+  await prisma.priceObservation.deleteMany({ where: { source: "quote", sourceRef: id } });
+  await recordQuoteObservation(quote);
+  return quote;
+}
+
+// ─── Attachments ──────────────────────────────────────────────
+
+export interface AttachmentUpload {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+function uploadDir(): string {
+  return path.resolve(process.env.UPLOAD_DIR || "uploads");
+}
+
+/** Throws if a file is too large or of a type we don't accept */
+export function assertValidAttachments(files: AttachmentUpload[]) {
+  if (files.length > ATTACHMENT_MAX_FILES) {
+    throw new Error(`At most ${ATTACHMENT_MAX_FILES} files can be attached`);
+  }
+  for (const file of files) {
+    const ext = path.extname(file.filename).toLowerCase();
+    if (!ATTACHMENT_EXTENSIONS.includes(ext)) {
+      throw new Error(`"${file.filename}": file type not accepted`);
+    }
+    if (file.content.length > ATTACHMENT_MAX_BYTES) {
+      throw new Error(`"${file.filename}" is larger than ${ATTACHMENT_MAX_BYTES / 1024 / 1024} MB`);
+    }
+  }
+}
+
+export async function storeQuoteAttachments(quoteId: string, files: AttachmentUpload[]) {
+  assertValidAttachments(files);
+
+  const saved = [];
+  for (const file of files) {
+    const storagePath = path.join(
+      "quotes",
+      quoteId,
+      `${randomUUID()}${path.extname(file.filename).toLowerCase()}`,
+    );
+    const absolute = path.join(uploadDir(), storagePath);
+    await fs.mkdir(path.dirname(absolute), { recursive: true });
+    await fs.writeFile(absolute, file.content);
+
+    saved.push(
+      await prisma.quoteAttachment.create({
+        data: {
+          quoteId,
+          filename: path.basename(file.filename).slice(0, 255),
+          contentType: file.contentType,
+          size: file.content.length,
+          storagePath,
+        },
+      }),
+    );
+  }
+  return saved;
+}
+
+/** Absolute path of a stored attachment */
+export function attachmentPath(storagePath: string): string {
+  const root = uploadDir();
+  const absolute = path.resolve(root, storagePath);
+  if (!absolute.startsWith(root + path.sep)) throw new Error("Invalid attachment path");
+  return absolute;
+}
@@ -0,0 +1,246 @@
+/**
+ * RFQ Approval Service — an approval stage between DRAFT and SENT.
+ *
+ * An RFQ needs approval when its budgetMax is above the policy's threshold
+ * (converted into the threshold's currency) or its priority is URGENT. Such
+ * RFQs go DRAFT → PENDING_APPROVAL → APPROVED before they can be sent; a
+ * rejection returns them to DRAFT with the reason, and changing the budget,
+ * priority or line items of a submitted or approved RFQ revokes it the same
+ * way. RFQs under the threshold are sent straight from DRAFT, as before.
+ *
+ * ADMINs and the users on the policy's approver list may approve, except
+ * on an RFQ they requested themselves — otherwise a requester who is also an
+ * approver would clear their own budget. Every
+ * step is recorded as an RfqApprovalEvent, next to the RfqStatusEvent the
+ * lifecycle records for the move (rfq-lifecycle.service.ts); the policy
+ * itself is stored per organisation in RfqApprovalConfig.
+ */
+
+import type { Rfq, RfqApprovalAction, RfqStatus } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type { AuthPayload } from "../middleware/auth.js";
+import type { ApprovalPolicyInput } from "../schemas/rfq.schema.js";
+import { convertAmount, getReportingCurrency, loadRateTable } from "./currency.service.js";
+import { recordTransition } from "./rfq-lifecycle.service.js";
+
+export type ApprovalPolicy = ApprovalPolicyInput;
+
+/** Statuses only the approval endpoints move an RFQ into */
+const APPROVAL_STATUSES: RfqStatus[] = ["PENDING_APPROVAL", "APPROVED"];
+
+type ApprovalFields = Pick<Rfq, "organizationId" | "budgetMax" | "budgetCurrency" | "priority">;
+
+export function defaultApprovalPolicy(): ApprovalPolicy {
+  return {
+    budgetThreshold: Number(process.env.RFQ_APPROVAL_THRESHOLD) || 50_000,
+    currency: getReportingCurrency(),
+    approverIds: [],
+  };
+}
+
+// ─── Policy ───────────────────────────────────────────────────
+
+/** The organisation's policy; its config row is keyed by the organisation's id */
+export async function getApprovalPolicy(organizationId: string): Promise<ApprovalPolicy> {
+  const config = await prisma.rfqApprovalConfig.findUnique({
+    where: { id: organizationId },
+  });
+  if (!config) return defaultApprovalPolicy();
+
+  return {
+    budgetThreshold: config.budgetThreshold,
+    currency: config.currency,
+    approverIds: config.approverIds,
+  };
+}
+
+export async function updateApprovalPolicy(
+  organizationId: string,
+  policy: ApprovalPolicy,
+  updatedById?: string,
+): Promise<ApprovalPolicy> {
+  const approverIds = [...new Set(policy.approverIds)];
+  const found = await prisma.membership.count({
+    where: { organizationId, userId: { in: approverIds } },
+  });
+  if (found !== approverIds.length) throw new Error("Some approvers are not members");
+
+  const data = { ...policy, approverIds, updatedById };
+  await prisma.rfqApprovalConfig.upsert({
+    where: { id: organizationId },
+    create: { id: organizationId, ...data },
+    update: data,
+  });
+  return { ...policy, approverIds };
+}
+
+export function canApprove(
+  user: AuthPayload,
+  policy: ApprovalPolicy,
+  rfq: Pick<Rfq, "requestedById">,
+): boolean {
+  if (user.userId === rfq.requestedById) return false;
+  return user.role === "ADMIN" || policy.approverIds.includes(user.userId);
+}
+
+// ─── Rules ────────────────────────────────────────────────────
+
+/** Why the RFQ needs approval; empty when it doesn't */
+export async function approvalReasons(
+  rfq: ApprovalFields,
+  policy?: ApprovalPolicy,
+): Promise<string[]> {
+  const { budgetThreshold, currency } = policy ?? (await getApprovalPolicy(rfq.organizationId));
+  const reasons: string[] = [];
+
+  if (rfq.priority === "URGENT") reasons.push("Urgent priority");
+
+  if (budgetThreshold !== null && rfq.budgetMax != null) {
+    const budget = convertAmount(
+      await loadRateTable(),
+      rfq.budgetMax,
+      rfq.budgetCurrency,
+      currency,
+    );
+    if (budget === null) {
+      reasons.push(
+        `No ${rfq.budgetCurrency}/${currency} exchange rate to check the budget against the threshold`,
+      );
+    } else if (budget > budgetThreshold) {
+      reasons.push(
+        `Budget of ${formatAmount(rfq.budgetMax, rfq.budgetCurrency)} is over the ` +
+          `${formatAmount(budgetThreshold, currency)} approval threshold`,
+      );
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Throws unless a status change made outside the approval endpoints keeps
+ * to the approval stage. `next` carries the RFQ's values after the change.
+ */
+export async function assertStatusChangeAllowed(
+  rfq: Rfq,
+  next: ApprovalFields & { status: RfqStatus },
+): Promise<void> {
+  if (next.status === rfq.status) return;
+
+  if (APPROVAL_STATUSES.includes(next.status)) {
+    throw new Error("Use submit, approve or reject to move an RFQ through approval");
+  }
+  if (next.status === "CANCELLED") return;
+  if (rfq.status === "PENDING_APPROVAL") {
+    throw new Error("The RFQ is waiting for approval");
+  }
+  if (rfq.status === "DRAFT" && (await approvalReasons(next)).length > 0) {
+    throw new Error("This RFQ needs approval before it can be sent");
+  }
+}
+
+/**
+ * Send a submitted or approved RFQ back to DRAFT when its budget, priority
+ * or line items change, since the approval no longer covers it.
+ */
+export async function revokeApprovalIfChanged(
+  rfq: Rfq,
+  changes: Partial<ApprovalFields> & { lineItems?: unknown[] },
+  actorId: string,
+): Promise<boolean> {
+  if (!APPROVAL_STATUSES.includes(rfq.status)) return false;
+
+  const changed: string[] = (["budgetMax", "budgetCurrency", "priority"] as const).filter(
+    (field) => changes[field] !== undefined && changes[field] !== rfq[field],
+  );
+  if (changes.lineItems) changed.push("line items");
+  if (changed.length === 0) return false;
+
+  await transition(rfq, "DRAFT", "REVOKED", actorId, `Changed ${changed.join(", ")}`);
+  return true;
+}
+
+// ─── Workflow ─────────────────────────────────────────────────
+
+export async function getRfqApproval(rfqId: string, user: AuthPayload) {
+  const rfq = await prisma.rfq.findUnique({ where: { id: rfqId } });
+  if (!rfq) throw new Error("RFQ not found");
+
+  const policy = await getApprovalPolicy(rfq.organizationId);
+  const [reasons, events] = await Promise.all([
+    approvalReasons(rfq, policy),
+    prisma.rfqApprovalEvent.findMany({
+      where: { rfqId },
+      include: { actor: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  return {
+    required: reasons.length > 0,
+    reasons,
+    canApprove: canApprove(user, policy, rfq),
+    events,
+  };
+}
+
+export async function submitForApproval(rfqId: string, actorId: string, comment?: string) {
+  const rfq = await prisma.rfq.findUnique({ where: { id: rfqId } });
+  if (!rfq) throw new Error("RFQ not found");
+  if (rfq.status !== "DRAFT") throw new Error(`A ${rfq.status} RFQ cannot be submitted`);
+
+  const reasons = await approvalReasons(rfq);
+  if (reasons.length === 0) {
+    throw new Error("This RFQ does not need approval and can be sent directly");
+  }
+  return transition(rfq, "PENDING_APPROVAL", "SUBMITTED", actorId, comment);
+}
+
+export async function approveRfq(rfqId: string, actorId: string, comment?: string) {
+  const rfq = await prisma.rfq.findUnique({ where: { id: rfqId } });
+  if (!rfq) throw new Error("RFQ not found");
+  if (rfq.status !== "PENDING_APPROVAL") throw new Error("The RFQ is not waiting for approval");
+
+  return transition(rfq, "APPROVED", "APPROVED", actorId, comment);
+}
+
+export async function rejectRfq(rfqId: string, actorId: string, comment: string) {
+  const rfq = await prisma.rfq.findUnique({ where: { id: rfqId } });
+  if (!rfq) throw new Error("RFQ not found");
+  if (rfq.status !== "PENDING_APPROVAL") throw new Error("The RFQ is not waiting for approval");
+
+  return transition(rfq, "DRAFT", "REJECTED", actorId, comment);
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** Move the RFQ and record both events; fails if its status changed meanwhile */
+async function transition(
+  rfq: Rfq,
+  toStatus: RfqStatus,
+  action: RfqApprovalAction,
+  actorId: string,
+  comment?: string,
+) {
+  const event = await prisma.$transaction(async (tx) => {
+    await recordTransition(tx, rfq, toStatus, { actorId, reason: comment });
+
+    return tx.rfqApprovalEvent.create({
+      data: {
+        rfqId: rfq.id,
+        action,
+        fromStatus: rfq.status,
+        toStatus,
+        actorId,
+        comment: comment?.trim() || null,
+      },
+    });
+  });
+
+  console.log(`[RfqApproval] ${rfq.rfqNumber} ${action}: ${rfq.status} → ${toStatus} by ${actorId}`);
+  return event;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })} ${currency}`;
+}
@@ -0,0 +1,355 @@
+/**
+ * RFQ Dispatch Service — sending an RFQ to vendors and the vendor quote portal.
+ *
+ * Dispatch gives each picked vendor an RfqInvitation with a random token and
+ * emails them the rfq_invitation template (or a chosen email template), whose
+ * {{portalLink}} is PORTAL_BASE_URL/portal/<token>. Once any email goes out
+ * the RFQ is SENT, with the deadline as its quoteDeadline. Sending again
+ * keeps each vendor's token, so links already delivered keep working.
+ *
+ * The portal is unauthenticated; the token is the credential. Vendors see
+ * the RFQ's line items (not the budget or internal notes) and can submit
+ * until the deadline, pricing all or some lines and offering alternates.
+ * Submitting creates their Quote, and submitting again revises it while the
+ * buyer hasn't acted on it. During a negotiation vendors can also revise
+ * after the deadline; the revision answers the open counter-offer.
+ */
+
+import { randomBytes } from "crypto";
+import type { Prisma, RfqInvitationStatus } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type { DispatchRfqInput } from "../schemas/rfq.schema.js";
+import type { PortalQuoteInput } from "../schemas/portal.schema.js";
+import { isEmailConfigured } from "./email.service.js";
+import { sendOutreach } from "./outreach.service.js";
+import { resolveTemplate, templateVariablesIn } from "./message-template.service.js";
+import { recordPortalRevision } from "./negotiation.service.js";
+import { approvalReasons } from "./rfq-approval.service.js";
+import { transitionRfq } from "./rfq-lifecycle.service.js";
+import {
+  createQuote,
+  reviseQuote,
+  storeQuoteAttachments,
+  assertValidAttachments,
+  ATTACHMENT_MAX_FILES,
+  type AttachmentUpload,
+} from "./quote.service.js";
+
+const INVITATION_TEMPLATE_KEY = "rfq_invitation";
+
+/** RFQs in these states can be sent (again); DRAFT only when no approval is needed */
+const DISPATCHABLE = ["DRAFT", "APPROVED", "SENT", "QUOTING"];
+/** The portal stops accepting quotes once the RFQ reaches one of these */
+const CLOSED = ["COMPLETED", "CANCELLED"];
+/** Quotes in these states may still be revised by the vendor */
+const REVISABLE = ["RECEIVED", "UNDER_REVIEW", "NEGOTIATING"];
+
+export interface DispatchResult {
+  invitationId: string;
+  vendorId: string;
+  vendorName: string;
+  status: RfqInvitationStatus;
+  error: string | null;
+}
+
+export function portalUrl(token: string): string {
+  const base = process.env.PORTAL_BASE_URL || process.env.CLIENT_URL || "http://localhost:5173";
+  return `${base.replace(/\/+$/, "")}/portal/${token}`;
+}
+
+function newToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+// ─── Dispatch ─────────────────────────────────────────────────
+
+export async function dispatchRfq(
+  rfqId: string,
+  input: DispatchRfqInput,
+  userId: string,
+): Promise<{ sent: number; failed: number; results: DispatchResult[] }> {
+  const rfq = await prisma.rfq.findUnique({ where: { id: rfqId } });
+  if (!rfq) throw new Error("RFQ not found");
+  if (!DISPATCHABLE.includes(rfq.status)) {
+    throw new Error(`A ${rfq.status} RFQ cannot be sent`);
+  }
+  if (rfq.status === "DRAFT") {
+    const reasons = await approvalReasons(rfq);
+    if (reasons.length > 0) {
+      throw new Error(`Needs approval before it can be sent: ${reasons.join("; ")}`);
+    }
+  }
+
+  const deadline = new Date(input.deadline);
+  if (deadline <= new Date()) throw new Error("Deadline must be in the future");
+  if (!isEmailConfigured()) throw new Error("Email (SendGrid) not configured");
+
+  const template = await resolveTemplate(
+    {
+      templateId: input.templateId,
+      key: input.templateId ? undefined : INVITATION_TEMPLATE_KEY,
+      channel: "EMAIL",
+    },
+    rfq.organizationId,
+  );
+  if (!template) {
+    throw new Error(
+      input.templateId
+        ? "Template not found"
+        : `No active "${INVITATION_TEMPLATE_KEY}" email template`,
+    );
+  }
+  if (!templateVariablesIn(template.version.subject, template.version.body).includes("portalLink")) {
+    throw new Error(`Template "${template.template.name}" has no {{portalLink}} for vendors to quote through`);
+  }
+
+  const vendorIds = [...new Set(input.vendorIds)];
+  const vendors = await prisma.vendor.findMany({
+    where: { id: { in: vendorIds }, organizationId: rfq.organizationId },
+    include: { contacts: { where: { type: "email" } } },
+  });
+  const missing = vendorIds.filter((id) => !vendors.some((v) => v.id === id));
+  if (missing.length > 0) throw new Error(`Vendors not found: ${missing.join(", ")}`);
+
+  // The deadline is the RFQ's; earlier invitations move with it
+  await prisma.rfqInvitation.updateMany({ where: { rfqId }, data: { expiresAt: deadline } });
+
+  const results: DispatchResult[] = [];
+  for (const vendor of vendors) {
+    const invitation = await prisma.rfqInvitation.upsert({
+      where: { rfqId_vendorId: { rfqId, vendorId: vendor.id } },
+      create: { rfqId, vendorId: vendor.id, token: newToken(), expiresAt: deadline, sentById: userId },
+      update: { sentById: userId },
+    });
+
+    const outcome = await sendOutreach({
+      vendorId: vendor.id,
+      channel: "email",
+      templateId: template.template.id,
+      rfqId,
+      deadline: input.deadline,
+      customMessage: input.customMessage,
+      userId,
+      variables: {
+        portalLink: portalUrl(invitation.token),
+        ...(!rfq.requiredDeliveryDate && { deliveryDate: "To be agreed" }),
+      },
+    }).catch((err: unknown) => ({
+      success: false,
+      communicationId: undefined,
+      error: err instanceof Error ? err.message : "Unknown error",
+    }));
+
+    // A vendor who already opened or answered the link keeps that status
+    const progressed = invitation.status === "VIEWED" || invitation.status === "SUBMITTED";
+    const updated = await prisma.rfqInvitation.update({
+      where: { id: invitation.id },
+      data: outcome.success
+        ? {
+            status: progressed ? invitation.status : "SENT",
+            sentAt: new Date(),
+            recipient: vendor.contacts[0]?.value,
+            communicationId: outcome.communicationId,
+            error: null,
+          }
+        : {
+            status: progressed ? invitation.status : "FAILED",
+            error: outcome.error ?? "Send failed",
+          },
+    });
+
+    results.push({
+      invitationId: updated.id,
+      vendorId: vendor.id,
+      vendorName: vendor.companyName,
+      status: updated.status,
+      error: updated.error,
+    });
+  }
+
+  const sent = results.filter((r) => !r.error).length;
+  if (sent > 0 && (rfq.status === "DRAFT" || rfq.status === "APPROVED")) {
+    await transitionRfq(rfq, "SENT", {
+      actorId: userId,
+      reason: `Sent to ${sent} vendor${sent === 1 ? "" : "s"}`,
+      data: { quoteDeadline: deadline },
+    });
+  } else if (sent > 0) {
+    await prisma.rfq.update({ where: { id: rfqId }, data: { quoteDeadline: deadline } });
+  }
+
+  console.log(`[RfqDispatch] ${rfq.rfqNumber}: sent ${sent}/${results.length}`);
+  return { sent, failed: results.length - sent, results };
+}
+
+export async function listInvitations(rfqId: string) {
+  return prisma.rfqInvitation.findMany({
+    where: { rfqId },
+    include: {
+      vendor: { select: { id: true, companyName: true, country: true } },
+      quote: {
+        select: {
+          id: true,
+          totalPrice: true,
+          currency: true,
+          status: true,
+          attachments: { select: { id: true, filename: true, size: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+// ─── Vendor portal ────────────────────────────────────────────
+
+const portalInclude = {
+  rfq: { include: { lineItems: true, organization: { select: { name: true } } } },
+  vendor: { select: { companyName: true } },
+  quote: {
+    include: { lineItems: true, attachments: { orderBy: { uploadedAt: "asc" } } },
+  },
+} satisfies Prisma.RfqInvitationInclude;
+
+type PortalInvitation = Prisma.RfqInvitationGetPayload<{ include: typeof portalInclude }>;
+
+function closedReason(invitation: PortalInvitation): string | null {
+  if (CLOSED.includes(invitation.rfq.status)) return "This RFQ is closed";
+  if (invitation.expiresAt <= new Date() && invitation.quote?.status !== "NEGOTIATING") {
+    return "The deadline for this RFQ has passed";
+  }
+  if (invitation.quote && !REVISABLE.includes(invitation.quote.status)) {
+    return "Your quote is already being processed";
+  }
+  return null;
+}
+
+/** What the vendor sees: the RFQ's requirements and their own last submission */
+function portalView(invitation: PortalInvitation) {
+  const { rfq, quote } = invitation;
+  const closed = closedReason(invitation);
+  return {
+    rfqNumber: rfq.rfqNumber,
+    companyName: rfq.organization.name,
+    vendorName: invitation.vendor.companyName,
+    deliveryLocation: rfq.deliveryLocation,
+    requiredDeliveryDate: rfq.requiredDeliveryDate,
+    qualityRequirements: rfq.qualityRequirements,
+    paymentTermsPreference: rfq.paymentTermsPreference,
+    currency: rfq.budgetCurrency,
+    deadline: invitation.expiresAt,
+    open: !closed,
+    closedReason: closed,
+    status: invitation.status,
+    submittedAt: invitation.submittedAt,
+    maxAttachments: ATTACHMENT_MAX_FILES,
+    lineItems: rfq.lineItems.map((item) => ({
+      id: item.id,
+      productName: item.productName,
+      specifications: item.specifications,
+      quantity: item.quantity,
+      unit: item.unit,
+    })),
+    quote: quote
+      ? {
+          currency: quote.currency,
+          totalPrice: quote.totalPrice,
+          lines: quote.lineItems.map((line) => ({
+            rfqLineItemId: line.rfqLineItemId,
+            unitPrice: line.unitPrice,
+            quantity: line.quantity,
+            totalPrice: line.totalPrice,
+            isAlternate: line.isAlternate,
+            description: line.description,
+            notes: line.notes,
+          })),
+          leadTimeDays: quote.leadTimeDays,
+          paymentTerms: quote.paymentTerms,
+          validUntil: quote.validUntil,
+          notes: quote.notes,
+          attachments: quote.attachments.map((a) => ({
+            id: a.id,
+            filename: a.filename,
+            size: a.size,
+          })),
+        }
+      : null,
+  };
+}
+
+export type PortalView = ReturnType<typeof portalView>;
+
+/** Load the portal for a token, marking the invitation viewed; null if unknown */
+export async function openPortal(token: string): Promise<PortalView | null> {
+  let invitation = await prisma.rfqInvitation.findUnique({ where: { token }, include: portalInclude });
+  if (!invitation) return null;
+
+  if (!invitation.viewedAt) {
+    invitation = await prisma.rfqInvitation.update({
+      where: { id: invitation.id },
+      data: {
+        viewedAt: new Date(),
+        ...(invitation.status !== "SUBMITTED" && { status: "VIEWED" }),
+      },
+      include: portalInclude,
+    });
+  }
+  return portalView(invitation);
+}
+
+/**
+ * Create or revise the vendor's quote from the portal form. Vendors may
+ * price only some line items (partial bid) and offer alternates.
+ */
+export async function submitPortalQuote(
+  token: string,
+  input: PortalQuoteInput,
+  files: AttachmentUpload[],
+): Promise<PortalView | null> {
+  const invitation = await prisma.rfqInvitation.findUnique({ where: { token }, include: portalInclude });
+  if (!invitation) return null;
+
+  const closed = closedReason(invitation);
+  if (closed) throw new Error(closed);
+
+  if (new Date(`${input.validUntil}T23:59:59.999Z`) < new Date()) {
+    throw new Error("The quote must be valid until a future date");
+  }
+  assertValidAttachments(files);
+  const existingFiles = invitation.quote?.attachments.length ?? 0;
+  if (existingFiles + files.length > ATTACHMENT_MAX_FILES * 2) {
+    throw new Error(`At most ${ATTACHMENT_MAX_FILES * 2} files can be attached to a quote`);
+  }
+
+  const terms = {
+    lineItems: input.lines,
+    currency: input.currency,
+    leadTimeDays: input.leadTimeDays,
+    paymentTerms: input.paymentTerms,
+    notes: input.notes,
+    validUntil: new Date(`${input.validUntil}T23:59:59.999Z`).toISOString(),
+  };
+  const quote = invitation.quote
+    ? await reviseQuote(invitation.quote.id, terms)
+    : await createQuote({ ...terms, rfqId: invitation.rfqId, vendorId: invitation.vendorId });
+
+  if (files.length > 0) await storeQuoteAttachments(quote.id, files);
+  if (invitation.quote?.status === "NEGOTIATING") await recordPortalRevision(quote.id);
+
+  const updated = await prisma.rfqInvitation.update({
+    where: { id: invitation.id },
+    data: {
+      status: "SUBMITTED",
+      submittedAt: new Date(),
+      quoteId: quote.id,
+    },
+    include: portalInclude,
+  });
+
+  console.log(
+    `[RfqDispatch] ${invitation.vendor.companyName} ${invitation.quote ? "revised" : "submitted"} ` +
+      `a quote for ${invitation.rfq.rfqNumber}: ${quote.totalPrice} ${quote.currency} ` +
+      `(${new Set(quote.lineItems.map((l) => l.rfqLineItemId)).size}/${quote.rfq.lineItems.length} lines)`,
+  );
+  return portalView(updated);
+}
@@ -0,0 +1,175 @@
+/**
+ * RFQ Lifecycle Service — the status changes an RFQ may make, and what
+ * happens when it makes them.
+ *
+ * RFQ_TRANSITIONS lists the allowed moves; COMPLETED and CANCELLED are
+ * final. Every move goes through recordTransition, which changes the status
+ * only if it is still the one the caller read (so of two concurrent moves
+ * only one applies) and records an RfqStatusEvent with the actor and
+ * reason. Moves the system makes — dispatch marking the RFQ SENT, the first
+ * quote moving it to QUOTING — have no actor unless a user triggered them.
+ *
+ * Side effects:
+ * - Line items are locked once the RFQ is sent or has quotes, since vendors
+ *   price against them (assertLineItemsEditable).
+ * - Cancelling emails the rfq_cancelled template to every vendor the RFQ
+ *   reached; the portal already refuses quotes for a cancelled RFQ.
+ *
+ * Who may move an RFQ into or out of PENDING_APPROVAL and APPROVED is up to
+ * rfq-approval.service.ts, which records those moves here as well.
+ */
+
+import type { Prisma, Rfq, RfqStatus } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { sendOutreach } from "./outreach.service.js";
+
+const CANCELLED_TEMPLATE_KEY = "rfq_cancelled";
+
+export const RFQ_TRANSITIONS: Record<RfqStatus, RfqStatus[]> = {
+  DRAFT: ["PENDING_APPROVAL", "SENT", "CANCELLED"],
+  PENDING_APPROVAL: ["APPROVED", "DRAFT", "CANCELLED"],
+  APPROVED: ["SENT", "DRAFT", "CANCELLED"],
+  SENT: ["QUOTING", "COMPARING", "CANCELLED"],
+  QUOTING: ["NEGOTIATING", "COMPARING", "COMPLETED", "CANCELLED"],
+  NEGOTIATING: ["QUOTING", "COMPARING", "COMPLETED", "CANCELLED"],
+  COMPARING: ["NEGOTIATING", "COMPLETED", "CANCELLED"],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+/** Sent to vendors and not yet closed: quotes are taken and ordered in these states */
+export const OPEN_FOR_QUOTES: RfqStatus[] = ["SENT", "QUOTING", "NEGOTIATING", "COMPARING"];
+
+/** Line items can still be changed in these states (and only before any quote) */
+const LINE_ITEMS_EDITABLE: RfqStatus[] = ["DRAFT", "PENDING_APPROVAL", "APPROVED"];
+
+/** Invitations in these states reached the vendor, who is told of a cancellation */
+const NOTIFIED_INVITATIONS = ["SENT", "VIEWED", "SUBMITTED"] as const;
+
+type LifecycleRfq = Pick<Rfq, "id" | "rfqNumber" | "status">;
+
+export interface TransitionOptions {
+  /** User making the change; omitted for changes the system makes */
+  actorId?: string | null;
+  reason?: string;
+  /** Other columns to set together with the status */
+  data?: Omit<Prisma.RfqUpdateManyMutationInput, "status">;
+}
+
+export function canTransition(from: RfqStatus, to: RfqStatus): boolean {
+  return RFQ_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: RfqStatus, to: RfqStatus): void {
+  if (from === to) throw new Error(`The RFQ is already ${to}`);
+  if (!canTransition(from, to)) {
+    const allowed = RFQ_TRANSITIONS[from];
+    throw new Error(
+      allowed.length === 0
+        ? `A ${from} RFQ can no longer change status`
+        : `A ${from} RFQ can only move to ${allowed.join(", ")}`,
+    );
+  }
+}
+
+/** Throws unless a user may move the RFQ there by hand; dispatch alone marks it SENT */
+export function assertManualTransition(rfq: Pick<Rfq, "status">, to: RfqStatus): void {
+  if (to === "SENT") throw new Error("Send the RFQ to vendors to mark it SENT");
+  assertTransition(rfq.status, to);
+}
+
+/** Throws once vendors may be pricing the RFQ's line items */
+export async function assertLineItemsEditable(rfq: Pick<Rfq, "id" | "status">): Promise<void> {
+  if (!LINE_ITEMS_EDITABLE.includes(rfq.status)) {
+    throw new Error("Line items are locked once the RFQ has been sent");
+  }
+  const quotes = await prisma.quote.count({ where: { rfqId: rfq.id } });
+  if (quotes > 0) throw new Error("Line items are locked once the RFQ has quotes");
+}
+
+// ─── Transitions ──────────────────────────────────────────────
+
+/**
+ * Move the RFQ and record the event inside the caller's transaction; fails
+ * if the move isn't allowed or the status changed meanwhile. Side effects
+ * are left to transitionRfq.
+ */
+export async function recordTransition(
+  tx: Prisma.TransactionClient,
+  rfq: LifecycleRfq,
+  toStatus: RfqStatus,
+  options: TransitionOptions = {},
+) {
+  assertTransition(rfq.status, toStatus);
+
+  const { count } = await tx.rfq.updateMany({
+    where: { id: rfq.id, status: rfq.status },
+    data: { ...options.data, status: toStatus },
+  });
+  if (count === 0) throw new Error("The RFQ's status changed meanwhile; reload and try again");
+
+  return tx.rfqStatusEvent.create({
+    data: {
+      rfqId: rfq.id,
+      fromStatus: rfq.status,
+      toStatus,
+      actorId: options.actorId ?? null,
+      reason: options.reason?.trim() || null,
+    },
+  });
+}
+
+/** Move the RFQ, record the event and run the move's side effects */
+export async function transitionRfq(
+  rfq: LifecycleRfq,
+  toStatus: RfqStatus,
+  options: TransitionOptions = {},
+) {
+  const event = await prisma.$transaction((tx) => recordTransition(tx, rfq, toStatus, options));
+  console.log(
+    `[RfqLifecycle] ${rfq.rfqNumber}: ${rfq.status} → ${toStatus}` +
+      (options.actorId ? ` by ${options.actorId}` : ""),
+  );
+
+  if (toStatus === "CANCELLED") await notifyCancellation(rfq, options.actorId ?? null);
+  return event;
+}
+
+export async function listStatusEvents(rfqId: string) {
+  return prisma.rfqStatusEvent.findMany({
+    where: { rfqId },
+    include: { actor: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+// ─── Side effects ─────────────────────────────────────────────
+
+/** Tell the vendors the RFQ was sent to that it is cancelled; failures are only logged */
+async function notifyCancellation(rfq: LifecycleRfq, actorId: string | null) {
+  const invitations = await prisma.rfqInvitation.findMany({
+    where: { rfqId: rfq.id, status: { in: [...NOTIFIED_INVITATIONS] } },
+    select: { vendorId: true },
+  });
+
+  let sent = 0;
+  for (const { vendorId } of invitations) {
+    const outcome = await sendOutreach({
+      vendorId,
+      channel: "email",
+      template: CANCELLED_TEMPLATE_KEY,
+      rfqId: rfq.id,
+      userId: actorId,
+    }).catch((err: unknown) => ({
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    }));
+
+    if (outcome.success) sent++;
+    else console.warn(`[RfqLifecycle] ${rfq.rfqNumber}: cancellation to ${vendorId} failed: ${outcome.error}`);
+  }
+
+  if (invitations.length > 0) {
+    console.log(`[RfqLifecycle] ${rfq.rfqNumber}: cancellation sent to ${sent}/${invitations.length} vendors`);
+  }
+}
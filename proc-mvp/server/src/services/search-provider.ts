@@ -1,13 +1,28 @@
 /**
  * Web search abstraction for vendor discovery.
  *
- * Supports:
- * - SerpAPI (real Google search results)
- * - Mock provider (deterministic sample data for development)
+ * Providers are registered by name and can be combined per job:
+ * - serpapi     Google organic results (SERP_API_KEY)
+ * - bing        Bing Web Search API (BING_SEARCH_API_KEY)
+ * - duckduckgo  DuckDuckGo HTML results (no key)
+ * - alibaba / indiamart / thomasnet  B2B supplier directories (no key, opt-in)
+ * - mock        Deterministic sample data for development
  *
- * Auto-selects the best available provider based on environment variables.
+ * searchAllProviders() fans a query out to several providers and merges the
+ * results by website host, keeping track of which providers found each one.
+ * Provider implementations live in ./search-providers/.
  */
 
+import { createHttpFetcher, hostOf, type HttpFetcher } from "./search-providers/http.js";
+import { SerpApiProvider } from "./search-providers/serpapi.provider.js";
+import { BingSearchProvider } from "./search-providers/bing.provider.js";
+import { DuckDuckGoHtmlProvider } from "./search-providers/duckduckgo.provider.js";
+import {
+  MarketplaceDirectoryProvider,
+  MARKETPLACE_DIRECTORIES,
+} from "./search-providers/marketplace.provider.js";
+import { MockSearchProvider } from "./search-providers/mock.provider.js";
+
 export interface SearchResult {
   title: string;
   url: string;
@@ -16,149 +31,209 @@ export interface SearchResult {
 
 export interface SearchProvider {
   name: string;
+  label: string;
   search(query: string, maxResults?: number): Promise<SearchResult[]>;
 }
 
-// ─── SerpAPI Provider ─────────────────────────────────────────
+/** A merged result: the first provider's title/snippet plus every provider that returned the host */
+export interface MergedSearchResult extends SearchResult {
+  sources: string[];
+}
 
-export class SerpApiProvider implements SearchProvider {
-  name = "serpapi";
-  private apiKey: string;
+/** Per-provider outcome of one searchAllProviders() call, for the discovery trace */
+export interface ProviderTrace {
+  provider: string;
+  resultCount: number;
+  durationMs: number;
+  error?: string;
+}
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
+export interface SearchProviderInfo {
+  name: string;
+  label: string;
+  /** Configured and usable in this environment */
+  available: boolean;
+  /** Used when a job does not pick providers explicitly */
+  defaultEnabled: boolean;
+}
 
-  async search(query: string, maxResults = 10): Promise<SearchResult[]> {
-    const params = new URLSearchParams({
-      api_key: this.apiKey,
-      q: query,
-      num: String(maxResults),
-      engine: "google",
-    });
+// ─── Registry ─────────────────────────────────────────────────
 
-    const response = await fetch(
-      `https://serpapi.com/search?${params.toString()}`,
-    );
+interface RegistryEntry {
+  name: string;
+  label: string;
+  /** Returns null when the provider is not configured (e.g. missing API key) */
+  create(fetcher: HttpFetcher): SearchProvider | null;
+  /** Keyed providers are on by default once configured; scrapers are opt-in */
+  defaultEnabled: boolean;
+}
 
-    if (!response.ok) {
-      throw new Error(`SerpAPI search failed: ${response.statusText}`);
-    }
+const REGISTRY: RegistryEntry[] = [
+  {
+    name: "serpapi",
+    label: "Google (SerpAPI)",
+    create: (fetcher) =>
+      process.env.SERP_API_KEY
+        ? new SerpApiProvider(process.env.SERP_API_KEY, fetcher)
+        : null,
+    defaultEnabled: true,
+  },
+  {
+    name: "bing",
+    label: "Bing",
+    create: (fetcher) =>
+      process.env.BING_SEARCH_API_KEY
+        ? new BingSearchProvider(process.env.BING_SEARCH_API_KEY, fetcher)
+        : null,
+    defaultEnabled: true,
+  },
+  {
+    name: "duckduckgo",
+    label: "DuckDuckGo",
+    create: (fetcher) => new DuckDuckGoHtmlProvider(fetcher),
+    defaultEnabled: false,
+  },
+  ...MARKETPLACE_DIRECTORIES.map<RegistryEntry>((config) => ({
+    name: config.name,
+    label: config.label,
+    create: (fetcher) => new MarketplaceDirectoryProvider(config, fetcher),
+    defaultEnabled: false,
+  })),
+  {
+    name: "mock",
+    label: "Mock",
+    create: () => new MockSearchProvider(),
+    defaultEnabled: false,
+  },
+];
+
+export const SEARCH_PROVIDER_NAMES = REGISTRY.map((e) => e.name);
 
-    const data = (await response.json()) as {
-      organic_results?: Array<{
-        title?: string;
-        link?: string;
-        snippet?: string;
-      }>;
-    };
+/**
+ * Default provider set: SEARCH_PROVIDERS (comma-separated) if set,
+ * otherwise every configured keyed provider.
+ */
+function defaultProviderNames(): string[] {
+  const fromEnv = process.env.SEARCH_PROVIDERS?.split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  if (fromEnv?.length) return fromEnv;
 
-    const organicResults = data.organic_results || [];
+  return REGISTRY.filter((e) => e.defaultEnabled).map((e) => e.name);
+}
 
-    return organicResults.slice(0, maxResults).map((r) => ({
-      title: r.title || "",
-      url: r.link || "",
-      snippet: r.snippet || "",
-    }));
-  }
+export function listSearchProviders(): SearchProviderInfo[] {
+  const fetcher = createHttpFetcher();
+  const defaults = new Set(defaultProviderNames());
+
+  return REGISTRY.map((e) => {
+    const available = e.create(fetcher) !== null;
+    return {
+      name: e.name,
+      label: e.label,
+      available,
+      defaultEnabled: available && defaults.has(e.name),
+    };
+  });
 }
 
-// ─── Mock Provider ────────────────────────────────────────────
-
-export class MockSearchProvider implements SearchProvider {
-  name = "mock";
-
-  async search(query: string, maxResults = 10): Promise<SearchResult[]> {
-    const mockCompanies = [
-      {
-        name: "Pacific Industrial Co., Ltd",
-        country: "China",
-        domain: "pacificindustrial.cn",
-      },
-      {
-        name: "Rajasthan Metals Pvt Ltd",
-        country: "India",
-        domain: "rajasthanmetals.in",
-      },
-      {
-        name: "Emirates Manufacturing Group",
-        country: "UAE",
-        domain: "emiratesmfg.ae",
-      },
-      {
-        name: "Anshan Steel Trading Co.",
-        country: "China",
-        domain: "anshansteel.com",
-      },
-      {
-        name: "Mumbai Pipes & Fittings Ltd",
-        country: "India",
-        domain: "mumbaipipes.co.in",
-      },
-      {
-        name: "Sino-Global Supply Chain",
-        country: "China",
-        domain: "sinoglobalsupply.com",
-      },
-      {
-        name: "Delhi Industrial Solutions",
-        country: "India",
-        domain: "delhiindustrial.com",
-      },
-      {
-        name: "Dragon Metal Works Ltd",
-        country: "China",
-        domain: "dragonmetalworks.cn",
-      },
-      {
-        name: "Gulf Precision Manufacturing",
-        country: "UAE",
-        domain: "gulfprecision.ae",
-      },
-      {
-        name: "Shanghai Heavy Industries",
-        country: "China",
-        domain: "shanghaihi.com",
-      },
-      {
-        name: "Tata Supplier Network",
-        country: "India",
-        domain: "tatasupplier.co.in",
-      },
-      {
-        name: "Zhengzhou Materials Corp",
-        country: "China",
-        domain: "zhengzhoumaterials.com",
-      },
-    ];
-
-    // Deterministic shuffle based on the query string
-    const hash = query
-      .split("")
-      .reduce((acc, c) => acc + c.charCodeAt(0), 0);
-
-    const shuffled = [...mockCompanies].sort((a, b) => {
-      const ha = (hash + a.name.charCodeAt(0)) % 100;
-      const hb = (hash + b.name.charCodeAt(0)) % 100;
-      return ha - hb;
-    });
-
-    // Extract product hint from query for more realistic snippets
-    const productHint = query.split(" ").slice(0, 2).join(" ");
-
-    return shuffled.slice(0, Math.min(maxResults, 5)).map((c) => ({
-      title: `${c.name} - Leading ${productHint} Manufacturer & Supplier`,
-      url: `https://www.${c.domain}`,
-      snippet: `${c.name} is a trusted manufacturer based in ${c.country}. Specializing in ${productHint.toLowerCase()} products with ISO certifications. Factory direct pricing, OEM/ODM available. MOQ from 100 units.`,
-    }));
+/**
+ * Instantiate the requested providers (or the defaults when none are given).
+ * Unknown and unconfigured names are skipped. Returns an empty list when
+ * nothing usable remains — callers fall back to another discovery mode.
+ */
+export function resolveSearchProviders(requested?: string[]): SearchProvider[] {
+  const names = requested?.length ? requested : defaultProviderNames();
+  const fetcher = createHttpFetcher();
+
+  const providers: SearchProvider[] = [];
+  for (const name of new Set(names)) {
+    const entry = REGISTRY.find((e) => e.name === name);
+    const provider = entry?.create(fetcher);
+    if (provider) providers.push(provider);
   }
+  return providers;
 }
 
-// ─── Factory ──────────────────────────────────────────────────
+// ─── Multi-provider search ────────────────────────────────────
 
-export function createSearchProvider(): SearchProvider {
-  if (process.env.SERP_API_KEY) {
-    return new SerpApiProvider(process.env.SERP_API_KEY);
+/**
+ * Run a query against every provider in parallel and merge by host.
+ * A failing provider is logged and skipped; the search only throws when
+ * every provider failed. Pass `trace` to collect per-provider timings.
+ */
+export async function searchAllProviders(
+  providers: SearchProvider[],
+  query: string,
+  maxResults = 10,
+  trace?: ProviderTrace[],
+): Promise<MergedSearchResult[]> {
+  const settled = await Promise.allSettled(
+    providers.map(async (p) => {
+      const startedAt = Date.now();
+      try {
+        const results = await p.search(query, maxResults);
+        trace?.push({
+          provider: p.name,
+          resultCount: results.length,
+          durationMs: Date.now() - startedAt,
+        });
+        return results;
+      } catch (err) {
+        trace?.push({
+          provider: p.name,
+          resultCount: 0,
+          durationMs: Date.now() - startedAt,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        throw err;
+      }
+    }),
+  );
+
+  const merged = new Map<string, MergedSearchResult>();
+  const errors: string[] = [];
+
+  settled.forEach((outcome, i) => {
+    const provider = providers[i];
+    if (outcome.status === "rejected") {
+      const message =
+        outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      console.warn(`[Search] ${provider.name} failed for "${query}": ${message}`);
+      errors.push(`${provider.name}: ${message}`);
+      return;
+    }
+
+    for (const result of outcome.value) {
+      const key = mergeKey(result.url);
+      const existing = merged.get(key);
+      if (existing) {
+        if (!existing.sources.includes(provider.name)) {
+          existing.sources.push(provider.name);
+        }
+      } else {
+        merged.set(key, { ...result, sources: [provider.name] });
+      }
+    }
+  });
+
+  if (providers.length > 0 && errors.length === providers.length) {
+    throw new Error(`All search providers failed — ${errors.join("; ")}`);
   }
-  return new MockSearchProvider();
+
+  return [...merged.values()];
+}
+
+/** Directory listings share the directory's host, so they merge on the full URL instead */
+const DIRECTORY_HOSTS = new Set(
+  MARKETPLACE_DIRECTORIES.map((d) => hostOf(d.baseUrl)),
+);
+
+function mergeKey(url: string): string {
+  const host = hostOf(url);
+  if (!host) return url;
+  const isDirectory = [...DIRECTORY_HOSTS].some(
+    (d) => d && (host === d || host.endsWith(`.${d}`) || d.endsWith(`.${host}`)),
+  );
+  return isDirectory ? url : host;
 }
@@ -0,0 +1,47 @@
+import type { SearchProvider, SearchResult } from "../search-provider.js";
+import { liveFetcher, type HttpFetcher } from "./http.js";
+
+/** Bing Web Search API v7. Requires BING_SEARCH_API_KEY. */
+export class BingSearchProvider implements SearchProvider {
+  name = "bing";
+  label = "Bing Web Search";
+
+  constructor(
+    private apiKey: string,
+    private fetcher: HttpFetcher = liveFetcher,
+    private endpoint = process.env.BING_SEARCH_ENDPOINT ||
+      "https://api.bing.microsoft.com/v7.0/search",
+  ) {}
+
+  async search(query: string, maxResults = 10): Promise<SearchResult[]> {
+    const params = new URLSearchParams({
+      q: query,
+      count: String(Math.min(maxResults, 50)),
+      responseFilter: "Webpages",
+    });
+
+    const body = await this.fetcher({
+      url: `${this.endpoint}?${params.toString()}`,
+      headers: { "Ocp-Apim-Subscription-Key": this.apiKey },
+      fixture: { provider: this.name, query, ext: "json" },
+    });
+
+    return parseBingResponse(body).slice(0, maxResults);
+  }
+}
+
+export function parseBingResponse(body: string): SearchResult[] {
+  const data = JSON.parse(body) as {
+    webPages?: {
+      value?: Array<{ name?: string; url?: string; snippet?: string }>;
+    };
+  };
+
+  return (data.webPages?.value || [])
+    .filter((r) => !!r.url)
+    .map((r) => ({
+      title: r.name || "",
+      url: r.url!,
+      snippet: r.snippet || "",
+    }));
+}
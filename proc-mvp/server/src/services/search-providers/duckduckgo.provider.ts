@@ -0,0 +1,59 @@
+import * as cheerio from "cheerio";
+import type { SearchProvider, SearchResult } from "../search-provider.js";
+import { liveFetcher, type HttpFetcher } from "./http.js";
+
+/**
+ * Generic HTML SERP scraper against DuckDuckGo's no-JS endpoint.
+ * Needs no API key, but is rate-limited by DuckDuckGo — keep it opt-in.
+ */
+export class DuckDuckGoHtmlProvider implements SearchProvider {
+  name = "duckduckgo";
+  label = "DuckDuckGo (HTML)";
+
+  constructor(private fetcher: HttpFetcher = liveFetcher) {}
+
+  async search(query: string, maxResults = 10): Promise<SearchResult[]> {
+    const html = await this.fetcher({
+      url: `https://html.duckduckgo.com/html/?${new URLSearchParams({ q: query })}`,
+      fixture: { provider: this.name, query, ext: "html" },
+    });
+
+    return parseDuckDuckGoHtml(html).slice(0, maxResults);
+  }
+}
+
+export function parseDuckDuckGoHtml(html: string): SearchResult[] {
+  const $ = cheerio.load(html);
+  const results: SearchResult[] = [];
+
+  $(".result").each((_, el) => {
+    const item = $(el);
+    // Sponsored results carry the .result--ad modifier
+    if (item.hasClass("result--ad")) return;
+
+    const link = item.find("a.result__a").first();
+    const url = unwrapRedirect(link.attr("href"));
+    if (!url) return;
+
+    results.push({
+      title: link.text().trim(),
+      url,
+      snippet: item.find(".result__snippet").text().replace(/\s+/g, " ").trim(),
+    });
+  });
+
+  return results;
+}
+
+/** DuckDuckGo wraps outbound links as //duckduckgo.com/l/?uddg=<encoded target>. */
+function unwrapRedirect(href: string | undefined): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href, "https://duckduckgo.com");
+    const target = url.searchParams.get("uddg");
+    if (target) return target;
+    return url.hostname.endsWith("duckduckgo.com") ? null : url.toString();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * HTTP fetching for search providers, with an offline fixture mode.
+ *
+ * Every provider receives an HttpFetcher instead of calling fetch() directly,
+ * so it can run against recorded responses:
+ * - SEARCH_FIXTURES_MODE=record  → fetch live, save each body under SEARCH_FIXTURES_DIR
+ * - SEARCH_FIXTURES_MODE=replay  → never touch the network, read saved bodies only
+ *
+ * Fixture files live at <dir>/<provider>/<slug>.<ext>, where the slug is
+ * derived from the query, e.g. fixtures/duckduckgo/steel-pipes-supplier-india.html.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+
+export interface FetchRequest {
+  url: string;
+  headers?: Record<string, string>;
+  /** Provider name + query, used to name fixture files */
+  fixture: { provider: string; query: string; ext: "html" | "json" };
+}
+
+export type HttpFetcher = (req: FetchRequest) => Promise<string>;
+
+const USER_AGENT =
+  "Mozilla/5.0 (compatible; ProcMVP/1.0; +https://procmvp.com)";
+const TIMEOUT_MS = 10_000;
+
+/** Live fetcher: GET with a browser-ish UA and a timeout. */
+export const liveFetcher: HttpFetcher = async (req) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+
+  try {
+    const res = await fetch(req.url, {
+      signal: controller.signal,
+      headers: { "User-Agent": USER_AGENT, ...req.headers },
+    });
+    if (!res.ok) {
+      throw new Error(
+        `${req.fixture.provider} request failed: ${res.status} ${res.statusText}`,
+      );
+    }
+    return await res.text();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+export function fixturePath(dir: string, req: FetchRequest): string {
+  const slug =
+    req.fixture.query
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 80) || "empty";
+  return path.join(dir, req.fixture.provider, `${slug}.${req.fixture.ext}`);
+}
+
+/** Read responses from recorded fixture files; never hits the network. */
+export function replayFetcher(dir: string): HttpFetcher {
+  return async (req) => {
+    const file = fixturePath(dir, req);
+    try {
+      return await fs.readFile(file, "utf8");
+    } catch {
+      throw new Error(`No recorded fixture for ${req.fixture.provider}: ${file}`);
+    }
+  };
+}
+
+/** Fetch live and save every response as a fixture for later replay. */
+export function recordingFetcher(
+  dir: string,
+  inner: HttpFetcher = liveFetcher,
+): HttpFetcher {
+  return async (req) => {
+    const body = await inner(req);
+    const file = fixturePath(dir, req);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body, "utf8");
+    return body;
+  };
+}
+
+/** Pick the fetcher from SEARCH_FIXTURES_MODE / SEARCH_FIXTURES_DIR. */
+export function createHttpFetcher(): HttpFetcher {
+  const dir = process.env.SEARCH_FIXTURES_DIR;
+  const mode = process.env.SEARCH_FIXTURES_MODE;
+  if (dir && mode === "replay") return replayFetcher(dir);
+  if (dir && mode === "record") return recordingFetcher(dir);
+  return liveFetcher;
+}
+
+/** Host without "www.", lowercased; null for unparseable URLs. */
+export function hostOf(url: string): string | null {
+  try {
+    const withScheme = /^https?:\/\//i.test(url) ? url : `https://${url}`;
+    return new URL(withScheme).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import * as cheerio from "cheerio";
+import type { SearchProvider, SearchResult } from "../search-provider.js";
+import { liveFetcher, type HttpFetcher } from "./http.js";
+
+/**
+ * B2B marketplace / supplier directory adapters (Alibaba, IndiaMART,
+ * ThomasNet-style listing pages).
+ *
+ * Each directory is described declaratively: a search URL and the CSS
+ * selectors of one listing card. Selectors accept comma-separated
+ * alternatives because these sites change markup often — when one breaks,
+ * record a fresh fixture (SEARCH_FIXTURES_MODE=record) and adjust here.
+ */
+export interface DirectoryConfig {
+  name: string;
+  label: string;
+  baseUrl: string;
+  searchUrl: (query: string) => string;
+  selectors: {
+    item: string;
+    title: string;
+    link: string;
+    snippet?: string;
+    location?: string;
+  };
+}
+
+export const ALIBABA: DirectoryConfig = {
+  name: "alibaba",
+  label: "Alibaba suppliers",
+  baseUrl: "https://www.alibaba.com",
+  searchUrl: (q) =>
+    `https://www.alibaba.com/trade/search?${new URLSearchParams({ tab: "supplier", SearchText: q })}`,
+  selectors: {
+    item: ".factory-card, .supplier-card, .organic-list .list-item",
+    title: ".company-name, .card-title, .title",
+    link: ".company-name a, .card-title a, a.title, a",
+    snippet: ".main-products, .card-info, .product-desc",
+    location: ".location, .country",
+  },
+};
+
+export const INDIAMART: DirectoryConfig = {
+  name: "indiamart",
+  label: "IndiaMART",
+  baseUrl: "https://dir.indiamart.com",
+  searchUrl: (q) =>
+    `https://dir.indiamart.com/search.mp?${new URLSearchParams({ ss: q })}`,
+  selectors: {
+    item: ".card, .lst_cl, .prd-card",
+    title: ".companyname, .lcname, .cmpny-nm",
+    link: ".companyname a, .lcname a, .cmpny-nm a",
+    snippet: ".producttitle, .prd-name, .desc",
+    location: ".newLocationUi, .clg, .city",
+  },
+};
+
+export const THOMASNET: DirectoryConfig = {
+  name: "thomasnet",
+  label: "ThomasNet",
+  baseUrl: "https://www.thomasnet.com",
+  searchUrl: (q) =>
+    `https://www.thomasnet.com/search.html?${new URLSearchParams({ what: q, searchsource: "suppliers" })}`,
+  selectors: {
+    item: '[data-testid="supplier-search-result"], .supplier-search-results__card, .profile-card',
+    title: '[data-testid="supplier-name"], .profile-card__title, h2',
+    link: '[data-testid="supplier-name"] a, .profile-card__title a, h2 a',
+    snippet: '[data-testid="supplier-description"], .profile-card__body, .supplier-description',
+    location: '[data-testid="supplier-location"], .profile-card__location',
+  },
+};
+
+export const MARKETPLACE_DIRECTORIES = [ALIBABA, INDIAMART, THOMASNET];
+
+export class MarketplaceDirectoryProvider implements SearchProvider {
+  name: string;
+  label: string;
+
+  constructor(
+    private config: DirectoryConfig,
+    private fetcher: HttpFetcher = liveFetcher,
+  ) {
+    this.name = config.name;
+    this.label = config.label;
+  }
+
+  async search(query: string, maxResults = 10): Promise<SearchResult[]> {
+    const html = await this.fetcher({
+      url: this.config.searchUrl(query),
+      fixture: { provider: this.name, query, ext: "html" },
+    });
+
+    return parseDirectoryHtml(html, this.config).slice(0, maxResults);
+  }
+}
+
+/** Parse one directory result page into search results (company name as title). */
+export function parseDirectoryHtml(
+  html: string,
+  config: DirectoryConfig,
+): SearchResult[] {
+  const $ = cheerio.load(html);
+  const { selectors } = config;
+  const results: SearchResult[] = [];
+  const seen = new Set<string>();
+
+  $(selectors.item).each((_, el) => {
+    const card = $(el);
+    const title = card.find(selectors.title).first().text().replace(/\s+/g, " ").trim();
+    const href = card.find(selectors.link).first().attr("href");
+    if (!title || !href) return;
+
+    let url: string;
+    try {
+      url = new URL(href, config.baseUrl).toString();
+    } catch {
+      return;
+    }
+    if (seen.has(url)) return;
+    seen.add(url);
+
+    const snippet = selectors.snippet
+      ? card.find(selectors.snippet).first().text().replace(/\s+/g, " ").trim()
+      : "";
+    const location = selectors.location
+      ? card.find(selectors.location).first().text().replace(/\s+/g, " ").trim()
+      : "";
+
+    results.push({
+      title,
+      url,
+      snippet: [snippet, location && `Location: ${location}`, `Listed on ${config.label}`]
+        .filter(Boolean)
+        .join(" — "),
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,45 @@
+import type { SearchProvider, SearchResult } from "../search-provider.js";
+import { liveFetcher, type HttpFetcher } from "./http.js";
+
+/** Google organic results through SerpAPI. Requires SERP_API_KEY. */
+export class SerpApiProvider implements SearchProvider {
+  name = "serpapi";
+  label = "Google (SerpAPI)";
+
+  constructor(
+    private apiKey: string,
+    private fetcher: HttpFetcher = liveFetcher,
+  ) {}
+
+  async search(query: string, maxResults = 10): Promise<SearchResult[]> {
+    const params = new URLSearchParams({
+      api_key: this.apiKey,
+      q: query,
+      num: String(maxResults),
+      engine: "google",
+    });
+
+    const body = await this.fetcher({
+      url: `https://serpapi.com/search?${params.toString()}`,
+      fixture: { provider: this.name, query, ext: "json" },
+    });
+
+    return parseSerpApiResponse(body).slice(0, maxResults);
+  }
+}
+
+export function parseSerpApiResponse(body: string): SearchResult[] {
+  const data = JSON.parse(body) as {
+    organic_results?: Array<{
+      title?: string;
+      link?: string;
+      snippet?: string;
+    }>;
+  };
+
+  return (data.organic_results || []).map((r) => ({
+    title: r.title || "",
+    url: r.link || "",
+    snippet: r.snippet || "",
+  }));
+}
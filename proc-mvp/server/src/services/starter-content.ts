@@ -0,0 +1,236 @@
+/**
+ * Starter Content — the template library and follow-up sequence a new
+ * organisation begins with. createOrganization and the seed create them;
+ * afterwards they are the organisation's own to edit or delete.
+ *
+ * Plain data without imports, so prisma/seed.ts can use it as well.
+ */
+
+export interface StarterTemplate {
+  key: string;
+  name: string;
+  channel: "EMAIL" | "WHATSAPP";
+  language?: string;
+  subject?: string;
+  body: string;
+}
+
+export interface StarterSequenceStep {
+  dayOffset: number;
+  channel: "EMAIL" | "WHATSAPP";
+  template: string;
+}
+
+/** The PRD's cadence: introduction, then follow-ups on days 3, 7 and 14 */
+export const STANDARD_SEQUENCE = {
+  name: "Standard follow-up",
+  description: "Introduction, then follow-ups on days 3, 7 and 14",
+  steps: [
+    { dayOffset: 0, channel: "EMAIL", template: "introduction" },
+    { dayOffset: 3, channel: "EMAIL", template: "follow_up" },
+    { dayOffset: 7, channel: "EMAIL", template: "follow_up" },
+    { dayOffset: 14, channel: "EMAIL", template: "final_reminder" },
+  ] satisfies StarterSequenceStep[],
+};
+
+/** PRD message templates; sequences and RFQ invitations render these */
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  {
+    key: "introduction",
+    name: "Introduction",
+    channel: "EMAIL",
+    subject: "Partnership Opportunity - {{companyName}}",
+    body: `Dear {{vendorName}},
+
+We are {{companyName}}, actively seeking reliable suppliers for {{productCategories}}.
+
+We discovered your company while researching qualified vendors and are impressed by your offerings.
+
+{{customMessage}}
+
+Key points:
+✓ Long-term partnership potential
+✓ Regular purchase volumes
+✓ Competitive payment terms
+✓ Growth opportunities
+
+Would you be interested in receiving our RFQs and establishing a business relationship?
+
+Best regards,
+{{companyName}}`,
+  },
+  {
+    key: "introduction",
+    name: "Introducción",
+    channel: "EMAIL",
+    language: "es",
+    subject: "Oportunidad de colaboración - {{companyName}}",
+    body: `Estimado equipo de {{vendorName}}:
+
+Somos {{companyName}} y buscamos proveedores fiables de {{productCategories}}.
+
+Encontramos su empresa al investigar proveedores cualificados y nos interesa su oferta.
+
+{{customMessage}}
+
+¿Le interesaría recibir nuestras solicitudes de cotización y establecer una relación comercial?
+
+Saludos cordiales,
+{{companyName}}`,
+  },
+  {
+    key: "follow_up",
+    name: "Follow-up",
+    channel: "EMAIL",
+    subject: "Following up - {{companyName}}",
+    body: `Dear {{vendorName}},
+
+Following up on our earlier message: {{companyName}} is sourcing {{productCategories}} and would value a quote from you.
+
+{{customMessage}}
+
+Would you be interested in receiving our RFQs?
+
+Best regards,
+{{companyName}}`,
+  },
+  {
+    key: "final_reminder",
+    name: "Final follow-up",
+    channel: "EMAIL",
+    subject: "Last follow-up - {{companyName}}",
+    body: `Dear {{vendorName}},
+
+This is our last follow-up about supplying {{productCategories}} to {{companyName}}. If the timing isn't right, no reply is needed; we will keep your details on file.
+
+{{customMessage}}
+
+Best regards,
+{{companyName}}`,
+  },
+  {
+    key: "rfq_invitation",
+    name: "RFQ invitation",
+    channel: "EMAIL",
+    subject: "RFQ #{{rfqNumber}} - {{companyName}}",
+    body: `Dear {{vendorName}},
+
+We are requesting a quotation for the following:
+
+PRODUCT DETAILS
+{{rfqProducts}}
+
+DELIVERY REQUIREMENTS
+Location: {{deliveryLocation}}
+Required date: {{deliveryDate}}
+
+Please provide:
+1. Unit price
+2. Total price including shipping
+3. Lead time
+4. Payment terms
+5. Certifications/quality documents
+
+Deadline for submission: {{deadline}}
+
+{{customMessage}}
+
+Please submit your prices, lead time and documents through your
+personal quote link:
+{{portalLink}}
+
+Best regards,
+{{buyerName}}
+{{companyName}} Procurement Team`,
+  },
+  {
+    key: "counter_offer",
+    name: "Counter-offer",
+    channel: "EMAIL",
+    subject: "RFQ #{{rfqNumber}} - our counter-offer",
+    body: `Dear {{vendorName}},
+
+Thank you for your quotation of {{quotedPrice}} for RFQ #{{rfqNumber}}.
+
+{{customMessage}}
+
+We would like to propose {{counterPrice}}. Please reply to this email to accept, or with your best revised price.
+
+Best regards,
+{{buyerName}}
+{{companyName}} Procurement Team`,
+  },
+  {
+    key: "purchase_order",
+    name: "Purchase order",
+    channel: "EMAIL",
+    subject: "Purchase order {{poNumber}} - {{companyName}}",
+    body: `Dear {{vendorName}},
+
+Following your quotation for RFQ #{{rfqNumber}}, please find attached our purchase order {{poNumber}} for {{orderTotal}}.
+
+Delivery to: {{deliveryLocation}}
+
+{{customMessage}}
+
+Please confirm receipt of this order and quote {{poNumber}} on all shipping documents and invoices.
+
+Best regards,
+{{buyerName}}
+{{companyName}} Procurement Team`,
+  },
+  {
+    key: "rfq_cancelled",
+    name: "RFQ cancelled",
+    channel: "EMAIL",
+    subject: "RFQ #{{rfqNumber}} cancelled - {{companyName}}",
+    body: `Dear {{vendorName}},
+
+We have cancelled RFQ #{{rfqNumber}} and will not be placing an order against it. Your quote link is now closed, and no further submission is needed.
+
+Thank you for your time; we look forward to inviting you to future requests.
+
+Best regards,
+{{buyerName}}
+{{companyName}} Procurement Team`,
+  },
+  {
+    key: "introduction",
+    name: "Introduction",
+    channel: "WHATSAPP",
+    body: `Hello {{vendorName}},
+
+We are {{companyName}}, seeking reliable suppliers for {{productCategories}}.
+
+We discovered your company and would like to explore a partnership. Interested in receiving our RFQs?
+
+Best regards,
+{{companyName}}`,
+  },
+  {
+    key: "counter_offer",
+    name: "Counter-offer",
+    channel: "WHATSAPP",
+    body: `Hello {{vendorName}},
+
+Thank you for your quote of {{quotedPrice}} for RFQ #{{rfqNumber}}.
+
+{{customMessage}}
+
+We would like to propose {{counterPrice}}. Can you accept, or send us your best revised price?
+
+Best regards,
+{{buyerName}}, {{companyName}}`,
+  },
+  {
+    key: "follow_up",
+    name: "Follow-up",
+    channel: "WHATSAPP",
+    body: `Hello {{vendorName}},
+
+Following up on our earlier message from {{companyName}} about {{productCategories}}. Would you be interested in receiving our RFQs?
+
+Best regards,
+{{companyName}}`,
+  },
+];
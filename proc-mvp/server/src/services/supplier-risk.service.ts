@@ -0,0 +1,373 @@
+/**
+ * Supplier Risk Service — risk flags for the quotes on an RFQ.
+ *
+ * The PRD's risk factors, from data we already hold:
+ *   singleSource     other vendors on file for the RFQ's products in the
+ *                    vendor's country (VendorProduct); none anywhere else
+ *                    either is a true single source
+ *   priceVolatility  spread of past quote prices (PriceObservation, source
+ *                    "quote") for the same products: the vendor's own when
+ *                    they have quoted at least MIN_PRICE_HISTORY times,
+ *                    else every vendor's
+ *   countryRisk      the editable CountryRisk table (0 stable – 10 high risk)
+ *   capacity         Vendor.manufacturingCapacity against CAPACITY_MULTIPLE
+ *                    times each quoted line's quantity, when the units compare
+ *   newVendor        on file (discoveryDate) for less than NEW_VENDOR_MONTHS
+ *
+ * Factors without enough data have no level and don't count. The overall
+ * level is high with any high factor or three flags, medium with any flag.
+ */
+
+import type { CountryRisk, QuoteLineItem, RfqLineItem, Vendor } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import type { SetCountryRiskInput } from "../schemas/risk.schema.js";
+import { normalizeAmount, type RateTable } from "./currency.service.js";
+import { categoryKey } from "./price-benchmark.service.js";
+
+export type RiskLevel = "low" | "medium" | "high";
+export type RiskFactorKey =
+  | "singleSource"
+  | "priceVolatility"
+  | "countryRisk"
+  | "capacity"
+  | "newVendor";
+
+export const RISK_FACTOR_LABELS: Record<RiskFactorKey, string> = {
+  singleSource: "Single-source dependency",
+  priceVolatility: "Price volatility",
+  countryRisk: "Country risk",
+  capacity: "Capacity constraints",
+  newVendor: "New vendor",
+};
+
+/** PRD: capacity should cover three times the order */
+const CAPACITY_MULTIPLE = 3;
+const NEW_VENDOR_MONTHS = 6;
+const MIN_PRICE_HISTORY = 3;
+const PRICE_HISTORY_DAYS = 365;
+/** Coefficient of variation of past prices */
+const VOLATILITY_MEDIUM = 0.1;
+const VOLATILITY_HIGH = 0.25;
+/** Country risk scores */
+const COUNTRY_MEDIUM = 4;
+const COUNTRY_HIGH = 7;
+
+export interface RiskFactor {
+  key: RiskFactorKey;
+  label: string;
+  /** null when there isn't enough data to judge */
+  level: RiskLevel | null;
+  flagged: boolean;
+  detail: string;
+}
+
+export interface SupplierRisk {
+  level: RiskLevel;
+  /** Keys of the flagged factors */
+  flags: RiskFactorKey[];
+  factors: RiskFactor[];
+}
+
+export interface RiskQuote {
+  id: string;
+  vendor: Pick<Vendor, "id" | "country" | "manufacturingCapacity" | "discoveryDate">;
+  lineItems: Pick<QuoteLineItem, "rfqLineItemId">[];
+}
+
+const LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+function worst(factors: Array<Omit<RiskFactor, "key" | "label" | "flagged">>) {
+  const rated = factors.filter((f) => f.level !== null);
+  if (rated.length === 0) return null;
+  return rated.reduce((a, b) => (LEVEL_RANK[b.level!] > LEVEL_RANK[a.level!] ? b : a));
+}
+
+// ─── Capacity ─────────────────────────────────────────────────
+
+const UNIT_ALIASES: Record<string, string> = {
+  t: "ton",
+  mt: "ton",
+  tonne: "ton",
+  tonnes: "ton",
+  tons: "ton",
+  "metric ton": "ton",
+  "metric tons": "ton",
+  kgs: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  pc: "piece",
+  pcs: "piece",
+  pieces: "piece",
+  unit: "piece",
+  units: "piece",
+  nos: "piece",
+  m: "meter",
+  meters: "meter",
+  metres: "meter",
+  metre: "meter",
+};
+
+export function normalizeUnit(unit: string): string {
+  const key = unit.trim().toLowerCase().replace(/\.$/, "");
+  return UNIT_ALIASES[key] ?? key.replace(/(x|ch|sh|ss)es$/, "$1").replace(/([^s])s$/, "$1");
+}
+
+/** "50,000 tons/year", "1.2 million pcs per month" → amount and unit; null if unreadable */
+export function parseCapacity(text: string | null | undefined): { amount: number; unit: string } | null {
+  const match = text?.match(
+    /(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|m|million)?\s+([a-z]+(?: tons?)?)/i,
+  );
+  if (!match) return null;
+
+  const scale = { k: 1e3, thousand: 1e3, m: 1e6, million: 1e6 }[
+    (match[2] ?? "").toLowerCase() as "k"
+  ];
+  const amount = Number(match[1].replace(/,/g, "")) * (scale ?? 1);
+  return Number.isFinite(amount) && amount > 0 ? { amount, unit: normalizeUnit(match[3]) } : null;
+}
+
+function capacityFactor(
+  vendor: RiskQuote["vendor"],
+  lines: RfqLineItem[],
+): Omit<RiskFactor, "key" | "label" | "flagged"> {
+  const capacity = parseCapacity(vendor.manufacturingCapacity);
+  if (!capacity) {
+    return {
+      level: null,
+      detail: vendor.manufacturingCapacity
+        ? `Couldn't read "${vendor.manufacturingCapacity}"`
+        : "Capacity not on file",
+    };
+  }
+
+  // Lines in the capacity's unit add up against it
+  const comparable = lines.filter((line) => normalizeUnit(line.unit) === capacity.unit);
+  if (comparable.length === 0) {
+    return {
+      level: null,
+      detail: `Capacity ${vendor.manufacturingCapacity} isn't in the RFQ's units`,
+    };
+  }
+  const quantity = comparable.reduce((sum, line) => sum + line.quantity, 0);
+  const level: RiskLevel =
+    capacity.amount < quantity
+      ? "high"
+      : capacity.amount < quantity * CAPACITY_MULTIPLE
+        ? "medium"
+        : "low";
+  return {
+    level,
+    detail: `${vendor.manufacturingCapacity} for ${quantity.toLocaleString("en-US")} ${comparable[0].unit}`,
+  };
+}
+
+// ─── Price history ────────────────────────────────────────────
+
+function variation(prices: number[]): number | null {
+  if (prices.length < MIN_PRICE_HISTORY) return null;
+  const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
+  if (mean <= 0) return null;
+  const variance = prices.reduce((sum, p) => sum + (p - mean) ** 2, 0) / prices.length;
+  return Math.sqrt(variance) / mean;
+}
+
+interface PriceHistory {
+  /** Normalized past prices per category key, all vendors */
+  byCategory: Map<string, number[]>;
+  /** The same per vendor ID, then category key */
+  byVendor: Map<string, Map<string, number[]>>;
+}
+
+async function loadPriceHistory(
+  keys: string[],
+  organizationId: string,
+  excludeQuoteIds: string[],
+  rates: RateTable,
+  currency: string,
+): Promise<PriceHistory> {
+  const observations = await prisma.priceObservation.findMany({
+    where: {
+      organizationId,
+      source: "quote",
+      categoryKey: { in: keys },
+      sourceRef: { notIn: excludeQuoteIds },
+      observedAt: { gte: new Date(Date.now() - PRICE_HISTORY_DAYS * 86_400_000) },
+    },
+    select: { categoryKey: true, sourceRef: true, price: true, currency: true },
+  });
+  const quotes = await prisma.quote.findMany({
+    where: { id: { in: [...new Set(observations.map((o) => o.sourceRef!))] } },
+    select: { id: true, vendorId: true },
+  });
+  const vendorOf = new Map(quotes.map((q) => [q.id, q.vendorId]));
+
+  const history: PriceHistory = { byCategory: new Map(), byVendor: new Map() };
+  const push = (map: Map<string, number[]>, key: string, price: number) =>
+    map.set(key, [...(map.get(key) ?? []), price]);
+  for (const o of observations) {
+    const price = normalizeAmount(rates, o.price, o.currency, currency).normalizedAmount;
+    if (price === null) continue;
+    push(history.byCategory, o.categoryKey, price);
+
+    const vendorId = vendorOf.get(o.sourceRef!);
+    if (!vendorId) continue;
+    const own = history.byVendor.get(vendorId) ?? new Map<string, number[]>();
+    push(own, o.categoryKey, price);
+    history.byVendor.set(vendorId, own);
+  }
+  return history;
+}
+
+function volatilityFactor(
+  vendorId: string,
+  lines: RfqLineItem[],
+  history: PriceHistory,
+): Omit<RiskFactor, "key" | "label" | "flagged"> {
+  const perLine = lines.map((line) => {
+    const key = categoryKey(line.productName);
+    const own = variation(history.byVendor.get(vendorId)?.get(key) ?? []);
+    const market = own === null ? variation(history.byCategory.get(key) ?? []) : null;
+    const cv = own ?? market;
+    if (cv === null) return { level: null, detail: `No price history for ${line.productName}` };
+    return {
+      level: (cv >= VOLATILITY_HIGH ? "high" : cv >= VOLATILITY_MEDIUM ? "medium" : "low") as RiskLevel,
+      detail: `${own !== null ? "Their" : "Market"} past quotes for ${line.productName} vary by ±${Math.round(cv * 100)}%`,
+    };
+  });
+  return worst(perLine) ?? perLine[0] ?? { level: null, detail: "No price history" };
+}
+
+// ─── Sourcing ─────────────────────────────────────────────────
+
+/** The organisation's vendors per category key, with their countries */
+async function loadSuppliers(
+  keys: string[],
+  organizationId: string,
+): Promise<Map<string, Map<string, string>>> {
+  const products = await prisma.vendorProduct.findMany({
+    where: { vendor: { organizationId, status: { not: "INACTIVE" } } },
+    select: { productCategory: true, vendor: { select: { id: true, country: true } } },
+  });
+  const suppliers = new Map<string, Map<string, string>>(keys.map((k) => [k, new Map()]));
+  for (const product of products) {
+    suppliers.get(categoryKey(product.productCategory))?.set(product.vendor.id, product.vendor.country);
+  }
+  return suppliers;
+}
+
+function singleSourceFactor(
+  vendor: RiskQuote["vendor"],
+  lines: RfqLineItem[],
+  suppliers: Map<string, Map<string, string>>,
+): Omit<RiskFactor, "key" | "label" | "flagged"> {
+  const country = vendor.country.trim().toLowerCase();
+  const perLine = lines.map((line) => {
+    const others = [...(suppliers.get(categoryKey(line.productName)) ?? new Map<string, string>())].filter(
+      ([id]) => id !== vendor.id,
+    );
+    const local = others.filter(([, c]) => c.trim().toLowerCase() === country).length;
+    if (others.length === 0) {
+      return { level: "high" as RiskLevel, detail: `No other supplier of ${line.productName} on file` };
+    }
+    if (local === 0) {
+      return {
+        level: "medium" as RiskLevel,
+        detail: `Only supplier of ${line.productName} in ${vendor.country} (${others.length} elsewhere)`,
+      };
+    }
+    return {
+      level: "low" as RiskLevel,
+      detail: `${local} other supplier${local === 1 ? "" : "s"} of ${line.productName} in ${vendor.country}`,
+    };
+  });
+  return worst(perLine) ?? { level: null, detail: "No products quoted" };
+}
+
+function countryFactor(
+  country: string,
+  table: CountryRisk[],
+): Omit<RiskFactor, "key" | "label" | "flagged"> {
+  const row = table.find((r) => r.country.trim().toLowerCase() === country.trim().toLowerCase());
+  if (!row) return { level: null, detail: `${country} not rated` };
+  return {
+    level: row.score >= COUNTRY_HIGH ? "high" : row.score >= COUNTRY_MEDIUM ? "medium" : "low",
+    detail: `${row.country}: ${row.score}/10${row.notes ? ` — ${row.notes}` : ""}`,
+  };
+}
+
+function newVendorFactor(discoveryDate: Date): Omit<RiskFactor, "key" | "label" | "flagged"> {
+  const months = Math.floor((Date.now() - discoveryDate.getTime()) / (30.44 * 86_400_000));
+  return {
+    level: months < NEW_VENDOR_MONTHS ? "medium" : "low",
+    detail: `On file since ${discoveryDate.toISOString().slice(0, 10)} (${months} month${months === 1 ? "" : "s"})`,
+  };
+}
+
+// ─── Assessment ───────────────────────────────────────────────
+
+export async function assessSupplierRisk(
+  rfq: { organizationId: string; lineItems: RfqLineItem[] },
+  quotes: RiskQuote[],
+  rates: RateTable,
+  currency: string,
+): Promise<Map<string, SupplierRisk>> {
+  const rfqLines = rfq.lineItems;
+  const keys = [...new Set(rfqLines.map((line) => categoryKey(line.productName)))];
+  const [suppliers, history, countries] = await Promise.all([
+    loadSuppliers(keys, rfq.organizationId),
+    loadPriceHistory(keys, rfq.organizationId, quotes.map((q) => q.id), rates, currency),
+    prisma.countryRisk.findMany(),
+  ]);
+
+  const risks = new Map<string, SupplierRisk>();
+  for (const quote of quotes) {
+    // The lines this vendor prices; quotes without line items cover the RFQ
+    const quoted = new Set(quote.lineItems.map((l) => l.rfqLineItemId));
+    const lines = quoted.size > 0 ? rfqLines.filter((line) => quoted.has(line.id)) : rfqLines;
+
+    const raw: Record<RiskFactorKey, Omit<RiskFactor, "key" | "label" | "flagged">> = {
+      singleSource: singleSourceFactor(quote.vendor, lines, suppliers),
+      priceVolatility: volatilityFactor(quote.vendor.id, lines, history),
+      countryRisk: countryFactor(quote.vendor.country, countries),
+      capacity: capacityFactor(quote.vendor, lines),
+      newVendor: newVendorFactor(quote.vendor.discoveryDate),
+    };
+    const factors = (Object.keys(raw) as RiskFactorKey[]).map((key) => ({
+      key,
+      label: RISK_FACTOR_LABELS[key],
+      ...raw[key],
+      flagged: raw[key].level === "medium" || raw[key].level === "high",
+    }));
+
+    const flags = factors.filter((f) => f.flagged).map((f) => f.key);
+    const level: RiskLevel =
+      factors.some((f) => f.level === "high") || flags.length >= 3
+        ? "high"
+        : flags.length > 0
+          ? "medium"
+          : "low";
+    risks.set(quote.id, { level, flags, factors });
+  }
+  return risks;
+}
+
+// ─── Country risk table ───────────────────────────────────────
+
+export async function listCountryRisks() {
+  return prisma.countryRisk.findMany({ orderBy: { country: "asc" } });
+}
+
+/** Add or update a country's score; names match case-insensitively */
+export async function setCountryRisk(input: SetCountryRiskInput, updatedById?: string) {
+  const existing = await prisma.countryRisk.findFirst({
+    where: { country: { equals: input.country, mode: "insensitive" } },
+  });
+  const data = { score: input.score, notes: input.notes ?? null, updatedById };
+  return existing
+    ? prisma.countryRisk.update({ where: { id: existing.id }, data })
+    : prisma.countryRisk.create({ data: { country: input.country, ...data } });
+}
+
+export async function deleteCountryRisk(id: string) {
+  await prisma.countryRisk.delete({ where: { id } });
+}
@@ -8,6 +8,7 @@
  */
 
 import OpenAI from "openai";
+import { normalizeCurrencyCode } from "./currency.service.js";
 
 export interface ExtractedVendor {
   companyName: string;
@@ -34,6 +35,21 @@ interface SearchResultInput {
   snippet: string;
 }
 
+/**
+ * Filled in by the OpenAI calls below when the caller passes one, so the
+ * discovery trace can show exactly what was asked and answered.
+ */
+export interface LlmTrace {
+  model?: string;
+  messages?: Array<{ role: string; content: string }>;
+  response?: string | null;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  durationMs?: number;
+  parseError?: string;
+}
+
 // ─── OpenAI Client ────────────────────────────────────────────
 
 let openaiClient: OpenAI | null = null;
@@ -57,15 +73,14 @@ export async function researchVendors(
   productCategory: string,
   country: string,
   maxResults: number = 10,
+  trace?: LlmTrace,
 ): Promise<ExtractedVendor[]> {
   const openai = getOpenAI();
 
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [
-      {
-        role: "system",
-        content: `You are a procurement research specialist with deep knowledge of global manufacturers and suppliers.
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: `You are a procurement research specialist with deep knowledge of global manufacturers and suppliers.
 
 RULES:
 - Only include companies you have reasonable knowledge about
@@ -76,10 +91,10 @@ RULES:
 - Website URLs should be realistic; set to null if unsure
 - Be specific about certifications only when confident
 - Product categories should reflect what the vendor actually produces`,
-      },
-      {
-        role: "user",
-        content: `Research and identify up to ${maxResults} manufacturers/suppliers of "${productCategory}" in ${country}.
+    },
+    {
+      role: "user",
+      content: `Research and identify up to ${maxResults} manufacturers/suppliers of "${productCategory}" in ${country}.
 
 Return a JSON object:
 {
@@ -101,14 +116,20 @@ Return a JSON object:
 }
 
 Focus on well-established companies known in the ${productCategory} industry in ${country}.`,
-      },
-    ],
+    },
+  ];
+
+  const startedAt = Date.now();
+  const response = await openai.chat.completions.create({
+    model: MODEL,
+    messages,
     response_format: { type: "json_object" },
     temperature: 0.7,
     max_tokens: 4000,
   });
 
   const content = response.choices[0]?.message?.content;
+  recordTrace(trace, messages, response, startedAt);
   if (!content) return [];
 
   try {
@@ -116,6 +137,7 @@ Focus on well-established companies known in the ${productCategory} industry in
     return (parsed.vendors || []).map(sanitizeVendor);
   } catch (err) {
     console.error("[VendorExtractor] Failed to parse AI research response:", err);
+    if (trace) trace.parseError = String(err);
     return [];
   }
 }
@@ -130,6 +152,7 @@ export async function extractVendorsFromResults(
   results: SearchResultInput[],
   productCategory: string,
   country: string,
+  trace?: LlmTrace,
 ): Promise<ExtractedVendor[]> {
   if (results.length === 0) return [];
 
@@ -142,23 +165,22 @@ export async function extractVendorsFromResults(
     )
     .join("\n\n");
 
-  const response = await openai.chat.completions.create({
-    model: MODEL,
-    messages: [
-      {
-        role: "system",
-        content: `You are analyzing web search results to identify vendors and suppliers.
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: `You are analyzing web search results to identify vendors and suppliers.
 
 RULES:
 - Only include entries that are clearly vendors, manufacturers, or suppliers
 - Skip directories, listing sites, news articles, and non-vendor pages
+- Exception: a supplier profile on a B2B marketplace (Alibaba, IndiaMART, ThomasNet) is a vendor — use the listed company and the full profile URL as the website
 - Extract as much information as possible from the title and snippet
-- Use the URL domain as the website
+- Otherwise use the URL domain as the website
 - Set confidence based on how clearly the result identifies a real vendor`,
-      },
-      {
-        role: "user",
-        content: `I searched for "${productCategory}" suppliers in "${country}".
+    },
+    {
+      role: "user",
+      content: `I searched for "${productCategory}" suppliers in "${country}".
 
 Search results:
 ${resultsText}
@@ -183,14 +205,20 @@ Extract vendor information. Return a JSON object:
 }
 
 Only include results that represent actual vendors/manufacturers.`,
-      },
-    ],
+    },
+  ];
+
+  const startedAt = Date.now();
+  const response = await openai.chat.completions.create({
+    model: MODEL,
+    messages,
     response_format: { type: "json_object" },
     temperature: 0.3,
     max_tokens: 4000,
   });
 
   const content = response.choices[0]?.message?.content;
+  recordTrace(trace, messages, response, startedAt);
   if (!content) return [];
 
   try {
@@ -198,6 +226,7 @@ Only include results that represent actual vendors/manufacturers.`,
     return (parsed.vendors || []).map(sanitizeVendor);
   } catch (err) {
     console.error("[VendorExtractor] Failed to parse extraction response:", err);
+    if (trace) trace.parseError = String(err);
     return [];
   }
 }
@@ -278,6 +307,25 @@ export function generateMockVendors(
 
 // ─── Helpers ──────────────────────────────────────────────────
 
+function recordTrace(
+  trace: LlmTrace | undefined,
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  response: OpenAI.Chat.ChatCompletion,
+  startedAt: number,
+): void {
+  if (!trace) return;
+  trace.model = response.model || MODEL;
+  trace.messages = messages.map((m) => ({
+    role: m.role,
+    content: typeof m.content === "string" ? m.content : JSON.stringify(m.content),
+  }));
+  trace.response = response.choices[0]?.message?.content ?? null;
+  trace.promptTokens = response.usage?.prompt_tokens;
+  trace.completionTokens = response.usage?.completion_tokens;
+  trace.totalTokens = response.usage?.total_tokens;
+  trace.durationMs = Date.now() - startedAt;
+}
+
 function sanitizeVendor(v: unknown): ExtractedVendor {
   const raw = v as Record<string, unknown>;
   return {
@@ -302,7 +350,10 @@ function sanitizeVendor(v: unknown): ExtractedVendor {
         : 0.5,
     priceMin: typeof raw.priceMin === "number" ? raw.priceMin : undefined,
     priceMax: typeof raw.priceMax === "number" ? raw.priceMax : undefined,
-    priceCurrency: typeof raw.priceCurrency === "string" ? raw.priceCurrency : undefined,
+    priceCurrency:
+      typeof raw.priceCurrency === "string"
+        ? (normalizeCurrencyCode(raw.priceCurrency) ?? undefined)
+        : undefined,
     priceDiscovery: raw.priceDiscovery,
   };
 }
@@ -0,0 +1,437 @@
+/**
+ * Vendor Performance Service — the PRD's weighted Vendor Score.
+ *
+ *   Vendor Score = w1·Q + w2·R + w3·P + w4·C + w5·T
+ *
+ *   quality      Q  defect rate of recent deliveries, plus certifications
+ *   reliability  R  on-time delivery, plus the vendor's response rate
+ *   price        P  quoted prices against the other quotes on the same RFQs
+ *   capacity     C  how much of the ordered quantity was delivered
+ *   terms        T  payment flexibility of the vendor's quotes
+ *
+ * Each component is 0–1 and the score is Σ(weight × value) / Σ(weight) over
+ * the components there is data for. Vendor.qualityScore, reliabilityScore
+ * and performanceScore hold Q, R and the Vendor Score on a 0–10 scale; they
+ * are recalculated whenever a DeliveryEvent is recorded or the weights
+ * change, and every recalculation leaves a VendorScoreSnapshot behind.
+ * Each organisation sets its own weights.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { convertAmount, loadRateTable } from "./currency.service.js";
+import { parsePaymentTerms } from "./payment-terms.service.js";
+import type {
+  DeliveryEventInput,
+  VendorScoringWeightsInput,
+} from "../schemas/vendor.schema.js";
+
+export type VendorScoringWeights = VendorScoringWeightsInput;
+export type VendorScoreKey = keyof VendorScoringWeights;
+
+export const DEFAULT_VENDOR_SCORING_WEIGHTS: VendorScoringWeights = {
+  quality: 0.3,
+  reliability: 0.3,
+  price: 0.2,
+  capacity: 0.1,
+  terms: 0.1,
+};
+
+export const VENDOR_SCORE_LABELS: Record<VendorScoreKey, string> = {
+  quality: "Quality",
+  reliability: "Reliability",
+  price: "Price competitiveness",
+  capacity: "Capacity",
+  terms: "Trade terms",
+};
+
+/** Scores look at this many of the latest deliveries and quotes */
+const RECENT_EVENTS = 50;
+const RECENT_QUOTES = 20;
+/** Average defect rate that scores 0 on the delivery part of quality */
+const DEFECT_TOLERANCE = 0.1;
+/** Days late that score 0 for a delivery */
+const LATE_TOLERANCE_DAYS = 30;
+/** Effective payment days that score 1 on terms */
+const TERMS_FULL_DAYS = 90;
+
+export interface VendorScoreComponent {
+  key: VendorScoreKey;
+  label: string;
+  /** 0–1, or null when there is no data for it yet */
+  value: number | null;
+  weight: number;
+  /** Share of the Vendor Score this component accounts for */
+  contribution: number;
+  detail: string;
+}
+
+export interface VendorScoreBreakdown {
+  /** 0–1 */
+  score: number;
+  components: VendorScoreComponent[];
+  eventCount: number;
+}
+
+// ─── Weights ──────────────────────────────────────────────────
+
+/** The organisation's weights; its config row is keyed by the organisation's id */
+export async function getVendorScoringWeights(organizationId: string): Promise<VendorScoringWeights> {
+  const config = await prisma.vendorScoringConfig.findUnique({
+    where: { id: organizationId },
+  });
+  if (!config) return DEFAULT_VENDOR_SCORING_WEIGHTS;
+
+  return {
+    ...DEFAULT_VENDOR_SCORING_WEIGHTS,
+    ...(config.weights as Partial<VendorScoringWeights>),
+  };
+}
+
+/** Save the weights and rescore the organisation's vendors that have deliveries on record */
+export async function updateVendorScoringWeights(
+  organizationId: string,
+  weights: VendorScoringWeights,
+  updatedById?: string,
+): Promise<VendorScoringWeights> {
+  await prisma.vendorScoringConfig.upsert({
+    where: { id: organizationId },
+    create: { id: organizationId, weights, updatedById },
+    update: { weights, updatedById },
+  });
+
+  const vendors = await prisma.deliveryEvent.findMany({
+    where: { vendor: { organizationId } },
+    distinct: ["vendorId"],
+    select: { vendorId: true },
+  });
+  for (const { vendorId } of vendors) {
+    await recalculateVendorScores(vendorId);
+  }
+  console.log(`[VendorPerformance] Weights updated, rescored ${vendors.length} vendor(s)`);
+  return weights;
+}
+
+// ─── Delivery events ──────────────────────────────────────────
+
+export async function recordDeliveryEvent(
+  vendorId: string,
+  input: DeliveryEventInput,
+  recordedById: string,
+) {
+  let quoteId = input.quoteId ?? null;
+
+  if (input.purchaseOrderId) {
+    const po = await prisma.purchaseOrder.findUnique({
+      where: { id: input.purchaseOrderId },
+      select: { vendorId: true, quoteId: true },
+    });
+    if (!po || po.vendorId !== vendorId) {
+      throw new Error("Purchase order not found for this vendor");
+    }
+    if (quoteId && quoteId !== po.quoteId) {
+      throw new Error("The quote does not belong to this purchase order");
+    }
+    quoteId = po.quoteId;
+  } else if (quoteId) {
+    const quote = await prisma.quote.findUnique({
+      where: { id: quoteId },
+      select: { vendorId: true, status: true },
+    });
+    if (!quote || quote.vendorId !== vendorId) {
+      throw new Error("Quote not found for this vendor");
+    }
+    if (quote.status !== "ACCEPTED") {
+      throw new Error("Deliveries can only be recorded against an accepted quote");
+    }
+  }
+
+  const event = await prisma.deliveryEvent.create({
+    data: {
+      vendorId,
+      quoteId,
+      purchaseOrderId: input.purchaseOrderId ?? null,
+      deliveredAt: input.deliveredAt ? new Date(input.deliveredAt) : new Date(),
+      daysLate: input.daysLate,
+      defectRate: input.defectRate,
+      shortfallRate: input.shortfallRate,
+      notes: input.notes,
+      recordedById,
+    },
+  });
+
+  const scores = await recalculateVendorScores(vendorId, event.id);
+  return { event, scores };
+}
+
+// ─── Scoring ──────────────────────────────────────────────────
+
+/**
+ * Recompute the vendor's scores from its recent deliveries and quotes,
+ * store them on the vendor and add a snapshot to its history.
+ */
+export async function recalculateVendorScores(vendorId: string, deliveryEventId?: string) {
+  const vendor = await prisma.vendor.findUnique({
+    where: { id: vendorId },
+    select: {
+      organizationId: true,
+      responseRate: true,
+      _count: { select: { certifications: true } },
+    },
+  });
+  if (!vendor) throw new Error("Vendor not found");
+
+  const [events, quotes, weights] = await Promise.all([
+    prisma.deliveryEvent.findMany({
+      where: { vendorId },
+      orderBy: { deliveredAt: "desc" },
+      take: RECENT_EVENTS,
+    }),
+    prisma.quote.findMany({
+      where: { vendorId },
+      orderBy: { receivedAt: "desc" },
+      take: RECENT_QUOTES,
+      select: {
+        id: true,
+        totalPrice: true,
+        currency: true,
+        paymentTerms: true,
+        lineItems: {
+          where: { isAlternate: false },
+          select: { rfqLineItemId: true, unitPrice: true },
+        },
+        rfq: {
+          select: {
+            quotes: {
+              select: {
+                id: true,
+                totalPrice: true,
+                currency: true,
+                lineItems: {
+                  where: { isAlternate: false },
+                  select: { rfqLineItemId: true, unitPrice: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+    getVendorScoringWeights(vendor.organizationId),
+  ]);
+
+  const raw: Array<Omit<VendorScoreComponent, "label" | "weight" | "contribution">> = [];
+  const n = events.length;
+
+  // Quality: defects, with certifications as a small standing bonus
+  const certs = vendor._count.certifications;
+  const certValue = Math.min(1, certs / 2);
+  if (n) {
+    const defects = mean(events.map((e) => e.defectRate));
+    raw.push({
+      key: "quality",
+      value: 0.8 * clamp01(1 - defects / DEFECT_TOLERANCE) + 0.2 * certValue,
+      detail: `${pct(defects)} defects over ${plural(n, "delivery", "deliveries")}, ${plural(certs, "certification")}`,
+    });
+  } else {
+    raw.push({ key: "quality", value: null, detail: "No deliveries recorded" });
+  }
+
+  // Reliability: on-time delivery, with responsiveness as a small part
+  if (n) {
+    const onTime = events.filter((e) => e.daysLate <= 0).length;
+    const punctuality = mean(
+      events.map((e) => clamp01(1 - Math.max(0, e.daysLate) / LATE_TOLERANCE_DAYS)),
+    );
+    raw.push({
+      key: "reliability",
+      value: 0.8 * punctuality + 0.2 * clamp01(vendor.responseRate),
+      detail: `${onTime}/${n} on time, ${pct(vendor.responseRate)} response rate`,
+    });
+  } else {
+    raw.push({ key: "reliability", value: null, detail: "No deliveries recorded" });
+  }
+
+  // Price: the vendor's prices against the median quote for the same line
+  const rates = await loadRateTable();
+  const ratios: number[] = [];
+  for (const quote of quotes) {
+    const others = quote.rfq.quotes;
+    const inCurrency = (amount: number, currency: string) =>
+      convertAmount(rates, amount, currency, quote.currency);
+
+    if (quote.lineItems.length) {
+      for (const line of quote.lineItems) {
+        const market = others.flatMap((o) =>
+          o.lineItems
+            .filter((l) => l.rfqLineItemId === line.rfqLineItemId)
+            .map((l) => inCurrency(l.unitPrice, o.currency)),
+        );
+        const ratio = priceRatio(line.unitPrice, market);
+        if (ratio !== null) ratios.push(ratio);
+      }
+    } else {
+      const market = others
+        .filter((o) => o.lineItems.length === 0)
+        .map((o) => inCurrency(o.totalPrice, o.currency));
+      const ratio = priceRatio(quote.totalPrice, market);
+      if (ratio !== null) ratios.push(ratio);
+    }
+  }
+  if (ratios.length) {
+    const ratio = median(ratios);
+    const diff = Math.round((ratio - 1) * 100);
+    raw.push({
+      key: "price",
+      // At the market median 0.5; 20% below scores 1, 20% above scores 0
+      value: clamp01(0.5 - (ratio - 1) * 2.5),
+      detail:
+        diff === 0
+          ? "At the median quote on the same RFQs"
+          : `${Math.abs(diff)}% ${diff < 0 ? "below" : "above"} the median quote on the same RFQs`,
+    });
+  } else {
+    raw.push({ key: "price", value: null, detail: "No competing quotes to compare" });
+  }
+
+  // Capacity: share of ordered quantities actually delivered
+  if (n) {
+    const shortfall = mean(events.map((e) => e.shortfallRate));
+    raw.push({
+      key: "capacity",
+      value: clamp01(1 - shortfall),
+      detail: shortfall > 0 ? `${pct(shortfall)} average shortfall` : "Full quantities delivered",
+    });
+  } else {
+    raw.push({ key: "capacity", value: null, detail: "No deliveries recorded" });
+  }
+
+  // Trade terms: days of credit offered, advances counting against
+  const terms = quotes.flatMap((q) => {
+    const parsed = parsePaymentTerms(q.paymentTerms);
+    return parsed ? [parsed.effectiveDays] : [];
+  });
+  if (terms.length) {
+    const days = mean(terms);
+    raw.push({
+      key: "terms",
+      value: clamp01(days / TERMS_FULL_DAYS),
+      detail: `${Math.round(days)} effective payment days on average`,
+    });
+  } else {
+    raw.push({ key: "terms", value: null, detail: "No payment terms quoted" });
+  }
+
+  const breakdown = combineComponents(raw, weights, n);
+  const byKey = new Map(breakdown.components.map((c) => [c.key, c.value]));
+  const scores = {
+    qualityScore: toTen(byKey.get("quality") ?? 0),
+    reliabilityScore: toTen(byKey.get("reliability") ?? 0),
+    performanceScore: toTen(breakdown.score),
+  };
+
+  await prisma.$transaction([
+    prisma.vendor.update({ where: { id: vendorId }, data: scores }),
+    prisma.vendorScoreSnapshot.create({
+      data: {
+        vendorId,
+        deliveryEventId,
+        ...scores,
+        breakdown: breakdown as unknown as Prisma.InputJsonValue,
+      },
+    }),
+  ]);
+
+  console.log(
+    `[VendorPerformance] ${vendorId} scored ${scores.performanceScore}/10 ` +
+      `(Q=${scores.qualityScore} R=${scores.reliabilityScore}, ${n} deliveries)`,
+  );
+  return { ...scores, breakdown };
+}
+
+/** Weighted mean over the components that have data and carry weight */
+export function combineComponents(
+  raw: Array<Omit<VendorScoreComponent, "label" | "weight" | "contribution">>,
+  weights: VendorScoringWeights,
+  eventCount: number,
+): VendorScoreBreakdown {
+  const applicable = raw.filter((c) => c.value !== null && weights[c.key] > 0);
+  const totalWeight = applicable.reduce((sum, c) => sum + weights[c.key], 0);
+
+  const components = raw.map<VendorScoreComponent>((c) => {
+    const weight = weights[c.key];
+    const value = c.value === null ? null : round2(c.value);
+    const contribution =
+      c.value === null || totalWeight === 0 ? 0 : round2((weight * c.value) / totalWeight);
+    return { ...c, value, label: VENDOR_SCORE_LABELS[c.key], weight, contribution };
+  });
+
+  const score = applicable.reduce(
+    (sum, c) => sum + (weights[c.key] * c.value!) / totalWeight,
+    0,
+  );
+  return { score: round2(score), components, eventCount };
+}
+
+// ─── Performance history ──────────────────────────────────────
+
+export async function getVendorPerformance(vendorId: string) {
+  const [events, snapshots] = await Promise.all([
+    prisma.deliveryEvent.findMany({
+      where: { vendorId },
+      include: {
+        quote: { select: { id: true, rfq: { select: { id: true, rfqNumber: true } } } },
+        purchaseOrder: { select: { id: true, poNumber: true } },
+        recordedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { deliveredAt: "desc" },
+      take: RECENT_EVENTS,
+    }),
+    prisma.vendorScoreSnapshot.findMany({
+      where: { vendorId },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    }),
+  ]);
+
+  return { events, snapshots: snapshots.reverse() };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** Price against the median of the RFQ's quotes; null without competition */
+function priceRatio(price: number, market: Array<number | null>): number | null {
+  const known = market.filter((p): p is number => p !== null && p > 0);
+  if (known.length < 2 || price <= 0) return null;
+  return price / median(known);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function clamp01(n: number): number {
+  return Number.isFinite(n) ? Math.max(0, Math.min(1, n)) : 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function toTen(n: number): number {
+  return Math.round(n * 100) / 10;
+}
+
+function pct(n: number): string {
+  return `${Math.round(n * 100)}%`;
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
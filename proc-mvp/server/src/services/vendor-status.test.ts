@@ -0,0 +1,24 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { statusAfterContact } from "./vendor-status.js";
+
+describe("statusAfterContact", () => {
+  it("marks a discovered vendor contacted", () => {
+    assert.equal(statusAfterContact("DISCOVERED", "EMAIL"), "CONTACTED");
+    assert.equal(statusAfterContact("DISCOVERED", "WHATSAPP"), "CONTACTED");
+  });
+
+  it("keeps an active vendor active when they receive an RFQ invitation", () => {
+    assert.equal(statusAfterContact("ACTIVE", "EMAIL"), "ACTIVE");
+  });
+
+  it("leaves contacted and inactive vendors alone", () => {
+    assert.equal(statusAfterContact("CONTACTED", "WHATSAPP"), "CONTACTED");
+    assert.equal(statusAfterContact("INACTIVE", "EMAIL"), "INACTIVE");
+  });
+
+  it("makes a vendor we order from active", () => {
+    assert.equal(statusAfterContact("CONTACTED", "ORDER"), "ACTIVE");
+    assert.equal(statusAfterContact("INACTIVE", "ORDER"), "ACTIVE");
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Vendor Status — how messaging a vendor moves their status.
+ *
+ * Outreach of any kind (introductions, RFQ invitations, counter-offers,
+ * cancellation notices, sequence steps) only promotes a DISCOVERED vendor
+ * to CONTACTED; a purchase order makes the vendor ACTIVE. Other statuses
+ * are left alone, so inviting an ACTIVE vendor to quote keeps them ACTIVE.
+ */
+
+import type { CommunicationType, VendorStatus } from "@prisma/client";
+
+export function statusAfterContact(current: VendorStatus, type: CommunicationType): VendorStatus {
+  if (type === "ORDER") return "ACTIVE";
+  return current === "DISCOVERED" ? "CONTACTED" : current;
+}
@@ -0,0 +1,514 @@
+/**
+ * Website Crawler — bounded, robots.txt-respecting vendor site crawl.
+ *
+ * Starting from the vendor's homepage, follows same-site links that look
+ * like contact / about / products / certifications pages (breadth-first,
+ * limited by depth and page count) and extracts:
+ * - emails and phones (every page)
+ * - postal addresses (<address>, schema.org markup, "Address:" labels)
+ * - certifications (ISO 9001, CE, RoHS …)
+ * - product names (from product/catalogue pages)
+ * - year founded and social profile links
+ *
+ * Works against any base URL, including http://localhost, so it can be run
+ * offline against the fixture site (see scripts/crawl-fixture.ts).
+ */
+
+import * as cheerio from "cheerio";
+import { extractContactsFromHtml } from "./contact-extractor.service.js";
+
+const USER_AGENT = "Mozilla/5.0 (compatible; ProcMVP/1.0; +https://procmvp.com)";
+/** Token matched against robots.txt User-agent lines */
+const ROBOTS_AGENT = "procmvp";
+const MAX_CRAWL_DELAY_MS = 5_000;
+
+export interface CrawlOptions {
+  maxPages?: number;
+  maxDepth?: number;
+  timeoutMs?: number;
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  status: number | null;
+  error?: string;
+}
+
+export interface CrawlResult {
+  startUrl: string;
+  pages: CrawledPage[];
+  /** Same-site URLs skipped because robots.txt disallows them */
+  blockedByRobots: string[];
+  emails: string[];
+  phones: string[];
+  addresses: string[];
+  certifications: string[];
+  products: string[];
+  yearFounded: number | null;
+  socialLinks: Record<string, string>;
+  crawledAt: string;
+}
+
+// ─── Crawl ────────────────────────────────────────────────────
+
+export async function crawlVendorWebsite(
+  website: string,
+  options: CrawlOptions = {},
+): Promise<CrawlResult> {
+  const maxPages = options.maxPages ?? 8;
+  const maxDepth = options.maxDepth ?? 2;
+  const timeoutMs = options.timeoutMs ?? 8_000;
+
+  const startUrl = normalizeStartUrl(website);
+  const origin = new URL(startUrl).origin;
+  const robots = await loadRobots(origin, timeoutMs);
+
+  const result: CrawlResult = {
+    startUrl,
+    pages: [],
+    blockedByRobots: [],
+    emails: [],
+    phones: [],
+    addresses: [],
+    certifications: [],
+    products: [],
+    yearFounded: null,
+    socialLinks: {},
+    crawledAt: new Date().toISOString(),
+  };
+  const emails = new Set<string>();
+  const phones = new Set<string>();
+  const addresses = new Set<string>();
+  const certifications = new Set<string>();
+  const products = new Set<string>();
+
+  const queue: Array<{ url: string; depth: number; hint: string }> = [
+    { url: startUrl, depth: 0, hint: "" },
+  ];
+  const seen = new Set<string>([canonical(startUrl)]);
+
+  while (queue.length > 0 && result.pages.length < maxPages) {
+    const { url, depth, hint } = queue.shift()!;
+
+    const { pathname, search } = new URL(url);
+    if (!robots.isAllowed(pathname + search)) {
+      result.blockedByRobots.push(url);
+      continue;
+    }
+    if (result.pages.length > 0 && robots.crawlDelayMs > 0) {
+      await sleep(robots.crawlDelayMs);
+    }
+
+    const page = await fetchPage(url, timeoutMs);
+    result.pages.push({ url, depth, status: page.status, error: page.error });
+    if (!page.html) continue;
+
+    const $ = cheerio.load(page.html);
+    const pageKind = classifyPage(url, hint, $("title").text());
+
+    const contacts = extractContactsFromHtml(page.html);
+    contacts.emails.forEach((e) => emails.add(e));
+    contacts.phones.forEach((p) => phones.add(p));
+    extractAddresses($).forEach((a) => addresses.add(a));
+    extractCertifications($("body").text(), pageKind === "certifications").forEach(
+      (c) => certifications.add(c),
+    );
+    if (pageKind === "products") {
+      extractProducts($).forEach((p) => products.add(p));
+    }
+    result.yearFounded ??= extractYearFounded($);
+    Object.assign(result.socialLinks, {
+      ...extractSocialLinks($),
+      ...result.socialLinks,
+    });
+
+    if (depth >= maxDepth) continue;
+
+    // Queue interesting same-site links, most useful pages first
+    const links: Array<{ url: string; hint: string; rank: number }> = [];
+    $("a[href]").each((_, el) => {
+      const href = $(el).attr("href");
+      if (!href) return;
+      let target: URL;
+      try {
+        target = new URL(href, url);
+      } catch {
+        return;
+      }
+      if (!/^https?:$/.test(target.protocol) || !sameSite(target, origin)) return;
+      target.hash = "";
+
+      const text = $(el).text().replace(/\s+/g, " ").trim();
+      const rank = linkRank(target.pathname, text);
+      if (rank === null) return;
+
+      const key = canonical(target.toString());
+      if (seen.has(key)) return;
+      seen.add(key);
+      links.push({ url: target.toString(), hint: text, rank });
+    });
+    links
+      .sort((a, b) => a.rank - b.rank)
+      .forEach((l) => queue.push({ url: l.url, depth: depth + 1, hint: l.hint }));
+  }
+
+  result.emails = [...emails];
+  result.phones = [...phones];
+  result.addresses = [...addresses].slice(0, 5);
+  result.certifications = [...certifications];
+  result.products = [...products].slice(0, 50);
+
+  console.log(
+    `[Crawler] ${startUrl} | pages=${result.pages.length} blocked=${result.blockedByRobots.length} ` +
+      `emails=${result.emails.length} phones=${result.phones.length} certs=${result.certifications.length} products=${result.products.length}`,
+  );
+
+  return result;
+}
+
+/** The crawl stored on a DiscoveryResult (rawData.crawl), if any */
+export function getStoredCrawl(rawData: unknown): CrawlResult | null {
+  if (!rawData || typeof rawData !== "object") return null;
+  const crawl = (rawData as { crawl?: unknown }).crawl;
+  if (!crawl || typeof crawl !== "object" || !("pages" in crawl)) return null;
+  return crawl as CrawlResult;
+}
+
+// ─── Link selection ───────────────────────────────────────────
+
+const LINK_PATTERNS: Array<{ kind: PageKind; pattern: RegExp }> = [
+  { kind: "contact", pattern: /contact|reach[- ]?us|get[- ]in[- ]touch|enquir|inquir/i },
+  { kind: "certifications", pattern: /certif|quality|iso\b|accredit|compliance/i },
+  { kind: "about", pattern: /about|company|profile|who[- ]we[- ]are|history|overview/i },
+  { kind: "products", pattern: /product|catalog|catalogue|range|solutions|offerings/i },
+];
+
+type PageKind = "contact" | "certifications" | "about" | "products" | "other";
+
+/** Lower rank = crawl earlier; null = don't follow */
+function linkRank(pathname: string, text: string): number | null {
+  if (/\.(pdf|jpe?g|png|gif|svg|zip|docx?|xlsx?)$/i.test(pathname)) return null;
+  const haystack = `${pathname} ${text}`;
+  const index = LINK_PATTERNS.findIndex((p) => p.pattern.test(haystack));
+  return index === -1 ? null : index;
+}
+
+function classifyPage(url: string, hint: string, title: string): PageKind {
+  const haystack = `${new URL(url).pathname} ${hint} ${title}`;
+  return LINK_PATTERNS.find((p) => p.pattern.test(haystack))?.kind ?? "other";
+}
+
+// ─── Extraction ───────────────────────────────────────────────
+
+const CERTIFICATION_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "ISO 9001", pattern: /\bISO[\s-]*9001\b/i },
+  { name: "ISO 14001", pattern: /\bISO[\s-]*14001\b/i },
+  { name: "ISO 45001", pattern: /\bISO[\s-]*45001\b/i },
+  { name: "ISO 13485", pattern: /\bISO[\s-]*13485\b/i },
+  { name: "ISO 22000", pattern: /\bISO[\s-]*22000\b/i },
+  { name: "ISO 27001", pattern: /\bISO(?:\/IEC)?[\s-]*27001\b/i },
+  { name: "IATF 16949", pattern: /\bIATF[\s-]*16949\b/i },
+  { name: "OHSAS 18001", pattern: /\bOHSAS[\s-]*18001\b/i },
+  { name: "CE", pattern: /\bCE[\s-]+(?:mark(?:ed|ing)?|certif(?:ied|icate|ication))/i },
+  { name: "RoHS", pattern: /\bRoHS\b/ },
+  { name: "REACH", pattern: /\bREACH\b(?=[\s-]*(?:compliant|certif|regulation|registered))/ },
+  { name: "UL", pattern: /\bUL[\s-]+(?:listed|certified|recognized)\b/i },
+  { name: "FDA", pattern: /\bFDA[\s-]+(?:approved|registered|certified|compliant)\b/i },
+  { name: "GMP", pattern: /\b(?:c?GMP)\b/ },
+  { name: "HACCP", pattern: /\bHACCP\b/ },
+  { name: "API 5L", pattern: /\bAPI[\s-]*5L\b/i },
+  { name: "ASME", pattern: /\bASME\b/ },
+  { name: "BIS", pattern: /\bBIS[\s-]+(?:certified|certification|licen[cs]e|mark)\b/i },
+  { name: "BSCI", pattern: /\bBSCI\b/ },
+  { name: "FSC", pattern: /\bFSC[\s-]+certified\b/i },
+];
+
+/**
+ * On a dedicated certifications page a bare "CE" also counts; elsewhere it
+ * needs context ("CE marked") to avoid false positives.
+ */
+export function extractCertifications(text: string, certificationsPage = false): string[] {
+  const found = CERTIFICATION_PATTERNS.filter((c) => c.pattern.test(text)).map(
+    (c) => c.name,
+  );
+  if (certificationsPage && !found.includes("CE") && /\bCE\b/.test(text)) {
+    found.push("CE");
+  }
+  return found;
+}
+
+function extractAddresses($: cheerio.CheerioAPI): string[] {
+  const addresses: string[] = [];
+  const add = (text: string | undefined) => {
+    const clean = text?.replace(/\s+/g, " ").replace(/^address\s*:?\s*/i, "").trim();
+    if (clean && clean.length >= 10 && clean.length <= 300) addresses.push(clean);
+  };
+
+  $("address").each((_, el) => add($(el).text()));
+  $('[itemprop="address"]').each((_, el) => add($(el).text()));
+
+  // JSON-LD Organization / LocalBusiness
+  for (const node of jsonLdNodes($)) {
+    const addr = node.address;
+    if (typeof addr === "string") add(addr);
+    else if (addr && typeof addr === "object") {
+      const a = addr as Record<string, unknown>;
+      add(
+        [a.streetAddress, a.addressLocality, a.addressRegion, a.postalCode, a.addressCountry]
+          .filter((x) => typeof x === "string")
+          .join(", "),
+      );
+    }
+  }
+
+  // "Address: …" label in running text
+  $("p, li, div, span").each((_, el) => {
+    const own = $(el).clone().children().remove().end().text();
+    const m = own.match(/\b(?:address|add\.?)\s*:\s*(.+)/i);
+    if (m) add(m[1]);
+  });
+
+  return [...new Set(addresses)];
+}
+
+function extractProducts($: cheerio.CheerioAPI): string[] {
+  const names: string[] = [];
+  const add = (text: string | undefined) => {
+    const clean = text?.replace(/\s+/g, " ").trim();
+    if (clean && clean.length >= 3 && clean.length <= 80) names.push(clean);
+  };
+
+  for (const node of jsonLdNodes($)) {
+    if (node["@type"] === "Product" && typeof node.name === "string") add(node.name);
+  }
+  $('[itemtype*="schema.org/Product"] [itemprop="name"]').each((_, el) => add($(el).text()));
+  $('[class*="product"] h2, [class*="product"] h3, [class*="product"] h4, .product-title, .product-name').each(
+    (_, el) => add($(el).text()),
+  );
+
+  // Fallback: section headings on a product page
+  if (names.length === 0) {
+    $("main h2, main h3, article h2, article h3, h3").each((_, el) => add($(el).text()));
+  }
+
+  return [...new Set(names)];
+}
+
+function extractYearFounded($: cheerio.CheerioAPI): number | null {
+  const thisYear = new Date().getFullYear();
+  const valid = (y: number) => y >= 1800 && y <= thisYear;
+
+  for (const node of jsonLdNodes($)) {
+    const y = Number(String(node.foundingDate ?? "").slice(0, 4));
+    if (valid(y)) return y;
+  }
+
+  const text = $("body").text();
+  const m = text.match(
+    /\b(?:founded|established|estd\.?|since|incorporated|set up)\s*(?:in\s*)?((?:18|19|20)\d{2})\b/i,
+  );
+  if (m && valid(Number(m[1]))) return Number(m[1]);
+  return null;
+}
+
+const SOCIAL_HOSTS: Record<string, RegExp> = {
+  linkedin: /(^|\.)linkedin\.com$/,
+  facebook: /(^|\.)facebook\.com$/,
+  twitter: /(^|\.)(twitter|x)\.com$/,
+  instagram: /(^|\.)instagram\.com$/,
+  youtube: /(^|\.)youtube\.com$/,
+};
+
+function extractSocialLinks($: cheerio.CheerioAPI): Record<string, string> {
+  const links: Record<string, string> = {};
+  $("a[href]").each((_, el) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+    try {
+      const u = new URL(href);
+      for (const [network, host] of Object.entries(SOCIAL_HOSTS)) {
+        if (!links[network] && host.test(u.hostname) && u.pathname.length > 1) {
+          links[network] = u.toString();
+        }
+      }
+    } catch {
+      // relative or malformed — not a social link
+    }
+  });
+  return links;
+}
+
+function jsonLdNodes($: cheerio.CheerioAPI): Array<Record<string, unknown>> {
+  const nodes: Array<Record<string, unknown>> = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const data = JSON.parse($(el).text()) as unknown;
+      const queue = Array.isArray(data) ? data : [data];
+      for (const item of queue) {
+        if (!item || typeof item !== "object") continue;
+        const node = item as Record<string, unknown>;
+        nodes.push(node);
+        if (Array.isArray(node["@graph"])) queue.push(...(node["@graph"] as unknown[]));
+      }
+    } catch {
+      // invalid JSON-LD is common; ignore it
+    }
+  });
+  return nodes;
+}
+
+// ─── robots.txt ───────────────────────────────────────────────
+
+interface RobotsRules {
+  isAllowed(path: string): boolean;
+  crawlDelayMs: number;
+}
+
+/**
+ * Fetch and parse robots.txt. Uses the group for our agent token if there
+ * is one, else "*". Longest matching rule wins; Allow wins ties.
+ * A missing robots.txt allows everything; an unreachable one (5xx) allows nothing.
+ */
+async function loadRobots(origin: string, timeoutMs: number): Promise<RobotsRules> {
+  const res = await fetchText(`${origin}/robots.txt`, timeoutMs);
+  if (res.status !== null && res.status >= 500) {
+    return { isAllowed: () => false, crawlDelayMs: 0 };
+  }
+  if (res.status !== 200 || !res.body) {
+    return { isAllowed: () => true, crawlDelayMs: 0 };
+  }
+  return parseRobotsTxt(res.body, ROBOTS_AGENT);
+}
+
+export function parseRobotsTxt(body: string, agent: string): RobotsRules {
+  type Group = { agents: string[]; rules: Array<{ allow: boolean; path: string }>; delay?: number };
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const field = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === "allow" || field === "disallow") {
+      // An empty Disallow means "allow everything"
+      if (value) current.rules.push({ allow: field === "allow", path: value });
+    } else if (field === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds)) current.delay = seconds;
+    }
+  }
+
+  const token = agent.toLowerCase();
+  const group =
+    groups.find((g) => g.agents.some((a) => a !== "*" && token.includes(a))) ??
+    groups.find((g) => g.agents.includes("*"));
+  const rules = group?.rules ?? [];
+
+  return {
+    crawlDelayMs: Math.min((group?.delay ?? 0) * 1000, MAX_CRAWL_DELAY_MS),
+    isAllowed(path: string) {
+      let best: { allow: boolean; length: number } | null = null;
+      for (const rule of rules) {
+        if (!robotsPatternMatches(rule.path, path)) continue;
+        const length = rule.path.length;
+        if (!best || length > best.length || (length === best.length && rule.allow)) {
+          best = { allow: rule.allow, length };
+        }
+      }
+      return best?.allow ?? true;
+    },
+  };
+}
+
+/** robots.txt path pattern: prefix match, `*` wildcard, `$` end anchor */
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
+
+// ─── HTTP ─────────────────────────────────────────────────────
+
+async function fetchText(
+  url: string,
+  timeoutMs: number,
+): Promise<{ status: number | null; body: string | null; contentType: string; error?: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, {
+      signal: controller.signal,
+      redirect: "follow",
+      headers: { "User-Agent": USER_AGENT },
+    });
+    const contentType = res.headers.get("content-type") ?? "";
+    return { status: res.status, body: res.ok ? await res.text() : null, contentType };
+  } catch (err: unknown) {
+    const message =
+      err instanceof Error && err.name === "AbortError"
+        ? "Timed out"
+        : err instanceof Error
+          ? err.message
+          : "Request failed";
+    return { status: null, body: null, contentType: "", error: message };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function fetchPage(
+  url: string,
+  timeoutMs: number,
+): Promise<{ status: number | null; html: string | null; error?: string }> {
+  const res = await fetchText(url, timeoutMs);
+  if (res.body && res.contentType && !res.contentType.includes("html")) {
+    return { status: res.status, html: null, error: `Skipped ${res.contentType}` };
+  }
+  return { status: res.status, html: res.body, error: res.error };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function normalizeStartUrl(website: string): string {
+  const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+  url.hash = "";
+  return url.toString();
+}
+
+function sameSite(target: URL, origin: string): boolean {
+  const strip = (h: string) => h.replace(/^www\./, "").toLowerCase();
+  const base = new URL(origin);
+  return strip(target.hostname) === strip(base.hostname) && target.port === base.port;
+}
+
+/** Dedup key: no trailing slash, no "www." */
+function canonical(url: string): string {
+  const u = new URL(url);
+  u.hash = "";
+  return `${u.hostname.replace(/^www\./, "")}${u.port ? `:${u.port}` : ""}${u.pathname.replace(/\/$/, "")}${u.search}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -6,6 +6,7 @@
  *
  * Note: Business-initiated messages require pre-approved templates.
  * Use TWILIO_WHATSAPP_TEMPLATE_SID for template-based outreach.
+ * Incoming messages and the free-form window: inbound-whatsapp.service.ts.
  */
 
 import twilio from "twilio";
@@ -131,3 +132,30 @@ We discovered your company and would like to explore a partnership. Interested i
 Best regards,
 ${company}`;
 }
+
+/**
+ * Build a follow-up message for an outreach sequence step.
+ */
+export function buildFollowUpMessage(params: {
+  vendorName: string;
+  productCategories: string[];
+  companyName?: string;
+  final?: boolean;
+}): string {
+  const company = params.companyName || "Our Company";
+  const products = params.productCategories.join(", ") || "your products";
+
+  return params.final
+    ? `Hello ${params.vendorName},
+
+A last follow-up from ${company}: we are still sourcing ${products}. Reply here if you would like to receive our RFQs.
+
+Best regards,
+${company}`
+    : `Hello ${params.vendorName},
+
+Following up on our earlier message from ${company} about ${products}. Would you be interested in receiving our RFQs?
+
+Best regards,
+${company}`;
+}